@@ -0,0 +1,168 @@
+/**
+ * Headless Battle Simulator CLI
+ *
+ * Runs wave battles with the real unit/ability data, without React or canvas.
+ *
+ * Usage:
+ *   npm run sim -- [options]
+ *
+ * Options:
+ *   --waves <a>[-<b>]      Wave or inclusive wave range (default: 1)
+ *   --seeds <n>            Number of seeds per wave (default: 1)
+ *   --seed <s>             First seed; runs s, s+1, ... (default: 1)
+ *   --layout <file>        Ally layout JSON ({ "placements": [{ type, col, row }] })
+ *   --format <json|csv>    json = every battle result, csv = per-wave summary (default: json)
+ *   --out <file>           Write output to a file instead of stdout
+ *   --delta <seconds>      Fixed tick delta (default: 1/60)
+ *   --max-duration <s>     Real-time limit per battle before timeout (default: 300)
+ *   --no-abilities         Disable unit abilities
+ *
+ * Examples:
+ *   npm run sim -- --waves 5
+ *   npm run sim -- --waves 1-20 --seeds 50 --format csv --out balance.csv
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import {
+  HeadlessBattleResult,
+  SavedAllyLayout,
+  formatSummaryCsv,
+  runBattleSweep,
+  summarizeBattleResults,
+} from '../src/core/battle';
+import { createBattleRegistries } from '../src/data/battle';
+
+interface CliOptions {
+  waveStart: number;
+  waveEnd: number;
+  seedCount: number;
+  firstSeed: number;
+  layoutPath?: string;
+  format: 'json' | 'csv';
+  outPath?: string;
+  fixedDelta?: number;
+  maxDuration?: number;
+  abilities: boolean;
+}
+
+function fail(message: string): never {
+  console.error(`battle-sim: ${message}`);
+  process.exit(1);
+}
+
+function parseNumber(flag: string, value: string | undefined): number {
+  const parsed = Number(value);
+  if (value === undefined || !Number.isFinite(parsed)) {
+    fail(`${flag} expects a number, got "${value ?? ''}"`);
+  }
+  return parsed;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    waveStart: 1,
+    waveEnd: 1,
+    seedCount: 1,
+    firstSeed: 1,
+    format: 'json',
+    abilities: true,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    switch (flag) {
+      case '--waves': {
+        const [start, end] = (value ?? '').split('-');
+        options.waveStart = parseNumber(flag, start);
+        options.waveEnd = end === undefined ? options.waveStart : parseNumber(flag, end);
+        i++;
+        break;
+      }
+      case '--seeds':
+        options.seedCount = parseNumber(flag, value);
+        i++;
+        break;
+      case '--seed':
+        options.firstSeed = parseNumber(flag, value);
+        i++;
+        break;
+      case '--layout':
+        options.layoutPath = value;
+        i++;
+        break;
+      case '--format':
+        if (value !== 'json' && value !== 'csv') fail('--format expects json or csv');
+        options.format = value;
+        i++;
+        break;
+      case '--out':
+        options.outPath = value;
+        i++;
+        break;
+      case '--delta':
+        options.fixedDelta = parseNumber(flag, value);
+        i++;
+        break;
+      case '--max-duration':
+        options.maxDuration = parseNumber(flag, value);
+        i++;
+        break;
+      case '--no-abilities':
+        options.abilities = false;
+        break;
+      default:
+        fail(`unknown option "${flag}"`);
+    }
+  }
+
+  if (options.waveEnd < options.waveStart) fail('wave range end is before start');
+  if (options.seedCount < 1) fail('--seeds must be at least 1');
+  return options;
+}
+
+function loadLayout(path: string): SavedAllyLayout {
+  const layout = JSON.parse(readFileSync(path, 'utf8')) as SavedAllyLayout;
+  if (!Array.isArray(layout.placements)) fail(`${path} has no "placements" array`);
+  return layout;
+}
+
+function main(): void {
+  const options = parseArgs(process.argv.slice(2));
+  const registries = createBattleRegistries();
+  const seeds = Array.from({ length: options.seedCount }, (_, i) => options.firstSeed + i);
+
+  const results = runBattleSweep(
+    {
+      unitRegistry: registries.units,
+      abilityRegistry: options.abilities ? registries.abilities : undefined,
+      waveRegistry: registries.waves,
+      affixRegistry: registries.affixes,
+      allyLayout: options.layoutPath ? loadLayout(options.layoutPath) : null,
+      waveStart: options.waveStart,
+      waveEnd: options.waveEnd,
+      seeds,
+      fixedDelta: options.fixedDelta,
+      maxDuration: options.maxDuration,
+    },
+    (result: HeadlessBattleResult) => {
+      console.error(
+        `wave ${result.waveNumber} seed ${result.seed}: ${result.outcome} ` +
+          `(${result.simulationTime.toFixed(1)}s simulated)`
+      );
+    }
+  );
+
+  const output =
+    options.format === 'csv'
+      ? formatSummaryCsv(summarizeBattleResults(results))
+      : JSON.stringify(results, null, 2);
+
+  if (options.outPath) {
+    writeFileSync(options.outPath, `${output}\n`);
+  } else {
+    console.log(output);
+  }
+}
+
+main();
@@ -0,0 +1,61 @@
+/**
+ * Browser file helpers for sharing player profiles.
+ * Profiles are base64-encoded so they survive being pasted into bug reports.
+ * For Godot migration, replace with FileDialog + Marshalls.utf8_to_base64.
+ */
+
+/**
+ * Encode profile JSON as base64 (UTF-8 safe).
+ */
+export function encodeProfile(json: string): string {
+  const bytes = new TextEncoder().encode(json);
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode a base64 profile back to JSON.
+ * Plain JSON is passed through, so hand-decoded profiles still import.
+ * Returns null if the text is neither.
+ */
+export function decodeProfile(text: string): string | null {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) return trimmed;
+
+  try {
+    const binary = atob(trimmed.replace(/\s+/g, ''));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Download a profile as a base64 text file.
+ */
+export function downloadProfile(json: string): void {
+  const blob = new Blob([encodeProfile(json)], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `action-idle-profile-${new Date().toISOString().slice(0, 10)}.txt`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read profile JSON from a user-selected file.
+ * Returns null if the file is not readable.
+ */
+export async function readProfileFile(file: File): Promise<string | null> {
+  try {
+    return decodeProfile(await file.text());
+  } catch (error) {
+    console.error('Failed to read profile file:', error);
+    return null;
+  }
+}
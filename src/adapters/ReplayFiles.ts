@@ -0,0 +1,32 @@
+import { BattleReplay, deserializeReplay, serializeReplay } from '../core/battle/replay';
+
+/**
+ * Browser file helpers for sharing replays.
+ * For Godot migration, replace with FileDialog + FileAccess.
+ */
+
+/**
+ * Download a replay as a JSON file.
+ */
+export function downloadReplay(replay: BattleReplay): void {
+  const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `wave-${replay.waveNumber}-replay.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a replay from a user-selected file.
+ * Returns null if the file is not a readable replay.
+ */
+export async function readReplayFile(file: File): Promise<BattleReplay | null> {
+  try {
+    return deserializeReplay(await file.text());
+  } catch (error) {
+    console.error('Failed to read replay file:', error);
+    return null;
+  }
+}
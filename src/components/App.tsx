@@ -5,20 +5,35 @@
  * Godot mapping: Main scene with scene switching logic.
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { BattleView } from './battle';
 import { GarageContent } from './assembly';
 import { HangarPage, HangarSection } from './hangar';
 import { UI_COLORS } from '../core/theme/colors';
 import { useAssembly } from '../hooks/useAssembly';
 import { useDossier } from '../hooks/useDossier';
+import { useOfflineProgress } from '../hooks/useOfflineProgress';
+import { usePrestige } from '../hooks/usePrestige';
 import { LocalStorageAdapter } from '../adapters/LocalStorageAdapter';
-import { initializeBattleData, battleUpgradeRegistry } from '../data/battle';
+import { UpgradeApplicator } from '../core/battle/upgrades/UpgradeApplicator';
+import {
+  initializeBattleData,
+  battleUpgradeRegistry,
+  metaUpgradeRegistry,
+  unitRegistry,
+} from '../data/battle';
 import { Panel3D } from './ui/Panel3D';
 import { DossierContent } from './hangar/DossierContent';
+import { OfflineProgressOverlay } from './hangar/OfflineProgressOverlay';
+import { PrestigeContent } from './hangar/PrestigeContent';
+import { downloadReplay, readReplayFile } from '../adapters/ReplayFiles';
+import { downloadProfile, readProfileFile } from '../adapters/ProfileFiles';
+import type { BattleReplay } from '../core/battle';
+import { exportPlayerProfile, importPlayerProfile } from '../core/profile';
+import { getRosterArmy } from '../core/assembly';
 
 /** Current page/scene in the app */
-type AppPage = 'hangar' | 'battle';
+type AppPage = 'hangar' | 'battle' | 'replay';
 
 // Initialize registries on module load
 initializeBattleData();
@@ -26,6 +41,10 @@ initializeBattleData();
 // Create persistence adapter (singleton)
 const persistenceAdapter = new LocalStorageAdapter();
 
+// Apply assembly and prestige upgrades to deployed squads
+const upgradeApplicator = new UpgradeApplicator(battleUpgradeRegistry);
+const metaUpgradeApplicator = new UpgradeApplicator(metaUpgradeRegistry, 'prestige');
+
 function App() {
   const [currentPage, setCurrentPage] = useState<AppPage>('hangar');
   const [hangarSection, setHangarSection] = useState<HangarSection>('garage');
@@ -34,11 +53,40 @@ function App() {
   const assembly = useAssembly({
     persistenceAdapter,
     upgradeRegistry: battleUpgradeRegistry,
+    unitRegistry,
   });
 
+  // Squads deployed in battle
+  const allyArmy = useMemo(() => getRosterArmy(assembly.roster, unitRegistry), [assembly.roster]);
+
   // Dossier state management (fastest clear times)
   const dossier = useDossier({ persistenceAdapter });
 
+  // Prestige state management (Soul Shards and meta upgrades)
+  const prestige = usePrestige({
+    persistenceAdapter,
+    metaUpgradeRegistry,
+  });
+
+  // Upgrades applied to deployed squads
+  const playerUpgrades = useMemo(
+    () => [
+      { applicator: upgradeApplicator, upgradeStates: assembly.upgradeStates },
+      { applicator: metaUpgradeApplicator, upgradeStates: prestige.metaUpgradeStates },
+    ],
+    [assembly.upgradeStates, prestige.metaUpgradeStates]
+  );
+
+  // Rewards earned by auto-battle while the player was away
+  const offline = useOfflineProgress({ persistenceAdapter });
+
+  // Replay being watched, and the last replay import error
+  const [activeReplay, setActiveReplay] = useState<BattleReplay | null>(null);
+  const [replayImportError, setReplayImportError] = useState<string | null>(null);
+
+  // Last profile import error
+  const [profileError, setProfileError] = useState<string | null>(null);
+
   // Navigation handlers
   const handleLaunchBattle = useCallback(async () => {
     // Save assembly state before transitioning
@@ -47,11 +95,13 @@ function App() {
   }, [assembly]);
 
   const handleReturnToAssembly = useCallback(
-    async (vestEarned: number, newHighestWave: number) => {
+    async (vestEarned: number, newHighestWave: number, unitsKilled: Record<string, number>) => {
       // Award VEST from battle
       if (vestEarned > 0) {
         assembly.earnVest(vestEarned);
       }
+      // Count kills toward unit unlocks
+      assembly.recordKills(unitsKilled);
       // Update highest wave if needed
       if (newHighestWave > assembly.highestWave) {
         assembly.setHighestWave(newHighestWave);
@@ -62,6 +112,81 @@ function App() {
     [assembly]
   );
 
+  const watchReplay = useCallback((replay: BattleReplay) => {
+    setActiveReplay(replay);
+    setCurrentPage('replay');
+  }, []);
+
+  const { loadReplay } = dossier;
+  const handleWatchReplay = useCallback(
+    async (wave: number) => {
+      const replay = await loadReplay(wave);
+      if (replay) watchReplay(replay);
+    },
+    [loadReplay, watchReplay]
+  );
+
+  const handleExportReplay = useCallback(
+    async (wave: number) => {
+      const replay = await loadReplay(wave);
+      if (replay) downloadReplay(replay);
+    },
+    [loadReplay]
+  );
+
+  const handleImportReplay = useCallback(
+    async (file: File) => {
+      const replay = await readReplayFile(file);
+      setReplayImportError(replay ? null : 'Not a readable replay file.');
+      if (replay) watchReplay(replay);
+    },
+    [watchReplay]
+  );
+
+  const handleExitReplay = useCallback(() => {
+    setActiveReplay(null);
+    setCurrentPage('hangar');
+    setHangarSection('dossier');
+  }, []);
+
+  const handleExportProfile = useCallback(async () => {
+    // Flush assembly and prestige state so the export matches what is on screen
+    await Promise.all([assembly.save(), prestige.save()]);
+    downloadProfile(await exportPlayerProfile(persistenceAdapter));
+  }, [assembly, prestige]);
+
+  const handleImportProfile = useCallback(
+    async (file: File) => {
+      const json = await readProfileFile(file);
+      if (!json) {
+        setProfileError('Not a readable profile file.');
+        return;
+      }
+      // Flush pending debounced saves first so they can't overwrite the imported profile
+      await Promise.all([assembly.save(), prestige.save()]);
+      const result = await importPlayerProfile(persistenceAdapter, json);
+      if (!result.success) {
+        setProfileError(result.errors.join('; '));
+        return;
+      }
+      // Hooks hold the old profile in memory - reload so every save is read fresh
+      window.location.reload();
+    },
+    [assembly, prestige]
+  );
+
+  const { report: offlineReport, collect: collectOffline } = offline;
+  const handleCollectOffline = useCallback(async () => {
+    if (!offlineReport) return;
+    assembly.earnVest(offlineReport.vestEarned);
+    await collectOffline();
+  }, [assembly, offlineReport, collectOffline]);
+
+  const handlePrestige = useCallback(async () => {
+    if (!(await prestige.prestige(assembly.highestWave))) return;
+    await assembly.resetProgress();
+  }, [assembly, prestige]);
+
   // Handle section selection
   const handleSelectSection = useCallback((section: HangarSection) => {
     setHangarSection(section);
@@ -83,6 +208,12 @@ function App() {
           <GarageContent
             selectedUnitType={assembly.selectedUnitType}
             onSelectUnit={assembly.selectUnit}
+            roster={assembly.roster}
+            vest={assembly.vest}
+            unlockedUnits={assembly.unlockedUnits}
+            onPurchaseSquad={assembly.purchaseSquad}
+            onLevelUpSquad={assembly.levelUpSquad}
+            onSetTargetPriority={assembly.setTargetPriority}
           />
         );
       case 'assembly':
@@ -97,6 +228,23 @@ function App() {
             dossierData={dossier.dossierData}
             highestWave={assembly.highestWave}
             totalVestPerSecond={dossier.totalVestPerSecond}
+            replayWaves={dossier.replayWaves}
+            onWatchReplay={handleWatchReplay}
+            onExportReplay={handleExportReplay}
+            onImportReplay={handleImportReplay}
+            importError={replayImportError}
+          />
+        );
+      case 'prestige':
+        return (
+          <PrestigeContent
+            highestWave={assembly.highestWave}
+            vest={assembly.vest}
+            shards={prestige.shards}
+            prestigeCount={prestige.prestigeCount}
+            metaUpgradeStates={prestige.metaUpgradeStates}
+            onPrestige={handlePrestige}
+            onPurchase={prestige.purchase}
           />
         );
       case 'virtuality':
@@ -127,18 +275,33 @@ function App() {
             vestPerSecond={dossier.totalVestPerSecond}
             highestWave={assembly.highestWave}
             onSortie={handleLaunchBattle}
+            onExportProfile={handleExportProfile}
+            onImportProfile={handleImportProfile}
+            profileError={profileError}
           >
             {renderHangarContent()}
           </HangarPage>
+        ) : currentPage === 'replay' && activeReplay ? (
+          <BattleView replay={activeReplay} onExitReplay={handleExitReplay} />
         ) : (
           <BattleView
             vest={assembly.vest}
+            allyArmy={allyArmy}
+            playerUpgrades={playerUpgrades}
             onReturnToAssembly={handleReturnToAssembly}
             onRecordTime={dossier.recordTime}
             isNewRecord={dossier.isNewRecord}
+            onSaveReplay={dossier.saveReplay}
           />
         )}
       </main>
+
+      {/* Offline rewards - wait for assembly so VEST is added to the loaded state, and
+          only collect in the hangar: a mounted BattleView holds gold in memory and would
+          overwrite the saved gold, while a fresh one reads it on mount */}
+      {offlineReport && assembly.loaded && currentPage === 'hangar' && (
+        <OfflineProgressOverlay report={offlineReport} onCollect={handleCollectOffline} />
+      )}
     </div>
   );
 }
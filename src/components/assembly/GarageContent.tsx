@@ -1,12 +1,15 @@
 /**
  * Garage Content Component
  *
- * Content for the Garage section - unit selection and stats.
+ * Content for the Garage section - unit selection, stats and roster.
  * Used within HangarPage.
  */
 
+import { ArmyRoster } from '../../core/assembly';
+import type { TargetPriority } from '../../core/battle/units/types';
 import { UnitSelector } from './UnitSelector';
 import { UnitStatsPanel } from './UnitStatsPanel';
+import { RosterPanel } from './RosterPanel';
 import { Panel3D } from '../ui/Panel3D';
 import { PanelTransition } from '../ui/PanelTransition';
 
@@ -15,14 +18,40 @@ interface GarageContentProps {
   selectedUnitType: string | null;
   /** Called when a unit is selected */
   onSelectUnit: (unitType: string) => void;
+  /** Player's army */
+  roster: ArmyRoster;
+  /** Current VEST amount */
+  vest: number;
+  /** Unit types the player has unlocked */
+  unlockedUnits: ReadonlySet<string>;
+  /** Called when a squad is bought */
+  onPurchaseSquad: (unitType: string) => void;
+  /** Called when a unit type's squads are levelled up */
+  onLevelUpSquad: (unitType: string) => void;
+  /** Called when a unit type's targeting priority is changed (null = default) */
+  onSetTargetPriority: (unitType: string, priority: TargetPriority | null) => void;
 }
 
-export function GarageContent({ selectedUnitType, onSelectUnit }: GarageContentProps) {
+export function GarageContent({
+  selectedUnitType,
+  onSelectUnit,
+  roster,
+  vest,
+  unlockedUnits,
+  onPurchaseSquad,
+  onLevelUpSquad,
+  onSetTargetPriority,
+}: GarageContentProps) {
   return (
     <div className="flex h-full gap-4">
       {/* Left panel - Unit selector */}
       <Panel3D className="w-52 flex-shrink-0">
-        <UnitSelector selectedUnitType={selectedUnitType} onSelectUnit={onSelectUnit} />
+        <UnitSelector
+          selectedUnitType={selectedUnitType}
+          onSelectUnit={onSelectUnit}
+          roster={roster}
+          unlockedUnits={unlockedUnits}
+        />
       </Panel3D>
 
       {/* Right panel - Unit stats (narrower) */}
@@ -31,6 +60,19 @@ export function GarageContent({ selectedUnitType, onSelectUnit }: GarageContentP
           <UnitStatsPanel selectedUnitType={selectedUnitType} />
         </PanelTransition>
       </Panel3D>
+
+      {/* Roster panel - Squads of the selected unit */}
+      <Panel3D className="w-72 flex-shrink-0">
+        <RosterPanel
+          selectedUnitType={selectedUnitType}
+          roster={roster}
+          vest={vest}
+          unlockedUnits={unlockedUnits}
+          onPurchaseSquad={onPurchaseSquad}
+          onLevelUpSquad={onLevelUpSquad}
+          onSetTargetPriority={onSetTargetPriority}
+        />
+      </Panel3D>
     </div>
   );
 }
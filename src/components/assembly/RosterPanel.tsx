@@ -0,0 +1,214 @@
+/**
+ * Roster Panel Component
+ *
+ * Shows the player's squads of the selected unit type with
+ * buy-squad and level-up buttons, their targeting priority,
+ * and the army's supply use.
+ */
+
+import { UI_COLORS } from '../../core/theme/colors';
+import { ROSTER_MAX_SQUAD_LEVEL, ROSTER_SUPPLY_CAP } from '../../core/battle/BattleConfig';
+import {
+  ArmyRoster,
+  RosterCostResult,
+  getRosterSupply,
+  getSquadLevelUpCost,
+  getSquadPurchaseCost,
+} from '../../core/assembly';
+import {
+  DEFAULT_TARGET_PRIORITY,
+  getTargetPriorityOptions,
+  isSameTargetPriority,
+} from '../../core/battle/units';
+import type { TargetPriority } from '../../core/battle/units/types';
+import { unitRegistry } from '../../data/battle';
+import { Button3D } from '../ui/Button3D';
+
+interface RosterPanelProps {
+  /** Currently selected unit type */
+  selectedUnitType: string | null;
+  /** Player's army */
+  roster: ArmyRoster;
+  /** Current VEST amount */
+  vest: number;
+  /** Unit types the player has unlocked */
+  unlockedUnits: ReadonlySet<string>;
+  /** Called when a squad is bought */
+  onPurchaseSquad: (unitType: string) => void;
+  /** Called when a unit type's squads are levelled up */
+  onLevelUpSquad: (unitType: string) => void;
+  /** Called when a unit type's targeting priority is changed (null = default) */
+  onSetTargetPriority: (unitType: string, priority: TargetPriority | null) => void;
+}
+
+const PRIORITY_OPTIONS = getTargetPriorityOptions();
+
+/**
+ * Menu label for a targeting priority.
+ */
+function getPriorityLabel(priority: TargetPriority): string {
+  switch (priority.rule) {
+    case 'nearest':
+      return 'NEAREST';
+    case 'lowest_health':
+      return 'LOWEST HP';
+    case 'highest_threat':
+      return 'HIGHEST THREAT';
+    case 'category':
+      return `PREFER ${(priority.category ?? '').toUpperCase()}`;
+    case 'castle':
+      return 'PREFER CASTLES';
+    case 'avoid_overkill':
+      return 'AVOID OVERKILL';
+  }
+}
+
+interface RosterButtonProps {
+  label: string;
+  costResult: RosterCostResult;
+  onClick: () => void;
+}
+
+/**
+ * Buy button priced from a roster cost result.
+ */
+function RosterButton({ label, costResult, onClick }: RosterButtonProps) {
+  let text = `${label} ${costResult.cost}V`;
+  if (costResult.reason === 'locked') text = 'LOCKED';
+  if (costResult.reason === 'max_level') text = 'MAX LEVEL';
+  if (costResult.reason === 'supply_cap') text = 'SUPPLY FULL';
+
+  return (
+    <Button3D
+      size="xs"
+      color={costResult.canPurchase ? UI_COLORS.accentPrimary : UI_COLORS.metalDark}
+      textColor={UI_COLORS.black}
+      onClick={costResult.canPurchase ? onClick : undefined}
+      disabled={!costResult.canPurchase}
+      className="flex-1"
+    >
+      {text}
+    </Button3D>
+  );
+}
+
+export function RosterPanel({
+  selectedUnitType,
+  roster,
+  vest,
+  unlockedUnits,
+  onPurchaseSquad,
+  onLevelUpSquad,
+  onSetTargetPriority,
+}: RosterPanelProps) {
+  const supply = getRosterSupply(roster, unitRegistry);
+  const entry = selectedUnitType ? roster[selectedUnitType] : undefined;
+  const defaultPriority = selectedUnitType
+    ? (unitRegistry.tryGet(selectedUnitType)?.targetPriority ?? DEFAULT_TARGET_PRIORITY)
+    : DEFAULT_TARGET_PRIORITY;
+  const priority = entry?.targetPriority ?? defaultPriority;
+  const purchaseCost = selectedUnitType
+    ? getSquadPurchaseCost(roster, unitRegistry, selectedUnitType, vest, unlockedUnits)
+    : null;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div
+        className="text-sm font-medium tracking-widest mb-4 pb-2"
+        style={{
+          color: UI_COLORS.accentPrimary,
+          borderBottom: `1px solid ${UI_COLORS.metalDark}`,
+        }}
+      >
+        ROSTER
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <div className="flex justify-between items-center">
+          <span className="text-sm tracking-wide" style={{ color: UI_COLORS.textSecondary }}>
+            SUPPLY
+          </span>
+          <span className="font-mono" style={{ color: UI_COLORS.textPrimary }}>
+            {supply}/{ROSTER_SUPPLY_CAP}
+          </span>
+        </div>
+        {selectedUnitType && (
+          <>
+            <div className="flex justify-between items-center">
+              <span className="text-sm tracking-wide" style={{ color: UI_COLORS.textSecondary }}>
+                SQUADS
+              </span>
+              <span className="font-mono" style={{ color: UI_COLORS.textPrimary }}>
+                {entry?.squads ?? 0}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm tracking-wide" style={{ color: UI_COLORS.textSecondary }}>
+                LEVEL
+              </span>
+              <span className="font-mono" style={{ color: UI_COLORS.textPrimary }}>
+                {entry?.level ?? 1}/{ROSTER_MAX_SQUAD_LEVEL}
+              </span>
+            </div>
+            {entry && entry.squads > 0 && (
+              <div className="flex justify-between items-center">
+                <span className="text-sm tracking-wide" style={{ color: UI_COLORS.textSecondary }}>
+                  TARGETING
+                </span>
+                <select
+                  className="font-mono text-xs px-1 py-0.5"
+                  style={{
+                    color: UI_COLORS.textPrimary,
+                    backgroundColor: UI_COLORS.panelLight,
+                    border: `1px solid ${UI_COLORS.metalDark}`,
+                  }}
+                  value={PRIORITY_OPTIONS.findIndex((option) =>
+                    isSameTargetPriority(option, priority)
+                  )}
+                  onChange={(e) => {
+                    const chosen = PRIORITY_OPTIONS[Number(e.target.value)];
+                    onSetTargetPriority(
+                      selectedUnitType,
+                      isSameTargetPriority(chosen, defaultPriority) ? null : chosen
+                    );
+                  }}
+                >
+                  {PRIORITY_OPTIONS.map((option, index) => (
+                    <option key={index} value={index}>
+                      {getPriorityLabel(option)}
+                      {isSameTargetPriority(option, defaultPriority) ? ' (DEFAULT)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      {purchaseCost?.reason === 'not_deployable' && (
+        <div className="text-sm" style={{ color: UI_COLORS.textSecondary }}>
+          This unit cannot be deployed.
+        </div>
+      )}
+
+      {selectedUnitType && purchaseCost && purchaseCost.reason !== 'not_deployable' && (
+        <div className="flex gap-2">
+          <RosterButton
+            label="+SQUAD"
+            costResult={purchaseCost}
+            onClick={() => onPurchaseSquad(selectedUnitType)}
+          />
+          {entry && entry.squads > 0 && (
+            <RosterButton
+              label="LEVEL UP"
+              costResult={getSquadLevelUpCost(roster, selectedUnitType, vest)}
+              onClick={() => onLevelUpSquad(selectedUnitType)}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
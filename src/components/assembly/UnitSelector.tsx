@@ -6,6 +6,7 @@
  */
 
 import { UI_COLORS, hexToRgba } from '../../core/theme/colors';
+import { ArmyRoster } from '../../core/assembly';
 import { unitRegistry } from '../../data/battle';
 
 interface UnitSelectorProps {
@@ -13,11 +14,20 @@ interface UnitSelectorProps {
   selectedUnitType: string | null;
   /** Called when a unit is selected */
   onSelectUnit: (unitType: string) => void;
+  /** Player's army - shows owned squad counts */
+  roster?: ArmyRoster;
+  /** Unit types the player has unlocked (all units if omitted) */
+  unlockedUnits?: ReadonlySet<string>;
 }
 
-export function UnitSelector({ selectedUnitType, onSelectUnit }: UnitSelectorProps) {
-  // Get all units from registry
-  const units = unitRegistry.getAll();
+export function UnitSelector({
+  selectedUnitType,
+  onSelectUnit,
+  roster,
+  unlockedUnits,
+}: UnitSelectorProps) {
+  // Locked units stay hidden until their requirements are met
+  const units = unlockedUnits ? unitRegistry.getUnlocked(unlockedUnits) : unitRegistry.getAll();
 
   return (
     <div className="flex flex-col h-full">
@@ -36,6 +46,7 @@ export function UnitSelector({ selectedUnitType, onSelectUnit }: UnitSelectorPro
       <div className="flex-1 scrollable">
         {units.map((unit) => {
           const isSelected = selectedUnitType === unit.id;
+          const squads = roster?.[unit.id]?.squads ?? 0;
           return (
             <button
               key={unit.id}
@@ -51,7 +62,14 @@ export function UnitSelector({ selectedUnitType, onSelectUnit }: UnitSelectorPro
               }}
               onClick={() => onSelectUnit(unit.id)}
             >
-              <div className="font-medium tracking-wide uppercase">{unit.name}</div>
+              <div className="flex justify-between items-center">
+                <span className="font-medium tracking-wide uppercase">{unit.name}</span>
+                {squads > 0 && (
+                  <span className="text-sm font-mono" style={{ color: UI_COLORS.textSecondary }}>
+                    ×{squads}
+                  </span>
+                )}
+              </div>
             </button>
           );
         })}
@@ -8,6 +8,7 @@
 import { UI_COLORS } from '../../core/theme/colors';
 import { unitRegistry } from '../../data/battle';
 import { UnitDefinition } from '../../core/battle/units/types';
+import { getEffectiveDamage } from '../../core/battle/unit-behaviors/CombatSystem';
 
 interface UnitStatsPanelProps {
   /** Currently selected unit type */
@@ -63,6 +64,8 @@ export function UnitStatsPanel({ selectedUnitType }: UnitStatsPanelProps) {
   }
 
   const { baseStats } = unit;
+  // Continuous beams ramp up while on target, dealing more than their listed damage
+  const rangedDamage = baseStats.ranged && Math.round(getEffectiveDamage(baseStats.ranged));
 
   return (
     <div className="flex flex-col h-full">
@@ -99,11 +102,17 @@ export function UnitStatsPanel({ selectedUnitType }: UnitStatsPanelProps) {
           <>
             <SectionHeader>RANGED</SectionHeader>
             <StatRow label="DAMAGE" value={formatStat(baseStats.ranged.damage)} />
+            {rangedDamage !== baseStats.ranged.damage && (
+              <StatRow label="RAMPED" value={formatStat(rangedDamage)} />
+            )}
             <StatRow label="RANGE" value={formatStat(baseStats.ranged.range)} />
             <StatRow label="RATE" value={`${baseStats.ranged.attackSpeed}/s`} />
             {baseStats.ranged.splashRadius && (
               <StatRow label="SPLASH" value={formatStat(baseStats.ranged.splashRadius)} />
             )}
+            {baseStats.ranged.projectile && (
+              <StatRow label="SHOT" value={baseStats.ranged.projectile.type.toUpperCase()} />
+            )}
           </>
         )}
 
@@ -117,6 +126,16 @@ export function UnitStatsPanel({ selectedUnitType }: UnitStatsPanelProps) {
           </>
         )}
 
+        {/* Repair stats */}
+        {baseStats.repair && (
+          <>
+            <SectionHeader>REPAIR</SectionHeader>
+            <StatRow label="HEAL" value={formatStat(baseStats.repair.damage)} />
+            <StatRow label="RANGE" value={formatStat(baseStats.repair.range)} />
+            <StatRow label="RATE" value={`${baseStats.repair.attackSpeed}/s`} />
+          </>
+        )}
+
         {/* Classification */}
         <SectionHeader>CLASS</SectionHeader>
         <StatRow label="TYPE" value={unit.category.toUpperCase()} />
@@ -18,9 +18,17 @@ interface UpgradeCardProps {
   costResult: UpgradeCostResult;
   /** Called when buy button is clicked */
   onPurchase: () => void;
+  /** Suffix after the cost (default "V" for VEST) */
+  currencySuffix?: string;
 }
 
-export function UpgradeCard({ upgrade, level, costResult, onPurchase }: UpgradeCardProps) {
+export function UpgradeCard({
+  upgrade,
+  level,
+  costResult,
+  onPurchase,
+  currencySuffix = 'V',
+}: UpgradeCardProps) {
   const isMaxed = costResult.reason === 'max_level';
   const canAfford = costResult.canPurchase;
   const isLocked = costResult.reason === 'prerequisite_not_met';
@@ -40,11 +48,11 @@ export function UpgradeCard({ upgrade, level, costResult, onPurchase }: UpgradeC
     buttonColor = UI_COLORS.metalDark;
     buttonTextColor = UI_COLORS.white;
   } else if (!canAfford) {
-    buttonText = `${costResult.cost}V`;
+    buttonText = `${costResult.cost}${currencySuffix}`;
     buttonColor = UI_COLORS.metalDark;
     buttonTextColor = UI_COLORS.warningRed;
   } else {
-    buttonText = `${costResult.cost}V`;
+    buttonText = `${costResult.cost}${currencySuffix}`;
     buttonColor = UI_COLORS.accentPrimary;
     buttonTextColor = UI_COLORS.black;
   }
@@ -8,7 +8,7 @@
 import { UI_COLORS } from '../../core/theme/colors';
 import { BattleUpgradeStates } from '../../core/battle/upgrades/types';
 import { battleUpgradeRegistry } from '../../data/battle';
-import { buildPrerequisiteContext, AssemblyState } from '../../core/assembly';
+import { buildPrerequisiteContext } from '../../core/assembly';
 import { UpgradeSection } from './UpgradeSection';
 
 interface UpgradeListPanelProps {
@@ -36,13 +36,7 @@ export function UpgradeListPanel({
   const globalUpgrades = battleUpgradeRegistry.getByScope('global');
 
   // Build prerequisite context
-  const assemblyState: AssemblyState = {
-    vest,
-    upgradeStates,
-    selectedUnitType,
-    highestWave,
-  };
-  const context = buildPrerequisiteContext(assemblyState);
+  const context = buildPrerequisiteContext({ upgradeStates, highestWave });
 
   return (
     <div className="flex flex-col h-full">
@@ -10,6 +10,7 @@ import {
   BattleUpgradeDefinition,
   UpgradePrerequisiteContext,
 } from '../../core/battle/upgrades/types';
+import type { IBattleUpgradeRegistry } from '../../core/battle/upgrades/IBattleUpgradeRegistry';
 import { battleUpgradeRegistry } from '../../data/battle';
 import { UpgradeCard } from './UpgradeCard';
 
@@ -26,6 +27,10 @@ interface UpgradeSectionProps {
   context: UpgradePrerequisiteContext;
   /** Current vest amount for cost calculation */
   vest: number;
+  /** Registry the upgrades belong to (default: battle upgrades) */
+  registry?: IBattleUpgradeRegistry;
+  /** Suffix after each cost (default "V" for VEST) */
+  currencySuffix?: string;
   /** Called when an upgrade is purchased */
   onPurchase: (upgradeId: string) => void;
   /** Optional additional class names */
@@ -42,6 +47,8 @@ export function UpgradeSection({
   upgradeStates,
   context,
   vest,
+  registry = battleUpgradeRegistry,
+  currencySuffix,
   onPurchase,
   className = '',
 }: UpgradeSectionProps) {
@@ -56,8 +63,8 @@ export function UpgradeSection({
       </div>
       <div className="space-y-2">
         {upgrades.map((upgrade) => {
-          const level = battleUpgradeRegistry.getLevel(upgradeStates, upgrade.id);
-          const costResult = battleUpgradeRegistry.calculateCost(upgrade.id, level, context, vest);
+          const level = registry.getLevel(upgradeStates, upgrade.id);
+          const costResult = registry.calculateCost(upgrade.id, level, context, vest);
           return (
             <UpgradeCard
               key={upgrade.id}
@@ -65,6 +72,7 @@ export function UpgradeSection({
               level={level}
               costResult={costResult}
               onPurchase={() => onPurchase(upgrade.id)}
+              currencySuffix={currencySuffix}
             />
           );
         })}
@@ -6,5 +6,6 @@ export { AssemblyPage } from './AssemblyPage';
 export { GarageContent } from './GarageContent';
 export { UnitSelector } from './UnitSelector';
 export { UnitStatsPanel } from './UnitStatsPanel';
+export { RosterPanel } from './RosterPanel';
 export { UpgradeListPanel } from './UpgradeListPanel';
 export { UpgradeCard } from './UpgradeCard';
@@ -8,7 +8,8 @@
  */
 
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
-import type { BattleState } from '../../core/battle';
+import type { BattleState, SquadOrder } from '../../core/battle';
+import { ORDER_HOTKEYS, getOrderableUnitIds } from '../../core/battle/orders';
 import { MIN_ZOOM, MAX_ZOOM, ZOOM_SPEED } from '../../core/battle/BattleConfig';
 import { Vector2, calculateZoom, createDefaultZoomState } from '../../core/physics';
 import { calculateCellSize } from '../../core/battle/grid/GridManager';
@@ -29,6 +30,8 @@ interface BattleCanvasProps {
   selectedUnitIds?: string[];
   onSelectUnit?: (unitId: string | null) => void;
   onSelectUnits?: (unitIds: string[]) => void;
+  /** Give units a tactical order during battle (null returns them to auto-battle) */
+  onIssueOrder?: (unitIds: string[], order: SquadOrder | null) => void;
   /** Key that changes to trigger zoom reset (e.g., on battle reset) */
   resetKey?: number;
 }
@@ -42,12 +45,34 @@ export function BattleCanvas({
   selectedUnitIds = [],
   onSelectUnit,
   onSelectUnits,
+  onIssueOrder,
   resetKey = 0,
 }: BattleCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [animationTime, setAnimationTime] = useState(0);
   const hasSelection = selectedUnitIds.length > 0;
 
+  // Pathfinding flow field debug overlay (toggled with F while the canvas has focus)
+  const [showFlowField, setShowFlowField] = useState(false);
+
+  // Keyboard: F toggles the flow field; order hotkeys command selected squads during battle
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+      const key = e.key.toLowerCase();
+      if (key === 'f') {
+        setShowFlowField((prev) => !prev);
+        return;
+      }
+
+      if (!state.hasStarted || !onIssueOrder || !(key in ORDER_HOTKEYS)) return;
+      const unitIds = getOrderableUnitIds(selectedUnitIds, state.units);
+      if (unitIds.length > 0) {
+        onIssueOrder(unitIds, ORDER_HOTKEYS[key]);
+      }
+    },
+    [state.hasStarted, state.units, selectedUnitIds, onIssueOrder]
+  );
+
   // Zoom state: level, pan offset (for zooming toward mouse position)
   const [zoomState, setZoomState] = useState<ZoomState>(createDefaultZoomState);
 
@@ -109,6 +134,7 @@ export function BattleCanvas({
     onUnitsMove,
     onSelectUnit,
     onSelectUnits,
+    onIssueOrder: state.hasStarted ? onIssueOrder : undefined,
   });
 
   const { updateParticles } = useDustParticles();
@@ -159,6 +185,7 @@ export function BattleCanvas({
       boxSelectSession,
       ghostHealthMap,
       inkSplatters,
+      showFlowField,
     });
 
     // Restore transform
@@ -176,6 +203,7 @@ export function BattleCanvas({
     updateGhostHealth,
     updateSplatters,
     zoomState,
+    showFlowField,
   ]);
 
   return (
@@ -190,7 +218,9 @@ export function BattleCanvas({
       onMouseMove={handlers.onMouseMove}
       onMouseUp={handlers.onMouseUp}
       onDoubleClick={handlers.onDoubleClick}
+      onContextMenu={handlers.onContextMenu}
       onWheel={handleWheel}
+      onKeyDown={handleKeyDown}
       onDragStart={(e) => e.preventDefault()}
     />
   );
@@ -0,0 +1,53 @@
+/**
+ * Battle Layout Component
+ *
+ * Shared frame for live battles and replays: battleground backdrop,
+ * arena on the left, info panel on the right.
+ */
+
+import { ReactNode, Ref } from 'react';
+import { Panel3D } from '../ui/Panel3D';
+import { UI_COLORS, hexToRgba } from '../../core/theme/colors';
+import battlegroundBg from '../../assets/battleground1.png';
+
+interface BattleLayoutProps {
+  /** Ref for the arena container (used for arena sizing) */
+  arenaRef?: Ref<HTMLDivElement>;
+  /** Arena content (timer, canvas, overlays) */
+  arena: ReactNode;
+  /** Right-hand panel content */
+  panel: ReactNode;
+}
+
+export function BattleLayout({ arenaRef, arena, panel }: BattleLayoutProps) {
+  return (
+    <div
+      className="flex h-full relative"
+      style={{
+        backgroundImage: `url(${battlegroundBg})`,
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+      }}
+    >
+      {/* Dark overlay */}
+      <div
+        className="absolute inset-0"
+        style={{ backgroundColor: hexToRgba(UI_COLORS.black, 0.3) }}
+      />
+
+      {/* Content layer */}
+      <div className="relative z-10 flex gap-4 h-full w-full p-4">
+        {/* Left side - Arena */}
+        <div
+          ref={arenaRef}
+          className="flex-[2] flex flex-col items-center justify-center gap-2 min-w-0 relative"
+        >
+          {arena}
+        </div>
+
+        {/* Right side - Info Panel */}
+        <Panel3D className="w-72 flex-shrink-0 overflow-y-auto">{panel}</Panel3D>
+      </div>
+    </div>
+  );
+}
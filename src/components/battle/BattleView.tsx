@@ -4,40 +4,75 @@
  * Main container for the battle system.
  * Orchestrates canvas, overlays, and control panel.
  * AC6-inspired styling with battleground backdrop.
+ *
+ * Given a replay, shows it read-only instead of running a live battle.
  */
 
 import { useEffect, useRef, useCallback, useState } from 'react';
 import { useBattle } from '../../hooks/useBattle';
 import { useArenaSizing } from '../../hooks/useArenaSizing';
 import { BattleCanvas } from './BattleCanvas';
+import { BattleLayout } from './BattleLayout';
 import { BattleOutcomeOverlay } from './BattleOutcomeOverlay';
 import { BattleTimer } from './BattleTimer';
+import { BossHealthBar } from './BossHealthBar';
 import { UnitInfoPanel } from './UnitInfoPanel';
 import { ControlsPanel } from './ControlsPanel';
-import { Panel3D } from '../ui/Panel3D';
+import { ReplayBattleView } from './ReplayBattleView';
+import { AlliedSquad, AppliedUpgrades, BattleReplay } from '../../core/battle';
 import { getUniformSelectionUnit } from '../../core/battle/SelectionManager';
-import { UI_COLORS, hexToRgba } from '../../core/theme/colors';
-import battlegroundBg from '../../assets/battleground1.png';
+import { addUnitKills } from '../../core/assembly';
+import { waveRegistry } from '../../data/battle';
 
 export interface BattleViewProps {
   /** Current VEST from assembly */
   vest?: number;
-  /** Callback when returning to assembly with VEST earned and new highest wave */
-  onReturnToAssembly?: (vestEarned: number, highestWave: number) => void;
+  /** Squads from the assembly roster (omit for the default army) */
+  allyArmy?: AlliedSquad[];
+  /** Purchased assembly and prestige upgrades applied to the player's squads */
+  playerUpgrades?: AppliedUpgrades[];
+  /**
+   * Callback when returning to assembly with VEST earned, new highest wave
+   * and enemy units destroyed per unit type
+   */
+  onReturnToAssembly?: (
+    vestEarned: number,
+    highestWave: number,
+    unitsKilled: Record<string, number>
+  ) => void;
   /** Record a clear time for a wave. Returns whether it was a new record. */
   onRecordTime?: (wave: number, simTime: number) => boolean;
   /** Check if a time would be a new record for a wave */
   isNewRecord?: (wave: number, simTime: number) => boolean;
+  /** Save the replay of a record-setting clear */
+  onSaveReplay?: (replay: BattleReplay) => void;
+  /** Replay to watch (read-only mode - no live battle runs) */
+  replay?: BattleReplay;
+  /** Callback when leaving a replay */
+  onExitReplay?: () => void;
+}
+
+export function BattleView({ replay, onExitReplay, ...liveProps }: BattleViewProps) {
+  if (replay) {
+    return <ReplayBattleView replay={replay} onExit={onExitReplay} />;
+  }
+  return <LiveBattleView {...liveProps} />;
 }
 
-export function BattleView({
+type LiveBattleViewProps = Omit<BattleViewProps, 'replay' | 'onExitReplay'>;
+
+function LiveBattleView({
   vest = 0,
+  allyArmy,
+  playerUpgrades,
   onReturnToAssembly,
   onRecordTime,
   isNewRecord,
-}: BattleViewProps) {
+  onSaveReplay,
+}: LiveBattleViewProps) {
   const {
     state,
+    stats,
     selectedUnitIds,
     battleSpeed,
     autoBattle,
@@ -49,6 +84,7 @@ export function BattleView({
     spawnWave,
     moveUnit,
     moveUnits,
+    issueOrder,
     selectUnit,
     selectUnits,
     setBattleSpeed,
@@ -57,7 +93,8 @@ export function BattleView({
     setWave,
     getWaveGoldReward,
     handleOutcomeAndContinue,
-  } = useBattle();
+    getReplay,
+  } = useBattle({ allyArmy, playerUpgrades });
 
   // Use extracted arena sizing hook (SRP: sizing logic in one place)
   const { arenaSize, isArenaSizeStable, containerRef } = useArenaSizing();
@@ -69,6 +106,9 @@ export function BattleView({
   // Track VEST earned during this battle session
   const [sessionVestEarned, setSessionVestEarned] = useState(0);
 
+  // Track enemy units destroyed during this battle session (for unit unlocks)
+  const [sessionUnitsKilled, setSessionUnitsKilled] = useState<Record<string, number>>({});
+
   // Track battle duration and record status for outcome overlay
   const [outcomeDuration, setOutcomeDuration] = useState<number | undefined>(undefined);
   const [outcomeIsRecord, setOutcomeIsRecord] = useState(false);
@@ -131,9 +171,16 @@ export function BattleView({
       const vestReward = getWaveGoldReward();
       setSessionVestEarned((prev) => prev + vestReward);
       if (onRecordTime && outcomeDuration !== undefined) {
-        onRecordTime(state.waveNumber, outcomeDuration);
+        const isRecord = onRecordTime(state.waveNumber, outcomeDuration);
+        // Record clears are the fights worth re-watching from the Dossier
+        const replay = isRecord && onSaveReplay ? getReplay() : null;
+        if (replay) {
+          onSaveReplay?.(replay);
+        }
       }
     }
+    const enemyDeaths = stats.enemy.deathsByType;
+    setSessionUnitsKilled((prev) => addUnitKills(prev, enemyDeaths));
 
     handleOutcomeAndContinue(() => {
       // Reset spawned ref so units can spawn again
@@ -145,40 +192,27 @@ export function BattleView({
     handleOutcomeAndContinue,
     state.outcome,
     state.waveNumber,
+    stats,
     getWaveGoldReward,
     onRecordTime,
+    onSaveReplay,
+    getReplay,
     outcomeDuration,
   ]);
 
   // Handle return to assembly
   const handleReturnToAssembly = useCallback(() => {
     if (onReturnToAssembly) {
-      onReturnToAssembly(sessionVestEarned, state.highestWave);
+      onReturnToAssembly(sessionVestEarned, state.highestWave, sessionUnitsKilled);
     }
-  }, [onReturnToAssembly, sessionVestEarned, state.highestWave]);
+  }, [onReturnToAssembly, sessionVestEarned, state.highestWave, sessionUnitsKilled]);
 
   return (
-    <div
-      className="flex h-full relative"
-      style={{
-        backgroundImage: `url(${battlegroundBg})`,
-        backgroundSize: 'cover',
-        backgroundPosition: 'center',
-      }}
-    >
-      {/* Dark overlay */}
-      <div
-        className="absolute inset-0"
-        style={{ backgroundColor: hexToRgba(UI_COLORS.black, 0.3) }}
-      />
-
-      {/* Content layer */}
-      <div className="relative z-10 flex gap-4 h-full w-full p-4">
-        {/* Left side - Arena */}
-        <div
-          ref={containerRef}
-          className="flex-[2] flex flex-col items-center justify-center gap-2 min-w-0 relative"
-        >
+    <BattleLayout
+      arenaRef={containerRef}
+      arena={
+        <>
+          <BossHealthBar units={state.units} />
           <BattleTimer simulationTime={state.simulationTime} hasStarted={state.hasStarted} />
           <BattleCanvas
             state={state}
@@ -186,6 +220,7 @@ export function BattleView({
             height={arenaSize.height}
             onUnitMove={moveUnit}
             onUnitsMove={moveUnits}
+            onIssueOrder={issueOrder}
             selectedUnitIds={selectedUnitIds}
             onSelectUnit={selectUnit}
             onSelectUnits={selectUnits}
@@ -202,39 +237,38 @@ export function BattleView({
             isNewRecord={outcomeIsRecord}
             onDismiss={handleOutcomeDismiss}
           />
-        </div>
-
-        {/* Right side - Info Panel */}
-        <Panel3D className="w-72 flex-shrink-0 overflow-y-auto">
-          {selectedUnit ? (
-            <UnitInfoPanel
-              unit={selectedUnit}
-              squadCount={selectedUnitIds.length}
-              onDeselect={() => selectUnits([])}
-            />
-          ) : (
-            <ControlsPanel
-              isRunning={state.isRunning}
-              hasStarted={state.hasStarted}
-              battleSpeed={battleSpeed}
-              waveNumber={state.waveNumber}
-              highestWave={state.highestWave}
-              vest={vest}
-              autoBattle={autoBattle}
-              stayMode={stayMode}
-              sessionVestEarned={sessionVestEarned}
-              onStart={handleStartBattle}
-              onStop={stop}
-              onReset={handleReset}
-              onSpeedChange={setBattleSpeed}
-              onWaveChange={handleWaveChange}
-              onAutoBattleToggle={toggleAutoBattle}
-              onStayModeToggle={toggleStayMode}
-              onReturnToAssembly={onReturnToAssembly ? handleReturnToAssembly : undefined}
-            />
-          )}
-        </Panel3D>
-      </div>
-    </div>
+        </>
+      }
+      panel={
+        selectedUnit ? (
+          <UnitInfoPanel
+            unit={selectedUnit}
+            squadCount={selectedUnitIds.length}
+            onDeselect={() => selectUnits([])}
+          />
+        ) : (
+          <ControlsPanel
+            isRunning={state.isRunning}
+            hasStarted={state.hasStarted}
+            battleSpeed={battleSpeed}
+            waveNumber={state.waveNumber}
+            waveName={waveRegistry.getForWave(state.waveNumber)?.name}
+            highestWave={state.highestWave}
+            vest={vest}
+            autoBattle={autoBattle}
+            stayMode={stayMode}
+            sessionVestEarned={sessionVestEarned}
+            onStart={handleStartBattle}
+            onStop={stop}
+            onReset={handleReset}
+            onSpeedChange={setBattleSpeed}
+            onWaveChange={handleWaveChange}
+            onAutoBattleToggle={toggleAutoBattle}
+            onStayModeToggle={toggleStayMode}
+            onReturnToAssembly={onReturnToAssembly ? handleReturnToAssembly : undefined}
+          />
+        )
+      }
+    />
   );
 }
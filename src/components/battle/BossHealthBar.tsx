@@ -0,0 +1,46 @@
+/**
+ * Boss Health Bar Component
+ *
+ * Shows the boss squad's name, affixes and combined health across the
+ * top of the arena. Only visible while a boss is on the field.
+ * Overlays the arena so it doesn't change the arena's size.
+ */
+
+import type { UnitRenderData } from '../../core/battle';
+import { getBossStatus } from '../../core/battle/elites';
+import { ARENA_COLORS, ELITE_COLORS, UI_COLORS } from '../../core/theme/colors';
+import { affixRegistry, unitRegistry } from '../../data/battle';
+
+interface BossHealthBarProps {
+  units: UnitRenderData[];
+}
+
+export function BossHealthBar({ units }: BossHealthBarProps) {
+  const boss = getBossStatus(units);
+  if (!boss || boss.maxHealth <= 0) return null;
+
+  const name = unitRegistry.tryGet(boss.type)?.name ?? boss.type;
+  const affixNames = boss.affixes.map((id) => affixRegistry.tryGet(id)?.name ?? id);
+  const percent = Math.max(0, Math.min(1, boss.health / boss.maxHealth));
+
+  return (
+    <div className="absolute top-0 inset-x-0 z-20 px-2 pointer-events-none">
+      <div className="flex justify-between text-xs font-mono tracking-widest uppercase">
+        <span style={{ color: ELITE_COLORS.boss }}>BOSS: {name}</span>
+        <span style={{ color: UI_COLORS.textSecondary }}>{affixNames.join(' · ')}</span>
+      </div>
+      <div
+        className="h-2 w-full"
+        style={{
+          backgroundColor: ARENA_COLORS.healthBarBg,
+          border: `1px solid ${ARENA_COLORS.healthBarOutline}`,
+        }}
+      >
+        <div
+          className="h-full"
+          style={{ width: `${percent * 100}%`, backgroundColor: ELITE_COLORS.boss }}
+        />
+      </div>
+    </div>
+  );
+}
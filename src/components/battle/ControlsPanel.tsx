@@ -17,6 +17,8 @@ interface ControlsPanelProps {
   hasStarted: boolean;
   battleSpeed: BattleSpeed;
   waveNumber: number;
+  /** Name of the scripted wave, if the current wave has one */
+  waveName?: string;
   highestWave: number;
   vest: number;
   autoBattle: boolean;
@@ -37,6 +39,7 @@ export function ControlsPanel({
   hasStarted,
   battleSpeed,
   waveNumber,
+  waveName,
   highestWave,
   vest,
   autoBattle,
@@ -93,6 +96,14 @@ export function ControlsPanel({
             {waveNumber}
           </span>
         </div>
+        {waveName && (
+          <div
+            className="text-sm uppercase tracking-wide text-right"
+            style={{ color: UI_COLORS.warningOrange }}
+          >
+            {waveName}
+          </div>
+        )}
         <div className="flex justify-between items-center">
           <span className="text-sm uppercase tracking-wide" style={{ color: UI_COLORS.white }}>
             BEST
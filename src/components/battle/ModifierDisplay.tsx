@@ -8,7 +8,7 @@
  * to MODIFIER_DISPLAY_INFO without modifying display logic.
  */
 
-import { UI_COLORS, DEBUFF_COLORS, hexToRgba } from '../../core/theme/colors';
+import { UI_COLORS, DEBUFF_COLORS, STATUS_COLORS, hexToRgba } from '../../core/theme/colors';
 import {
   SHOCKWAVE_DEBUFF_MOVE_SPEED,
   SHOCKWAVE_DEBUFF_DAMAGE,
@@ -28,6 +28,20 @@ interface ModifierInfo {
   textColor: string;
 }
 
+/**
+ * Display info for a status effect, in its icon color.
+ */
+function statusInfo(name: string, icon: string, effect: string, color: string): ModifierInfo {
+  return {
+    name,
+    icon,
+    effects: [effect],
+    bgColor: hexToRgba(color, 0.2),
+    iconBgColor: color,
+    textColor: UI_COLORS.textPrimary,
+  };
+}
+
 /**
  * Modifier display information lookup table.
  * Add new modifiers here - no switch statements needed.
@@ -47,6 +61,12 @@ const MODIFIER_DISPLAY_INFO: Record<string, ModifierInfo> = {
     iconBgColor: DEBUFF_COLORS.shockwave,
     textColor: UI_COLORS.textPrimary,
   },
+  status_stun: statusInfo('Stunned', '!', 'Cannot act', STATUS_COLORS.stun),
+  status_root: statusInfo('Rooted', 'v', 'Cannot move', STATUS_COLORS.root),
+  status_slow: statusInfo('Slowed', '*', 'Reduced move speed', STATUS_COLORS.slow),
+  status_burn: statusInfo('Burning', '~', 'Damage over time', STATUS_COLORS.burn),
+  status_regen: statusInfo('Regenerating', '+', 'Heals over time', STATUS_COLORS.regen),
+  status_shield: statusInfo('Shielded', 'O', 'Absorbs damage', STATUS_COLORS.shield),
 };
 
 /**
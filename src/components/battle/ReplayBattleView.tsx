@@ -0,0 +1,101 @@
+/**
+ * Replay Battle View Component
+ *
+ * Read-only battle view that plays back a recorded battle.
+ * Units can be selected and inspected but not moved.
+ */
+
+import { useBattleSelection } from '../../hooks/battle';
+import { useReplayPlayback } from '../../hooks/useReplayPlayback';
+import { BattleReplay } from '../../core/battle';
+import { getUniformSelectionUnit } from '../../core/battle/SelectionManager';
+import { UI_COLORS } from '../../core/theme/colors';
+import { BattleCanvas } from './BattleCanvas';
+import { BattleLayout } from './BattleLayout';
+import { BattleTimer } from './BattleTimer';
+import { ReplayControlsPanel } from './ReplayControlsPanel';
+import { UnitInfoPanel } from './UnitInfoPanel';
+import { Button3D } from '../ui/Button3D';
+
+interface ReplayBattleViewProps {
+  replay: BattleReplay;
+  /** Callback when leaving the replay */
+  onExit?: () => void;
+}
+
+export function ReplayBattleView({ replay, onExit }: ReplayBattleViewProps) {
+  const playback = useReplayPlayback(replay);
+  const { selectedUnitIds, selectUnit, selectUnits } = useBattleSelection();
+
+  const { state } = playback;
+  const selectedUnit = state ? getUniformSelectionUnit(selectedUnitIds, state.units) : null;
+
+  if (!state) {
+    return (
+      <BattleLayout
+        arena={
+          <div className="text-sm text-center" style={{ color: UI_COLORS.textSecondary }}>
+            {playback.error ? `Replay cannot be played: ${playback.error}` : 'Loading replay...'}
+          </div>
+        }
+        panel={
+          onExit && (
+            <Button3D
+              size="sm"
+              color={UI_COLORS.accentSecondary}
+              textColor={UI_COLORS.white}
+              onClick={onExit}
+              className="w-full"
+            >
+              DOSSIER
+            </Button3D>
+          )
+        }
+      />
+    );
+  }
+
+  return (
+    <BattleLayout
+      arena={
+        <>
+          <BattleTimer simulationTime={state.simulationTime} hasStarted={state.hasStarted} />
+          {/* Rendered at the recorded arena size so positions match the simulation */}
+          <BattleCanvas
+            state={state}
+            width={replay.arenaWidth}
+            height={replay.arenaHeight}
+            selectedUnitIds={selectedUnitIds}
+            onSelectUnit={selectUnit}
+            onSelectUnits={selectUnits}
+          />
+        </>
+      }
+      panel={
+        selectedUnit ? (
+          <UnitInfoPanel
+            unit={selectedUnit}
+            squadCount={selectedUnitIds.length}
+            onDeselect={() => selectUnits([])}
+          />
+        ) : (
+          <ReplayControlsPanel
+            waveNumber={replay.waveNumber}
+            outcome={replay.outcome}
+            simulationTime={replay.simulationTime}
+            tick={playback.tick}
+            tickCount={playback.tickCount}
+            isPaused={playback.isPaused}
+            speed={playback.speed}
+            onPlay={playback.play}
+            onPause={playback.pause}
+            onStep={playback.step}
+            onSeek={playback.seek}
+            onSpeedChange={playback.setSpeed}
+            onExit={onExit}
+          />
+        )
+      }
+    />
+  );
+}
@@ -0,0 +1,193 @@
+/**
+ * Replay Controls Panel Component
+ *
+ * Playback controls for a recorded battle: play/pause, single-step,
+ * playback speed and a scrub bar over the recorded ticks.
+ * Same layout as ControlsPanel.
+ */
+
+import { useState } from 'react';
+import { UI_COLORS } from '../../core/theme/colors';
+import { REPLAY_SPEEDS } from '../../core/battle/BattleConfig';
+import { BattleOutcome } from '../../core/battle';
+import { formatBattleTime } from '../../core/dossier';
+import { Button3D } from '../ui/Button3D';
+
+interface ReplayControlsPanelProps {
+  waveNumber: number;
+  /** Recorded outcome of the battle */
+  outcome: BattleOutcome;
+  /** Recorded clear time (simulated seconds) */
+  simulationTime: number;
+  tick: number;
+  tickCount: number;
+  isPaused: boolean;
+  speed: number;
+  onPlay: () => void;
+  onPause: () => void;
+  onStep: () => void;
+  onSeek: (tick: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onExit?: () => void;
+}
+
+const OUTCOME_LABELS: Record<BattleOutcome, string> = {
+  pending: 'UNFINISHED',
+  player_victory: 'VICTORY',
+  enemy_victory: 'DEFEAT',
+  draw: 'DRAW',
+};
+
+export function ReplayControlsPanel({
+  waveNumber,
+  outcome,
+  simulationTime,
+  tick,
+  tickCount,
+  isPaused,
+  speed,
+  onPlay,
+  onPause,
+  onStep,
+  onSeek,
+  onSpeedChange,
+  onExit,
+}: ReplayControlsPanelProps) {
+  // Scrub position while dragging - seeking backwards re-simulates, so commit on release
+  const [scrubTick, setScrubTick] = useState<number | null>(null);
+  const commitScrub = () => {
+    if (scrubTick !== null) {
+      onSeek(scrubTick);
+      setScrubTick(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Header */}
+      <div
+        className="text-sm font-medium tracking-widest mb-4 pb-2"
+        style={{
+          color: UI_COLORS.accentPrimary,
+          borderBottom: `1px solid ${UI_COLORS.metalDark}`,
+        }}
+      >
+        REPLAY
+      </div>
+
+      {/* Recorded battle info */}
+      <div className="space-y-2 mb-4">
+        <div className="flex justify-between items-center">
+          <span
+            className="text-sm uppercase tracking-wide"
+            style={{ color: UI_COLORS.textPrimary }}
+          >
+            WAVE
+          </span>
+          <span className="font-mono font-bold" style={{ color: UI_COLORS.textPrimary }}>
+            {waveNumber}
+          </span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span
+            className="text-sm uppercase tracking-wide"
+            style={{ color: UI_COLORS.textPrimary }}
+          >
+            RESULT
+          </span>
+          <span className="font-mono font-bold" style={{ color: UI_COLORS.accentPrimary }}>
+            {OUTCOME_LABELS[outcome]}
+          </span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-sm uppercase tracking-wide" style={{ color: UI_COLORS.white }}>
+            TIME
+          </span>
+          <span className="font-mono" style={{ color: UI_COLORS.white }}>
+            {formatBattleTime(simulationTime)}
+          </span>
+        </div>
+      </div>
+
+      {/* Scrub bar */}
+      <div className="mb-4 pb-4" style={{ borderBottom: `1px solid ${UI_COLORS.metalDark}` }}>
+        <input
+          type="range"
+          min={0}
+          max={tickCount}
+          value={scrubTick ?? tick}
+          onChange={(e) => setScrubTick(Number(e.target.value))}
+          onPointerUp={commitScrub}
+          onKeyUp={commitScrub}
+          className="w-full"
+          style={{ accentColor: UI_COLORS.accentPrimary }}
+        />
+        <div className="text-sm font-mono text-right" style={{ color: UI_COLORS.textSecondary }}>
+          {scrubTick ?? tick} / {tickCount}
+        </div>
+      </div>
+
+      {/* Playback Controls */}
+      <div className="flex gap-2 mb-4">
+        {isPaused ? (
+          <Button3D size="sm" onClick={onPlay} className="flex-1">
+            {tick >= tickCount ? 'REPLAY' : 'PLAY'}
+          </Button3D>
+        ) : (
+          <Button3D size="sm" color={UI_COLORS.warningOrange} onClick={onPause} className="flex-1">
+            PAUSE
+          </Button3D>
+        )}
+        <Button3D
+          size="sm"
+          color={UI_COLORS.metalDark}
+          textColor={UI_COLORS.textPrimary}
+          onClick={onStep}
+          disabled={tick >= tickCount}
+          className="flex-1"
+        >
+          STEP
+        </Button3D>
+      </div>
+
+      {/* Speed Control */}
+      <div className="mb-4 pb-4" style={{ borderBottom: `1px solid ${UI_COLORS.metalDark}` }}>
+        <div
+          className="text-sm font-medium tracking-widest mb-2"
+          style={{ color: UI_COLORS.white }}
+        >
+          SPEED
+        </div>
+        <div className="grid grid-cols-3 gap-1">
+          {REPLAY_SPEEDS.map((option) => (
+            <Button3D
+              key={option}
+              size="xs"
+              color={speed === option ? UI_COLORS.accentPrimary : UI_COLORS.metalDark}
+              textColor={speed === option ? UI_COLORS.black : UI_COLORS.white}
+              onClick={() => onSpeedChange(option)}
+            >
+              {option}X
+            </Button3D>
+          ))}
+        </div>
+      </div>
+
+      {/* Spacer */}
+      <div className="flex-1" />
+
+      {/* Exit */}
+      {onExit && (
+        <Button3D
+          size="sm"
+          color={UI_COLORS.accentSecondary}
+          textColor={UI_COLORS.white}
+          onClick={onExit}
+          className="w-full"
+        >
+          DOSSIER
+        </Button3D>
+      )}
+    </div>
+  );
+}
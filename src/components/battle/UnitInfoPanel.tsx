@@ -5,11 +5,16 @@
  * Shows health, stats, active modifiers, and position.
  */
 
-import { UnitRenderData, calculateHealthPercent } from '../../core/battle';
-import { UI_COLORS, ARENA_COLORS } from '../../core/theme/colors';
-import { calculateDPS } from '../../core/battle/BattleConfig';
+import {
+  AttackMode,
+  UnitRenderData,
+  calculateHealthPercent,
+  createLevelStats,
+} from '../../core/battle';
+import { UI_COLORS, ARENA_COLORS, ELITE_COLORS, getAffixColor } from '../../core/theme/colors';
+import { DEFAULT_DAMAGE_TYPE, calculateDPS } from '../../core/battle/BattleConfig';
 import { ModifierDisplay } from './ModifierDisplay';
-import { unitRegistry } from '../../data/battle';
+import { affixRegistry, unitRegistry } from '../../data/battle';
 
 // Industrial theme styles
 const styles = {
@@ -19,6 +24,19 @@ const styles = {
   healthBarBg: { backgroundColor: UI_COLORS.panelDark },
 };
 
+/** Layers an attack hits for display (ground unless opted out, air only if opted in) */
+function formatTargetLayers(attack: AttackMode): string {
+  const layers: string[] = [];
+  if (attack.canTargetGround !== false) layers.push('GROUND');
+  if (attack.canTargetAir) layers.push('AIR');
+  return layers.join(' + ');
+}
+
+/** Rounds a stat for display (upgrade percentages leave long decimals) */
+function formatStat(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Extracted Components (reduce nesting and DRY violations)
 // ─────────────────────────────────────────────────────────────────────────────
@@ -27,10 +45,13 @@ const styles = {
 function StatRow({
   label,
   value,
+  baseValue,
   bold,
 }: {
   label: string;
   value: string | number;
+  /** Value before upgrades, shown faded when it differs */
+  baseValue?: string | number;
   bold?: boolean;
 }) {
   return (
@@ -42,6 +63,9 @@ function StatRow({
         className="font-mono"
         style={bold ? { color: UI_COLORS.textPrimary, fontWeight: 'bold' } : styles.text}
       >
+        {baseValue !== undefined && baseValue !== value && (
+          <span style={styles.textFaded}>{baseValue} → </span>
+        )}
         {value}
       </span>
     </div>
@@ -63,23 +87,44 @@ function SectionHeader({ children }: { children: React.ReactNode }) {
 /** Attack stats section (melee or ranged) */
 function AttackStatsSection({
   title,
-  damage,
-  attackSpeed,
-  range,
+  attack,
+  baseAttack,
+  showRange,
 }: {
   title: string;
-  damage: number;
-  attackSpeed: number;
-  range?: number;
+  attack: AttackMode;
+  /** Attack before upgrades */
+  baseAttack?: AttackMode | null;
+  showRange?: boolean;
 }) {
-  const dps = calculateDPS(damage, attackSpeed);
+  const dps = calculateDPS(attack.damage, attack.attackSpeed);
+  const baseDps = baseAttack ? calculateDPS(baseAttack.damage, baseAttack.attackSpeed) : undefined;
   return (
     <div className="pb-2 mb-2" style={{ borderBottom: `1px solid ${UI_COLORS.metalDark}` }}>
       <SectionHeader>{title.toUpperCase()}</SectionHeader>
-      <StatRow label="DAMAGE" value={damage} />
-      <StatRow label="RATE" value={`${attackSpeed}/s`} />
-      {range !== undefined && <StatRow label="RANGE" value={range} />}
-      <StatRow label="DPS" value={dps.toFixed(1)} bold />
+      <StatRow label="TYPE" value={(attack.damageType ?? DEFAULT_DAMAGE_TYPE).toUpperCase()} />
+      <StatRow label="HITS" value={formatTargetLayers(attack)} />
+      {attack.armorPenetration !== undefined && (
+        <StatRow label="PIERCE" value={attack.armorPenetration} />
+      )}
+      <StatRow
+        label="DAMAGE"
+        value={formatStat(attack.damage)}
+        baseValue={baseAttack ? formatStat(baseAttack.damage) : undefined}
+      />
+      <StatRow
+        label="RATE"
+        value={`${formatStat(attack.attackSpeed)}/s`}
+        baseValue={baseAttack ? `${formatStat(baseAttack.attackSpeed)}/s` : undefined}
+      />
+      {showRange && (
+        <StatRow
+          label="RANGE"
+          value={formatStat(attack.range)}
+          baseValue={baseAttack ? formatStat(baseAttack.range) : undefined}
+        />
+      )}
+      <StatRow label="DPS" value={dps.toFixed(1)} baseValue={baseDps?.toFixed(1)} bold />
     </div>
   );
 }
@@ -93,6 +138,8 @@ interface UnitInfoPanelProps {
 export function UnitInfoPanel({ unit, squadCount = 1, onDeselect }: UnitInfoPanelProps) {
   const healthPercent = calculateHealthPercent(unit.health, unit.stats.maxHealth);
   const unitDefinition = unitRegistry.tryGet(unit.type);
+  // Stats before upgrades, to compare against the upgraded values
+  const baseStats = unitDefinition ? createLevelStats(unitDefinition.baseStats, unit.level) : null;
 
   return (
     <div className="flex flex-col gap-4" style={styles.text}>
@@ -140,8 +187,35 @@ export function UnitInfoPanel({ unit, squadCount = 1, onDeselect }: UnitInfoPane
         >
           LV {unit.level}
         </span>
+        {unit.elite && (
+          <span
+            className="px-2 py-0.5 rounded text-sm uppercase"
+            style={{
+              backgroundColor: UI_COLORS.metalDark,
+              color: unit.elite.rank === 'boss' ? ELITE_COLORS.boss : ELITE_COLORS.elite,
+            }}
+          >
+            {unit.elite.rank}
+          </span>
+        )}
       </div>
 
+      {unit.elite && unit.elite.affixes.length > 0 && (
+        <div className="space-y-1">
+          {unit.elite.affixes.map((id) => {
+            const affix = affixRegistry.tryGet(id);
+            return (
+              <div key={id} className="text-sm">
+                <span style={{ color: getAffixColor(affix?.colorKey ?? id) }}>
+                  {affix?.name ?? id}
+                </span>
+                {affix && <span style={styles.textFaded}> - {affix.description}</span>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Health bar */}
       <div>
         <div className="flex justify-between items-center mb-1">
@@ -149,7 +223,11 @@ export function UnitInfoPanel({ unit, squadCount = 1, onDeselect }: UnitInfoPane
             HP
           </span>
           <span className="font-mono" style={styles.text}>
-            {Math.round(unit.health).toLocaleString()} / {unit.stats.maxHealth.toLocaleString()}
+            {Math.round(unit.health).toLocaleString()} /{' '}
+            {baseStats && baseStats.maxHealth !== Math.round(unit.stats.maxHealth) && (
+              <span style={styles.textFaded}>{baseStats.maxHealth.toLocaleString()} → </span>
+            )}
+            {Math.round(unit.stats.maxHealth).toLocaleString()}
           </span>
         </div>
         <div className="h-3 rounded overflow-hidden" style={styles.healthBarBg}>
@@ -173,26 +251,66 @@ export function UnitInfoPanel({ unit, squadCount = 1, onDeselect }: UnitInfoPane
         {unit.stats.melee && (
           <AttackStatsSection
             title="Melee"
-            damage={unit.stats.melee.damage}
-            attackSpeed={unit.stats.melee.attackSpeed}
+            attack={unit.stats.melee}
+            baseAttack={baseStats?.melee}
           />
         )}
 
         {unit.stats.ranged && (
           <AttackStatsSection
             title="Ranged"
-            damage={unit.stats.ranged.damage}
-            attackSpeed={unit.stats.ranged.attackSpeed}
-            range={unit.stats.ranged.range}
+            attack={unit.stats.ranged}
+            baseAttack={baseStats?.ranged}
+            showRange
           />
         )}
 
+        {unit.stats.repair && (
+          <div className="pb-2 mb-2" style={{ borderBottom: `1px solid ${UI_COLORS.metalDark}` }}>
+            <SectionHeader>REPAIR</SectionHeader>
+            <StatRow
+              label="HEAL"
+              value={formatStat(unit.stats.repair.damage)}
+              baseValue={baseStats?.repair ? formatStat(baseStats.repair.damage) : undefined}
+            />
+            <StatRow label="RATE" value={`${formatStat(unit.stats.repair.attackSpeed)}/s`} />
+            <StatRow label="RANGE" value={formatStat(unit.stats.repair.range)} />
+            <StatRow
+              label="HPS"
+              value={calculateDPS(unit.stats.repair.damage, unit.stats.repair.attackSpeed).toFixed(
+                1
+              )}
+              bold
+            />
+          </div>
+        )}
+
+        <SectionHeader>DEFENSE</SectionHeader>
+        <StatRow
+          label="ARMOR"
+          value={formatStat(unit.stats.armor ?? 0)}
+          baseValue={baseStats ? formatStat(baseStats.armor ?? 0) : undefined}
+        />
+        {Object.entries(unit.stats.resistances ?? {}).map(([damageType, resistance]) => (
+          <StatRow
+            key={damageType}
+            label={`VS ${damageType}`}
+            value={`${resistance > 0 ? '-' : '+'}${Math.round(Math.abs(resistance) * 100)}%`}
+          />
+        ))}
+
         <SectionHeader>MOBILITY</SectionHeader>
-        <StatRow label="SPEED" value={unit.stats.moveSpeed} />
+        <StatRow label="LAYER" value={unit.movementLayer.toUpperCase()} />
+        {unit.isGiant && <StatRow label="CLASS" value="GIANT" />}
+        <StatRow
+          label="SPEED"
+          value={formatStat(unit.stats.moveSpeed)}
+          baseValue={baseStats ? formatStat(baseStats.moveSpeed) : undefined}
+        />
       </div>
 
-      {/* Active Modifiers (Buffs/Debuffs) */}
-      {unit.activeModifiers.length > 0 && (
+      {/* Active Modifiers (Buffs/Debuffs) and Status Effects */}
+      {(unit.activeModifiers.length > 0 || unit.statusEffects.length > 0) && (
         <div className="pt-2" style={{ borderTop: `1px solid ${UI_COLORS.metalDark}` }}>
           <SectionHeader>EFFECTS</SectionHeader>
           <div className="space-y-2">
@@ -203,6 +321,13 @@ export function UnitInfoPanel({ unit, squadCount = 1, onDeselect }: UnitInfoPane
                 remainingDuration={mod.remainingDuration}
               />
             ))}
+            {unit.statusEffects.map((status) => (
+              <ModifierDisplay
+                key={`status_${status.type}`}
+                sourceId={`status_${status.type}`}
+                remainingDuration={status.remainingDuration}
+              />
+            ))}
           </div>
         </div>
       )}
@@ -5,10 +5,11 @@
  * - Unit selection (click, double-click)
  * - Unit dragging (single and multi-unit)
  * - Box selection (marquee select)
+ * - Tactical orders (right-click during battle)
  */
 
 import { useState, useRef, useCallback, useEffect, RefObject } from 'react';
-import type { ISelectable } from '../../../core/battle';
+import type { ISelectable, SquadOrder } from '../../../core/battle';
 import { ZONE_HEIGHT_PERCENT } from '../../../core/battle';
 import {
   DRAG_BOUNDS_MARGIN,
@@ -27,6 +28,7 @@ import {
 } from '../../../core/battle/DragController';
 import { applyGridSnapToMoves } from '../../../core/battle/grid/GridSnapService';
 import { findSquadAtPosition } from '../../../core/battle/InputAdapter';
+import { getOrderForClick, getOrderableUnitIds } from '../../../core/battle/orders';
 import {
   selectAllOfType,
   selectSquad,
@@ -73,6 +75,8 @@ export interface CanvasInputCallbacks {
   onUnitsMove?: (moves: Array<{ unitId: string; position: Vector2 }>) => void;
   onSelectUnit?: (unitId: string | null) => void;
   onSelectUnits?: (unitIds: string[]) => void;
+  /** Give units a tactical order (omit to disable right-click orders, e.g. during deployment) */
+  onIssueOrder?: (unitIds: string[], order: SquadOrder | null) => void;
 }
 
 export interface UseCanvasInputProps<T extends ISelectable = ISelectable>
@@ -87,6 +91,7 @@ export interface UseCanvasInputResult {
     onMouseMove: (e: React.MouseEvent<HTMLCanvasElement>) => void;
     onMouseUp: () => void;
     onDoubleClick: (e: React.MouseEvent<HTMLCanvasElement>) => void;
+    onContextMenu: (e: React.MouseEvent<HTMLCanvasElement>) => void;
   };
 }
 
@@ -105,6 +110,7 @@ export function useCanvasInput<T extends ISelectable = ISelectable>({
   onUnitsMove,
   onSelectUnit,
   onSelectUnits,
+  onIssueOrder,
 }: UseCanvasInputProps<T>): UseCanvasInputResult {
   // ─────────────────────────────────────────────────────────────────────────────
   // State
@@ -257,6 +263,8 @@ export function useCanvasInput<T extends ISelectable = ISelectable>({
   /** Mouse down - start selection, drag, or box select */
   const handleMouseDown = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
+      // Right button is reserved for orders (see handleContextMenu)
+      if (e.button !== 0) return;
       const pos = getMousePos(e);
       // Use squad bounding box for hit detection so clicking between units still works
       const clickedUnit = findSquadAtPosition(pos, units, height);
@@ -312,6 +320,20 @@ export function useCanvasInput<T extends ISelectable = ISelectable>({
     [getMousePos, units, onSelectUnits, height]
   );
 
+  /** Right click - order selected squads to focus an enemy squad or fall back to a point */
+  const handleContextMenu = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      e.preventDefault();
+      if (!onIssueOrder) return;
+
+      const unitIds = getOrderableUnitIds(selectedUnitIds, units);
+      if (unitIds.length === 0) return;
+
+      onIssueOrder(unitIds, getOrderForClick(getMousePos(e), units, height));
+    },
+    [getMousePos, units, selectedUnitIds, onIssueOrder, height]
+  );
+
   /** Mouse move - delegates to shared logic */
   const handleMouseMove = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -358,6 +380,7 @@ export function useCanvasInput<T extends ISelectable = ISelectable>({
       onMouseMove: handleMouseMove,
       onMouseUp: handleMouseUp,
       onDoubleClick: handleDoubleClick,
+      onContextMenu: handleContextMenu,
     },
   };
 }
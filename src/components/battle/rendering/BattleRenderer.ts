@@ -7,7 +7,7 @@
 
 import type { BattleState } from '../../../core/battle';
 import { ZONE_HEIGHT_PERCENT } from '../../../core/battle';
-import { ARENA_COLORS } from '../../../core/theme/colors';
+import { ARENA_COLORS, getAffixColor } from '../../../core/theme/colors';
 import {
   getSelectionBox,
   isBoxSelectActive,
@@ -18,19 +18,23 @@ import {
   drawUnitShadow,
   drawUnitBody,
   drawHealthBar,
+  drawGiantHealthBar,
   drawDebuffIndicator,
+  drawEliteAura,
   drawSquadLevels,
 } from './drawUnit';
-import { drawProjectile } from './drawProjectile';
+import { drawBeam, drawProjectile } from './drawProjectile';
 import { drawCastle, drawCastleHealthBar } from './drawCastle';
+import { drawTerrain } from './drawTerrain';
 import { drawShockwave } from './drawEffects';
-import { drawSelectionBox, drawSquadSelections } from './drawSelection';
+import { drawSelectionBox, drawSquadOrders, drawSquadSelections } from './drawSelection';
 import { drawParchmentBackground, drawVignette } from './drawBackground';
 import { drawInkSplatters } from './drawInkSplatter';
 import { drawAimingLaser } from './drawLaser';
-import { drawBackgroundGrid, drawFlankZones } from './drawGrid';
+import { drawBackgroundGrid, drawFlankZones, drawFlowField } from './drawGrid';
 import { calculateCellSize } from '../../../core/battle/grid/GridManager';
 import type { InkSplatter } from '../../../core/battle/particles';
+import { affixRegistry } from '../../../data/battle';
 
 /**
  * Render context passed to the main render function.
@@ -46,6 +50,18 @@ export interface RenderContext {
   boxSelectSession: BoxSelectSession | null;
   ghostHealthMap: Map<string, number>;
   inkSplatters: InkSplatter[];
+  /** Draw the pathfinding flow field (debug overlay) */
+  showFlowField?: boolean;
+}
+
+/**
+ * Aura colors for a unit's affixes (unknown affixes are skipped).
+ */
+function getAffixAuraColors(affixIds: string[]): string[] {
+  return affixIds.flatMap((id) => {
+    const affix = affixRegistry.tryGet(id);
+    return affix ? [getAffixColor(affix.colorKey)] : [];
+  });
 }
 
 /**
@@ -81,6 +97,7 @@ export function renderBattle(context: RenderContext): void {
     boxSelectSession,
     ghostHealthMap,
     inkSplatters,
+    showFlowField = false,
   } = context;
 
   // Calculate cell size once for grid-based rendering
@@ -102,6 +119,16 @@ export function renderBattle(context: RenderContext): void {
   // 3. Ink splatters (on the ground, behind everything else)
   drawInkSplatters(ctx, inkSplatters);
 
+  // 3.5. Terrain in no man's land (walls, rough ground, high ground)
+  for (const terrain of state.terrain) {
+    drawTerrain(ctx, terrain, cellSize);
+  }
+
+  // 3.6. Pathfinding flow field (debug overlay)
+  if (showFlowField && state.flowField) {
+    drawFlowField(ctx, state.flowField, cellSize);
+  }
+
   // 4. Shockwaves (draw early so other elements appear on top)
   for (const shockwave of state.shockwaves) {
     drawShockwave(ctx, shockwave, width, height);
@@ -112,13 +139,19 @@ export function renderBattle(context: RenderContext): void {
     drawCastle(ctx, castle, cellSize);
   }
 
-  // 6. Projectiles
+  // 6. Projectiles, then beams and chain arcs
   for (const proj of state.projectiles) {
     drawProjectile(ctx, proj, height);
   }
+  for (const beam of state.beams) {
+    drawBeam(ctx, beam);
+  }
 
-  // Filter out castle-type units (they're rendered separately via state.castles)
-  const mobileUnits = state.units.filter((u) => u.type !== 'castle');
+  // Filter out castle-type units (they're rendered separately via state.castles).
+  // Air units come last so they draw above ground units.
+  const mobileUnits = state.units
+    .filter((u) => u.type !== 'castle')
+    .sort((a, b) => Number(a.movementLayer === 'air') - Number(b.movementLayer === 'air'));
 
   // 7. Aiming lasers (drawn before units so they appear underneath)
   for (const unit of mobileUnits) {
@@ -132,6 +165,13 @@ export function renderBattle(context: RenderContext): void {
     drawUnitShadow(ctx, unit);
   }
 
+  // 8. Elite and boss auras (behind unit bodies)
+  for (const unit of mobileUnits) {
+    if (unit.elite) {
+      drawEliteAura(ctx, unit, getAffixAuraColors(unit.elite.affixes));
+    }
+  }
+
   // 8. Unit bodies
   for (const unit of mobileUnits) {
     const isBeingDragged = isDragging && draggedUnitIds.includes(unit.id);
@@ -147,13 +187,22 @@ export function renderBattle(context: RenderContext): void {
   // Use all units (including castles) for selection visuals
   drawSquadSelections(ctx, state.units, selectedUnitIds, isDragging, cellSize);
 
+  // 8.6. Tactical order icons (battle only)
+  if (state.hasStarted) {
+    drawSquadOrders(ctx, state.units, cellSize);
+  }
+
   // 9. Dust particles disabled (removed for AC6 aesthetic)
   // drawDustParticles(ctx, dustParticles);
 
-  // 10. Health bars for units (only show if damaged, skip dying units)
+  // 10. Health bars for units (only show if damaged, skip dying units).
+  // Giants always show their large bar once the battle starts.
   for (const unit of mobileUnits) {
-    if (unit.deathFadeTimer < 0 && unit.health < unit.stats.maxHealth) {
-      const ghostHealth = ghostHealthMap.get(unit.id) ?? unit.health;
+    if (unit.deathFadeTimer >= 0) continue;
+    const ghostHealth = ghostHealthMap.get(unit.id) ?? unit.health;
+    if (unit.isGiant) {
+      if (state.hasStarted) drawGiantHealthBar(ctx, unit, ghostHealth);
+    } else if (unit.health < unit.stats.maxHealth) {
       drawHealthBar(ctx, unit, ghostHealth);
     }
   }
@@ -79,7 +79,7 @@ export function drawDamageNumber(
   damageNumber: DamageNumberRenderData,
   arenaHeight: number
 ): void {
-  const { position, amount, progress } = damageNumber;
+  const { position, amount, kind, progress } = damageNumber;
 
   // Fade out as progress increases (0 = just spawned, 1 = about to disappear)
   const opacity = 1 - progress;
@@ -101,16 +101,16 @@ export function drawDamageNumber(
   ctx.textAlign = 'center';
   ctx.textBaseline = 'middle';
 
-  // Draw text with outline for readability
-  const text = String(amount);
+  // Draw text with outline for readability (heals read as +N)
+  const text = kind === 'heal' ? `+${amount}` : String(amount);
 
   // Outline
   ctx.strokeStyle = ARENA_COLORS.damageNumberOutline;
   ctx.lineWidth = 3;
   ctx.strokeText(text, 0, 0);
 
-  // Fill - red for all damage
-  ctx.fillStyle = ARENA_COLORS.damageNumber;
+  // Fill - red for damage, green for healing
+  ctx.fillStyle = kind === 'heal' ? ARENA_COLORS.healingNumber : ARENA_COLORS.damageNumber;
   ctx.fillText(text, 0, 0);
 
   ctx.restore();
@@ -3,6 +3,7 @@
  *
  * Renders the deployment grid overlay during the deployment phase.
  * Shows valid placement cells and footprint previews.
+ * Also draws the pathfinding flow field as a debug overlay.
  */
 
 import {
@@ -14,6 +15,8 @@ import {
 } from '../../../core/battle/BattleConfig';
 import { ARENA_COLORS, UI_COLORS, hexToRgba } from '../../../core/theme/colors';
 import type { GridPosition, GridFootprint } from '../../../core/battle/grid/GridTypes';
+import { FLOW_DIRECTIONS } from '../../../core/battle/pathfinding/FlowField';
+import type { FlowField } from '../../../core/battle/pathfinding/FlowField';
 
 /**
  * Draw the deployment grid overlay.
@@ -267,3 +270,71 @@ export function drawBackgroundGrid(
 
   ctx.restore();
 }
+
+/**
+ * Draw a pathfinding flow field as a debug overlay.
+ * Each reachable cell gets a short arrow toward its next step;
+ * unreachable cells (castles, walls, sealed pockets) are shaded.
+ *
+ * @param ctx - Canvas rendering context
+ * @param field - Flow field to draw
+ * @param cellSize - Size of each grid cell in pixels
+ * @param alpha - Opacity of the overlay (0-1)
+ */
+export function drawFlowField(
+  ctx: CanvasRenderingContext2D,
+  field: FlowField,
+  cellSize: number,
+  alpha: number = 0.6
+): void {
+  if (cellSize <= 0) return;
+
+  const arrowLength = cellSize * 0.35;
+  const headLength = cellSize * 0.15;
+
+  ctx.save();
+  ctx.globalAlpha = alpha;
+
+  // Unreachable cells
+  ctx.fillStyle = hexToRgba(UI_COLORS.black, 0.25);
+  for (let row = 0; row < field.rows; row++) {
+    for (let col = 0; col < field.cols; col++) {
+      if (field.costs[row * field.cols + col] === Infinity) {
+        ctx.fillRect(col * cellSize, row * cellSize, cellSize, cellSize);
+      }
+    }
+  }
+
+  // Next-step arrows
+  ctx.strokeStyle = UI_COLORS.accentPrimary;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  for (let row = 0; row < field.rows; row++) {
+    for (let col = 0; col < field.cols; col++) {
+      const direction = field.directions[row * field.cols + col];
+      if (direction < 0) continue;
+
+      const step = FLOW_DIRECTIONS[direction];
+      const angle = Math.atan2(step.row, step.col);
+      const cx = (col + 0.5) * cellSize;
+      const cy = (row + 0.5) * cellSize;
+      const tipX = cx + Math.cos(angle) * arrowLength;
+      const tipY = cy + Math.sin(angle) * arrowLength;
+
+      ctx.moveTo(cx - Math.cos(angle) * arrowLength, cy - Math.sin(angle) * arrowLength);
+      ctx.lineTo(tipX, tipY);
+      ctx.lineTo(
+        tipX - Math.cos(angle - Math.PI / 6) * headLength,
+        tipY - Math.sin(angle - Math.PI / 6) * headLength
+      );
+      ctx.moveTo(tipX, tipY);
+      ctx.lineTo(
+        tipX - Math.cos(angle + Math.PI / 6) * headLength,
+        tipY - Math.sin(angle + Math.PI / 6) * headLength
+      );
+    }
+  }
+  ctx.stroke();
+
+  ctx.restore();
+}
@@ -1,66 +1,331 @@
 /**
  * Projectile Drawing Functions
  *
- * Renders projectiles with gradient trails.
+ * Renders projectiles with gradient trails, one style per flight behavior,
+ * plus beams and chain arcs.
  * Extracted from BattleCanvas for better organization.
  */
 
-import type { ProjectileRenderData } from '../../../core/battle';
+import type { BeamRenderData, ProjectileRenderData } from '../../../core/battle';
 import {
+  ARC_SHADOW_RADIUS,
   BASE_PROJECTILE_TRAIL_LENGTH,
+  BEAM_CORE_WIDTH,
+  BEAM_GLOW_WIDTH,
+  CHAIN_ARC_JITTER,
+  CHAIN_ARC_SEGMENTS,
   PROJECTILE_TRAIL_WIDTH,
   PROJECTILE_HEAD_RADIUS,
   scaleValue,
 } from '../../../core/battle/BattleConfig';
+import { ARENA_COLORS } from '../../../core/theme/colors';
 
 /**
- * Draw projectile with gradient trail.
+ * Draw a projectile in the style of its flight behavior.
  */
 export function drawProjectile(
   ctx: CanvasRenderingContext2D,
   proj: ProjectileRenderData,
   arenaHeight: number
 ): void {
-  const { position, target, color } = proj;
+  switch (proj.projectileType) {
+    case 'arc':
+      drawArcProjectile(ctx, proj, arenaHeight);
+      return;
+    case 'pierce':
+      drawPierceProjectile(ctx, proj, arenaHeight);
+      return;
+    case 'homing':
+      drawHomingProjectile(ctx, proj, arenaHeight);
+      return;
+    case 'chain':
+      drawChainProjectile(ctx, proj, arenaHeight);
+      return;
+    default:
+      drawStraightProjectile(ctx, proj, arenaHeight);
+  }
+}
 
-  // Calculate direction toward target
-  const dx = target.x - position.x;
-  const dy = target.y - position.y;
+/**
+ * Direction from a projectile to its target (up if it is already there).
+ */
+function getDirection(proj: ProjectileRenderData): { x: number; y: number } {
+  const dx = proj.target.x - proj.position.x;
+  const dy = proj.target.y - proj.position.y;
   const dist = Math.sqrt(dx * dx + dy * dy);
+  return dist > 0.1 ? { x: dx / dist, y: dy / dist } : { x: 0, y: -1 };
+}
 
-  // Normalize direction (or default to up if at target)
-  const dirX = dist > 0.1 ? dx / dist : 0;
-  const dirY = dist > 0.1 ? dy / dist : -1;
-
-  // Trail extends backward from projectile
-  const trailLength = scaleValue(BASE_PROJECTILE_TRAIL_LENGTH, arenaHeight);
-  const trailEndX = position.x - dirX * trailLength;
-  const trailEndY = position.y - dirY * trailLength;
-
-  ctx.save();
+/**
+ * Draw a gradient trail ending at a point, fading out behind it.
+ */
+function drawTrail(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  dirX: number,
+  dirY: number,
+  length: number,
+  width: number,
+  color: string
+): void {
+  const trailEndX = x - dirX * length;
+  const trailEndY = y - dirY * length;
 
-  // Draw trail as gradient line
-  const gradient = ctx.createLinearGradient(trailEndX, trailEndY, position.x, position.y);
+  const gradient = ctx.createLinearGradient(trailEndX, trailEndY, x, y);
   gradient.addColorStop(0, 'transparent');
   gradient.addColorStop(1, color);
 
   ctx.strokeStyle = gradient;
-  ctx.lineWidth = PROJECTILE_TRAIL_WIDTH;
+  ctx.lineWidth = width;
   ctx.lineCap = 'round';
   ctx.beginPath();
   ctx.moveTo(trailEndX, trailEndY);
-  ctx.lineTo(position.x, position.y);
+  ctx.lineTo(x, y);
   ctx.stroke();
+}
 
-  // Draw projectile head
-  ctx.translate(position.x, position.y);
+/**
+ * Draw a glowing projectile head.
+ */
+function drawHead(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  radius: number,
+  color: string
+): void {
   ctx.fillStyle = color;
   ctx.shadowColor = color;
   ctx.shadowBlur = 8;
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+/**
+ * Draw projectile with gradient trail.
+ */
+function drawStraightProjectile(
+  ctx: CanvasRenderingContext2D,
+  proj: ProjectileRenderData,
+  arenaHeight: number
+): void {
+  const { position, color } = proj;
+  const dir = getDirection(proj);
+  const trailLength = scaleValue(BASE_PROJECTILE_TRAIL_LENGTH, arenaHeight);
 
+  ctx.save();
+  drawTrail(ctx, position.x, position.y, dir.x, dir.y, trailLength, PROJECTILE_TRAIL_WIDTH, color);
+  drawHead(ctx, position.x, position.y, PROJECTILE_HEAD_RADIUS, color);
+  ctx.restore();
+}
+
+/**
+ * Draw an arcing shell: a ground shadow that shrinks as the shell climbs,
+ * and the shell itself raised by its height.
+ */
+function drawArcProjectile(
+  ctx: CanvasRenderingContext2D,
+  proj: ProjectileRenderData,
+  arenaHeight: number
+): void {
+  const { position, color, height } = proj;
+  const shellY = position.y - height;
+  const climb = Math.min(1, height / scaleValue(BASE_PROJECTILE_TRAIL_LENGTH * 2, arenaHeight));
+
+  ctx.save();
+
+  // Shadow on the ground below the shell
+  ctx.fillStyle = ARENA_COLORS.shellShadow;
   ctx.beginPath();
-  ctx.arc(0, 0, PROJECTILE_HEAD_RADIUS, 0, Math.PI * 2);
+  ctx.ellipse(
+    position.x,
+    position.y,
+    ARC_SHADOW_RADIUS * (1.5 - climb * 0.5),
+    ARC_SHADOW_RADIUS * 0.6,
+    0,
+    0,
+    Math.PI * 2
+  );
   ctx.fill();
 
+  // Short trail behind the shell
+  const dir = getDirection(proj);
+  const trailLength = scaleValue(BASE_PROJECTILE_TRAIL_LENGTH * 0.5, arenaHeight);
+  drawTrail(ctx, position.x, shellY, dir.x, dir.y, trailLength, PROJECTILE_TRAIL_WIDTH, color);
+  drawHead(ctx, position.x, shellY, PROJECTILE_HEAD_RADIUS * 1.3, color);
+
   ctx.restore();
 }
+
+/**
+ * Draw a piercing bolt: a long, thin streak with a pointed head.
+ */
+function drawPierceProjectile(
+  ctx: CanvasRenderingContext2D,
+  proj: ProjectileRenderData,
+  arenaHeight: number
+): void {
+  const { position, color } = proj;
+  const dir = getDirection(proj);
+  const trailLength = scaleValue(BASE_PROJECTILE_TRAIL_LENGTH * 2, arenaHeight);
+  const headLength = PROJECTILE_HEAD_RADIUS * 2;
+
+  ctx.save();
+  drawTrail(
+    ctx,
+    position.x,
+    position.y,
+    dir.x,
+    dir.y,
+    trailLength,
+    PROJECTILE_TRAIL_WIDTH * 0.75,
+    color
+  );
+
+  // Arrowhead pointing along the flight
+  ctx.fillStyle = color;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 6;
+  ctx.beginPath();
+  ctx.moveTo(position.x + dir.x * headLength, position.y + dir.y * headLength);
+  ctx.lineTo(
+    position.x - dir.y * PROJECTILE_HEAD_RADIUS,
+    position.y + dir.x * PROJECTILE_HEAD_RADIUS
+  );
+  ctx.lineTo(
+    position.x + dir.y * PROJECTILE_HEAD_RADIUS,
+    position.y - dir.x * PROJECTILE_HEAD_RADIUS
+  );
+  ctx.closePath();
+  ctx.fill();
+
+  ctx.restore();
+}
+
+/**
+ * Draw a homing missile: a head ringed by a lock-on circle.
+ */
+function drawHomingProjectile(
+  ctx: CanvasRenderingContext2D,
+  proj: ProjectileRenderData,
+  arenaHeight: number
+): void {
+  const { position, color } = proj;
+  const dir = getDirection(proj);
+  const trailLength = scaleValue(BASE_PROJECTILE_TRAIL_LENGTH, arenaHeight);
+
+  ctx.save();
+  drawTrail(ctx, position.x, position.y, dir.x, dir.y, trailLength, PROJECTILE_TRAIL_WIDTH, color);
+  drawHead(ctx, position.x, position.y, PROJECTILE_HEAD_RADIUS, color);
+
+  ctx.shadowBlur = 0;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.globalAlpha = 0.5;
+  ctx.beginPath();
+  ctx.arc(position.x, position.y, PROJECTILE_HEAD_RADIUS * 2, 0, Math.PI * 2);
+  ctx.stroke();
+
+  ctx.restore();
+}
+
+/**
+ * Draw a chain projectile: a crackling orb with a faint halo.
+ */
+function drawChainProjectile(
+  ctx: CanvasRenderingContext2D,
+  proj: ProjectileRenderData,
+  arenaHeight: number
+): void {
+  const { position, color } = proj;
+  const dir = getDirection(proj);
+  const trailLength = scaleValue(BASE_PROJECTILE_TRAIL_LENGTH * 0.5, arenaHeight);
+
+  ctx.save();
+  drawTrail(ctx, position.x, position.y, dir.x, dir.y, trailLength, PROJECTILE_TRAIL_WIDTH, color);
+
+  ctx.globalAlpha = 0.3;
+  drawHead(ctx, position.x, position.y, PROJECTILE_HEAD_RADIUS * 2, color);
+  ctx.globalAlpha = 1;
+  drawHead(ctx, position.x, position.y, PROJECTILE_HEAD_RADIUS, ARENA_COLORS.beamCore);
+
+  ctx.restore();
+}
+
+/**
+ * Draw a beam or chain arc.
+ * Beams are a glowing line that widens as a continuous beam ramps up;
+ * chain arcs zigzag like lightning.
+ */
+export function drawBeam(ctx: CanvasRenderingContext2D, beam: BeamRenderData): void {
+  if (beam.opacity <= 0) return;
+
+  ctx.save();
+  ctx.globalAlpha = beam.opacity;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (beam.style === 'chain') {
+    drawChainArc(ctx, beam);
+  } else {
+    drawBeamLine(ctx, beam);
+  }
+
+  ctx.restore();
+}
+
+function drawBeamLine(ctx: CanvasRenderingContext2D, beam: BeamRenderData): void {
+  const { origin, end, color, intensity } = beam;
+
+  // Outer glow
+  ctx.strokeStyle = color;
+  ctx.lineWidth = BEAM_GLOW_WIDTH * intensity;
+  ctx.globalAlpha *= 0.25;
+  ctx.beginPath();
+  ctx.moveTo(origin.x, origin.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.stroke();
+
+  // Bright core
+  ctx.globalAlpha = beam.opacity;
+  ctx.strokeStyle = ARENA_COLORS.beamCore;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 6;
+  ctx.lineWidth = BEAM_CORE_WIDTH * intensity;
+  ctx.beginPath();
+  ctx.moveTo(origin.x, origin.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.stroke();
+}
+
+/**
+ * Zigzag line between the arc's ends. Offsets are derived from the beam id
+ * so an arc keeps its shape while it fades.
+ */
+function drawChainArc(ctx: CanvasRenderingContext2D, beam: BeamRenderData): void {
+  const { origin, end, color, id } = beam;
+  const dx = end.x - origin.x;
+  const dy = end.y - origin.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
+  const normalX = length > 0 ? -dy / length : 0;
+  const normalY = length > 0 ? dx / length : 0;
+
+  let seed = 0;
+  for (let i = 0; i < id.length; i++) seed = (seed * 31 + id.charCodeAt(i)) | 0;
+
+  ctx.strokeStyle = color;
+  ctx.shadowColor = color;
+  ctx.shadowBlur = 8;
+  ctx.lineWidth = BEAM_CORE_WIDTH;
+  ctx.beginPath();
+  ctx.moveTo(origin.x, origin.y);
+  for (let i = 1; i < CHAIN_ARC_SEGMENTS; i++) {
+    const t = i / CHAIN_ARC_SEGMENTS;
+    const offset = Math.sin(seed + i * 12.9898) * CHAIN_ARC_JITTER;
+    ctx.lineTo(origin.x + dx * t + normalX * offset, origin.y + dy * t + normalY * offset);
+  }
+  ctx.lineTo(end.x, end.y);
+  ctx.stroke();
+}
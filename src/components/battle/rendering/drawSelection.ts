@@ -1,11 +1,12 @@
 /**
  * Selection Drawing Functions
  *
- * Renders box selection rectangle and squad selection outlines.
+ * Renders box selection rectangle, squad selection outlines and tactical order icons.
  * Extracted from BattleCanvas for better organization.
  */
 
 import { ARENA_COLORS } from '../../../core/theme/colors';
+import type { SquadOrder } from '../../../core/battle/orders';
 import type { UnitRenderData } from '../../../core/battle/types';
 
 /**
@@ -18,6 +19,16 @@ export interface SelectionBox {
   maxY: number;
 }
 
+/**
+ * Squad outline rectangle in pixels.
+ */
+interface SquadRect {
+  minX: number;
+  minY: number;
+  width: number;
+  height: number;
+}
+
 /**
  * Draw box selection rectangle (for marquee/drag selection).
  */
@@ -79,30 +90,7 @@ export function drawSquadSelections(
   for (const [, squadMembers] of squadUnits) {
     if (squadMembers.length === 0) continue;
 
-    // Get footprint from the first unit (all units in squad have same footprint)
-    const footprint = squadMembers[0].gridFootprint;
-
-    // Calculate squad centroid from unit positions (same as collision detection)
-    let centroidX = 0;
-    let centroidY = 0;
-    for (const unit of squadMembers) {
-      centroidX += unit.position.x + unit.visualOffset.x;
-      centroidY += unit.position.y + unit.visualOffset.y;
-    }
-    centroidX /= squadMembers.length;
-    centroidY /= squadMembers.length;
-
-    // Calculate grid position from centroid and footprint (same formula as getFootprintGridPosition)
-    const halfCols = footprint.cols / 2;
-    const halfRows = footprint.rows / 2;
-    const gridCol = Math.floor(centroidX / cellSize - halfCols + 0.5);
-    const gridRow = Math.floor(centroidY / cellSize - halfRows + 0.5);
-
-    // Convert to pixel coordinates using footprint dimensions (exact grid alignment)
-    const minX = gridCol * cellSize;
-    const minY = gridRow * cellSize;
-    const width = footprint.cols * cellSize;
-    const height = footprint.rows * cellSize;
+    const { minX, minY, width, height } = getSquadRect(squadMembers, cellSize);
 
     // Draw selection rectangle - sharp corners, exact grid size
     ctx.strokeStyle = ARENA_COLORS.selectionRing;
@@ -113,3 +101,173 @@ export function drawSquadSelections(
 
   ctx.restore();
 }
+
+/**
+ * Draw tactical order icons above ordered squads, plus where the order leads:
+ * a dashed path to a fall back point, or a crosshair on a focused squad.
+ *
+ * @param ctx - Canvas rendering context
+ * @param units - All units in the battle
+ * @param cellSize - Size of each grid cell in pixels
+ */
+export function drawSquadOrders(
+  ctx: CanvasRenderingContext2D,
+  units: UnitRenderData[],
+  cellSize: number
+): void {
+  if (cellSize <= 0) return;
+
+  const squads = new Map<string, UnitRenderData[]>();
+  for (const unit of units) {
+    if (unit.deathFadeTimer >= 0) continue;
+    const members = squads.get(unit.squadId);
+    if (members) {
+      members.push(unit);
+    } else {
+      squads.set(unit.squadId, [unit]);
+    }
+  }
+
+  ctx.save();
+  ctx.lineWidth = 1.5;
+
+  for (const [, members] of squads) {
+    // Squad members share one order; a member still on its way may lag behind
+    const order = members.find((unit) => unit.order)?.order;
+    if (!order) continue;
+
+    const rect = getSquadRect(members, cellSize);
+    const center = { x: rect.minX + rect.width / 2, y: rect.minY + rect.height / 2 };
+
+    ctx.strokeStyle = ARENA_COLORS.orderMarker;
+    if (order.type === 'fall_back') {
+      ctx.setLineDash([4, 4]);
+      ctx.beginPath();
+      ctx.moveTo(center.x, center.y);
+      ctx.lineTo(order.x, order.y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      ctx.arc(order.x, order.y, cellSize * 0.6, 0, Math.PI * 2);
+      ctx.stroke();
+    } else if (order.type === 'focus') {
+      const target = squads.get(order.targetSquadId);
+      if (target) {
+        const targetRect = getSquadRect(target, cellSize);
+        drawCrosshair(
+          ctx,
+          targetRect.minX + targetRect.width / 2,
+          targetRect.minY + targetRect.height / 2,
+          Math.max(targetRect.width, targetRect.height) * 0.6
+        );
+      }
+    }
+
+    // Badge above the squad's top-right corner
+    const badgeSize = Math.max(cellSize * 1.6, 10);
+    drawOrderBadge(ctx, order, rect.minX + rect.width, rect.minY - badgeSize * 0.6, badgeSize);
+  }
+
+  ctx.restore();
+}
+
+/**
+ * Grid-aligned outline of a squad from its centroid and footprint.
+ * Uses the same footprint-based bounds calculation as collision detection.
+ */
+function getSquadRect(members: UnitRenderData[], cellSize: number): SquadRect {
+  // Get footprint from the first unit (all units in squad have same footprint)
+  const footprint = members[0].gridFootprint;
+
+  // Calculate squad centroid from unit positions (same as collision detection)
+  let centroidX = 0;
+  let centroidY = 0;
+  for (const unit of members) {
+    centroidX += unit.position.x + unit.visualOffset.x;
+    centroidY += unit.position.y + unit.visualOffset.y;
+  }
+  centroidX /= members.length;
+  centroidY /= members.length;
+
+  // Calculate grid position from centroid and footprint (same formula as getFootprintGridPosition)
+  const halfCols = footprint.cols / 2;
+  const halfRows = footprint.rows / 2;
+  const gridCol = Math.floor(centroidX / cellSize - halfCols + 0.5);
+  const gridRow = Math.floor(centroidY / cellSize - halfRows + 0.5);
+
+  // Convert to pixel coordinates using footprint dimensions (exact grid alignment)
+  return {
+    minX: gridCol * cellSize,
+    minY: gridRow * cellSize,
+    width: footprint.cols * cellSize,
+    height: footprint.rows * cellSize,
+  };
+}
+
+/**
+ * Draw a crosshair marking a focused squad.
+ */
+function drawCrosshair(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number): void {
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.moveTo(x - radius * 1.3, y);
+  ctx.lineTo(x - radius * 0.6, y);
+  ctx.moveTo(x + radius * 0.6, y);
+  ctx.lineTo(x + radius * 1.3, y);
+  ctx.moveTo(x, y - radius * 1.3);
+  ctx.lineTo(x, y - radius * 0.6);
+  ctx.moveTo(x, y + radius * 0.6);
+  ctx.lineTo(x, y + radius * 1.3);
+  ctx.stroke();
+}
+
+/**
+ * Draw an order icon on a dark square badge centered at (x, y).
+ * Hold = bar, focus = crosshair, fall back = down chevron, charge = double up chevron.
+ */
+function drawOrderBadge(
+  ctx: CanvasRenderingContext2D,
+  order: SquadOrder,
+  x: number,
+  y: number,
+  size: number
+): void {
+  const half = size / 2;
+  const s = size * 0.28;
+
+  ctx.fillStyle = ARENA_COLORS.orderIconBg;
+  ctx.fillRect(x - half, y - half, size, size);
+  ctx.strokeStyle = ARENA_COLORS.orderIcon;
+  ctx.lineWidth = 1;
+  ctx.strokeRect(x - half, y - half, size, size);
+
+  ctx.lineWidth = Math.max(1.5, size * 0.12);
+  ctx.beginPath();
+  switch (order.type) {
+    case 'hold':
+      ctx.moveTo(x - s, y);
+      ctx.lineTo(x + s, y);
+      break;
+    case 'focus':
+      ctx.arc(x, y, s * 0.8, 0, Math.PI * 2);
+      ctx.moveTo(x - s * 1.3, y);
+      ctx.lineTo(x + s * 1.3, y);
+      ctx.moveTo(x, y - s * 1.3);
+      ctx.lineTo(x, y + s * 1.3);
+      break;
+    case 'fall_back':
+      ctx.moveTo(x - s, y - s * 0.5);
+      ctx.lineTo(x, y + s * 0.5);
+      ctx.lineTo(x + s, y - s * 0.5);
+      break;
+    case 'charge':
+      ctx.moveTo(x - s, y);
+      ctx.lineTo(x, y - s);
+      ctx.lineTo(x + s, y);
+      ctx.moveTo(x - s, y + s);
+      ctx.lineTo(x, y);
+      ctx.lineTo(x + s, y + s);
+      break;
+  }
+  ctx.stroke();
+}
@@ -0,0 +1,70 @@
+/**
+ * Terrain Drawing Functions
+ *
+ * Renders terrain features in no man's land.
+ * Walls are raised blocks, rough ground is hatched rubble,
+ * high ground is a platform with an amber edge.
+ */
+
+import type { TerrainRenderData } from '../../../core/battle';
+import { TERRAIN_COLORS } from '../../../core/theme/colors';
+
+/**
+ * Draw a terrain feature, sized from its grid footprint.
+ */
+export function drawTerrain(
+  ctx: CanvasRenderingContext2D,
+  terrain: TerrainRenderData,
+  cellSize: number
+): void {
+  const width = Math.round(terrain.gridFootprint.cols * cellSize);
+  const height = Math.round(terrain.gridFootprint.rows * cellSize);
+  const x = Math.round(terrain.position.x - width / 2);
+  const y = Math.round(terrain.position.y - height / 2);
+
+  ctx.save();
+
+  switch (terrain.type) {
+    case 'wall': {
+      // Block body with a darker rim and a lit top edge
+      ctx.fillStyle = TERRAIN_COLORS.wall;
+      ctx.fillRect(x, y, width, height);
+      ctx.strokeStyle = TERRAIN_COLORS.wallEdge;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x + 1, y + 1, width - 2, height - 2);
+      ctx.fillStyle = TERRAIN_COLORS.wallHighlight;
+      ctx.fillRect(x, y, width, Math.max(2, Math.round(height * 0.15)));
+      break;
+    }
+    case 'rough': {
+      ctx.fillStyle = TERRAIN_COLORS.rough;
+      ctx.fillRect(x, y, width, height);
+
+      // Diagonal hatching, clipped to the patch
+      ctx.beginPath();
+      ctx.rect(x, y, width, height);
+      ctx.clip();
+      ctx.strokeStyle = TERRAIN_COLORS.roughHatch;
+      ctx.lineWidth = 1;
+      const spacing = Math.max(4, cellSize / 2);
+      ctx.beginPath();
+      for (let offset = -height; offset < width; offset += spacing) {
+        ctx.moveTo(x + offset, y + height);
+        ctx.lineTo(x + offset + height, y);
+      }
+      ctx.stroke();
+      break;
+    }
+    case 'high_ground': {
+      ctx.fillStyle = TERRAIN_COLORS.highGround;
+      ctx.fillRect(x, y, width, height);
+      ctx.strokeStyle = TERRAIN_COLORS.highGroundEdge;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([cellSize / 2, cellSize / 4]);
+      ctx.strokeRect(x + 1, y + 1, width - 2, height - 2);
+      break;
+    }
+  }
+
+  ctx.restore();
+}
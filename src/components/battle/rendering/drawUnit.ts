@@ -5,23 +5,41 @@
  * Extracted from BattleCanvas for better organization.
  */
 
-import type { UnitRenderData } from '../../../core/battle';
+import type { StatusEffectType, UnitRenderData } from '../../../core/battle';
 import {
+  AIR_UNIT_SHADOW_OFFSET,
+  AIR_UNIT_SHADOW_OPACITY,
+  GIANT_HEALTH_BAR_HEIGHT,
+  GIANT_HEALTH_BAR_SEGMENTS,
+  GIANT_HEALTH_BAR_WIDTH_MULTIPLIER,
   HIT_FLASH_DURATION,
   DEATH_FADE_DURATION,
+  STATUS_ICON_SIZE,
+  STATUS_ICON_SPACING,
   UNIT_SHADOW_OFFSET,
   UNIT_SHADOW_OPACITY,
 } from '../../../core/battle/BattleConfig';
 import { computeWalkAnimationState } from '../../../core/battle/animations';
-import { ARENA_COLORS, UI_COLORS, getOppositeTeam, getTeamColor } from '../../../core/theme/colors';
+import {
+  ARENA_COLORS,
+  ELITE_COLORS,
+  STATUS_COLORS,
+  UI_COLORS,
+  getOppositeTeam,
+  getTeamColor,
+} from '../../../core/theme/colors';
 
 /**
  * Draw unit shadow beneath the unit.
  * Shadow stays on the ground (no bounce offset) but scales with squash.
+ * Air units cast a fainter shadow further away.
  */
 export function drawUnitShadow(ctx: CanvasRenderingContext2D, unit: UnitRenderData): void {
   const { position, shape, size, visualOffset, deathFadeTimer, walkAnimation, walkAnimationTime } =
     unit;
+  const isAir = unit.movementLayer === 'air';
+  const shadowOffset = isAir ? AIR_UNIT_SHADOW_OFFSET : UNIT_SHADOW_OFFSET;
+  const shadowOpacity = isAir ? AIR_UNIT_SHADOW_OPACITY : UNIT_SHADOW_OPACITY;
 
   // Calculate death fade effect (shadows also fade with unit)
   const isDying = deathFadeTimer >= 0;
@@ -30,8 +48,8 @@ export function drawUnitShadow(ctx: CanvasRenderingContext2D, unit: UnitRenderDa
   const deathScale = isDying ? 1 - deathProgress * 0.3 : 1;
 
   // Shadow stays on the ground (no bounceY offset), but stretches with squash
-  const renderX = position.x + (visualOffset?.x ?? 0) + UNIT_SHADOW_OFFSET;
-  const renderY = position.y + (visualOffset?.y ?? 0) + UNIT_SHADOW_OFFSET;
+  const renderX = position.x + (visualOffset?.x ?? 0) + shadowOffset;
+  const renderY = position.y + (visualOffset?.y ?? 0) + shadowOffset;
 
   // Compute animation state from time and type
   const animState = computeWalkAnimationState(walkAnimation, walkAnimationTime, size);
@@ -48,7 +66,7 @@ export function drawUnitShadow(ctx: CanvasRenderingContext2D, unit: UnitRenderDa
   }
 
   ctx.fillStyle = ARENA_COLORS.unitShadow;
-  ctx.globalAlpha = UNIT_SHADOW_OPACITY * deathOpacity;
+  ctx.globalAlpha = shadowOpacity * deathOpacity;
 
   switch (shape) {
     case 'circle':
@@ -231,6 +249,61 @@ export function drawUnitBody(
   ctx.restore();
 }
 
+/**
+ * Draw the aura of an elite or boss unit: one ring per affix color,
+ * plus a crown above bosses. Drawn behind the unit body.
+ *
+ * @param affixColors - Aura colors of the unit's affixes (empty = plain elite ring)
+ */
+export function drawEliteAura(
+  ctx: CanvasRenderingContext2D,
+  unit: UnitRenderData,
+  affixColors: string[]
+): void {
+  if (!unit.elite) return;
+  const { position, size, visualOffset, deathFadeTimer } = unit;
+
+  const isDying = deathFadeTimer >= 0;
+  const deathOpacity = isDying ? deathFadeTimer / DEATH_FADE_DURATION : 1;
+
+  ctx.save();
+  ctx.translate(position.x + (visualOffset?.x ?? 0), position.y + (visualOffset?.y ?? 0));
+  ctx.globalAlpha = 0.85 * deathOpacity;
+  ctx.lineWidth = Math.max(1, size * 0.18);
+
+  const colors = affixColors.length > 0 ? affixColors : [ELITE_COLORS.elite];
+  colors.forEach((color, i) => {
+    ctx.strokeStyle = color;
+    ctx.beginPath();
+    ctx.arc(0, 0, size * (1.3 + i * 0.3), 0, Math.PI * 2);
+    ctx.stroke();
+  });
+
+  if (unit.elite.rank === 'boss') {
+    // Three-point crown above the unit
+    const crownY = -size * 1.9;
+    const w = size * 0.8;
+    const h = size * 0.6;
+    ctx.globalAlpha = deathOpacity;
+    ctx.fillStyle = ELITE_COLORS.boss;
+    ctx.strokeStyle = UI_COLORS.black;
+    ctx.lineWidth = Math.max(0.5, size * 0.08);
+    ctx.beginPath();
+    ctx.moveTo(-w, crownY);
+    ctx.lineTo(-w, crownY - h);
+    ctx.lineTo(-w / 2, crownY - h / 2);
+    ctx.lineTo(0, crownY - h * 1.2);
+    ctx.lineTo(w / 2, crownY - h / 2);
+    ctx.lineTo(w, crownY - h);
+    ctx.lineTo(w, crownY);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+  }
+
+  ctx.restore();
+}
+
 /**
  * Draw unit health bar with ghost health effect.
  * Health bar width and height scale with unit's visual size (based on individual unit grid size).
@@ -271,17 +344,78 @@ export function drawHealthBar(
 
   // Current health fill
   const healthPercent = health / stats.maxHealth;
-  ctx.fillStyle =
-    healthPercent > 0.5
-      ? ARENA_COLORS.healthHigh
-      : healthPercent > 0.25
-        ? ARENA_COLORS.healthMedium
-        : ARENA_COLORS.healthLow;
+  ctx.fillStyle = getHealthColor(healthPercent);
   ctx.fillRect(-barWidth / 2, barY, barWidth * healthPercent, barHeight);
 
   ctx.restore();
 }
 
+/**
+ * Draw a giant's large health bar with ghost health effect.
+ * Wider than the giant and split into segments so chunks of a huge
+ * health pool read at a glance.
+ */
+export function drawGiantHealthBar(
+  ctx: CanvasRenderingContext2D,
+  unit: UnitRenderData,
+  ghostHealth: number
+): void {
+  const { position, size, health, stats, visualOffset } = unit;
+
+  const renderX = position.x + (visualOffset?.x ?? 0);
+  const renderY = position.y + (visualOffset?.y ?? 0);
+
+  ctx.save();
+  ctx.translate(renderX, renderY);
+
+  const barWidth = size * 2 * GIANT_HEALTH_BAR_WIDTH_MULTIPLIER;
+  const barHeight = GIANT_HEALTH_BAR_HEIGHT;
+  const barX = -barWidth / 2;
+  const barY = -size - 12;
+
+  // Background with metal edge
+  ctx.fillStyle = ARENA_COLORS.healthBarBg;
+  ctx.fillRect(barX - 1, barY - 1, barWidth + 2, barHeight + 2);
+  ctx.strokeStyle = ARENA_COLORS.healthBarOutline;
+  ctx.lineWidth = 1;
+  ctx.strokeRect(barX - 1.5, barY - 1.5, barWidth + 3, barHeight + 3);
+
+  // Ghost health bar
+  const ghostPercent = ghostHealth / stats.maxHealth;
+  if (ghostPercent > health / stats.maxHealth) {
+    ctx.fillStyle = ARENA_COLORS.healthGhost;
+    ctx.fillRect(barX, barY, barWidth * ghostPercent, barHeight);
+  }
+
+  // Current health fill
+  const healthPercent = health / stats.maxHealth;
+  ctx.fillStyle = getHealthColor(healthPercent);
+  ctx.fillRect(barX, barY, barWidth * healthPercent, barHeight);
+
+  // Segment ticks
+  ctx.strokeStyle = ARENA_COLORS.healthBarBg;
+  ctx.beginPath();
+  for (let i = 1; i < GIANT_HEALTH_BAR_SEGMENTS; i++) {
+    const tickX = barX + (barWidth * i) / GIANT_HEALTH_BAR_SEGMENTS;
+    ctx.moveTo(tickX, barY);
+    ctx.lineTo(tickX, barY + barHeight);
+  }
+  ctx.stroke();
+
+  ctx.restore();
+}
+
+/**
+ * Health bar fill color for a health fraction.
+ */
+function getHealthColor(healthPercent: number): string {
+  return healthPercent > 0.5
+    ? ARENA_COLORS.healthHigh
+    : healthPercent > 0.25
+      ? ARENA_COLORS.healthMedium
+      : ARENA_COLORS.healthLow;
+}
+
 /**
  * Draw level indicators for all squads.
  * Shows one level number in the top-right corner of each squad's bounding box.
@@ -342,17 +476,119 @@ export function drawSquadLevels(ctx: CanvasRenderingContext2D, units: UnitRender
 }
 
 /**
- * Draw debuff indicator above unit (e.g., shockwave debuff).
- * Debuff color is the ENEMY team's color (the team that caused the debuff).
+ * Draws the glyph of one indicator icon, centered on the origin.
+ */
+type IconGlyph = (ctx: CanvasRenderingContext2D, r: number) => void;
+
+/**
+ * Glyphs for status effect icons (OCP pattern).
+ */
+const STATUS_GLYPHS: Record<StatusEffectType, IconGlyph> = {
+  // Lightning bolt
+  stun: (ctx, r) => {
+    ctx.beginPath();
+    ctx.moveTo(r * 0.2, -r * 0.6);
+    ctx.lineTo(-r * 0.3, 0);
+    ctx.lineTo(r * 0.3, 0);
+    ctx.lineTo(-r * 0.2, r * 0.6);
+    ctx.stroke();
+  },
+  // Arrow pinned to the ground
+  root: (ctx, r) => {
+    ctx.beginPath();
+    ctx.moveTo(0, -r * 0.6);
+    ctx.lineTo(0, r * 0.3);
+    ctx.moveTo(-r * 0.3, 0);
+    ctx.lineTo(0, r * 0.3);
+    ctx.lineTo(r * 0.3, 0);
+    ctx.moveTo(-r * 0.5, r * 0.55);
+    ctx.lineTo(r * 0.5, r * 0.55);
+    ctx.stroke();
+  },
+  // Snowflake
+  slow: (ctx, r) => {
+    ctx.beginPath();
+    for (let i = 0; i < 3; i++) {
+      const angle = (i * Math.PI) / 3 + Math.PI / 2;
+      ctx.moveTo(Math.cos(angle) * r * 0.6, Math.sin(angle) * r * 0.6);
+      ctx.lineTo(-Math.cos(angle) * r * 0.6, -Math.sin(angle) * r * 0.6);
+    }
+    ctx.stroke();
+  },
+  // Flame
+  burn: (ctx, r) => {
+    ctx.fillStyle = UI_COLORS.white;
+    ctx.beginPath();
+    ctx.moveTo(0, -r * 0.65);
+    ctx.quadraticCurveTo(r * 0.5, 0, r * 0.3, r * 0.45);
+    ctx.quadraticCurveTo(0, r * 0.7, -r * 0.3, r * 0.45);
+    ctx.quadraticCurveTo(-r * 0.5, 0, 0, -r * 0.65);
+    ctx.fill();
+  },
+  // Plus
+  regen: (ctx, r) => {
+    ctx.beginPath();
+    ctx.moveTo(0, -r * 0.55);
+    ctx.lineTo(0, r * 0.55);
+    ctx.moveTo(-r * 0.55, 0);
+    ctx.lineTo(r * 0.55, 0);
+    ctx.stroke();
+  },
+  // Shield outline
+  shield: (ctx, r) => {
+    ctx.beginPath();
+    ctx.moveTo(-r * 0.5, -r * 0.5);
+    ctx.lineTo(r * 0.5, -r * 0.5);
+    ctx.quadraticCurveTo(r * 0.5, r * 0.3, 0, r * 0.65);
+    ctx.quadraticCurveTo(-r * 0.5, r * 0.3, -r * 0.5, -r * 0.5);
+    ctx.stroke();
+  },
+};
+
+/**
+ * X mark for the castle collapse shockwave debuff.
+ */
+const SHOCKWAVE_GLYPH: IconGlyph = (ctx, r) => {
+  ctx.beginPath();
+  ctx.moveTo(-r * 0.5, -r * 0.5);
+  ctx.lineTo(r * 0.5, r * 0.5);
+  ctx.moveTo(r * 0.5, -r * 0.5);
+  ctx.lineTo(-r * 0.5, r * 0.5);
+  ctx.stroke();
+};
+
+interface IndicatorIcon {
+  color: string;
+  glyph: IconGlyph;
+  /** Stack count shown next to the icon (hidden below 2) */
+  stacks: number;
+}
+
+/**
+ * Draw debuff and status indicators in a row above the unit:
+ * the shockwave debuff, then one icon per status effect.
+ * The shockwave icon uses the ENEMY team's color (the team that caused the debuff).
  */
 export function drawDebuffIndicator(ctx: CanvasRenderingContext2D, unit: UnitRenderData): void {
-  // Only draw if unit has shockwave debuff
+  const icons: IndicatorIcon[] = [];
+
   const hasShockwaveDebuff = unit.activeModifiers.some(
     (m) => m.sourceId === 'castle_death_shockwave'
   );
-  if (!hasShockwaveDebuff) return;
+  if (hasShockwaveDebuff) {
+    const enemyTeam = getOppositeTeam(unit.team);
+    icons.push({ color: getTeamColor(enemyTeam), glyph: SHOCKWAVE_GLYPH, stacks: 1 });
+  }
+  for (const status of unit.statusEffects) {
+    icons.push({
+      color: STATUS_COLORS[status.type],
+      glyph: STATUS_GLYPHS[status.type],
+      stacks: status.stacks,
+    });
+  }
+  if (icons.length === 0) return;
 
-  const { position, size, visualOffset, team } = unit;
+  const { position, size, visualOffset } = unit;
 
   // Apply visual offset to match unit body position
   const renderX = position.x + (visualOffset?.x ?? 0);
@@ -361,31 +597,38 @@ export function drawDebuffIndicator(ctx: CanvasRenderingContext2D, unit: UnitRen
   ctx.save();
   ctx.translate(renderX, renderY);
 
-  // Position above health bar
+  // Row centered above the health bar
   const iconY = -size - 32;
-  const iconSize = 8;
+  const step = STATUS_ICON_SIZE * 2 + STATUS_ICON_SPACING;
+  const startX = -((icons.length - 1) * step) / 2;
 
-  // Debuff color is the enemy team's color (the team that caused the debuff)
-  const enemyTeam = getOppositeTeam(team);
-  const debuffColor = getTeamColor(enemyTeam);
-
-  // Draw a small skull-like icon (simplified as X in circle)
-  ctx.fillStyle = debuffColor;
-  ctx.strokeStyle = UI_COLORS.white;
   ctx.lineWidth = 1.5;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.font = 'bold 8px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  icons.forEach((icon, i) => {
+    ctx.save();
+    ctx.translate(startX + i * step, iconY);
+
+    // Circle background
+    ctx.fillStyle = icon.color;
+    ctx.beginPath();
+    ctx.arc(0, 0, STATUS_ICON_SIZE, 0, Math.PI * 2);
+    ctx.fill();
+
+    ctx.strokeStyle = UI_COLORS.white;
+    icon.glyph(ctx, STATUS_ICON_SIZE);
+
+    if (icon.stacks > 1) {
+      ctx.fillStyle = UI_COLORS.white;
+      ctx.fillText(icon.stacks.toString(), STATUS_ICON_SIZE, STATUS_ICON_SIZE);
+    }
 
-  // Circle background
-  ctx.beginPath();
-  ctx.arc(0, iconY, iconSize, 0, Math.PI * 2);
-  ctx.fill();
-
-  // X mark inside
-  ctx.beginPath();
-  ctx.moveTo(-iconSize * 0.5, iconY - iconSize * 0.5);
-  ctx.lineTo(iconSize * 0.5, iconY + iconSize * 0.5);
-  ctx.moveTo(iconSize * 0.5, iconY - iconSize * 0.5);
-  ctx.lineTo(-iconSize * 0.5, iconY + iconSize * 0.5);
-  ctx.stroke();
+    ctx.restore();
+  });
 
   ctx.restore();
 }
@@ -14,13 +14,16 @@ export {
   drawUnitShadow,
   drawUnitBody,
   drawHealthBar,
+  drawGiantHealthBar,
   drawDebuffIndicator,
+  drawEliteAura,
   drawSquadLevels,
 } from './drawUnit';
-export { drawProjectile } from './drawProjectile';
+export { drawBeam, drawProjectile } from './drawProjectile';
 export { drawCastle, drawCastleHealthBar } from './drawCastle';
+export { drawTerrain } from './drawTerrain';
 export { drawShockwave, drawDamageNumber } from './drawEffects';
-export { drawSelectionBox, drawSquadSelections } from './drawSelection';
+export { drawSelectionBox, drawSquadOrders, drawSquadSelections } from './drawSelection';
 export type { SelectionBox } from './drawSelection';
 export { drawInkSplatters } from './drawInkSplatter';
 export {
@@ -30,4 +33,5 @@ export {
   drawFlankZones,
   drawDeploymentOverlay,
   drawBackgroundGrid,
+  drawFlowField,
 } from './drawGrid';
@@ -3,9 +3,12 @@
  *
  * Displays fastest clear times per wave in the hangar.
  * Shows a table of waves with VEST reward, recorded times, and VEST/s rates.
+ * Record clears keep a replay that can be watched, exported, or imported.
  */
 
+import { useRef } from 'react';
 import { Panel3D, PanelHeader } from '../ui/Panel3D';
+import { Button3D } from '../ui/Button3D';
 import { UI_COLORS, hexToRgba } from '../../core/theme/colors';
 import { calculateWaveGold } from '../../core/battle/BattleConfig';
 import {
@@ -20,14 +23,27 @@ interface DossierContentProps {
   dossierData: DossierData;
   highestWave: number;
   totalVestPerSecond: number;
+  /** Waves with a saved replay */
+  replayWaves?: number[];
+  onWatchReplay?: (wave: number) => void;
+  onExportReplay?: (wave: number) => void;
+  onImportReplay?: (file: File) => void;
+  /** Message shown when an imported file was not a valid replay */
+  importError?: string | null;
 }
 
 export function DossierContent({
   dossierData,
   highestWave,
   totalVestPerSecond,
+  replayWaves = [],
+  onWatchReplay,
+  onExportReplay,
+  onImportReplay,
+  importError,
 }: DossierContentProps) {
   const waves = Array.from({ length: highestWave }, (_, i) => i + 1);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   return (
     <div className="flex h-full gap-4">
@@ -47,6 +63,37 @@ export function DossierContent({
           </span>
         </div>
 
+        {/* Replay import */}
+        {onImportReplay && (
+          <div className="mb-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImportReplay(file);
+                e.target.value = '';
+              }}
+            />
+            <Button3D
+              size="xs"
+              color={UI_COLORS.metalDark}
+              textColor={UI_COLORS.textPrimary}
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full"
+            >
+              WATCH REPLAY FILE
+            </Button3D>
+            {importError && (
+              <div className="text-sm mt-1 text-center" style={{ color: UI_COLORS.warningOrange }}>
+                {importError}
+              </div>
+            )}
+          </div>
+        )}
+
         {highestWave === 0 ? (
           <div className="text-sm text-center py-8" style={{ color: UI_COLORS.textSecondary }}>
             No battles recorded yet. Complete a sortie to begin tracking.
@@ -60,10 +107,11 @@ export function DossierContent({
                   <th className="text-right py-1 px-2 font-medium">VEST</th>
                   <th className="text-right py-1 px-2 font-medium">TIME</th>
                   <th className="text-right py-1 px-2 font-medium">VEST/s</th>
+                  <th className="py-1 px-1" />
                 </tr>
                 <tr>
                   <td
-                    colSpan={4}
+                    colSpan={5}
                     style={{
                       height: '1px',
                       background: UI_COLORS.metalDark,
@@ -76,6 +124,7 @@ export function DossierContent({
                   const time = getFastestTime(dossierData, wave);
                   const gold = calculateWaveGold(wave);
                   const vestRate = time !== null ? calculateVestPerSecond(wave, time) : null;
+                  const hasReplay = replayWaves.includes(wave);
                   return (
                     <tr
                       key={wave}
@@ -112,6 +161,28 @@ export function DossierContent({
                       >
                         {vestRate !== null ? formatVestPerSecond(vestRate) : '--'}
                       </td>
+                      <td className="py-1.5 px-1 text-right whitespace-nowrap">
+                        {hasReplay && onWatchReplay && (
+                          <button
+                            className="px-1"
+                            style={{ color: UI_COLORS.accentPrimary }}
+                            title="Watch replay"
+                            onClick={() => onWatchReplay(wave)}
+                          >
+                            ▶
+                          </button>
+                        )}
+                        {hasReplay && onExportReplay && (
+                          <button
+                            className="px-1"
+                            style={{ color: UI_COLORS.textSecondary }}
+                            title="Export replay"
+                            onClick={() => onExportReplay(wave)}
+                          >
+                            ⇩
+                          </button>
+                        )}
+                      </td>
                     </tr>
                   );
                 })}
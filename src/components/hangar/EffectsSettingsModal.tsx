@@ -2,8 +2,10 @@
  * Effects Settings Modal
  *
  * AC6-style modal for toggling visual effects.
+ * Also hosts player profile export/import.
  */
 
+import { useRef } from 'react';
 import { UI_COLORS, hexToRgba } from '../../core/theme/colors';
 import { Panel3D } from '../ui/Panel3D';
 import { Button3D } from '../ui/Button3D';
@@ -61,6 +63,12 @@ interface EffectsSettingsModalProps {
   onClose: () => void;
   settings: EffectsSettings;
   onSettingsChange: (settings: EffectsSettings) => void;
+  /** Download the player profile */
+  onExportProfile?: () => void;
+  /** Replace the player profile with a profile file */
+  onImportProfile?: (file: File) => void;
+  /** Message shown when a profile import failed */
+  profileError?: string | null;
 }
 
 export function EffectsSettingsModal({
@@ -68,7 +76,12 @@ export function EffectsSettingsModal({
   onClose,
   settings,
   onSettingsChange,
+  onExportProfile,
+  onImportProfile,
+  profileError,
 }: EffectsSettingsModalProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
   if (!isOpen) return null;
 
   const updateSetting = (key: keyof EffectsSettings, value: boolean) => {
@@ -133,6 +146,60 @@ export function EffectsSettingsModal({
             ))}
           </div>
 
+          {/* Profile export/import */}
+          {(onExportProfile || onImportProfile) && (
+            <div className="pt-4 mt-4" style={{ borderTop: `1px solid ${UI_COLORS.metalDark}` }}>
+              <div
+                className="text-sm font-medium tracking-widest mb-2"
+                style={{ color: UI_COLORS.white }}
+              >
+                PROFILE
+              </div>
+              <div className="flex gap-2">
+                {onExportProfile && (
+                  <Button3D
+                    size="xs"
+                    color={UI_COLORS.metalDark}
+                    textColor={UI_COLORS.textPrimary}
+                    onClick={onExportProfile}
+                    className="flex-1"
+                  >
+                    EXPORT
+                  </Button3D>
+                )}
+                {onImportProfile && (
+                  <>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept="text/plain,.txt,application/json,.json"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) onImportProfile(file);
+                        e.target.value = '';
+                      }}
+                    />
+                    <Button3D
+                      size="xs"
+                      color={UI_COLORS.metalDark}
+                      textColor={UI_COLORS.textPrimary}
+                      onClick={() => fileInputRef.current?.click()}
+                      className="flex-1"
+                    >
+                      IMPORT
+                    </Button3D>
+                  </>
+                )}
+              </div>
+              {profileError && (
+                <div className="text-sm mt-1" style={{ color: UI_COLORS.warningOrange }}>
+                  {profileError}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Footer */}
           <div
             className="flex justify-between pt-4 mt-4"
@@ -17,7 +17,7 @@ import { DEFAULT_EFFECTS } from './effectsSettings';
 import type { EffectsSettings } from './effectsSettings';
 import hangarBg from '../../assets/hangar.png';
 
-export type HangarSection = 'garage' | 'assembly' | 'arena' | 'dossier' | 'virtuality';
+export type HangarSection = 'garage' | 'assembly' | 'arena' | 'dossier' | 'prestige' | 'virtuality';
 
 interface HangarPageProps {
   /** Currently selected section */
@@ -34,6 +34,12 @@ interface HangarPageProps {
   highestWave: number;
   /** Called when Sortie button is clicked */
   onSortie: () => void;
+  /** Download the player profile */
+  onExportProfile?: () => void;
+  /** Replace the player profile with a profile file */
+  onImportProfile?: (file: File) => void;
+  /** Message shown when a profile import failed */
+  profileError?: string | null;
 }
 
 interface NavItem {
@@ -47,6 +53,7 @@ const NAV_ITEMS: NavItem[] = [
   { id: 'assembly', label: 'ASSEMBLY', available: false },
   { id: 'arena', label: 'ARENA', available: false },
   { id: 'dossier', label: 'DOSSIER', available: true },
+  { id: 'prestige', label: 'PRESTIGE', available: true },
   { id: 'virtuality', label: 'VIRTUALITY', available: false },
 ];
 
@@ -58,6 +65,9 @@ export function HangarPage({
   vestPerSecond,
   highestWave,
   onSortie,
+  onExportProfile,
+  onImportProfile,
+  profileError,
 }: HangarPageProps) {
   const [showEffectsModal, setShowEffectsModal] = useState(false);
   const [effectsSettings, setEffectsSettings] = useState<EffectsSettings>(DEFAULT_EFFECTS);
@@ -222,6 +232,9 @@ export function HangarPage({
         onClose={() => setShowEffectsModal(false)}
         settings={effectsSettings}
         onSettingsChange={setEffectsSettings}
+        onExportProfile={onExportProfile}
+        onImportProfile={onImportProfile}
+        profileError={profileError}
       />
     </div>
   );
@@ -0,0 +1,88 @@
+/**
+ * Offline Progress Overlay
+ *
+ * "While you were away" summary shown on return when auto-battle
+ * earned rewards offline. Same modal frame as EffectsSettingsModal.
+ */
+
+import { UI_COLORS, hexToRgba } from '../../core/theme/colors';
+import { OfflineProgressResult, formatTimeAway } from '../../core/battle';
+import { Panel3D } from '../ui/Panel3D';
+import { Button3D } from '../ui/Button3D';
+
+interface OfflineProgressOverlayProps {
+  report: OfflineProgressResult;
+  onCollect: () => void;
+}
+
+interface SummaryRowProps {
+  label: string;
+  value: string;
+  highlight?: boolean;
+}
+
+function SummaryRow({ label, value, highlight }: SummaryRowProps) {
+  return (
+    <div className="flex justify-between items-center">
+      <span className="text-sm uppercase tracking-wide" style={{ color: UI_COLORS.textSecondary }}>
+        {label}
+      </span>
+      <span
+        className={`font-mono ${highlight ? 'font-bold' : ''}`}
+        style={{ color: highlight ? UI_COLORS.accentPrimary : UI_COLORS.textPrimary }}
+      >
+        {value}
+      </span>
+    </div>
+  );
+}
+
+export function OfflineProgressOverlay({ report, onCollect }: OfflineProgressOverlayProps) {
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center"
+      style={{ backgroundColor: hexToRgba(UI_COLORS.black, 0.8) }}
+    >
+      <Panel3D className="w-96 flex flex-col">
+        {/* Header */}
+        <div
+          className="text-lg font-bold tracking-widest pb-4 mb-4"
+          style={{
+            color: UI_COLORS.accentPrimary,
+            borderBottom: `1px solid ${UI_COLORS.metalDark}`,
+          }}
+        >
+          WHILE YOU WERE AWAY
+        </div>
+
+        <div className="space-y-2 mb-4">
+          <SummaryRow
+            label="Time away"
+            value={
+              report.capped
+                ? `${formatTimeAway(report.secondsAway)} (max ${formatTimeAway(report.secondsCounted)})`
+                : formatTimeAway(report.secondsAway)
+            }
+          />
+          <SummaryRow label="Wave defended" value={String(report.waveNumber)} />
+          <SummaryRow
+            label="Waves cleared"
+            value={`${report.wavesCleared} / ${report.battlesFought}`}
+          />
+          <SummaryRow label="Gold" value={`+${report.goldEarned.toLocaleString()}`} highlight />
+          <SummaryRow label="VEST" value={`+${report.vestEarned.toLocaleString()}`} highlight />
+        </div>
+
+        {report.pushPaused && (
+          <div className="text-sm mb-4" style={{ color: UI_COLORS.textSecondary }}>
+            Push mode holds the current wave while you are away.
+          </div>
+        )}
+
+        <Button3D size="sm" onClick={onCollect} className="w-full">
+          COLLECT & CONTINUE
+        </Button3D>
+      </Panel3D>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+/**
+ * Prestige Content Component
+ *
+ * Prestige panel in the hangar: converts the highest wave into Soul Shards
+ * and lists the permanent meta upgrades bought with them.
+ * Layout follows the Prestige UI sketch in GAME_DESIGN.md.
+ */
+
+import { useState } from 'react';
+import { Panel3D, PanelHeader } from '../ui/Panel3D';
+import { Button3D } from '../ui/Button3D';
+import { UpgradeSection } from '../assembly/UpgradeSection';
+import { UI_COLORS } from '../../core/theme/colors';
+import { PRESTIGE_MIN_WAVE } from '../../core/battle/BattleConfig';
+import { BattleUpgradeStates } from '../../core/battle/upgrades/types';
+import {
+  PrestigeState,
+  buildMetaPrerequisiteContext,
+  calculatePrestigeShards,
+  getNextShardWave,
+} from '../../core/prestige';
+import { metaUpgradeRegistry } from '../../data/battle';
+
+interface PrestigeContentProps {
+  /** Highest wave reached this run */
+  highestWave: number;
+  /** VEST lost on prestige */
+  vest: number;
+  /** Unspent Soul Shards */
+  shards: number;
+  /** Number of prestiges performed */
+  prestigeCount: number;
+  /** Current meta upgrade states */
+  metaUpgradeStates: BattleUpgradeStates;
+  /** Called when the player confirms a prestige */
+  onPrestige: () => void;
+  /** Called when a meta upgrade is purchased */
+  onPurchase: (upgradeId: string) => void;
+}
+
+interface StatRowProps {
+  label: string;
+  value: string;
+  highlight?: boolean;
+}
+
+function StatRow({ label, value, highlight }: StatRowProps) {
+  return (
+    <div className="flex justify-between items-center">
+      <span className="text-sm tracking-wide" style={{ color: UI_COLORS.textSecondary }}>
+        {label}
+      </span>
+      <span
+        className={`font-mono ${highlight ? 'font-bold' : ''}`}
+        style={{ color: highlight ? UI_COLORS.accentPrimary : UI_COLORS.textPrimary }}
+      >
+        {value}
+      </span>
+    </div>
+  );
+}
+
+export function PrestigeContent({
+  highestWave,
+  vest,
+  shards,
+  prestigeCount,
+  metaUpgradeStates,
+  onPrestige,
+  onPurchase,
+}: PrestigeContentProps) {
+  const [confirming, setConfirming] = useState(false);
+
+  const shardsToEarn = calculatePrestigeShards(highestWave, prestigeCount);
+  const nextShardWave = getNextShardWave(highestWave);
+  const nextShards = calculatePrestigeShards(nextShardWave, prestigeCount);
+  const state: PrestigeState = { shards, prestigeCount, metaUpgradeStates };
+
+  return (
+    <div className="flex h-full gap-4">
+      {/* Prestige summary */}
+      <Panel3D className="w-80 flex-shrink-0 h-full" innerClassName="flex flex-col">
+        <PanelHeader>PRESTIGE</PanelHeader>
+
+        <div className="space-y-2 mb-4">
+          <StatRow label="HIGHEST WAVE" value={String(highestWave)} />
+          <StatRow label="PRESTIGES" value={String(prestigeCount)} />
+          <StatRow label="SOUL SHARDS" value={shards.toLocaleString()} highlight />
+        </div>
+
+        {shardsToEarn > 0 ? (
+          <div className="space-y-2 mb-4 text-sm" style={{ color: UI_COLORS.textSecondary }}>
+            <div>You will lose:</div>
+            <div className="pl-2">• {vest.toLocaleString()} VEST and all upgrades</div>
+            <div className="pl-2">• Bought squads and squad levels</div>
+            <div className="pl-2">• Gold and wave progress</div>
+            <div>You will gain:</div>
+            <div className="pl-2" style={{ color: UI_COLORS.accentPrimary }}>
+              • {shardsToEarn} Soul Shards (total: {shards + shardsToEarn})
+            </div>
+          </div>
+        ) : (
+          <div className="text-sm mb-4" style={{ color: UI_COLORS.textSecondary }}>
+            Prestige unlocks past wave {PRESTIGE_MIN_WAVE}.
+          </div>
+        )}
+
+        {confirming ? (
+          <div className="flex gap-2">
+            <Button3D
+              size="sm"
+              color={UI_COLORS.metalDark}
+              textColor={UI_COLORS.textPrimary}
+              onClick={() => setConfirming(false)}
+              className="flex-1"
+            >
+              KEEP PLAYING
+            </Button3D>
+            <Button3D
+              size="sm"
+              color={UI_COLORS.warningOrange}
+              onClick={() => {
+                setConfirming(false);
+                onPrestige();
+              }}
+              className="flex-1"
+            >
+              CONFIRM
+            </Button3D>
+          </div>
+        ) : (
+          <Button3D
+            size="sm"
+            onClick={shardsToEarn > 0 ? () => setConfirming(true) : undefined}
+            disabled={shardsToEarn <= 0}
+            className="w-full"
+          >
+            PRESTIGE
+          </Button3D>
+        )}
+
+        <div className="text-sm mt-4" style={{ color: UI_COLORS.textMuted }}>
+          Tip: Reach wave {nextShardWave} for {nextShards} shards
+          {shardsToEarn > 0 && ` (+${nextShards - shardsToEarn} more)`}
+        </div>
+      </Panel3D>
+
+      {/* Meta upgrades */}
+      <Panel3D className="flex-1 h-full" innerClassName="flex flex-col overflow-hidden">
+        <PanelHeader>META UPGRADES</PanelHeader>
+        <div className="flex-1 scrollable min-h-0">
+          <UpgradeSection
+            title="KEPT THROUGH PRESTIGE"
+            titleColor={UI_COLORS.textSecondary}
+            upgrades={metaUpgradeRegistry.getAll()}
+            upgradeStates={metaUpgradeStates}
+            context={buildMetaPrerequisiteContext(state)}
+            vest={shards}
+            registry={metaUpgradeRegistry}
+            currencySuffix="S"
+            onPurchase={onPurchase}
+          />
+        </div>
+      </Panel3D>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+/**
+ * Army Roster
+ *
+ * Pure functions for the player's army: owned squads per unit type,
+ * their level, supply use and VEST costs.
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import {
+  ROSTER_LEVEL_BASE_COST,
+  ROSTER_LEVEL_COST_SCALING,
+  ROSTER_MAX_SQUAD_LEVEL,
+  ROSTER_SQUAD_BASE_COST,
+  ROSTER_SQUAD_COST_SCALING,
+  ROSTER_SUPPLY_CAP,
+} from '../battle/BattleConfig';
+import { AlliedSquad, UnitType } from '../battle/FormationManager';
+import { IUnitRegistry, isValidTargetPriority } from '../battle/units';
+import { TargetPriority, UnitDefinition } from '../battle/units/types';
+import { ArmyRoster } from './AssemblyState';
+
+/**
+ * Squads a new army starts with - two of each starter unit type.
+ * Starter units have no unlock requirements.
+ */
+const STARTING_COMPOSITION: UnitType[] = [
+  'hound',
+  'hound',
+  'fang',
+  'fang',
+  'arclight',
+  'arclight',
+  'crawler',
+  'crawler',
+];
+
+/**
+ * Result of pricing a roster purchase.
+ */
+export interface RosterCostResult {
+  /** VEST cost */
+  cost: number;
+
+  /** Whether the purchase can be made */
+  canPurchase: boolean;
+
+  /** Reason if it can't */
+  reason?:
+    | 'not_deployable'
+    | 'locked'
+    | 'not_owned'
+    | 'supply_cap'
+    | 'max_level'
+    | 'insufficient_funds';
+}
+
+/**
+ * Creates a roster holding one level 1 squad per entry of a composition.
+ */
+export function createRosterFromComposition(composition: readonly UnitType[]): ArmyRoster {
+  const roster: ArmyRoster = {};
+  for (const type of composition) {
+    const entry = roster[type] ?? { squads: 0, level: 1 };
+    roster[type] = { ...entry, squads: entry.squads + 1 };
+  }
+  return roster;
+}
+
+/**
+ * Creates the starting roster: the starter units at level 1.
+ */
+export function createDefaultRoster(): ArmyRoster {
+  return createRosterFromComposition(STARTING_COMPOSITION);
+}
+
+/**
+ * Checks if squads of a unit type can be deployed (castles cannot).
+ */
+export function isDeployableUnit(def: UnitDefinition): boolean {
+  return def.baseStats.moveSpeed > 0;
+}
+
+/**
+ * Supply one squad of a unit type uses (its tier).
+ */
+export function getSquadSupply(def: UnitDefinition): number {
+  return Math.max(1, def.tier);
+}
+
+/**
+ * Total supply used by the roster.
+ * Unit types missing from the registry are ignored.
+ */
+export function getRosterSupply(roster: ArmyRoster, registry: IUnitRegistry): number {
+  let supply = 0;
+  for (const [type, entry] of Object.entries(roster)) {
+    const def = registry.tryGet(type);
+    if (def) supply += entry.squads * getSquadSupply(def);
+  }
+  return supply;
+}
+
+/**
+ * Total squads in the roster.
+ */
+export function getRosterSquadCount(roster: ArmyRoster): number {
+  return Object.values(roster).reduce((total, entry) => total + entry.squads, 0);
+}
+
+/**
+ * VEST cost of the next squad of a unit type.
+ * Cost = ROSTER_SQUAD_BASE_COST × tier × ROSTER_SQUAD_COST_SCALING^owned
+ */
+export function calculateSquadCost(def: UnitDefinition, owned: number): number {
+  return Math.floor(
+    ROSTER_SQUAD_BASE_COST * getSquadSupply(def) * Math.pow(ROSTER_SQUAD_COST_SCALING, owned)
+  );
+}
+
+/**
+ * VEST cost to raise squads from the given level to the next.
+ * Cost = ROSTER_LEVEL_BASE_COST × ROSTER_LEVEL_COST_SCALING^(level - 1)
+ */
+export function calculateSquadLevelCost(level: number): number {
+  return Math.floor(ROSTER_LEVEL_BASE_COST * Math.pow(ROSTER_LEVEL_COST_SCALING, level - 1));
+}
+
+/**
+ * Prices buying one more squad of a unit type.
+ *
+ * @param unlockedUnits - Unit IDs the player has unlocked (see getUnlockedUnitIds)
+ */
+export function getSquadPurchaseCost(
+  roster: ArmyRoster,
+  registry: IUnitRegistry,
+  unitType: string,
+  vest: number,
+  unlockedUnits: ReadonlySet<string>
+): RosterCostResult {
+  const def = registry.tryGet(unitType);
+  if (!def || !isDeployableUnit(def)) {
+    return { cost: 0, canPurchase: false, reason: 'not_deployable' };
+  }
+  if (!unlockedUnits.has(unitType)) {
+    return { cost: 0, canPurchase: false, reason: 'locked' };
+  }
+
+  const cost = calculateSquadCost(def, roster[unitType]?.squads ?? 0);
+  if (getRosterSupply(roster, registry) + getSquadSupply(def) > ROSTER_SUPPLY_CAP) {
+    return { cost, canPurchase: false, reason: 'supply_cap' };
+  }
+  if (vest < cost) {
+    return { cost, canPurchase: false, reason: 'insufficient_funds' };
+  }
+  return { cost, canPurchase: true };
+}
+
+/**
+ * Prices levelling up the squads of a unit type.
+ */
+export function getSquadLevelUpCost(
+  roster: ArmyRoster,
+  unitType: string,
+  vest: number
+): RosterCostResult {
+  const entry = roster[unitType];
+  if (!entry || entry.squads === 0) {
+    return { cost: 0, canPurchase: false, reason: 'not_owned' };
+  }
+  if (entry.level >= ROSTER_MAX_SQUAD_LEVEL) {
+    return { cost: 0, canPurchase: false, reason: 'max_level' };
+  }
+
+  const cost = calculateSquadLevelCost(entry.level);
+  if (vest < cost) {
+    return { cost, canPurchase: false, reason: 'insufficient_funds' };
+  }
+  return { cost, canPurchase: true };
+}
+
+/**
+ * Adds a squad of a unit type.
+ * Returns a new roster (pure function). New types join at level 1.
+ */
+export function addSquad(roster: ArmyRoster, unitType: string): ArmyRoster {
+  const entry = roster[unitType] ?? { squads: 0, level: 1 };
+  return { ...roster, [unitType]: { ...entry, squads: entry.squads + 1 } };
+}
+
+/**
+ * Raises the level of a unit type's squads by one.
+ * Returns a new roster (pure function).
+ */
+export function levelUpSquads(roster: ArmyRoster, unitType: string): ArmyRoster {
+  const entry = roster[unitType];
+  if (!entry) return roster;
+  return { ...roster, [unitType]: { ...entry, level: entry.level + 1 } };
+}
+
+/**
+ * Sets (or clears, with null) the targeting priority override of a unit type's squads.
+ * Returns a new roster (pure function).
+ */
+export function setSquadTargetPriority(
+  roster: ArmyRoster,
+  unitType: string,
+  priority: TargetPriority | null
+): ArmyRoster {
+  const entry = roster[unitType];
+  if (!entry) return roster;
+  const updated = { ...entry };
+  if (priority) {
+    updated.targetPriority = priority;
+  } else {
+    delete updated.targetPriority;
+  }
+  return { ...roster, [unitType]: updated };
+}
+
+/**
+ * Expands the roster into the squads to deploy, in roster order.
+ * Unit types missing from the registry are skipped.
+ */
+export function getRosterArmy(roster: ArmyRoster, registry: IUnitRegistry): AlliedSquad[] {
+  const army: AlliedSquad[] = [];
+  for (const [type, entry] of Object.entries(roster)) {
+    const def = registry.tryGet(type);
+    if (!def || !isDeployableUnit(def)) continue;
+    for (let i = 0; i < entry.squads; i++) {
+      const squad: AlliedSquad = { type: type as UnitType, level: entry.level };
+      if (entry.targetPriority) squad.targetPriority = entry.targetPriority;
+      army.push(squad);
+    }
+  }
+  return army;
+}
+
+/**
+ * Validates a serialized roster.
+ */
+export function isValidRoster(data: unknown): data is ArmyRoster {
+  if (!data || typeof data !== 'object') return false;
+
+  return Object.values(data as Record<string, unknown>).every((entry) => {
+    if (!entry || typeof entry !== 'object') return false;
+    const obj = entry as Record<string, unknown>;
+    return (
+      typeof obj.squads === 'number' &&
+      obj.squads >= 0 &&
+      typeof obj.level === 'number' &&
+      obj.level >= 1 &&
+      (obj.targetPriority === undefined || isValidTargetPriority(obj.targetPriority))
+    );
+  });
+}
@@ -5,9 +5,39 @@
  * Godot-portable: No React/browser dependencies.
  */
 
+import { getDefaultAlliedComposition } from '../battle/FormationManager';
 import { BattleUpgradeRegistry } from '../battle/upgrades/BattleUpgradeRegistry';
 import { UpgradePrerequisiteContext } from '../battle/upgrades/types';
-import { AssemblyState, SerializedAssemblyState, ASSEMBLY_STATE_VERSION } from './AssemblyState';
+import { IUnitRegistry } from '../battle/units';
+import type { TargetPriority } from '../battle/units/types';
+import { saveMigrations } from '../persistence/SaveMigrations';
+import {
+  AssemblyState,
+  SerializedAssemblyState,
+  ASSEMBLY_SAVE_KEY,
+  ASSEMBLY_STATE_VERSION,
+} from './AssemblyState';
+import {
+  addSquad,
+  createDefaultRoster,
+  createRosterFromComposition,
+  getSquadLevelUpCost,
+  getSquadPurchaseCost,
+  isValidRoster,
+  levelUpSquads,
+  setSquadTargetPriority,
+} from './ArmyRoster';
+import { addUnitKills, getUnlockedUnitIds, isValidUnitsKilled } from './UnitUnlocks';
+
+// Add migrations here when ASSEMBLY_STATE_VERSION is bumped: { [fromVersion]: (data) => newData }
+saveMigrations.register(ASSEMBLY_SAVE_KEY, ASSEMBLY_STATE_VERSION, {
+  // v2: army roster - existing players keep the army they were fielding
+  1: (data) => ({ ...data, roster: createRosterFromComposition(getDefaultAlliedComposition()) }),
+  // v3: lifetime kill tally for unit unlocks
+  2: (data) => ({ ...data, unitsKilled: {} }),
+  // v4: lifetime highest wave so wave unlocks survive prestige
+  3: (data) => ({ ...data, lifetimeHighestWave: data.highestWave ?? 1 }),
+});
 
 /**
  * Creates the initial assembly state.
@@ -16,8 +46,11 @@ export function createInitialState(registry: BattleUpgradeRegistry): AssemblySta
   return {
     vest: 0,
     upgradeStates: registry.createInitialStates(),
+    roster: createDefaultRoster(),
     selectedUnitType: null,
     highestWave: 1,
+    lifetimeHighestWave: 1,
+    unitsKilled: {},
   };
 }
 
@@ -54,7 +87,7 @@ export function subtractVest(state: AssemblyState, amount: number): AssemblyStat
 }
 
 /**
- * Updates the highest wave reached.
+ * Updates the highest wave reached, this run and across all runs.
  * Returns a new state object (pure function).
  */
 export function updateHighestWave(state: AssemblyState, wave: number): AssemblyState {
@@ -62,6 +95,23 @@ export function updateHighestWave(state: AssemblyState, wave: number): AssemblyS
   return {
     ...state,
     highestWave: wave,
+    lifetimeHighestWave: Math.max(state.lifetimeHighestWave, wave),
+  };
+}
+
+/**
+ * Adds enemy units destroyed in battle to the lifetime kill tally.
+ * Returns a new state object (pure function).
+ */
+export function recordUnitKills(
+  state: AssemblyState,
+  kills: Record<string, number>
+): AssemblyState {
+  const unitsKilled = addUnitKills(state.unitsKilled, kills);
+  if (unitsKilled === state.unitsKilled) return state;
+  return {
+    ...state,
+    unitsKilled,
   };
 }
 
@@ -109,10 +159,98 @@ export function purchaseUpgrade(
   };
 }
 
+/**
+ * Buys one more squad of a unit type if unlocked, affordable and within the supply cap.
+ * Returns a new state object with updated vest and roster.
+ * Returns the same state if the purchase cannot be made.
+ */
+export function purchaseSquad(
+  state: AssemblyState,
+  unitRegistry: IUnitRegistry,
+  upgradeRegistry: BattleUpgradeRegistry,
+  unitType: string
+): AssemblyState {
+  const costResult = getSquadPurchaseCost(
+    state.roster,
+    unitRegistry,
+    unitType,
+    state.vest,
+    getUnlockedUnitIds(unitRegistry, upgradeRegistry, state)
+  );
+  if (!costResult.canPurchase) {
+    return state;
+  }
+
+  return {
+    ...state,
+    vest: state.vest - costResult.cost,
+    roster: addSquad(state.roster, unitType),
+  };
+}
+
+/**
+ * Levels up all squads of a unit type if affordable.
+ * Returns a new state object with updated vest and roster.
+ * Returns the same state if the level-up cannot be made.
+ */
+export function levelUpSquad(state: AssemblyState, unitType: string): AssemblyState {
+  const costResult = getSquadLevelUpCost(state.roster, unitType, state.vest);
+  if (!costResult.canPurchase) {
+    return state;
+  }
+
+  return {
+    ...state,
+    vest: state.vest - costResult.cost,
+    roster: levelUpSquads(state.roster, unitType),
+  };
+}
+
+/**
+ * Overrides the targeting priority of a unit type's squads (null restores the default).
+ * Returns the same state if no squads of the type are owned.
+ */
+export function setTargetPriority(
+  state: AssemblyState,
+  unitType: string,
+  priority: TargetPriority | null
+): AssemblyState {
+  const roster = setSquadTargetPriority(state.roster, unitType, priority);
+  return roster === state.roster ? state : { ...state, roster };
+}
+
+/**
+ * Resets the assembly for a new prestige run.
+ * VEST, upgrades, roster and highest wave reset; unlock_unit upgrades, the
+ * lifetime highest wave and the kill tally are kept.
+ * Returns a new state object (pure function).
+ */
+export function resetForPrestige(
+  state: AssemblyState,
+  registry: BattleUpgradeRegistry
+): AssemblyState {
+  const upgradeStates = registry.createInitialStates();
+  for (const [id, upgradeState] of Object.entries(state.upgradeStates)) {
+    if (registry.tryGet(id)?.upgradeType === 'unlock_unit') {
+      upgradeStates[id] = upgradeState;
+    }
+  }
+
+  return {
+    ...createInitialState(registry),
+    upgradeStates,
+    selectedUnitType: state.selectedUnitType,
+    lifetimeHighestWave: Math.max(state.lifetimeHighestWave, state.highestWave),
+    unitsKilled: state.unitsKilled,
+  };
+}
+
 /**
  * Builds the prerequisite context from the current state.
  */
-export function buildPrerequisiteContext(state: AssemblyState): UpgradePrerequisiteContext {
+export function buildPrerequisiteContext(
+  state: Pick<AssemblyState, 'upgradeStates' | 'highestWave'>
+): UpgradePrerequisiteContext {
   // Convert upgrade states to levels map
   const upgradeLevels: Record<string, number> = {};
   for (const [id, upgradeState] of Object.entries(state.upgradeStates)) {
@@ -133,7 +271,10 @@ export function serializeState(state: AssemblyState): SerializedAssemblyState {
   return {
     vest: state.vest,
     upgradeStates: state.upgradeStates,
+    roster: state.roster,
     highestWave: state.highestWave,
+    lifetimeHighestWave: state.lifetimeHighestWave,
+    unitsKilled: state.unitsKilled,
     version: ASSEMBLY_STATE_VERSION,
   };
 }
@@ -157,11 +298,16 @@ export function deserializeState(
     }
   }
 
+  const highestWave = data.highestWave ?? 1;
+
   return {
     vest: data.vest ?? 0,
     upgradeStates: mergedUpgradeStates,
+    roster: isValidRoster(data.roster) ? data.roster : createDefaultRoster(),
     selectedUnitType: null,
-    highestWave: data.highestWave ?? 1,
+    highestWave,
+    lifetimeHighestWave: Math.max(data.lifetimeHighestWave ?? 1, highestWave),
+    unitsKilled: isValidUnitsKilled(data.unitsKilled) ? data.unitsKilled : {},
   };
 }
 
@@ -177,7 +323,9 @@ export function isValidSerializedState(data: unknown): data is SerializedAssembl
     typeof obj.vest === 'number' &&
     typeof obj.upgradeStates === 'object' &&
     obj.upgradeStates !== null &&
+    isValidRoster(obj.roster) &&
     typeof obj.highestWave === 'number' &&
+    isValidUnitsKilled(obj.unitsKilled) &&
     typeof obj.version === 'number'
   );
 }
@@ -6,6 +6,29 @@
  */
 
 import { BattleUpgradeStates } from '../battle/upgrades/types';
+import type { TargetPriority } from '../battle/units/types';
+
+/**
+ * Owned squads of one unit type. All squads of a type share its level.
+ */
+export interface RosterEntry {
+  /** Number of squads owned */
+  squads: number;
+
+  /** Level the squads spawn at (1+) */
+  level: number;
+
+  /** Targeting priority override for the squads (omitted = the unit type's default) */
+  targetPriority?: TargetPriority;
+}
+
+/**
+ * The player's army, keyed by unit type.
+ * Key order is the order squads are deployed in.
+ */
+export interface ArmyRoster {
+  [unitType: string]: RosterEntry;
+}
 
 /**
  * Assembly state - persisted between sessions.
@@ -17,11 +40,20 @@ export interface AssemblyState {
   /** All upgrade purchase states */
   upgradeStates: BattleUpgradeStates;
 
+  /** Squads the player deploys each wave */
+  roster: ArmyRoster;
+
   /** Currently selected unit type in the UI (not persisted) */
   selectedUnitType: string | null;
 
   /** Highest wave reached (for prerequisite checks) */
   highestWave: number;
+
+  /** Highest wave reached across all runs (kept on prestige, for unit unlocks) */
+  lifetimeHighestWave: number;
+
+  /** Enemy units destroyed per unit type, across all runs (for unit unlocks) */
+  unitsKilled: Record<string, number>;
 }
 
 /**
@@ -31,9 +63,15 @@ export interface AssemblyState {
 export interface SerializedAssemblyState {
   vest: number;
   upgradeStates: BattleUpgradeStates;
+  roster: ArmyRoster;
   highestWave: number;
+  lifetimeHighestWave: number;
+  unitsKilled: Record<string, number>;
   version: number;
 }
 
 /** Current save format version */
-export const ASSEMBLY_STATE_VERSION = 1;
+export const ASSEMBLY_STATE_VERSION = 4;
+
+/** Persistence key for assembly state */
+export const ASSEMBLY_SAVE_KEY = 'action_idle_assembly';
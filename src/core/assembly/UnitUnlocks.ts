@@ -0,0 +1,108 @@
+/**
+ * Unit Unlocks
+ *
+ * Pure functions deciding which unit types the player may field.
+ * A unit is unlocked when all its unlockRequirements are met by the
+ * player's progress, or when an unlock_unit upgrade for it is purchased.
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import { IUnitRegistry } from '../battle/units';
+import { UnitDefinition, UnlockRequirement } from '../battle/units/types';
+import { IBattleUpgradeRegistry } from '../battle/upgrades/IBattleUpgradeRegistry';
+import { UpgradeApplicator } from '../battle/upgrades/UpgradeApplicator';
+import { AssemblyState } from './AssemblyState';
+
+/**
+ * Player progress that unlock requirements are checked against.
+ */
+export type UnlockProgress = Pick<
+  AssemblyState,
+  'lifetimeHighestWave' | 'upgradeStates' | 'unitsKilled'
+>;
+
+/**
+ * Checks a single unlock requirement against player progress.
+ * - wave: highest wave reached in any run is at least targetId
+ * - upgrade: the upgrade targetId has been purchased
+ * - unit_killed: at least count (default 1) enemy units of type targetId destroyed
+ */
+export function isUnlockRequirementMet(
+  requirement: UnlockRequirement,
+  progress: UnlockProgress
+): boolean {
+  switch (requirement.type) {
+    case 'wave':
+      return progress.lifetimeHighestWave >= Number(requirement.targetId);
+    case 'upgrade':
+      return (progress.upgradeStates[requirement.targetId]?.level ?? 0) > 0;
+    case 'unit_killed':
+      return (progress.unitsKilled[requirement.targetId] ?? 0) >= (requirement.count ?? 1);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks if a unit type is unlocked.
+ * Units without requirements are always unlocked.
+ *
+ * @param unlockedByUpgrade - Unit IDs unlocked by purchased unlock_unit upgrades
+ */
+export function isUnitUnlocked(
+  def: UnitDefinition,
+  progress: UnlockProgress,
+  unlockedByUpgrade: ReadonlySet<string>
+): boolean {
+  if (unlockedByUpgrade.has(def.id)) return true;
+  return def.unlockRequirements.every((req) => isUnlockRequirementMet(req, progress));
+}
+
+/**
+ * Gets the IDs of all unit types the player has unlocked.
+ */
+export function getUnlockedUnitIds(
+  unitRegistry: IUnitRegistry,
+  upgradeRegistry: IBattleUpgradeRegistry,
+  progress: UnlockProgress
+): Set<string> {
+  const unlockedByUpgrade = new UpgradeApplicator(upgradeRegistry).getUnlockedUnits(
+    progress.upgradeStates
+  );
+
+  const unlocked = new Set<string>();
+  for (const def of unitRegistry.getAll()) {
+    if (isUnitUnlocked(def, progress, unlockedByUpgrade)) {
+      unlocked.add(def.id);
+    }
+  }
+  return unlocked;
+}
+
+/**
+ * Adds enemy kills from a battle session to the lifetime tally.
+ * Returns the same record if there is nothing to add.
+ */
+export function addUnitKills(
+  unitsKilled: Record<string, number>,
+  kills: Record<string, number>
+): Record<string, number> {
+  const entries = Object.entries(kills).filter(([, count]) => count > 0);
+  if (entries.length === 0) return unitsKilled;
+
+  const result = { ...unitsKilled };
+  for (const [type, count] of entries) {
+    result[type] = (result[type] ?? 0) + count;
+  }
+  return result;
+}
+
+/**
+ * Validates a serialized kill tally.
+ */
+export function isValidUnitsKilled(data: unknown): data is Record<string, number> {
+  if (!data || typeof data !== 'object') return false;
+  return Object.values(data as Record<string, unknown>).every(
+    (count) => typeof count === 'number' && count >= 0
+  );
+}
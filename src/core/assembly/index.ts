@@ -4,9 +4,14 @@
  * Godot-portable: No React/browser dependencies.
  */
 
-export type { AssemblyState, SerializedAssemblyState } from './AssemblyState';
+export type {
+  AssemblyState,
+  SerializedAssemblyState,
+  ArmyRoster,
+  RosterEntry,
+} from './AssemblyState';
 
-export { ASSEMBLY_STATE_VERSION } from './AssemblyState';
+export { ASSEMBLY_STATE_VERSION, ASSEMBLY_SAVE_KEY } from './AssemblyState';
 
 export {
   createInitialState,
@@ -14,10 +19,43 @@ export {
   addVest,
   subtractVest,
   updateHighestWave,
+  recordUnitKills,
   selectUnitType,
   purchaseUpgrade,
+  purchaseSquad,
+  levelUpSquad,
+  setTargetPriority,
+  resetForPrestige,
   buildPrerequisiteContext,
   serializeState,
   deserializeState,
   isValidSerializedState,
 } from './AssemblyManager';
+
+export type { RosterCostResult } from './ArmyRoster';
+export {
+  createRosterFromComposition,
+  createDefaultRoster,
+  isDeployableUnit,
+  getSquadSupply,
+  getRosterSupply,
+  getRosterSquadCount,
+  calculateSquadCost,
+  calculateSquadLevelCost,
+  getSquadPurchaseCost,
+  getSquadLevelUpCost,
+  addSquad,
+  levelUpSquads,
+  setSquadTargetPriority,
+  getRosterArmy,
+  isValidRoster,
+} from './ArmyRoster';
+
+export type { UnlockProgress } from './UnitUnlocks';
+export {
+  isUnlockRequirementMet,
+  isUnitUnlocked,
+  getUnlockedUnitIds,
+  addUnitKills,
+  isValidUnitsKilled,
+} from './UnitUnlocks';
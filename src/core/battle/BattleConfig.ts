@@ -8,6 +8,7 @@
  */
 
 import type { GridFootprint } from './grid/GridTypes';
+import type { DamageType } from './units/types';
 
 // Re-export all visual constants for backward compatibility
 // Existing imports from BattleConfig will continue to work
@@ -194,6 +195,32 @@ export const PROJECTILE_HIT_RADIUS = 3;
  */
 export const PROJECTILE_SPLASH_RADIUS = 15;
 
+/**
+ * Default peak height of arcing shells, as a fraction of their flight distance.
+ */
+export const ARC_HEIGHT_RATIO = 0.25;
+
+/**
+ * Piercing projectiles fly this multiple of the distance to their aim point
+ * before dropping, so they carry on through the units behind the target.
+ */
+export const PIERCE_TRAVEL_MULTIPLIER = 1.5;
+
+/**
+ * Default damage multiplier per chain jump (0.7 = each arc deals 70% of the last).
+ */
+export const CHAIN_DAMAGE_FALLOFF = 0.7;
+
+/**
+ * Seconds between damage pulses of a continuous beam.
+ */
+export const BEAM_TICK_INTERVAL = 0.25;
+
+/**
+ * Default cap on a continuous beam's ramped damage multiplier.
+ */
+export const BEAM_MAX_RAMP = 3;
+
 // =============================================================================
 // COMBAT SHUFFLE CONFIGURATION
 // =============================================================================
@@ -260,6 +287,12 @@ export const TARGET_SWITCH_DISTANCE_RATIO = 0.7;
  */
 export const TARGET_SWITCH_COOLDOWN_SECONDS = 2.0;
 
+/**
+ * Health fraction below which support units repair an ally.
+ * 0.95 = allies missing more than 5% of their health get repaired.
+ */
+export const REPAIR_HEALTH_THRESHOLD = 0.95;
+
 /**
  * Bonus score for targeting enemies already being attacked (focus fire).
  */
@@ -396,6 +429,48 @@ export const MIN_NORMALIZE_THRESHOLD = 0.1;
  */
 export const OBSTACLE_AVOIDANCE_LOOKAHEAD_CELLS = 4;
 
+// =============================================================================
+// PATHFINDING
+// =============================================================================
+
+/**
+ * Battle time (seconds) a cached flow field stays valid.
+ * Fields are rebuilt after this so they follow moving allies.
+ */
+export const PATHFINDING_REFRESH_INTERVAL = 0.5;
+
+/**
+ * Extra path cost for a grid cell occupied by an allied unit.
+ * Steers routes around clumps without treating them as walls.
+ */
+export const PATHFINDING_OCCUPIED_CELL_COST = 2;
+
+/**
+ * Maximum flow fields cached per refresh (oldest evicted first).
+ */
+export const PATHFINDING_MAX_CACHED_FIELDS = 32;
+
+// =============================================================================
+// SPATIAL INDEX
+// =============================================================================
+
+/**
+ * Spatial index bucket size in grid cells.
+ * About the size of separation and splash checks; larger aggro searches
+ * scan rings of buckets outward.
+ */
+export const SPATIAL_INDEX_CELL_SIZE_CELLS = 4;
+
+// =============================================================================
+// TACTICAL ORDERS
+// =============================================================================
+
+/**
+ * Distance from a fall back destination that counts as arrived (pixels at reference height).
+ * Arrived units switch to holding position.
+ */
+export const BASE_ORDER_ARRIVAL_RADIUS = 8;
+
 // =============================================================================
 // SCALING SYSTEM
 // =============================================================================
@@ -672,6 +747,23 @@ export const DEFAULT_HEALTH_ABOVE_THRESHOLD = 0.75;
  */
 export const BASE_ABILITY_RANGE = 100;
 
+/**
+ * Default interval for "periodic" triggers without an explicit interval (seconds).
+ */
+export const DEFAULT_PERIODIC_INTERVAL = 1;
+
+/**
+ * Maximum depth of nested ability triggers (e.g. on_ability_trigger chains,
+ * damage effects firing on_take_damage). Prevents infinite trigger loops.
+ */
+export const MAX_ABILITY_CHAIN_DEPTH = 4;
+
+/**
+ * Spacing between units spawned by a spawn_unit effect, as a multiple of
+ * the spawning target's size.
+ */
+export const ABILITY_SPAWN_SPREAD_MULTIPLIER = 2;
+
 // =============================================================================
 // DAMAGE CALCULATION
 // =============================================================================
@@ -682,6 +774,27 @@ export const BASE_ABILITY_RANGE = 100;
  */
 export const MIN_DAMAGE_AFTER_ARMOR = 1;
 
+/**
+ * Damage type of attacks that don't specify one.
+ */
+export const DEFAULT_DAMAGE_TYPE: DamageType = 'kinetic';
+
+/**
+ * How much of a target's armor counts against each damage type.
+ * Explosives blast past plating; energy weapons burn straight through it.
+ */
+export const ARMOR_EFFECTIVENESS: Record<DamageType, number> = {
+  kinetic: 1,
+  explosive: 0.5,
+  energy: 0,
+};
+
+/**
+ * Highest resistance a unit can have to a damage type.
+ * Keeps every damage type able to hurt every unit.
+ */
+export const MAX_DAMAGE_RESISTANCE = 0.9;
+
 // =============================================================================
 // MELEE ENGAGEMENT DEBUFF
 // =============================================================================
@@ -739,6 +852,16 @@ export const BASE_MELEE_KNOCKBACK_DISTANCE = 6;
  */
 export const MELEE_OFFSET_DECAY_RATE = 12;
 
+// =============================================================================
+// GIANT UNITS
+// =============================================================================
+
+/**
+ * Seconds between a giant's tramples.
+ * Each trample hits every enemy the giant is touching.
+ */
+export const TRAMPLE_INTERVAL = 1;
+
 // =============================================================================
 // SHOCKWAVE CONFIGURATION
 // =============================================================================
@@ -770,6 +893,46 @@ export const SHOCKWAVE_DEBUFF_DAMAGE = -0.3;
  */
 export const SHOCKWAVE_DEBUFF_DURATION_SECONDS = 15;
 
+// =============================================================================
+// STATUS EFFECTS
+// =============================================================================
+
+/**
+ * Seconds between burn damage and regen heal pulses.
+ */
+export const STATUS_TICK_INTERVAL = 0.5;
+
+/**
+ * Default maximum burn stacks (each stack adds the burn's damage per second).
+ */
+export const BURN_MAX_STACKS = 3;
+
+/**
+ * Seconds a unit cannot be stunned again after a stun ends.
+ * Stops chained stuns from locking a unit down for the whole battle.
+ */
+export const STUN_IMMUNITY_DURATION = 2;
+
+/**
+ * Seconds a unit cannot be rooted again after a root ends.
+ */
+export const ROOT_IMMUNITY_DURATION = 1;
+
+/**
+ * Strongest slow a status can apply (0.8 = 80% slower).
+ */
+export const MAX_STATUS_SLOW = 0.8;
+
+/**
+ * Radius of status effect icons above units (pixels).
+ */
+export const STATUS_ICON_SIZE = 8;
+
+/**
+ * Gap between status effect icons above units (pixels).
+ */
+export const STATUS_ICON_SPACING = 3;
+
 // =============================================================================
 // WAVE & ECONOMY SYSTEM
 // =============================================================================
@@ -787,9 +950,11 @@ export const WAVE_GOLD_SCALING = 0.1;
 
 /**
  * Calculate gold reward for clearing a wave.
+ * Boss waves pay BOSS_WAVE_GOLD_MULTIPLIER times as much.
  */
 export function calculateWaveGold(waveNumber: number): number {
-  return Math.floor(BASE_GOLD_PER_WAVE * (1 + waveNumber * WAVE_GOLD_SCALING));
+  const gold = BASE_GOLD_PER_WAVE * (1 + waveNumber * WAVE_GOLD_SCALING);
+  return Math.floor(isBossWave(waveNumber) ? gold * BOSS_WAVE_GOLD_MULTIPLIER : gold);
 }
 
 /**
@@ -827,6 +992,88 @@ export function calculateEnemyCount(waveNumber: number): number {
   return Math.min(MAX_ENEMY_COUNT, BASE_ENEMY_COUNT + (waveNumber - 1) * ENEMIES_PER_WAVE);
 }
 
+// =============================================================================
+// ELITE & BOSS SQUADS
+// =============================================================================
+
+/**
+ * First wave with elite enemy squads.
+ */
+export const ELITE_MIN_WAVE = 5;
+
+/**
+ * Waves per additional elite squad after ELITE_MIN_WAVE.
+ */
+export const ELITE_WAVES_PER_SQUAD = 10;
+
+/**
+ * Maximum elite squads per wave (the boss is not counted).
+ */
+export const MAX_ELITE_SQUADS = 4;
+
+/**
+ * Affixes rolled for each elite squad.
+ */
+export const ELITE_AFFIX_COUNT = 1;
+
+/**
+ * Elite max health bonus (1 = +100%).
+ */
+export const ELITE_HEALTH_BONUS = 1;
+
+/**
+ * Elite damage bonus (0.25 = +25%).
+ */
+export const ELITE_DAMAGE_BONUS = 0.25;
+
+/**
+ * Every Nth wave is a boss wave.
+ */
+export const BOSS_WAVE_INTERVAL = 10;
+
+/**
+ * Affixes rolled for a boss squad.
+ */
+export const BOSS_AFFIX_COUNT = 2;
+
+/**
+ * Boss max health bonus (5 = +500%).
+ */
+export const BOSS_HEALTH_BONUS = 5;
+
+/**
+ * Boss damage bonus (0.5 = +50%).
+ */
+export const BOSS_DAMAGE_BONUS = 0.5;
+
+/**
+ * Boss units are drawn (and collide) this much larger.
+ */
+export const BOSS_SIZE_MULTIPLIER = 1.4;
+
+/**
+ * Gold multiplier for clearing a boss wave.
+ */
+export const BOSS_WAVE_GOLD_MULTIPLIER = 3;
+
+/**
+ * Check if a wave is a boss wave.
+ */
+export function isBossWave(waveNumber: number): boolean {
+  return waveNumber > 0 && waveNumber % BOSS_WAVE_INTERVAL === 0;
+}
+
+/**
+ * Calculate elite squad count for a wave (0 before ELITE_MIN_WAVE).
+ */
+export function calculateEliteSquadCount(waveNumber: number): number {
+  if (waveNumber < ELITE_MIN_WAVE) return 0;
+  return Math.min(
+    MAX_ELITE_SQUADS,
+    1 + Math.floor((waveNumber - ELITE_MIN_WAVE) / ELITE_WAVES_PER_SQUAD)
+  );
+}
+
 /**
  * Minimum wave number.
  */
@@ -837,6 +1084,112 @@ export const MIN_WAVE = 1;
  */
 export const MAX_WAVE = 999;
 
+// =============================================================================
+// BATTLEFIELD TERRAIN
+// =============================================================================
+
+/**
+ * First wave with generated terrain in no man's land.
+ */
+export const TERRAIN_MIN_WAVE = 3;
+
+/**
+ * Terrain features generated per wave (random in this range).
+ */
+export const TERRAIN_MIN_FEATURES = 2;
+export const TERRAIN_MAX_FEATURES = 4;
+
+/**
+ * Maximum walls per generated wave (keeps the middle passable).
+ */
+export const TERRAIN_MAX_WALLS = 2;
+
+/**
+ * Width in grid columns of generated features (height is the no man's land).
+ */
+export const TERRAIN_WALL_COLS = 4;
+export const TERRAIN_ROUGH_COLS = 8;
+export const TERRAIN_HIGH_GROUND_COLS = 6;
+
+/**
+ * Open columns kept between generated features so squads can pass.
+ */
+export const TERRAIN_MIN_GAP_COLS = 3;
+
+/**
+ * Placement attempts per generated feature before it is skipped.
+ */
+export const TERRAIN_PLACEMENT_ATTEMPTS = 20;
+
+/**
+ * Move speed multiplier on rough ground (0.5 = half speed).
+ */
+export const ROUGH_GROUND_SPEED_MULTIPLIER = 0.5;
+
+/**
+ * Ranged range bonus on high ground (0.25 = +25%).
+ */
+export const HIGH_GROUND_RANGE_BONUS = 0.25;
+
+// =============================================================================
+// PRESTIGE SYSTEM
+// =============================================================================
+
+/**
+ * Highest wave required before prestige is available.
+ */
+export const PRESTIGE_MIN_WAVE = 100;
+
+/**
+ * Waves past PRESTIGE_MIN_WAVE per Soul Shard.
+ */
+export const PRESTIGE_WAVES_PER_SHARD = 10;
+
+/**
+ * Shard bonus per previous prestige (0.1 = +10% per prestige).
+ * Shards = floor((highestWave - PRESTIGE_MIN_WAVE) / PRESTIGE_WAVES_PER_SHARD)
+ *          × (1 + prestigeCount × PRESTIGE_COUNT_BONUS)
+ */
+export const PRESTIGE_COUNT_BONUS = 0.1;
+
+// =============================================================================
+// ARMY ROSTER
+// =============================================================================
+
+/**
+ * Maximum supply the player's army can field.
+ * Each squad uses supply equal to its unit tier.
+ * The default army (12 T1 squads) leaves room for 8 more.
+ */
+export const ROSTER_SUPPLY_CAP = 20;
+
+/**
+ * VEST cost of a squad, per unit tier.
+ */
+export const ROSTER_SQUAD_BASE_COST = 100;
+
+/**
+ * Squad cost scaling per squad of the same type already owned.
+ * Cost = ROSTER_SQUAD_BASE_COST × tier × ROSTER_SQUAD_COST_SCALING^owned
+ */
+export const ROSTER_SQUAD_COST_SCALING = 1.25;
+
+/**
+ * VEST cost to raise a unit type's squads from level 1 to 2.
+ */
+export const ROSTER_LEVEL_BASE_COST = 150;
+
+/**
+ * Level-up cost scaling per level.
+ * Cost = ROSTER_LEVEL_BASE_COST × ROSTER_LEVEL_COST_SCALING^(level - 1)
+ */
+export const ROSTER_LEVEL_COST_SCALING = 1.5;
+
+/**
+ * Maximum squad level (unit levels run 1-9).
+ */
+export const ROSTER_MAX_SQUAD_LEVEL = 9;
+
 // =============================================================================
 // UI TIMING & ANIMATIONS
 // =============================================================================
@@ -881,6 +1234,34 @@ export const AUTOSAVE_INTERVAL_MS = 30000;
  */
 export const MAX_OFFLINE_TIME_SECONDS = 3600;
 
+/**
+ * Minimum time away before offline battles are awarded (seconds).
+ * Prevents reload exploits.
+ */
+export const MIN_OFFLINE_TIME_SECONDS = 60;
+
+/**
+ * Fraction of active-play gold earned by offline battles.
+ * Active play is 2x better.
+ */
+export const OFFLINE_EFFICIENCY = 0.5;
+
+/**
+ * Assumed clear time when the wave has no recorded or simulated time (seconds).
+ */
+export const OFFLINE_DEFAULT_CLEAR_TIME = 60;
+
+/**
+ * Assumed win rate for a wave the player has never cleared.
+ */
+export const OFFLINE_UNCLEARED_WIN_RATE = 0.5;
+
+/**
+ * Fixed tick delta for offline estimate simulations (seconds).
+ * Coarser than HEADLESS_FIXED_DELTA - an estimate does not need frame accuracy.
+ */
+export const OFFLINE_SIMULATION_DELTA = 1 / 20;
+
 // =============================================================================
 // COMBAT CALCULATIONS
 // =============================================================================
@@ -941,3 +1322,53 @@ export const ZOOM_SPEED = 0.001;
  * Default zoom level on battle start/reset.
  */
 export const DEFAULT_ZOOM = 1.0;
+
+// =============================================================================
+// HEADLESS SIMULATION
+// =============================================================================
+
+/**
+ * Arena width for headless battles (largest arena the UI produces).
+ */
+export const HEADLESS_ARENA_WIDTH = MAX_ARENA_WIDTH;
+
+/**
+ * Arena height for headless battles (keeps grid cells square).
+ */
+export const HEADLESS_ARENA_HEIGHT = MAX_ARENA_WIDTH * ARENA_ASPECT_RATIO;
+
+/**
+ * Fixed tick delta for headless battles (seconds, 60 FPS).
+ */
+export const HEADLESS_FIXED_DELTA = 1 / 60;
+
+/**
+ * Maximum real-time duration of a headless battle before it counts as a timeout (seconds).
+ * Auto speed-up means simulated time can be several times longer.
+ */
+export const HEADLESS_MAX_BATTLE_DURATION = 300;
+
+// =============================================================================
+// REPLAYS
+// =============================================================================
+
+/**
+ * Slowest replay playback speed (multiplier of recorded real time).
+ */
+export const MIN_REPLAY_SPEED = 0.25;
+
+/**
+ * Fastest replay playback speed (multiplier of recorded real time).
+ */
+export const MAX_REPLAY_SPEED = 8;
+
+/**
+ * Playback speeds offered by the replay controls.
+ */
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4, 8] as const;
+
+/**
+ * Upper bound (exclusive) for generated battle seeds.
+ * Fits in 31 bits so seeds survive JSON and Godot int round-trips unchanged.
+ */
+export const MAX_BATTLE_SEED = 0x7fffffff;
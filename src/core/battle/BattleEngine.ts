@@ -29,6 +29,7 @@ import {
   OVERLAP_PUSH_FACTOR,
   RANDOM_DIRECTION_CENTER,
   REFERENCE_ARENA_HEIGHT,
+  BOSS_SIZE_MULTIPLIER,
   SQUAD_MAX_COLUMNS,
   UNIT_SPACING,
   ZONE_CLAMP_MARGIN,
@@ -51,9 +52,17 @@ import {
   getScaledUnitSize,
   UnitRenderData,
 } from './types';
-import { UnitDefinition, UnitTeam } from './units/types';
-import { IUnitRegistry } from './units';
+import { TargetPriority, UnitDefinition, UnitTeam } from './units/types';
+import { IUnitRegistry, computeUnitStats, createLevelStats } from './units';
+import { AppliedUpgrades, SquadUpgrades, computeSquadUpgrades } from './upgrades';
+import { IWaveRegistry, WaveDefinition } from './waves';
+import { EliteSquad, IAffixRegistry, computeEliteUpgrades } from './elites';
+import { TerrainDefinition, createTerrainFeature } from './obstacles';
+import type { SquadOrder } from './orders';
+import { IAbilityRegistry, createAbilityProcessor } from './abilities';
 import { captureAllyLayout, SavedAllyLayout } from './deployment/LayoutManager';
+import type { AlliedSquad } from './FormationManager';
+import { createSeededRandom } from '../utils/Random';
 
 /**
  * Configuration options for BattleEngine.
@@ -61,6 +70,18 @@ import { captureAllyLayout, SavedAllyLayout } from './deployment/LayoutManager';
 export interface BattleEngineConfig {
   /** Custom battle world (optional, for testing) */
   world?: BattleWorld;
+  /** Ability definitions (optional; without it, unit abilities never trigger) */
+  abilityRegistry?: IAbilityRegistry;
+  /** Scripted wave definitions (optional; without it, every wave is generated) */
+  waveRegistry?: IWaveRegistry;
+  /** Elite affix definitions (optional; without it, elites get rank bonuses but no affixes) */
+  affixRegistry?: IAffixRegistry;
+  /**
+   * Seed for all gameplay randomness (optional; omit for Math.random).
+   * The same seed, layout and wave reproduce a battle exactly when ticked
+   * with the same deltas.
+   */
+  seed?: number;
 }
 
 /**
@@ -81,6 +102,16 @@ export class BattleEngine {
   private battleOutcome: BattleOutcome = 'pending';
   private cellSize: number = 0;
   private savedAllyLayout: SavedAllyLayout | null = null;
+  private allyArmy: AlliedSquad[] | null = null;
+  private playerUpgrades: AppliedUpgrades[] = [];
+  private waveRegistry: IWaveRegistry | null;
+  private affixRegistry: IAffixRegistry | null;
+
+  // Gameplay randomness - reset from the seed on clear() and again when the battle starts
+  private seed: number | undefined;
+  private rng: () => number = Math.random;
+  // Stable wrapper so the world and ability processor always draw from the current rng
+  private readonly random = (): number => this.rng();
 
   // Simulation time (delta * timeScale) - independent of wall-clock speed
   private simulationTime = 0;
@@ -109,8 +140,26 @@ export class BattleEngine {
    */
   constructor(registry: IUnitRegistry, config?: BattleEngineConfig) {
     this.registry = registry;
+    this.waveRegistry = config?.waveRegistry ?? null;
+    this.affixRegistry = config?.affixRegistry ?? null;
     this.world = config?.world ?? new BattleWorld();
 
+    this.seed = config?.seed;
+    this.resetRandom();
+    this.world.setRandom(this.random);
+
+    if (config?.abilityRegistry) {
+      this.world.setAbilityProcessor(
+        createAbilityProcessor(config.abilityRegistry, { random: this.random })
+      );
+      this.world.setUnitSpawner((definitionId, team, position, level) => {
+        const definition = this.registry.tryGet(definitionId);
+        if (!definition) return;
+        const arenaHeight = this.arenaBounds?.height ?? REFERENCE_ARENA_HEIGHT;
+        this.spawnUnitFromDefinition(definition, team, position, arenaHeight, undefined, level);
+      });
+    }
+
     // Bind event listeners for idle speed-up system
     this.onDamagedListener = this.handleDamaged.bind(this);
     this.onEntityAddedListener = this.handleEntityAdded.bind(this);
@@ -195,7 +244,15 @@ export class BattleEngine {
       // Include ALL units (mobile + stationary) for selection support
       units: allUnits.map((u) => u.toRenderData()),
       projectiles: this.world.getProjectiles().map((p) => p.toRenderData()),
+      beams: this.world.getBeams().map((b) => b.toRenderData()),
       castles,
+      terrain: this.world.getTerrain().map((t) => ({
+        id: t.id,
+        type: t.type,
+        position: t.position,
+        gridFootprint: t.gridFootprint,
+      })),
+      flowField: this.world.getFlowField('player'),
       shockwaves: this.world.getShockwaves().map((s) => s.toRenderData()),
       damageNumbers: this.world.getDamageNumbers().map((d) => d.toRenderData()),
       isRunning: this.isRunning,
@@ -223,6 +280,13 @@ export class BattleEngine {
       this.savedAllyLayout = captureAllyLayout(this.world.getMobilePlayerUnits(), this.cellSize);
     }
 
+    // Fire on_battle_start abilities once, not on resume
+    if (!this.hasStarted) {
+      // Deployment may have drawn from the RNG; replays skip it, so restart the sequence
+      this.resetRandom();
+      this.world.triggerBattleStart();
+    }
+
     this.isRunning = true;
     this.hasStarted = true;
   }
@@ -231,6 +295,14 @@ export class BattleEngine {
     this.isRunning = false;
   }
 
+  /**
+   * Whether the next tick will advance the simulation.
+   * Cheaper than getState() for per-frame checks.
+   */
+  isBattleRunning(): boolean {
+    return this.isRunning;
+  }
+
   /**
    * Set the user's battle speed setting (0.5, 1, 2, etc.).
    * This is added to the idle speed bonus for the total time scale.
@@ -239,6 +311,13 @@ export class BattleEngine {
     this.userBattleSpeed = speed;
   }
 
+  /**
+   * Get the user's battle speed setting (without the idle speed bonus).
+   */
+  getBattleSpeed(): number {
+    return this.userBattleSpeed;
+  }
+
   clear(): void {
     // Unsubscribe from all units before clearing
     for (const unit of this.world.getUnits()) {
@@ -257,6 +336,7 @@ export class BattleEngine {
     this.nextUnitId = 1;
     this.nextSquadId = 1;
     this.battleOutcome = 'pending';
+    this.resetRandom();
 
     // Reset simulation and auto speed-up state
     this.simulationTime = 0;
@@ -268,6 +348,29 @@ export class BattleEngine {
     this.subscribedUnits.clear();
   }
 
+  /**
+   * Set the seed for gameplay randomness (undefined = Math.random).
+   * Restarts the random sequence immediately.
+   */
+  setSeed(seed: number | undefined): void {
+    this.seed = seed;
+    this.resetRandom();
+  }
+
+  /**
+   * Get the seed for gameplay randomness (undefined if unseeded).
+   */
+  getSeed(): number | undefined {
+    return this.seed;
+  }
+
+  /**
+   * Restart the random sequence from the seed.
+   */
+  private resetRandom(): void {
+    this.rng = this.seed !== undefined ? createSeededRandom(this.seed) : Math.random;
+  }
+
   /**
    * Set the current wave number.
    */
@@ -409,6 +512,80 @@ export class BattleEngine {
     return this.savedAllyLayout;
   }
 
+  /**
+   * Set the ally layout used by the next wave spawn.
+   * Used by headless battles to replay a specific deployment.
+   */
+  setSavedAllyLayout(layout: SavedAllyLayout | null): void {
+    this.savedAllyLayout = layout;
+  }
+
+  /**
+   * Get the squads the player deploys each wave.
+   * Returns null if none is set (the default army is used).
+   */
+  getAllyArmy(): AlliedSquad[] | null {
+    return this.allyArmy;
+  }
+
+  /**
+   * Set the squads the player deploys from the next wave spawn on.
+   */
+  setAllyArmy(army: AlliedSquad[] | null): void {
+    this.allyArmy = army;
+  }
+
+  /**
+   * Get the scripted wave definitions (null if every wave is generated).
+   */
+  getWaveRegistry(): IWaveRegistry | null {
+    return this.waveRegistry;
+  }
+
+  /**
+   * Get the scripted definition covering the current wave, if any.
+   */
+  getWaveDefinition(): WaveDefinition | undefined {
+    return this.waveRegistry?.getForWave(this.waveNumber);
+  }
+
+  /**
+   * Get the elite affix definitions (null if none are loaded).
+   */
+  getAffixRegistry(): IAffixRegistry | null {
+    return this.affixRegistry;
+  }
+
+  /**
+   * Get the upgrade effects an elite or boss enemy squad spawns with.
+   */
+  getEliteSquadUpgrades(elite: EliteSquad): SquadUpgrades {
+    return computeEliteUpgrades(elite, this.affixRegistry);
+  }
+
+  /**
+   * Get the purchased upgrades applied to player squads.
+   */
+  getPlayerUpgrades(): readonly AppliedUpgrades[] {
+    return this.playerUpgrades;
+  }
+
+  /**
+   * Set the purchased upgrades applied to player squads from the next wave spawn on.
+   */
+  setPlayerUpgrades(upgrades: AppliedUpgrades[]): void {
+    this.playerUpgrades = upgrades;
+  }
+
+  /**
+   * Get the upgrade effects a player squad of a unit type spawns with.
+   */
+  getPlayerSquadUpgrades(definitionId: string): SquadUpgrades {
+    const definition = this.registry.tryGet(definitionId);
+    if (!definition || this.playerUpgrades.length === 0) return {};
+    return computeSquadUpgrades(definition, this.playerUpgrades);
+  }
+
   /**
    * Get the grid configuration constants.
    */
@@ -445,6 +622,9 @@ export class BattleEngine {
   /**
    * Spawn a unit directly from a definition object.
    * @param level - Unit level (1-9). HP and damage scale linearly with level.
+   * @param upgrades - Upgrade modifiers and granted abilities (see getPlayerSquadUpgrades)
+   * @param elite - Elite rank and affixes (their effects come in through upgrades)
+   * @param targetPriority - Targeting priority override (defaults to the definition's)
    */
   spawnUnitFromDefinition(
     definition: UnitDefinition,
@@ -452,39 +632,26 @@ export class BattleEngine {
     position: Vector2,
     arenaHeight: number = REFERENCE_ARENA_HEIGHT,
     squadId?: string,
-    level: number = 1
+    level: number = 1,
+    upgrades: SquadUpgrades = {},
+    elite?: EliteSquad,
+    targetPriority?: TargetPriority
   ): UnitRenderData {
     const { baseStats, visuals } = definition;
-
-    // Apply level scaling: HP and damage multiply by level (no upper limit)
     const levelMultiplier = Math.max(1, level);
+    const upgradeModifiers = upgrades.modifiers ?? [];
+    const grantedAbilities = upgrades.grantedAbilities ?? [];
 
-    // Scale melee attack damage by level
-    const scaledMelee = baseStats.melee
-      ? { ...baseStats.melee, damage: baseStats.melee.damage * levelMultiplier }
-      : null;
-
-    // Scale ranged attack damage by level
-    const scaledRanged = baseStats.ranged
-      ? { ...baseStats.ranged, damage: baseStats.ranged.damage * levelMultiplier }
-      : null;
-
-    // Convert BaseStats to render data UnitStats format (without armor)
-    // HP and damage are scaled by level
-    const stats = {
-      maxHealth: baseStats.maxHealth * levelMultiplier,
-      moveSpeed: baseStats.moveSpeed,
-      attackInterval: baseStats.attackInterval,
-      melee: scaledMelee,
-      ranged: scaledRanged,
-      resetAttackOnTargetSwitch: baseStats.resetAttackOnTargetSwitch,
-    };
+    // Level scaling first; upgrades ride the modifier stack for the whole battle,
+    // so they compose with battle buffs and debuffs through the same math
+    const stats = createLevelStats(baseStats, level);
 
     // Get color from theme using colorKey
     const color = getUnitColor(team, visuals.colorKey as 'hound' | 'fang' | 'crawler');
     // Calculate size based on unit's grid footprint (individual unit size)
     const unitGridCols = definition.unitGridSize?.cols ?? 1;
-    const size = getScaledUnitSize(unitGridCols, arenaHeight);
+    const baseSize = getScaledUnitSize(unitGridCols, arenaHeight);
+    const size = elite?.rank === 'boss' ? baseSize * BOSS_SIZE_MULTIPLIER : baseSize;
 
     const id = `unit_${this.nextUnitId++}`;
     // Use provided squadId or generate one for solo units
@@ -492,20 +659,23 @@ export class BattleEngine {
     const data: UnitData = {
       type: definition.id,
       team,
-      health: stats.maxHealth,
+      health: computeUnitStats(stats, upgradeModifiers).maxHealth,
       stats,
       color,
       shape: visuals.shape,
       size,
       squadId: finalSquadId,
       level: levelMultiplier,
+      category: definition.category,
+      movementLayer: definition.movementLayer,
+      giant: definition.giant,
       target: null,
       attackCooldown: 0,
       shuffleDirection: null,
       shuffleTimer: 0,
       seekMode: false,
       retargetCooldown: 0,
-      activeModifiers: [],
+      activeModifiers: [...upgradeModifiers],
       pendingModifiers: [],
       visualOffset: Vector2.zero(),
       hitFlashTimer: 0,
@@ -514,7 +684,22 @@ export class BattleEngine {
       walkAnimation: visuals.walkAnimation ?? DEFAULT_WALK_ANIMATION,
       hasAimingLaser: visuals.aimingLaser ?? false,
       gridFootprint: definition.gridFootprint ?? DEFAULT_GRID_FOOTPRINT,
+      abilities: {
+        abilityIds: [...new Set([...definition.innateAbilities, ...grantedAbilities])],
+        cooldowns: {},
+        latched: [],
+      },
     };
+    if (upgradeModifiers.length > 0 || grantedAbilities.length > 0) {
+      data.upgrades = upgrades;
+    }
+    if (elite) {
+      data.elite = elite;
+    }
+    const priority = targetPriority ?? definition.targetPriority;
+    if (priority) {
+      data.targetPriority = priority;
+    }
 
     const entity = new UnitEntity(id, position.clone(), data);
     this.world.addUnit(entity);
@@ -531,6 +716,9 @@ export class BattleEngine {
    * @param centerPosition - Center position for the squad formation
    * @param arenaHeight - Arena height for size scaling
    * @param level - Unit level (1-9). HP and damage scale linearly with level.
+   * @param upgrades - Upgrade modifiers and granted abilities (see getPlayerSquadUpgrades)
+   * @param elite - Elite rank and affixes (pair with getEliteSquadUpgrades)
+   * @param targetPriority - Targeting priority override (defaults to the definition's)
    * @returns Array of spawned unit render data
    */
   spawnSquad(
@@ -538,7 +726,10 @@ export class BattleEngine {
     team: UnitTeam,
     centerPosition: Vector2,
     arenaHeight: number = REFERENCE_ARENA_HEIGHT,
-    level: number = 1
+    level: number = 1,
+    upgrades: SquadUpgrades = {},
+    elite?: EliteSquad,
+    targetPriority?: TargetPriority
   ): UnitRenderData[] {
     const definition = this.registry.get(definitionId);
     const squadSize = definition.baseStats.squadSize ?? 1;
@@ -549,7 +740,17 @@ export class BattleEngine {
     if (squadSize <= 1) {
       // Single unit, no squad formation needed
       return [
-        this.spawnUnitFromDefinition(definition, team, centerPosition, arenaHeight, squadId, level),
+        this.spawnUnitFromDefinition(
+          definition,
+          team,
+          centerPosition,
+          arenaHeight,
+          squadId,
+          level,
+          upgrades,
+          elite,
+          targetPriority
+        ),
       ];
     }
 
@@ -585,7 +786,10 @@ export class BattleEngine {
           position,
           arenaHeight,
           squadId,
-          level
+          level,
+          upgrades,
+          elite,
+          targetPriority
         );
         units.push(unit);
         unitIndex++;
@@ -648,6 +852,26 @@ export class BattleEngine {
     this.spawnCastle('enemy', new Vector2(rightX, enemyY), height);
   }
 
+  /**
+   * Place terrain features in no man's land, replacing any current terrain.
+   * Requires arena bounds (features are positioned on the grid).
+   * @param definitions - Features from a wave script or the terrain generator
+   */
+  spawnTerrain(definitions: TerrainDefinition[]): void {
+    if (this.cellSize <= 0) return;
+    const features = definitions.map((definition, index) =>
+      createTerrainFeature(`terrain_${index + 1}`, definition, this.cellSize)
+    );
+    this.world.setTerrain(features, this.cellSize);
+  }
+
+  /**
+   * Get the current terrain definitions (for replays).
+   */
+  getTerrainDefinitions(): TerrainDefinition[] {
+    return this.world.getTerrain().map((feature) => feature.definition);
+  }
+
   /**
    * Resolve overlapping units immediately.
    * Call after spawning all units.
@@ -687,8 +911,8 @@ export class BattleEngine {
               dist > MIN_SEPARATION_DISTANCE
                 ? diff.normalize()
                 : new Vector2(
-                    Math.random() - RANDOM_DIRECTION_CENTER,
-                    Math.random() - RANDOM_DIRECTION_CENTER
+                    this.random() - RANDOM_DIRECTION_CENTER,
+                    this.random() - RANDOM_DIRECTION_CENTER
                   ).normalize();
             const pushAmount = overlap * OVERLAP_PUSH_FACTOR + OVERLAP_BASE_PUSH;
 
@@ -847,4 +1071,39 @@ export class BattleEngine {
       entity.position = position.clone();
     }
   }
+
+  /**
+   * Give player units a tactical order during battle (null returns them to auto-battle).
+   * Enemy, stationary and dead units are skipped. A focus order must name a
+   * living enemy squad, otherwise nothing is ordered.
+   *
+   * @param unitIds - Units to order (typically the selected squads)
+   * @param order - Order to carry out
+   * @returns IDs of the units that took the order
+   */
+  issueOrder(unitIds: readonly string[], order: SquadOrder | null): string[] {
+    if (!this.hasStarted) return [];
+
+    if (order?.type === 'focus') {
+      const targets = this.world.getSquadUnits(order.targetSquadId);
+      if (targets.length === 0 || isPlayerTeam(targets[0].team)) return [];
+    }
+
+    const ordered: string[] = [];
+    for (const id of unitIds) {
+      const entity = this.world.getUnitById(id);
+      if (
+        !entity ||
+        !isPlayerTeam(entity.team) ||
+        entity.isStationary ||
+        entity.isDestroyed() ||
+        entity.health <= 0
+      ) {
+        continue;
+      }
+      entity.setOrder(order);
+      ordered.push(id);
+    }
+    return ordered;
+  }
 }
@@ -8,10 +8,18 @@
  */
 
 import type { IPersistenceAdapter } from '../persistence/IPersistenceAdapter';
+import { loadMigratedSave, saveMigrations } from '../persistence/SaveMigrations';
 import { ILogger, nullLogger } from '../logging';
 
-const SETTINGS_KEY = 'battle_settings';
-const SETTINGS_VERSION = 1;
+/** Persistence key for battle settings */
+export const BATTLE_SETTINGS_SAVE_KEY = 'battle_settings';
+const SETTINGS_VERSION = 2;
+
+// Add migrations here when SETTINGS_VERSION is bumped: { [fromVersion]: (data) => newData }
+saveMigrations.register(BATTLE_SETTINGS_SAVE_KEY, SETTINGS_VERSION, {
+  // v2: stay mode and the last-saved timestamp (0 = unknown, no offline rewards)
+  1: (data) => ({ ...data, stayOnWave: false, lastSavedAt: 0 }),
+});
 
 /**
  * Battle settings data structure.
@@ -23,6 +31,10 @@ export interface BattleSettingsData {
   waveNumber: number;
   highestWave: number;
   gold: number;
+  /** Repeat the current wave instead of progressing */
+  stayOnWave: boolean;
+  /** When the settings were last saved (ms since epoch, 0 = never) */
+  lastSavedAt: number;
 }
 
 /**
@@ -35,8 +47,30 @@ export const DEFAULT_BATTLE_SETTINGS: BattleSettingsData = {
   waveNumber: 1,
   highestWave: 1,
   gold: 0,
+  stayOnWave: false,
+  lastSavedAt: 0,
 };
 
+/**
+ * Validates serialized settings structure (current version, every field present).
+ */
+export function isValidSerializedBattleSettings(data: unknown): data is BattleSettingsData {
+  if (!data || typeof data !== 'object') return false;
+
+  const obj = data as Record<string, unknown>;
+
+  return (
+    typeof obj.version === 'number' &&
+    typeof obj.autoBattle === 'boolean' &&
+    typeof obj.battleSpeed === 'number' &&
+    typeof obj.waveNumber === 'number' &&
+    typeof obj.highestWave === 'number' &&
+    typeof obj.gold === 'number' &&
+    typeof obj.stayOnWave === 'boolean' &&
+    typeof obj.lastSavedAt === 'number'
+  );
+}
+
 /**
  * Serialize settings to JSON string.
  */
@@ -79,6 +113,14 @@ export function deserializeBattleSettings(
           ? parsed.highestWave
           : DEFAULT_BATTLE_SETTINGS.highestWave,
       gold: typeof parsed.gold === 'number' ? parsed.gold : DEFAULT_BATTLE_SETTINGS.gold,
+      stayOnWave:
+        typeof parsed.stayOnWave === 'boolean'
+          ? parsed.stayOnWave
+          : DEFAULT_BATTLE_SETTINGS.stayOnWave,
+      lastSavedAt:
+        typeof parsed.lastSavedAt === 'number'
+          ? parsed.lastSavedAt
+          : DEFAULT_BATTLE_SETTINGS.lastSavedAt,
     };
   } catch {
     logger.warn('Failed to parse battle settings, using defaults');
@@ -86,26 +128,71 @@ export function deserializeBattleSettings(
   }
 }
 
+/**
+ * Last queued settings write per adapter. Writes run one at a time, so an
+ * update's load and save never interleave with another save.
+ */
+const settingsWrites = new WeakMap<IPersistenceAdapter, Promise<unknown>>();
+
+/**
+ * Run a settings write after every write queued before it.
+ * A failed write does not block the ones after it.
+ */
+function queueSettingsWrite<T>(adapter: IPersistenceAdapter, write: () => Promise<T>): Promise<T> {
+  const previous = settingsWrites.get(adapter) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(write);
+  settingsWrites.set(adapter, next);
+  return next;
+}
+
 /**
  * Save battle settings using a persistence adapter.
  */
-export async function saveBattleSettings(
+export function saveBattleSettings(
   adapter: IPersistenceAdapter,
   settings: BattleSettingsData
 ): Promise<void> {
   const data = serializeBattleSettings(settings);
-  await adapter.save(SETTINGS_KEY, data);
+  return queueSettingsWrite(adapter, () => adapter.save(BATTLE_SETTINGS_SAVE_KEY, data));
+}
+
+/**
+ * Load, change and save battle settings as one queued write, so saves made
+ * in the meantime are not overwritten with stale values.
+ * @param adapter - Persistence adapter
+ * @param update - Returns the settings to save
+ */
+export function updateBattleSettings(
+  adapter: IPersistenceAdapter,
+  update: (settings: BattleSettingsData) => BattleSettingsData
+): Promise<void> {
+  return queueSettingsWrite(adapter, async () => {
+    const settings = await loadBattleSettings(adapter);
+    await adapter.save(BATTLE_SETTINGS_SAVE_KEY, serializeBattleSettings(update(settings)));
+  });
 }
 
 /**
  * Load battle settings using a persistence adapter.
+ * Older settings are migrated first (the original is kept as a backup).
  * @param adapter - Persistence adapter for loading
- * @param logger - Optional logger for parse errors
+ * @param logger - Optional logger for parse and migration errors
  */
 export async function loadBattleSettings(
   adapter: IPersistenceAdapter,
   logger?: ILogger
 ): Promise<BattleSettingsData> {
-  const data = await adapter.load(SETTINGS_KEY);
+  const data = await loadMigratedSave(adapter, BATTLE_SETTINGS_SAVE_KEY, { logger });
   return deserializeBattleSettings(data, logger);
 }
+
+/**
+ * Refresh the last-saved timestamp without changing any other setting.
+ * Call periodically while the game is open so time away is measured from
+ * when the player actually left.
+ * @param adapter - Persistence adapter
+ * @param now - Current time (ms since epoch)
+ */
+export function touchBattleSettings(adapter: IPersistenceAdapter, now: number): Promise<void> {
+  return updateBattleSettings(adapter, (settings) => ({ ...settings, lastSavedAt: now }));
+}
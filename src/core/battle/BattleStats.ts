@@ -11,6 +11,7 @@
 import {
   AttackedEvent,
   DamagedEvent,
+  HealedEvent,
   KilledEvent,
   EntityAddedEvent,
   EntityRemovedEvent,
@@ -29,6 +30,12 @@ export interface TeamStats {
   deaths: number;
   damageDealt: number;
   damageTaken: number;
+  /** Incoming damage stopped by this team's armor */
+  armorAbsorbed: number;
+  /** Incoming damage removed by this team's resistances (net of weaknesses) */
+  damageResisted: number;
+  /** Health restored to this team's units (repairs, heals and regen) */
+  healingDone: number;
   unitsSpawned: number;
   /** Total number of attacks performed (melee + ranged) */
   attacksPerformed: number;
@@ -36,6 +43,8 @@ export interface TeamStats {
   meleeAttacks: number;
   /** Number of ranged attacks performed */
   rangedAttacks: number;
+  /** Deaths per unit type (e.g., { hound: 3 }) */
+  deathsByType: Record<string, number>;
 }
 
 /**
@@ -57,10 +66,14 @@ function createEmptyTeamStats(): TeamStats {
     deaths: 0,
     damageDealt: 0,
     damageTaken: 0,
+    armorAbsorbed: 0,
+    damageResisted: 0,
+    healingDone: 0,
     unitsSpawned: 0,
     attacksPerformed: 0,
     meleeAttacks: 0,
     rangedAttacks: 0,
+    deathsByType: {},
   };
 }
 
@@ -90,6 +103,7 @@ export class BattleStats {
   // Typed event listeners (bound for proper unsubscription)
   private onAttackedListener: EventListener<AttackedEvent>;
   private onDamagedListener: EventListener<DamagedEvent>;
+  private onHealedListener: EventListener<HealedEvent>;
   private onKilledListener: EventListener<KilledEvent>;
 
   // World event listeners
@@ -107,6 +121,7 @@ export class BattleStats {
     // Bind entity event listeners
     this.onAttackedListener = this.handleAttacked.bind(this);
     this.onDamagedListener = this.handleDamaged.bind(this);
+    this.onHealedListener = this.handleHealed.bind(this);
     this.onKilledListener = this.handleKilled.bind(this);
 
     // Bind world event listeners
@@ -158,6 +173,7 @@ export class BattleStats {
 
     unit.on('attacked', this.onAttackedListener);
     unit.on('damaged', this.onDamagedListener);
+    unit.on('healed', this.onHealedListener);
     unit.on('killed', this.onKilledListener);
 
     this.subscribedUnits.add(unit.id);
@@ -174,6 +190,7 @@ export class BattleStats {
 
     unit.off('attacked', this.onAttackedListener);
     unit.off('damaged', this.onDamagedListener);
+    unit.off('healed', this.onHealedListener);
     unit.off('killed', this.onKilledListener);
 
     this.subscribedUnits.delete(unit.id);
@@ -242,8 +259,11 @@ export class BattleStats {
   private handleDamaged(event: DamagedEvent): void {
     const damaged = event.entity as UnitEntity;
 
-    // Track damage taken by the damaged unit's team
-    this.getTeamStats(damaged.team).damageTaken += event.amount;
+    // Track damage taken, and what armor and resistances kept off, by the damaged unit's team
+    const defenderStats = this.getTeamStats(damaged.team);
+    defenderStats.damageTaken += event.amount;
+    defenderStats.armorAbsorbed += event.armorAbsorbed;
+    defenderStats.damageResisted += event.resisted;
 
     // Track damage dealt by the attacker's team (if known)
     if (event.attacker && isUnitEntity(event.attacker)) {
@@ -251,11 +271,19 @@ export class BattleStats {
     }
   }
 
+  private handleHealed(event: HealedEvent): void {
+    // Healing only ever lands on allies, so it counts for the healed unit's team
+    const healed = event.entity as UnitEntity;
+    this.getTeamStats(healed.team).healingDone += event.amount;
+  }
+
   private handleKilled(event: KilledEvent): void {
     const killed = event.entity as UnitEntity;
 
     // Track death for the killed unit's team
-    this.getTeamStats(killed.team).deaths++;
+    const teamStats = this.getTeamStats(killed.team);
+    teamStats.deaths++;
+    teamStats.deathsByType[killed.type] = (teamStats.deathsByType[killed.type] ?? 0) + 1;
     this.stats.totalKills++;
 
     // Track kill for the killer's team (if known)
@@ -20,6 +20,7 @@ import {
   getPlayerDeploymentBounds,
   getEnemyDeploymentBounds,
   findNonOverlappingGridPosition,
+  clampGridPosition,
 } from './grid/GridManager';
 
 export interface DragSession {
@@ -307,6 +308,31 @@ export function getSquadGridBounds(
   };
 }
 
+/**
+ * Clamps a squad centroid so its whole footprint stays inside a zone.
+ * Giants have footprints so large that a drag near the zone edge would be
+ * rejected outright; clamping lets them slide along the edge instead.
+ *
+ * @param centroid - Pixel position of squad centroid
+ * @param footprint - Squad footprint in grid cells
+ * @param cellSize - Size of each grid cell in pixels
+ * @param bounds - Zone the footprint must stay inside
+ * @returns Centroid moved by whole cells until the footprint fits
+ */
+export function clampSquadCentroidToBounds(
+  centroid: Vector2,
+  footprint: GridFootprint,
+  cellSize: number,
+  bounds: GridBounds
+): Vector2 {
+  const gridPos = getFootprintGridPosition(centroid, footprint, cellSize);
+  const clamped = clampGridPosition(gridPos, footprint, bounds);
+  return new Vector2(
+    centroid.x + (clamped.col - gridPos.col) * cellSize,
+    centroid.y + (clamped.row - gridPos.row) * cellSize
+  );
+}
+
 /**
  * Collects grid bounds for all squads of a specific team, optionally excluding certain squad IDs.
  *
@@ -190,7 +190,7 @@
 
 import { Vector2 } from '../physics/Vector2';
 import { createSeededRandom, shuffle } from '../utils/Random';
-import { UnitDefinition, FormationRole } from './units/types';
+import { UnitDefinition, FormationRole, TargetPriority } from './units/types';
 import { IUnitRegistry } from './units/IUnitRegistry';
 import type { GridFootprint, GridBounds } from './grid/GridTypes';
 import { calculateCellSize } from './grid/GridManager';
@@ -237,7 +237,17 @@ import {
  * Unit types currently supported in formations.
  * Matches the unit IDs in /src/data/units/*.json
  */
-export type UnitType = 'hound' | 'fang' | 'crawler' | 'arclight' | 'marksman' | 'void_eye';
+export type UnitType =
+  | 'hound'
+  | 'fang'
+  | 'crawler'
+  | 'arclight'
+  | 'marksman'
+  | 'void_eye'
+  | 'repair_drone'
+  | 'wasp'
+  | 'phoenix'
+  | 'fortress';
 
 /**
  * A unit placement within a legacy FormationTemplate.
@@ -1009,6 +1019,16 @@ export function calculateAlliedSpawnPositions(
   }));
 }
 
+/**
+ * A squad in the player's army.
+ */
+export interface AlliedSquad {
+  type: UnitType;
+  level: number;
+  /** Targeting priority override (omitted = the unit type's default) */
+  targetPriority?: TargetPriority;
+}
+
 /**
  * Gets the default allied composition with all T1 units.
  * 12 squads: 2 of each T1 unit type
@@ -1030,6 +1050,14 @@ export function getDefaultAlliedComposition(): UnitType[] {
   ];
 }
 
+/**
+ * Gets the default allied army: the default composition at level 1.
+ * Used when no roster has been set.
+ */
+export function getDefaultAlliedArmy(): AlliedSquad[] {
+  return getDefaultAlliedComposition().map((type) => ({ type, level: 1 }));
+}
+
 /**
  * Calculates deterministic allied spawn positions based on wave number.
  * Same wave number always produces the same formation.
@@ -1248,7 +1276,8 @@ export function calculateDeterministicAlliedPositions(
  */
 export function calculateEnemySpawnPositions(
   composition: UnitType[],
-  bounds: ArenaBounds
+  bounds: ArenaBounds,
+  random: () => number = Math.random
 ): SpawnPosition[] {
   const zoneHeight = bounds.height * bounds.zoneHeightPercent;
 
@@ -1265,7 +1294,7 @@ export function calculateEnemySpawnPositions(
   const cellHeight = availableHeight / Math.max(rows, 1);
 
   // Shuffle for variety
-  const shuffled = [...composition].sort(() => Math.random() - 0.5);
+  const shuffled = shuffle([...composition], random);
 
   return shuffled.map((type, index) => {
     const col = index % cols;
@@ -1276,8 +1305,8 @@ export function calculateEnemySpawnPositions(
     const baseY = enemyZoneTop + row * cellHeight + cellHeight / 2;
 
     // Add jitter
-    const jitterX = (Math.random() - 0.5) * cellWidth * ENEMY_SPAWN_JITTER;
-    const jitterY = (Math.random() - 0.5) * cellHeight * ENEMY_SPAWN_JITTER;
+    const jitterX = (random() - 0.5) * cellWidth * ENEMY_SPAWN_JITTER;
+    const jitterY = (random() - 0.5) * cellHeight * ENEMY_SPAWN_JITTER;
 
     return {
       type,
@@ -1441,20 +1470,24 @@ export function selectPatternForWave(
 /**
  * Calculates deterministic enemy spawn positions based on wave number.
  * Same wave number always produces the same formation.
+ *
+ * @param patternOverride - Pattern to use instead of the wave's usual one (e.g., from a wave script)
  */
 export function calculateDeterministicEnemyPositions(
   composition: UnitType[],
   registry: IUnitRegistry,
   bounds: ArenaBounds,
-  waveNumber: number
+  waveNumber: number,
+  patternOverride?: EnemyFormationPattern
 ): SpawnPosition[] {
   if (composition.length === 0) return [];
 
   // Create seeded random generator
   const random = createSeededRandom(waveNumber);
 
-  // Select formation pattern
-  const pattern = selectPatternForWave(waveNumber, random);
+  // Select formation pattern (always drawn, so an override leaves the rest of the sequence unchanged)
+  const selectedPattern = selectPatternForWave(waveNumber, random);
+  const pattern = patternOverride ?? selectedPattern;
 
   // Determine if roles should be swapped (35% chance for variety)
   let roleMapper: (role: FormationRole) => FormationRole = (role) => role;
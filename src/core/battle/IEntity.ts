@@ -12,8 +12,8 @@
 
 import { Vector2 } from '../physics/Vector2';
 
-import { UnitTeam } from './units/types';
-import type { TemporaryModifier } from './modifiers/TemporaryModifier';
+import { DamageProfile, DamageType, MovementLayer, UnitTeam } from './units/types';
+import type { ActiveModifier } from './modifiers/types';
 
 /**
  * Discriminant for entity types.
@@ -21,7 +21,7 @@ import type { TemporaryModifier } from './modifiers/TemporaryModifier';
  *
  * Godot equivalent: Node.get_class() or custom "type" property on nodes.
  */
-export type EntityKind = 'unit' | 'projectile' | 'shockwave' | 'damage_number';
+export type EntityKind = 'unit' | 'projectile' | 'beam' | 'shockwave' | 'damage_number';
 
 /**
  * Interface for entities that can take damage (units, castles, etc.).
@@ -45,12 +45,16 @@ export interface IDamageable {
   /** Size for collision detection */
   readonly size: number;
 
+  /** Layer the entity is on (omitted = 'ground') */
+  readonly movementLayer?: MovementLayer;
+
   /**
    * Apply damage to this entity.
    * @param amount - Damage to apply
    * @param attacker - The entity that dealt the damage (optional)
+   * @param profile - Damage type and armor penetration of the hit (defaults to kinetic)
    */
-  takeDamage(amount: number, attacker?: IEntity): void;
+  takeDamage(amount: number, attacker?: IEntity, profile?: DamageProfile): void;
 
   /** Whether this entity is destroyed/dead */
   isDestroyed(): boolean;
@@ -76,7 +80,7 @@ export interface IMeleeTarget extends IDamageable {
    * @param modifier - The modifier to apply
    * @param delay - Delay in seconds before applying
    */
-  queueModifier(modifier: TemporaryModifier, delay: number): void;
+  queueModifier(modifier: ActiveModifier, delay: number): void;
 }
 
 /**
@@ -132,7 +136,14 @@ export interface IEntity {
  * Event types that entities can emit.
  * Maps to Godot signals.
  */
-export type EntityEventType = 'spawned' | 'destroyed' | 'damaged' | 'attacked' | 'killed' | 'moved';
+export type EntityEventType =
+  | 'spawned'
+  | 'destroyed'
+  | 'damaged'
+  | 'healed'
+  | 'attacked'
+  | 'killed'
+  | 'moved';
 
 /**
  * World-level event types.
@@ -166,6 +177,31 @@ export type DestroyedEvent = BaseEntityEvent<'destroyed'>;
  */
 export interface DamagedEvent extends BaseEntityEvent<'damaged'> {
   attacker?: IEntity;
+  /** Damage dealt after armor and resistances */
+  amount: number;
+  /** Damage before mitigation */
+  rawAmount: number;
+  damageType: DamageType;
+  /** Damage stopped by armor */
+  armorAbsorbed: number;
+  /** Damage removed by resistance (negative for a weakness) */
+  resisted: number;
+  /** Damage soaked up by a shield status */
+  shieldAbsorbed: number;
+  /** Burn, ability or trample damage rather than an attack (omitted = attack) */
+  indirect?: boolean;
+  previousHealth: number;
+  currentHealth: number;
+}
+
+/**
+ * Entity restored health.
+ * - entity: The unit that was healed
+ * - healer: Who healed it (optional, e.g., ability heals)
+ */
+export interface HealedEvent extends BaseEntityEvent<'healed'> {
+  healer?: IEntity;
+  /** Health actually restored (overhealing excluded) */
   amount: number;
   previousHealth: number;
   currentHealth: number;
@@ -206,6 +242,7 @@ export type EntityEvent =
   | SpawnedEvent
   | DestroyedEvent
   | DamagedEvent
+  | HealedEvent
   | AttackedEvent
   | KilledEvent
   | MovedEvent;
@@ -242,6 +279,7 @@ export interface EntityEventMap {
   spawned: SpawnedEvent;
   destroyed: DestroyedEvent;
   damaged: DamagedEvent;
+  healed: HealedEvent;
   attacked: AttackedEvent;
   killed: KilledEvent;
   moved: MovedEvent;
@@ -30,4 +30,6 @@ export interface ISelectable {
   squadId: string;
   /** Grid footprint for deployment positioning */
   gridFootprint: GridFootprint;
+  /** Single huge unit; slides along the deployment zone edge when dragged (optional) */
+  isGiant?: boolean;
 }
@@ -282,6 +282,17 @@ export const UNIT_SHADOW_OFFSET = 2;
  */
 export const UNIT_SHADOW_OPACITY = 0.35;
 
+/**
+ * Air unit shadow offset (pixels down and right from unit center).
+ * Larger than ground units' so flyers read as above the battlefield.
+ */
+export const AIR_UNIT_SHADOW_OFFSET = 6;
+
+/**
+ * Air unit shadow opacity (0-1).
+ */
+export const AIR_UNIT_SHADOW_OPACITY = 0.2;
+
 /**
  * Selection ring pulse speed (cycles per second).
  * 0.333 = one full cycle every 3 seconds.
@@ -314,6 +325,40 @@ export const PROJECTILE_TRAIL_WIDTH = 2;
  */
 export const PROJECTILE_HEAD_RADIUS = 3;
 
+/**
+ * Ground shadow radius of an arcing shell at peak height (pixels).
+ */
+export const ARC_SHADOW_RADIUS = 2;
+
+// =============================================================================
+// BEAM VISUALS
+// =============================================================================
+
+/**
+ * Seconds a beam or chain arc stays visible after it stops firing.
+ */
+export const BEAM_FADE_DURATION = 0.25;
+
+/**
+ * Beam core width (pixels). Continuous beams widen as their damage ramps up.
+ */
+export const BEAM_CORE_WIDTH = 1.5;
+
+/**
+ * Beam glow width (pixels).
+ */
+export const BEAM_GLOW_WIDTH = 5;
+
+/**
+ * Number of zigzag segments in a chain arc.
+ */
+export const CHAIN_ARC_SEGMENTS = 6;
+
+/**
+ * Max sideways offset of a chain arc's zigzag points (pixels).
+ */
+export const CHAIN_ARC_JITTER = 4;
+
 // =============================================================================
 // SHOCKWAVE VISUALS
 // =============================================================================
@@ -354,6 +399,26 @@ export const GHOST_HEALTH_DECAY_RATE = 0.08;
  */
 export const GHOST_HEALTH_SNAP_THRESHOLD = 0.1;
 
+// =============================================================================
+// GIANT HEALTH BAR
+// =============================================================================
+
+/**
+ * Giant health bar width as a multiple of the giant's visual diameter.
+ */
+export const GIANT_HEALTH_BAR_WIDTH_MULTIPLIER = 1.4;
+
+/**
+ * Giant health bar height (pixels).
+ */
+export const GIANT_HEALTH_BAR_HEIGHT = 5;
+
+/**
+ * Number of segments the giant health bar is divided into by tick marks.
+ * Makes chunks of damage on a huge health pool easy to read.
+ */
+export const GIANT_HEALTH_BAR_SEGMENTS = 10;
+
 // =============================================================================
 // VISUAL THRESHOLDS
 // =============================================================================
@@ -0,0 +1,248 @@
+/**
+ * Ability Effect Resolver
+ *
+ * Applies resolved ability effects to battle entities.
+ * AbilityProcessor decides WHICH abilities fire and WHO they target;
+ * this module decides WHAT happens to those targets.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import { Vector2 } from '../../physics/Vector2';
+import {
+  ABILITY_SPAWN_SPREAD_MULTIPLIER,
+  MIN_NORMALIZE_THRESHOLD,
+  scaleValue,
+} from '../BattleConfig';
+import { EntityBounds, clampToArenaInPlace } from '../BoundsEnforcer';
+import { createActiveModifier } from '../modifiers/ModifierCalculator';
+import { getForwardDirection } from '../unit-behaviors/MovementSystem';
+import { createStatusEffect } from '../unit-behaviors/StatusEffectSystem';
+import { UnitTeam } from '../units/types';
+import type { UnitEntity } from '../entities/UnitEntity';
+import { AbilityEffect, EffectType, ResolvedEffect, StatusAbilityEffect } from './types';
+
+/**
+ * Callback used by spawn_unit effects to create new units.
+ * Provided by the engine, which owns unit definitions.
+ */
+export type AbilityUnitSpawner = (
+  definitionId: string,
+  team: UnitTeam,
+  position: Vector2,
+  level: number
+) => void;
+
+/**
+ * World services needed to apply ability effects.
+ */
+export interface AbilityEffectContext {
+  /** Arena height for scaling pixel values */
+  arenaHeight: number;
+
+  /** Arena bounds for clamping displaced units (null = unbounded) */
+  arenaBounds: EntityBounds | null;
+
+  /** Current battle time in seconds (used as the modifier time source) */
+  battleTime: number;
+
+  /** Look up a unit by ID */
+  getUnitById(id: string): UnitEntity | undefined;
+
+  /** Spawn a shockwave; sourceTeam's units are debuffed, the other team rallies */
+  spawnShockwave(position: Vector2, sourceTeam: UnitTeam): void;
+
+  /** Spawn a unit (null = spawn_unit effects are ignored) */
+  spawnUnit: AbilityUnitSpawner | null;
+}
+
+/**
+ * Context passed to effect type handlers.
+ */
+interface EffectHandlerContext<T extends AbilityEffect> {
+  effect: T;
+  source: UnitEntity;
+  abilityId: string;
+  targets: UnitEntity[];
+  world: AbilityEffectContext;
+}
+
+/**
+ * Handler function signature for applying an effect type.
+ */
+type EffectTypeHandler<T extends AbilityEffect> = (ctx: EffectHandlerContext<T>) => void;
+
+/**
+ * Shared handler for every status effect type.
+ * How a status stacks with one already on the target is up to StatusEffectSystem.
+ */
+const applyStatus: EffectTypeHandler<StatusAbilityEffect> = ({
+  effect,
+  source,
+  abilityId,
+  targets,
+}) => {
+  for (const target of targets) {
+    const amount = effect.isPercentOfMaxHealth
+      ? target.stats.maxHealth * (effect.amount ?? 0)
+      : (effect.amount ?? 0);
+    const status = createStatusEffect(effect.type, abilityId, source.team, effect.duration, amount);
+    target.applyStatusEffect(
+      {
+        ...status,
+        sourceUnitId: source.id,
+        damageType: effect.damageType,
+        immunity: effect.immunity,
+      },
+      effect.maxStacks
+    );
+  }
+};
+
+/**
+ * Handler map for effect types (OCP pattern).
+ * To add new effect types, add entries here - no switch modification needed.
+ */
+const EFFECT_TYPE_HANDLERS: {
+  [K in EffectType]: EffectTypeHandler<Extract<AbilityEffect, { type: K }>>;
+} = {
+  damage: ({ effect, source, targets }) => {
+    let amount = effect.amount;
+    if (effect.isPercentOfDamage) {
+      const attackMode = source.stats.ranged ?? source.stats.melee;
+      amount = (attackMode?.damage ?? 0) * effect.amount;
+    }
+    amount = Math.round(amount);
+    if (amount <= 0) return;
+
+    for (const target of targets) {
+      target.takeDamage(amount, source, { damageType: effect.damageType, indirect: true });
+    }
+  },
+
+  heal: ({ effect, source, targets }) => {
+    for (const target of targets) {
+      const amount = effect.isPercentOfMaxHealth
+        ? target.stats.maxHealth * effect.amount
+        : effect.amount;
+      target.heal(amount, source);
+    }
+  },
+
+  apply_modifier: ({ effect, source, abilityId, targets, world }) => {
+    for (const target of targets) {
+      const modifier = createActiveModifier(
+        effect.modifier,
+        'ability',
+        abilityId,
+        effect.duration,
+        1,
+        () => world.battleTime
+      );
+      // Tracked by team, so a debuff on an enemy can be cleansed like any other
+      target.applyModifier({ ...modifier, sourceTeam: source.team }, effect.maxStacks);
+    }
+  },
+
+  remove_modifier: ({ effect, targets }) => {
+    for (const target of targets) {
+      target.removeModifiersBySource(effect.sourceId);
+    }
+  },
+
+  spawn_unit: ({ effect, source, targets, world }) => {
+    if (!world.spawnUnit || effect.count <= 0) return;
+
+    for (const target of targets) {
+      // Spread spawned units evenly on a ring around the target
+      const spread = target.size * ABILITY_SPAWN_SPREAD_MULTIPLIER;
+      for (let i = 0; i < effect.count; i++) {
+        const angle = (i / effect.count) * Math.PI * 2;
+        const position = target.position.add(
+          new Vector2(Math.cos(angle) * spread, Math.sin(angle) * spread)
+        );
+        if (world.arenaBounds) {
+          clampToArenaInPlace(position, target.size, world.arenaBounds);
+        }
+        world.spawnUnit(effect.unitId, source.team, position, source.level);
+      }
+    }
+  },
+
+  spawn_shockwave: ({ source, world }) => {
+    // Shockwave handles its own targeting as it expands
+    world.spawnShockwave(source.position.clone(), source.team);
+  },
+
+  knockback: ({ effect, source, targets, world }) => {
+    const distance = scaleValue(effect.distance, world.arenaHeight);
+    for (const target of targets) {
+      if (target === source || target.isStationary) continue;
+      const away = target.position.subtract(source.position);
+      const direction =
+        away.magnitude() > MIN_NORMALIZE_THRESHOLD
+          ? away.normalize()
+          : getForwardDirection(source.team);
+      displaceUnit(target, direction.multiply(distance), world);
+    }
+  },
+
+  pull: ({ effect, source, targets, world }) => {
+    const distance = scaleValue(effect.distance, world.arenaHeight);
+    for (const target of targets) {
+      if (target === source || target.isStationary) continue;
+      const toward = source.position.subtract(target.position);
+      // Never pull a target through (or into) the source
+      const maxPull = Math.max(0, toward.magnitude() - source.size - target.size);
+      const pull = Math.min(distance, maxPull);
+      if (pull <= 0) continue;
+      displaceUnit(target, toward.normalize().multiply(pull), world);
+    }
+  },
+
+  stun: applyStatus,
+  root: applyStatus,
+  slow: applyStatus,
+  burn: applyStatus,
+  regen: applyStatus,
+  shield: applyStatus,
+};
+
+/**
+ * Moves a unit by an offset and keeps it inside the arena.
+ */
+function displaceUnit(unit: UnitEntity, offset: Vector2, world: AbilityEffectContext): void {
+  unit.position = unit.position.add(offset);
+  if (world.arenaBounds) {
+    clampToArenaInPlace(unit.position, unit.size, world.arenaBounds);
+  }
+}
+
+/**
+ * Applies a resolved ability effect.
+ * Targets that no longer exist, are dying, or are destroyed are skipped.
+ *
+ * @param resolved - Effect with resolved target IDs (from AbilityProcessor)
+ * @param source - The unit that owns the ability
+ * @param abilityId - The ability that produced the effect
+ * @param world - World services
+ */
+export function applyAbilityEffect(
+  resolved: ResolvedEffect,
+  source: UnitEntity,
+  abilityId: string,
+  world: AbilityEffectContext
+): void {
+  const targets: UnitEntity[] = [];
+  for (const id of resolved.targetUnitIds) {
+    const target = world.getUnitById(id);
+    if (target && !target.isDestroyed() && !target.isDying) {
+      targets.push(target);
+    }
+  }
+
+  const handler = EFFECT_TYPE_HANDLERS[resolved.effect.type] as EffectTypeHandler<AbilityEffect>;
+  if (handler) {
+    handler({ effect: resolved.effect, source, abilityId, targets, world });
+  }
+}
@@ -15,7 +15,7 @@ import {
   REFERENCE_ARENA_HEIGHT,
   scaleValue,
 } from '../BattleConfig';
-import { UnitInstance } from '../units/types';
+import { UnitTeam } from '../units/types';
 import {
   AbilityDefinition,
   AbilityEffect,
@@ -34,12 +34,24 @@ export interface AbilityProcessorConfig {
   random?: () => number;
 }
 
+/**
+ * Minimal unit view needed for trigger checks and target resolution.
+ * UnitInstance satisfies this directly; battle entities provide a snapshot.
+ */
+export interface AbilityUnitView {
+  id: string;
+  team: UnitTeam;
+  position: Vector2;
+  currentHealth: number;
+  computedStats: { maxHealth: number };
+}
+
 /**
  * State needed for ability processing.
  */
 export interface AbilityProcessorState {
   /** All units in the battle */
-  units: UnitInstance[];
+  units: readonly AbilityUnitView[];
 
   /** Current battle time in seconds */
   battleTime: number;
@@ -61,6 +73,13 @@ export class AbilityProcessor {
     this.random = config.random ?? Math.random;
   }
 
+  /**
+   * Gets an ability definition by ID (undefined if not registered).
+   */
+  getAbility(abilityId: string): AbilityDefinition | undefined {
+    return this.registry.tryGet(abilityId);
+  }
+
   /**
    * Processes a trigger event for a unit, checking all active abilities.
    *
@@ -93,13 +112,6 @@ export class AbilityProcessor {
       const currentCooldown = cooldowns[ability.id] ?? 0;
       if (currentCooldown > 0) continue;
 
-      // Check trigger conditions
-      if (!this.checkTriggerCondition(ability, unitId, state)) continue;
-
-      // Roll for chance
-      if (ability.chance < 1 && this.random() > ability.chance) continue;
-
-      // Resolve targets and create effects
       const fullContext: AbilityTriggerContext = {
         sourceUnitId: unitId,
         triggerType,
@@ -107,6 +119,13 @@ export class AbilityProcessor {
         ...context,
       };
 
+      // Check trigger conditions
+      if (!this.checkTriggerCondition(ability, fullContext, state)) continue;
+
+      // Roll for chance
+      if (ability.chance < 1 && this.random() > ability.chance) continue;
+
+      // Resolve targets and create effects
       const resolvedEffects = this.resolveEffects(ability, fullContext, state);
 
       results.push({
@@ -125,30 +144,46 @@ export class AbilityProcessor {
    */
   private checkTriggerCondition(
     ability: AbilityDefinition,
-    unitId: string,
+    context: AbilityTriggerContext,
     state: AbilityProcessorState
   ): boolean {
     const trigger = ability.trigger;
-    const unit = state.units.find((u) => u.id === unitId);
+    const unit = state.units.find((u) => u.id === context.sourceUnitId);
     if (!unit) return false;
 
     switch (trigger.type) {
-      case 'health_below': {
-        const threshold = trigger.healthThreshold ?? DEFAULT_HEALTH_BELOW_THRESHOLD;
-        const healthPercent = unit.currentHealth / unit.computedStats.maxHealth;
-        return healthPercent <= threshold;
-      }
-      case 'health_above': {
-        const threshold = trigger.healthThreshold ?? DEFAULT_HEALTH_ABOVE_THRESHOLD;
-        const healthPercent = unit.currentHealth / unit.computedStats.maxHealth;
-        return healthPercent >= threshold;
-      }
+      case 'health_below':
+      case 'health_above':
+        return this.isHealthConditionMet(ability, unit);
+      case 'on_ability_trigger':
+        // Never chain an ability off itself
+        if (context.triggeredAbilityId === ability.id) return false;
+        return trigger.abilityId === undefined || trigger.abilityId === context.triggeredAbilityId;
       default:
         // Most triggers don't have additional conditions
         return true;
     }
   }
 
+  /**
+   * Checks whether a health threshold ability's condition currently holds.
+   * Non-threshold abilities always return true.
+   */
+  isHealthConditionMet(ability: AbilityDefinition, unit: AbilityUnitView): boolean {
+    const trigger = ability.trigger;
+    const maxHealth = unit.computedStats.maxHealth;
+    const healthPercent = maxHealth > 0 ? unit.currentHealth / maxHealth : 0;
+
+    switch (trigger.type) {
+      case 'health_below':
+        return healthPercent <= (trigger.healthThreshold ?? DEFAULT_HEALTH_BELOW_THRESHOLD);
+      case 'health_above':
+        return healthPercent >= (trigger.healthThreshold ?? DEFAULT_HEALTH_ABOVE_THRESHOLD);
+      default:
+        return true;
+    }
+  }
+
   /**
    * Resolves effects with their target unit IDs.
    */
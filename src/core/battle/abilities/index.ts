@@ -8,3 +8,4 @@ export * from './types';
 export type { IAbilityRegistry } from './IAbilityRegistry';
 export * from './AbilityRegistry';
 export * from './AbilityProcessor';
+export * from './AbilityEffectResolver';
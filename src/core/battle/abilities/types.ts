@@ -8,6 +8,8 @@
  */
 
 import { Modifier } from '../modifiers/types';
+import type { StatusEffectType } from '../status/types';
+import type { DamageType } from '../units/types';
 
 /**
  * When an ability can trigger.
@@ -65,7 +67,8 @@ export type EffectType =
   | 'spawn_unit' // Spawn additional units
   | 'spawn_shockwave' // Spawn a shockwave effect
   | 'knockback' // Push targets away
-  | 'pull'; // Pull targets closer
+  | 'pull' // Pull targets closer
+  | StatusEffectType; // Apply a status effect (stun, root, slow, burn, regen, shield)
 
 /**
  * Base interface for ability effects.
@@ -87,6 +90,8 @@ export interface DamageEffect extends AbilityEffectBase {
   amount: number;
   /** If true, amount is a percentage of normal attack damage */
   isPercentOfDamage?: boolean;
+  /** Damage type (default 'kinetic') */
+  damageType?: DamageType;
 }
 
 /**
@@ -160,6 +165,38 @@ export interface SpawnShockwaveEffect extends AbilityEffectBase {
   targetTeam: 'ally' | 'enemy' | 'both';
 }
 
+/**
+ * Status effect (stun, root, slow, burn, regen or shield).
+ * See status/types.ts for how each status stacks.
+ */
+export interface StatusAbilityEffect<
+  T extends StatusEffectType = StatusEffectType,
+> extends AbilityEffectBase {
+  type: T;
+  /** Duration in seconds */
+  duration: number;
+  /**
+   * slow: speed reduction (0.3 = 30% slower); burn: damage per second per stack;
+   * regen: heal per second; shield: damage absorbed. Unused by stun and root.
+   */
+  amount?: number;
+  /** regen/shield: amount is a percentage of the target's max health */
+  isPercentOfMaxHealth?: boolean;
+  /** burn: damage type (default 'energy') */
+  damageType?: DamageType;
+  /** burn: maximum stacks (default BURN_MAX_STACKS) */
+  maxStacks?: number;
+  /** Seconds of immunity to this status once it ends (default per status) */
+  immunity?: number;
+}
+
+/**
+ * One status effect interface per status type, so each narrows by `type`.
+ */
+export type StatusAbilityEffects = {
+  [K in StatusEffectType]: StatusAbilityEffect<K>;
+}[StatusEffectType];
+
 /**
  * Union of all effect types.
  */
@@ -171,7 +208,8 @@ export type AbilityEffect =
   | SpawnUnitEffect
   | SpawnShockwaveEffect
   | KnockbackEffect
-  | PullEffect;
+  | PullEffect
+  | StatusAbilityEffects;
 
 /**
  * Ability Definition - loaded from JSON.
@@ -221,6 +259,9 @@ export interface AbilityTriggerContext {
   /** For kill events: unit that was killed */
   killedUnitId?: string;
 
+  /** For on_ability_trigger: the ability that just fired */
+  triggeredAbilityId?: string;
+
   /** Current battle time in seconds */
   battleTime: number;
 }
@@ -249,3 +290,20 @@ export interface ResolvedEffect {
   effect: AbilityEffect;
   targetUnitIds: string[];
 }
+
+/**
+ * Per-unit ability runtime state, owned by the battle entity.
+ */
+export interface UnitAbilityState {
+  /** Ability IDs this unit has (innate + granted) */
+  abilityIds: string[];
+
+  /** Remaining cooldowns: abilityId -> seconds */
+  cooldowns: Record<string, number>;
+
+  /**
+   * Threshold abilities (health_below/health_above) that already fired.
+   * They re-arm once their condition stops being met, so they fire once per crossing.
+   */
+  latched: string[];
+}
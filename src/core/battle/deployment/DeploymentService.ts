@@ -15,13 +15,25 @@ import {
   DEFAULT_GRID_FOOTPRINT,
 } from '../BattleConfig';
 import {
+  AlliedSquad,
+  DEFAULT_ENEMY_PATTERNS,
+  UnitType,
   calculateDeterministicAlliedPositions,
   calculateDeterministicEnemyPositions,
-  getDefaultAlliedComposition,
+  getDefaultAlliedArmy,
   getEnemyCompositionForWave,
 } from '../FormationManager';
-import { calculateCellSize, snapFootprintToGrid } from '../grid/GridManager';
+import {
+  calculateCellSize,
+  getFootprintPixelCenter,
+  snapFootprintToGrid,
+} from '../grid/GridManager';
 import { resolveSquadOverlaps } from '../DragController';
+import { IUnitRegistry } from '../units/IUnitRegistry';
+import { WaveDefinition } from '../waves/types';
+import { rollEliteSquads } from '../elites/EliteSquads';
+import { generateTerrain } from '../obstacles/TerrainGenerator';
+import { Vector2 } from '../../physics/Vector2';
 import { createSeededRandom } from '../../utils/Random';
 import { applyLayoutToComposition } from './LayoutManager';
 
@@ -114,6 +126,84 @@ export interface SpawnBounds {
   zoneHeightPercent: number;
 }
 
+/**
+ * An enemy squad to spawn: type, arena position and level.
+ */
+export interface EnemySquadSpawn {
+  type: UnitType;
+  position: Vector2;
+  level: number;
+}
+
+// =============================================================================
+// ENEMY WAVE PLANNING
+// =============================================================================
+
+/**
+ * Plans the enemy squads for a wave.
+ * Without a definition the wave is generated procedurally. A scripted wave
+ * spawns its squads (plus the generated army if its rules ask for it):
+ * pinned squads at their cells, the rest by the formation pattern.
+ * Squads without a fixed level follow the wave's normal level scaling.
+ *
+ * @param definition - Scripted wave covering this wave (omit for procedural)
+ */
+export function planEnemySquads(
+  waveNumber: number,
+  registry: IUnitRegistry,
+  bounds: SpawnBounds,
+  cellSize: number,
+  definition?: WaveDefinition
+): EnemySquadSpawn[] {
+  const pinned: { type: UnitType; position: Vector2; level?: number }[] = [];
+  const levelsByType = new Map<string, (number | undefined)[]>();
+  const composition: UnitType[] = [];
+
+  for (const squad of definition?.squads ?? []) {
+    const type = squad.type as UnitType;
+    if (squad.cell) {
+      const footprint = registry.tryGet(type)?.gridFootprint ?? DEFAULT_GRID_FOOTPRINT;
+      pinned.push({
+        type,
+        position: getFootprintPixelCenter(squad.cell, footprint, cellSize),
+        level: squad.level,
+      });
+      continue;
+    }
+    for (let i = 0; i < (squad.count ?? 1); i++) {
+      composition.push(type);
+      levelsByType.set(type, [...(levelsByType.get(type) ?? []), squad.level]);
+    }
+  }
+  if (!definition?.squads || definition.rules?.includeGenerated) {
+    composition.push(...getEnemyCompositionForWave(waveNumber, registry));
+  }
+
+  const pattern = DEFAULT_ENEMY_PATTERNS.find((p) => p.id === definition?.pattern);
+  const placed = calculateDeterministicEnemyPositions(
+    composition,
+    registry,
+    bounds,
+    waveNumber,
+    pattern
+  ).map((spawn) => ({ ...spawn, level: levelsByType.get(spawn.type)?.shift() }));
+
+  // Squads without a fixed level share the wave's bonus levels
+  const squads = [...placed, ...pinned];
+  const autoLevels = distributeEnemyLevels(
+    squads.filter((squad) => squad.level === undefined).length,
+    calculateEnemyBonusLevels(waveNumber),
+    waveNumber
+  );
+  const levelBonus = definition?.rules?.levelBonus ?? 0;
+
+  return squads.map((squad) => ({
+    type: squad.type,
+    position: squad.position,
+    level: (squad.level ?? autoLevels.shift() ?? 1) + levelBonus,
+  }));
+}
+
 // =============================================================================
 // SPAWNING
 // =============================================================================
@@ -140,50 +230,79 @@ export function spawnWaveUnits(engine: BattleEngine, config: WaveSpawnConfig): v
   // Spawn castles for both teams
   engine.spawnCastles();
 
+  // Terrain in no man's land - from the wave script if it has a terrain list, else generated
+  const waveDefinition = engine.getWaveRegistry()?.getForWave(waveNumber);
+  engine.spawnTerrain(waveDefinition?.terrain ?? generateTerrain(waveNumber));
+
   const registry = engine.getRegistry();
   const cellSize = calculateCellSize(arenaWidth, arenaHeight);
 
-  // Spawn allied army - use saved layout if available, otherwise deterministic formation
-  const alliedComposition = getDefaultAlliedComposition();
+  // Spawn allied army from the roster (default army if none is set).
+  // Squads keep their saved layout positions; the rest use the deterministic formation.
+  const alliedArmy = engine.getAllyArmy() ?? getDefaultAlliedArmy();
+  const alliedComposition = alliedArmy.map((squad) => squad.type);
   const savedLayout = engine.getSavedAllyLayout();
-  const savedPositions = savedLayout
+  const fromLayout = savedLayout
     ? applyLayoutToComposition(savedLayout, alliedComposition, registry, cellSize)
-    : null;
-  const alliedPositions =
-    savedPositions ??
-    calculateDeterministicAlliedPositions(alliedComposition, registry, bounds, waveNumber);
+    : { positions: [], unplaced: alliedComposition };
+  const alliedPositions = [
+    ...fromLayout.positions,
+    ...calculateDeterministicAlliedPositions(fromLayout.unplaced, registry, bounds, waveNumber),
+  ];
+
+  // Positions are not in army order - hand out squads per unit type
+  const squadsByType = new Map<string, AlliedSquad[]>();
+  for (const squad of alliedArmy) {
+    const squads = squadsByType.get(squad.type) ?? [];
+    squads.push(squad);
+    squadsByType.set(squad.type, squads);
+  }
 
   for (const spawn of alliedPositions) {
     // Snap position to grid based on unit's footprint
     const def = registry.tryGet(spawn.type);
     const footprint = def?.gridFootprint || DEFAULT_GRID_FOOTPRINT;
     const snappedPos = snapFootprintToGrid(spawn.position, footprint, cellSize);
-    engine.spawnSquad(spawn.type, 'player', snappedPos, arenaHeight);
+    const squad = squadsByType.get(spawn.type)?.shift();
+    engine.spawnSquad(
+      spawn.type,
+      'player',
+      snappedPos,
+      arenaHeight,
+      squad?.level ?? 1,
+      engine.getPlayerSquadUpgrades(spawn.type),
+      undefined,
+      squad?.targetPriority
+    );
   }
 
-  // Spawn enemy army using deterministic formation (varies by wave)
-  const enemyComposition = getEnemyCompositionForWave(waveNumber, registry);
-  const enemyPositions = calculateDeterministicEnemyPositions(
-    enemyComposition,
+  // Spawn enemy army - scripted if a wave definition covers this wave, else generated
+  const enemySquads = planEnemySquads(waveNumber, registry, bounds, cellSize, waveDefinition);
+
+  // Promote some squads to elites (and the boss on boss waves)
+  const elites = rollEliteSquads(
+    enemySquads,
+    waveNumber,
     registry,
-    bounds,
-    waveNumber
+    engine.getAffixRegistry()?.getAll() ?? []
   );
 
-  // Calculate level distribution for enemy squads
-  const bonusLevels = calculateEnemyBonusLevels(waveNumber);
-  const enemyLevels = distributeEnemyLevels(enemyPositions.length, bonusLevels, waveNumber);
-
-  for (let i = 0; i < enemyPositions.length; i++) {
-    const spawn = enemyPositions[i];
-    const level = enemyLevels[i];
-
+  enemySquads.forEach((spawn, index) => {
     // Snap position to grid based on unit's footprint
     const def = registry.tryGet(spawn.type);
     const footprint = def?.gridFootprint || DEFAULT_GRID_FOOTPRINT;
     const snappedPos = snapFootprintToGrid(spawn.position, footprint, cellSize);
-    engine.spawnSquad(spawn.type, 'enemy', snappedPos, arenaHeight, level);
-  }
+    const elite = elites[index];
+    engine.spawnSquad(
+      spawn.type,
+      'enemy',
+      snappedPos,
+      arenaHeight,
+      spawn.level,
+      elite ? engine.getEliteSquadUpgrades(elite) : {},
+      elite
+    );
+  });
 }
 
 // =============================================================================
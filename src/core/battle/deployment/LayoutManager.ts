@@ -37,6 +37,16 @@ export interface SavedAllyLayout {
   placements: SavedSquadPlacement[];
 }
 
+/**
+ * A saved layout applied to a composition.
+ */
+export interface AppliedAllyLayout {
+  /** Spawn positions for squads that kept a saved position */
+  positions: SpawnPosition[];
+  /** Squads with no saved position left (e.g., newly bought) */
+  unplaced: UnitType[];
+}
+
 // =============================================================================
 // CAPTURE
 // =============================================================================
@@ -93,23 +103,19 @@ export function captureAllyLayout(playerUnits: UnitEntity[], cellSize: number):
  * 2. Role-based fallback (formationRole from registry)
  * 3. Any remaining unmatched
  *
- * Returns null if the new composition has more squads than saved positions.
+ * If the new composition has more squads than saved positions, the extra
+ * squads are left unmatched (null).
  *
  * @param savedLayout - Previously saved layout
  * @param newComposition - New composition of unit types to spawn
  * @param registry - Unit registry for looking up formationRole
- * @returns Matched placements or null if matching fails
+ * @returns One entry per composition squad - its placement, or null if unmatched
  */
 export function mapCompositionToLayout(
   savedLayout: SavedAllyLayout,
   newComposition: string[],
   registry: IUnitRegistry
-): SavedSquadPlacement[] | null {
-  // More squads than saved positions → can't match, fall back
-  if (newComposition.length > savedLayout.placements.length) {
-    return null;
-  }
-
+): (SavedSquadPlacement | null)[] {
   // Track which saved placements and composition entries are consumed
   const usedSaved = new Array(savedLayout.placements.length).fill(false);
   const usedComp = new Array(newComposition.length).fill(false);
@@ -175,12 +181,7 @@ export function mapCompositionToLayout(
     }
   }
 
-  // If any composition entry is still unmatched, fail
-  if (result.some((r) => r === null)) {
-    return null;
-  }
-
-  return result as SavedSquadPlacement[];
+  return result;
 }
 
 // =============================================================================
@@ -189,24 +190,32 @@ export function mapCompositionToLayout(
 
 /**
  * Apply a saved layout to a new composition, returning spawn positions in pixel coords.
- * Returns null if matching fails (caller should fall back to deterministic formation).
+ * Squads keep their saved positions; squads without one are returned as unplaced
+ * (caller should place them with the deterministic formation).
  *
  * @param savedLayout - Previously saved layout
  * @param newComposition - New composition of unit types to spawn
  * @param registry - Unit registry for matching
  * @param cellSize - Grid cell size in pixels
- * @returns Array of SpawnPositions or null if matching fails
+ * @returns Spawn positions for placed squads and the unplaced squad types
  */
 export function applyLayoutToComposition(
   savedLayout: SavedAllyLayout,
   newComposition: string[],
   registry: IUnitRegistry,
   cellSize: number
-): SpawnPosition[] | null {
+): AppliedAllyLayout {
   const matched = mapCompositionToLayout(savedLayout, newComposition, registry);
-  if (!matched) return null;
 
-  return matched.map((placement) => {
+  const unplaced: UnitType[] = [];
+  const positions: SpawnPosition[] = [];
+  for (let i = 0; i < matched.length; i++) {
+    const placement = matched[i];
+    if (!placement) {
+      unplaced.push(newComposition[i] as UnitType);
+      continue;
+    }
+
     // Convert grid coords back to pixel center
     const pixelPos = new Vector2(
       (placement.col + 0.5) * cellSize,
@@ -218,11 +227,13 @@ export function applyLayoutToComposition(
     const footprint = def?.gridFootprint || DEFAULT_GRID_FOOTPRINT;
     const snappedPos = snapFootprintToGrid(pixelPos, footprint, cellSize);
 
-    return {
+    positions.push({
       type: placement.type as UnitType,
       position: snappedPos,
-    };
-  });
+    });
+  }
+
+  return { positions, unplaced };
 }
 
 // =============================================================================
@@ -0,0 +1,103 @@
+/**
+ * Layout Persistence
+ *
+ * Saves the player's ally layout so deployment survives page reloads.
+ * Pure data functions - Godot-portable.
+ *
+ * Godot equivalent: Resource or ConfigFile data
+ */
+
+import type { IPersistenceAdapter } from '../../persistence/IPersistenceAdapter';
+import { loadMigratedSave, saveMigrations } from '../../persistence/SaveMigrations';
+import { ILogger, nullLogger } from '../../logging';
+import type { SavedAllyLayout } from './LayoutManager';
+
+/** Persistence key for the saved ally layout */
+export const ALLY_LAYOUT_SAVE_KEY = 'battle_ally_layout';
+const ALLY_LAYOUT_VERSION = 1;
+
+// Add migrations here when ALLY_LAYOUT_VERSION is bumped: { [fromVersion]: (data) => newData }
+saveMigrations.register(ALLY_LAYOUT_SAVE_KEY, ALLY_LAYOUT_VERSION);
+
+/**
+ * Serializable version of SavedAllyLayout for persistence.
+ */
+export interface SerializedAllyLayout extends SavedAllyLayout {
+  version: number;
+}
+
+/**
+ * Validates serialized layout structure.
+ */
+export function isValidSerializedAllyLayout(data: unknown): data is SerializedAllyLayout {
+  if (!data || typeof data !== 'object') return false;
+
+  const obj = data as Record<string, unknown>;
+  if (typeof obj.version !== 'number' || !Array.isArray(obj.placements)) return false;
+
+  return obj.placements.every((placement: unknown) => {
+    if (!placement || typeof placement !== 'object') return false;
+    const p = placement as Record<string, unknown>;
+    return typeof p.type === 'string' && Number.isFinite(p.col) && Number.isFinite(p.row);
+  });
+}
+
+/**
+ * Serialize a layout to JSON string.
+ */
+export function serializeAllyLayout(layout: SavedAllyLayout): string {
+  const data: SerializedAllyLayout = {
+    version: ALLY_LAYOUT_VERSION,
+    placements: layout.placements.map(({ type, col, row }) => ({ type, col, row })),
+  };
+  return JSON.stringify(data);
+}
+
+/**
+ * Deserialize a layout from JSON string.
+ * Returns null if there is no layout or it is invalid.
+ * @param data - JSON string to parse
+ * @param logger - Optional logger for parse errors (defaults to silent)
+ */
+export function deserializeAllyLayout(
+  data: string | null,
+  logger: ILogger = nullLogger
+): SavedAllyLayout | null {
+  if (!data) return null;
+
+  try {
+    const parsed: unknown = JSON.parse(data);
+    if (!isValidSerializedAllyLayout(parsed)) {
+      logger.warn('Invalid ally layout, using default formation');
+      return null;
+    }
+    return { placements: parsed.placements.map(({ type, col, row }) => ({ type, col, row })) };
+  } catch {
+    logger.warn('Failed to parse ally layout, using default formation');
+    return null;
+  }
+}
+
+/**
+ * Save the ally layout using a persistence adapter.
+ */
+export async function saveAllyLayout(
+  adapter: IPersistenceAdapter,
+  layout: SavedAllyLayout
+): Promise<void> {
+  await adapter.save(ALLY_LAYOUT_SAVE_KEY, serializeAllyLayout(layout));
+}
+
+/**
+ * Load the ally layout using a persistence adapter.
+ * Older layouts are migrated first (the original is kept as a backup).
+ * @param adapter - Persistence adapter for loading
+ * @param logger - Optional logger for parse and migration errors
+ */
+export async function loadAllyLayout(
+  adapter: IPersistenceAdapter,
+  logger?: ILogger
+): Promise<SavedAllyLayout | null> {
+  const data = await loadMigratedSave(adapter, ALLY_LAYOUT_SAVE_KEY, { logger });
+  return deserializeAllyLayout(data, logger);
+}
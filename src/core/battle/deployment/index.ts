@@ -8,9 +8,19 @@
 export type { WaveSpawnConfig, SpawnBounds } from './DeploymentService';
 export { spawnWaveUnits, resolveAllOverlaps, resolvePlayerOverlaps } from './DeploymentService';
 
-export type { SavedSquadPlacement, SavedAllyLayout } from './LayoutManager';
+export type { SavedSquadPlacement, SavedAllyLayout, AppliedAllyLayout } from './LayoutManager';
 export {
   captureAllyLayout,
   mapCompositionToLayout,
   applyLayoutToComposition,
 } from './LayoutManager';
+
+export type { SerializedAllyLayout } from './LayoutPersistence';
+export {
+  ALLY_LAYOUT_SAVE_KEY,
+  isValidSerializedAllyLayout,
+  serializeAllyLayout,
+  deserializeAllyLayout,
+  saveAllyLayout,
+  loadAllyLayout,
+} from './LayoutPersistence';
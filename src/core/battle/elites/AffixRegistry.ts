@@ -0,0 +1,50 @@
+/**
+ * Affix Registry
+ *
+ * Loads and provides access to elite affix definitions.
+ * Definitions are loaded from JSON data files.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import { IAffixRegistry } from './IAffixRegistry';
+import { AffixDefinition } from './types';
+
+/**
+ * Registry for affix definitions.
+ */
+export class AffixRegistry implements IAffixRegistry {
+  private definitions: Map<string, AffixDefinition> = new Map();
+
+  /**
+   * Registers an affix definition.
+   */
+  register(definition: AffixDefinition): void {
+    this.definitions.set(definition.id, definition);
+  }
+
+  /**
+   * Registers multiple definitions at once.
+   */
+  registerAll(definitions: AffixDefinition[]): void {
+    for (const def of definitions) {
+      this.register(def);
+    }
+  }
+
+  get(id: string): AffixDefinition {
+    const def = this.definitions.get(id);
+    if (!def) {
+      throw new Error(`Affix definition not found: ${id}`);
+    }
+    return def;
+  }
+
+  tryGet(id: string): AffixDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  getAll(): AffixDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Elite Squads
+ *
+ * Pure functions that promote enemy squads to elites or the boss and
+ * turn their rank and affixes into spawn-time upgrades.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import {
+  BOSS_AFFIX_COUNT,
+  BOSS_DAMAGE_BONUS,
+  BOSS_HEALTH_BONUS,
+  ELITE_AFFIX_COUNT,
+  ELITE_DAMAGE_BONUS,
+  ELITE_HEALTH_BONUS,
+  calculateEliteSquadCount,
+  isBossWave,
+} from '../BattleConfig';
+import { createActiveModifier } from '../modifiers/ModifierCalculator';
+import { ActiveModifier, Modifier } from '../modifiers/types';
+import type { UnitRenderData } from '../types';
+import { IUnitRegistry } from '../units/IUnitRegistry';
+import { SquadUpgrades } from '../upgrades/types';
+import { createSeededRandom } from '../../utils/Random';
+import { IAffixRegistry } from './IAffixRegistry';
+import { AffixDefinition, EliteSquad, EnemyRank } from './types';
+
+/**
+ * An enemy squad considered for promotion.
+ */
+export interface EliteCandidate {
+  type: string;
+  level: number;
+}
+
+/**
+ * Combined health of the boss squad on the field.
+ */
+export interface BossStatus {
+  /** Unit type ID */
+  type: string;
+
+  /** Affix IDs */
+  affixes: string[];
+
+  health: number;
+  maxHealth: number;
+}
+
+/**
+ * The unit fields the boss status is summed from.
+ */
+export interface BossStatusUnit extends Pick<UnitRenderData, 'type' | 'health' | 'elite'> {
+  stats: Pick<UnitRenderData['stats'], 'maxHealth'>;
+}
+
+/**
+ * Stat bonuses a rank gives on top of its affixes.
+ */
+export function getRankModifiers(rank: EnemyRank): Modifier[] {
+  const health = rank === 'boss' ? BOSS_HEALTH_BONUS : ELITE_HEALTH_BONUS;
+  const damage = rank === 'boss' ? BOSS_DAMAGE_BONUS : ELITE_DAMAGE_BONUS;
+  return [
+    { id: `${rank}_health`, target: 'maxHealth', type: 'percent', value: health },
+    { id: `${rank}_melee_damage`, target: 'melee.damage', type: 'percent', value: damage },
+    { id: `${rank}_ranged_damage`, target: 'ranged.damage', type: 'percent', value: damage },
+  ];
+}
+
+/**
+ * Upgrade effects an elite or boss squad spawns with: rank bonuses,
+ * affix modifiers and affix abilities. Unknown affixes are skipped.
+ *
+ * @param affixes - Affix definitions (null = rank bonuses only)
+ */
+export function computeEliteUpgrades(
+  elite: EliteSquad,
+  affixes: IAffixRegistry | null
+): SquadUpgrades {
+  const modifiers: ActiveModifier[] = getRankModifiers(elite.rank).map((mod) =>
+    createActiveModifier(mod, 'affix', elite.rank)
+  );
+  const grantedAbilities: string[] = [];
+
+  for (const affixId of elite.affixes) {
+    const affix = affixes?.tryGet(affixId);
+    if (!affix) continue;
+    for (const mod of affix.modifiers ?? []) {
+      modifiers.push(createActiveModifier(mod, 'affix', affix.id));
+    }
+    grantedAbilities.push(...(affix.abilities ?? []));
+  }
+
+  return { modifiers, grantedAbilities };
+}
+
+/**
+ * Picks distinct affixes at random.
+ */
+function pickAffixes(pool: AffixDefinition[], count: number, random: () => number): string[] {
+  const remaining = [...pool];
+  const picked: string[] = [];
+  while (picked.length < count && remaining.length > 0) {
+    const index = Math.floor(random() * remaining.length);
+    picked.push(remaining.splice(index, 1)[0].id);
+  }
+  return picked;
+}
+
+/**
+ * Chooses which enemy squads of a wave are promoted, deterministically per wave.
+ *
+ * On boss waves the highest-tier squad (then highest level, then first) becomes
+ * the boss. Elites are then picked at random from the remaining squads.
+ *
+ * @param squads - Enemy squads in spawn order
+ * @param waveNumber - Wave number (controls counts and seeding)
+ * @param registry - Unit registry for tiers
+ * @param affixes - Affixes that can roll (filtered by minWave)
+ * @returns Elite spec per squad (undefined = regular squad)
+ */
+export function rollEliteSquads(
+  squads: readonly EliteCandidate[],
+  waveNumber: number,
+  registry: IUnitRegistry,
+  affixes: readonly AffixDefinition[]
+): (EliteSquad | undefined)[] {
+  const result: (EliteSquad | undefined)[] = squads.map(() => undefined);
+  if (squads.length === 0) return result;
+
+  const random = createSeededRandom(waveNumber * 104729 + 4243);
+  const pool = affixes.filter((affix) => (affix.minWave ?? 1) <= waveNumber);
+
+  if (isBossWave(waveNumber)) {
+    let bossIndex = 0;
+    squads.forEach((squad, index) => {
+      const best = squads[bossIndex];
+      const tier = registry.tryGet(squad.type)?.tier ?? 0;
+      const bestTier = registry.tryGet(best.type)?.tier ?? 0;
+      if (tier > bestTier || (tier === bestTier && squad.level > best.level)) {
+        bossIndex = index;
+      }
+    });
+    result[bossIndex] = { rank: 'boss', affixes: pickAffixes(pool, BOSS_AFFIX_COUNT, random) };
+  }
+
+  const candidates = squads.map((_, index) => index).filter((index) => !result[index]);
+  const eliteCount = Math.min(calculateEliteSquadCount(waveNumber), candidates.length);
+  for (let i = 0; i < eliteCount; i++) {
+    const index = candidates.splice(Math.floor(random() * candidates.length), 1)[0];
+    result[index] = { rank: 'elite', affixes: pickAffixes(pool, ELITE_AFFIX_COUNT, random) };
+  }
+
+  return result;
+}
+
+/**
+ * Sums the health of the boss squad's units still on the field.
+ *
+ * @returns Boss status, or null if there is no boss
+ */
+export function getBossStatus(units: readonly BossStatusUnit[]): BossStatus | null {
+  let status: BossStatus | null = null;
+  for (const unit of units) {
+    if (unit.elite?.rank !== 'boss') continue;
+    status ??= { type: unit.type, affixes: unit.elite.affixes, health: 0, maxHealth: 0 };
+    status.health += Math.max(0, unit.health);
+    status.maxHealth += unit.stats.maxHealth;
+  }
+  return status;
+}
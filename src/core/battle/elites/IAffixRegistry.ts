@@ -0,0 +1,31 @@
+/**
+ * Affix Registry Interface
+ *
+ * Defines the contract for affix definition lookup.
+ * Implementations can be swapped for Godot (Resource-based).
+ *
+ * Godot-portable: Interface only, no dependencies.
+ */
+
+import { AffixDefinition } from './types';
+
+/**
+ * Interface for affix definition registry.
+ */
+export interface IAffixRegistry {
+  /**
+   * Gets an affix definition by ID.
+   * @throws Error if not found
+   */
+  get(id: string): AffixDefinition;
+
+  /**
+   * Gets an affix definition by ID, or undefined if not found.
+   */
+  tryGet(id: string): AffixDefinition | undefined;
+
+  /**
+   * Gets all affix definitions.
+   */
+  getAll(): AffixDefinition[];
+}
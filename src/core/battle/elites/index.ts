@@ -0,0 +1,10 @@
+/**
+ * Elite & Boss Squads
+ *
+ * Promoted enemy squads with rank bonuses and JSON-defined affixes.
+ */
+
+export * from './types';
+export type { IAffixRegistry } from './IAffixRegistry';
+export * from './AffixRegistry';
+export * from './EliteSquads';
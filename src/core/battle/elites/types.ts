@@ -0,0 +1,52 @@
+/**
+ * Elite & Boss Types
+ *
+ * Elite and boss enemy squads carry a rank (flat stat bonuses) and
+ * affixes loaded from JSON. Affixes are built from the existing
+ * modifier and ability systems, so they need no special combat code.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import type { Modifier } from '../modifiers/types';
+
+/**
+ * Rank of a promoted enemy squad. Regular squads have no rank.
+ */
+export type EnemyRank = 'elite' | 'boss';
+
+/**
+ * Affix Definition - loaded from JSON.
+ */
+export interface AffixDefinition {
+  /** Unique identifier, e.g., 'shielded' */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /** Description for tooltips */
+  description: string;
+
+  /** Permanent stat modifiers baked in at spawn */
+  modifiers?: Modifier[];
+
+  /** Ability IDs granted to every unit in the squad */
+  abilities?: string[];
+
+  /** Aura color key (see AFFIX_COLORS in the theme) */
+  colorKey: string;
+
+  /** First wave the affix can roll on (default 1) */
+  minWave?: number;
+}
+
+/**
+ * Rank and affixes of an elite or boss squad.
+ */
+export interface EliteSquad {
+  rank: EnemyRank;
+
+  /** Affix IDs */
+  affixes: string[];
+}
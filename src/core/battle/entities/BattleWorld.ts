@@ -13,17 +13,49 @@ import { Vector2 } from '../../physics/Vector2';
 import {
   ALLY_PUSH_MULTIPLIER,
   DAMAGE_NUMBER_DURATION,
+  DEFAULT_PERIODIC_INTERVAL,
   ENEMY_PUSH_MULTIPLIER,
+  MAX_ABILITY_CHAIN_DEPTH,
   PATH_BLOCK_RADIUS_MULTIPLIER,
   BASE_SEPARATION_FORCE,
+  GRID_TOTAL_ROWS,
   REFERENCE_ARENA_HEIGHT,
+  SPATIAL_INDEX_CELL_SIZE_CELLS,
   UNIT_SPACING,
   scaleValue,
 } from '../BattleConfig';
 import { EntityBounds } from '../BoundsEnforcer';
 import { isPlayerTeam } from '../TeamUtils';
-import { UnitTeam } from '../units/types';
 import {
+  BeamProjectile,
+  DamageProfile,
+  MovementLayer,
+  ProjectileBehavior,
+  UnitTeam,
+} from '../units/types';
+import type { BeamStyle } from '../types';
+import {
+  AbilityEffectContext,
+  AbilityUnitSpawner,
+  applyAbilityEffect,
+} from '../abilities/AbilityEffectResolver';
+import {
+  AbilityProcessor,
+  AbilityProcessorState,
+  AbilityUnitView,
+} from '../abilities/AbilityProcessor';
+import { AbilityTriggerContext, TriggerType } from '../abilities/types';
+import { pushCircleOutOfObstacle, segmentIntersectsObstacle } from '../obstacles/Obstacle';
+import { TerrainFeature, findTerrainAt, getTerrainGridBounds } from '../obstacles/Terrain';
+import { calculateCellSize, getFootprintGridPosition } from '../grid/GridManager';
+import type { GridBounds } from '../grid/GridTypes';
+import { FlowField } from '../pathfinding/FlowField';
+import { Pathfinder } from '../pathfinding/Pathfinder';
+import { SpatialGrid } from '../spatial/SpatialGrid';
+import { getThreat } from '../unit-behaviors/CombatSystem';
+import type { TargetTraits } from '../unit-behaviors/types';
+import {
+  DamagedEvent,
   IDamageable,
   IWorldEventEmitter,
   WorldEventType,
@@ -35,10 +67,19 @@ import {
 import { IBattleWorld } from './IBattleWorld';
 import { UnitEntity } from './UnitEntity';
 import { ProjectileEntity, createProjectile } from './ProjectileEntity';
+import { BeamEntity, createBeam } from './BeamEntity';
 import { ShockwaveEntity, createShockwave } from './ShockwaveEntity';
-import { DamageNumberEntity, DamageNumberData } from './DamageNumberEntity';
+import { DamageNumberEntity, DamageNumberData, DamageNumberKind } from './DamageNumberEntity';
 import { WorldEventEmitter } from './EventEmitter';
 
+/**
+ * Event listeners the world subscribes on each unit.
+ */
+interface UnitListeners {
+  killed: EventListener<EntityEventMap['killed']>;
+  damaged: EventListener<EntityEventMap['damaged']>;
+}
+
 /**
  * Battle world - manages all battle entities.
  * Implements IWorldEventEmitter to notify listeners when entities are added/removed.
@@ -46,53 +87,118 @@ import { WorldEventEmitter } from './EventEmitter';
 export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
   private units: UnitEntity[] = [];
   private projectiles: ProjectileEntity[] = [];
+  private beams: BeamEntity[] = [];
   private shockwaves: ShockwaveEntity[] = [];
   private damageNumbers: DamageNumberEntity[] = [];
   private nextProjectileId = 1;
+  private nextBeamId = 1;
   private nextShockwaveId = 1;
   private nextDamageNumberId = 1;
-  private nextModifierId = 1;
   private arenaBounds: EntityBounds | null = null;
   private worldEvents = new WorldEventEmitter();
   /** Track initial castle counts per team to detect when castles are destroyed */
   private initialCastleCounts = new Map<UnitTeam, number>();
   /** Store event listeners for proper cleanup (prevents memory leaks) */
-  private entityListeners = new Map<string, EventListener<EntityEventMap['killed']>>();
+  private entityListeners = new Map<string, UnitListeners>();
+  /** Ability processor (null = abilities disabled) */
+  private abilityProcessor: AbilityProcessor | null = null;
+  /** Spawner for spawn_unit ability effects (provided by the engine) */
+  private unitSpawner: AbilityUnitSpawner | null = null;
+  /** Elapsed battle time in seconds (ability cooldowns, modifier timestamps) */
+  private battleTime = 0;
+  /** Current nesting depth of ability triggers (guards against trigger loops) */
+  private abilityChainDepth = 0;
+  /** Random number generator for all gameplay randomness (seeded by the engine) */
+  private random: () => number = Math.random;
+  /** Terrain features in no man's land (static for the whole battle) */
+  private terrain: TerrainFeature[] = [];
+  /** Grid cell size the terrain was placed with */
+  private terrainCellSize = 0;
+  /** Grid cell size for the current arena bounds (0 before bounds are set) */
+  private cellSize = 0;
+  /** Flow field pathfinding around castles and walls */
+  private pathfinder = new Pathfinder({
+    getCellSize: () => this.cellSize,
+    getBlockedBounds: () => this.getBlockedGridBounds(),
+    getOccupiedPositions: (team) =>
+      this.units
+        .filter((u) => u.team === team && !u.isStationary && !u.isDestroyed())
+        .map((u) => u.position),
+  });
+  /** Units bucketed by position for neighbour queries (rebuilt each tick) */
+  private spatialIndex = this.createSpatialIndex();
+  /** Whether the spatial index matches unit positions (false between ticks) */
+  private spatialIndexFresh = false;
+  /** Damage per volley aimed at each target (built on demand, once per tick) */
+  private incomingDamage: Map<IDamageable, number> | null = null;
 
   // === Entity Management ===
 
   /**
    * Add a unit to the world.
    * Emits 'entity_added' world event.
-   * Subscribes to 'killed' event for death handling:
-   * - Mobile units: Clear linked modifiers from other units
-   * - Stationary units (castles): Spawn shockwave on death, track castle counts
+   * Subscribes to 'killed' and 'damaged' events for death handling and ability triggers:
+   * - Clear linked modifiers from other units on death
+   * - Stationary units (castles): Track castle counts, spawn a shockwave on death
+   *   when abilities are disabled (otherwise their death_shockwave ability does)
+   * - Fire on_death/on_kill/on_take_damage/on_hit abilities, then on_spawn
    */
   addUnit(unit: UnitEntity): void {
     unit.setWorld(this);
     unit.init();
     this.units.push(unit);
+    if (this.spatialIndexFresh) this.spatialIndex.insert(unit);
     this.worldEvents.emitWorld({ type: 'entity_added', entity: unit });
 
     // Track initial castle count for stationary units (castles)
     if (unit.isStationary) {
       const currentCount = this.initialCastleCounts.get(unit.team) ?? 0;
       this.initialCastleCounts.set(unit.team, currentCount + 1);
+      this.pathfinder.invalidate();
     }
 
-    // Subscribe to unit death
-    // Store listener reference for proper cleanup (prevents memory leaks)
+    // Subscribe to unit death and damage
+    // Store listener references for proper cleanup (prevents memory leaks)
     const killedListener: EventListener<KilledEvent> = (event: KilledEvent) => {
       // Clear linked modifiers (melee engagement debuffs)
       this.clearModifiersLinkedToUnit(event.entity.id);
 
-      // Stationary units (castles) spawn shockwave on death
-      if (unit.isStationary) {
+      // Without an ability processor, castles still collapse with a shockwave
+      if (!this.abilityProcessor && unit.isStationary) {
         this.spawnShockwave(event.entity.position.clone(), unit.team);
       }
+
+      // Death abilities (e.g. castle death shockwave), then the killer's on_kill
+      const killer = event.killer ? this.getUnitById(event.killer.id) : undefined;
+      this.triggerAbilities(unit, 'on_death', { otherUnitId: killer?.id });
+      if (killer) {
+        this.triggerAbilities(killer, 'on_kill', {
+          otherUnitId: unit.id,
+          killedUnitId: unit.id,
+        });
+      }
     };
-    this.entityListeners.set(unit.id, killedListener);
+    const damagedListener: EventListener<DamagedEvent> = (event: DamagedEvent) => {
+      if (event.amount <= 0) return;
+      const attacker = event.attacker ? this.getUnitById(event.attacker.id) : undefined;
+      this.triggerAbilities(unit, 'on_take_damage', {
+        otherUnitId: attacker?.id,
+        damageAmount: event.amount,
+      });
+      // Burns, ability damage and tramples are not hits, so they can't re-proc on_hit effects
+      if (attacker && !event.indirect) {
+        this.triggerAbilities(attacker, 'on_hit', {
+          otherUnitId: unit.id,
+          damageAmount: event.amount,
+        });
+      }
+    };
+    this.entityListeners.set(unit.id, { killed: killedListener, damaged: damagedListener });
     unit.on('killed', killedListener);
+    unit.on('damaged', damagedListener);
+
+    this.initializeAbilityCooldowns(unit);
+    this.triggerAbilities(unit, 'on_spawn');
   }
 
   /**
@@ -106,6 +212,17 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
     this.worldEvents.emitWorld({ type: 'entity_added', entity: projectile });
   }
 
+  /**
+   * Add a beam to the world.
+   * Emits 'entity_added' world event.
+   */
+  addBeam(beam: BeamEntity): void {
+    beam.setWorld(this);
+    beam.init();
+    this.beams.push(beam);
+    this.worldEvents.emitWorld({ type: 'entity_added', entity: beam });
+  }
+
   /**
    * Add a shockwave to the world.
    */
@@ -158,14 +275,21 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
    * @param position - Position to spawn the number
    * @param amount - Damage amount to display
    * @param sourceTeam - Team that dealt the damage (for color)
+   * @param kind - Damage or healing (default damage)
    */
-  spawnDamageNumber(position: Vector2, amount: number, sourceTeam: UnitTeam): void {
+  spawnDamageNumber(
+    position: Vector2,
+    amount: number,
+    sourceTeam: UnitTeam,
+    kind: DamageNumberKind = 'damage'
+  ): void {
     const id = `dmgnum_${this.nextDamageNumberId++}`;
     const arenaHeight = this.arenaBounds?.height ?? REFERENCE_ARENA_HEIGHT;
 
     const data: DamageNumberData = {
       amount,
       sourceTeam,
+      kind,
       lifetime: DAMAGE_NUMBER_DURATION,
       maxLifetime: DAMAGE_NUMBER_DURATION,
       startY: position.y,
@@ -181,9 +305,10 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
    * Prevents memory leaks from retained event listeners.
    */
   private cleanupEntityListener(entity: UnitEntity): void {
-    const listener = this.entityListeners.get(entity.id);
-    if (listener) {
-      entity.off('killed', listener);
+    const listeners = this.entityListeners.get(entity.id);
+    if (listeners) {
+      entity.off('killed', listeners.killed);
+      entity.off('damaged', listeners.damaged);
       this.entityListeners.delete(entity.id);
     }
   }
@@ -200,6 +325,8 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
       unit.destroy();
       unit.setWorld(null);
       this.units.splice(index, 1);
+      this.spatialIndex.remove(unit);
+      if (unit.isStationary) this.pathfinder.invalidate();
     }
   }
 
@@ -220,6 +347,11 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
       proj.destroy();
       proj.setWorld(null);
     }
+    for (const beam of this.beams) {
+      this.worldEvents.emitWorld({ type: 'entity_removed', entity: beam });
+      beam.destroy();
+      beam.setWorld(null);
+    }
     for (const shockwave of this.shockwaves) {
       this.worldEvents.emitWorld({ type: 'entity_removed', entity: shockwave });
       shockwave.destroy();
@@ -231,14 +363,22 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
     }
     this.units = [];
     this.projectiles = [];
+    this.beams = [];
     this.shockwaves = [];
     this.damageNumbers = [];
     this.nextProjectileId = 1;
+    this.nextBeamId = 1;
     this.nextShockwaveId = 1;
     this.nextDamageNumberId = 1;
-    this.nextModifierId = 1;
     this.initialCastleCounts.clear();
     this.entityListeners.clear();
+    this.battleTime = 0;
+    this.abilityChainDepth = 0;
+    this.terrain = [];
+    this.terrainCellSize = 0;
+    this.pathfinder.invalidate();
+    this.spatialIndex.clear();
+    this.spatialIndexFresh = false;
   }
 
   // === Main Update Loop ===
@@ -248,48 +388,251 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
    * Godot: Called from main scene's _process(delta)
    */
   update(delta: number): void {
+    this.battleTime += delta;
+    this.pathfinder.refresh(this.battleTime);
+    this.rebuildSpatialIndex();
+    this.incomingDamage = null;
+
     // Phase 1: Update all units (targeting, combat, movement)
     // Note: stationary units (castles) are included but their update() is mostly no-op
     for (const unit of this.units) {
       unit.update(delta);
+      this.spatialIndex.update(unit);
     }
 
-    // Phase 2: Apply separation between units
+    // Phase 2: Apply separation between units, giants trample what they touch,
+    // then keep everyone out of walls
     this.applySeparation(delta);
+    this.applyTrample(delta);
+    this.applyTerrainCollision();
 
     // Phase 3: Update projectiles
     for (const proj of this.projectiles) {
       proj.update(delta);
     }
 
-    // Phase 4: Update shockwaves (expansion and debuff application)
+    // Phase 3.5: Update beams (after projectiles, so chain arcs hit the tick they spawn)
+    for (const beam of this.beams) {
+      beam.update(delta);
+    }
+
+    // Phase 4: Update abilities (cooldowns, periodic and health threshold triggers)
+    this.updateAbilities(delta);
+
+    // Abilities can move or spawn units, so re-index before the shockwave ring checks
+    this.rebuildSpatialIndex();
+
+    // Phase 5: Update shockwaves (expansion and debuff application)
     for (const shockwave of this.shockwaves) {
       shockwave.update(delta);
     }
 
-    // Phase 5: Update damage numbers (float and fade)
+    // Phase 6: Update damage numbers (float and fade)
     for (const damageNumber of this.damageNumbers) {
       damageNumber.update(delta);
     }
 
-    // Phase 6: Remove destroyed entities
+    // Phase 7: Remove destroyed entities
     this.removeDestroyedEntities();
+
+    // Positions may change between ticks (drag, replay setup), so queries re-index first
+    this.spatialIndexFresh = false;
+  }
+
+  // === Abilities ===
+
+  /**
+   * Enable the ability system for this world.
+   * Without a processor, units' abilities never trigger.
+   */
+  setAbilityProcessor(processor: AbilityProcessor | null): void {
+    this.abilityProcessor = processor;
+  }
+
+  /**
+   * Set the callback used by spawn_unit ability effects.
+   */
+  setUnitSpawner(spawner: AbilityUnitSpawner | null): void {
+    this.unitSpawner = spawner;
+  }
+
+  /**
+   * Get elapsed battle time in seconds.
+   */
+  getBattleTime(): number {
+    return this.battleTime;
+  }
+
+  /**
+   * Fire on_battle_start abilities for all living units.
+   * Called by the engine when the battle begins.
+   */
+  triggerBattleStart(): void {
+    for (const unit of [...this.units]) {
+      if (unit.isDestroyed() || unit.isDying) continue;
+      this.triggerAbilities(unit, 'on_battle_start');
+    }
+  }
+
+  /**
+   * Start periodic abilities on their interval so they don't all fire on the first tick.
+   */
+  private initializeAbilityCooldowns(unit: UnitEntity): void {
+    const processor = this.abilityProcessor;
+    const state = unit.abilityState;
+    if (!processor || !state) return;
+
+    for (const abilityId of state.abilityIds) {
+      const ability = processor.getAbility(abilityId);
+      if (ability?.trigger.type === 'periodic') {
+        const interval = ability.trigger.interval ?? DEFAULT_PERIODIC_INTERVAL;
+        state.cooldowns = processor.setCooldown(state.cooldowns, abilityId, interval);
+      }
+    }
+  }
+
+  /**
+   * Tick ability cooldowns and fire time/health driven triggers.
+   */
+  private updateAbilities(delta: number): void {
+    const processor = this.abilityProcessor;
+    if (!processor) return;
+
+    for (const unit of [...this.units]) {
+      const state = unit.abilityState;
+      if (!state || unit.isDestroyed() || unit.isDying) continue;
+
+      state.cooldowns = processor.tickCooldowns(state.cooldowns, delta);
+
+      // Re-arm threshold abilities whose condition no longer holds
+      if (state.latched.length > 0) {
+        const view = this.toAbilityUnitView(unit);
+        state.latched = state.latched.filter((abilityId) => {
+          const ability = processor.getAbility(abilityId);
+          return ability !== undefined && processor.isHealthConditionMet(ability, view);
+        });
+      }
+
+      this.triggerAbilities(unit, 'periodic');
+      this.triggerAbilities(unit, 'health_below');
+      this.triggerAbilities(unit, 'health_above');
+    }
+  }
+
+  /**
+   * Process a trigger for a unit and apply the effects of every ability that fires.
+   * Each fired ability then fires on_ability_trigger for chaining.
+   */
+  private triggerAbilities(
+    unit: UnitEntity,
+    triggerType: TriggerType,
+    context: Partial<AbilityTriggerContext> = {}
+  ): void {
+    const processor = this.abilityProcessor;
+    const state = unit.abilityState;
+    if (!processor || !state || state.abilityIds.length === 0) return;
+    if (this.abilityChainDepth >= MAX_ABILITY_CHAIN_DEPTH) return;
+
+    // Latched threshold abilities are treated as on cooldown
+    const cooldowns = { ...state.cooldowns };
+    for (const abilityId of state.latched) {
+      cooldowns[abilityId] = Infinity;
+    }
+
+    const results = processor.processTrigger(
+      unit.id,
+      state.abilityIds,
+      cooldowns,
+      triggerType,
+      context,
+      this.createAbilityProcessorState(unit)
+    );
+    if (results.length === 0) return;
+
+    this.abilityChainDepth++;
+    try {
+      const effectContext = this.createAbilityEffectContext();
+      for (const result of results) {
+        const abilityId = result.abilityId;
+        const ability = abilityId ? processor.getAbility(abilityId) : undefined;
+        if (!abilityId || !ability) continue;
+
+        let cooldown = result.cooldown ?? 0;
+        if (ability.trigger.type === 'periodic') {
+          cooldown = Math.max(cooldown, ability.trigger.interval ?? DEFAULT_PERIODIC_INTERVAL);
+        }
+        if (cooldown > 0) {
+          state.cooldowns = processor.setCooldown(state.cooldowns, abilityId, cooldown);
+        }
+        if (ability.trigger.type === 'health_below' || ability.trigger.type === 'health_above') {
+          state.latched.push(abilityId);
+        }
+
+        for (const effect of result.effects) {
+          applyAbilityEffect(effect, unit, abilityId, effectContext);
+        }
+
+        this.triggerAbilities(unit, 'on_ability_trigger', { triggeredAbilityId: abilityId });
+      }
+    } finally {
+      this.abilityChainDepth--;
+    }
+  }
+
+  /**
+   * Snapshot of living units for ability target resolution.
+   * The source unit is always included so on_death abilities can resolve.
+   */
+  private createAbilityProcessorState(source: UnitEntity): AbilityProcessorState {
+    const units: AbilityUnitView[] = [];
+    for (const unit of this.units) {
+      if (unit !== source && (unit.isDestroyed() || unit.health <= 0)) continue;
+      units.push(this.toAbilityUnitView(unit));
+    }
+    return {
+      units,
+      battleTime: this.battleTime,
+      arenaHeight: this.arenaBounds?.height ?? REFERENCE_ARENA_HEIGHT,
+    };
+  }
+
+  private toAbilityUnitView(unit: UnitEntity): AbilityUnitView {
+    return {
+      id: unit.id,
+      team: unit.team,
+      position: unit.position,
+      currentHealth: unit.health,
+      computedStats: { maxHealth: unit.stats.maxHealth },
+    };
+  }
+
+  private createAbilityEffectContext(): AbilityEffectContext {
+    return {
+      arenaHeight: this.arenaBounds?.height ?? REFERENCE_ARENA_HEIGHT,
+      arenaBounds: this.arenaBounds,
+      battleTime: this.battleTime,
+      getUnitById: (id) => this.getUnitById(id),
+      spawnShockwave: (position, sourceTeam) => this.spawnShockwave(position, sourceTeam),
+      spawnUnit: this.unitSpawner,
+    };
   }
 
   private applySeparation(delta: number): void {
     const arenaHeight = this.arenaBounds?.height ?? REFERENCE_ARENA_HEIGHT;
     const separationForce = scaleValue(BASE_SEPARATION_FORCE, arenaHeight);
 
-    for (let i = 0; i < this.units.length; i++) {
-      const unitA = this.units[i];
-      if (unitA.isDestroyed()) continue;
+    // Each pair once, in world order; the index limits B to units that can overlap A
+    for (const unitA of this.units) {
+      // Skip collision with stationary units (castles) - units can move through them
+      if (unitA.isDestroyed() || unitA.isStationary) continue;
 
-      for (let j = i + 1; j < this.units.length; j++) {
-        const unitB = this.units[j];
-        if (unitB.isDestroyed()) continue;
-
-        // Skip collision with stationary units (castles) - units can move through them
-        if (unitA.isStationary || unitB.isStationary) continue;
+      const orderA = this.spatialIndex.getOrder(unitA);
+      const reach = (unitA.getCollisionSize() + this.spatialIndex.maxExtent) * UNIT_SPACING;
+      for (const unitB of this.spatialIndex.queryRadius(unitA.position, reach)) {
+        if (this.spatialIndex.getOrder(unitB) <= orderA) continue;
+        if (unitB.isDestroyed() || unitB.isStationary) continue;
+        // Air units fly over ground units; only units on the same layer collide
+        if (unitA.movementLayer !== unitB.movementLayer) continue;
 
         const diff = unitA.position.subtract(unitB.position);
         const dist = diff.magnitude();
@@ -304,8 +647,59 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
           const pushMultiplier =
             unitA.team === unitB.team ? ALLY_PUSH_MULTIPLIER : ENEMY_PUSH_MULTIPLIER;
 
-          unitA.position = unitA.position.add(pushDir.multiply(pushAmount * pushMultiplier));
-          unitB.position = unitB.position.subtract(pushDir.multiply(pushAmount * pushMultiplier));
+          // Squads cannot shove a giant; the smaller unit takes the whole push
+          const shareA = unitA.isGiant === unitB.isGiant ? 1 : unitA.isGiant ? 0 : 2;
+          const shareB = 2 - shareA;
+
+          unitA.position = unitA.position.add(
+            pushDir.multiply(pushAmount * pushMultiplier * shareA)
+          );
+          unitB.position = unitB.position.subtract(
+            pushDir.multiply(pushAmount * pushMultiplier * shareB)
+          );
+          this.spatialIndex.update(unitA);
+          this.spatialIndex.update(unitB);
+        }
+      }
+    }
+  }
+
+  /**
+   * Let giants trample the enemies they are touching.
+   */
+  private applyTrample(delta: number): void {
+    for (const giant of this.units) {
+      if (!giant.isGiant || giant.isDestroyed()) continue;
+
+      const reach = (giant.getCollisionSize() + this.spatialIndex.maxExtent) * UNIT_SPACING;
+      const enemies = this.getEnemiesNear(giant.team, giant.position, reach);
+      for (const unit of giant.trample(delta, enemies)) {
+        this.spatialIndex.update(unit);
+      }
+    }
+  }
+
+  /**
+   * Push mobile ground units out of terrain that blocks movement.
+   * Avoidance steers units around walls; this stops them being pushed through.
+   * Air units fly over walls.
+   */
+  private applyTerrainCollision(): void {
+    const walls = this.terrain.filter((feature) => feature.blocksMovement);
+    if (walls.length === 0) return;
+
+    for (const unit of this.units) {
+      if (unit.isDestroyed() || unit.isStationary || unit.isFlying) continue;
+      for (const wall of walls) {
+        const corrected = pushCircleOutOfObstacle(
+          unit.position,
+          unit.getCollisionSize(),
+          wall,
+          this.terrainCellSize
+        );
+        if (corrected) {
+          unit.position = corrected;
+          this.spatialIndex.update(unit);
         }
       }
     }
@@ -322,6 +716,8 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
         // Then emit world event so subscribers see entity after its final event
         this.worldEvents.emitWorld({ type: 'entity_removed', entity: unit });
         unit.setWorld(null);
+        // A fallen castle opens up the grid
+        if (unit.isStationary) this.pathfinder.invalidate();
         return false;
       }
       return true;
@@ -338,6 +734,17 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
       return true;
     });
 
+    // Remove destroyed beams
+    this.beams = this.beams.filter((beam) => {
+      if (beam.isDestroyed()) {
+        beam.destroy();
+        this.worldEvents.emitWorld({ type: 'entity_removed', entity: beam });
+        beam.setWorld(null);
+        return false;
+      }
+      return true;
+    });
+
     // Remove destroyed shockwaves
     this.shockwaves = this.shockwaves.filter((shockwave) => {
       if (shockwave.isDestroyed()) {
@@ -380,6 +787,10 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
     );
   }
 
+  getSquadUnits(squadId: string): UnitEntity[] {
+    return this.units.filter((u) => u.squadId === squadId && !u.isDestroyed() && u.health > 0);
+  }
+
   getAlliesOf(unit: UnitEntity): UnitEntity[] {
     return this.units.filter(
       (u) =>
@@ -451,7 +862,119 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
     return this.units.filter((u) => u.team !== entity.team && !u.isDestroyed() && u.health > 0);
   }
 
+  // === Spatial Queries ===
+
+  getUnitsNear(position: Vector2, radius: number): UnitEntity[] {
+    this.ensureSpatialIndex();
+    return this.spatialIndex
+      .queryRadius(position, radius + this.spatialIndex.maxExtent)
+      .filter(
+        (u) =>
+          !u.isDestroyed() && u.health > 0 && position.distanceTo(u.position) <= radius + u.size
+      );
+  }
+
+  getAlliesNear(unit: UnitEntity, radius: number): UnitEntity[] {
+    this.ensureSpatialIndex();
+    return this.spatialIndex
+      .queryRadius(unit.position, radius + this.spatialIndex.maxExtent)
+      .filter(
+        (u) =>
+          u.team === unit.team &&
+          u.id !== unit.id &&
+          !u.isDestroyed() &&
+          u.health > 0 &&
+          !u.isStationary &&
+          unit.position.distanceTo(u.position) <= radius + u.getCollisionSize()
+      );
+  }
+
+  findNearestEnemy(
+    team: UnitTeam,
+    position: Vector2,
+    maxDistance: number = Infinity,
+    layers?: readonly MovementLayer[]
+  ): IDamageable | null {
+    this.ensureSpatialIndex();
+    return this.spatialIndex.findNearest(
+      position,
+      maxDistance,
+      (u) =>
+        u.team !== team &&
+        !u.isDestroyed() &&
+        u.health > 0 &&
+        (!layers || layers.includes(u.movementLayer))
+    );
+  }
+
+  getEnemiesNear(team: UnitTeam, position: Vector2, radius: number): UnitEntity[] {
+    return this.getUnitsNear(position, radius).filter(
+      (u) => u.team !== team && position.distanceTo(u.position) <= radius
+    );
+  }
+
+  // === Targeting ===
+
+  /**
+   * Describe a target for an attacker's priority rule.
+   * Incoming damage is a snapshot from the first query each tick, and leaves
+   * out the attacker's own shots.
+   */
+  getTargetTraits(target: IDamageable, attacker: UnitEntity): TargetTraits {
+    const unit = target instanceof UnitEntity ? target : null;
+    this.incomingDamage ??= this.buildIncomingDamage();
+    let incomingDamage = this.incomingDamage.get(target) ?? 0;
+    if (attacker.target === target) {
+      incomingDamage -= getVolleyDamage(attacker);
+    }
+
+    return {
+      category: unit?.category,
+      isCastle: unit?.isStationary ?? false,
+      threat: unit ? getThreat(unit.stats) : 0,
+      incomingDamage,
+    };
+  }
+
+  private buildIncomingDamage(): Map<IDamageable, number> {
+    const incoming = new Map<IDamageable, number>();
+    for (const unit of this.units) {
+      if (!unit.target || unit.isDestroyed() || unit.health <= 0) continue;
+      incoming.set(unit.target, (incoming.get(unit.target) ?? 0) + getVolleyDamage(unit));
+    }
+    return incoming;
+  }
+
+  private createSpatialIndex(): SpatialGrid<UnitEntity> {
+    const cellSize = this.cellSize > 0 ? this.cellSize : REFERENCE_ARENA_HEIGHT / GRID_TOTAL_ROWS;
+    return new SpatialGrid<UnitEntity>(cellSize * SPATIAL_INDEX_CELL_SIZE_CELLS, (u) =>
+      Math.max(u.size, u.getCollisionSize())
+    );
+  }
+
+  /**
+   * Re-bucket every unit. Order follows the unit list, so queries return
+   * units in the same order as a scan of getUnits().
+   */
+  private rebuildSpatialIndex(): void {
+    this.spatialIndex.rebuild(this.units);
+    this.spatialIndexFresh = true;
+  }
+
+  private ensureSpatialIndex(): void {
+    if (!this.spatialIndexFresh) this.rebuildSpatialIndex();
+  }
+
   isPathBlocked(from: Vector2, to: Vector2, excludeUnit: UnitEntity): boolean {
+    for (const feature of this.terrain) {
+      if (
+        feature.blocksMovement &&
+        segmentIntersectsObstacle(from, to, feature, this.terrainCellSize)
+      ) {
+        return true;
+      }
+    }
+
     const allies = this.getAlliesOf(excludeUnit);
 
     for (const ally of allies) {
@@ -486,7 +1009,10 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
     sourceUnit: UnitEntity | null,
     color: string,
     projectileSpeed?: number,
-    splashRadius?: number
+    splashRadius?: number,
+    damageProfile?: DamageProfile,
+    behavior?: ProjectileBehavior,
+    homingTarget?: IDamageable
   ): void {
     const id = `proj_${this.nextProjectileId++}`;
     const arenaHeight = this.arenaBounds?.height ?? REFERENCE_ARENA_HEIGHT;
@@ -500,15 +1026,115 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
       color,
       arenaHeight,
       projectileSpeed,
-      splashRadius ?? 0
+      splashRadius ?? 0,
+      damageProfile,
+      behavior,
+      homingTarget
     );
     this.addProjectile(projectile);
   }
 
+  spawnBeam(
+    origin: Vector2,
+    target: IDamageable,
+    damage: number,
+    sourceTeam: UnitTeam,
+    sourceUnit: UnitEntity | null,
+    color: string,
+    style?: BeamStyle,
+    beam?: BeamProjectile,
+    range?: number,
+    damageProfile?: DamageProfile
+  ): void {
+    const id = `beam_${this.nextBeamId++}`;
+    this.addBeam(
+      createBeam(
+        id,
+        origin,
+        target,
+        damage,
+        sourceTeam,
+        sourceUnit,
+        color,
+        style,
+        beam,
+        range,
+        damageProfile
+      )
+    );
+  }
+
+  // === Terrain ===
+
+  /**
+   * Replace the battle's terrain features.
+   * @param terrain - Features placed with the given cell size
+   * @param cellSize - Grid cell size in pixels
+   */
+  setTerrain(terrain: TerrainFeature[], cellSize: number): void {
+    this.terrain = terrain;
+    this.terrainCellSize = cellSize;
+    this.pathfinder.invalidate();
+  }
+
+  getTerrain(): readonly TerrainFeature[] {
+    return this.terrain;
+  }
+
+  getTerrainAt(position: Vector2): TerrainFeature | null {
+    if (this.terrain.length === 0) return null;
+    return findTerrainAt(position, this.terrain, this.terrainCellSize);
+  }
+
+  isLineOfFireBlocked(from: Vector2, to: Vector2): boolean {
+    return this.terrain.some(
+      (feature) =>
+        feature.blocksProjectiles &&
+        segmentIntersectsObstacle(from, to, feature, this.terrainCellSize)
+    );
+  }
+
+  // === Pathfinding ===
+
+  getPathDirection(team: UnitTeam, position: Vector2, goal: Vector2 | null): Vector2 | null {
+    return this.pathfinder.getDirection(team, position, goal);
+  }
+
+  /**
+   * Flow field a team follows toward a goal (for the debug overlay).
+   * @param goal - Pixel position, or null for the forward march
+   */
+  getFlowField(team: UnitTeam, goal: Vector2 | null = null): FlowField | null {
+    return this.pathfinder.getFlowField(team, goal);
+  }
+
+  /**
+   * Grid areas units path around: living castles and walls.
+   */
+  private getBlockedGridBounds(): GridBounds[] {
+    const bounds: GridBounds[] = [];
+    for (const castle of this.getStationaryUnits()) {
+      if (castle.isDestroyed() || castle.health <= 0) continue;
+      const footprint = castle.gridFootprint;
+      bounds.push({
+        ...getFootprintGridPosition(castle.position, footprint, this.cellSize),
+        ...footprint,
+      });
+    }
+    for (const feature of this.terrain) {
+      if (feature.blocksMovement) bounds.push(getTerrainGridBounds(feature.definition));
+    }
+    return bounds;
+  }
+
   // === Bounds ===
 
   setArenaBounds(bounds: EntityBounds | null): void {
     this.arenaBounds = bounds;
+    this.cellSize = bounds ? calculateCellSize(bounds.width, bounds.height) : 0;
+    this.pathfinder.invalidate();
+    this.spatialIndex = this.createSpatialIndex();
+    this.spatialIndexFresh = false;
   }
 
   getArenaBounds(): EntityBounds | null {
@@ -521,6 +1147,10 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
     return this.projectiles;
   }
 
+  getBeams(): readonly BeamEntity[] {
+    return this.beams;
+  }
+
   getShockwaves(): readonly ShockwaveEntity[] {
     return this.shockwaves;
   }
@@ -569,16 +1199,17 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
 
   /**
    * Check if battle is over.
-   * Win condition: A side loses when ALL their mobile units are destroyed.
+   * Win condition: A side loses when ALL their armed mobile units are destroyed.
    * Stationary units (castles) don't count for victory - they're objectives, not win conditions.
+   * Unarmed support units can't deal damage, so they can't hold the field on their own.
    */
   isBattleOver(): { over: boolean; winner: UnitTeam | null } {
-    const playerMobileUnitsAlive = this.getMobilePlayerUnits().length > 0;
-    const enemyMobileUnitsAlive = this.getMobileEnemyUnits().length > 0;
+    const playerArmedUnitsAlive = this.getMobilePlayerUnits().some((u) => u.hasWeapon);
+    const enemyArmedUnitsAlive = this.getMobileEnemyUnits().some((u) => u.hasWeapon);
 
-    // A side loses when they have no mobile units remaining (castles don't matter)
-    const playerLost = !playerMobileUnitsAlive;
-    const enemyLost = !enemyMobileUnitsAlive;
+    // A side loses when they have no armed mobile units remaining (castles don't matter)
+    const playerLost = !playerArmedUnitsAlive;
+    const enemyLost = !enemyArmedUnitsAlive;
 
     if (playerLost && enemyLost) {
       return { over: true, winner: null }; // Draw
@@ -593,14 +1224,18 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
     return { over: false, winner: null };
   }
 
-  // === ID Generation ===
+  // === Randomness ===
 
   /**
-   * Generate a unique modifier ID.
-   * Used by ShockwaveEntity for shockwave debuffs.
+   * Set the random number generator used for gameplay randomness.
+   * Pass a seeded generator (createSeededRandom) for reproducible battles.
    */
-  getNextModifierId(): number {
-    return this.nextModifierId++;
+  setRandom(random: () => number): void {
+    this.random = random;
+  }
+
+  getRandom(): () => number {
+    return this.random;
   }
 
   /**
@@ -632,3 +1267,10 @@ export class BattleWorld implements IBattleWorld, IWorldEventEmitter {
     this.worldEvents.offWorld(event, listener);
   }
 }
+
+/**
+ * Damage of one of a unit's attacks (ranged, else melee).
+ */
+function getVolleyDamage(unit: UnitEntity): number {
+  return (unit.stats.ranged ?? unit.stats.melee)?.damage ?? 0;
+}
@@ -0,0 +1,258 @@
+/**
+ * Beam Entity
+ *
+ * A hitscan beam between two points. Instant beams (and the arcs of
+ * chaining projectiles) hit once and fade out. Continuous beams stay locked
+ * on their target, pulsing damage that ramps up the longer they burn, until
+ * their duration runs out or the target dies, leaves range or ducks behind
+ * a wall.
+ *
+ * Godot equivalent:
+ * - class_name Beam extends Line2D
+ * - _process(delta) handles damage pulses and fading
+ */
+
+import { Vector2 } from '../../physics/Vector2';
+import { BEAM_FADE_DURATION, BEAM_MAX_RAMP, BEAM_TICK_INTERVAL } from '../BattleConfig';
+import { EntityKind, IDamageable } from '../IEntity';
+import { BeamProjectile } from '../units/types';
+import { BeamRenderData, BeamStyle, DamageProfile, UnitTeam } from '../types';
+import { BaseEntity } from './BaseEntity';
+import { IBattleWorld } from './IBattleWorld';
+import { UnitEntity } from './UnitEntity';
+import { getBeamPulseCount } from '../unit-behaviors/CombatSystem';
+
+/**
+ * Beam data.
+ */
+export interface BeamData {
+  target: IDamageable;
+  /** Last known target position (where the beam ends) */
+  end: Vector2;
+  /** Instant damage, or base damage spread over a continuous beam's pulses */
+  damage: number;
+  sourceTeam: UnitTeam;
+  sourceUnit: UnitEntity | null;
+  color: string;
+  style: BeamStyle;
+  /** Seconds the beam stays on (0 = instant) */
+  duration: number;
+  /** Damage multiplier gained per second on target */
+  rampRate: number;
+  /** Cap on the damage multiplier */
+  maxRamp: number;
+  /** Attack range a continuous beam breaks beyond (0 = never breaks on range) */
+  range: number;
+  /** Damage type and armor penetration, from the firing attack mode */
+  damageProfile: DamageProfile;
+  /** Seconds spent firing */
+  elapsed: number;
+  /** Damage pulses dealt so far */
+  pulses: number;
+  /** Seconds until the next pulse */
+  pulseTimer: number;
+  /** Whether the beam still deals damage (false while fading out) */
+  firing: boolean;
+  /** Seconds of fade-out left once firing stops */
+  fadeTimer: number;
+}
+
+/**
+ * Beam entity with damage pulses and fade-out.
+ */
+export class BeamEntity extends BaseEntity {
+  public readonly kind: EntityKind = 'beam';
+  public data: BeamData;
+
+  constructor(id: string, position: Vector2, data: BeamData) {
+    super(id, position);
+    this.data = data;
+  }
+
+  // Accessors
+  get target(): IDamageable {
+    return this.data.target;
+  }
+  get end(): Vector2 {
+    return this.data.end;
+  }
+  get damage(): number {
+    return this.data.damage;
+  }
+  get sourceTeam(): UnitTeam {
+    return this.data.sourceTeam;
+  }
+  get sourceUnit(): UnitEntity | null {
+    return this.data.sourceUnit;
+  }
+  get style(): BeamStyle {
+    return this.data.style;
+  }
+  get isFiring(): boolean {
+    return this.data.firing;
+  }
+  get isContinuous(): boolean {
+    return this.data.duration > 0;
+  }
+
+  /**
+   * Current damage multiplier (1 for instant beams).
+   */
+  get intensity(): number {
+    return Math.min(this.data.maxRamp, 1 + this.data.rampRate * this.data.elapsed);
+  }
+
+  /**
+   * Number of damage pulses over a continuous beam's duration.
+   */
+  get pulseCount(): number {
+    return getBeamPulseCount(this.data.duration);
+  }
+
+  /**
+   * Get the world as IBattleWorld for battle-specific queries.
+   */
+  private getBattleWorld(): IBattleWorld | null {
+    return this.world as IBattleWorld | null;
+  }
+
+  /**
+   * Main update loop.
+   * Godot: _process(delta)
+   */
+  override update(delta: number): void {
+    if (this._destroyed) return;
+
+    if (this.isTargetAlive()) {
+      this.data.end = this.target.position.clone();
+    }
+
+    if (!this.data.firing) {
+      this.data.fadeTimer -= delta;
+      if (this.data.fadeTimer <= 0) this.markDestroyed();
+      return;
+    }
+
+    if (!this.isContinuous) {
+      this.hit(this.damage);
+      this.stopFiring();
+      return;
+    }
+
+    if (!this.canKeepFiring()) {
+      this.stopFiring();
+      return;
+    }
+
+    // The beam follows its firing unit
+    if (this.sourceUnit) {
+      this.position = this.sourceUnit.position.clone();
+    }
+
+    this.data.pulseTimer -= delta;
+    if (this.data.pulseTimer <= 0) {
+      this.hit(Math.round((this.damage / this.pulseCount) * this.intensity));
+      this.data.pulses++;
+      this.data.pulseTimer += BEAM_TICK_INTERVAL;
+      if (this.data.pulses >= this.pulseCount) {
+        this.stopFiring();
+        return;
+      }
+    }
+    this.data.elapsed += delta;
+  }
+
+  /**
+   * Convert to render data for React layer.
+   */
+  toRenderData(): BeamRenderData {
+    return {
+      id: this.id,
+      origin: this.position,
+      end: this.end,
+      sourceTeam: this.sourceTeam,
+      color: this.data.color,
+      style: this.style,
+      intensity: this.intensity,
+      opacity: this.data.firing ? 1 : Math.max(0, this.data.fadeTimer / BEAM_FADE_DURATION),
+    };
+  }
+
+  private hit(damage: number): void {
+    if (!this.isTargetAlive()) return;
+    this.target.takeDamage(damage, this.sourceUnit ?? undefined, this.data.damageProfile);
+  }
+
+  private stopFiring(): void {
+    this.data.firing = false;
+    this.data.fadeTimer = BEAM_FADE_DURATION;
+  }
+
+  private isTargetAlive(): boolean {
+    return !this.target.isDestroyed() && this.target.health > 0;
+  }
+
+  /**
+   * A continuous beam breaks when either end dies, the target leaves
+   * range or a wall comes between them.
+   */
+  private canKeepFiring(): boolean {
+    if (!this.isTargetAlive()) return false;
+
+    const source = this.sourceUnit;
+    if (!source) return true;
+    if (source.isDestroyed() || source.health <= 0) return false;
+
+    const distance = source.position.distanceTo(this.target.position);
+    if (this.data.range > 0 && distance > this.data.range + source.size + this.target.size) {
+      return false;
+    }
+    return !this.getBattleWorld()?.isLineOfFireBlocked(source.position, this.target.position);
+  }
+}
+
+/**
+ * Factory function to create a beam.
+ * @param style - 'beam' for beam attacks, 'chain' for chain arcs (optional)
+ * @param beam - Duration and damage ramp of the firing attack mode (optional, defaults to instant)
+ * @param range - Attack range a continuous beam breaks beyond (optional, 0 = never)
+ * @param damageProfile - Damage type and armor penetration (optional, defaults to kinetic)
+ */
+export function createBeam(
+  id: string,
+  origin: Vector2,
+  target: IDamageable,
+  damage: number,
+  sourceTeam: UnitTeam,
+  sourceUnit: UnitEntity | null,
+  color: string,
+  style: BeamStyle = 'beam',
+  beam: Omit<BeamProjectile, 'type'> = {},
+  range: number = 0,
+  damageProfile: DamageProfile = {}
+): BeamEntity {
+  return new BeamEntity(id, origin, {
+    target,
+    end: target.position.clone(),
+    damage,
+    sourceTeam,
+    sourceUnit,
+    color,
+    style,
+    duration: beam.duration ?? 0,
+    rampRate: beam.rampRate ?? 0,
+    maxRamp: beam.maxRamp ?? BEAM_MAX_RAMP,
+    range,
+    damageProfile: {
+      damageType: damageProfile.damageType,
+      armorPenetration: damageProfile.armorPenetration,
+      canTargetGround: damageProfile.canTargetGround,
+      canTargetAir: damageProfile.canTargetAir,
+    },
+    elapsed: 0,
+    pulses: 0,
+    pulseTimer: 0,
+    firing: true,
+    fadeTimer: 0,
+  });
+}
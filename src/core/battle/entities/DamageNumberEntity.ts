@@ -13,14 +13,21 @@ import { EntityKind } from '../IEntity';
 import { UnitTeam } from '../types';
 import { BaseEntity } from './BaseEntity';
 
+/**
+ * What a floating number shows: damage taken or health restored.
+ */
+export type DamageNumberKind = 'damage' | 'heal';
+
 /**
  * Data for a damage number.
  */
 export interface DamageNumberData {
-  /** Damage amount to display */
+  /** Damage (or healing) amount to display */
   amount: number;
   /** Team that dealt the damage (for color) */
   sourceTeam: UnitTeam;
+  /** Damage or healing (omitted = damage) */
+  kind?: DamageNumberKind;
   /** Time remaining before removal */
   lifetime: number;
   /** Total duration for calculating progress */
@@ -39,6 +46,7 @@ export interface DamageNumberRenderData {
   position: Vector2;
   amount: number;
   sourceTeam: UnitTeam;
+  kind: DamageNumberKind;
   /** Progress from 0 (just spawned) to 1 (about to disappear) */
   progress: number;
 }
@@ -96,6 +104,7 @@ export class DamageNumberEntity extends BaseEntity {
       position: this.position.clone(),
       amount: this.amount,
       sourceTeam: this.sourceTeam,
+      kind: this.data.kind ?? 'damage',
       progress: this.progress,
     };
   }
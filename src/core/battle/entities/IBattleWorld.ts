@@ -10,7 +10,17 @@
 import { Vector2 } from '../../physics/Vector2';
 import { EntityBounds } from '../BoundsEnforcer';
 import { IDamageable } from '../IEntity';
-import { UnitTeam } from '../units/types';
+import type { TerrainFeature } from '../obstacles/Terrain';
+import {
+  BeamProjectile,
+  DamageProfile,
+  MovementLayer,
+  ProjectileBehavior,
+  UnitTeam,
+} from '../units/types';
+import type { BeamStyle } from '../types';
+import type { TargetTraits } from '../unit-behaviors/types';
+import type { DamageNumberKind } from './DamageNumberEntity';
 import { UnitEntity } from './UnitEntity';
 
 /**
@@ -35,6 +45,9 @@ export interface IBattleWorld {
   /** Get all allied units of a given unit (excludes self, excludes stationary) */
   getAlliesOf(unit: UnitEntity): UnitEntity[];
 
+  /** Get the living units of a squad */
+  getSquadUnits(squadId: string): UnitEntity[];
+
   // === Castle Queries ===
 
   /** Get all castles (stationary units) */
@@ -57,6 +70,33 @@ export interface IBattleWorld {
   /** Get all enemy damageables relative to a given entity */
   getEnemyDamageablesOf(entity: IDamageable): IDamageable[];
 
+  // === Spatial Queries (indexed, results in getUnits() order) ===
+
+  /** Get living units (and castles) whose body reaches within a radius of a point */
+  getUnitsNear(position: Vector2, radius: number): UnitEntity[];
+
+  /** Get living mobile allies whose collision circle reaches within a radius of a unit */
+  getAlliesNear(unit: UnitEntity, radius: number): UnitEntity[];
+
+  /**
+   * Find the nearest living enemy (unit or castle) strictly closer than maxDistance,
+   * on one of the layers if given
+   */
+  findNearestEnemy(
+    team: UnitTeam,
+    position: Vector2,
+    maxDistance?: number,
+    layers?: readonly MovementLayer[]
+  ): IDamageable | null;
+
+  /** Get living enemies (units and castles) whose center is within a radius of a point */
+  getEnemiesNear(team: UnitTeam, position: Vector2, radius: number): UnitEntity[];
+
+  // === Targeting ===
+
+  /** Describe a target for an attacker's priority rule */
+  getTargetTraits(target: IDamageable, attacker: UnitEntity): TargetTraits;
+
   // === Entity Spawning ===
 
   /**
@@ -70,6 +110,9 @@ export interface IBattleWorld {
    * @param color - Visual color
    * @param projectileSpeed - Optional speed override
    * @param splashRadius - Optional AoE radius
+   * @param damageProfile - Optional damage type and armor penetration
+   * @param behavior - Optional flight behavior (straight shot if not set)
+   * @param homingTarget - Optional target for homing projectiles to follow
    */
   spawnProjectile(
     position: Vector2,
@@ -79,7 +122,37 @@ export interface IBattleWorld {
     sourceUnit: UnitEntity | null,
     color: string,
     projectileSpeed?: number,
-    splashRadius?: number
+    splashRadius?: number,
+    damageProfile?: DamageProfile,
+    behavior?: ProjectileBehavior,
+    homingTarget?: IDamageable
+  ): void;
+
+  /**
+   * Spawn a beam (hitscan attack or chain arc).
+   *
+   * @param origin - Start of the beam
+   * @param target - Entity the beam hits
+   * @param damage - Instant damage, or base damage of a continuous beam
+   * @param sourceTeam - Team that fired the beam
+   * @param sourceUnit - Unit that fired (for attribution; continuous beams follow it)
+   * @param color - Visual color
+   * @param style - Optional visual style ('beam' if not set)
+   * @param beam - Optional duration and damage ramp (instant if not set)
+   * @param range - Optional attack range a continuous beam breaks beyond
+   * @param damageProfile - Optional damage type and armor penetration
+   */
+  spawnBeam(
+    origin: Vector2,
+    target: IDamageable,
+    damage: number,
+    sourceTeam: UnitTeam,
+    sourceUnit: UnitEntity | null,
+    color: string,
+    style?: BeamStyle,
+    beam?: BeamProjectile,
+    range?: number,
+    damageProfile?: DamageProfile
   ): void;
 
   /**
@@ -88,19 +161,45 @@ export interface IBattleWorld {
    * @param position - Position to spawn at
    * @param amount - Damage amount to display
    * @param sourceTeam - Team that dealt the damage (for coloring)
+   * @param kind - Damage or healing (default damage)
    */
-  spawnDamageNumber(position: Vector2, amount: number, sourceTeam: UnitTeam): void;
+  spawnDamageNumber(
+    position: Vector2,
+    amount: number,
+    sourceTeam: UnitTeam,
+    kind?: DamageNumberKind
+  ): void;
 
   // === Combat Helpers ===
 
-  /** Check if path between two points is blocked by units */
+  /** Check if path between two points is blocked by units or walls */
   isPathBlocked(from: Vector2, to: Vector2, excludeUnit: UnitEntity): boolean;
 
+  /** Check if a wall stands between a shooter and its target */
+  isLineOfFireBlocked(from: Vector2, to: Vector2): boolean;
+
+  // === Terrain ===
+
+  /** Get all terrain features (walls, rough ground, high ground) */
+  getTerrain(): readonly TerrainFeature[];
+
+  /** Get the terrain feature at a position (null on open ground) */
+  getTerrainAt(position: Vector2): TerrainFeature | null;
+
+  // === Pathfinding ===
+
+  /**
+   * Direction to move toward a goal around castles and walls.
+   * Goal null marches toward the enemy's back row.
+   * Returns null when the straight line is open (steer directly).
+   */
+  getPathDirection(team: UnitTeam, position: Vector2, goal: Vector2 | null): Vector2 | null;
+
   // === World State ===
 
   /** Get current arena bounds */
   getArenaBounds(): EntityBounds | null;
 
-  /** Get next unique modifier ID */
-  getNextModifierId(): number;
+  /** Get the battle's random number generator (seeded for reproducible battles) */
+  getRandom(): () => number;
 }
@@ -2,6 +2,14 @@
  * Projectile Entity
  *
  * A projectile that moves toward a target and damages units on impact.
+ * Attack modes can change how it flies (see ProjectileBehavior):
+ * - straight (default): flies at the target's position, stopped by walls
+ * - arc: lobbed over walls, explodes where it lands
+ * - homing: follows its target until it hits
+ * - pierce: flies on through the first units it hits
+ * - chain: arcs from its target to nearby enemies on impact
+ * Beams are hitscan and use BeamEntity instead.
+ *
  * Maps directly to Godot's Area2D with attached script.
  *
  * Godot equivalent:
@@ -12,14 +20,19 @@
 
 import { Vector2 } from '../../physics/Vector2';
 import {
+  ARC_HEIGHT_RATIO,
+  CHAIN_DAMAGE_FALLOFF,
+  PIERCE_TRAVEL_MULTIPLIER,
   PROJECTILE_HIT_RADIUS,
   BASE_PROJECTILE_SPEED,
   REFERENCE_ARENA_HEIGHT,
   scaleValue,
 } from '../BattleConfig';
 import { isOutOfBounds } from '../BoundsEnforcer';
-import { EntityKind } from '../IEntity';
-import { ProjectileRenderData, UnitTeam } from '../types';
+import { EntityKind, IDamageable } from '../IEntity';
+import { ChainProjectile, ProjectileBehavior } from '../units/types';
+import { DamageProfile, ProjectileRenderData, UnitTeam } from '../types';
+import { canHitLayer } from '../unit-behaviors/CombatSystem';
 import { BaseEntity } from './BaseEntity';
 import { IBattleWorld } from './IBattleWorld';
 import { UnitEntity } from './UnitEntity';
@@ -36,6 +49,16 @@ export interface ProjectileData {
   color: string;
   /** Splash/AoE damage radius (0 = single target) */
   splashRadius: number;
+  /** Damage type and armor penetration, from the firing attack mode */
+  damageProfile: DamageProfile;
+  /** Flight behavior (undefined = straight shot) */
+  behavior?: ProjectileBehavior;
+  /** Where the projectile was fired from */
+  origin: Vector2;
+  /** Target a homing projectile follows (null once it dies) */
+  homingTarget: IDamageable | null;
+  /** Units a piercing projectile already hit */
+  hitUnitIds: Set<string>;
 }
 
 /**
@@ -72,6 +95,28 @@ export class ProjectileEntity extends BaseEntity {
   get splashRadius(): number {
     return this.data.splashRadius;
   }
+  get damageProfile(): DamageProfile {
+    return this.data.damageProfile;
+  }
+  get behavior(): ProjectileBehavior | undefined {
+    return this.data.behavior;
+  }
+  get origin(): Vector2 {
+    return this.data.origin;
+  }
+
+  /**
+   * Height above the ground (arcing shells only).
+   * Parabola peaking mid-flight at the shell's arc height.
+   */
+  get height(): number {
+    if (this.behavior?.type !== 'arc') return 0;
+    const flight = this.origin.distanceTo(this.target);
+    if (flight === 0) return 0;
+    const progress = Math.min(1, this.origin.distanceTo(this.position) / flight);
+    const peak = flight * (this.behavior.arcHeight ?? ARC_HEIGHT_RATIO);
+    return 4 * peak * progress * (1 - progress);
+  }
 
   /**
    * Get the world as IBattleWorld for battle-specific queries.
@@ -87,11 +132,21 @@ export class ProjectileEntity extends BaseEntity {
   override update(delta: number): void {
     if (this._destroyed) return;
 
+    const world = this.getBattleWorld();
+    if (this.behavior?.type === 'pierce') {
+      this.updatePierce(delta, world, this.behavior.pierceCount);
+      return;
+    }
+    if (this.behavior?.type === 'homing') {
+      this.followTarget();
+    }
+
     const distToTarget = this.position.distanceTo(this.target);
     const moveAmount = this.speed * delta;
 
     // Check if we'll reach target this frame (prevents overshooting)
     if (distToTarget <= moveAmount + PROJECTILE_HIT_RADIUS) {
+      if (this.hitsWall(this.target, world)) return;
       // Move to target position and trigger hit
       this.position = this.target.clone();
       this.onReachTarget();
@@ -101,10 +156,11 @@ export class ProjectileEntity extends BaseEntity {
     // Move toward target
     const direction = this.target.subtract(this.position).normalize();
     const movement = direction.multiply(moveAmount);
-    this.position = this.position.add(movement);
+    const nextPosition = this.position.add(movement);
+    if (this.hitsWall(nextPosition, world)) return;
+    this.position = nextPosition;
 
     // Check if out of bounds
-    const world = this.getBattleWorld();
     if (world) {
       const bounds = world.getArenaBounds();
       if (bounds && isOutOfBounds(this.position, 0, bounds)) {
@@ -126,9 +182,155 @@ export class ProjectileEntity extends BaseEntity {
       damage: this.damage,
       sourceTeam: this.sourceTeam,
       color: this.color,
+      projectileType: this.behavior?.type,
+      height: this.height,
     };
   }
 
+  /**
+   * Stop the projectile if a wall lies between its position and the next one.
+   * Arcing shells fly over walls.
+   * @returns True if the projectile was stopped
+   */
+  private hitsWall(nextPosition: Vector2, world: IBattleWorld | null): boolean {
+    if (this.behavior?.type === 'arc') return false;
+    if (!world?.isLineOfFireBlocked(this.position, nextPosition)) return false;
+    this.markDestroyed();
+    return true;
+  }
+
+  /**
+   * Steer a homing projectile at its target's current position.
+   * Once the target dies it flies on to the last known position.
+   */
+  private followTarget(): void {
+    const target = this.data.homingTarget;
+    if (!target) return;
+    if (target.isDestroyed() || target.health <= 0) {
+      this.data.homingTarget = null;
+      return;
+    }
+    this.data.target = target.position.clone();
+  }
+
+  /**
+   * Fly a piercing projectile along its line of fire, hitting every enemy
+   * it passes until it has gone through pierceCount of them.
+   */
+  private updatePierce(delta: number, world: IBattleWorld | null, pierceCount: number): void {
+    const direction = this.target.subtract(this.origin).normalize();
+    const maxDistance = this.origin.distanceTo(this.target) * PIERCE_TRAVEL_MULTIPLIER;
+    const travelled = this.origin.distanceTo(this.position);
+    const moveAmount = Math.min(this.speed * delta, maxDistance - travelled);
+    const nextPosition = this.position.add(direction.multiply(moveAmount));
+
+    // Walls stop the projectile, but it still hits units in front of them
+    const blocked = world?.isLineOfFireBlocked(this.position, nextPosition) ?? false;
+    if (world) {
+      for (const target of this.findUnitsAlong(world, nextPosition)) {
+        target.takeDamage(this.damage, this.sourceUnit ?? undefined, this.damageProfile);
+        this.data.hitUnitIds.add(target.id);
+        if (this.data.hitUnitIds.size > pierceCount) {
+          this.markDestroyed();
+          return;
+        }
+      }
+    }
+
+    this.position = nextPosition;
+    const bounds = world?.getArenaBounds();
+    if (
+      blocked ||
+      travelled + moveAmount >= maxDistance ||
+      (bounds && isOutOfBounds(this.position, 0, bounds))
+    ) {
+      this.markDestroyed();
+    }
+  }
+
+  /**
+   * Enemies a piercing projectile has not hit yet whose body touches its
+   * path from the current position to the next, nearest first.
+   */
+  private findUnitsAlong(world: IBattleWorld, nextPosition: Vector2): UnitEntity[] {
+    const center = this.position.add(nextPosition).multiply(0.5);
+    const reach = this.position.distanceTo(nextPosition) / 2 + PROJECTILE_HIT_RADIUS;
+    return world
+      .getUnitsNear(center, reach)
+      .filter(
+        (unit) =>
+          unit.team !== this.sourceTeam &&
+          this.canHit(unit) &&
+          !this.data.hitUnitIds.has(unit.id) &&
+          unit.health > 0 &&
+          distanceToSegment(unit.position, this.position, nextPosition) <=
+            unit.size + PROJECTILE_HIT_RADIUS
+      )
+      .sort((a, b) => this.position.distanceTo(a.position) - this.position.distanceTo(b.position));
+  }
+
+  /**
+   * Arc from the first unit hit to the nearest enemies not yet hit,
+   * each arc dealing less damage than the last.
+   */
+  private chainFrom(first: UnitEntity, world: IBattleWorld, chain: ChainProjectile): void {
+    const arenaHeight = world.getArenaBounds()?.height ?? REFERENCE_ARENA_HEIGHT;
+    const chainRange = scaleValue(chain.chainRange, arenaHeight);
+    const falloff = chain.chainFalloff ?? CHAIN_DAMAGE_FALLOFF;
+    const hitIds = new Set([first.id]);
+    let from = first;
+    let damage = this.damage;
+
+    for (let i = 0; i < chain.chainCount; i++) {
+      const next = this.findNearestEnemy(world, from.position, chainRange, hitIds);
+      if (!next) return;
+      damage = Math.round(damage * falloff);
+      world.spawnBeam(
+        from.position.clone(),
+        next,
+        damage,
+        this.sourceTeam,
+        this.sourceUnit,
+        this.color,
+        'chain',
+        undefined,
+        undefined,
+        this.damageProfile
+      );
+      hitIds.add(next.id);
+      from = next;
+    }
+  }
+
+  /**
+   * Nearest living enemy within a radius the projectile can hit, skipping excluded units.
+   */
+  private findNearestEnemy(
+    world: IBattleWorld,
+    position: Vector2,
+    radius: number,
+    excludedIds: Set<string>
+  ): UnitEntity | null {
+    let nearest: UnitEntity | null = null;
+    let nearestDist = Infinity;
+    for (const unit of world.getEnemiesNear(this.sourceTeam, position, radius)) {
+      if (excludedIds.has(unit.id) || !this.canHit(unit)) continue;
+      const dist = unit.position.distanceTo(position);
+      if (dist < nearestDist) {
+        nearest = unit;
+        nearestDist = dist;
+      }
+    }
+    return nearest;
+  }
+
+  /**
+   * Whether the unit is on a layer this projectile's attack can hit.
+   */
+  private canHit(unit: UnitEntity): boolean {
+    return canHitLayer(this.damageProfile, unit.movementLayer);
+  }
+
   private onReachTarget(): void {
     const world = this.getBattleWorld();
     if (!world) {
@@ -136,29 +338,33 @@ export class ProjectileEntity extends BaseEntity {
       return;
     }
 
-    const damageables = world.getDamageables();
-
     // AoE/Splash damage: hit all enemies within splash radius
     if (this.splashRadius > 0) {
-      for (const target of damageables) {
-        if (target.team === this.sourceTeam) continue;
+      let closestTarget: UnitEntity | null = null;
+      let closestDist = Infinity;
+      for (const target of world.getUnitsNear(this.target, this.splashRadius)) {
+        if (target.team === this.sourceTeam || !this.canHit(target)) continue;
 
         const dist = target.position.distanceTo(this.target);
         const hitRange = target.size + this.splashRadius;
         if (dist <= hitRange) {
-          target.takeDamage(this.damage, this.sourceUnit ?? undefined);
+          target.takeDamage(this.damage, this.sourceUnit ?? undefined, this.damageProfile);
+          if (dist < closestDist) {
+            closestTarget = target;
+            closestDist = dist;
+          }
         }
       }
-      this.markDestroyed();
+      this.onImpact(closestTarget, world);
       return;
     }
 
     // Single target: find the closest enemy damageable within hit radius
-    let closestTarget: (typeof damageables)[0] | null = null;
+    let closestTarget: UnitEntity | null = null;
     let closestDist = Infinity;
 
-    for (const target of damageables) {
-      if (target.team === this.sourceTeam) continue;
+    for (const target of world.getUnitsNear(this.target, PROJECTILE_HIT_RADIUS)) {
+      if (target.team === this.sourceTeam || !this.canHit(target)) continue;
 
       const dist = target.position.distanceTo(this.target);
       const hitRange = target.size + PROJECTILE_HIT_RADIUS;
@@ -170,9 +376,20 @@ export class ProjectileEntity extends BaseEntity {
 
     // Damage only the closest target
     if (closestTarget) {
-      closestTarget.takeDamage(this.damage, this.sourceUnit ?? undefined);
+      closestTarget.takeDamage(this.damage, this.sourceUnit ?? undefined, this.damageProfile);
     }
 
+    this.onImpact(closestTarget, world);
+  }
+
+  /**
+   * Finish an impact: chain projectiles arc on from the unit closest to the
+   * impact point, then the projectile is spent.
+   */
+  private onImpact(closestTarget: UnitEntity | null, world: IBattleWorld): void {
+    if (closestTarget && this.behavior?.type === 'chain') {
+      this.chainFrom(closestTarget, world, this.behavior);
+    }
     this.markDestroyed();
   }
 }
@@ -182,6 +399,9 @@ export class ProjectileEntity extends BaseEntity {
  * @param arenaHeight - Arena height for scaling projectile speed
  * @param projectileSpeed - Override base projectile speed (optional)
  * @param splashRadius - AoE damage radius, 0 = single target (optional)
+ * @param damageProfile - Damage type, armor penetration and layers hit (optional, defaults to kinetic)
+ * @param behavior - Flight behavior (optional, defaults to a straight shot)
+ * @param homingTarget - Target a homing projectile follows (optional)
  */
 export function createProjectile(
   id: string,
@@ -193,7 +413,10 @@ export function createProjectile(
   color: string,
   arenaHeight: number = REFERENCE_ARENA_HEIGHT,
   projectileSpeed?: number,
-  splashRadius: number = 0
+  splashRadius: number = 0,
+  damageProfile: DamageProfile = {},
+  behavior?: ProjectileBehavior,
+  homingTarget: IDamageable | null = null
 ): ProjectileEntity {
   const baseSpeed = projectileSpeed ?? BASE_PROJECTILE_SPEED;
   return new ProjectileEntity(id, position, {
@@ -204,5 +427,27 @@ export function createProjectile(
     sourceUnit,
     color,
     splashRadius: scaleValue(splashRadius, arenaHeight),
+    damageProfile: {
+      damageType: damageProfile.damageType,
+      armorPenetration: damageProfile.armorPenetration,
+      canTargetGround: damageProfile.canTargetGround,
+      canTargetAir: damageProfile.canTargetAir,
+    },
+    behavior,
+    origin: position.clone(),
+    homingTarget: behavior?.type === 'homing' ? homingTarget : null,
+    hitUnitIds: new Set(),
   });
 }
+
+/**
+ * Distance from a point to the closest point of a line segment.
+ */
+function distanceToSegment(point: Vector2, start: Vector2, end: Vector2): number {
+  const line = end.subtract(start);
+  const lengthSq = line.dot(line);
+  if (lengthSq === 0) return point.distanceTo(start);
+
+  const t = Math.max(0, Math.min(1, point.subtract(start).dot(line) / lengthSq));
+  return point.distanceTo(start.add(line.multiply(t)));
+}
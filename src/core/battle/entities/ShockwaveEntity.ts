@@ -25,9 +25,38 @@ import { EntityKind } from '../IEntity';
 import { ShockwaveRenderData, UnitTeam } from '../types';
 import { BaseEntity } from './BaseEntity';
 import { IBattleWorld } from './IBattleWorld';
-import { TemporaryModifier } from '../modifiers/TemporaryModifier';
+import { createActiveModifier } from '../modifiers/ModifierCalculator';
+import { Modifier } from '../modifiers/types';
 import { UnitEntity } from './UnitEntity';
 
+/** Source ID of the demoralized debuff (shown in the unit info panel) */
+const SHOCKWAVE_DEBUFF_SOURCE_ID = 'castle_death_shockwave';
+
+/**
+ * Stat modifiers of the demoralized debuff.
+ * Multiplicative, so it compounds with other slows instead of adding up.
+ */
+const SHOCKWAVE_DEBUFF_MODIFIERS: Modifier[] = [
+  {
+    id: 'shockwave_move_speed',
+    target: 'moveSpeed',
+    type: 'multiply',
+    value: 1 + SHOCKWAVE_DEBUFF_MOVE_SPEED,
+  },
+  {
+    id: 'shockwave_melee_damage',
+    target: 'melee.damage',
+    type: 'multiply',
+    value: 1 + SHOCKWAVE_DEBUFF_DAMAGE,
+  },
+  {
+    id: 'shockwave_ranged_damage',
+    target: 'ranged.damage',
+    type: 'multiply',
+    value: 1 + SHOCKWAVE_DEBUFF_DAMAGE,
+  },
+];
+
 /**
  * Shockwave data.
  */
@@ -110,9 +139,10 @@ export class ShockwaveEntity extends BaseEntity {
     if (!world) return;
 
     const attackingTeam = getOppositeTeam(this.sourceTeam);
+    const nearbyUnits = world.getUnitsNear(this.position, outerRadius);
 
     // Process units of the destroyed castle's team (apply debuff)
-    const enemyUnits = world.getUnitsByTeam(this.sourceTeam);
+    const enemyUnits = nearbyUnits.filter((unit) => unit.team === this.sourceTeam);
     for (const unit of enemyUnits) {
       if (this.isUnitInRing(unit, innerRadius, outerRadius)) {
         this.applyDebuffToUnit(unit);
@@ -121,7 +151,7 @@ export class ShockwaveEntity extends BaseEntity {
     }
 
     // Process units of the attacking team (clear enemy debuffs)
-    const friendlyUnits = world.getUnitsByTeam(attackingTeam);
+    const friendlyUnits = nearbyUnits.filter((unit) => unit.team === attackingTeam);
     for (const unit of friendlyUnits) {
       if (this.isUnitInRing(unit, innerRadius, outerRadius)) {
         this.clearDebuffFromUnit(unit);
@@ -150,22 +180,21 @@ export class ShockwaveEntity extends BaseEntity {
    * The debuff sourceTeam is the attacking team (opposite of the destroyed castle's team).
    */
   private applyDebuffToUnit(unit: UnitEntity): void {
-    const world = this.getBattleWorld();
-    if (!world) return;
-
+    // The attacking team caused this debuff
     const attackingTeam = getOppositeTeam(this.sourceTeam);
-    const modifierId = world.getNextModifierId();
-    const modifier: TemporaryModifier = {
-      id: `shockwave_debuff_${modifierId}`,
-      sourceId: 'castle_death_shockwave',
-      sourceTeam: attackingTeam, // The attacking team caused this debuff
-      moveSpeedMod: SHOCKWAVE_DEBUFF_MOVE_SPEED,
-      damageMod: SHOCKWAVE_DEBUFF_DAMAGE,
-      collisionSizeMod: 0, // Shockwave doesn't affect collision size
-      remainingDuration: SHOCKWAVE_DEBUFF_DURATION_SECONDS,
-    };
 
-    unit.applyModifier(modifier);
+    for (const modifier of SHOCKWAVE_DEBUFF_MODIFIERS) {
+      unit.applyModifier({
+        ...createActiveModifier(
+          modifier,
+          'debuff',
+          SHOCKWAVE_DEBUFF_SOURCE_ID,
+          SHOCKWAVE_DEBUFF_DURATION_SECONDS
+        ),
+        sourceTeam: attackingTeam,
+        stacking: 'refresh',
+      });
+    }
   }
 
   /**
@@ -7,23 +7,41 @@
  * Godot equivalent:
  * - class_name Unit extends CharacterBody2D
  * - _process(delta) handles all behavior
- * - Signals: died, attacked, damaged
+ * - Signals: died, attacked, damaged, healed
  */
 
 import { Vector2 } from '../../physics/Vector2';
 import { getProjectileColor } from '../../theme/colors';
 import {
+  ALLY_AVOIDANCE_DISTANCE_MULTIPLIER,
   BASE_MELEE_KNOCKBACK_DISTANCE,
   BASE_MELEE_LUNGE_DISTANCE,
+  BASE_ORDER_ARRIVAL_RADIUS,
   DEATH_FADE_DURATION,
+  DIRECTION_CHECK_MULTIPLIER,
   HIT_FLASH_DURATION,
   MELEE_ATTACK_RANGE_THRESHOLD,
   MIN_NORMALIZE_THRESHOLD,
   REFERENCE_ARENA_HEIGHT,
+  UNIT_SPACING,
   scaleValue,
 } from '../BattleConfig';
 
-import { TemporaryModifier, PendingModifier } from '../modifiers/TemporaryModifier';
+import type { ActiveModifier, PendingModifier } from '../modifiers/types';
+import { createActiveModifier } from '../modifiers/ModifierCalculator';
+import type { UnitAbilityState } from '../abilities/types';
+import type { SquadUpgrades } from '../upgrades/types';
+import type { EliteSquad } from '../elites/types';
+import type { FallBackOrder, SquadOrder } from '../orders/types';
+import type { StatusEffect, StatusEffectType, StatusImmunities } from '../status/types';
+import { computeUnitStats, resolveDamage } from '../units/StatCalculator';
+import type {
+  DamageProfile,
+  GiantTraits,
+  MovementLayer,
+  TargetPriority,
+  UnitCategory,
+} from '../units/types';
 import {
   MELEE_ENGAGEMENT_DEBUFF,
   createAttackerDebuff,
@@ -36,20 +54,34 @@ import { getEnemyTeam } from '../TeamUtils';
 import { AttackMode, UnitRenderData, UnitStats, UnitTeam, UnitType, UnitShape } from '../types';
 import type { GridFootprint } from '../grid/GridTypes';
 import type { IObstacle } from '../obstacles/Obstacle';
+import { TerrainType, getTerrainModifiers } from '../obstacles/Terrain';
 import { BaseEntity } from './BaseEntity';
 import { IBattleWorld } from './IBattleWorld';
 
 // Import behavior systems
 import {
-  TargetingContext,
+  OrderTargetingContext,
   TargetableUnit,
   MovementContext,
   AllyData,
 } from '../unit-behaviors/types';
-import { updateTargeting as targetingUpdate } from '../unit-behaviors/TargetingSystem';
+import {
+  findNearestDamageable,
+  findRepairTarget,
+  getAggroRadius,
+  updateTargeting as targetingUpdate,
+} from '../unit-behaviors/TargetingSystem';
+import {
+  getOrderDestination,
+  hasReachedDestination,
+  isOrderActive,
+  updateOrderTargeting,
+} from '../unit-behaviors/OrderSystem';
 import {
   updateCombat as combatUpdate,
+  updateRepair,
   getAttackMode,
+  getTargetLayers,
   getMaxRange,
   isInMeleeMode,
 } from '../unit-behaviors/CombatSystem';
@@ -66,16 +98,35 @@ import {
   applyModifier as modifierApply,
   tickModifiers as modifierTick,
   tickPendingModifiers as pendingTick,
-  calculateModifiedMoveSpeed,
-  calculateDamageMultiplier,
   calculateCollisionSize,
   hasModifierFromSource,
   removeModifiersBySource,
   clearEnemyDebuffs as modifierClearEnemyDebuffs,
+  clearPendingEnemyDebuffs,
   removeModifiersLinkedToUnit as modifierRemoveLinked,
   removePendingModifiersLinkedToUnit,
   queueModifier as modifierQueue,
+  toModifierRenderData,
 } from '../unit-behaviors/ModifierSystem';
+import {
+  STATUS_SLOW_SOURCE_ID,
+  absorbDamage,
+  applyStatusEffect as statusApply,
+  clearEnemyStatuses,
+  createSlowModifier,
+  getStatusEffect,
+  hasStatusEffect,
+  isImmune,
+  tickStatusEffects as statusTick,
+  toStatusRenderData,
+} from '../unit-behaviors/StatusEffectSystem';
+import {
+  findTrampleTargets,
+  getFacingDirection,
+  getTrampleOffset,
+  isWeakPointHit,
+  updateTrample,
+} from '../unit-behaviors/GiantSystem';
 
 /**
  * Unit data that UnitEntity wraps.
@@ -93,6 +144,14 @@ export interface UnitData {
   squadId: string;
   /** Unit level (1-9). Stats scale linearly: level * base stats for HP and damage */
   level: number;
+  /** Unit category from the definition (omitted = uncategorized) */
+  category?: UnitCategory;
+  /** How the unit picks between enemies in range (omitted = nearest) */
+  targetPriority?: TargetPriority;
+  /** Layer the unit moves on (omitted = ground) */
+  movementLayer?: MovementLayer;
+  /** Giant traits (omitted = regular unit) */
+  giant?: GiantTraits;
   // Combat state - unified target (can be unit or castle)
   target: IDamageable | null;
   attackCooldown: number;
@@ -102,8 +161,8 @@ export interface UnitData {
   seekMode: boolean;
   // Cooldown before unit can switch to a closer target
   retargetCooldown: number;
-  // Active modifiers (buffs/debuffs)
-  activeModifiers: TemporaryModifier[];
+  // Modifier stack (StatTarget pipeline): upgrades, terrain, abilities, buffs and debuffs
+  activeModifiers: ActiveModifier[];
   // Pending modifiers waiting to be applied after a delay
   pendingModifiers: PendingModifier[];
   // Visual offset for melee lunge/knockback effects (decays over time)
@@ -120,6 +179,26 @@ export interface UnitData {
   hasAimingLaser: boolean;
   // Grid footprint for deployment positioning
   gridFootprint: GridFootprint;
+  // Ability runtime state (omitted = no abilities)
+  abilities?: UnitAbilityState;
+  // Upgrade effects the unit spawned with (omitted = none)
+  upgrades?: SquadUpgrades;
+  // Elite/boss rank and affixes (omitted = regular squad)
+  elite?: EliteSquad;
+  // Terrain the unit is standing on (omitted = open ground)
+  terrain?: TerrainType;
+  // Player-issued tactical order (omitted = auto-battle)
+  order?: SquadOrder;
+  // Stun, root, slow, burn, regen and shields (omitted = none)
+  statusEffects?: StatusEffect[];
+  // Seconds left before each status can be applied again (omitted = none)
+  statusImmunities?: StatusImmunities;
+  // Wounded ally a support unit is repairing (omitted = none)
+  repairTarget?: UnitEntity;
+  // Cooldown before the next repair (omitted = ready)
+  repairCooldown?: number;
+  // Cooldown before a giant's next trample (omitted = ready)
+  trampleCooldown?: number;
 }
 
 /**
@@ -129,10 +208,13 @@ export interface UnitData {
 export class UnitEntity extends BaseEntity implements IObstacle {
   public readonly kind: EntityKind = 'unit';
   public data: UnitData;
+  /** Stats with activeModifiers applied (null = no modifiers, use data.stats) */
+  private modifiedStats: UnitStats | null = null;
 
   constructor(id: string, position: Vector2, data: UnitData) {
     super(id, position);
     this.data = data;
+    this.refreshModifiedStats();
   }
 
   // === Core Accessors ===
@@ -152,7 +234,12 @@ export class UnitEntity extends BaseEntity implements IObstacle {
   set health(value: number) {
     this.data.health = value;
   }
+  /** Current stats, with all modifiers applied */
   get stats(): UnitStats {
+    return this.modifiedStats ?? this.data.stats;
+  }
+  /** Stats before modifiers (level scaling only) */
+  get baseStats(): UnitStats {
     return this.data.stats;
   }
   get size(): number {
@@ -170,11 +257,50 @@ export class UnitEntity extends BaseEntity implements IObstacle {
   get level(): number {
     return this.data.level;
   }
+  get category(): UnitCategory | undefined {
+    return this.data.category;
+  }
+  /** Targeting priority (undefined = nearest) */
+  get targetPriority(): TargetPriority | undefined {
+    return this.data.targetPriority;
+  }
+  /** Layer the unit moves on */
+  get movementLayer(): MovementLayer {
+    return this.data.movementLayer ?? 'ground';
+  }
+  /** Air units fly over terrain and ground units */
+  get isFlying(): boolean {
+    return this.movementLayer === 'air';
+  }
+  /** Giant traits (undefined = regular unit) */
+  get giant(): GiantTraits | undefined {
+    return this.data.giant;
+  }
+  /** Giants trample smaller enemies and are never pushed by them */
+  get isGiant(): boolean {
+    return !!this.data.giant;
+  }
+  /** Upgrade effects the unit spawned with (undefined = none) */
+  get upgrades(): SquadUpgrades | undefined {
+    return this.data.upgrades;
+  }
+  /** Elite rank and affixes (undefined = regular squad) */
+  get elite(): EliteSquad | undefined {
+    return this.data.elite;
+  }
+  /** Terrain under the unit (undefined = open ground) */
+  get terrain(): TerrainType | undefined {
+    return this.data.terrain;
+  }
+  /** Tactical order being carried out (undefined = auto-battle) */
+  get order(): SquadOrder | undefined {
+    return this.data.order;
+  }
 
   // === Stationary Unit Support ===
 
   get isStationary(): boolean {
-    return this.stats.moveSpeed === 0;
+    return this.data.stats.moveSpeed === 0;
   }
 
   get blocksMovement(): boolean {
@@ -190,6 +316,18 @@ export class UnitEntity extends BaseEntity implements IObstacle {
   get target(): IDamageable | null {
     return this.data.target;
   }
+  /** Wounded ally being repaired (undefined = none) */
+  get repairTarget(): UnitEntity | undefined {
+    return this.data.repairTarget;
+  }
+  /** Whether the unit has a repair attack mode (support units) */
+  get canRepair(): boolean {
+    return !!this.stats.repair;
+  }
+  /** Whether the unit has a melee or ranged attack */
+  get hasWeapon(): boolean {
+    return !!(this.stats.melee || this.stats.ranged);
+  }
   set target(value: IDamageable | null) {
     this.data.target = value;
   }
@@ -226,7 +364,7 @@ export class UnitEntity extends BaseEntity implements IObstacle {
 
   // === Visual State Accessors ===
 
-  get activeModifiers(): TemporaryModifier[] {
+  get activeModifiers(): readonly ActiveModifier[] {
     return this.data.activeModifiers;
   }
   get pendingModifiers(): PendingModifier[] {
@@ -266,6 +404,17 @@ export class UnitEntity extends BaseEntity implements IObstacle {
     return this.data.hasAimingLaser;
   }
 
+  // === Ability State Accessors ===
+
+  get abilityIds(): readonly string[] {
+    return this.data.abilities?.abilityIds ?? [];
+  }
+  get abilityState(): UnitAbilityState | undefined {
+    return this.data.abilities;
+  }
+  set abilityState(value: UnitAbilityState | undefined) {
+    this.data.abilities = value;
+  }
   // === Helper Methods ===
 
   private getBattleWorld(): IBattleWorld | null {
@@ -291,17 +440,26 @@ export class UnitEntity extends BaseEntity implements IObstacle {
 
   // === Modifier Methods (delegate to ModifierSystem) ===
 
-  applyModifier(modifier: TemporaryModifier): void {
-    const result = modifierApply(this.data.activeModifiers, modifier);
-    this.data.activeModifiers = result.modifiers;
+  /**
+   * Apply a modifier. One already applied by the same source stacks
+   * (up to maxStacks) or refreshes, depending on its stacking policy.
+   * Current health is clamped if max health drops.
+   */
+  applyModifier(modifier: ActiveModifier, maxStacks?: number): void {
+    this.data.activeModifiers = modifierApply(this.data.activeModifiers, modifier, maxStacks);
+    this.refreshModifiedStats();
   }
 
   private tickModifiers(delta: number): void {
     const result = modifierTick(this.data.activeModifiers, delta);
     this.data.activeModifiers = result.modifiers;
+    if (result.expiredCount > 0) {
+      this.refreshModifiedStats();
+    }
   }
 
   private tickPendingModifiers(delta: number): void {
+    if (this.data.pendingModifiers.length === 0) return;
     const result = pendingTick(this.data.pendingModifiers, delta);
     this.data.pendingModifiers = result.pendingModifiers;
     for (const mod of result.readyModifiers) {
@@ -310,11 +468,7 @@ export class UnitEntity extends BaseEntity implements IObstacle {
   }
 
   getModifiedMoveSpeed(): number {
-    return calculateModifiedMoveSpeed(this.stats.moveSpeed, this.data.activeModifiers);
-  }
-
-  getDamageMultiplier(): number {
-    return calculateDamageMultiplier(this.data.activeModifiers);
+    return this.stats.moveSpeed;
   }
 
   getCollisionSize(): number {
@@ -325,17 +479,27 @@ export class UnitEntity extends BaseEntity implements IObstacle {
     return hasModifierFromSource(this.data.activeModifiers, sourceId);
   }
 
-  removeModifierBySource(sourceId: string): boolean {
+  removeModifiersBySource(sourceId: string): boolean {
     const result = removeModifiersBySource(this.data.activeModifiers, sourceId);
+    if (result.removedCount === 0) return false;
     this.data.activeModifiers = result.modifiers;
-    return result.removedCount > 0;
+    this.refreshModifiedStats();
+    return true;
   }
 
+  /**
+   * Cleanse every modifier and status applied by the other team, including queued ones.
+   */
   clearEnemyDebuffs(): void {
     this.data.activeModifiers = modifierClearEnemyDebuffs(this.data.activeModifiers, this.team);
+    this.data.pendingModifiers = clearPendingEnemyDebuffs(this.data.pendingModifiers, this.team);
+    if (this.data.statusEffects) {
+      this.data.statusEffects = clearEnemyStatuses(this.data.statusEffects, this.team);
+    }
+    this.refreshModifiedStats();
   }
 
-  queueModifier(modifier: TemporaryModifier, delay: number): void {
+  queueModifier(modifier: ActiveModifier, delay: number): void {
     this.data.pendingModifiers = modifierQueue(this.data.pendingModifiers, modifier, delay);
   }
 
@@ -347,10 +511,111 @@ export class UnitEntity extends BaseEntity implements IObstacle {
       this.data.pendingModifiers,
       unitId
     );
-    return (
-      this.data.activeModifiers.length < initialActive ||
-      this.data.pendingModifiers.length < initialPending
+    if (this.data.activeModifiers.length < initialActive) {
+      this.refreshModifiedStats();
+      return true;
+    }
+    return this.data.pendingModifiers.length < initialPending;
+  }
+
+  // === Status Effect Methods (delegate to StatusEffectSystem) ===
+
+  get statusEffects(): readonly StatusEffect[] {
+    return this.data.statusEffects ?? [];
+  }
+
+  /** Stunned units skip targeting, combat and movement */
+  get isStunned(): boolean {
+    return hasStatusEffect(this.statusEffects, 'stun');
+  }
+
+  /** Rooted units cannot move but still fight */
+  get isRooted(): boolean {
+    return hasStatusEffect(this.statusEffects, 'root');
+  }
+
+  isImmuneTo(type: StatusEffectType): boolean {
+    return isImmune(this.data.statusImmunities ?? {}, type);
+  }
+
+  /**
+   * Apply a status effect. It merges with a status of the same type by that
+   * type's stacking rule, and is ignored during the type's immunity window.
+   * @returns True if the status was applied
+   */
+  applyStatusEffect(status: StatusEffect, maxStacks?: number): boolean {
+    if (this.isDying || this._destroyed) return false;
+    const result = statusApply(
+      this.statusEffects,
+      this.data.statusImmunities ?? {},
+      status,
+      maxStacks
     );
+    if (!result.applied) return false;
+    this.data.statusEffects = result.statuses;
+    if (status.type === 'slow') this.syncSlowModifier();
+    return true;
+  }
+
+  private tickStatusEffects(delta: number): void {
+    if (!this.data.statusEffects?.length && !this.data.statusImmunities) return;
+
+    const result = statusTick(this.statusEffects, this.data.statusImmunities ?? {}, delta);
+    this.data.statusEffects = result.statuses;
+    this.data.statusImmunities =
+      Object.keys(result.immunities).length > 0 ? result.immunities : undefined;
+    if (result.expired.some((s) => s.type === 'slow')) this.syncSlowModifier();
+
+    const world = this.getBattleWorld();
+    for (const pulse of result.pulses) {
+      if (this.isDying) return;
+      // Burns and regen credit the unit that applied them, if it is still around
+      const source = pulse.sourceUnitId ? world?.getUnitById(pulse.sourceUnitId) : undefined;
+      if (pulse.type === 'regen') {
+        this.heal(pulse.amount, source);
+        continue;
+      }
+      const damage = Math.round(pulse.amount);
+      if (damage <= 0) continue;
+      this.takeDamage(damage, source, {
+        damageType: pulse.damageType ?? 'energy',
+        indirect: true,
+      });
+    }
+  }
+
+  /**
+   * Keep the slow status's move speed modifier in line with the status.
+   */
+  private syncSlowModifier(): void {
+    const slow = getStatusEffect(this.statusEffects, 'slow');
+    this.data.activeModifiers = removeModifiersBySource(
+      this.data.activeModifiers,
+      STATUS_SLOW_SOURCE_ID
+    ).modifiers;
+    if (slow) {
+      this.data.activeModifiers = [...this.data.activeModifiers, createSlowModifier(slow)];
+    }
+    this.refreshModifiedStats();
+  }
+
+  private refreshModifiedStats(): void {
+    const modifiers = this.data.activeModifiers;
+    this.modifiedStats = modifiers.length > 0 ? computeUnitStats(this.data.stats, modifiers) : null;
+    if (this.health > this.stats.maxHealth) {
+      this.health = this.stats.maxHealth;
+    }
+  }
+
+  // === Orders ===
+
+  /**
+   * Give the unit a tactical order (null returns it to auto-battle).
+   * Stationary units ignore orders.
+   */
+  setOrder(order: SquadOrder | null): void {
+    if (this.isStationary) return;
+    this.data.order = order ?? undefined;
   }
 
   // === Main Update Loop ===
@@ -370,6 +635,10 @@ export class UnitEntity extends BaseEntity implements IObstacle {
     this.tickModifiers(delta);
     this.tickPendingModifiers(delta);
 
+    // Tick status effects (a burn can finish the unit off)
+    this.tickStatusEffects(delta);
+    if (this.isDying) return;
+
     // Decay visual offset using behavior system
     this.visualOffset = decayVisualOffset(this.visualOffset, delta);
 
@@ -383,36 +652,55 @@ export class UnitEntity extends BaseEntity implements IObstacle {
       this.retargetCooldown -= delta;
     }
 
+    // Stunned units skip targeting, combat and movement; rooted units only movement
+    const stunned = this.isStunned;
+
     // Phase 1: Target acquisition (using behavior system)
-    this.updateTargetingPhase();
+    if (!stunned) this.updateTargetingPhase();
+    if (!stunned) this.updateRepairTargetingPhase();
 
     // Phase 2: Combat (using behavior system)
-    this.updateCombatPhase(delta);
+    if (!stunned) this.updateCombatPhase(delta);
+    if (!stunned) this.updateRepairPhase(delta);
 
     // Phase 3: Movement (using behavior system)
-    this.updateMovementPhase(delta);
+    if (!stunned && !this.isRooted) this.updateMovementPhase(delta);
 
     // Phase 4: Boundary enforcement
     this.enforceBounds();
+
+    // Phase 5: Terrain effects for the ground the unit ended up on
+    this.updateTerrainPhase();
   }
 
   // === Targeting Phase ===
 
   private updateTargetingPhase(): void {
-    if (this.isStationary) return;
+    // Units without weapons (pure support) never target enemies
+    if (this.isStationary || !this.hasWeapon) return;
 
     const world = this.getBattleWorld();
     if (!world) return;
 
     // Create context for targeting system
-    const context: TargetingContext = {
+    const context: OrderTargetingContext = {
       getEnemyDamageables: () => world.getEnemyDamageablesOf(this),
+      findNearestEnemy: (position, maxDistance, layers) =>
+        world.findNearestEnemy(this.team, position, maxDistance, layers),
+      getEnemiesNear: (position, radius) => world.getEnemiesNear(this.team, position, radius),
+      getTargetTraits: (target) => world.getTargetTraits(target, this),
       getEnemyCastles: () => world.getEnemyCastlesOf(this),
       getInitialCastleCount: (team: UnitTeam) => world.getInitialCastleCount(team),
+      getSquadUnits: (squadId) => world.getSquadUnits(squadId),
       bounds: world.getArenaBounds(),
       arenaHeight: this.getArenaHeight(),
     };
 
+    // Orders that can no longer be carried out return the unit to auto-battle
+    if (this.data.order && !isOrderActive(this.data.order, context)) {
+      this.data.order = undefined;
+    }
+
     // Create targetable unit view
     const unit: TargetableUnit = {
       id: this.id,
@@ -422,10 +710,14 @@ export class UnitEntity extends BaseEntity implements IObstacle {
       target: this.target,
       seekMode: this.seekMode,
       retargetCooldown: this.retargetCooldown,
+      targetPriority: this.data.targetPriority,
+      targetLayers: getTargetLayers(this.stats),
     };
 
-    // Get new targeting result
-    const result = targetingUpdate(unit, context);
+    // Get new targeting result (an order overrides auto targeting)
+    const result = this.data.order
+      ? updateOrderTargeting(unit, this.data.order, getMaxRange(this.stats) + this.size, context)
+      : targetingUpdate(unit, context);
 
     // Handle target switch with attack cooldown reset
     if (
@@ -433,9 +725,9 @@ export class UnitEntity extends BaseEntity implements IObstacle {
       result.target !== null &&
       this.target !== result.target
     ) {
-      const attackMode = this.data.stats.ranged ?? this.data.stats.melee;
+      const attackMode = this.stats.ranged ?? this.stats.melee;
       if (attackMode) {
-        this.attackCooldown = this.data.stats.attackInterval ?? 1 / attackMode.attackSpeed;
+        this.attackCooldown = this.stats.attackInterval ?? 1 / attackMode.attackSpeed;
       }
     }
 
@@ -452,15 +744,15 @@ export class UnitEntity extends BaseEntity implements IObstacle {
 
     const world = this.getBattleWorld();
 
-    // Use combat system to determine if attack should occur
+    // Use combat system to determine if attack should occur.
+    // Hold fire while a wall blocks the shot (the unit advances instead).
     const result = combatUpdate(
       this.attackCooldown,
       delta,
       this.position,
       this.size,
       this.stats,
-      this.target,
-      this.getDamageMultiplier()
+      this.isLineOfFireBlocked() ? null : this.target
     );
 
     // For precision units, only decrement cooldown when in range and has target
@@ -482,14 +774,49 @@ export class UnitEntity extends BaseEntity implements IObstacle {
       });
 
       if (result.isMelee) {
-        this.performMeleeAttack(this.target, result.damage);
+        this.performMeleeAttack(this.target, result.damage, result.attackMode);
       } else if (world) {
         this.performRangedAttack(this.target, result.damage, result.attackMode, world);
       }
     }
   }
 
-  private performMeleeAttack(target: IDamageable, damage: number): void {
+  // === Repair Phase ===
+
+  /**
+   * Support units pick the most wounded ally within aggro radius.
+   */
+  private updateRepairTargetingPhase(): void {
+    if (!this.canRepair) return;
+
+    const world = this.getBattleWorld();
+    if (!world) return;
+
+    const allies = world.getAlliesNear(this, getAggroRadius(this.getArenaHeight()));
+    this.data.repairTarget =
+      findRepairTarget(this.position, this.data.repairTarget ?? null, allies) ?? undefined;
+  }
+
+  private updateRepairPhase(delta: number): void {
+    if (!this.canRepair) return;
+
+    const target = this.data.repairTarget ?? null;
+    const result = updateRepair(
+      this.data.repairCooldown ?? 0,
+      delta,
+      this.position,
+      this.size,
+      this.stats.repair,
+      target
+    );
+    this.data.repairCooldown = result.repairCooldown;
+
+    if (result.didRepair && target) {
+      target.heal(result.amount, this);
+    }
+  }
+
+  private performMeleeAttack(target: IDamageable, damage: number, attackMode: AttackMode): void {
     const arenaHeight = this.getArenaHeight();
     const toTarget = target.position.subtract(this.position);
     const direction =
@@ -504,15 +831,15 @@ export class UnitEntity extends BaseEntity implements IObstacle {
       const knockbackDistance = scaleValue(BASE_MELEE_KNOCKBACK_DISTANCE, arenaHeight);
       target.applyKnockback(direction, knockbackDistance);
 
-      const defenderTeam = target.team;
-      this.applyModifier(createAttackerDebuff(this.id, target.id, defenderTeam));
-      target.queueModifier(
-        createDefenderDebuff(target.id, this.team),
-        MELEE_ENGAGEMENT_DEBUFF.defenderDelay
-      );
+      for (const modifier of createAttackerDebuff(target.id, target.team)) {
+        this.applyModifier(modifier);
+      }
+      for (const modifier of createDefenderDebuff(this.team)) {
+        target.queueModifier(modifier, MELEE_ENGAGEMENT_DEBUFF.defenderDelay);
+      }
     }
 
-    target.takeDamage(damage, this);
+    target.takeDamage(damage, this, attackMode);
   }
 
   private performRangedAttack(
@@ -521,6 +848,23 @@ export class UnitEntity extends BaseEntity implements IObstacle {
     attackMode: AttackMode,
     world: IBattleWorld
   ): void {
+    const behavior = attackMode.projectile;
+    if (behavior?.type === 'beam') {
+      world.spawnBeam(
+        this.position.clone(),
+        target,
+        damage,
+        this.team,
+        this,
+        getProjectileColor(this.team),
+        'beam',
+        behavior,
+        attackMode.range,
+        attackMode
+      );
+      return;
+    }
+
     world.spawnProjectile(
       this.position.clone(),
       target.position.clone(),
@@ -529,7 +873,10 @@ export class UnitEntity extends BaseEntity implements IObstacle {
       this,
       getProjectileColor(this.team),
       attackMode.projectileSpeed,
-      attackMode.splashRadius
+      attackMode.splashRadius,
+      attackMode,
+      behavior,
+      target
     );
   }
 
@@ -545,20 +892,44 @@ export class UnitEntity extends BaseEntity implements IObstacle {
     const world = this.getBattleWorld();
     if (!world) return;
 
+    if (this.data.order?.type === 'hold') {
+      this.walkAnimationTime = resetWalkAnimation();
+      return;
+    }
+    if (this.data.order?.type === 'fall_back') {
+      this.fallBack(delta, world, this.data.order);
+      return;
+    }
+
+    // Repairing takes priority over fighting
+    if (this.data.repairTarget) {
+      this.stayInRepairRange(delta, world, this.data.repairTarget);
+      return;
+    }
+
+    if (!this.target && this.canRepair && !this.hasWeapon) {
+      this.followAllies(delta, world);
+      return;
+    }
+
     if (!this.target) {
       this.marchForward(delta, world);
       return;
     }
 
     const distanceToTarget = this.position.distanceTo(this.target.position);
-    const attackMode = getAttackMode(this.stats, this.size, distanceToTarget);
+    const targetLayer = this.target.movementLayer;
+    const attackMode = getAttackMode(this.stats, this.size, distanceToTarget, targetLayer);
     const effectiveRange = attackMode
       ? attackMode.range + this.size + this.target.size
       : getMaxRange(this.stats) + this.size + this.target.size;
 
-    if (distanceToTarget > effectiveRange) {
+    if (distanceToTarget > effectiveRange || this.isLineOfFireBlocked()) {
       this.moveToTarget(delta, world);
-    } else if (isInMeleeMode(this.stats, this.size, distanceToTarget) && this.isUnit(this.target)) {
+    } else if (
+      isInMeleeMode(this.stats, this.size, distanceToTarget, targetLayer) &&
+      this.isUnit(this.target)
+    ) {
       this.applyCombatShuffle(delta);
       this.walkAnimationTime = resetWalkAnimation();
     } else {
@@ -586,12 +957,15 @@ export class UnitEntity extends BaseEntity implements IObstacle {
 
   private moveToTarget(delta: number, world: IBattleWorld): void {
     if (!this.target) return;
+    this.moveToward(delta, world, this.target.position);
+  }
 
+  private moveToward(delta: number, world: IBattleWorld, destination: Vector2): void {
     const context = this.createMovementContext(world);
 
     const result = moveTowardTarget(
       this.position,
-      this.target.position,
+      destination,
       this.id,
       this.getCollisionSize(),
       this.getModifiedMoveSpeed(),
@@ -604,28 +978,96 @@ export class UnitEntity extends BaseEntity implements IObstacle {
     }
   }
 
+  /**
+   * Close in on an ally until it is within repair range.
+   */
+  private stayInRepairRange(delta: number, world: IBattleWorld, ally: IDamageable): void {
+    const reach = (this.stats.repair?.range ?? 0) + this.size + ally.size;
+    if (this.position.distanceTo(ally.position) > reach) {
+      this.moveToward(delta, world, ally.position);
+    } else {
+      this.walkAnimationTime = resetWalkAnimation();
+    }
+  }
+
+  /**
+   * Unarmed support units keep up with the nearest ally instead of marching
+   * into the enemy; with no ally in aggro radius they march forward.
+   */
+  private followAllies(delta: number, world: IBattleWorld): void {
+    const allies = world.getAlliesNear(this, getAggroRadius(this.getArenaHeight()));
+    const nearest = findNearestDamageable(this.position, allies);
+    if (nearest) {
+      this.stayInRepairRange(delta, world, nearest);
+    } else {
+      this.marchForward(delta, world);
+    }
+  }
+
+  /**
+   * Retreat toward a fall back point; hold position once there.
+   */
+  private fallBack(delta: number, world: IBattleWorld, order: FallBackOrder): void {
+    const arrivalRadius = scaleValue(BASE_ORDER_ARRIVAL_RADIUS, this.getArenaHeight());
+    if (hasReachedDestination(this.position, order, arrivalRadius)) {
+      this.data.order = { type: 'hold' };
+      this.walkAnimationTime = resetWalkAnimation();
+      return;
+    }
+
+    const result = moveTowardTarget(
+      this.position,
+      getOrderDestination(order),
+      this.id,
+      this.getCollisionSize(),
+      this.getModifiedMoveSpeed(),
+      this.createMovementContext(world),
+      delta
+    );
+
+    if (result.didMove) {
+      this.applyMovement(result.position, result.movementDelta, result.previousPosition, delta);
+    }
+  }
+
   private createMovementContext(world: IBattleWorld): MovementContext {
     const initialCastleCount = world.getInitialCastleCount(getEnemyTeam(this.team));
     const currentCastles = world.getEnemyCastlesOf(this);
     const currentCount = currentCastles.filter((c) => !c.isDestroyed() && c.health > 0).length;
 
+    // Air units fly straight over walls and castles
+    const flying = this.isFlying;
+
     return {
       getAllies: () => this.getAlliesAsAllyData(world),
       getEnemyCastles: () => world.getEnemyCastlesOf(this),
       hasAnyEnemyCastleBeenDestroyed: () => currentCount < initialCastleCount,
-      getObstacles: () => [], // Obstacle avoidance not implemented in IBattleWorld yet
+      getObstacles: () => (flying ? [] : world.getTerrain()),
+      getPathDirection: flying
+        ? undefined
+        : (position, goal) => world.getPathDirection(this.team, position, goal),
       bounds: world.getArenaBounds(),
       arenaHeight: this.getArenaHeight(),
     };
   }
 
+  /**
+   * Nearby allies on the same layer for movement steering. The reach covers
+   * ally avoidance and the sidestep checks a few collision sizes ahead (see MovementSystem).
+   */
   private getAlliesAsAllyData(world: IBattleWorld): readonly AllyData[] {
-    return world.getAlliesOf(this).map((ally) => ({
-      id: ally.id,
-      position: ally.position,
-      health: ally.health,
-      getCollisionSize: () => ally.getCollisionSize(),
-    }));
+    const reach =
+      this.getCollisionSize() *
+      (DIRECTION_CHECK_MULTIPLIER + UNIT_SPACING * ALLY_AVOIDANCE_DISTANCE_MULTIPLIER);
+    return world
+      .getAlliesNear(this, reach)
+      .filter((ally) => ally.movementLayer === this.movementLayer)
+      .map((ally) => ({
+        id: ally.id,
+        position: ally.position,
+        health: ally.health,
+        getCollisionSize: () => ally.getCollisionSize(),
+      }));
   }
 
   /**
@@ -657,13 +1099,57 @@ export class UnitEntity extends BaseEntity implements IObstacle {
       shuffleTimer: this.shuffleTimer,
     };
 
-    applyShuffle(shuffleUnit, delta);
+    const world = this.getBattleWorld();
+    applyShuffle(shuffleUnit, delta, undefined, world?.getRandom() ?? Math.random);
 
     this.position = shuffleUnit.position;
     this.shuffleDirection = shuffleUnit.shuffleDirection;
     this.shuffleTimer = shuffleUnit.shuffleTimer;
   }
 
+  /**
+   * Whether a wall stands between this unit and a target it would shoot at.
+   * Melee attacks and shots to or from the air are never blocked.
+   */
+  private isLineOfFireBlocked(): boolean {
+    const world = this.getBattleWorld();
+    if (!world || !this.target || !this.stats.ranged) return false;
+    if (this.isFlying || this.target.movementLayer === 'air') return false;
+
+    const distanceToTarget = this.position.distanceTo(this.target.position);
+    if (isInMeleeMode(this.stats, this.size, distanceToTarget, this.target.movementLayer)) {
+      return false;
+    }
+
+    return world.isLineOfFireBlocked(this.position, this.target.position);
+  }
+
+  // === Terrain Phase ===
+
+  /**
+   * Swap terrain stat modifiers when the unit moves onto different ground.
+   * Air units are unaffected by the terrain below them.
+   */
+  private updateTerrainPhase(): void {
+    if (this.isStationary || this.isFlying) return;
+
+    const world = this.getBattleWorld();
+    if (!world) return;
+
+    const terrain = world.getTerrainAt(this.position)?.type;
+    if (terrain === this.data.terrain) return;
+
+    if (this.data.terrain) {
+      this.removeModifiersBySource(`terrain_${this.data.terrain}`);
+    }
+    if (terrain) {
+      for (const modifier of getTerrainModifiers(terrain)) {
+        this.applyModifier(createActiveModifier(modifier, 'terrain', `terrain_${terrain}`));
+      }
+    }
+    this.data.terrain = terrain;
+  }
+
   private isUnit(target: IDamageable): target is UnitEntity {
     return 'stats' in target;
   }
@@ -677,6 +1163,44 @@ export class UnitEntity extends BaseEntity implements IObstacle {
     }
   }
 
+  // === Giants ===
+
+  /**
+   * Trample every enemy the giant is touching, once per trample interval.
+   * Trampled units take kinetic damage and are shoved away from the giant.
+   * @param delta - Frame delta in seconds
+   * @param enemies - Nearby enemies
+   * @returns Units that were trampled (and moved)
+   */
+  trample(delta: number, enemies: readonly UnitEntity[]): UnitEntity[] {
+    const giant = this.giant;
+    if (!giant || this.isDying || this.isStunned) return [];
+
+    const targets = findTrampleTargets(this.position, this.getCollisionSize(), enemies);
+    const result = updateTrample(this.data.trampleCooldown ?? 0, delta, targets.length);
+    this.data.trampleCooldown = result.trampleCooldown;
+    if (!result.didTrample) return [];
+
+    const knockback = scaleValue(giant.trampleKnockback, this.getArenaHeight());
+    const fallback = getFacingDirection(this.position, this.team, this.target?.position);
+    for (const target of targets) {
+      target.displace(getTrampleOffset(this.position, target.position, knockback, fallback));
+      target.takeDamage(giant.trampleDamage * this.level, this, {
+        damageType: 'kinetic',
+        indirect: true,
+      });
+    }
+    return targets;
+  }
+
+  /**
+   * Move the unit by an offset (collisions and tramples), staying inside the arena.
+   */
+  displace(offset: Vector2): void {
+    this.position = this.position.add(offset);
+    this.enforceBounds();
+  }
+
   // === Damage & Death ===
 
   applyKnockback(direction: Vector2, distance: number): void {
@@ -684,23 +1208,75 @@ export class UnitEntity extends BaseEntity implements IObstacle {
     this.visualOffset = this.visualOffset.add(knockback);
   }
 
-  takeDamage(amount: number, attacker?: UnitEntity): void {
+  /**
+   * Restore health, capped at max health.
+   * Dead or dying units cannot be healed.
+   * @param amount - Health to restore
+   * @param healer - Unit credited with the healing (optional)
+   * @returns Amount of health actually restored
+   */
+  heal(amount: number, healer?: UnitEntity): number {
+    if (this.isDying || this._destroyed || amount <= 0) return 0;
     const previousHealth = this.health;
-    this.health = Math.max(0, this.health - amount);
+    this.health = Math.min(this.stats.maxHealth, this.health + amount);
+    const healed = this.health - previousHealth;
+    if (healed <= 0) return 0;
+
+    const world = this.getBattleWorld();
+    if (world && Math.round(healed) > 0) {
+      world.spawnDamageNumber(this.position.clone(), Math.round(healed), this.team, 'heal');
+    }
+
+    this.emit({
+      type: 'healed',
+      entity: this,
+      healer,
+      amount: healed,
+      previousHealth,
+      currentHealth: this.health,
+    });
+    return healed;
+  }
+
+  takeDamage(amount: number, attacker?: UnitEntity, profile: DamageProfile = {}): void {
+    const result = resolveDamage(
+      amount * this.getWeakPointMultiplier(attacker),
+      profile,
+      this.stats.armor ?? 0,
+      this.stats.resistances
+    );
+
+    // A shield soaks up damage after armor and resistances
+    let shieldAbsorbed = 0;
+    if (this.data.statusEffects) {
+      const shield = absorbDamage(this.data.statusEffects, result.dealt);
+      this.data.statusEffects = shield.statuses;
+      shieldAbsorbed = shield.absorbed;
+    }
+    const dealt = result.dealt - shieldAbsorbed;
+
+    const previousHealth = this.health;
+    this.health = Math.max(0, this.health - dealt);
 
     this.hitFlashTimer = HIT_FLASH_DURATION;
 
     const world = this.getBattleWorld();
-    if (world && amount > 0) {
+    if (world && dealt > 0) {
       const sourceTeam = attacker?.team ?? getEnemyTeam(this.team);
-      world.spawnDamageNumber(this.position.clone(), amount, sourceTeam);
+      world.spawnDamageNumber(this.position.clone(), dealt, sourceTeam);
     }
 
     this.emit({
       type: 'damaged',
       entity: this,
       attacker,
-      amount,
+      amount: dealt,
+      rawAmount: result.raw,
+      damageType: result.damageType,
+      armorAbsorbed: result.absorbed,
+      resisted: result.resisted,
+      shieldAbsorbed,
+      indirect: profile.indirect,
       previousHealth,
       currentHealth: this.health,
     });
@@ -711,6 +1287,17 @@ export class UnitEntity extends BaseEntity implements IObstacle {
     }
   }
 
+  /**
+   * Giants take extra damage from hits to their rear.
+   */
+  private getWeakPointMultiplier(attacker?: UnitEntity): number {
+    const multiplier = this.giant?.weakPointMultiplier ?? 1;
+    if (multiplier === 1 || !attacker) return 1;
+
+    const facing = getFacingDirection(this.position, this.team, this.target?.position);
+    return isWeakPointHit(this.position, facing, attacker.position) ? multiplier : 1;
+  }
+
   // === Render Data ===
 
   toRenderData(): UnitRenderData {
@@ -728,13 +1315,12 @@ export class UnitEntity extends BaseEntity implements IObstacle {
       color: this.color,
       shape: this.shape,
       size: this.size,
+      movementLayer: this.movementLayer,
+      isGiant: this.isGiant || undefined,
       shuffleDirection: this.shuffleDirection,
       shuffleTimer: this.shuffleTimer,
-      activeModifiers: this.activeModifiers.map((m) => ({
-        id: m.id,
-        sourceId: m.sourceId,
-        remainingDuration: m.remainingDuration,
-      })),
+      activeModifiers: toModifierRenderData(this.activeModifiers),
+      statusEffects: toStatusRenderData(this.statusEffects),
       visualOffset: this.visualOffset,
       hitFlashTimer: this.hitFlashTimer,
       deathFadeTimer: this.deathFadeTimer,
@@ -743,6 +1329,8 @@ export class UnitEntity extends BaseEntity implements IObstacle {
       aimingAt: this.getAimingTarget(),
       aimProgress: this.getAimProgress(),
       gridFootprint: this.gridFootprint,
+      elite: this.elite,
+      order: this.order,
     };
   }
 
@@ -22,10 +22,12 @@ export type { EntityKind } from '../IEntity';
 // Entity implementations
 export { UnitEntity, type UnitData } from './UnitEntity';
 export { ProjectileEntity, type ProjectileData, createProjectile } from './ProjectileEntity';
+export { BeamEntity, type BeamData, createBeam } from './BeamEntity';
 export { ShockwaveEntity, type ShockwaveData, createShockwave } from './ShockwaveEntity';
 export {
   DamageNumberEntity,
   type DamageNumberData,
+  type DamageNumberKind,
   type DamageNumberRenderData,
 } from './DamageNumberEntity';
 
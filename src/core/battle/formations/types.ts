@@ -13,7 +13,17 @@ import { FormationRole } from '../units/types';
  * Unit types currently supported in formations.
  * Matches the unit IDs in /src/data/units/*.json
  */
-export type UnitType = 'hound' | 'fang' | 'crawler' | 'arclight' | 'marksman' | 'void_eye';
+export type UnitType =
+  | 'hound'
+  | 'fang'
+  | 'crawler'
+  | 'arclight'
+  | 'marksman'
+  | 'void_eye'
+  | 'repair_drone'
+  | 'wasp'
+  | 'phoenix'
+  | 'fortress';
 
 /**
  * A unit placement within a legacy FormationTemplate.
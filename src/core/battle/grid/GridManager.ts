@@ -210,6 +210,21 @@ export function getEnemyDeploymentBounds(): GridBounds {
   };
 }
 
+/**
+ * Get the grid bounds for no man's land (between the deployment zones).
+ * Terrain features are placed here.
+ *
+ * @returns Grid bounds for no man's land
+ */
+export function getNoMansLandBounds(): GridBounds {
+  return {
+    col: GRID_FLANK_COLS,
+    row: GRID_DEPLOYMENT_ROWS,
+    cols: GRID_DEPLOYMENT_COLS,
+    rows: GRID_NO_MANS_LAND_ROWS,
+  };
+}
+
 /**
  * Get the grid bounds for the entire arena (all cells).
  *
@@ -10,8 +10,8 @@
 import { Vector2 } from '../../physics/Vector2';
 import type { ISelectable } from '../ISelectable';
 import type { GridFootprint } from './GridTypes';
-import { snapFootprintToGrid } from './GridManager';
-import { validateSquadMoves } from '../DragController';
+import { getPlayerDeploymentBounds, snapFootprintToGrid } from './GridManager';
+import { clampSquadCentroidToBounds, validateSquadMoves } from '../DragController';
 import { generateCastleObstacleGridBounds } from '../FormationManager';
 
 // =============================================================================
@@ -194,14 +194,23 @@ export function applyGridSnapToMoves(input: GridSnapInput): UnitMove[] {
     // Snap the squad centroid to the grid
     const snapResult = snapSquadCentroidToGrid(squadUnits, footprint, cellSize);
 
+    // Giants slide along the deployment zone edge instead of reverting
+    let delta = snapResult.delta;
+    if (squadUnits[0].unit.isGiant) {
+      const clamped = clampSquadCentroidToBounds(
+        snapResult.snappedCentroid,
+        footprint,
+        cellSize,
+        getPlayerDeploymentBounds()
+      );
+      delta = clamped.subtract(snapResult.centroid);
+    }
+
     // Apply the same delta to all units in the squad
     for (const squadUnit of squadUnits) {
       snappedMoves.push({
         unitId: squadUnit.unitId,
-        position: new Vector2(
-          squadUnit.position.x + snapResult.delta.x,
-          squadUnit.position.y + snapResult.delta.y
-        ),
+        position: new Vector2(squadUnit.position.x + delta.x, squadUnit.position.y + delta.y),
       });
     }
   }
@@ -25,6 +25,7 @@ export {
   // Deployment zones
   getPlayerDeploymentBounds,
   getEnemyDeploymentBounds,
+  getNoMansLandBounds,
   getArenaBounds,
   // Position finding
   findNonOverlappingGridPosition,
@@ -13,6 +13,15 @@ export * from './BoundsEnforcer';
 // Deployment system (wave spawning and overlap resolution)
 export * from './deployment';
 
+// Headless simulation (balance sweeps)
+export * from './simulation';
+
+// Replays (recording and playback)
+export * from './replay';
+
+// Offline progression (time-away estimates)
+export * from './offline';
+
 // Settings persistence (Godot-portable)
 export * from './BattleSettings';
 
@@ -21,6 +30,13 @@ export * from './units';
 export * from './modifiers';
 export * from './abilities';
 export * from './upgrades';
+export * from './waves';
+export * from './elites';
+export * from './obstacles';
+export * from './pathfinding';
+export * from './spatial';
+export * from './orders';
+export * from './status';
 
 // Entity system (Godot-portable lifecycle)
 export * from './IEntity';
@@ -48,6 +64,7 @@ export {
   calculateAlliedSpawnPositions,
   calculateDeterministicAlliedPositions,
   getDefaultAlliedComposition,
+  getDefaultAlliedArmy,
   selectAlliedPatternForWave,
   // Enemy formations
   DEFAULT_ENEMY_PATTERNS,
@@ -62,6 +79,7 @@ export {
   type FormationTemplate,
   type UnitPlacement,
   type SpawnPosition,
+  type AlliedSquad,
   type ArenaBounds,
   type EnemyFormationPattern,
   type RoleConfig,
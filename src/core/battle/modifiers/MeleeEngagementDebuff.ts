@@ -4,6 +4,7 @@
  * Debuff applied when units engage in melee combat.
  * Slows both the attacker (immediately) and defender (after delay).
  * Attacker's debuff is cleansed when defender dies.
+ * Built from regular stat modifiers, so it composes with every other effect.
  *
  * Godot-portable: No React/browser dependencies.
  */
@@ -16,7 +17,8 @@ import {
   MELEE_ENGAGEMENT_DEFENDER_DELAY,
 } from '../BattleConfig';
 import { UnitTeam } from '../units/types';
-import { TemporaryModifier } from './TemporaryModifier';
+import { createActiveModifier } from './ModifierCalculator';
+import { ActiveModifier, Modifier, StatTarget } from './types';
 
 /**
  * Melee engagement debuff configuration.
@@ -41,49 +43,58 @@ export const MELEE_ENGAGEMENT_DEBUFF = {
   defenderDelay: MELEE_ENGAGEMENT_DEFENDER_DELAY,
 } as const;
 
+function engagementModifier(id: string, target: StatTarget, mod: number): Modifier {
+  return {
+    id: `${MELEE_ENGAGEMENT_DEBUFF.sourceId}_${id}`,
+    target,
+    type: 'multiply',
+    value: 1 + mod,
+  };
+}
+
+/**
+ * Stat modifiers making up the debuff. The config mods are multiplicative
+ * (-0.5 = half speed), so overlapping slows compound instead of adding up.
+ * Mods of 0 change nothing and are left out.
+ */
+const MELEE_ENGAGEMENT_MODIFIERS: Modifier[] = [
+  engagementModifier('move_speed', 'moveSpeed', MELEE_ENGAGEMENT_DEBUFF.moveSpeedMod),
+  engagementModifier('melee_damage', 'melee.damage', MELEE_ENGAGEMENT_DEBUFF.damageMod),
+  engagementModifier('ranged_damage', 'ranged.damage', MELEE_ENGAGEMENT_DEBUFF.damageMod),
+  engagementModifier('collision_size', 'collisionSize', MELEE_ENGAGEMENT_DEBUFF.collisionSizeMod),
+].filter((modifier) => modifier.value !== 1);
+
+function createEngagementModifiers(sourceTeam: UnitTeam, linkedUnitId?: string): ActiveModifier[] {
+  return MELEE_ENGAGEMENT_MODIFIERS.map((modifier) => ({
+    ...createActiveModifier(
+      modifier,
+      'debuff',
+      MELEE_ENGAGEMENT_DEBUFF.sourceId,
+      MELEE_ENGAGEMENT_DEBUFF.duration
+    ),
+    sourceTeam,
+    linkedUnitId,
+    stacking: 'refresh' as const,
+  }));
+}
+
 /**
  * Create a melee engagement debuff for the attacker.
  * Linked to the defender so it's cleansed when defender dies.
  *
- * @param attackerId - ID of the attacking unit
  * @param defenderId - ID of the defending unit (linked for death cleanup)
  * @param defenderTeam - Team of the defender (source of the debuff)
  */
-export function createAttackerDebuff(
-  attackerId: string,
-  defenderId: string,
-  defenderTeam: UnitTeam
-): TemporaryModifier {
-  return {
-    id: `${MELEE_ENGAGEMENT_DEBUFF.sourceId}_${attackerId}_${Date.now()}`,
-    sourceId: MELEE_ENGAGEMENT_DEBUFF.sourceId,
-    sourceTeam: defenderTeam,
-    moveSpeedMod: MELEE_ENGAGEMENT_DEBUFF.moveSpeedMod,
-    damageMod: MELEE_ENGAGEMENT_DEBUFF.damageMod,
-    collisionSizeMod: MELEE_ENGAGEMENT_DEBUFF.collisionSizeMod,
-    remainingDuration: MELEE_ENGAGEMENT_DEBUFF.duration,
-    linkedUnitId: defenderId,
-  };
+export function createAttackerDebuff(defenderId: string, defenderTeam: UnitTeam): ActiveModifier[] {
+  return createEngagementModifiers(defenderTeam, defenderId);
 }
 
 /**
  * Create a melee engagement debuff for the defender.
  * No linked unit - expires naturally.
  *
- * @param defenderId - ID of the defending unit
  * @param attackerTeam - Team of the attacker (source of the debuff)
  */
-export function createDefenderDebuff(
-  defenderId: string,
-  attackerTeam: UnitTeam
-): TemporaryModifier {
-  return {
-    id: `${MELEE_ENGAGEMENT_DEBUFF.sourceId}_${defenderId}_${Date.now()}`,
-    sourceId: MELEE_ENGAGEMENT_DEBUFF.sourceId,
-    sourceTeam: attackerTeam,
-    moveSpeedMod: MELEE_ENGAGEMENT_DEBUFF.moveSpeedMod,
-    damageMod: MELEE_ENGAGEMENT_DEBUFF.damageMod,
-    collisionSizeMod: MELEE_ENGAGEMENT_DEBUFF.collisionSizeMod,
-    remainingDuration: MELEE_ENGAGEMENT_DEBUFF.duration,
-  };
+export function createDefenderDebuff(attackerTeam: UnitTeam): ActiveModifier[] {
+  return createEngagementModifiers(attackerTeam);
 }
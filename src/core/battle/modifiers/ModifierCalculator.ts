@@ -205,7 +205,8 @@ export function createActiveModifier(
 
 /**
  * Adds or stacks a modifier on an existing list.
- * If a modifier with the same ID and source exists, increases stacks.
+ * If a modifier with the same ID and source exists, increases stacks
+ * (or only extends the duration for 'refresh' modifiers).
  * Otherwise, adds a new modifier.
  *
  * @param modifiers - Current list of modifiers
@@ -227,11 +228,24 @@ export function addOrStackModifier(
     return [...modifiers, newModifier];
   }
 
-  // Stack existing
   const existing = modifiers[index];
+  const updated = [...modifiers];
+
+  if (newModifier.stacking === 'refresh') {
+    // Keep the stacks, extend to the longer duration
+    updated[index] = {
+      ...existing,
+      duration:
+        existing.duration === undefined || newModifier.duration === undefined
+          ? undefined
+          : Math.max(existing.duration, newModifier.duration),
+    };
+    return updated;
+  }
+
+  // Stack existing
   const newStacks = Math.min(existing.stacks + newModifier.stacks, maxStacks);
 
-  const updated = [...modifiers];
   updated[index] = {
     ...existing,
     stacks: newStacks,
@@ -6,6 +6,4 @@
 
 export * from './types';
 export * from './ModifierCalculator';
-export * from './TemporaryModifier';
-export { ModifierManager } from './ModifierManager';
 export * from './MeleeEngagementDebuff';
@@ -1,12 +1,15 @@
 /**
  * Modifier System Types
  *
- * Modifiers change unit stats from various sources (upgrades, abilities, equipment).
- * They support different stacking behaviors and application orders.
+ * Modifiers change unit stats from various sources (upgrades, abilities, equipment,
+ * terrain, combat buffs and debuffs). They support different stacking behaviors
+ * and application orders.
  *
  * Godot-portable: No React/browser dependencies.
  */
 
+import type { UnitTeam } from '../units/types';
+
 /**
  * Valid stat targets for modifiers.
  * Supports both top-level stats and nested attack mode stats.
@@ -20,7 +23,12 @@ export type StatTarget =
   | 'melee.range'
   | 'ranged.damage'
   | 'ranged.attackSpeed'
-  | 'ranged.range';
+  | 'ranged.range'
+  | 'repair.damage'
+  | 'repair.attackSpeed'
+  | 'repair.range'
+  /** Collision box size during battle (does not affect visuals) */
+  | 'collisionSize';
 
 /**
  * How the modifier value is applied to the stat.
@@ -33,7 +41,23 @@ export type ModifierType = 'flat' | 'percent' | 'multiply';
 /**
  * Where the modifier comes from, used for filtering/debugging.
  */
-export type ModifierSource = 'upgrade' | 'ability' | 'equipment' | 'buff' | 'debuff' | 'innate';
+export type ModifierSource =
+  | 'upgrade'
+  | 'prestige'
+  | 'ability'
+  | 'equipment'
+  | 'buff'
+  | 'debuff'
+  | 'innate'
+  | 'affix'
+  | 'terrain';
+
+/**
+ * What happens when a modifier is applied again from the same source.
+ * - stack: Adds stacks (up to a maximum) and takes the new duration
+ * - refresh: Stays at its stacks and keeps the longer of the two durations
+ */
+export type ModifierStacking = 'stack' | 'refresh';
 
 /**
  * A modifier definition - the template for stat changes.
@@ -87,6 +111,31 @@ export interface ActiveModifier {
 
   /** Timestamp when this modifier was applied (for ordering) */
   appliedAt: number;
+
+  /**
+   * Team that applied this modifier. A modifier from the other team is a
+   * debuff (cleansed by rallies). Omitted = the unit's own (upgrades, terrain).
+   */
+  sourceTeam?: UnitTeam;
+
+  /**
+   * If set, the modifier is removed when this unit dies.
+   * Used for melee engagement - the attacker's debuff ends with the defender.
+   */
+  linkedUnitId?: string;
+
+  /** Re-application behavior (omitted = stack) */
+  stacking?: ModifierStacking;
+}
+
+/**
+ * A modifier waiting to be applied after a delay.
+ */
+export interface PendingModifier {
+  /** The modifier to apply */
+  modifier: ActiveModifier;
+  /** Time remaining before application (seconds) */
+  delay: number;
 }
 
 /**
@@ -180,3 +180,78 @@ export function calculateObstacleAvoidance(
 
   return avoidDir.multiply(strength * velocityMag);
 }
+
+/**
+ * Check if a line segment passes through an obstacle's bounds.
+ * Used for line of fire and path checks across walls.
+ * @param from - Segment start
+ * @param to - Segment end
+ * @param obstacle - The obstacle
+ * @param cellSize - Size of a grid cell in pixels
+ * @returns True if any part of the segment is inside the bounds
+ */
+export function segmentIntersectsObstacle(
+  from: Vector2,
+  to: Vector2,
+  obstacle: IObstacle,
+  cellSize: number
+): boolean {
+  const bounds = getObstacleBounds(obstacle, cellSize);
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+
+  // Clip the segment against each slab (Liang-Barsky)
+  let tMin = 0;
+  let tMax = 1;
+  const edges: [number, number][] = [
+    [-dx, from.x - bounds.x],
+    [dx, bounds.x + bounds.width - from.x],
+    [-dy, from.y - bounds.y],
+    [dy, bounds.y + bounds.height - from.y],
+  ];
+
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) return false; // Parallel to and outside this slab
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      tMin = Math.max(tMin, t);
+    } else {
+      tMax = Math.min(tMax, t);
+    }
+    if (tMin > tMax) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Push a circle (unit) out of an obstacle along the shallowest axis.
+ * @param center - Circle center
+ * @param radius - Circle radius
+ * @param obstacle - The obstacle
+ * @param cellSize - Size of a grid cell in pixels
+ * @returns Corrected center, or null if the circle does not overlap
+ */
+export function pushCircleOutOfObstacle(
+  center: Vector2,
+  radius: number,
+  obstacle: IObstacle,
+  cellSize: number
+): Vector2 | null {
+  if (!circleCollidesWithObstacle(center, radius, obstacle, cellSize)) return null;
+
+  const bounds = getObstacleBounds(obstacle, cellSize);
+  const pushLeft = center.x + radius - bounds.x;
+  const pushRight = bounds.x + bounds.width - (center.x - radius);
+  const pushUp = center.y + radius - bounds.y;
+  const pushDown = bounds.y + bounds.height - (center.y - radius);
+  const shallowest = Math.min(pushLeft, pushRight, pushUp, pushDown);
+
+  if (shallowest === pushLeft) return new Vector2(center.x - pushLeft, center.y);
+  if (shallowest === pushRight) return new Vector2(center.x + pushRight, center.y);
+  if (shallowest === pushUp) return new Vector2(center.x, center.y - pushUp);
+  return new Vector2(center.x, center.y + pushDown);
+}
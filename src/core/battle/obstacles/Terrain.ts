@@ -0,0 +1,177 @@
+/**
+ * Battlefield Terrain
+ *
+ * Terrain features placed in no man's land:
+ * - Walls block movement and projectiles
+ * - Rough ground slows units crossing it
+ * - High ground extends the range of ranged units standing on it
+ *
+ * Features come from a wave script's terrain list or are generated per wave
+ * (see TerrainGenerator). They are static obstacles for the whole battle.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import { HIGH_GROUND_RANGE_BONUS, ROUGH_GROUND_SPEED_MULTIPLIER } from '../BattleConfig';
+import {
+  doGridBoundsOverlap,
+  getNoMansLandBounds,
+  gridBoundsToPixelCenter,
+  isGridBoundsWithin,
+} from '../grid/GridManager';
+import type { GridBounds, GridFootprint, GridPosition } from '../grid/GridTypes';
+import type { Modifier } from '../modifiers/types';
+import { Vector2 } from '../../physics/Vector2';
+import { IObstacle, isPointInObstacle } from './Obstacle';
+
+/**
+ * Kind of terrain feature.
+ */
+export type TerrainType = 'wall' | 'rough' | 'high_ground';
+
+/**
+ * All terrain types (for validation and generation).
+ */
+export const TERRAIN_TYPES: readonly TerrainType[] = ['wall', 'rough', 'high_ground'];
+
+/**
+ * Terrain feature definition - from wave JSON or the generator.
+ */
+export interface TerrainDefinition {
+  type: TerrainType;
+
+  /** Grid cell of the feature's top-left corner (inside no man's land) */
+  cell: GridPosition;
+
+  /** Size in grid cells */
+  footprint: GridFootprint;
+}
+
+/**
+ * A terrain feature placed in the arena.
+ */
+export interface TerrainFeature extends IObstacle {
+  readonly type: TerrainType;
+  /** Whether projectiles stop when they reach this feature */
+  readonly blocksProjectiles: boolean;
+  /** Definition the feature was placed from (recorded in replays) */
+  readonly definition: TerrainDefinition;
+}
+
+/**
+ * Grid bounds covered by a terrain definition.
+ */
+export function getTerrainGridBounds(definition: TerrainDefinition): GridBounds {
+  return { ...definition.cell, ...definition.footprint };
+}
+
+/**
+ * Place a terrain feature in the arena.
+ * @param id - Unique feature ID
+ * @param definition - Feature definition
+ * @param cellSize - Size of a grid cell in pixels
+ */
+export function createTerrainFeature(
+  id: string,
+  definition: TerrainDefinition,
+  cellSize: number
+): TerrainFeature {
+  const isWall = definition.type === 'wall';
+  return {
+    id,
+    type: definition.type,
+    position: gridBoundsToPixelCenter(getTerrainGridBounds(definition), cellSize),
+    gridFootprint: definition.footprint,
+    blocksMovement: isWall,
+    blocksDeployment: true,
+    blocksProjectiles: isWall,
+    definition,
+  };
+}
+
+/**
+ * Stat modifiers applied to units standing on a terrain type.
+ * Walls have none (units cannot stand on them).
+ */
+export function getTerrainModifiers(type: TerrainType): Modifier[] {
+  switch (type) {
+    case 'rough':
+      return [
+        {
+          id: 'terrain_rough_speed',
+          target: 'moveSpeed',
+          type: 'multiply',
+          value: ROUGH_GROUND_SPEED_MULTIPLIER,
+        },
+      ];
+    case 'high_ground':
+      return [
+        {
+          id: 'terrain_high_ground_range',
+          target: 'ranged.range',
+          type: 'percent',
+          value: HIGH_GROUND_RANGE_BONUS,
+        },
+      ];
+    case 'wall':
+      return [];
+  }
+}
+
+/**
+ * Find the terrain feature containing a point.
+ * @returns The feature, or null on open ground
+ */
+export function findTerrainAt(
+  point: Vector2,
+  terrain: readonly TerrainFeature[],
+  cellSize: number
+): TerrainFeature | null {
+  return terrain.find((feature) => isPointInObstacle(point, feature, cellSize)) ?? null;
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * Validates a terrain list (from wave JSON).
+ * Features must be inside no man's land and must not overlap.
+ *
+ * @returns Error messages (empty if valid)
+ */
+export function validateTerrain(definitions: TerrainDefinition[]): string[] {
+  const errors: string[] = [];
+  const placed: GridBounds[] = [];
+
+  definitions.forEach((definition, index) => {
+    const label = `terrain ${index} (${definition.type})`;
+    if (!TERRAIN_TYPES.includes(definition.type)) {
+      errors.push(`${label}: unknown terrain type`);
+      return;
+    }
+
+    const { cell, footprint } = definition;
+    if (
+      !cell ||
+      !footprint ||
+      !Number.isInteger(cell.col) ||
+      !Number.isInteger(cell.row) ||
+      !isPositiveInteger(footprint.cols) ||
+      !isPositiveInteger(footprint.rows)
+    ) {
+      errors.push(`${label}: cell and footprint must be whole grid cells`);
+      return;
+    }
+
+    const bounds = getTerrainGridBounds(definition);
+    if (!isGridBoundsWithin(bounds, getNoMansLandBounds())) {
+      errors.push(`${label}: outside no man's land`);
+    } else if (placed.some((other) => doGridBoundsOverlap(bounds, other))) {
+      errors.push(`${label}: overlaps another terrain feature`);
+    }
+    placed.push(bounds);
+  });
+
+  return errors;
+}
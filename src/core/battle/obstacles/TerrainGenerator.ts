@@ -0,0 +1,80 @@
+/**
+ * Terrain Generator
+ *
+ * Procedural terrain for waves without scripted terrain. Features are
+ * spread across no man's land with open gaps between them, so squads
+ * can always pass. Deterministic per wave number.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import {
+  TERRAIN_HIGH_GROUND_COLS,
+  TERRAIN_MAX_FEATURES,
+  TERRAIN_MAX_WALLS,
+  TERRAIN_MIN_FEATURES,
+  TERRAIN_MIN_GAP_COLS,
+  TERRAIN_MIN_WAVE,
+  TERRAIN_PLACEMENT_ATTEMPTS,
+  TERRAIN_ROUGH_COLS,
+  TERRAIN_WALL_COLS,
+} from '../BattleConfig';
+import { doGridBoundsOverlap, getNoMansLandBounds } from '../grid/GridManager';
+import type { GridBounds } from '../grid/GridTypes';
+import { createSeededRandom } from '../../utils/Random';
+import { TERRAIN_TYPES, TerrainDefinition, TerrainType } from './Terrain';
+
+const FEATURE_COLS: Record<TerrainType, number> = {
+  wall: TERRAIN_WALL_COLS,
+  rough: TERRAIN_ROUGH_COLS,
+  high_ground: TERRAIN_HIGH_GROUND_COLS,
+};
+
+/**
+ * Generates terrain for a wave (none before TERRAIN_MIN_WAVE).
+ *
+ * @param waveNumber - Wave number, also the seed
+ * @returns Terrain definitions, left to right in placement order
+ */
+export function generateTerrain(waveNumber: number): TerrainDefinition[] {
+  if (waveNumber < TERRAIN_MIN_WAVE) return [];
+
+  const random = createSeededRandom(waveNumber * 6151 + 2909);
+  const area = getNoMansLandBounds();
+  const count =
+    TERRAIN_MIN_FEATURES + Math.floor(random() * (TERRAIN_MAX_FEATURES - TERRAIN_MIN_FEATURES + 1));
+
+  const terrain: TerrainDefinition[] = [];
+  const occupied: GridBounds[] = [];
+  let walls = 0;
+
+  for (let i = 0; i < count; i++) {
+    const types =
+      walls < TERRAIN_MAX_WALLS ? TERRAIN_TYPES : TERRAIN_TYPES.filter((t) => t !== 'wall');
+    const type = types[Math.floor(random() * types.length)];
+    const cols = FEATURE_COLS[type];
+
+    for (let attempt = 0; attempt < TERRAIN_PLACEMENT_ATTEMPTS; attempt++) {
+      const col = area.col + Math.floor(random() * (area.cols - cols + 1));
+      // Keep a gap on both sides so features never merge into a barrier
+      const padded: GridBounds = {
+        col: col - TERRAIN_MIN_GAP_COLS,
+        row: area.row,
+        cols: cols + TERRAIN_MIN_GAP_COLS * 2,
+        rows: area.rows,
+      };
+      if (occupied.some((other) => doGridBoundsOverlap(padded, other))) continue;
+
+      occupied.push({ col, row: area.row, cols, rows: area.rows });
+      terrain.push({
+        type,
+        cell: { col, row: area.row },
+        footprint: { cols, rows: area.rows },
+      });
+      if (type === 'wall') walls++;
+      break;
+    }
+  }
+
+  return terrain;
+}
@@ -9,4 +9,17 @@ export {
   circleCollidesWithObstacle,
   boundsOverlap,
   calculateObstacleAvoidance,
+  segmentIntersectsObstacle,
+  pushCircleOutOfObstacle,
 } from './Obstacle';
+
+export type { TerrainType, TerrainDefinition, TerrainFeature } from './Terrain';
+export {
+  TERRAIN_TYPES,
+  getTerrainGridBounds,
+  createTerrainFeature,
+  getTerrainModifiers,
+  findTerrainAt,
+  validateTerrain,
+} from './Terrain';
+export { generateTerrain } from './TerrainGenerator';
@@ -0,0 +1,201 @@
+/**
+ * Offline Progress
+ *
+ * Estimates the battles auto-battle would have fought while the player was
+ * away and the gold/VEST they earned. Offline time always farms the current
+ * wave: push mode pauses while away, so a losing streak never drops waves.
+ *
+ * See GAME_DESIGN.md "Offline Progression".
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import {
+  AUTO_BATTLE_COUNTDOWN_SECONDS,
+  MAX_OFFLINE_TIME_SECONDS,
+  MIN_OFFLINE_TIME_SECONDS,
+  OFFLINE_DEFAULT_CLEAR_TIME,
+  OFFLINE_EFFICIENCY,
+  OFFLINE_SIMULATION_DELTA,
+  OFFLINE_UNCLEARED_WIN_RATE,
+  calculateWaveGold,
+} from '../BattleConfig';
+import type { BattleSettingsData } from '../BattleSettings';
+import { HeadlessBattleConfig, runHeadlessBattle } from '../simulation/HeadlessBattleRunner';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * How well the player's army does at the farmed wave.
+ */
+export interface OfflineArmyStrength {
+  /** Chance to clear the wave (0-1) */
+  winRate: number;
+  /** Seconds per battle */
+  clearTime: number;
+}
+
+/**
+ * Inputs for an offline progress calculation.
+ */
+export interface OfflineProgressInput {
+  /** When the game was last saved (ms since epoch, 0 = never) */
+  lastSavedAt: number;
+  /** Current time (ms since epoch) */
+  now: number;
+  /** Wave the army was on */
+  waveNumber: number;
+  /** Offline battles only happen with auto-battle on */
+  autoBattle: boolean;
+  /** Whether the player was farming (stay mode) rather than pushing */
+  stayOnWave: boolean;
+  army: OfflineArmyStrength;
+}
+
+/**
+ * Result of an offline progress calculation.
+ */
+export interface OfflineProgressResult {
+  /** Real time away (seconds) */
+  secondsAway: number;
+  /** Time battles were fought for (seconds, capped at MAX_OFFLINE_TIME_SECONDS) */
+  secondsCounted: number;
+  /** True if time away exceeded the cap */
+  capped: boolean;
+  /** Wave farmed while away */
+  waveNumber: number;
+  battlesFought: number;
+  wavesCleared: number;
+  goldEarned: number;
+  vestEarned: number;
+  /** True if the player was pushing; offline time farmed the current wave instead */
+  pushPaused: boolean;
+}
+
+/**
+ * Configuration for simulating the army at a wave.
+ */
+export type OfflineSimulationConfig = Omit<HeadlessBattleConfig, 'seed'>;
+
+// =============================================================================
+// ARMY STRENGTH
+// =============================================================================
+
+/**
+ * Estimate army strength from the player's records, without simulating.
+ *
+ * @param waveNumber - Wave being farmed
+ * @param highestWave - Highest wave reached (every wave below it has been cleared)
+ * @param fastestTime - Recorded fastest clear of the wave (simulated seconds), if any
+ */
+export function estimateOfflineArmy(
+  waveNumber: number,
+  highestWave: number,
+  fastestTime: number | null
+): OfflineArmyStrength {
+  const cleared = fastestTime !== null || waveNumber < highestWave;
+  return {
+    winRate: cleared ? 1 : OFFLINE_UNCLEARED_WIN_RATE,
+    clearTime: fastestTime ?? OFFLINE_DEFAULT_CLEAR_TIME,
+  };
+}
+
+/**
+ * Measure army strength by running headless battles of the wave.
+ * Uses a coarse tick (OFFLINE_SIMULATION_DELTA) unless the config sets one.
+ *
+ * @param config - Battle configuration (wave, registries, ally layout)
+ * @param seeds - One battle per seed
+ */
+export function simulateOfflineArmy(
+  config: OfflineSimulationConfig,
+  seeds: readonly number[]
+): OfflineArmyStrength {
+  if (seeds.length === 0) {
+    return { winRate: OFFLINE_UNCLEARED_WIN_RATE, clearTime: OFFLINE_DEFAULT_CLEAR_TIME };
+  }
+
+  let wins = 0;
+  let totalDuration = 0;
+  for (const seed of seeds) {
+    const result = runHeadlessBattle({
+      fixedDelta: OFFLINE_SIMULATION_DELTA,
+      ...config,
+      seed,
+    });
+    if (result.outcome === 'player_victory') wins++;
+    // Real-time duration, as the player would have waited for it
+    totalDuration += result.stats.battleDuration;
+  }
+
+  return { winRate: wins / seeds.length, clearTime: totalDuration / seeds.length };
+}
+
+// =============================================================================
+// CALCULATION
+// =============================================================================
+
+/**
+ * Calculate offline progress.
+ *
+ * battles = timeAway / (clearTime + auto-battle countdown)
+ * gold    = battles × winRate × waveGold × OFFLINE_EFFICIENCY
+ *
+ * @returns The result, or null if nothing happened while away
+ *   (first launch, auto-battle off, or away less than MIN_OFFLINE_TIME_SECONDS)
+ */
+export function calculateOfflineProgress(
+  input: OfflineProgressInput
+): OfflineProgressResult | null {
+  if (input.lastSavedAt <= 0 || !input.autoBattle) return null;
+
+  const secondsAway = (input.now - input.lastSavedAt) / 1000;
+  if (secondsAway < MIN_OFFLINE_TIME_SECONDS) return null;
+
+  const secondsCounted = Math.min(secondsAway, MAX_OFFLINE_TIME_SECONDS);
+  const secondsPerBattle = Math.max(input.army.clearTime, 1) + AUTO_BATTLE_COUNTDOWN_SECONDS;
+  const winRate = Math.min(1, Math.max(0, input.army.winRate));
+
+  const battlesFought = Math.floor(secondsCounted / secondsPerBattle);
+  const wavesCleared = Math.floor(battlesFought * winRate);
+  const goldEarned = Math.floor(
+    wavesCleared * calculateWaveGold(input.waveNumber) * OFFLINE_EFFICIENCY
+  );
+
+  return {
+    secondsAway,
+    secondsCounted,
+    capped: secondsAway > MAX_OFFLINE_TIME_SECONDS,
+    waveNumber: input.waveNumber,
+    battlesFought,
+    wavesCleared,
+    goldEarned,
+    vestEarned: goldEarned,
+    pushPaused: !input.stayOnWave,
+  };
+}
+
+/**
+ * Apply offline gold to battle settings and stamp the save time.
+ * Returns new settings (immutable).
+ */
+export function applyOfflineProgress(
+  settings: BattleSettingsData,
+  result: OfflineProgressResult,
+  now: number
+): BattleSettingsData {
+  return { ...settings, gold: settings.gold + result.goldEarned, lastSavedAt: now };
+}
+
+/**
+ * Format time away for display.
+ * Examples: 75 -> "1m", 3900 -> "1h 5m", 30 -> "0m"
+ */
+export function formatTimeAway(seconds: number): string {
+  const totalMinutes = Math.floor(Math.max(0, seconds) / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
@@ -0,0 +1,20 @@
+/**
+ * Offline Module
+ *
+ * Offline progression estimates for auto-battle.
+ * All exports are Godot-portable.
+ */
+
+export type {
+  OfflineArmyStrength,
+  OfflineProgressInput,
+  OfflineProgressResult,
+  OfflineSimulationConfig,
+} from './OfflineProgress';
+export {
+  estimateOfflineArmy,
+  simulateOfflineArmy,
+  calculateOfflineProgress,
+  applyOfflineProgress,
+  formatTimeAway,
+} from './OfflineProgress';
@@ -0,0 +1,56 @@
+/**
+ * Order Input
+ *
+ * Maps player input to tactical orders: hotkeys for orders without a
+ * target, and a command click that focuses an enemy squad or falls back
+ * to open ground.
+ *
+ * Godot equivalent: Order handling in the battle input handler.
+ */
+
+import { Vector2 } from '../../physics/Vector2';
+import { findSquadAtPosition } from '../InputAdapter';
+import { ISelectable } from '../ISelectable';
+import { filterMovableUnits, filterSelectionByTeam } from '../SelectionManager';
+import { isPlayerTeam } from '../TeamUtils';
+import type { ChargeOrder, FocusOrder, FallBackOrder, HoldOrder } from './types';
+
+/**
+ * Orders given by key (lowercase). Null returns squads to auto-battle.
+ */
+export const ORDER_HOTKEYS: Readonly<Record<string, HoldOrder | ChargeOrder | null>> = {
+  h: { type: 'hold' },
+  c: { type: 'charge' },
+  x: null,
+};
+
+/**
+ * Selected units that can take orders (mobile player units).
+ */
+export function getOrderableUnitIds<T extends ISelectable>(
+  selectedIds: string[],
+  units: T[]
+): string[] {
+  return filterMovableUnits(filterSelectionByTeam(selectedIds, units, 'player'), units);
+}
+
+/**
+ * Order for a command click: focus the enemy squad under the cursor,
+ * otherwise fall back to the clicked point.
+ *
+ * @param position - Click position in world space
+ * @param units - All units
+ * @param arenaHeight - Arena height for squad hit-testing
+ */
+export function getOrderForClick<T extends ISelectable>(
+  position: Vector2,
+  units: T[],
+  arenaHeight: number
+): FocusOrder | FallBackOrder {
+  const enemies = units.filter((u) => !isPlayerTeam(u.team));
+  const clicked = findSquadAtPosition(position, enemies, arenaHeight);
+  if (clicked) {
+    return { type: 'focus', targetSquadId: clicked.squadId };
+  }
+  return { type: 'fall_back', x: position.x, y: position.y };
+}
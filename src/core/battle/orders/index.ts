@@ -0,0 +1,8 @@
+/**
+ * Tactical Orders
+ *
+ * Player-issued orders for squads during battle.
+ */
+
+export * from './types';
+export * from './OrderInput';
@@ -0,0 +1,58 @@
+/**
+ * Tactical Order Types
+ *
+ * Orders the player gives selected squads during battle. An order
+ * overrides a unit's targeting and movement until it completes, becomes
+ * invalid or is replaced. Units without an order auto-battle as usual.
+ *
+ * Orders are plain JSON-safe data so replays can record them as inputs.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+/**
+ * Stay put and only fight enemies already in range.
+ */
+export interface HoldOrder {
+  type: 'hold';
+}
+
+/**
+ * Attack one enemy squad until it is wiped out.
+ */
+export interface FocusOrder {
+  type: 'focus';
+  /** Squad to attack */
+  targetSquadId: string;
+}
+
+/**
+ * Retreat to a point without engaging, then hold there.
+ */
+export interface FallBackOrder {
+  type: 'fall_back';
+  /** Destination in pixels */
+  x: number;
+  y: number;
+}
+
+/**
+ * Engage the nearest enemy anywhere on the field, skipping the march.
+ */
+export interface ChargeOrder {
+  type: 'charge';
+}
+
+export type SquadOrder = HoldOrder | FocusOrder | FallBackOrder | ChargeOrder;
+
+export type SquadOrderType = SquadOrder['type'];
+
+/**
+ * All order types, in hotkey/legend order.
+ */
+export const SQUAD_ORDER_TYPES: readonly SquadOrderType[] = [
+  'hold',
+  'focus',
+  'fall_back',
+  'charge',
+];
@@ -73,18 +73,22 @@ export function isUnitMoving(
 
 /**
  * Spawn dust particles for a moving unit.
+ * @param random - Random function to use (default: Math.random)
  */
-export function spawnDustParticles(unit: DustSpawnUnit): DustParticle[] {
+export function spawnDustParticles(
+  unit: DustSpawnUnit,
+  random: () => number = Math.random
+): DustParticle[] {
   const particles: DustParticle[] = [];
   const particleCount =
-    DUST_SPAWN_PARTICLE_COUNT_MIN + Math.floor(Math.random() * DUST_SPAWN_PARTICLE_COUNT_RANDOM);
+    DUST_SPAWN_PARTICLE_COUNT_MIN + Math.floor(random() * DUST_SPAWN_PARTICLE_COUNT_RANDOM);
 
   for (let i = 0; i < particleCount; i++) {
     particles.push({
-      x: unit.position.x + (Math.random() - 0.5) * unit.size * 2,
+      x: unit.position.x + (random() - 0.5) * unit.size * 2,
       y: unit.position.y + unit.size + DUST_SPAWN_Y_OFFSET,
-      vx: (Math.random() - 0.5) * DUST_HORIZONTAL_VELOCITY_RANGE,
-      vy: -Math.random() * DUST_UPWARD_VELOCITY_RANDOM - DUST_UPWARD_VELOCITY_BASE,
+      vx: (random() - 0.5) * DUST_HORIZONTAL_VELOCITY_RANGE,
+      vy: -random() * DUST_UPWARD_VELOCITY_RANDOM - DUST_UPWARD_VELOCITY_BASE,
       lifetime: DUST_PARTICLE_LIFETIME,
       maxLifetime: DUST_PARTICLE_LIFETIME,
     });
@@ -110,13 +114,16 @@ export function updateDustParticles(particles: DustParticle[], delta: number): D
 /**
  * Process units and spawn/update dust particles.
  * Main entry point for dust particle system.
+ * Dust is cosmetic; pass a separate random function rather than the
+ * battle's gameplay generator so render timing can't affect the simulation.
  */
 export function processDustParticles(
   units: DustSpawnUnit[],
   particles: DustParticle[],
   spawnState: DustSpawnState,
   currentTime: number,
-  delta: number
+  delta: number,
+  random: () => number = Math.random
 ): DustParticle[] {
   const newParticles: DustParticle[] = [];
 
@@ -136,7 +143,7 @@ export function processDustParticles(
     if (moving) {
       const lastSpawn = spawnState.lastSpawnTime.get(unit.id) ?? 0;
       if (currentTime - lastSpawn > DUST_SPAWN_INTERVAL * 1000) {
-        newParticles.push(...spawnDustParticles(unit));
+        newParticles.push(...spawnDustParticles(unit, random));
         spawnState.lastSpawnTime.set(unit.id, currentTime);
       }
     }
@@ -86,18 +86,23 @@ export function clearInkSpawnState(state: InkSpawnState): void {
 /**
  * Generate a random speed multiplier with normal distribution.
  */
-function randomSpeedMultiplier(): number {
+function randomSpeedMultiplier(random: () => number): number {
   return randomMultiplier(
     INK_SPEED_MULTIPLIER_MEAN,
     INK_SPEED_MULTIPLIER_STDDEV,
-    INK_SPEED_MULTIPLIER_MIN
+    INK_SPEED_MULTIPLIER_MIN,
+    random
   );
 }
 
 /**
  * Spawn hit splatters when a unit takes damage.
+ * @param random - Random function to use (default: Math.random)
  */
-export function spawnHitSplatters(unit: InkSpawnUnit): InkSplatter[] {
+export function spawnHitSplatters(
+  unit: InkSpawnUnit,
+  random: () => number = Math.random
+): InkSplatter[] {
   const splatters: InkSplatter[] = [];
 
   // Determine splatter direction from visualOffset (knockback direction)
@@ -111,12 +116,12 @@ export function spawnHitSplatters(unit: InkSpawnUnit): InkSplatter[] {
     baseAngle = Math.atan2(offsetY, offsetX);
   } else {
     // No clear direction, use random
-    baseAngle = Math.random() * Math.PI * 2;
+    baseAngle = random() * Math.PI * 2;
   }
 
   for (let i = 0; i < INK_HIT_SPLATTER_COUNT; i++) {
-    const angle = baseAngle + (Math.random() - 0.5) * INK_HIT_SPLATTER_SPREAD;
-    const speedMultiplier = randomSpeedMultiplier();
+    const angle = baseAngle + (random() - 0.5) * INK_HIT_SPLATTER_SPREAD;
+    const speedMultiplier = randomSpeedMultiplier(random);
     const speed = INK_HIT_SPLATTER_SPEED * speedMultiplier;
     const targetDistance = INK_HIT_SPLATTER_DISTANCE * speedMultiplier;
 
@@ -127,8 +132,8 @@ export function spawnHitSplatters(unit: InkSpawnUnit): InkSplatter[] {
       vy: Math.sin(angle) * speed + INK_HIT_SPLATTER_UPWARD_VELOCITY,
       size:
         INK_HIT_SPLATTER_SIZE_MIN +
-        Math.random() * (INK_HIT_SPLATTER_SIZE_MAX - INK_HIT_SPLATTER_SIZE_MIN),
-      rotation: Math.random() * Math.PI * 2,
+        random() * (INK_HIT_SPLATTER_SIZE_MAX - INK_HIT_SPLATTER_SIZE_MIN),
+      rotation: random() * Math.PI * 2,
       lifetime: INK_SPLATTER_LIFETIME,
       maxLifetime: INK_SPLATTER_LIFETIME,
       landed: false,
@@ -142,21 +147,25 @@ export function spawnHitSplatters(unit: InkSpawnUnit): InkSplatter[] {
 
 /**
  * Spawn death splatters when a unit dies.
+ * @param random - Random function to use (default: Math.random)
  */
-export function spawnDeathSplatters(unit: InkSpawnUnit): InkSplatter[] {
+export function spawnDeathSplatters(
+  unit: InkSpawnUnit,
+  random: () => number = Math.random
+): InkSplatter[] {
   const splatters: InkSplatter[] = [];
 
   for (let i = 0; i < INK_SPLATTER_COUNT; i++) {
-    const angle = Math.random() * Math.PI * 2;
-    const distance = Math.random() * INK_SPLATTER_SPREAD;
+    const angle = random() * Math.PI * 2;
+    const distance = random() * INK_SPLATTER_SPREAD;
 
     splatters.push({
       x: unit.position.x + Math.cos(angle) * distance,
       y: unit.position.y + Math.sin(angle) * distance,
       vx: 0,
       vy: 0,
-      size: INK_SPLATTER_SIZE_MIN + Math.random() * (INK_SPLATTER_SIZE_MAX - INK_SPLATTER_SIZE_MIN),
-      rotation: Math.random() * Math.PI * 2,
+      size: INK_SPLATTER_SIZE_MIN + random() * (INK_SPLATTER_SIZE_MAX - INK_SPLATTER_SIZE_MIN),
+      rotation: random() * Math.PI * 2,
       lifetime: INK_SPLATTER_LIFETIME,
       maxLifetime: INK_SPLATTER_LIFETIME,
       landed: true,
@@ -195,12 +204,15 @@ export function updateInkSplatters(splatters: InkSplatter[], delta: number): voi
 /**
  * Process units and spawn/update ink splatters.
  * Main entry point for ink splatter system.
+ * Splatters are cosmetic; pass a separate random function rather than the
+ * battle's gameplay generator so render timing can't affect the simulation.
  */
 export function processInkSplatters(
   units: InkSpawnUnit[],
   splatters: InkSplatter[],
   spawnState: InkSpawnState,
-  delta: number
+  delta: number,
+  random: () => number = Math.random
 ): InkSplatter[] {
   const newSplatters: InkSplatter[] = [];
 
@@ -211,13 +223,13 @@ export function processInkSplatters(
 
     // Check for hit (health decreased) - spawn directional splatters with velocity
     if (prevHealth !== undefined && unit.health < prevHealth && !isDying) {
-      newSplatters.push(...spawnHitSplatters(unit));
+      newSplatters.push(...spawnHitSplatters(unit, random));
     }
 
     // Check for death - spawn large splatters (already landed)
     if (isDying && !wasAlreadyDead) {
       spawnState.deadUnits.add(unit.id);
-      newSplatters.push(...spawnDeathSplatters(unit));
+      newSplatters.push(...spawnDeathSplatters(unit, random));
     }
 
     // Update previous health
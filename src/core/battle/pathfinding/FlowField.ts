@@ -0,0 +1,233 @@
+/**
+ * Flow Field
+ *
+ * Dijkstra search outward from a set of goal cells. Every reachable cell
+ * stores its path cost and the neighbour to step to next, so any number
+ * of units heading for the same goal share one search.
+ *
+ * Moves are 8-directional; diagonal steps cost sqrt(2) and may not cut
+ * the corner of a blocked cell.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import type { GridPosition } from '../grid/GridTypes';
+import { PathGrid, getBlockedRegion, getCellIndex, isCellBlocked } from './PathGrid';
+
+/**
+ * Neighbour steps, orthogonal first (preferred on equal cost).
+ */
+export const FLOW_DIRECTIONS: readonly GridPosition[] = [
+  { col: 0, row: -1 },
+  { col: 1, row: 0 },
+  { col: 0, row: 1 },
+  { col: -1, row: 0 },
+  { col: 1, row: -1 },
+  { col: 1, row: 1 },
+  { col: -1, row: 1 },
+  { col: -1, row: -1 },
+];
+
+/** Marks a cell with no next step (goal, blocked or unreachable) */
+const NO_DIRECTION = -1;
+
+/**
+ * Path costs and next steps toward a goal set.
+ */
+export interface FlowField {
+  readonly cols: number;
+  readonly rows: number;
+  /** Path cost from each cell to the nearest goal (Infinity if unreachable) */
+  readonly costs: Float64Array;
+  /** Index into FLOW_DIRECTIONS of each cell's next step, -1 if none */
+  readonly directions: Int8Array;
+}
+
+/**
+ * Binary min-heap of cell indices keyed by cost.
+ */
+class CellHeap {
+  private cells: number[] = [];
+  private costs: number[] = [];
+
+  get size(): number {
+    return this.cells.length;
+  }
+
+  push(cell: number, cost: number): void {
+    this.cells.push(cell);
+    this.costs.push(cost);
+    let i = this.cells.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.costs[parent] <= this.costs[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): { cell: number; cost: number } {
+    const top = { cell: this.cells[0], cost: this.costs[0] };
+    const lastCell = this.cells.pop()!;
+    const lastCost = this.costs.pop()!;
+    if (this.cells.length > 0) {
+      this.cells[0] = lastCell;
+      this.costs[0] = lastCost;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.cells.length && this.costs[left] < this.costs[smallest]) smallest = left;
+        if (right < this.cells.length && this.costs[right] < this.costs[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.cells[a], this.cells[b]] = [this.cells[b], this.cells[a]];
+    [this.costs[a], this.costs[b]] = [this.costs[b], this.costs[a]];
+  }
+}
+
+/**
+ * Whether a step from a cell is allowed: the target is open or a goal
+ * (goals may be blocked, e.g. a castle), and diagonal steps do not cut
+ * the corner of a blocked cell.
+ */
+function isStepAllowed(
+  grid: PathGrid,
+  costs: Float64Array,
+  col: number,
+  row: number,
+  step: GridPosition
+): boolean {
+  const next = getCellIndex(grid, col + step.col, row + step.row);
+  if (next === -1 || (grid.blocked[next] === 1 && costs[next] !== 0)) return false;
+  if (step.col !== 0 && step.row !== 0) {
+    return !isCellBlocked(grid, col + step.col, row) && !isCellBlocked(grid, col, row + step.row);
+  }
+  return true;
+}
+
+function getStepCost(step: GridPosition): number {
+  return step.col !== 0 && step.row !== 0 ? Math.SQRT2 : 1;
+}
+
+/**
+ * Build a flow field toward the nearest of the goal cells.
+ * A blocked goal (e.g. a castle's center) seeds its whole blocked area,
+ * so units path to the castle's edge.
+ *
+ * @param grid - Walkability grid
+ * @param goals - Goal cells (cells outside the grid are ignored)
+ */
+export function buildFlowField(grid: PathGrid, goals: readonly GridPosition[]): FlowField {
+  const count = grid.cols * grid.rows;
+  const costs = new Float64Array(count).fill(Infinity);
+  const directions = new Int8Array(count).fill(NO_DIRECTION);
+  const heap = new CellHeap();
+
+  for (const goal of goals) {
+    const index = getCellIndex(grid, goal.col, goal.row);
+    if (index === -1) continue;
+    const seeds = grid.blocked[index] === 1 ? getBlockedRegion(grid, goal) : [index];
+    for (const seed of seeds) {
+      if (costs[seed] === 0) continue;
+      costs[seed] = 0;
+      heap.push(seed, 0);
+    }
+  }
+
+  // Search outward from the goals; a cell's cost is the cheapest way to reach a goal from it
+  while (heap.size > 0) {
+    const { cell, cost } = heap.pop();
+    if (cost > costs[cell]) continue;
+
+    const col = cell % grid.cols;
+    const row = Math.floor(cell / grid.cols);
+    const enterCost = cost + grid.extraCost[cell];
+
+    for (const step of FLOW_DIRECTIONS) {
+      // The neighbour steps back onto this cell, so check the reverse step from it
+      const fromCol = col + step.col;
+      const fromRow = row + step.row;
+      if (isCellBlocked(grid, fromCol, fromRow)) continue;
+      if (!isStepAllowed(grid, costs, fromCol, fromRow, { col: -step.col, row: -step.row })) {
+        continue;
+      }
+
+      const from = fromRow * grid.cols + fromCol;
+      const newCost = enterCost + getStepCost(step);
+      if (newCost < costs[from]) {
+        costs[from] = newCost;
+        heap.push(from, newCost);
+      }
+    }
+  }
+
+  // Each reachable cell steps to its cheapest neighbour (orthogonal wins ties)
+  for (let cell = 0; cell < count; cell++) {
+    if (costs[cell] === 0 || costs[cell] === Infinity) continue;
+    directions[cell] = findCheapestStep(
+      grid,
+      costs,
+      cell % grid.cols,
+      Math.floor(cell / grid.cols)
+    );
+  }
+
+  return { cols: grid.cols, rows: grid.rows, costs, directions };
+}
+
+/**
+ * Cheapest allowed step from a cell.
+ * @returns Index into FLOW_DIRECTIONS, or -1 if no neighbour is reachable
+ */
+function findCheapestStep(grid: PathGrid, costs: Float64Array, col: number, row: number): number {
+  let best = NO_DIRECTION;
+  let bestCost = Infinity;
+
+  FLOW_DIRECTIONS.forEach((step, index) => {
+    const next = getCellIndex(grid, col + step.col, row + step.row);
+    if (next === -1 || costs[next] === Infinity) return;
+    if (!isStepAllowed(grid, costs, col, row, step)) return;
+
+    const cost = costs[next] + grid.extraCost[next] + getStepCost(step);
+    if (cost < bestCost) {
+      bestCost = cost;
+      best = index;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Next cell to step to from a cell.
+ * Cells without a stored step (e.g. a unit overlapping a castle) step to
+ * their cheapest reachable neighbour instead.
+ *
+ * @returns The next cell, or null at a goal or when no route exists
+ */
+export function getNextCell(
+  field: FlowField,
+  grid: PathGrid,
+  cell: GridPosition
+): GridPosition | null {
+  const index = getCellIndex(grid, cell.col, cell.row);
+  if (index === -1 || field.costs[index] === 0) return null;
+
+  let direction = field.directions[index];
+  if (direction === NO_DIRECTION) {
+    direction = findCheapestStep(grid, field.costs, cell.col, cell.row);
+    if (direction === NO_DIRECTION) return null;
+  }
+
+  const step = FLOW_DIRECTIONS[direction];
+  return { col: cell.col + step.col, row: cell.row + step.row };
+}
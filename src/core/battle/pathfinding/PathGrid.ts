@@ -0,0 +1,143 @@
+/**
+ * Path Grid
+ *
+ * Walkability map over the battle grid used by the pathfinder.
+ * Cells covered by castles or walls are blocked; cells holding allied
+ * units cost extra so routes bend around clumps.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import { GRID_TOTAL_COLS, GRID_TOTAL_ROWS } from '../BattleConfig';
+import { pixelToGrid } from '../grid/GridManager';
+import type { GridBounds, GridPosition } from '../grid/GridTypes';
+import { Vector2 } from '../../physics/Vector2';
+
+/**
+ * Walkability and cost per grid cell (row-major).
+ */
+export interface PathGrid {
+  readonly cols: number;
+  readonly rows: number;
+  /** Size of a grid cell in pixels */
+  readonly cellSize: number;
+  /** 1 where no unit can walk (castles, walls) */
+  readonly blocked: Uint8Array;
+  /** Extra cost of entering each cell, on top of the step distance */
+  readonly extraCost: Float32Array;
+}
+
+/**
+ * Create an open grid covering the whole arena.
+ * @param cellSize - Size of a grid cell in pixels
+ */
+export function createPathGrid(
+  cellSize: number,
+  cols: number = GRID_TOTAL_COLS,
+  rows: number = GRID_TOTAL_ROWS
+): PathGrid {
+  return {
+    cols,
+    rows,
+    cellSize,
+    blocked: new Uint8Array(cols * rows),
+    extraCost: new Float32Array(cols * rows),
+  };
+}
+
+/**
+ * Index of a cell in the grid arrays.
+ * @returns The index, or -1 outside the grid
+ */
+export function getCellIndex(grid: PathGrid, col: number, row: number): number {
+  if (col < 0 || row < 0 || col >= grid.cols || row >= grid.rows) return -1;
+  return row * grid.cols + col;
+}
+
+/**
+ * Whether a cell cannot be walked through. Cells outside the grid count as blocked.
+ */
+export function isCellBlocked(grid: PathGrid, col: number, row: number): boolean {
+  const index = getCellIndex(grid, col, row);
+  return index === -1 || grid.blocked[index] === 1;
+}
+
+/**
+ * Mark every cell inside the bounds as blocked (clamped to the grid).
+ */
+export function blockGridBounds(grid: PathGrid, bounds: GridBounds): void {
+  const startCol = Math.max(0, bounds.col);
+  const endCol = Math.min(grid.cols, bounds.col + bounds.cols);
+  const startRow = Math.max(0, bounds.row);
+  const endRow = Math.min(grid.rows, bounds.row + bounds.rows);
+
+  for (let row = startRow; row < endRow; row++) {
+    for (let col = startCol; col < endCol; col++) {
+      grid.blocked[row * grid.cols + col] = 1;
+    }
+  }
+}
+
+/**
+ * Add extra cost to the cell containing a pixel position.
+ */
+export function addCellCost(grid: PathGrid, position: Vector2, cost: number): void {
+  const cell = pixelToGrid(position, grid.cellSize);
+  const index = getCellIndex(grid, cell.col, cell.row);
+  if (index !== -1) grid.extraCost[index] += cost;
+}
+
+/**
+ * Cells of the blocked area containing a cell (4-connected flood fill).
+ * Used to treat a castle as one goal when its center cell is the target.
+ *
+ * @returns Cell indices, empty if the cell is open
+ */
+export function getBlockedRegion(grid: PathGrid, cell: GridPosition): number[] {
+  const start = getCellIndex(grid, cell.col, cell.row);
+  if (start === -1 || grid.blocked[start] === 0) return [];
+
+  const region = [start];
+  const visited = new Set(region);
+  for (let i = 0; i < region.length; i++) {
+    const col = region[i] % grid.cols;
+    const row = Math.floor(region[i] / grid.cols);
+    for (const [dc, dr] of [
+      [0, -1],
+      [1, 0],
+      [0, 1],
+      [-1, 0],
+    ]) {
+      const next = getCellIndex(grid, col + dc, row + dr);
+      if (next !== -1 && grid.blocked[next] === 1 && !visited.has(next)) {
+        visited.add(next);
+        region.push(next);
+      }
+    }
+  }
+  return region;
+}
+
+/**
+ * Whether a straight line crosses no blocked cells.
+ * Samples the line every half cell.
+ *
+ * @param ignore - Blocked cells to treat as open (e.g. the target castle)
+ */
+export function isLineClear(
+  grid: PathGrid,
+  from: Vector2,
+  to: Vector2,
+  ignore: ReadonlySet<number> = new Set()
+): boolean {
+  const line = to.subtract(from);
+  const steps = Math.ceil(line.magnitude() / (grid.cellSize / 2));
+
+  for (let i = 0; i <= steps; i++) {
+    const point = steps === 0 ? from : from.add(line.multiply(i / steps));
+    const cell = pixelToGrid(point, grid.cellSize);
+    const index = getCellIndex(grid, cell.col, cell.row);
+    if (index !== -1 && grid.blocked[index] === 1 && !ignore.has(index)) return false;
+  }
+  return true;
+}
@@ -0,0 +1,174 @@
+/**
+ * Pathfinder
+ *
+ * Grid pathfinding for unit movement. Units steer straight at their goal
+ * while the line to it is open; when a castle or wall is in the way they
+ * follow a flow field around it.
+ *
+ * Path grids (one per team, since only allies add crowding cost) are
+ * rebuilt at the start of a world update once PATHFINDING_REFRESH_INTERVAL
+ * has passed, or after castles or terrain change. Flow fields are built on
+ * demand and cached per team and goal cell until the next rebuild.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import {
+  MIN_NORMALIZE_THRESHOLD,
+  PATHFINDING_MAX_CACHED_FIELDS,
+  PATHFINDING_OCCUPIED_CELL_COST,
+  PATHFINDING_REFRESH_INTERVAL,
+} from '../BattleConfig';
+import { gridToPixel, pixelToGrid } from '../grid/GridManager';
+import type { GridBounds, GridPosition } from '../grid/GridTypes';
+import { isPlayerTeam } from '../TeamUtils';
+import type { UnitTeam } from '../units/types';
+import { Vector2 } from '../../physics/Vector2';
+import { FlowField, buildFlowField, getNextCell } from './FlowField';
+import {
+  PathGrid,
+  addCellCost,
+  blockGridBounds,
+  createPathGrid,
+  getBlockedRegion,
+  isCellBlocked,
+  isLineClear,
+} from './PathGrid';
+
+/**
+ * World state the pathfinder reads when building its grids.
+ */
+export interface PathfindingSource {
+  /** Grid cell size in pixels (0 before the arena is sized) */
+  getCellSize(): number;
+  /** Grid areas no unit can walk through (castles, walls) */
+  getBlockedBounds(): GridBounds[];
+  /** Positions of a team's mobile units */
+  getOccupiedPositions(team: UnitTeam): Vector2[];
+}
+
+/**
+ * Flow field cache and path queries for one battle world.
+ */
+export class Pathfinder {
+  private grids = new Map<UnitTeam, PathGrid>();
+  private fields = new Map<string, FlowField>();
+  /** Battle time the grids were last rebuilt (-Infinity forces a rebuild) */
+  private builtAt = -Infinity;
+
+  constructor(private readonly source: PathfindingSource) {}
+
+  /**
+   * Rebuild the grids if they are stale. Called at the start of each world
+   * update, so every unit in a tick paths against the same snapshot.
+   * @param battleTime - Current battle time in seconds
+   */
+  refresh(battleTime: number): void {
+    if (battleTime - this.builtAt < PATHFINDING_REFRESH_INTERVAL) return;
+
+    this.invalidate();
+    this.builtAt = battleTime;
+    this.getGrid('player');
+    this.getGrid('enemy');
+  }
+
+  /**
+   * Drop all grids and fields (castles or terrain changed).
+   */
+  invalidate(): void {
+    this.grids.clear();
+    this.fields.clear();
+    this.builtAt = -Infinity;
+  }
+
+  /**
+   * Path grid for a team, built if missing.
+   * @returns The grid, or null before the arena is sized
+   */
+  getGrid(team: UnitTeam): PathGrid | null {
+    const cached = this.grids.get(team);
+    if (cached) return cached;
+
+    const cellSize = this.source.getCellSize();
+    if (cellSize <= 0) return null;
+
+    const grid = createPathGrid(cellSize);
+    for (const bounds of this.source.getBlockedBounds()) {
+      blockGridBounds(grid, bounds);
+    }
+    for (const position of this.source.getOccupiedPositions(team)) {
+      addCellCost(grid, position, PATHFINDING_OCCUPIED_CELL_COST);
+    }
+    this.grids.set(team, grid);
+    return grid;
+  }
+
+  /**
+   * Flow field for a team toward a goal, built if missing.
+   * @param goal - Pixel position to reach, or null to march to the enemy's back row
+   * @returns The field, or null before the arena is sized
+   */
+  getFlowField(team: UnitTeam, goal: Vector2 | null): FlowField | null {
+    const grid = this.getGrid(team);
+    if (!grid) return null;
+
+    const goalCell = goal ? pixelToGrid(goal, grid.cellSize) : null;
+    const key = goalCell ? `${team}|${goalCell.col},${goalCell.row}` : `${team}|march`;
+    const cached = this.fields.get(key);
+    if (cached) return cached;
+
+    const field = buildFlowField(grid, goalCell ? [goalCell] : getMarchGoals(grid, team));
+    if (this.fields.size >= PATHFINDING_MAX_CACHED_FIELDS) {
+      const oldest = this.fields.keys().next();
+      if (!oldest.done) this.fields.delete(oldest.value);
+    }
+    this.fields.set(key, field);
+    return field;
+  }
+
+  /**
+   * Direction a unit should move to reach a goal around castles and walls.
+   *
+   * @param team - The unit's team
+   * @param position - The unit's position
+   * @param goal - Pixel position to reach, or null to march forward
+   * @returns Unit direction, or null when the straight line is open (steer directly)
+   */
+  getDirection(team: UnitTeam, position: Vector2, goal: Vector2 | null): Vector2 | null {
+    const grid = this.getGrid(team);
+    if (!grid) return null;
+
+    const target = goal ?? getMarchTarget(grid, team, position);
+    const goalCell = pixelToGrid(target, grid.cellSize);
+    const ignore = new Set(getBlockedRegion(grid, goalCell));
+    if (isLineClear(grid, position, target, ignore)) return null;
+
+    const field = this.getFlowField(team, goal);
+    const next = field && getNextCell(field, grid, pixelToGrid(position, grid.cellSize));
+    if (!next) return null;
+
+    const toNext = gridToPixel(next, grid.cellSize).subtract(position);
+    if (toNext.magnitude() < MIN_NORMALIZE_THRESHOLD) return null;
+    return toNext.normalize();
+  }
+}
+
+/**
+ * Back row of the enemy side (where a team's forward march leads).
+ */
+function getMarchGoals(grid: PathGrid, team: UnitTeam): GridPosition[] {
+  const row = isPlayerTeam(team) ? 0 : grid.rows - 1;
+  const goals: GridPosition[] = [];
+  for (let col = 0; col < grid.cols; col++) {
+    if (!isCellBlocked(grid, col, row)) goals.push({ col, row });
+  }
+  return goals;
+}
+
+/**
+ * Point straight ahead on the enemy's back row (the march's direct line).
+ */
+function getMarchTarget(grid: PathGrid, team: UnitTeam, position: Vector2): Vector2 {
+  const row = isPlayerTeam(team) ? 0 : grid.rows - 1;
+  return new Vector2(position.x, (row + 0.5) * grid.cellSize);
+}
@@ -0,0 +1,20 @@
+/**
+ * Pathfinding System Exports
+ */
+
+export type { PathGrid } from './PathGrid';
+export {
+  createPathGrid,
+  getCellIndex,
+  isCellBlocked,
+  blockGridBounds,
+  addCellCost,
+  getBlockedRegion,
+  isLineClear,
+} from './PathGrid';
+
+export type { FlowField } from './FlowField';
+export { FLOW_DIRECTIONS, buildFlowField, getNextCell } from './FlowField';
+
+export type { PathfindingSource } from './Pathfinder';
+export { Pathfinder } from './Pathfinder';
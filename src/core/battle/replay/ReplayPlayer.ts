@@ -0,0 +1,262 @@
+/**
+ * Replay Player
+ *
+ * Re-simulates a BattleReplay in a fresh BattleEngine.
+ * Playback is driven by the recorded tick deltas, so the battle unfolds
+ * exactly as recorded regardless of the viewer's frame rate.
+ *
+ * Supports pause, single-step, playback speed and seeking. Seeking
+ * backwards rebuilds the engine and re-simulates up to the target tick.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import { MAX_REPLAY_SPEED, MIN_REPLAY_SPEED } from '../BattleConfig';
+import { BattleEngine } from '../BattleEngine';
+import { IAbilityRegistry } from '../abilities';
+import { DEFAULT_TARGET_PRIORITY, IUnitRegistry } from '../units';
+import { resolvePlayerOverlaps } from '../deployment/DeploymentService';
+import { Vector2 } from '../../physics/Vector2';
+import { BattleReplay, ReplayInput } from './types';
+
+/**
+ * Registries used to rebuild the recorded battle.
+ */
+export interface ReplayPlayerConfig {
+  /** Unit definitions */
+  unitRegistry: IUnitRegistry;
+  /** Ability definitions (omit only if the battle was recorded without abilities) */
+  abilityRegistry?: IAbilityRegistry;
+}
+
+/**
+ * Plays back one replay.
+ */
+export class ReplayPlayer {
+  private readonly replay: BattleReplay;
+  private readonly config: ReplayPlayerConfig;
+  private engine!: BattleEngine;
+  private unitIdMap = new Map<string, string>();
+  private squadIdMap = new Map<string, string>();
+  private tick = 0;
+  private nextInput = 0;
+  // Real time accumulated towards the next recorded tick
+  private pendingTime = 0;
+  private paused = true;
+  private speed = 1;
+
+  /**
+   * @param replay - Replay to play (must match the current unit data)
+   * @param config - Registries to rebuild the battle with
+   * @throws Error if a recorded squad no longer matches its unit definition
+   */
+  constructor(replay: BattleReplay, config: ReplayPlayerConfig) {
+    this.replay = replay;
+    this.config = config;
+    this.rebuild();
+  }
+
+  /**
+   * The engine being played back (read-only use; do not tick it directly).
+   */
+  getEngine(): BattleEngine {
+    return this.engine;
+  }
+
+  getReplay(): BattleReplay {
+    return this.replay;
+  }
+
+  /**
+   * Number of recorded ticks already simulated.
+   */
+  getTick(): number {
+    return this.tick;
+  }
+
+  /**
+   * Total number of recorded ticks.
+   */
+  getTickCount(): number {
+    return this.replay.ticks.length;
+  }
+
+  isFinished(): boolean {
+    return this.tick >= this.replay.ticks.length;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  play(): void {
+    // Restart from the beginning when playing a finished replay
+    if (this.isFinished()) {
+      this.seek(0);
+    }
+    this.paused = false;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Set playback speed, clamped to MIN_REPLAY_SPEED..MAX_REPLAY_SPEED.
+   */
+  setSpeed(speed: number): void {
+    this.speed = Math.max(MIN_REPLAY_SPEED, Math.min(MAX_REPLAY_SPEED, speed));
+  }
+
+  /**
+   * Advance playback by real (wall-clock) time.
+   * Does nothing while paused; pauses automatically at the end.
+   *
+   * @param delta - Real seconds since the last call
+   * @returns Number of recorded ticks simulated
+   */
+  advance(delta: number): number {
+    if (this.paused) return 0;
+
+    this.pendingTime += delta * this.speed;
+    let stepped = 0;
+    while (!this.isFinished() && this.pendingTime >= this.replay.ticks[this.tick]) {
+      this.pendingTime -= this.replay.ticks[this.tick];
+      this.step();
+      stepped++;
+    }
+
+    if (this.isFinished()) {
+      this.paused = true;
+      this.pendingTime = 0;
+    }
+    return stepped;
+  }
+
+  /**
+   * Simulate the next recorded tick (works while paused).
+   *
+   * @returns False if the replay is already finished
+   */
+  step(): boolean {
+    if (this.isFinished()) return false;
+
+    this.engine.tick(this.replay.ticks[this.tick]);
+    this.tick++;
+    this.applyInputs();
+    return true;
+  }
+
+  /**
+   * Jump to a tick. Seeking backwards re-simulates from the start.
+   *
+   * @param tick - Target tick (clamped to the replay length)
+   */
+  seek(tick: number): void {
+    const target = Math.max(0, Math.min(this.replay.ticks.length, Math.floor(tick)));
+    if (target < this.tick) {
+      this.rebuild();
+    }
+    while (this.tick < target) {
+      this.step();
+    }
+    this.pendingTime = 0;
+  }
+
+  /**
+   * Recreate the engine at tick 0: spawn the recorded squads, apply
+   * deployment inputs and start the battle.
+   */
+  private rebuild(): void {
+    const { replay, config } = this;
+
+    this.engine = new BattleEngine(config.unitRegistry, {
+      abilityRegistry: config.abilityRegistry,
+      seed: replay.seed,
+    });
+    this.engine.setWave(replay.waveNumber);
+    this.engine.setArenaBounds(replay.arenaWidth, replay.arenaHeight);
+    this.engine.spawnTerrain(replay.terrain ?? []);
+
+    this.unitIdMap.clear();
+    this.squadIdMap.clear();
+    for (const squad of replay.squads) {
+      const spawned = this.engine.spawnSquad(
+        squad.type,
+        squad.team,
+        new Vector2(...squad.positions[0]),
+        replay.arenaHeight,
+        squad.level,
+        squad.upgrades,
+        squad.elite,
+        squad.targetPriority ?? DEFAULT_TARGET_PRIORITY
+      );
+      if (spawned.length !== squad.unitIds.length) {
+        throw new Error(
+          `Replay squad ${squad.squadId} has ${squad.unitIds.length} units, ` +
+            `but ${squad.type} now spawns ${spawned.length}`
+        );
+      }
+
+      this.squadIdMap.set(squad.squadId, spawned[0].squadId);
+      spawned.forEach((unit, i) => {
+        this.unitIdMap.set(squad.unitIds[i], unit.id);
+        const entity = this.engine.getUnitEntity(unit.id);
+        if (entity) {
+          entity.position = new Vector2(...squad.positions[i]);
+        }
+      });
+    }
+
+    this.tick = 0;
+    this.nextInput = 0;
+    this.pendingTime = 0;
+    this.applyInputs();
+    this.engine.start();
+  }
+
+  /**
+   * Apply every input recorded before the current tick.
+   */
+  private applyInputs(): void {
+    const { inputs } = this.replay;
+    while (this.nextInput < inputs.length && inputs[this.nextInput].tick <= this.tick) {
+      this.applyInput(inputs[this.nextInput]);
+      this.nextInput++;
+    }
+  }
+
+  private applyInput(input: ReplayInput): void {
+    switch (input.type) {
+      case 'speed':
+        this.engine.setBattleSpeed(input.speed);
+        break;
+      case 'move':
+        for (const move of input.moves) {
+          const unitId = this.unitIdMap.get(move.unitId) ?? move.unitId;
+          this.engine.moveUnit(unitId, new Vector2(move.x, move.y));
+        }
+        if (input.resolveOverlaps) {
+          resolvePlayerOverlaps(this.engine, this.replay.arenaWidth, this.replay.arenaHeight);
+        }
+        break;
+      case 'order': {
+        const unitIds = input.unitIds.map((id) => this.unitIdMap.get(id) ?? id);
+        const order =
+          input.order?.type === 'focus'
+            ? {
+                ...input.order,
+                targetSquadId:
+                  this.squadIdMap.get(input.order.targetSquadId) ?? input.order.targetSquadId,
+              }
+            : input.order;
+        this.engine.issueOrder(unitIds, order);
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Replay Recorder
+ *
+ * Captures a live battle as a BattleReplay: the deployed squads and seed
+ * when deployment begins, then every deployment move, speed change,
+ * tactical order and tick.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import { MAX_BATTLE_SEED } from '../BattleConfig';
+import { BattleEngine } from '../BattleEngine';
+import { Vector2 } from '../../physics/Vector2';
+import { SquadOrder } from '../orders/types';
+import { BattleReplay, REPLAY_FORMAT_VERSION, ReplayInput, ReplaySquad } from './types';
+
+/**
+ * Generates a seed for a new battle.
+ *
+ * @param random - Random function to use (default: Math.random)
+ */
+export function generateBattleSeed(random: () => number = Math.random): number {
+  return Math.floor(random() * MAX_BATTLE_SEED);
+}
+
+/**
+ * Records one battle at a time.
+ * Call begin() after the wave has spawned; it replaces any previous recording.
+ */
+export class ReplayRecorder {
+  private replay: BattleReplay | null = null;
+
+  /**
+   * Start recording from the engine's current units.
+   * The engine must be seeded (see BattleEngine.setSeed) before the wave spawns.
+   * BattleEngine.start() restarts the seeded sequence, so RNG draws made while
+   * deploying (e.g. resolving overlaps) don't reach the recorded battle.
+   *
+   * @param engine - Engine with the wave spawned and overlaps resolved
+   */
+  begin(engine: BattleEngine): void {
+    const seed = engine.getSeed();
+    const bounds = engine.getArenaBounds();
+    if (seed === undefined || !bounds) {
+      this.replay = null;
+      return;
+    }
+
+    this.replay = {
+      version: REPLAY_FORMAT_VERSION,
+      seed,
+      waveNumber: engine.getState().waveNumber,
+      arenaWidth: bounds.width,
+      arenaHeight: bounds.height,
+      squads: captureSquads(engine),
+      terrain: engine.getTerrainDefinitions(),
+      inputs: [{ type: 'speed', tick: 0, speed: engine.getBattleSpeed() }],
+      ticks: [],
+      outcome: 'pending',
+      simulationTime: 0,
+    };
+  }
+
+  /**
+   * Stop recording and drop the current replay.
+   */
+  discard(): void {
+    this.replay = null;
+  }
+
+  isRecording(): boolean {
+    return this.replay !== null;
+  }
+
+  /**
+   * Record deployment moves as they were passed to BattleEngine.moveUnit.
+   *
+   * @param moves - Moves in the order they were applied
+   * @param resolveOverlaps - Whether player overlaps were resolved afterwards
+   */
+  recordMoves(
+    moves: ReadonlyArray<{ unitId: string; position: Vector2 }>,
+    resolveOverlaps: boolean
+  ): void {
+    this.recordInput({
+      type: 'move',
+      tick: this.replay?.ticks.length ?? 0,
+      moves: moves.map(({ unitId, position }) => ({ unitId, x: position.x, y: position.y })),
+      resolveOverlaps,
+    });
+  }
+
+  /**
+   * Record a battle speed change.
+   */
+  recordSpeed(speed: number): void {
+    this.recordInput({ type: 'speed', tick: this.replay?.ticks.length ?? 0, speed });
+  }
+
+  /**
+   * Record a tactical order as it was passed to BattleEngine.issueOrder.
+   *
+   * @param unitIds - Units that took the order
+   * @param order - The order (null = back to auto-battle)
+   */
+  recordOrder(unitIds: readonly string[], order: SquadOrder | null): void {
+    this.recordInput({
+      type: 'order',
+      tick: this.replay?.ticks.length ?? 0,
+      unitIds: [...unitIds],
+      order: order && { ...order },
+    });
+  }
+
+  /**
+   * Record a tick that advanced the simulation.
+   * Only call for ticks where the engine was running.
+   *
+   * @param delta - Raw delta passed to BattleEngine.tick
+   */
+  recordTick(delta: number): void {
+    this.replay?.ticks.push(delta);
+  }
+
+  /**
+   * Build the replay recorded so far, stamped with the engine's outcome.
+   * Recording continues; the returned replay is a copy.
+   *
+   * @param engine - The recorded engine
+   * @returns The replay, or null if nothing is being recorded
+   */
+  getReplay(engine: BattleEngine): BattleReplay | null {
+    if (!this.replay) return null;
+
+    return {
+      ...this.replay,
+      squads: this.replay.squads.map((squad) => ({
+        ...squad,
+        unitIds: [...squad.unitIds],
+        positions: squad.positions.map(([x, y]): [number, number] => [x, y]),
+      })),
+      inputs: this.replay.inputs.map(copyInput),
+      ticks: [...this.replay.ticks],
+      outcome: engine.getState().outcome,
+      simulationTime: engine.getSimulationTime(),
+    };
+  }
+
+  private recordInput(input: ReplayInput): void {
+    this.replay?.inputs.push(input);
+  }
+}
+
+function copyInput(input: ReplayInput): ReplayInput {
+  switch (input.type) {
+    case 'move':
+      return { ...input, moves: input.moves.map((m) => ({ ...m })) };
+    case 'order':
+      return { ...input, unitIds: [...input.unitIds], order: input.order && { ...input.order } };
+    default:
+      return input;
+  }
+}
+
+/**
+ * Group the engine's units into squads, preserving spawn order.
+ */
+function captureSquads(engine: BattleEngine): ReplaySquad[] {
+  const squads = new Map<string, ReplaySquad>();
+
+  for (const unit of engine.getWorld().getUnits()) {
+    let squad = squads.get(unit.squadId);
+    if (!squad) {
+      squad = {
+        squadId: unit.squadId,
+        type: unit.type,
+        team: unit.team,
+        level: unit.level,
+        unitIds: [],
+        positions: [],
+      };
+      if (unit.upgrades) {
+        squad.upgrades = unit.upgrades;
+      }
+      if (unit.elite) {
+        squad.elite = unit.elite;
+      }
+      if (unit.targetPriority) {
+        squad.targetPriority = unit.targetPriority;
+      }
+      squads.set(unit.squadId, squad);
+    }
+    squad.unitIds.push(unit.id);
+    squad.positions.push([unit.position.x, unit.position.y]);
+  }
+
+  return [...squads.values()];
+}
@@ -0,0 +1,137 @@
+/**
+ * Replay Serializer
+ *
+ * Converts replays to and from JSON for saving and sharing.
+ * Pure functions - Godot-portable.
+ */
+
+import { validateTerrain } from '../obstacles/Terrain';
+import { isValidTargetPriority } from '../units/TargetPriority';
+import { SquadOrder } from '../orders/types';
+import { BattleOutcome, BattleOutcomes } from '../types';
+import { BattleReplay, REPLAY_FORMAT_VERSION, ReplayInput, ReplaySquad } from './types';
+
+const BATTLE_OUTCOMES: readonly BattleOutcome[] = Object.values(BattleOutcomes);
+
+/**
+ * Serialize a replay to a JSON string.
+ */
+export function serializeReplay(replay: BattleReplay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Deserialize a replay from a JSON string.
+ * Returns null if the JSON is malformed or from another format version.
+ */
+export function deserializeReplay(json: string | null): BattleReplay | null {
+  if (!json) return null;
+
+  try {
+    const parsed = JSON.parse(json) as Partial<BattleReplay>;
+    if (parsed.version !== REPLAY_FORMAT_VERSION) return null;
+
+    const { seed, waveNumber, arenaWidth, arenaHeight, squads, terrain, inputs, ticks, outcome } =
+      parsed;
+    if (
+      !isFiniteNumber(seed) ||
+      !isFiniteNumber(waveNumber) ||
+      !isFiniteNumber(arenaWidth) ||
+      !isFiniteNumber(arenaHeight) ||
+      !Array.isArray(squads) ||
+      !squads.every(isValidSquad) ||
+      (terrain !== undefined &&
+        !(Array.isArray(terrain) && validateTerrain(terrain).length === 0)) ||
+      !Array.isArray(inputs) ||
+      !inputs.every(isValidInput) ||
+      !Array.isArray(ticks) ||
+      !ticks.every((delta) => isFiniteNumber(delta) && delta >= 0)
+    ) {
+      return null;
+    }
+
+    return {
+      version: REPLAY_FORMAT_VERSION,
+      seed,
+      waveNumber,
+      arenaWidth,
+      arenaHeight,
+      squads,
+      ...(terrain ? { terrain } : {}),
+      inputs,
+      ticks,
+      outcome: outcome && BATTLE_OUTCOMES.includes(outcome) ? outcome : BattleOutcomes.Pending,
+      simulationTime: isFiniteNumber(parsed.simulationTime) ? parsed.simulationTime : 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isValidSquad(squad: ReplaySquad): boolean {
+  return (
+    typeof squad === 'object' &&
+    squad !== null &&
+    typeof squad.squadId === 'string' &&
+    typeof squad.type === 'string' &&
+    (squad.team === 'player' || squad.team === 'enemy') &&
+    isFiniteNumber(squad.level) &&
+    (squad.targetPriority === undefined || isValidTargetPriority(squad.targetPriority)) &&
+    Array.isArray(squad.unitIds) &&
+    Array.isArray(squad.positions) &&
+    squad.positions.length > 0 &&
+    squad.unitIds.length === squad.positions.length &&
+    squad.positions.every(
+      (position) =>
+        Array.isArray(position) && position.length === 2 && position.every(isFiniteNumber)
+    )
+  );
+}
+
+function isValidInput(input: ReplayInput): boolean {
+  if (typeof input !== 'object' || input === null || !isFiniteNumber(input.tick)) {
+    return false;
+  }
+
+  switch (input.type) {
+    case 'speed':
+      return isFiniteNumber(input.speed);
+    case 'move':
+      return (
+        typeof input.resolveOverlaps === 'boolean' &&
+        Array.isArray(input.moves) &&
+        input.moves.every(
+          (move) =>
+            typeof move.unitId === 'string' && isFiniteNumber(move.x) && isFiniteNumber(move.y)
+        )
+      );
+    case 'order':
+      return (
+        Array.isArray(input.unitIds) &&
+        input.unitIds.every((id) => typeof id === 'string') &&
+        (input.order === null || isValidOrder(input.order))
+      );
+    default:
+      return false;
+  }
+}
+
+function isValidOrder(order: SquadOrder): boolean {
+  if (typeof order !== 'object' || order === null) return false;
+
+  switch (order.type) {
+    case 'hold':
+    case 'charge':
+      return true;
+    case 'focus':
+      return typeof order.targetSquadId === 'string';
+    case 'fall_back':
+      return isFiniteNumber(order.x) && isFiniteNumber(order.y);
+    default:
+      return false;
+  }
+}
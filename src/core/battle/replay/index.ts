@@ -0,0 +1,21 @@
+/**
+ * Replay Module
+ *
+ * Battle recording, serialization and playback.
+ * All exports are Godot-portable.
+ */
+
+export type {
+  BattleReplay,
+  ReplaySquad,
+  ReplayMove,
+  ReplayMoveInput,
+  ReplaySpeedInput,
+  ReplayOrderInput,
+  ReplayInput,
+} from './types';
+export { REPLAY_FORMAT_VERSION } from './types';
+export { ReplayRecorder, generateBattleSeed } from './ReplayRecorder';
+export type { ReplayPlayerConfig } from './ReplayPlayer';
+export { ReplayPlayer } from './ReplayPlayer';
+export { serializeReplay, deserializeReplay } from './ReplaySerializer';
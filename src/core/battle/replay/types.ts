@@ -0,0 +1,123 @@
+/**
+ * Replay Types
+ *
+ * Versioned, JSON-safe description of a recorded battle.
+ * A replay holds everything needed to re-simulate a fight exactly:
+ * the seed, the deployed squads, every player input (deployment moves,
+ * speed changes, tactical orders) and every tick delta.
+ *
+ * Godot-portable: Plain data, maps to a Dictionary/Resource.
+ */
+
+import { BattleOutcome } from '../types';
+import { TargetPriority, UnitTeam } from '../units/types';
+import { SquadUpgrades } from '../upgrades/types';
+import { EliteSquad } from '../elites/types';
+import { TerrainDefinition } from '../obstacles/Terrain';
+import { SquadOrder } from '../orders/types';
+
+/**
+ * Current replay format version.
+ * Bump when the format changes; older replays are rejected on load.
+ *
+ * v2: squad upgrades, elites, terrain, tactical orders, target priorities,
+ * and the RNG restarting when the battle starts
+ */
+export const REPLAY_FORMAT_VERSION = 2;
+
+/**
+ * A squad as it stood when deployment began.
+ * Units are listed in spawn order, so ids and positions line up by index.
+ */
+export interface ReplaySquad {
+  /** Squad id in the recorded battle */
+  squadId: string;
+  /** Unit definition id (e.g., 'hound', 'castle') */
+  type: string;
+  team: UnitTeam;
+  level: number;
+  /** Upgrade modifiers and abilities the squad spawned with (omitted = none) */
+  upgrades?: SquadUpgrades;
+  /** Elite rank and affixes (omitted = regular squad) */
+  elite?: EliteSquad;
+  /** Targeting priority the squad fought with (omitted = nearest) */
+  targetPriority?: TargetPriority;
+  /** Unit ids in the recorded battle */
+  unitIds: string[];
+  /** Unit positions as [x, y] pairs */
+  positions: [number, number][];
+}
+
+/**
+ * A single unit move made during deployment.
+ */
+export interface ReplayMove {
+  unitId: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Deployment moves applied together (one drag or one squad move).
+ */
+export interface ReplayMoveInput {
+  type: 'move';
+  /** Number of ticks simulated before the input was applied */
+  tick: number;
+  moves: ReplayMove[];
+  /** Whether player squad overlaps were resolved after the moves */
+  resolveOverlaps: boolean;
+}
+
+/**
+ * Battle speed change.
+ */
+export interface ReplaySpeedInput {
+  type: 'speed';
+  /** Number of ticks simulated before the input was applied */
+  tick: number;
+  speed: number;
+}
+
+/**
+ * Tactical order given to units during battle.
+ */
+export interface ReplayOrderInput {
+  type: 'order';
+  /** Number of ticks simulated before the input was applied */
+  tick: number;
+  /** Units that took the order */
+  unitIds: string[];
+  /** The order (null = back to auto-battle) */
+  order: SquadOrder | null;
+}
+
+/**
+ * Player input that affects the simulation.
+ */
+export type ReplayInput = ReplayMoveInput | ReplaySpeedInput | ReplayOrderInput;
+
+/**
+ * A recorded battle.
+ */
+export interface BattleReplay {
+  version: number;
+  /** Seed for gameplay randomness, applied before the squads spawn */
+  seed: number;
+  waveNumber: number;
+  /** Arena size the battle was fought in (pixels) */
+  arenaWidth: number;
+  arenaHeight: number;
+  /** Squads in spawn order (castles included) */
+  squads: ReplaySquad[];
+  /** Terrain features (omitted in replays recorded before terrain existed) */
+  terrain?: TerrainDefinition[];
+  /** Player inputs in the order they were applied */
+  inputs: ReplayInput[];
+  /** Raw delta of every tick the battle ran (seconds, before time scale) */
+  ticks: number[];
+  /** Outcome when recording stopped ('pending' if the battle never finished) */
+  outcome: BattleOutcome;
+  /** Simulated seconds when recording stopped */
+  simulationTime: number;
+}
@@ -4,6 +4,7 @@ import {
   ShuffleConfig,
   SHUFFLE_RANDOM_DIRECTION_MULTIPLIER,
 } from './BattleConfig';
+import { randomRange } from '../utils/Random';
 
 // Re-export for backward compatibility
 export { DEFAULT_SHUFFLE_CONFIG } from './BattleConfig';
@@ -20,29 +21,30 @@ export interface Shuffleable {
   shuffleTimer: number;
 }
 
-// Generate a random time within a range
-const randomInRange = (min: number, max: number): number => min + Math.random() * (max - min);
-
 // Generate a new shuffle direction biased toward horizontal movement
-export const generateShuffleDirection = (horizontalBias: number): Vector2 => {
-  const x = (Math.random() - 0.5) * SHUFFLE_RANDOM_DIRECTION_MULTIPLIER * horizontalBias;
-  const y = (Math.random() - 0.5) * SHUFFLE_RANDOM_DIRECTION_MULTIPLIER;
+export const generateShuffleDirection = (
+  horizontalBias: number,
+  random: () => number = Math.random
+): Vector2 => {
+  const x = (random() - 0.5) * SHUFFLE_RANDOM_DIRECTION_MULTIPLIER * horizontalBias;
+  const y = (random() - 0.5) * SHUFFLE_RANDOM_DIRECTION_MULTIPLIER;
   return new Vector2(x, y).normalize();
 };
 
 // Decide the next shuffle action (move or pause) and set timer
 export const decideNextShuffleAction = (
   unit: Shuffleable,
-  config: ShuffleConfig = DEFAULT_SHUFFLE_CONFIG
+  config: ShuffleConfig = DEFAULT_SHUFFLE_CONFIG,
+  random: () => number = Math.random
 ): void => {
-  if (Math.random() < config.moveProbability) {
+  if (random() < config.moveProbability) {
     // Move in a random direction
-    unit.shuffleDirection = generateShuffleDirection(config.horizontalBias);
-    unit.shuffleTimer = randomInRange(config.moveTimeMin, config.moveTimeMax);
+    unit.shuffleDirection = generateShuffleDirection(config.horizontalBias, random);
+    unit.shuffleTimer = randomRange(config.moveTimeMin, config.moveTimeMax, random);
   } else {
     // Pause
     unit.shuffleDirection = null;
-    unit.shuffleTimer = randomInRange(config.pauseTimeMin, config.pauseTimeMax);
+    unit.shuffleTimer = randomRange(config.pauseTimeMin, config.pauseTimeMax, random);
   }
 };
 
@@ -63,13 +65,14 @@ export const calculateShuffleMovement = (
 export const updateShuffle = (
   unit: Shuffleable,
   delta: number,
-  config: ShuffleConfig = DEFAULT_SHUFFLE_CONFIG
+  config: ShuffleConfig = DEFAULT_SHUFFLE_CONFIG,
+  random: () => number = Math.random
 ): Vector2 => {
   unit.shuffleTimer -= delta;
 
   // Timer expired - decide next action
   if (unit.shuffleTimer <= 0) {
-    decideNextShuffleAction(unit, config);
+    decideNextShuffleAction(unit, config, random);
   }
 
   return calculateShuffleMovement(unit, delta, config);
@@ -79,8 +82,9 @@ export const updateShuffle = (
 export const applyShuffle = (
   unit: Shuffleable,
   delta: number,
-  config: ShuffleConfig = DEFAULT_SHUFFLE_CONFIG
+  config: ShuffleConfig = DEFAULT_SHUFFLE_CONFIG,
+  random: () => number = Math.random
 ): void => {
-  const movement = updateShuffle(unit, delta, config);
+  const movement = updateShuffle(unit, delta, config, random);
   unit.position = unit.position.add(movement);
 };
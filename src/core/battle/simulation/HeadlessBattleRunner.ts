@@ -0,0 +1,294 @@
+/**
+ * Headless Battle Runner
+ *
+ * Runs full wave battles without React or canvas for balance testing.
+ * Spawns a wave exactly like the UI does, ticks it at a fixed delta until
+ * one side is eliminated, and reports the BattleStats result.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import {
+  HEADLESS_ARENA_HEIGHT,
+  HEADLESS_ARENA_WIDTH,
+  HEADLESS_FIXED_DELTA,
+  HEADLESS_MAX_BATTLE_DURATION,
+} from '../BattleConfig';
+import { BattleEngine } from '../BattleEngine';
+import { BattleStatistics, BattleStats } from '../BattleStats';
+import { BattleOutcome } from '../types';
+import { IAbilityRegistry } from '../abilities';
+import { IUnitRegistry } from '../units';
+import type { IWaveRegistry } from '../waves';
+import type { IAffixRegistry } from '../elites';
+import { resolveAllOverlaps, spawnWaveUnits } from '../deployment/DeploymentService';
+import { SavedAllyLayout } from '../deployment/LayoutManager';
+import type { AlliedSquad } from '../FormationManager';
+import type { AppliedUpgrades } from '../upgrades';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Configuration for a single headless battle.
+ */
+export interface HeadlessBattleConfig {
+  /** Unit definitions */
+  unitRegistry: IUnitRegistry;
+  /** Ability definitions (omit to disable abilities) */
+  abilityRegistry?: IAbilityRegistry;
+  /** Scripted wave definitions (omit to generate every wave) */
+  waveRegistry?: IWaveRegistry;
+  /** Elite affix definitions (omit for elites without affixes) */
+  affixRegistry?: IAffixRegistry;
+  /** Wave to fight */
+  waveNumber: number;
+  /** Seed for gameplay randomness */
+  seed: number;
+  /** Ally layout to deploy (omit for the default formation) */
+  allyLayout?: SavedAllyLayout | null;
+  /** Ally squads to deploy (omit for the default army) */
+  allyArmy?: AlliedSquad[] | null;
+  /** Purchased upgrades applied to ally squads (omit for none) */
+  playerUpgrades?: AppliedUpgrades[];
+  /** Arena width in pixels (default: HEADLESS_ARENA_WIDTH) */
+  arenaWidth?: number;
+  /** Arena height in pixels (default: HEADLESS_ARENA_HEIGHT) */
+  arenaHeight?: number;
+  /** Fixed tick delta in seconds (default: HEADLESS_FIXED_DELTA) */
+  fixedDelta?: number;
+  /** Real-time limit in seconds before the battle times out (default: HEADLESS_MAX_BATTLE_DURATION) */
+  maxDuration?: number;
+}
+
+/**
+ * Result of a single headless battle.
+ */
+export interface HeadlessBattleResult {
+  waveNumber: number;
+  seed: number;
+  /** Battle outcome ('pending' if the battle timed out) */
+  outcome: BattleOutcome;
+  /** True if the battle hit maxDuration before either side was eliminated */
+  timedOut: boolean;
+  /** Number of ticks simulated */
+  ticks: number;
+  /** Simulated seconds (includes auto speed-up) */
+  simulationTime: number;
+  /** Battle statistics (battleDuration is real-time seconds, as in the UI) */
+  stats: BattleStatistics;
+}
+
+/**
+ * Configuration for a sweep of battles over seeds and waves.
+ */
+export interface BattleSweepConfig extends Omit<HeadlessBattleConfig, 'waveNumber' | 'seed'> {
+  /** First wave (inclusive) */
+  waveStart: number;
+  /** Last wave (inclusive) */
+  waveEnd: number;
+  /** Seeds to run for every wave */
+  seeds: readonly number[];
+}
+
+/**
+ * Aggregated results for one wave of a sweep.
+ */
+export interface WaveSweepSummary {
+  waveNumber: number;
+  battles: number;
+  playerWins: number;
+  enemyWins: number;
+  draws: number;
+  timeouts: number;
+  /** Player wins / battles (0-1) */
+  playerWinRate: number;
+  /** Average simulated seconds per battle */
+  avgSimulationTime: number;
+  /** Average real-time seconds per battle */
+  avgBattleDuration: number;
+  avgPlayerDamageDealt: number;
+  avgEnemyDamageDealt: number;
+  avgPlayerKills: number;
+  avgEnemyKills: number;
+}
+
+// =============================================================================
+// RUNNING
+// =============================================================================
+
+/**
+ * Runs one wave battle to completion.
+ *
+ * @param config - Battle configuration
+ * @returns Outcome and statistics
+ */
+export function runHeadlessBattle(config: HeadlessBattleConfig): HeadlessBattleResult {
+  const arenaWidth = config.arenaWidth ?? HEADLESS_ARENA_WIDTH;
+  const arenaHeight = config.arenaHeight ?? HEADLESS_ARENA_HEIGHT;
+  const fixedDelta = config.fixedDelta ?? HEADLESS_FIXED_DELTA;
+  const maxDuration = config.maxDuration ?? HEADLESS_MAX_BATTLE_DURATION;
+
+  const engine = new BattleEngine(config.unitRegistry, {
+    abilityRegistry: config.abilityRegistry,
+    waveRegistry: config.waveRegistry,
+    affixRegistry: config.affixRegistry,
+    seed: config.seed,
+  });
+  engine.setWave(config.waveNumber);
+  engine.setSavedAllyLayout(config.allyLayout ?? null);
+  engine.setAllyArmy(config.allyArmy ?? null);
+  engine.setPlayerUpgrades(config.playerUpgrades ?? []);
+
+  // Attach stats before spawning so spawned units are counted
+  const stats = new BattleStats();
+  stats.attach(engine.getWorld());
+
+  spawnWaveUnits(engine, { waveNumber: config.waveNumber, arenaWidth, arenaHeight });
+  resolveAllOverlaps(engine, arenaWidth, arenaHeight);
+  engine.start();
+
+  const maxTicks = Math.ceil(maxDuration / fixedDelta);
+  let ticks = 0;
+  while (engine.getState().isRunning && ticks < maxTicks) {
+    engine.tick(fixedDelta);
+    stats.updateDuration(fixedDelta);
+    ticks++;
+  }
+
+  const outcome = engine.getState().outcome;
+  const result: HeadlessBattleResult = {
+    waveNumber: config.waveNumber,
+    seed: config.seed,
+    outcome,
+    timedOut: outcome === 'pending',
+    ticks,
+    simulationTime: engine.getSimulationTime(),
+    stats: cloneStatistics(stats.getStats()),
+  };
+
+  stats.detach();
+  engine.clear();
+  return result;
+}
+
+/**
+ * Runs every seed against every wave in a range.
+ *
+ * @param config - Sweep configuration
+ * @param onResult - Optional callback after each battle (for progress output)
+ * @returns All battle results, ordered by wave then seed
+ */
+export function runBattleSweep(
+  config: BattleSweepConfig,
+  onResult?: (result: HeadlessBattleResult) => void
+): HeadlessBattleResult[] {
+  const { waveStart, waveEnd, seeds, ...battleConfig } = config;
+  const results: HeadlessBattleResult[] = [];
+
+  for (let waveNumber = waveStart; waveNumber <= waveEnd; waveNumber++) {
+    for (const seed of seeds) {
+      const result = runHeadlessBattle({ ...battleConfig, waveNumber, seed });
+      results.push(result);
+      onResult?.(result);
+    }
+  }
+
+  return results;
+}
+
+// =============================================================================
+// REPORTING
+// =============================================================================
+
+/**
+ * Aggregates battle results per wave.
+ *
+ * @param results - Results from runBattleSweep (any order)
+ * @returns One summary per wave, ordered by wave number
+ */
+export function summarizeBattleResults(
+  results: readonly HeadlessBattleResult[]
+): WaveSweepSummary[] {
+  const byWave = new Map<number, HeadlessBattleResult[]>();
+  for (const result of results) {
+    const waveResults = byWave.get(result.waveNumber) ?? [];
+    waveResults.push(result);
+    byWave.set(result.waveNumber, waveResults);
+  }
+
+  return [...byWave.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([waveNumber, waveResults]) => {
+      const battles = waveResults.length;
+      const count = (predicate: (r: HeadlessBattleResult) => boolean) =>
+        waveResults.filter(predicate).length;
+      const average = (value: (r: HeadlessBattleResult) => number) =>
+        waveResults.reduce((sum, r) => sum + value(r), 0) / battles;
+      const playerWins = count((r) => r.outcome === 'player_victory');
+
+      return {
+        waveNumber,
+        battles,
+        playerWins,
+        enemyWins: count((r) => r.outcome === 'enemy_victory'),
+        draws: count((r) => r.outcome === 'draw'),
+        timeouts: count((r) => r.timedOut),
+        playerWinRate: playerWins / battles,
+        avgSimulationTime: average((r) => r.simulationTime),
+        avgBattleDuration: average((r) => r.stats.battleDuration),
+        avgPlayerDamageDealt: average((r) => r.stats.player.damageDealt),
+        avgEnemyDamageDealt: average((r) => r.stats.enemy.damageDealt),
+        avgPlayerKills: average((r) => r.stats.player.kills),
+        avgEnemyKills: average((r) => r.stats.enemy.kills),
+      };
+    });
+}
+
+/**
+ * CSV columns, in output order.
+ */
+const SUMMARY_CSV_COLUMNS: readonly (keyof WaveSweepSummary)[] = [
+  'waveNumber',
+  'battles',
+  'playerWins',
+  'enemyWins',
+  'draws',
+  'timeouts',
+  'playerWinRate',
+  'avgSimulationTime',
+  'avgBattleDuration',
+  'avgPlayerDamageDealt',
+  'avgEnemyDamageDealt',
+  'avgPlayerKills',
+  'avgEnemyKills',
+];
+
+/**
+ * Formats wave summaries as CSV (header row + one row per wave).
+ */
+export function formatSummaryCsv(summaries: readonly WaveSweepSummary[]): string {
+  const rows = summaries.map((summary) =>
+    SUMMARY_CSV_COLUMNS.map((column) => formatCsvNumber(summary[column])).join(',')
+  );
+  return [SUMMARY_CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+/**
+ * Integers as-is, fractions rounded to 3 decimals.
+ */
+function formatCsvNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(3);
+}
+
+/**
+ * Deep copy of statistics (BattleStats mutates its object in place).
+ */
+function cloneStatistics(stats: Readonly<BattleStatistics>): BattleStatistics {
+  return {
+    ...stats,
+    player: { ...stats.player, deathsByType: { ...stats.player.deathsByType } },
+    enemy: { ...stats.enemy, deathsByType: { ...stats.enemy.deathsByType } },
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Simulation Module
+ *
+ * Headless battle running for balance sweeps.
+ * All exports are Godot-portable.
+ */
+
+export type {
+  HeadlessBattleConfig,
+  HeadlessBattleResult,
+  BattleSweepConfig,
+  WaveSweepSummary,
+} from './HeadlessBattleRunner';
+export {
+  runHeadlessBattle,
+  runBattleSweep,
+  summarizeBattleResults,
+  formatSummaryCsv,
+} from './HeadlessBattleRunner';
@@ -0,0 +1,250 @@
+/**
+ * Spatial Grid
+ *
+ * Uniform-grid spatial index for neighbour queries. Items are bucketed by
+ * position so radius and nearest-item queries only visit nearby buckets
+ * instead of every item.
+ *
+ * Results come back in insertion order, and nearest-item ties go to the
+ * earliest inserted item, so queries match a linear scan of the same list.
+ *
+ * Godot equivalent: PhysicsDirectSpaceState2D queries, or a custom grid.
+ */
+
+import { Vector2 } from '../../physics/Vector2';
+
+/**
+ * Anything with a position can be indexed.
+ */
+export interface SpatialItem {
+  readonly position: Vector2;
+}
+
+/** Offset keeping negative cell coordinates positive in bucket keys */
+const KEY_OFFSET = 32768;
+
+interface Entry {
+  key: number;
+  order: number;
+}
+
+/**
+ * Uniform grid of position buckets.
+ */
+export class SpatialGrid<T extends SpatialItem> {
+  private buckets = new Map<number, T[]>();
+  private entries = new Map<T, Entry>();
+  private nextOrder = 0;
+  private largestExtent = 0;
+  // Occupied cell range (only grows until the next clear, which keeps ring searches bounded)
+  private minCol = Infinity;
+  private maxCol = -Infinity;
+  private minRow = Infinity;
+  private maxRow = -Infinity;
+
+  /**
+   * @param cellSize - Bucket size in pixels (around the typical query radius)
+   * @param getExtent - Item radius, for queries that reach item edges
+   */
+  constructor(
+    readonly cellSize: number,
+    private readonly getExtent: (item: T) => number = () => 0
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Largest item extent seen since the last clear.
+   * Pad query radii by this to find items whose edge is in range.
+   */
+  get maxExtent(): number {
+    return this.largestExtent;
+  }
+
+  clear(): void {
+    this.buckets.clear();
+    this.entries.clear();
+    this.nextOrder = 0;
+    this.largestExtent = 0;
+    this.minCol = this.minRow = Infinity;
+    this.maxCol = this.maxRow = -Infinity;
+  }
+
+  /**
+   * Replace the index contents. Item order sets the result order.
+   */
+  rebuild(items: readonly T[]): void {
+    this.clear();
+    for (const item of items) {
+      this.insert(item);
+    }
+  }
+
+  /**
+   * Add an item after all current items.
+   */
+  insert(item: T): void {
+    if (this.entries.has(item)) return;
+    const key = this.addToBucket(item);
+    this.entries.set(item, { key, order: this.nextOrder++ });
+  }
+
+  remove(item: T): void {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+    this.removeFromBucket(item, entry.key);
+    this.entries.delete(item);
+  }
+
+  /**
+   * Move an item to the bucket for its current position.
+   * Call after the item moves.
+   */
+  update(item: T): void {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+
+    this.largestExtent = Math.max(this.largestExtent, this.getExtent(item));
+    const key = this.getKey(item.position);
+    if (key === entry.key) return;
+
+    this.removeFromBucket(item, entry.key);
+    entry.key = this.addToBucket(item);
+  }
+
+  /**
+   * Insertion rank of an item (lower = inserted earlier), -1 if not indexed.
+   */
+  getOrder(item: T): number {
+    return this.entries.get(item)?.order ?? -1;
+  }
+
+  /**
+   * Items whose position is within a radius of a point.
+   * @returns Matching items in insertion order
+   */
+  queryRadius(center: Vector2, radius: number): T[] {
+    const found: T[] = [];
+    const minCol = Math.max(this.toCell(center.x - radius), this.minCol);
+    const maxCol = Math.min(this.toCell(center.x + radius), this.maxCol);
+    const minRow = Math.max(this.toCell(center.y - radius), this.minRow);
+    const maxRow = Math.min(this.toCell(center.y + radius), this.maxRow);
+    const radiusSq = radius * radius;
+
+    for (let col = minCol; col <= maxCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        const bucket = this.buckets.get(this.toKey(col, row));
+        if (!bucket) continue;
+        for (const item of bucket) {
+          const dx = item.position.x - center.x;
+          const dy = item.position.y - center.y;
+          if (dx * dx + dy * dy <= radiusSq) found.push(item);
+        }
+      }
+    }
+
+    return found.length > 1 ? found.sort((a, b) => this.getOrder(a) - this.getOrder(b)) : found;
+  }
+
+  /**
+   * Nearest accepted item strictly closer than maxDistance.
+   * Searches rings of buckets outward and stops once no closer item can exist.
+   *
+   * @param accept - Filter (e.g. living enemies only)
+   * @returns Nearest item (earliest inserted on ties), or null
+   */
+  findNearest(center: Vector2, maxDistance: number, accept: (item: T) => boolean): T | null {
+    if (this.entries.size === 0) return null;
+
+    const centerCol = this.toCell(center.x);
+    const centerRow = this.toCell(center.y);
+    const maxRing = Math.max(
+      centerCol - this.minCol,
+      this.maxCol - centerCol,
+      centerRow - this.minRow,
+      this.maxRow - centerRow
+    );
+
+    let best: T | null = null;
+    let bestDist = maxDistance;
+    let bestOrder = Infinity;
+
+    const visit = (col: number, row: number): void => {
+      const bucket = this.buckets.get(this.toKey(col, row));
+      if (!bucket) return;
+      for (const item of bucket) {
+        const dx = center.x - item.position.x;
+        const dy = center.y - item.position.y;
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        if (dist > bestDist || (dist === bestDist && best === null)) continue;
+        const order = this.getOrder(item);
+        if (dist === bestDist && order > bestOrder) continue;
+        if (!accept(item)) continue;
+        best = item;
+        bestDist = dist;
+        bestOrder = order;
+      }
+    };
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Every point in this ring is more than (ring - 1) cells away
+      if ((ring - 1) * this.cellSize >= bestDist) break;
+
+      if (ring === 0) {
+        visit(centerCol, centerRow);
+        continue;
+      }
+      for (let col = centerCol - ring; col <= centerCol + ring; col++) {
+        visit(col, centerRow - ring);
+        visit(col, centerRow + ring);
+      }
+      for (let row = centerRow - ring + 1; row <= centerRow + ring - 1; row++) {
+        visit(centerCol - ring, row);
+        visit(centerCol + ring, row);
+      }
+    }
+
+    return best;
+  }
+
+  private toCell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private toKey(col: number, row: number): number {
+    return (col + KEY_OFFSET) * KEY_OFFSET * 2 + (row + KEY_OFFSET);
+  }
+
+  private getKey(position: Vector2): number {
+    return this.toKey(this.toCell(position.x), this.toCell(position.y));
+  }
+
+  private addToBucket(item: T): number {
+    const col = this.toCell(item.position.x);
+    const row = this.toCell(item.position.y);
+    const key = this.toKey(col, row);
+    const bucket = this.buckets.get(key);
+    if (bucket) {
+      bucket.push(item);
+    } else {
+      this.buckets.set(key, [item]);
+    }
+
+    this.minCol = Math.min(this.minCol, col);
+    this.maxCol = Math.max(this.maxCol, col);
+    this.minRow = Math.min(this.minRow, row);
+    this.maxRow = Math.max(this.maxRow, row);
+    this.largestExtent = Math.max(this.largestExtent, this.getExtent(item));
+    return key;
+  }
+
+  private removeFromBucket(item: T, key: number): void {
+    const bucket = this.buckets.get(key);
+    if (!bucket) return;
+    const index = bucket.indexOf(item);
+    if (index !== -1) bucket.splice(index, 1);
+    if (bucket.length === 0) this.buckets.delete(key);
+  }
+}
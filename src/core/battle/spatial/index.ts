@@ -0,0 +1,6 @@
+/**
+ * Spatial Index Exports
+ */
+
+export type { SpatialItem } from './SpatialGrid';
+export { SpatialGrid } from './SpatialGrid';
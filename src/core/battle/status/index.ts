@@ -0,0 +1,7 @@
+/**
+ * Status Effects
+ *
+ * Stun, root, slow, burn, regen and shields on units.
+ */
+
+export * from './types';
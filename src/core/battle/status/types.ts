@@ -0,0 +1,73 @@
+/**
+ * Status Effect Types
+ *
+ * Crowd control, damage over time and shields on a unit. Stat changes
+ * (buffs, debuffs, upgrades) are modifiers; status effects cover what a
+ * stat cannot express: skipping phases, ticking damage or heals, and
+ * absorbing hits.
+ *
+ * Stacking rules per status:
+ * - stun, root: refresh to the longer duration, then an immunity window
+ * - slow: refresh, strongest slow wins
+ * - burn: each application adds a stack (up to maxStacks) and refreshes the duration
+ * - regen: refresh, strongest regen wins
+ * - shield: refresh, the larger of the remaining and the new absorb wins
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import type { DamageType, UnitTeam } from '../units/types';
+
+/**
+ * Kinds of status effect.
+ */
+export type StatusEffectType =
+  | 'stun' // Skips targeting, combat and movement
+  | 'root' // Skips movement, can still attack
+  | 'slow' // Reduces move speed
+  | 'burn' // Damage over time
+  | 'regen' // Heal over time
+  | 'shield'; // Absorbs damage before health
+
+/**
+ * A status effect active on a unit.
+ */
+export interface StatusEffect {
+  type: StatusEffectType;
+  /** Ability or effect that applied it */
+  sourceId: string;
+  /** Team that applied it; statuses from the other team are cleansed by a rally */
+  sourceTeam: UnitTeam;
+  /** Unit credited with burn damage and kills (omitted = no credit) */
+  sourceUnitId?: string;
+  /** Seconds left */
+  remainingDuration: number;
+  /**
+   * Strength: slow fraction (0.3 = 30% slower), damage or heal per second
+   * per stack, or absorb left on a shield. Unused by stun and root.
+   */
+  amount: number;
+  /** Number of stacks (burn only; 1 for other statuses) */
+  stacks: number;
+  /** Seconds until the next burn or regen pulse */
+  tickTimer: number;
+  /** Damage type of burn pulses (default 'energy') */
+  damageType?: DamageType;
+  /** Seconds of immunity to this status type once it ends (default per status) */
+  immunity?: number;
+}
+
+/**
+ * Seconds left before a status can be applied again, per status type.
+ */
+export type StatusImmunities = Partial<Record<StatusEffectType, number>>;
+
+/**
+ * Status effect render data for React rendering.
+ */
+export interface StatusEffectRenderData {
+  type: StatusEffectType;
+  remainingDuration: number;
+  stacks: number;
+  sourceTeam: UnitTeam;
+}
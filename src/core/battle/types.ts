@@ -13,12 +13,25 @@
 
 import { Vector2 } from '../physics/Vector2';
 import { GRID_TOTAL_ROWS, UNIT_SIZE_CELL_FRACTION } from './BattleConfig';
-import type { UnitTeam as UnitTeamType, UnitShape as UnitShapeType } from './units/types';
+import type {
+  DamageResistances,
+  DamageType,
+  MovementLayer,
+  ProjectileBehavior,
+  ProjectileType,
+  UnitTeam as UnitTeamType,
+  UnitShape as UnitShapeType,
+} from './units/types';
 import type { DamageNumberRenderData } from './entities/DamageNumberEntity';
 import type { GridFootprint } from './grid/GridTypes';
+import type { EliteSquad } from './elites/types';
+import type { SquadOrder } from './orders/types';
+import type { StatusEffectRenderData } from './status/types';
+import type { TerrainType } from './obstacles/Terrain';
+import type { FlowField } from './pathfinding/FlowField';
 
 // Re-export for convenience
-export type { DamageNumberRenderData } from './entities/DamageNumberEntity';
+export type { DamageNumberKind, DamageNumberRenderData } from './entities/DamageNumberEntity';
 
 // =============================================================================
 // NEW UNIT SYSTEM TYPES - Use these for all new code
@@ -28,10 +41,20 @@ export type {
   UnitTeam,
   UnitCategory,
   UnitShape,
+  MovementLayer,
+  GiantTraits,
   UnitInstance,
   UnitDefinition,
 } from './units/types';
-export type { AttackModeStats, BaseStats, ComputedStats } from './units/types';
+export type {
+  AttackModeStats,
+  BaseStats,
+  ComputedStats,
+  DamageProfile,
+  DamageResistances,
+  DamageResult,
+  DamageType,
+} from './units/types';
 
 // =============================================================================
 // RENDER DATA TYPES - DTOs for React rendering layer
@@ -64,6 +87,16 @@ export interface AttackMode {
   projectileSpeed?: number;
   /** Splash/AoE damage radius (0 or undefined = single target) */
   splashRadius?: number;
+  /** Damage type (default 'kinetic') */
+  damageType?: DamageType;
+  /** Flat armor ignored by this attack */
+  armorPenetration?: number;
+  /** Projectile behavior (straight shot if not set) */
+  projectile?: ProjectileBehavior;
+  /** Can hit ground units and castles (default true) */
+  canTargetGround?: boolean;
+  /** Can hit air units (default false) */
+  canTargetAir?: boolean;
 }
 
 /**
@@ -73,9 +106,15 @@ export interface AttackMode {
 export interface UnitStats {
   maxHealth: number;
   moveSpeed: number;
+  /** Flat damage reduction (from BaseStats.armor, after modifiers) */
+  armor?: number;
+  /** Per damage type resistances (from BaseStats.resistances) */
+  resistances?: DamageResistances;
   attackInterval?: number; // seconds between attacks (from Mechabellum)
   melee: AttackMode | null;
   ranged: AttackMode | null;
+  /** Repair attack mode: restores `damage` health to wounded allies (none if not set) */
+  repair?: AttackMode | null;
   /** If true, attack cooldown resets when switching to a new target (e.g., snipers) */
   resetAttackOnTargetSwitch?: boolean;
 }
@@ -113,9 +152,15 @@ export interface UnitRenderData {
   color: string;
   shape: UnitShapeType;
   size: number;
+  /** Layer the unit moves on (air units draw above ground units) */
+  movementLayer: MovementLayer;
+  /** Single huge unit with its own large health bar (undefined = regular unit) */
+  isGiant?: boolean;
   shuffleDirection: Vector2 | null;
   shuffleTimer: number;
   activeModifiers: ModifierRenderData[];
+  /** Stun, root, slow, burn, regen and shield statuses */
+  statusEffects: StatusEffectRenderData[];
   /** Visual offset for melee lunge/knockback effects */
   visualOffset: Vector2;
   /** Timer for hit flash effect (> 0 means unit should flash) */
@@ -132,6 +177,10 @@ export interface UnitRenderData {
   aimProgress: number;
   /** Grid footprint for deployment positioning (from unit definition) */
   gridFootprint: GridFootprint;
+  /** Elite/boss rank and affixes (undefined = regular squad) */
+  elite?: EliteSquad;
+  /** Tactical order being carried out (undefined = auto-battle) */
+  order?: SquadOrder;
 }
 
 /**
@@ -147,8 +196,37 @@ export interface ProjectileRenderData {
   damage: number;
   sourceTeam: UnitTeam;
   color: string;
+  /** Flight behavior (undefined = straight shot) */
+  projectileType?: ProjectileType;
+  /** Height above the ground in pixels (arcing shells, 0 otherwise) */
+  height: number;
+}
+
+/**
+ * Beam render data for React rendering.
+ * Covers hitscan beams and the arcs of chaining projectiles.
+ */
+export interface BeamRenderData {
+  id: string;
+  /** Start of the beam (the firing unit, or the previous chain target) */
+  origin: Vector2;
+  /** End of the beam (the target) */
+  end: Vector2;
+  sourceTeam: UnitTeam;
+  color: string;
+  /** 'beam' for beam attacks, 'chain' for chain arcs */
+  style: BeamStyle;
+  /** Current damage multiplier (ramps up on continuous beams) */
+  intensity: number;
+  /** Visibility 0-1 (1 while firing, fades out after) */
+  opacity: number;
 }
 
+/**
+ * Visual style of a beam.
+ */
+export type BeamStyle = 'beam' | 'chain';
+
 /**
  * Castle render data for React rendering.
  */
@@ -165,6 +243,18 @@ export interface CastleRenderData {
   color: string;
 }
 
+/**
+ * Terrain feature render data for React rendering.
+ */
+export interface TerrainRenderData {
+  id: string;
+  type: TerrainType;
+  /** Center position */
+  position: Vector2;
+  /** Grid footprint (cols x rows) */
+  gridFootprint: GridFootprint;
+}
+
 /**
  * Shockwave render data for React rendering.
  */
@@ -222,7 +312,11 @@ export interface BattleOutcomeResult {
 export interface BattleState {
   units: UnitRenderData[];
   projectiles: ProjectileRenderData[];
+  beams: BeamRenderData[];
   castles: CastleRenderData[];
+  terrain: TerrainRenderData[];
+  /** Flow field of the player's forward march (pathfinding debug overlay) */
+  flowField: FlowField | null;
   shockwaves: ShockwaveRenderData[];
   damageNumbers: DamageNumberRenderData[];
   isRunning: boolean;
@@ -9,27 +9,59 @@
 
 import { Vector2 } from '../../physics/Vector2';
 import {
+  BEAM_MAX_RAMP,
+  BEAM_TICK_INTERVAL,
+  calculateDPS,
   MELEE_ATTACK_RANGE_THRESHOLD,
   MELEE_SIZE_MULTIPLIER,
   MELEE_RANGE_BUFFER,
 } from '../BattleConfig';
 import { IDamageable } from '../IEntity';
 import { AttackMode, UnitStats } from '../types';
+import type { AttackModeStats, DamageProfile, MovementLayer } from '../units/types';
+
+/**
+ * Movement layers, in the order they are checked.
+ */
+const MOVEMENT_LAYERS: readonly MovementLayer[] = ['ground', 'air'];
+
+/**
+ * Check if an attack can hit a target on a layer.
+ * Attacks hit the ground unless they opt out, and the air only if they opt in.
+ *
+ * @param profile - Attack mode or projectile damage profile
+ * @param layer - Target's layer (default 'ground')
+ */
+export function canHitLayer(profile: DamageProfile, layer: MovementLayer = 'ground'): boolean {
+  return layer === 'air' ? profile.canTargetAir === true : profile.canTargetGround !== false;
+}
+
+/**
+ * Get the layers a unit's melee or ranged attack can hit.
+ */
+export function getTargetLayers(stats: UnitStats): MovementLayer[] {
+  const modes = [stats.melee, stats.ranged].filter((mode): mode is AttackMode => !!mode);
+  return MOVEMENT_LAYERS.filter((layer) => modes.some((mode) => canHitLayer(mode, layer)));
+}
 
 /**
  * Determine the attack mode (melee or ranged) based on distance.
+ * Attack modes that cannot hit the target's layer are skipped.
  *
  * @param stats - Unit stats with melee/ranged capabilities
  * @param unitSize - Size of the attacking unit
  * @param distanceToTarget - Distance to target
+ * @param targetLayer - Target's layer (default 'ground')
  * @returns Attack mode to use, or null if no valid attack
  */
 export function getAttackMode(
   stats: UnitStats,
   unitSize: number,
-  distanceToTarget: number
+  distanceToTarget: number,
+  targetLayer: MovementLayer = 'ground'
 ): AttackMode | null {
-  const { melee, ranged } = stats;
+  const melee = stats.melee && canHitLayer(stats.melee, targetLayer) ? stats.melee : null;
+  const ranged = stats.ranged && canHitLayer(stats.ranged, targetLayer) ? stats.ranged : null;
   const meleeRange = melee ? melee.range + unitSize * MELEE_SIZE_MULTIPLIER : 0;
 
   // If in melee range and has melee attack, use melee
@@ -56,16 +88,61 @@ export function getMaxRange(stats: UnitStats): number {
   return 0;
 }
 
+/**
+ * Number of damage pulses a continuous beam deals over its duration.
+ */
+export function getBeamPulseCount(duration: number): number {
+  return Math.max(1, Math.ceil(duration / BEAM_TICK_INTERVAL));
+}
+
+/**
+ * Damage of one attack once a continuous beam's ramp is counted: its pulses
+ * grow stronger the longer it stays on target, so over the full duration it
+ * deals more than its listed damage. Other attacks deal their listed damage.
+ */
+export function getEffectiveDamage(mode: Pick<AttackModeStats, 'damage' | 'projectile'>): number {
+  const { projectile } = mode;
+  if (projectile?.type !== 'beam' || !projectile.duration || !projectile.rampRate) {
+    return mode.damage;
+  }
+
+  const pulses = getBeamPulseCount(projectile.duration);
+  const maxRamp = projectile.maxRamp ?? BEAM_MAX_RAMP;
+  let totalRamp = 0;
+  for (let i = 0; i < pulses; i++) {
+    totalRamp += Math.min(maxRamp, 1 + projectile.rampRate * i * BEAM_TICK_INTERVAL);
+  }
+  return (mode.damage * totalRamp) / pulses;
+}
+
+/**
+ * Get a unit's damage per second with its strongest attack mode
+ * (how threatening it is to the enemy).
+ */
+export function getThreat(stats: UnitStats): number {
+  let threat = 0;
+  for (const mode of [stats.melee, stats.ranged]) {
+    if (!mode) continue;
+    threat = Math.max(
+      threat,
+      calculateDPS(getEffectiveDamage(mode), 1 / getAttackCooldown(stats, mode))
+    );
+  }
+  return threat;
+}
+
 /**
  * Check if unit is in melee mode at the given distance.
+ * Units are never in melee mode against a target their melee attack cannot hit.
  */
 export function isInMeleeMode(
   stats: UnitStats,
   unitSize: number,
-  distanceToTarget: number
+  distanceToTarget: number,
+  targetLayer: MovementLayer = 'ground'
 ): boolean {
   const { melee } = stats;
-  if (!melee) return false;
+  if (!melee || !canHitLayer(melee, targetLayer)) return false;
   const meleeRange = melee.range + unitSize * MELEE_SIZE_MULTIPLIER + MELEE_RANGE_BUFFER;
   return distanceToTarget <= meleeRange;
 }
@@ -194,7 +271,7 @@ export function updateCombat(
   }
 
   const distanceToTarget = position.distanceTo(target.position);
-  const attackMode = getAttackMode(stats, unitSize, distanceToTarget);
+  const attackMode = getAttackMode(stats, unitSize, distanceToTarget, target.movementLayer);
 
   if (!attackMode) {
     return result;
@@ -219,3 +296,52 @@ export function updateCombat(
 
   return result;
 }
+
+/**
+ * Repair update result.
+ */
+export interface RepairUpdateResult {
+  /** New repair cooldown value */
+  repairCooldown: number;
+  /** Whether a repair was performed */
+  didRepair: boolean;
+  /** Health to restore (if repair performed) */
+  amount: number;
+}
+
+/**
+ * Update the repair attack mode of a support unit.
+ * Repairs restore the repair mode's damage as health, so they scale with
+ * levels and `repair.*` modifiers like any attack.
+ * Returns the result without healing (caller handles side effects).
+ *
+ * @param repairCooldown - Current repair cooldown
+ * @param delta - Frame delta in seconds
+ * @param position - Unit position
+ * @param unitSize - Unit size
+ * @param repair - Repair attack mode (none = never repairs)
+ * @param target - Ally being repaired
+ * @returns Repair update result
+ */
+export function updateRepair(
+  repairCooldown: number,
+  delta: number,
+  position: Vector2,
+  unitSize: number,
+  repair: AttackMode | null | undefined,
+  target: IDamageable | null
+): RepairUpdateResult {
+  const newCooldown = repairCooldown > 0 ? repairCooldown - delta : repairCooldown;
+  const result: RepairUpdateResult = { repairCooldown: newCooldown, didRepair: false, amount: 0 };
+
+  if (!repair || !target || newCooldown > 0) return result;
+
+  const effectiveRange = repair.range + unitSize + target.size;
+  if (position.distanceTo(target.position) > effectiveRange) return result;
+
+  return {
+    repairCooldown: 1 / repair.attackSpeed,
+    didRepair: true,
+    amount: Math.round(repair.damage),
+  };
+}
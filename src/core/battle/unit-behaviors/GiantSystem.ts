@@ -0,0 +1,136 @@
+/**
+ * Giant System
+ *
+ * Pure functions for giant units: trampling the enemies they touch,
+ * knocking them aside, and weak points that take extra damage from behind.
+ *
+ * Godot equivalent: Giant behavior functions in a unit script.
+ */
+
+import { Vector2 } from '../../physics/Vector2';
+import { MIN_NORMALIZE_THRESHOLD, TRAMPLE_INTERVAL, UNIT_SPACING } from '../BattleConfig';
+import type { UnitTeam } from '../units/types';
+import { getForwardDirection } from './MovementSystem';
+import { TrampleCandidate } from './types';
+
+/**
+ * Check if a giant is touching an enemy it can trample.
+ * Giants only trample mobile ground units smaller than themselves:
+ * air units fly over them, castles and other giants stand their ground.
+ *
+ * @param position - Giant position
+ * @param collisionSize - Giant collision size after modifiers
+ * @param candidate - Enemy to check
+ */
+export function isTrampleContact(
+  position: Vector2,
+  collisionSize: number,
+  candidate: TrampleCandidate
+): boolean {
+  if (candidate.isDestroyed() || candidate.isDying || candidate.health <= 0) return false;
+  if (candidate.isGiant || candidate.isStationary || candidate.movementLayer !== 'ground') {
+    return false;
+  }
+
+  const contactDistance = (collisionSize + candidate.getCollisionSize()) * UNIT_SPACING;
+  return position.distanceTo(candidate.position) < contactDistance;
+}
+
+/**
+ * Find all enemies a giant is trampling.
+ *
+ * @param position - Giant position
+ * @param collisionSize - Giant collision size after modifiers
+ * @param candidates - Nearby enemies
+ */
+export function findTrampleTargets<T extends TrampleCandidate>(
+  position: Vector2,
+  collisionSize: number,
+  candidates: readonly T[]
+): T[] {
+  return candidates.filter((candidate) => isTrampleContact(position, collisionSize, candidate));
+}
+
+/**
+ * Offset that shoves a trampled unit away from the giant.
+ *
+ * @param from - Giant position
+ * @param to - Trampled unit position
+ * @param distance - Knockback distance in pixels
+ * @param fallback - Direction to use when the units are on top of each other
+ */
+export function getTrampleOffset(
+  from: Vector2,
+  to: Vector2,
+  distance: number,
+  fallback: Vector2
+): Vector2 {
+  const away = to.subtract(from);
+  const direction =
+    away.magnitude() > MIN_NORMALIZE_THRESHOLD ? away.normalize() : fallback.normalize();
+  return direction.multiply(distance);
+}
+
+/**
+ * Trample update result.
+ */
+export interface TrampleUpdateResult {
+  /** New trample cooldown value */
+  trampleCooldown: number;
+  /** Whether the giant tramples this frame */
+  didTrample: boolean;
+}
+
+/**
+ * Update a giant's trample cooldown.
+ * Returns the result without dealing damage (caller handles side effects).
+ *
+ * @param trampleCooldown - Current trample cooldown
+ * @param delta - Frame delta in seconds
+ * @param contactCount - Number of enemies the giant is touching
+ */
+export function updateTrample(
+  trampleCooldown: number,
+  delta: number,
+  contactCount: number
+): TrampleUpdateResult {
+  const newCooldown = trampleCooldown > 0 ? trampleCooldown - delta : trampleCooldown;
+  if (contactCount === 0 || newCooldown > 0) {
+    return { trampleCooldown: newCooldown, didTrample: false };
+  }
+  return { trampleCooldown: TRAMPLE_INTERVAL, didTrample: true };
+}
+
+/**
+ * Direction a unit is facing: toward its target, or its march direction without one.
+ *
+ * @param position - Unit position
+ * @param team - Unit team
+ * @param targetPosition - Current target position (optional)
+ */
+export function getFacingDirection(
+  position: Vector2,
+  team: UnitTeam,
+  targetPosition?: Vector2
+): Vector2 {
+  if (targetPosition) {
+    const toTarget = targetPosition.subtract(position);
+    if (toTarget.magnitude() > MIN_NORMALIZE_THRESHOLD) return toTarget.normalize();
+  }
+  return getForwardDirection(team);
+}
+
+/**
+ * Check if a hit lands on a giant's weak point (its rear half).
+ *
+ * @param position - Giant position
+ * @param facing - Direction the giant is facing
+ * @param attackerPosition - Position the hit comes from
+ */
+export function isWeakPointHit(
+  position: Vector2,
+  facing: Vector2,
+  attackerPosition: Vector2
+): boolean {
+  return attackerPosition.subtract(position).dot(facing) < 0;
+}
@@ -1,123 +1,66 @@
 /**
  * Modifier System
  *
- * Pure functions for modifier management: applying, ticking, removing modifiers.
+ * Pure functions for a unit's modifier stack: applying, ticking, removing modifiers.
+ * Every buff, debuff, upgrade and terrain effect is an ActiveModifier, so they
+ * all compose through the same ModifierCalculator math.
  * Works with modifier arrays without mutating them.
  *
  * Godot equivalent: Modifier handling functions in a unit script.
  */
 
 import { MIN_COLLISION_SIZE_MULTIPLIER } from '../BattleConfig';
-import { TemporaryModifier, PendingModifier } from '../modifiers/TemporaryModifier';
-import { UnitTeam } from '../types';
-
-/**
- * Result of applying a modifier.
- */
-export interface ApplyModifierResult {
-  modifiers: TemporaryModifier[];
-  wasRefreshed: boolean;
-}
+import {
+  addOrStackModifier,
+  calculateModifiedStat,
+  tickModifiers as tickActiveModifiers,
+} from '../modifiers/ModifierCalculator';
+import { ActiveModifier, PendingModifier } from '../modifiers/types';
+import { ModifierRenderData, UnitTeam } from '../types';
 
 /**
  * Apply a modifier to the active modifiers list.
- * If a modifier with the same sourceId exists, refreshes duration instead of stacking.
+ * A modifier already applied by the same source stacks or refreshes,
+ * depending on its stacking policy.
  *
  * @param modifiers - Current active modifiers
  * @param newModifier - Modifier to apply
- * @returns New modifiers array and whether an existing modifier was refreshed
+ * @param maxStacks - Maximum stacks for stacking modifiers (default: unlimited)
+ * @returns New modifiers array
  */
 export function applyModifier(
-  modifiers: readonly TemporaryModifier[],
-  newModifier: TemporaryModifier
-): ApplyModifierResult {
-  const existingIndex = modifiers.findIndex((m) => m.sourceId === newModifier.sourceId);
-
-  if (existingIndex >= 0) {
-    // Refresh duration instead of stacking
-    const updated = [...modifiers];
-    updated[existingIndex] = {
-      ...updated[existingIndex],
-      remainingDuration: Math.max(
-        updated[existingIndex].remainingDuration,
-        newModifier.remainingDuration
-      ),
-    };
-    return { modifiers: updated, wasRefreshed: true };
-  }
-
-  return { modifiers: [...modifiers, newModifier], wasRefreshed: false };
+  modifiers: readonly ActiveModifier[],
+  newModifier: ActiveModifier,
+  maxStacks?: number
+): ActiveModifier[] {
+  return addOrStackModifier(modifiers.slice(), newModifier, maxStacks);
 }
 
 /**
  * Result of ticking modifiers.
  */
 export interface TickModifiersResult {
-  modifiers: TemporaryModifier[];
+  modifiers: ActiveModifier[];
   expiredCount: number;
 }
 
 /**
- * Tick all active modifiers, removing expired ones.
+ * Tick all timed modifiers, removing expired ones. Permanent modifiers stay.
  *
  * @param modifiers - Current active modifiers
  * @param delta - Frame delta in seconds
  * @returns New modifiers array and count of expired modifiers
  */
 export function tickModifiers(
-  modifiers: readonly TemporaryModifier[],
+  modifiers: readonly ActiveModifier[],
   delta: number
 ): TickModifiersResult {
-  const updated: TemporaryModifier[] = [];
-  let expiredCount = 0;
-
-  for (const mod of modifiers) {
-    const newDuration = mod.remainingDuration - delta;
-    if (newDuration > 0) {
-      updated.push({ ...mod, remainingDuration: newDuration });
-    } else {
-      expiredCount++;
-    }
-  }
-
-  return { modifiers: updated, expiredCount };
-}
-
-/**
- * Calculate movement speed after applying all active modifiers.
- * Modifiers are multiplicative: -0.9 means 10% of original speed.
- *
- * @param baseSpeed - Base movement speed
- * @param modifiers - Active modifiers
- * @returns Modified movement speed (minimum 0)
- */
-export function calculateModifiedMoveSpeed(
-  baseSpeed: number,
-  modifiers: readonly TemporaryModifier[]
-): number {
-  let speed = baseSpeed;
-  for (const mod of modifiers) {
-    speed *= 1 + mod.moveSpeedMod;
-  }
-  return Math.max(0, speed);
-}
-
-/**
- * Calculate damage multiplier from all active modifiers.
- *
- * @param modifiers - Active modifiers
- * @returns Damage multiplier (minimum 0)
- */
-export function calculateDamageMultiplier(modifiers: readonly TemporaryModifier[]): number {
-  let mult = 1;
-  for (const mod of modifiers) {
-    mult *= 1 + mod.damageMod;
-  }
-  return Math.max(0, mult);
+  const [remaining, expired] = tickActiveModifiers(modifiers.slice(), delta);
+  return { modifiers: remaining, expiredCount: expired.length };
 }
 
 /**
- * Calculate collision size after applying all active modifiers.
+ * Calculate collision size after applying all collisionSize modifiers.
  *
  * @param baseSize - Base unit size
  * @param modifiers - Active modifiers
@@ -125,13 +68,12 @@ export function calculateDamageMultiplier(modifiers: readonly TemporaryModifier[
  */
 export function calculateCollisionSize(
   baseSize: number,
-  modifiers: readonly TemporaryModifier[]
+  modifiers: readonly ActiveModifier[]
 ): number {
-  let mult = 1;
-  for (const mod of modifiers) {
-    mult *= 1 + mod.collisionSizeMod;
-  }
-  return Math.max(baseSize * MIN_COLLISION_SIZE_MULTIPLIER, baseSize * mult);
+  const sizeModifiers = modifiers.filter((m) => m.modifier.target === 'collisionSize');
+  if (sizeModifiers.length === 0) return baseSize;
+  const size = calculateModifiedStat(baseSize, sizeModifiers).final;
+  return Math.max(baseSize * MIN_COLLISION_SIZE_MULTIPLIER, size);
 }
 
 /**
@@ -142,7 +84,7 @@ export function calculateCollisionSize(
  * @returns True if modifier exists
  */
 export function hasModifierFromSource(
-  modifiers: readonly TemporaryModifier[],
+  modifiers: readonly ActiveModifier[],
   sourceId: string
 ): boolean {
   return modifiers.some((m) => m.sourceId === sourceId);
@@ -156,9 +98,9 @@ export function hasModifierFromSource(
  * @returns New modifiers array and whether any were removed
  */
 export function removeModifiersBySource(
-  modifiers: readonly TemporaryModifier[],
+  modifiers: readonly ActiveModifier[],
   sourceId: string
-): { modifiers: TemporaryModifier[]; removedCount: number } {
+): { modifiers: ActiveModifier[]; removedCount: number } {
   const filtered = modifiers.filter((m) => m.sourceId !== sourceId);
   return {
     modifiers: filtered,
@@ -167,17 +109,39 @@ export function removeModifiersBySource(
 }
 
 /**
- * Clear all enemy debuffs (modifiers where sourceTeam differs from unit's team).
+ * Check if a modifier was applied by the other team.
+ */
+export function isEnemyDebuff(modifier: ActiveModifier, unitTeam: UnitTeam): boolean {
+  return modifier.sourceTeam !== undefined && modifier.sourceTeam !== unitTeam;
+}
+
+/**
+ * Clear all enemy debuffs (modifiers applied by the other team).
+ * The unit's own modifiers (upgrades, terrain, friendly buffs) stay.
  *
  * @param modifiers - Current active modifiers
  * @param unitTeam - The unit's team
  * @returns New modifiers array with only friendly modifiers
  */
 export function clearEnemyDebuffs(
-  modifiers: readonly TemporaryModifier[],
+  modifiers: readonly ActiveModifier[],
   unitTeam: UnitTeam
-): TemporaryModifier[] {
-  return modifiers.filter((m) => m.sourceTeam === unitTeam);
+): ActiveModifier[] {
+  return modifiers.filter((m) => !isEnemyDebuff(m, unitTeam));
+}
+
+/**
+ * Clear enemy debuffs that are still waiting to be applied.
+ *
+ * @param pending - Current pending modifiers
+ * @param unitTeam - The unit's team
+ * @returns New pending modifiers array with only friendly modifiers
+ */
+export function clearPendingEnemyDebuffs(
+  pending: readonly PendingModifier[],
+  unitTeam: UnitTeam
+): PendingModifier[] {
+  return pending.filter((p) => !isEnemyDebuff(p.modifier, unitTeam));
 }
 
 /**
@@ -189,9 +153,9 @@ export function clearEnemyDebuffs(
  * @returns New modifiers array
  */
 export function removeModifiersLinkedToUnit(
-  modifiers: readonly TemporaryModifier[],
+  modifiers: readonly ActiveModifier[],
   unitId: string
-): TemporaryModifier[] {
+): ActiveModifier[] {
   return modifiers.filter((m) => m.linkedUnitId !== unitId);
 }
 
@@ -200,7 +164,7 @@ export function removeModifiersLinkedToUnit(
  */
 export interface TickPendingResult {
   pendingModifiers: PendingModifier[];
-  readyModifiers: TemporaryModifier[];
+  readyModifiers: ActiveModifier[];
 }
 
 /**
@@ -215,7 +179,7 @@ export function tickPendingModifiers(
   delta: number
 ): TickPendingResult {
   const stillPending: PendingModifier[] = [];
-  const readyModifiers: TemporaryModifier[] = [];
+  const readyModifiers: ActiveModifier[] = [];
 
   for (const p of pending) {
     const newDelay = p.delay - delta;
@@ -253,8 +217,36 @@ export function removePendingModifiersLinkedToUnit(
  */
 export function queueModifier(
   pending: readonly PendingModifier[],
-  modifier: TemporaryModifier,
+  modifier: ActiveModifier,
   delay: number
 ): PendingModifier[] {
   return [...pending, { modifier, delay }];
 }
+
+/**
+ * Build render data for the timed effects on a unit, one entry per source.
+ * Permanent modifiers (upgrades, terrain) are part of the unit's stats
+ * and are not listed.
+ *
+ * @param modifiers - Active modifiers
+ * @returns One entry per source, with its longest remaining duration
+ */
+export function toModifierRenderData(modifiers: readonly ActiveModifier[]): ModifierRenderData[] {
+  const bySource = new Map<string, ModifierRenderData>();
+
+  for (const m of modifiers) {
+    if (m.duration === undefined) continue;
+    const existing = bySource.get(m.sourceId);
+    if (existing) {
+      existing.remainingDuration = Math.max(existing.remainingDuration, m.duration);
+    } else {
+      bySource.set(m.sourceId, {
+        id: m.sourceId,
+        sourceId: m.sourceId,
+        remainingDuration: m.duration,
+      });
+    }
+  }
+
+  return [...bySource.values()];
+}
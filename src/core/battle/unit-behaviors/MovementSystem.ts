@@ -3,6 +3,8 @@
  *
  * Pure functions for unit movement: marching, pathfinding, ally avoidance.
  * Works with the MovableUnit interface for testability.
+ * Routing around castles and walls comes from the context's grid pathfinder;
+ * local steering (allies, obstacle edges) is layered on top.
  *
  * Godot equivalent: Movement/pathfinding functions in a unit script.
  */
@@ -20,7 +22,11 @@ import {
   scaleValue,
 } from '../BattleConfig';
 import { IDamageable } from '../IEntity';
-import { calculateObstacleAvoidance } from '../obstacles/Obstacle';
+import {
+  IObstacle,
+  calculateObstacleAvoidance,
+  circleCollidesWithObstacle,
+} from '../obstacles/Obstacle';
 import { getForwardY } from '../TeamUtils';
 import { UnitTeam } from '../types';
 import { AllyData, MovementContext } from './types';
@@ -36,6 +42,7 @@ export function getForwardDirection(team: UnitTeam): Vector2 {
 /**
  * Calculate the march direction for a unit.
  * Considers castle state - after first castle destruction, march toward closest.
+ * Follows the grid path when a castle or wall blocks the straight line.
  */
 export function calculateMarchDirection(
   position: Vector2,
@@ -48,12 +55,12 @@ export function calculateMarchDirection(
       const toCastle = closestCastle.position.subtract(position);
       const dist = toCastle.magnitude();
       if (dist > MIN_MOVE_DISTANCE) {
-        return toCastle.normalize();
+        return context.getPathDirection?.(position, closestCastle.position) ?? toCastle.normalize();
       }
     }
   }
 
-  return getForwardDirection(team);
+  return context.getPathDirection?.(position, null) ?? getForwardDirection(team);
 }
 
 /**
@@ -109,6 +116,7 @@ export function calculateAllyAvoidance(
 /**
  * Calculate pathfinding avoidance when moving toward a target.
  * Uses perpendicular movement to avoid allies blocking the path.
+ * Sidesteps into obstacles that block movement (walls) count as blocked.
  */
 export function calculatePathAvoidance(
   position: Vector2,
@@ -116,10 +124,12 @@ export function calculatePathAvoidance(
   collisionSize: number,
   moveDirection: Vector2,
   allies: readonly AllyData[],
-  arenaHeight: number
+  arenaHeight: number,
+  obstacles: readonly IObstacle[] = []
 ): Vector2 {
   let avoidance = Vector2.zero();
   const allyAvoidanceForce = scaleValue(BASE_ALLY_AVOIDANCE_FORCE, arenaHeight);
+  const cellSize = arenaHeight / GRID_TOTAL_ROWS;
 
   for (const ally of allies) {
     if (ally.id === unitId || ally.health <= 0) continue;
@@ -134,12 +144,21 @@ export function calculatePathAvoidance(
       const dot = moveDirection.dot(toAlly.normalize().multiply(-1));
       if (dot > PATH_DOT_THRESHOLD) {
         const perpendicular = new Vector2(-moveDirection.y, moveDirection.x);
-        const leftClear = isDirectionClear(position, perpendicular, collisionSize, allies);
+        const leftClear = isDirectionClear(
+          position,
+          perpendicular,
+          collisionSize,
+          allies,
+          obstacles,
+          cellSize
+        );
         const rightClear = isDirectionClear(
           position,
           perpendicular.multiply(-1),
           collisionSize,
-          allies
+          allies,
+          obstacles,
+          cellSize
         );
 
         if (leftClear && !rightClear) {
@@ -161,17 +180,28 @@ export function calculatePathAvoidance(
 }
 
 /**
- * Check if a direction is clear of allies.
+ * Check if a direction is clear of allies and walls.
  */
 function isDirectionClear(
   position: Vector2,
   direction: Vector2,
   collisionSize: number,
-  allies: readonly AllyData[]
+  allies: readonly AllyData[],
+  obstacles: readonly IObstacle[],
+  cellSize: number
 ): boolean {
   const checkDist = collisionSize * DIRECTION_CHECK_MULTIPLIER;
   const checkPos = position.add(direction.normalize().multiply(checkDist));
 
+  for (const obstacle of obstacles) {
+    if (
+      obstacle.blocksMovement &&
+      circleCollidesWithObstacle(checkPos, collisionSize, obstacle, cellSize)
+    ) {
+      return false;
+    }
+  }
+
   for (const ally of allies) {
     const minDist = (collisionSize + ally.getCollisionSize()) * UNIT_SPACING;
     if (checkPos.distanceTo(ally.position) < minDist) {
@@ -310,7 +340,8 @@ export function moveTowardTarget(
     };
   }
 
-  let moveDirection = toTarget.normalize();
+  // Follow the grid path around castles and walls, or head straight for the target
+  let moveDirection = context.getPathDirection?.(position, targetPosition) ?? toTarget.normalize();
 
   // Apply path avoidance for allies
   const pathAvoidance = calculatePathAvoidance(
@@ -319,7 +350,8 @@ export function moveTowardTarget(
     collisionSize,
     moveDirection,
     context.getAllies(),
-    context.arenaHeight
+    context.arenaHeight,
+    context.getObstacles()
   );
 
   // Calculate base velocity for obstacle avoidance calculation
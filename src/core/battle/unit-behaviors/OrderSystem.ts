@@ -0,0 +1,123 @@
+/**
+ * Order System
+ *
+ * Pure functions for tactical orders. An order overrides a unit's normal
+ * targeting and movement; units without one auto-battle as usual.
+ *
+ * - Hold: never moves, fights only enemies within its reach
+ * - Focus: attacks the ordered squad until it is wiped out
+ * - Fall back: retreats to a point without engaging, then holds
+ * - Charge: seeks the nearest enemy anywhere, skipping the march
+ *
+ * Godot equivalent: Order handling in a unit script's state machine.
+ */
+
+import { Vector2 } from '../../physics/Vector2';
+import { IDamageable } from '../IEntity';
+import type { FallBackOrder, SquadOrder } from '../orders/types';
+import { findNearestEnemy, isOnTargetLayer, updateTargeting } from './TargetingSystem';
+import { OrderTargetingContext, TargetableUnit, TargetingResult } from './types';
+
+/**
+ * Whether an order can still be carried out.
+ * A focus order ends once its squad is wiped out, returning units to auto-battle.
+ */
+export function isOrderActive(order: SquadOrder, context: OrderTargetingContext): boolean {
+  if (order.type !== 'focus') return true;
+  return context.getSquadUnits(order.targetSquadId).length > 0;
+}
+
+/**
+ * Update targeting for a unit under an order.
+ * Returns new targeting state without mutating the input.
+ *
+ * @param unit - Unit to update targeting for
+ * @param order - The unit's active order
+ * @param reach - Distance from the unit's center it can attack a target's center from
+ *   (max attack range plus its own size); hold orders only pick targets within it
+ * @param context - World context for queries
+ */
+export function updateOrderTargeting(
+  unit: TargetableUnit,
+  order: SquadOrder,
+  reach: number,
+  context: OrderTargetingContext
+): TargetingResult {
+  const { seekMode, retargetCooldown } = unit;
+  const target =
+    unit.target && isAlive(unit.target) && isOnTargetLayer(unit.target, unit.targetLayers)
+      ? unit.target
+      : null;
+
+  switch (order.type) {
+    case 'hold': {
+      // Keep a target while it stays in reach (its edge counts, so castles stay targeted)
+      if (target && distanceTo(unit.position, target.position) <= reach + target.size) {
+        return { target, seekMode, retargetCooldown };
+      }
+      return {
+        target: findNearestEnemy(unit.position, context, reach, unit.targetLayers),
+        seekMode,
+        retargetCooldown,
+      };
+    }
+    case 'focus': {
+      // Squad members on a layer the unit cannot hit are skipped
+      const squad = context
+        .getSquadUnits(order.targetSquadId)
+        .filter((member) => isOnTargetLayer(member, unit.targetLayers));
+      if (target && squad.includes(target)) {
+        return { target, seekMode, retargetCooldown };
+      }
+      return { target: findClosest(unit.position, squad), seekMode, retargetCooldown };
+    }
+    case 'fall_back':
+      return { target: null, seekMode, retargetCooldown };
+    case 'charge':
+      return updateTargeting({ ...unit, seekMode: true }, context);
+  }
+}
+
+/**
+ * Point a fall back order retreats to.
+ */
+export function getOrderDestination(order: FallBackOrder): Vector2 {
+  return new Vector2(order.x, order.y);
+}
+
+/**
+ * Whether a unit has reached a fall back order's destination.
+ * @param arrivalRadius - Distance that counts as arrived
+ */
+export function hasReachedDestination(
+  position: Vector2,
+  order: FallBackOrder,
+  arrivalRadius: number
+): boolean {
+  return distanceTo(position, getOrderDestination(order)) <= arrivalRadius;
+}
+
+function isAlive(entity: IDamageable): boolean {
+  return !entity.isDestroyed() && entity.health > 0;
+}
+
+function findClosest(position: Vector2, candidates: readonly IDamageable[]): IDamageable | null {
+  let closest: IDamageable | null = null;
+  let closestDist = Infinity;
+
+  for (const candidate of candidates) {
+    const dist = distanceTo(position, candidate.position);
+    if (dist < closestDist) {
+      closestDist = dist;
+      closest = candidate;
+    }
+  }
+
+  return closest;
+}
+
+function distanceTo(from: { x: number; y: number }, to: { x: number; y: number }): number {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  return Math.sqrt(dx * dx + dy * dy);
+}
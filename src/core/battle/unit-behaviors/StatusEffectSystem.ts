@@ -0,0 +1,345 @@
+/**
+ * Status Effect System
+ *
+ * Pure functions for a unit's status effects: applying with per-status
+ * stacking rules, ticking burn and regen pulses, immunity windows and
+ * shield absorption. A unit holds at most one status of each type.
+ * Works with status arrays without mutating them.
+ *
+ * Godot equivalent: Status effect handling functions in a unit script.
+ */
+
+import {
+  BURN_MAX_STACKS,
+  MAX_STATUS_SLOW,
+  ROOT_IMMUNITY_DURATION,
+  STATUS_TICK_INTERVAL,
+  STUN_IMMUNITY_DURATION,
+} from '../BattleConfig';
+import { createActiveModifier } from '../modifiers/ModifierCalculator';
+import type { ActiveModifier } from '../modifiers/types';
+import type {
+  StatusEffect,
+  StatusEffectRenderData,
+  StatusEffectType,
+  StatusImmunities,
+} from '../status/types';
+import type { DamageType, UnitTeam } from '../units/types';
+
+/**
+ * Timers within this margin of zero count as elapsed, so a pulse due on
+ * the same frame a status ends is not lost to floating point drift.
+ */
+const TIMER_EPSILON = 1e-6;
+
+/**
+ * Source ID of the move speed modifier that carries a slow status.
+ */
+export const STATUS_SLOW_SOURCE_ID = 'status_slow';
+
+/**
+ * Immunity window once a status ends, per status type.
+ */
+const DEFAULT_IMMUNITY: Record<StatusEffectType, number> = {
+  stun: STUN_IMMUNITY_DURATION,
+  root: ROOT_IMMUNITY_DURATION,
+  slow: 0,
+  burn: 0,
+  regen: 0,
+  shield: 0,
+};
+
+/**
+ * Merges a new application into the status of the same type already on a unit.
+ */
+type StatusStackingRule = (
+  existing: StatusEffect,
+  incoming: StatusEffect,
+  maxStacks: number | undefined
+) => StatusEffect;
+
+// Crowd control can't be chained: it runs out on its original timer, then the immunity starts
+const keepExisting: StatusStackingRule = (existing) => existing;
+
+const strongestWins: StatusStackingRule = (existing, incoming) => ({
+  ...(incoming.amount > existing.amount ? incoming : existing),
+  remainingDuration: Math.max(existing.remainingDuration, incoming.remainingDuration),
+  tickTimer: existing.tickTimer,
+});
+
+const addStack: StatusStackingRule = (existing, incoming, maxStacks) => ({
+  ...incoming,
+  amount: Math.max(existing.amount, incoming.amount),
+  stacks: Math.min(existing.stacks + 1, maxStacks ?? BURN_MAX_STACKS),
+  tickTimer: existing.tickTimer,
+});
+
+/**
+ * Stacking rule per status type (OCP pattern).
+ */
+const STACKING_RULES: Record<StatusEffectType, StatusStackingRule> = {
+  stun: keepExisting,
+  root: keepExisting,
+  slow: strongestWins,
+  burn: addStack,
+  regen: strongestWins,
+  shield: strongestWins,
+};
+
+/**
+ * Create a fresh status effect with one stack.
+ *
+ * @param type - Status type
+ * @param sourceId - Ability or effect applying it
+ * @param sourceTeam - Team applying it
+ * @param duration - Duration in seconds
+ * @param amount - Strength (see StatusEffect.amount)
+ */
+export function createStatusEffect(
+  type: StatusEffectType,
+  sourceId: string,
+  sourceTeam: UnitTeam,
+  duration: number,
+  amount: number = 0
+): StatusEffect {
+  return {
+    type,
+    sourceId,
+    sourceTeam,
+    remainingDuration: duration,
+    amount,
+    stacks: 1,
+    tickTimer: STATUS_TICK_INTERVAL,
+  };
+}
+
+/**
+ * Result of applying a status effect.
+ */
+export interface ApplyStatusResult {
+  statuses: StatusEffect[];
+  /** False if the unit was immune */
+  applied: boolean;
+}
+
+/**
+ * Apply a status effect, merging it with one of the same type by that
+ * type's stacking rule. Immune units are unaffected.
+ *
+ * @param statuses - Current status effects
+ * @param immunities - Current immunity windows
+ * @param incoming - Status to apply
+ * @param maxStacks - Stack cap for burns (default BURN_MAX_STACKS)
+ * @returns New status array and whether it was applied
+ */
+export function applyStatusEffect(
+  statuses: readonly StatusEffect[],
+  immunities: StatusImmunities,
+  incoming: StatusEffect,
+  maxStacks?: number
+): ApplyStatusResult {
+  if (incoming.remainingDuration <= 0 || isImmune(immunities, incoming.type)) {
+    return { statuses: statuses.slice(), applied: false };
+  }
+
+  const index = statuses.findIndex((s) => s.type === incoming.type);
+  if (index === -1) {
+    return { statuses: [...statuses, incoming], applied: true };
+  }
+
+  const result = statuses.slice();
+  result[index] = STACKING_RULES[incoming.type](statuses[index], incoming, maxStacks);
+  return { statuses: result, applied: true };
+}
+
+/**
+ * Check if a unit is immune to a status type.
+ */
+export function isImmune(immunities: StatusImmunities, type: StatusEffectType): boolean {
+  return (immunities[type] ?? 0) > 0;
+}
+
+/**
+ * A burn or regen pulse due this frame.
+ */
+export interface StatusPulse {
+  type: 'burn' | 'regen';
+  /** Damage or healing for this pulse */
+  amount: number;
+  sourceUnitId?: string;
+  damageType?: DamageType;
+}
+
+/**
+ * Result of ticking status effects.
+ */
+export interface TickStatusResult {
+  statuses: StatusEffect[];
+  immunities: StatusImmunities;
+  /** Burn and regen pulses to apply, in order */
+  pulses: StatusPulse[];
+  /** Statuses that ran out this frame */
+  expired: StatusEffect[];
+}
+
+/**
+ * Tick status durations, pulse timers and immunity windows.
+ * A status that ends starts its immunity window.
+ *
+ * @param statuses - Current status effects
+ * @param immunities - Current immunity windows
+ * @param delta - Frame delta in seconds
+ */
+export function tickStatusEffects(
+  statuses: readonly StatusEffect[],
+  immunities: StatusImmunities,
+  delta: number
+): TickStatusResult {
+  const nextImmunities = tickImmunities(immunities, delta);
+  const remaining: StatusEffect[] = [];
+  const pulses: StatusPulse[] = [];
+  const expired: StatusEffect[] = [];
+
+  for (const status of statuses) {
+    const next = {
+      ...status,
+      remainingDuration: status.remainingDuration - delta,
+      tickTimer: status.tickTimer - delta,
+    };
+
+    if (next.type === 'burn' || next.type === 'regen') {
+      while (next.tickTimer <= TIMER_EPSILON) {
+        pulses.push({
+          type: next.type,
+          amount: next.amount * next.stacks * STATUS_TICK_INTERVAL,
+          sourceUnitId: next.sourceUnitId,
+          damageType: next.damageType,
+        });
+        next.tickTimer += STATUS_TICK_INTERVAL;
+      }
+    }
+
+    if (next.remainingDuration <= TIMER_EPSILON) {
+      expired.push(next);
+      startImmunity(nextImmunities, next);
+    } else {
+      remaining.push(next);
+    }
+  }
+
+  return { statuses: remaining, immunities: nextImmunities, pulses, expired };
+}
+
+function tickImmunities(immunities: StatusImmunities, delta: number): StatusImmunities {
+  const result: StatusImmunities = {};
+  for (const [type, seconds] of Object.entries(immunities) as [StatusEffectType, number][]) {
+    if (seconds - delta > 0) result[type] = seconds - delta;
+  }
+  return result;
+}
+
+function startImmunity(immunities: StatusImmunities, status: StatusEffect): void {
+  const seconds = status.immunity ?? DEFAULT_IMMUNITY[status.type];
+  if (seconds > 0) immunities[status.type] = seconds;
+}
+
+/**
+ * Find the status of a type on a unit.
+ */
+export function getStatusEffect(
+  statuses: readonly StatusEffect[],
+  type: StatusEffectType
+): StatusEffect | undefined {
+  return statuses.find((s) => s.type === type);
+}
+
+/**
+ * Check if a unit has a status of a type.
+ */
+export function hasStatusEffect(
+  statuses: readonly StatusEffect[],
+  type: StatusEffectType
+): boolean {
+  return statuses.some((s) => s.type === type);
+}
+
+/**
+ * Result of absorbing damage with a shield.
+ */
+export interface AbsorbDamageResult {
+  statuses: StatusEffect[];
+  /** Damage the shield stopped */
+  absorbed: number;
+}
+
+/**
+ * Let a shield soak up damage before it reaches health.
+ * A shield with no absorb left breaks.
+ *
+ * @param statuses - Current status effects
+ * @param damage - Damage after armor and resistances
+ */
+export function absorbDamage(
+  statuses: readonly StatusEffect[],
+  damage: number
+): AbsorbDamageResult {
+  const shield = getStatusEffect(statuses, 'shield');
+  if (!shield || damage <= 0) return { statuses: statuses.slice(), absorbed: 0 };
+
+  const absorbed = Math.min(shield.amount, damage);
+  const left = shield.amount - absorbed;
+  return {
+    statuses:
+      left > 0
+        ? statuses.map((s) => (s === shield ? { ...s, amount: left } : s))
+        : statuses.filter((s) => s !== shield),
+    absorbed,
+  };
+}
+
+/**
+ * Clear all statuses applied by the other team.
+ * Cleansed statuses do not start an immunity window.
+ *
+ * @param statuses - Current status effects
+ * @param unitTeam - The unit's team
+ */
+export function clearEnemyStatuses(
+  statuses: readonly StatusEffect[],
+  unitTeam: UnitTeam
+): StatusEffect[] {
+  return statuses.filter((s) => s.sourceTeam === unitTeam);
+}
+
+/**
+ * Build the move speed modifier that carries a slow status
+ * through the unit's modifier stack.
+ *
+ * @param slow - The slow status
+ */
+export function createSlowModifier(slow: StatusEffect): ActiveModifier {
+  const modifier = createActiveModifier(
+    {
+      id: STATUS_SLOW_SOURCE_ID,
+      target: 'moveSpeed',
+      type: 'multiply',
+      value: 1 - Math.min(MAX_STATUS_SLOW, Math.max(0, slow.amount)),
+    },
+    'debuff',
+    STATUS_SLOW_SOURCE_ID
+  );
+  // Permanent while the status lasts; the status owns the timer
+  return { ...modifier, sourceTeam: slow.sourceTeam };
+}
+
+/**
+ * Build render data for a unit's status effects.
+ */
+export function toStatusRenderData(statuses: readonly StatusEffect[]): StatusEffectRenderData[] {
+  return statuses.map((s) => ({
+    type: s.type,
+    remainingDuration: s.remainingDuration,
+    stacks: s.stacks,
+    sourceTeam: s.sourceTeam,
+  }));
+}
@@ -2,23 +2,37 @@
  * Targeting System
  *
  * Pure functions for target acquisition and tracking.
- * Handles aggro radius, seek mode, and target switching.
+ * Handles aggro radius, seek mode, target switching and target priorities.
  *
  * Godot equivalent: Targeting AI functions in a unit script.
  */
 
 import {
   BASE_AGGRO_RADIUS,
+  REPAIR_HEALTH_THRESHOLD,
   TARGET_SWITCH_COOLDOWN_SECONDS,
   TARGET_SWITCH_DISTANCE_RATIO,
   ZONE_HEIGHT_PERCENT,
   ZONE_MIDWAY_DIVISOR,
   scaleValue,
 } from '../BattleConfig';
+import { Vector2 } from '../../physics/Vector2';
 import { IDamageable } from '../IEntity';
 import { getEnemyTeam, isPlayerTeam } from '../TeamUtils';
 import { UnitTeam } from '../types';
-import { TargetableUnit, TargetingContext, TargetingResult } from './types';
+import type { MovementLayer, TargetPriority } from '../units/types';
+import {
+  RepairableAlly,
+  TargetableUnit,
+  TargetTraits,
+  TargetingContext,
+  TargetingResult,
+} from './types';
+
+/**
+ * Traits assumed when the context cannot describe a target.
+ */
+const DEFAULT_TARGET_TRAITS: TargetTraits = { isCastle: false, threat: 0, incomingDamage: 0 };
 
 /**
  * Get scaled aggro radius for current arena size.
@@ -63,6 +77,19 @@ export function areAllEnemyCastlesDestroyed(team: UnitTeam, context: TargetingCo
   return initialCount > 0 && currentCount === 0;
 }
 
+/**
+ * Check if a target is on one of the layers an attacker can hit.
+ *
+ * @param target - Potential target (castles are on the ground)
+ * @param layers - Layers the attacker can hit (undefined = all layers)
+ */
+export function isOnTargetLayer(
+  target: IDamageable,
+  layers: readonly MovementLayer[] | undefined
+): boolean {
+  return !layers || layers.includes(target.movementLayer ?? 'ground');
+}
+
 /**
  * Find the nearest enemy damageable (unit or castle) within aggro radius.
  */
@@ -112,6 +139,105 @@ export function findNearestDamageable(
   return nearest;
 }
 
+/**
+ * Find the nearest living enemy strictly closer than maxDistance.
+ * Uses the context's indexed search when available, otherwise scans enemies.
+ *
+ * @param layers - Layers the attacker can hit (undefined = all layers)
+ */
+export function findNearestEnemy(
+  position: Vector2,
+  context: TargetingContext,
+  maxDistance: number,
+  layers?: readonly MovementLayer[]
+): IDamageable | null {
+  if (context.findNearestEnemy) return context.findNearestEnemy(position, maxDistance, layers);
+  const enemies = context.getEnemyDamageables();
+  return findDamageableInAggroRadius(
+    position,
+    layers ? enemies.filter((enemy) => isOnTargetLayer(enemy, layers)) : enemies,
+    maxDistance
+  );
+}
+
+/**
+ * Find the living enemies within a radius of a position.
+ * Uses the context's indexed search when available, otherwise scans enemies.
+ *
+ * @param layers - Layers the attacker can hit (undefined = all layers)
+ */
+export function findEnemiesInRadius(
+  position: Vector2,
+  context: TargetingContext,
+  radius: number,
+  layers?: readonly MovementLayer[]
+): readonly IDamageable[] {
+  const enemies = context.getEnemiesNear
+    ? context.getEnemiesNear(position, radius)
+    : context
+        .getEnemyDamageables()
+        .filter(
+          (enemy) =>
+            !enemy.isDestroyed() &&
+            enemy.health > 0 &&
+            distanceTo(position, enemy.position) <= radius
+        );
+  return layers ? enemies.filter((enemy) => isOnTargetLayer(enemy, layers)) : enemies;
+}
+
+/**
+ * Score a target under a priority rule (lower is better).
+ * Targets with equal scores are told apart by distance.
+ */
+export function getTargetPriorityScore(
+  target: IDamageable,
+  traits: TargetTraits,
+  priority: TargetPriority
+): number {
+  switch (priority.rule) {
+    case 'nearest':
+      return 0;
+    case 'lowest_health':
+      return target.health;
+    case 'highest_threat':
+      return -traits.threat;
+    case 'category':
+      return traits.category === priority.category ? 0 : 1;
+    case 'castle':
+      return traits.isCastle ? 0 : 1;
+    case 'avoid_overkill':
+      // Enemies about to die to allies' shots already are a waste of an attack
+      return traits.incomingDamage >= target.health ? 1 : 0;
+  }
+}
+
+/**
+ * Find the best target under a priority rule: lowest score, then nearest.
+ * @returns The target and its score, or null if there are no candidates
+ */
+export function findPriorityTarget(
+  position: Vector2,
+  candidates: readonly IDamageable[],
+  priority: TargetPriority,
+  context: TargetingContext
+): { target: IDamageable; score: number } | null {
+  let best: IDamageable | null = null;
+  let bestScore = Infinity;
+  let bestDist = Infinity;
+
+  for (const candidate of candidates) {
+    const score = getScore(candidate, priority, context);
+    const dist = distanceTo(position, candidate.position);
+    if (score < bestScore || (score === bestScore && dist < bestDist)) {
+      best = candidate;
+      bestScore = score;
+      bestDist = dist;
+    }
+  }
+
+  return best ? { target: best, score: bestScore } : null;
+}
+
 /**
  * Update targeting for a unit.
  * Returns new targeting state without mutating the input.
@@ -125,8 +251,11 @@ export function updateTargeting(unit: TargetableUnit, context: TargetingContext)
   let seekMode = unit.seekMode;
   let retargetCooldown = unit.retargetCooldown;
 
-  // Clear dead/destroyed targets
-  if (target && (target.isDestroyed() || target.health <= 0)) {
+  // Clear dead/destroyed targets and targets on a layer the unit cannot hit
+  if (
+    target &&
+    (target.isDestroyed() || target.health <= 0 || !isOnTargetLayer(target, unit.targetLayers))
+  ) {
     target = null;
     retargetCooldown = 0;
   }
@@ -141,12 +270,18 @@ export function updateTargeting(unit: TargetableUnit, context: TargetingContext)
     }
   }
 
-  const enemies = context.getEnemyDamageables();
+  const priority = unit.targetPriority;
+  if (priority && priority.rule !== 'nearest') {
+    return updatePriorityTargeting(unit, priority, { target, seekMode, retargetCooldown }, context);
+  }
+
   const aggroRadius = getAggroRadius(context.arenaHeight);
+  const findNearest = (maxDistance: number): IDamageable | null =>
+    findNearestEnemy(unit.position, context, maxDistance, unit.targetLayers);
 
-  // In seek mode, actively look for closer targets
+  // In seek mode, actively look for closer targets (skipped while the switch is on cooldown)
   if (seekMode) {
-    const nearestTarget = findNearestDamageable(unit.position, enemies);
+    const nearestTarget = !target || retargetCooldown <= 0 ? findNearest(Infinity) : null;
 
     // Check for closer target (with cooldown)
     if (target && nearestTarget && retargetCooldown <= 0) {
@@ -178,7 +313,7 @@ export function updateTargeting(unit: TargetableUnit, context: TargetingContext)
   }
 
   // Check for targets within aggro radius
-  const nearestInRange = findDamageableInAggroRadius(unit.position, enemies, aggroRadius);
+  const nearestInRange = findNearest(aggroRadius);
   if (nearestInRange) {
     target = nearestInRange;
     return { target, seekMode, retargetCooldown };
@@ -188,6 +323,107 @@ export function updateTargeting(unit: TargetableUnit, context: TargetingContext)
   return { target, seekMode, retargetCooldown };
 }
 
+/**
+ * Targeting for units with a priority rule other than nearest.
+ * Enemies within aggro radius are ranked by the rule. The choice is re-evaluated
+ * whenever the switch cooldown runs out, and only a strictly better score
+ * switches targets. With nothing in range, seek mode hunts the nearest enemy.
+ *
+ * @param state - Targeting state after dead targets are cleared and seek mode is updated
+ */
+function updatePriorityTargeting(
+  unit: TargetableUnit,
+  priority: TargetPriority,
+  state: TargetingResult,
+  context: TargetingContext
+): TargetingResult {
+  const { target, seekMode, retargetCooldown } = state;
+
+  if (!target || retargetCooldown <= 0) {
+    const aggroRadius = getAggroRadius(context.arenaHeight);
+    const candidates = findEnemiesInRadius(unit.position, context, aggroRadius, unit.targetLayers);
+    const best = findPriorityTarget(unit.position, candidates, priority, context);
+    const currentScore =
+      target && candidates.includes(target) ? getScore(target, priority, context) : Infinity;
+
+    if (best && best.target !== target && best.score < currentScore) {
+      return { target: best.target, seekMode, retargetCooldown: TARGET_SWITCH_COOLDOWN_SECONDS };
+    }
+    if (target) {
+      return { target, seekMode, retargetCooldown: TARGET_SWITCH_COOLDOWN_SECONDS };
+    }
+  }
+
+  if (target) {
+    return { target, seekMode, retargetCooldown };
+  }
+
+  if (seekMode) {
+    const nearest = findNearestEnemy(unit.position, context, Infinity, unit.targetLayers);
+    if (nearest) {
+      return { target: nearest, seekMode, retargetCooldown: TARGET_SWITCH_COOLDOWN_SECONDS };
+    }
+  }
+
+  // No target - will march toward closest castle
+  return { target: null, seekMode, retargetCooldown };
+}
+
+function getScore(
+  target: IDamageable,
+  priority: TargetPriority,
+  context: TargetingContext
+): number {
+  const traits = context.getTargetTraits?.(target) ?? DEFAULT_TARGET_TRAITS;
+  return getTargetPriorityScore(target, traits, priority);
+}
+
+/**
+ * Check if an ally is alive and wounded enough for a support unit to repair.
+ */
+export function isRepairable(ally: RepairableAlly): boolean {
+  return (
+    !ally.isDestroyed() &&
+    ally.health > 0 &&
+    ally.health < ally.stats.maxHealth * REPAIR_HEALTH_THRESHOLD
+  );
+}
+
+/**
+ * Find the ally a support unit should repair. The current repair target is
+ * kept until it is repaired or out of reach; otherwise the ally missing the
+ * largest share of its health is picked, then the nearest.
+ *
+ * @param position - Support unit position
+ * @param current - Ally currently being repaired
+ * @param allies - Allies within reach, excluding the support unit itself
+ * @returns Ally to repair, or null if none is wounded
+ */
+export function findRepairTarget<T extends RepairableAlly>(
+  position: Vector2,
+  current: T | null,
+  allies: readonly T[]
+): T | null {
+  if (current && isRepairable(current) && allies.includes(current)) return current;
+
+  let best: T | null = null;
+  let bestFraction = Infinity;
+  let bestDist = Infinity;
+
+  for (const ally of allies) {
+    if (!isRepairable(ally)) continue;
+    const fraction = ally.health / ally.stats.maxHealth;
+    const dist = distanceTo(position, ally.position);
+    if (fraction < bestFraction || (fraction === bestFraction && dist < bestDist)) {
+      best = ally;
+      bestFraction = fraction;
+      bestDist = dist;
+    }
+  }
+
+  return best;
+}
+
 /**
  * Calculate distance between two positions.
  */
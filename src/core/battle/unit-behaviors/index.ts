@@ -11,11 +11,15 @@
 export type {
   TargetableUnit,
   TargetingContext,
+  TargetTraits,
+  OrderTargetingContext,
+  RepairableAlly,
   TargetingResult,
   CombatUnit,
   CombatContext,
   MovableUnit,
   AllyData,
+  TrampleCandidate,
   MovementContext,
   VisualState,
   VisualResult,
@@ -36,17 +40,37 @@ export {
   getAggroRadius,
   isDeepInEnemyZone,
   areAllEnemyCastlesDestroyed,
+  isOnTargetLayer,
   findDamageableInAggroRadius,
   findNearestDamageable,
+  findNearestEnemy,
+  findEnemiesInRadius,
+  getTargetPriorityScore,
+  findPriorityTarget,
   findClosestEnemyCastle,
+  isRepairable,
+  findRepairTarget,
   updateTargeting,
 } from './TargetingSystem';
 
+// Order System
+export {
+  isOrderActive,
+  updateOrderTargeting,
+  getOrderDestination,
+  hasReachedDestination,
+} from './OrderSystem';
+
 // Combat System
-export type { CombatUpdateResult } from './CombatSystem';
+export type { CombatUpdateResult, RepairUpdateResult } from './CombatSystem';
 export {
+  canHitLayer,
+  getTargetLayers,
   getAttackMode,
   getMaxRange,
+  getBeamPulseCount,
+  getEffectiveDamage,
+  getThreat,
   isInMeleeMode,
   isMeleeAttack,
   isInRange,
@@ -54,6 +78,7 @@ export {
   getAttackDirection,
   getAttackCooldown,
   updateCombat,
+  updateRepair,
 } from './CombatSystem';
 
 // Movement System
@@ -68,19 +93,52 @@ export {
   moveTowardTarget,
 } from './MovementSystem';
 
+// Giant System
+export type { TrampleUpdateResult } from './GiantSystem';
+export {
+  isTrampleContact,
+  findTrampleTargets,
+  getTrampleOffset,
+  updateTrample,
+  getFacingDirection,
+  isWeakPointHit,
+} from './GiantSystem';
+
 // Modifier System
-export type { ApplyModifierResult, TickModifiersResult, TickPendingResult } from './ModifierSystem';
+export type { TickModifiersResult, TickPendingResult } from './ModifierSystem';
 export {
   applyModifier,
   tickModifiers,
-  calculateModifiedMoveSpeed,
-  calculateDamageMultiplier,
   calculateCollisionSize,
   hasModifierFromSource,
   removeModifiersBySource,
+  isEnemyDebuff,
   clearEnemyDebuffs,
+  clearPendingEnemyDebuffs,
   removeModifiersLinkedToUnit,
   tickPendingModifiers,
   removePendingModifiersLinkedToUnit,
   queueModifier,
+  toModifierRenderData,
 } from './ModifierSystem';
+
+// Status Effect System
+export type {
+  ApplyStatusResult,
+  StatusPulse,
+  TickStatusResult,
+  AbsorbDamageResult,
+} from './StatusEffectSystem';
+export {
+  STATUS_SLOW_SOURCE_ID,
+  createStatusEffect,
+  applyStatusEffect,
+  isImmune,
+  tickStatusEffects,
+  getStatusEffect,
+  hasStatusEffect,
+  absorbDamage,
+  clearEnemyStatuses,
+  createSlowModifier,
+  toStatusRenderData,
+} from './StatusEffectSystem';
@@ -12,6 +12,7 @@ import { IDamageable } from '../IEntity';
 import { EntityBounds } from '../BoundsEnforcer';
 import { UnitTeam, UnitStats } from '../types';
 import type { IObstacle } from '../obstacles/Obstacle';
+import type { MovementLayer, TargetPriority, UnitCategory } from '../units/types';
 
 /**
  * Minimal unit interface for targeting system.
@@ -25,6 +26,24 @@ export interface TargetableUnit {
   target: IDamageable | null;
   seekMode: boolean;
   retargetCooldown: number;
+  /** How to choose between enemies in range (omitted = nearest) */
+  targetPriority?: TargetPriority;
+  /** Layers the unit's weapons can hit (omitted = all layers) */
+  targetLayers?: readonly MovementLayer[];
+}
+
+/**
+ * What a target priority rule knows about a potential target.
+ */
+export interface TargetTraits {
+  /** Unit category (undefined for non-units) */
+  category?: UnitCategory;
+  /** Whether the target is a castle */
+  isCastle: boolean;
+  /** Damage per second the target deals */
+  threat: number;
+  /** Damage the attacker's allies already aiming at it deal per volley */
+  incomingDamage: number;
 }
 
 /**
@@ -34,6 +53,26 @@ export interface TargetableUnit {
 export interface TargetingContext {
   /** Get enemy damageables (units and castles) */
   getEnemyDamageables(): readonly IDamageable[];
+  /**
+   * Find the nearest living enemy closer than maxDistance on one of the
+   * layers (e.g. via a spatial index). When omitted, targeting scans
+   * getEnemyDamageables().
+   */
+  findNearestEnemy?(
+    position: Vector2,
+    maxDistance: number,
+    layers?: readonly MovementLayer[]
+  ): IDamageable | null;
+  /**
+   * Living enemies whose center is within radius of a point (e.g. via a spatial index).
+   * When omitted, targeting scans getEnemyDamageables().
+   */
+  getEnemiesNear?(position: Vector2, radius: number): readonly IDamageable[];
+  /**
+   * Describe a target for priority rules.
+   * When omitted, targets have no category, threat or incoming damage.
+   */
+  getTargetTraits?(target: IDamageable): TargetTraits;
   /** Get enemy castles specifically */
   getEnemyCastles(): readonly IDamageable[];
   /** Get initial castle count for a team */
@@ -44,6 +83,26 @@ export interface TargetingContext {
   arenaHeight: number;
 }
 
+/**
+ * Context for targeting under a tactical order.
+ */
+export interface OrderTargetingContext extends TargetingContext {
+  /** Get a squad's living units (empty once it is wiped out) */
+  getSquadUnits(squadId: string): readonly IDamageable[];
+}
+
+/**
+ * Minimal ally interface for repair targeting.
+ */
+export interface RepairableAlly {
+  readonly id: string;
+  readonly position: Vector2;
+  readonly size: number;
+  readonly health: number;
+  readonly stats: { readonly maxHealth: number };
+  isDestroyed(): boolean;
+}
+
 /**
  * Result of targeting update.
  */
@@ -115,6 +174,21 @@ export interface AllyData {
   getCollisionSize(): number;
 }
 
+/**
+ * Minimal enemy interface for giant trample checks.
+ */
+export interface TrampleCandidate {
+  readonly position: Vector2;
+  readonly health: number;
+  readonly movementLayer: MovementLayer;
+  readonly isGiant: boolean;
+  readonly isStationary: boolean;
+  readonly isDying: boolean;
+  /** Get collision size after modifiers */
+  getCollisionSize(): number;
+  isDestroyed(): boolean;
+}
+
 /**
  * Context for movement operations.
  */
@@ -127,6 +201,11 @@ export interface MovementContext {
   hasAnyEnemyCastleBeenDestroyed(): boolean;
   /** Get all obstacles for movement avoidance */
   getObstacles(): readonly IObstacle[];
+  /**
+   * Grid path direction toward a goal around castles and walls (null goal = march forward).
+   * Returns null, or is omitted, when units should steer straight at the goal.
+   */
+  getPathDirection?(position: Vector2, goal: Vector2 | null): Vector2 | null;
   /** Arena bounds for boundary enforcement */
   bounds: EntityBounds | null;
   /** Arena height for scaling */
@@ -38,5 +38,5 @@ export interface IUnitRegistry {
   /**
    * Gets all unlocked unit definitions based on unlock state.
    */
-  getUnlocked(unlockedIds: Set<string>): UnitDefinition[];
+  getUnlocked(unlockedIds: ReadonlySet<string>): UnitDefinition[];
 }
@@ -7,10 +7,28 @@
  * Godot-portable: No React/browser dependencies.
  */
 
-import { MIN_DAMAGE_AFTER_ARMOR } from '../BattleConfig';
+import {
+  ARMOR_EFFECTIVENESS,
+  DEFAULT_DAMAGE_TYPE,
+  MAX_DAMAGE_RESISTANCE,
+  MIN_DAMAGE_AFTER_ARMOR,
+} from '../BattleConfig';
 import { ActiveModifier, StatTarget } from '../modifiers/types';
 import { calculateModifiedStat, groupModifiersByTarget } from '../modifiers/ModifierCalculator';
-import { AttackModeStats, BaseStats, ComputedStats } from './types';
+import type { AttackMode, UnitStats } from '../types';
+import {
+  AttackModeStats,
+  BaseStats,
+  ComputedStats,
+  DamageProfile,
+  DamageResistances,
+  DamageResult,
+} from './types';
+
+/**
+ * Stat target prefix of an attack mode.
+ */
+type AttackModePrefix = 'melee' | 'ranged' | 'repair';
 
 /**
  * Maps a stat target to its base value from BaseStats.
@@ -35,6 +53,12 @@ function getBaseValue(baseStats: BaseStats, target: StatTarget): number {
       return baseStats.ranged?.attackSpeed ?? 0;
     case 'ranged.range':
       return baseStats.ranged?.range ?? 0;
+    case 'repair.damage':
+      return baseStats.repair?.damage ?? 0;
+    case 'repair.attackSpeed':
+      return baseStats.repair?.attackSpeed ?? 0;
+    case 'repair.range':
+      return baseStats.repair?.range ?? 0;
     default:
       return 0;
   }
@@ -59,7 +83,7 @@ export function computeStat(
  */
 export function computeAttackMode(
   base: AttackModeStats | null,
-  prefix: 'melee' | 'ranged',
+  prefix: AttackModePrefix,
   modifiersByTarget: Record<string, ActiveModifier[]>
 ): AttackModeStats | null {
   if (!base) return null;
@@ -87,6 +111,85 @@ export function computeAllStats(baseStats: BaseStats, modifiers: ActiveModifier[
     armor: calculateModifiedStat(baseStats.armor, grouped['armor'] ?? []).final,
     melee: computeAttackMode(baseStats.melee, 'melee', grouped),
     ranged: computeAttackMode(baseStats.ranged, 'ranged', grouped),
+    repair: baseStats.repair && computeAttackMode(baseStats.repair, 'repair', grouped),
+  };
+}
+
+/**
+ * Applies modifiers to one attack mode of runtime UnitStats.
+ * Keeps non-modifiable fields (projectile speed, splash) intact.
+ */
+function applyModifiersToAttackMode(
+  base: AttackMode | null,
+  prefix: AttackModePrefix,
+  grouped: Record<string, ActiveModifier[]>
+): AttackMode | null {
+  if (!base) return null;
+
+  return {
+    ...base,
+    damage: calculateModifiedStat(base.damage, grouped[`${prefix}.damage`] ?? []).final,
+    attackSpeed: calculateModifiedStat(base.attackSpeed, grouped[`${prefix}.attackSpeed`] ?? [])
+      .final,
+    range: calculateModifiedStat(base.range, grouped[`${prefix}.range`] ?? []).final,
+  };
+}
+
+/**
+ * Computes runtime UnitStats (as used by battle entities) with modifiers applied.
+ * A fixed attackInterval is shortened/lengthened by the same ratio as the
+ * primary attack mode's attack speed, so attack speed modifiers still apply.
+ */
+export function computeUnitStats(base: UnitStats, modifiers: ActiveModifier[]): UnitStats {
+  if (modifiers.length === 0) return base;
+
+  const grouped = groupModifiersByTarget(modifiers);
+  const melee = applyModifiersToAttackMode(base.melee, 'melee', grouped);
+  const ranged = applyModifiersToAttackMode(base.ranged, 'ranged', grouped);
+
+  let attackInterval = base.attackInterval;
+  const basePrimary = base.ranged ?? base.melee;
+  const primary = ranged ?? melee;
+  if (attackInterval !== undefined && basePrimary && primary && primary.attackSpeed > 0) {
+    attackInterval *= basePrimary.attackSpeed / primary.attackSpeed;
+  }
+
+  return {
+    ...base,
+    maxHealth: calculateModifiedStat(base.maxHealth, grouped['maxHealth'] ?? []).final,
+    moveSpeed: calculateModifiedStat(base.moveSpeed, grouped['moveSpeed'] ?? []).final,
+    armor: calculateModifiedStat(base.armor ?? 0, grouped['armor'] ?? []).final,
+    attackInterval,
+    melee,
+    ranged,
+    repair: base.repair && applyModifiersToAttackMode(base.repair, 'repair', grouped),
+  };
+}
+
+/**
+ * Builds a unit's runtime stats at a level, before upgrades.
+ * HP and damage multiply by level (no upper limit); other stats are unchanged.
+ */
+export function createLevelStats(baseStats: BaseStats, level: number): UnitStats {
+  const levelMultiplier = Math.max(1, level);
+
+  return {
+    maxHealth: baseStats.maxHealth * levelMultiplier,
+    moveSpeed: baseStats.moveSpeed,
+    armor: baseStats.armor,
+    resistances: baseStats.resistances,
+    attackInterval: baseStats.attackInterval,
+    melee: baseStats.melee
+      ? { ...baseStats.melee, damage: baseStats.melee.damage * levelMultiplier }
+      : null,
+    ranged: baseStats.ranged
+      ? { ...baseStats.ranged, damage: baseStats.ranged.damage * levelMultiplier }
+      : null,
+    repair: baseStats.repair && {
+      ...baseStats.repair,
+      damage: baseStats.repair.damage * levelMultiplier,
+    },
+    resetAttackOnTargetSwitch: baseStats.resetAttackOnTargetSwitch,
   };
 }
 
@@ -98,11 +201,13 @@ export function cloneBaseStats(stats: BaseStats): BaseStats {
     maxHealth: stats.maxHealth,
     moveSpeed: stats.moveSpeed,
     armor: stats.armor,
+    resistances: stats.resistances ? { ...stats.resistances } : undefined,
     attackInterval: stats.attackInterval,
     squadSize: stats.squadSize,
     resetAttackOnTargetSwitch: stats.resetAttackOnTargetSwitch,
     melee: stats.melee ? { ...stats.melee } : null,
     ranged: stats.ranged ? { ...stats.ranged } : null,
+    repair: stats.repair && { ...stats.repair },
   };
 }
 
@@ -113,3 +218,39 @@ export function cloneBaseStats(stats: BaseStats): BaseStats {
 export function calculateDamageAfterArmor(damage: number, armor: number): number {
   return Math.max(MIN_DAMAGE_AFTER_ARMOR, damage - armor);
 }
+
+/**
+ * Mitigates one hit against a defender's armor and resistances.
+ * Resistance scales the hit first, then armor (less the attack's penetration,
+ * weighted by ARMOR_EFFECTIVENESS for its type) is subtracted flat.
+ * A hit that does damage always deals at least MIN_DAMAGE_AFTER_ARMOR.
+ */
+export function resolveDamage(
+  amount: number,
+  profile: DamageProfile,
+  armor: number,
+  resistances: DamageResistances = {}
+): DamageResult {
+  const damageType = profile.damageType ?? DEFAULT_DAMAGE_TYPE;
+  if (amount <= 0) {
+    return { damageType, raw: amount, resisted: 0, absorbed: 0, dealt: 0 };
+  }
+
+  const resistance = Math.min(MAX_DAMAGE_RESISTANCE, resistances[damageType] ?? 0);
+  const afterResistance = amount * (1 - resistance);
+
+  const effectiveArmor =
+    Math.max(0, armor - (profile.armorPenetration ?? 0)) * ARMOR_EFFECTIVENESS[damageType];
+  const dealt =
+    effectiveArmor > 0
+      ? Math.min(afterResistance, calculateDamageAfterArmor(afterResistance, effectiveArmor))
+      : afterResistance;
+
+  return {
+    damageType,
+    raw: amount,
+    resisted: amount - afterResistance,
+    absorbed: afterResistance - dealt,
+    dealt,
+  };
+}
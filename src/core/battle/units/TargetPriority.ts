@@ -0,0 +1,69 @@
+/**
+ * Target Priority
+ *
+ * Rule lists and validation for unit targeting priorities.
+ * Ranking targets by a priority lives in the TargetingSystem.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import { TargetPriority, TargetPriorityRule, UnitCategory } from './types';
+
+/**
+ * All priority rules, in menu order.
+ */
+export const TARGET_PRIORITY_RULES: readonly TargetPriorityRule[] = [
+  'nearest',
+  'lowest_health',
+  'highest_threat',
+  'category',
+  'castle',
+  'avoid_overkill',
+];
+
+/**
+ * All unit categories.
+ */
+export const UNIT_CATEGORIES: readonly UnitCategory[] = [
+  'infantry',
+  'ranged',
+  'cavalry',
+  'artillery',
+  'scout',
+  'support',
+];
+
+/**
+ * Priority of units that do not set one.
+ */
+export const DEFAULT_TARGET_PRIORITY: TargetPriority = { rule: 'nearest' };
+
+/**
+ * Every distinct priority a player can pick: each rule, with the
+ * 'category' rule once per category.
+ */
+export function getTargetPriorityOptions(): TargetPriority[] {
+  return TARGET_PRIORITY_RULES.flatMap((rule): TargetPriority[] =>
+    rule === 'category' ? UNIT_CATEGORIES.map((category) => ({ rule, category })) : [{ rule }]
+  );
+}
+
+/**
+ * Whether two priorities pick targets the same way.
+ */
+export function isSameTargetPriority(a: TargetPriority, b: TargetPriority): boolean {
+  return a.rule === b.rule && (a.rule !== 'category' || a.category === b.category);
+}
+
+/**
+ * Validates a serialized priority. The 'category' rule needs a known category.
+ */
+export function isValidTargetPriority(data: unknown): data is TargetPriority {
+  if (!data || typeof data !== 'object') return false;
+  const obj = data as Record<string, unknown>;
+  if (!TARGET_PRIORITY_RULES.includes(obj.rule as TargetPriorityRule)) return false;
+  if (obj.category !== undefined && !UNIT_CATEGORIES.includes(obj.category as UnitCategory)) {
+    return false;
+  }
+  return obj.rule !== 'category' || obj.category !== undefined;
+}
@@ -69,12 +69,7 @@ export class UnitRegistry implements IUnitRegistry {
   /**
    * Gets all unlocked unit definitions based on unlock state.
    */
-  getUnlocked(unlockedIds: Set<string>): UnitDefinition[] {
-    return this.getAll().filter((def) => {
-      // Tier 1 units are always unlocked
-      if (def.tier === 1) return true;
-      // Check if explicitly unlocked
-      return unlockedIds.has(def.id);
-    });
+  getUnlocked(unlockedIds: ReadonlySet<string>): UnitDefinition[] {
+    return this.getAll().filter((def) => unlockedIds.has(def.id));
   }
 }
@@ -10,3 +10,4 @@ export * from './UnitRegistry';
 export * from './UnitFactory';
 export * from './StatCalculator';
 export * from './UnitMath';
+export * from './TargetPriority';
@@ -19,8 +19,35 @@ export type UnitTeam = 'player' | 'enemy';
 
 /**
  * Unit category for grouping and upgrade targeting.
+ * Support units repair allies with a repair attack mode.
  */
-export type UnitCategory = 'infantry' | 'ranged' | 'cavalry' | 'artillery' | 'scout';
+export type UnitCategory = 'infantry' | 'ranged' | 'cavalry' | 'artillery' | 'scout' | 'support';
+
+/**
+ * Rule a unit uses to choose between enemies in aggro range.
+ * - 'nearest': Closest enemy (default)
+ * - 'lowest_health': Weakest enemy, to finish units off
+ * - 'highest_threat': Enemy dealing the most damage per second
+ * - 'category': Enemies of one category first (see TargetPriority.category)
+ * - 'castle': Castles first
+ * - 'avoid_overkill': Skips enemies allies already have enough damage lined up on
+ */
+export type TargetPriorityRule =
+  | 'nearest'
+  | 'lowest_health'
+  | 'highest_threat'
+  | 'category'
+  | 'castle'
+  | 'avoid_overkill';
+
+/**
+ * Targeting priority of a unit type or squad.
+ */
+export interface TargetPriority {
+  rule: TargetPriorityRule;
+  /** Preferred category for the 'category' rule */
+  category?: UnitCategory;
+}
 
 /**
  * Formation role determines where a unit is positioned in enemy formations.
@@ -30,11 +57,97 @@ export type UnitCategory = 'infantry' | 'ranged' | 'cavalry' | 'artillery' | 'sc
  */
 export type FormationRole = 'front' | 'back' | 'flank';
 
+/**
+ * Layer a unit moves on.
+ * - 'ground': Collides with ground units and terrain, hit by every attack (default)
+ * - 'air': Flies over terrain and ground units, hit only by anti-air attacks
+ */
+export type MovementLayer = 'ground' | 'air';
+
 /**
  * Visual shape for rendering.
  */
 export type UnitShape = 'circle' | 'square' | 'triangle' | 'triangle_down' | 'diamond';
 
+/**
+ * Damage type of an attack. Armor and resistances mitigate each type differently.
+ * - 'kinetic': Bullets and blades - armor counts in full
+ * - 'explosive': Shells and blasts - armor counts at half
+ * - 'energy': Beams and arcs - ignores armor
+ */
+export type DamageType = 'kinetic' | 'explosive' | 'energy';
+
+/**
+ * Fraction of each damage type a unit shrugs off (0.25 = 25% less).
+ * Negative values are weaknesses (-0.5 = 50% more damage taken).
+ */
+export type DamageResistances = Partial<Record<DamageType, number>>;
+
+/**
+ * Ballistic shell lobbed over walls that explodes where it lands.
+ */
+export interface ArcProjectile {
+  type: 'arc';
+  /** Peak height as a fraction of the flight distance (default ARC_HEIGHT_RATIO) */
+  arcHeight?: number;
+}
+
+/**
+ * Projectile that follows its target until it hits.
+ */
+export interface HomingProjectile {
+  type: 'homing';
+}
+
+/**
+ * Projectile that keeps flying through the first units it hits.
+ */
+export interface PierceProjectile {
+  type: 'pierce';
+  /** Units passed through before the projectile stops (hits pierceCount + 1 units) */
+  pierceCount: number;
+}
+
+/**
+ * Projectile that arcs from its target to nearby enemies on impact.
+ */
+export interface ChainProjectile {
+  type: 'chain';
+  /** Extra enemies hit after the first */
+  chainCount: number;
+  /** Max jump distance between enemies */
+  chainRange: number;
+  /** Damage multiplier per jump (default CHAIN_DAMAGE_FALLOFF) */
+  chainFalloff?: number;
+}
+
+/**
+ * Hitscan beam. Instant beams deal their damage at once; continuous beams
+ * stay locked on for a duration and ramp up their damage while they burn.
+ */
+export interface BeamProjectile {
+  type: 'beam';
+  /** Seconds the beam stays on (0 or unset = instant) */
+  duration?: number;
+  /** Damage multiplier gained per second on target (continuous beams) */
+  rampRate?: number;
+  /** Cap on the ramped damage multiplier (default BEAM_MAX_RAMP) */
+  maxRamp?: number;
+}
+
+/**
+ * How a ranged attack travels to its target.
+ * Attack modes without one fire a straight projectile at the target's position.
+ */
+export type ProjectileBehavior =
+  | ArcProjectile
+  | HomingProjectile
+  | PierceProjectile
+  | ChainProjectile
+  | BeamProjectile;
+
+export type ProjectileType = ProjectileBehavior['type'];
+
 /**
  * Attack mode stats (melee or ranged).
  */
@@ -49,6 +162,47 @@ export interface AttackModeStats {
    * Note: Values are ~80% smaller than Mechabellum equivalents due to smaller arena scale.
    */
   splashRadius?: number;
+  /** Damage type (default 'kinetic') */
+  damageType?: DamageType;
+  /** Flat armor ignored by this attack (armor piercing) */
+  armorPenetration?: number;
+  /** Projectile behavior (straight shot if not set) */
+  projectile?: ProjectileBehavior;
+  /** Can hit ground units and castles (default true) */
+  canTargetGround?: boolean;
+  /** Can hit air units (default false) */
+  canTargetAir?: boolean;
+}
+
+/**
+ * How a hit interacts with armor and resistances, and which layers it can hit.
+ * Attack modes satisfy this directly; omitted fields use the defaults.
+ */
+export interface DamageProfile extends Pick<
+  AttackModeStats,
+  'damageType' | 'armorPenetration' | 'canTargetGround' | 'canTargetAir'
+> {
+  /**
+   * Damage that is not an attack (burns, ability damage, tramples).
+   * Indirect damage never fires the attacker's on_hit abilities (default false).
+   */
+  indirect?: boolean;
+}
+
+/**
+ * Outcome of mitigating one hit.
+ */
+export interface DamageResult {
+  /** Damage type the hit was resolved as */
+  damageType: DamageType;
+  /** Damage before mitigation */
+  raw: number;
+  /** Damage removed (or added, if negative) by the target's resistance */
+  resisted: number;
+  /** Damage stopped by the target's armor */
+  absorbed: number;
+  /** Damage actually dealt */
+  dealt: number;
 }
 
 /**
@@ -58,10 +212,14 @@ export interface BaseStats {
   maxHealth: number;
   moveSpeed: number; // pixels per second
   armor: number; // damage reduction (flat)
+  /** Per damage type resistances (none if not set) */
+  resistances?: DamageResistances;
   attackInterval?: number; // seconds between attacks (overrides attackSpeed if present)
   squadSize?: number; // number of units in a squad (default 1)
   melee: AttackModeStats | null; // null = no melee attack
   ranged: AttackModeStats | null; // null = no ranged attack
+  /** Repair attack mode: hits wounded allies, restoring `damage` health (none if not set) */
+  repair?: AttackModeStats | null;
   /** If true, attack cooldown resets when switching to a new target (e.g., snipers) */
   resetAttackOnTargetSwitch?: boolean;
 }
@@ -76,6 +234,7 @@ export interface ComputedStats {
   armor: number;
   melee: AttackModeStats | null;
   ranged: AttackModeStats | null;
+  repair?: AttackModeStats | null;
 }
 
 /**
@@ -104,6 +263,20 @@ export interface UnitVisuals {
   aimingLaser?: boolean;
 }
 
+/**
+ * Traits of a giant: a single huge unit that tramples smaller enemies.
+ * Giants are never pushed by squads, knock touching enemies aside and
+ * take extra damage from hits to their rear.
+ */
+export interface GiantTraits {
+  /** Damage dealt to each touching enemy per trample (scales with level) */
+  trampleDamage: number;
+  /** Distance touching enemies are shoved per trample (pixels, scaled by arena size) */
+  trampleKnockback: number;
+  /** Damage multiplier for hits from behind the giant (default 1 = no weak point) */
+  weakPointMultiplier?: number;
+}
+
 /**
  * Requirements that must be met to unlock a unit type.
  */
@@ -161,12 +334,24 @@ export interface UnitDefinition {
   /** Base stats before any modifiers */
   baseStats: BaseStats;
 
+  /** Layer the unit moves on (default 'ground') */
+  movementLayer?: MovementLayer;
+
+  /** Giant traits (omitted = regular unit) */
+  giant?: GiantTraits;
+
   /** Visual appearance */
   visuals: UnitVisuals;
 
   /** Ability IDs that this unit has innately */
   innateAbilities: string[];
 
+  /**
+   * How the unit picks between enemies in range.
+   * Defaults to { rule: 'nearest' } if not specified.
+   */
+  targetPriority?: TargetPriority;
+
   /** Requirements to unlock this unit type */
   unlockRequirements: UnlockRequirement[];
 
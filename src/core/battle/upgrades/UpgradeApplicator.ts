@@ -14,6 +14,7 @@ import {
   BattleUpgradeDefinition,
   BattleUpgradeStates,
   ComputedUpgradeModifiers,
+  SquadUpgrades,
   UpgradeType,
 } from './types';
 import { IBattleUpgradeRegistry } from './IBattleUpgradeRegistry';
@@ -66,9 +67,14 @@ const UPGRADE_TYPE_HANDLERS: Record<UpgradeType, UpgradeTypeHandler> = {
 
 /**
  * Applies upgrade effects to units.
+ * One applicator per upgrade set - assembly upgrades use the 'upgrade' source,
+ * prestige meta upgrades use 'prestige' so their modifiers stay distinguishable.
  */
 export class UpgradeApplicator {
-  constructor(private registry: IBattleUpgradeRegistry) {}
+  constructor(
+    private registry: IBattleUpgradeRegistry,
+    private source: ModifierSource = 'upgrade'
+  ) {}
 
   /**
    * Computes all modifiers and abilities for a specific unit type
@@ -118,14 +124,29 @@ export class UpgradeApplicator {
     return computed.modifiers.map((mod) =>
       createActiveModifier(
         mod,
-        'upgrade' as ModifierSource,
-        `upgrade_${mod.id}`,
+        this.source,
+        `${this.source}_${mod.id}`,
         undefined, // Permanent
         1
       )
     );
   }
 
+  /**
+   * Computes the active modifiers a unit gets from upgrades.
+   * Shorthand for computeForUnit + toActiveModifiers.
+   *
+   * @param unitDef - The unit definition
+   * @param upgradeStates - Current upgrade levels
+   * @returns Array of active modifiers ready to apply to a unit
+   */
+  getActiveModifiers(
+    unitDef: UnitDefinition,
+    upgradeStates: BattleUpgradeStates
+  ): ActiveModifier[] {
+    return this.toActiveModifiers(this.computeForUnit(unitDef, upgradeStates));
+  }
+
   /**
    * Gets all abilities a unit should have based on upgrades.
    * Combines innate abilities with upgrade-granted abilities.
@@ -161,3 +182,35 @@ export class UpgradeApplicator {
     return unlocked;
   }
 }
+
+/**
+ * Purchased upgrades from one upgrade tree (assembly or prestige),
+ * applied to player squads in battle.
+ */
+export interface AppliedUpgrades {
+  applicator: UpgradeApplicator;
+  upgradeStates: BattleUpgradeStates;
+}
+
+/**
+ * Combines the modifiers and abilities several upgrade trees give a unit type.
+ *
+ * @param unitDef - The unit definition
+ * @param upgrades - Upgrade trees to apply
+ * @returns Upgrade effects for squads of this unit type
+ */
+export function computeSquadUpgrades(
+  unitDef: UnitDefinition,
+  upgrades: readonly AppliedUpgrades[]
+): SquadUpgrades {
+  const modifiers: ActiveModifier[] = [];
+  const grantedAbilities: string[] = [];
+
+  for (const { applicator, upgradeStates } of upgrades) {
+    const computed = applicator.computeForUnit(unitDef, upgradeStates);
+    modifiers.push(...applicator.toActiveModifiers(computed));
+    grantedAbilities.push(...computed.grantedAbilities);
+  }
+
+  return { modifiers, grantedAbilities };
+}
@@ -7,7 +7,7 @@
  * Godot-portable: No React/browser dependencies.
  */
 
-import { Modifier } from '../modifiers/types';
+import { ActiveModifier, Modifier } from '../modifiers/types';
 
 /**
  * Scope of an upgrade - what it affects.
@@ -158,3 +158,14 @@ export interface ComputedUpgradeModifiers {
   /** Ability IDs granted by upgrades */
   grantedAbilities: string[];
 }
+
+/**
+ * Upgrade effects a squad spawns with.
+ */
+export interface SquadUpgrades {
+  /** Permanent stat modifiers (upgrade and prestige sources) */
+  modifiers?: ActiveModifier[];
+
+  /** Ability IDs on top of the unit's innate ones */
+  grantedAbilities?: string[];
+}
@@ -0,0 +1,26 @@
+/**
+ * Wave Registry Interface
+ *
+ * Defines the contract for scripted wave lookup.
+ * Implementations can be swapped for Godot (Resource-based).
+ *
+ * Godot-portable: Interface only, no dependencies.
+ */
+
+import { WaveDefinition } from './types';
+
+/**
+ * Interface for scripted wave registry.
+ */
+export interface IWaveRegistry {
+  /**
+   * Gets the definition covering a wave, or undefined to generate it procedurally.
+   * A single-wave definition wins over ranges; among ranges, the narrowest wins.
+   */
+  getForWave(waveNumber: number): WaveDefinition | undefined;
+
+  /**
+   * Gets all wave definitions.
+   */
+  getAll(): WaveDefinition[];
+}
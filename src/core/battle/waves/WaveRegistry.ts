@@ -0,0 +1,66 @@
+/**
+ * Wave Registry
+ *
+ * Holds scripted wave definitions and finds the one covering a wave.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import { IWaveRegistry } from './IWaveRegistry';
+import { WaveDefinition } from './types';
+
+/**
+ * Number of waves a definition covers (1 for single-wave definitions).
+ */
+function getWaveSpan(definition: WaveDefinition): number {
+  return definition.waves ? definition.waves.to - definition.waves.from + 1 : 1;
+}
+
+/**
+ * Checks if a definition covers a wave.
+ */
+export function coversWave(definition: WaveDefinition, waveNumber: number): boolean {
+  if (definition.wave !== undefined) return definition.wave === waveNumber;
+  if (definition.waves) {
+    return waveNumber >= definition.waves.from && waveNumber <= definition.waves.to;
+  }
+  return false;
+}
+
+/**
+ * Registry for scripted wave definitions.
+ */
+export class WaveRegistry implements IWaveRegistry {
+  private definitions: Map<string, WaveDefinition> = new Map();
+
+  /**
+   * Registers a wave definition (use registerValidWaves for data files).
+   */
+  register(definition: WaveDefinition): void {
+    this.definitions.set(definition.id, definition);
+  }
+
+  /**
+   * Registers multiple definitions at once.
+   */
+  registerAll(definitions: WaveDefinition[]): void {
+    for (const def of definitions) {
+      this.register(def);
+    }
+  }
+
+  getForWave(waveNumber: number): WaveDefinition | undefined {
+    let best: WaveDefinition | undefined;
+    for (const def of this.definitions.values()) {
+      if (!coversWave(def, waveNumber)) continue;
+      if (!best || getWaveSpan(def) < getWaveSpan(best)) {
+        best = def;
+      }
+    }
+    return best;
+  }
+
+  getAll(): WaveDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+}
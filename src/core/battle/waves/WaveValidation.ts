@@ -0,0 +1,180 @@
+/**
+ * Wave Validation
+ *
+ * Checks scripted wave definitions loaded from JSON, so a bad entry is
+ * reported on load and its waves fall back to the procedural generator.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import {
+  CASTLE_BACK_DISTANCE_ROWS,
+  CASTLE_EDGE_DISTANCE_COLS,
+  CASTLE_GRID_COLS,
+  CASTLE_GRID_ROWS,
+  DEFAULT_GRID_FOOTPRINT,
+  GRID_TOTAL_COLS,
+} from '../BattleConfig';
+import { DEFAULT_ENEMY_PATTERNS } from '../formations/patterns/EnemyPatterns';
+import {
+  doGridBoundsOverlap,
+  getEnemyDeploymentBounds,
+  isGridBoundsWithin,
+} from '../grid/GridManager';
+import type { GridBounds } from '../grid/GridTypes';
+import { validateTerrain } from '../obstacles/Terrain';
+import { IUnitRegistry } from '../units/IUnitRegistry';
+import { WaveRegistry, coversWave } from './WaveRegistry';
+import { WaveDefinition, WaveSquadDefinition } from './types';
+
+/**
+ * Grid bounds of the enemy castles (pinned squads may not sit on them).
+ */
+function getEnemyCastleBounds(): GridBounds[] {
+  const row = CASTLE_BACK_DISTANCE_ROWS;
+  return [
+    { col: CASTLE_EDGE_DISTANCE_COLS, row, cols: CASTLE_GRID_COLS, rows: CASTLE_GRID_ROWS },
+    {
+      col: GRID_TOTAL_COLS - CASTLE_EDGE_DISTANCE_COLS - CASTLE_GRID_COLS,
+      row,
+      cols: CASTLE_GRID_COLS,
+      rows: CASTLE_GRID_ROWS,
+    },
+  ];
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
+
+/**
+ * Validates one squad entry. Pinned squad bounds are added to `occupied`.
+ */
+function validateSquad(
+  squad: WaveSquadDefinition,
+  index: number,
+  unitRegistry: IUnitRegistry,
+  occupied: GridBounds[]
+): string[] {
+  const label = `squad ${index} (${squad.type})`;
+  const def = unitRegistry.tryGet(squad.type);
+  if (!def || def.baseStats.moveSpeed === 0) {
+    return [`${label}: unknown or stationary unit type`];
+  }
+
+  const errors: string[] = [];
+  if (squad.count !== undefined && !isPositiveInteger(squad.count)) {
+    errors.push(`${label}: count must be a positive integer`);
+  }
+  if (squad.level !== undefined && !isPositiveInteger(squad.level)) {
+    errors.push(`${label}: level must be a positive integer`);
+  }
+
+  if (squad.cell) {
+    if ((squad.count ?? 1) !== 1) {
+      errors.push(`${label}: a pinned cell needs count 1`);
+    }
+    const footprint = def.gridFootprint ?? DEFAULT_GRID_FOOTPRINT;
+    const bounds: GridBounds = { ...squad.cell, ...footprint };
+    if (!isGridBoundsWithin(bounds, getEnemyDeploymentBounds())) {
+      errors.push(`${label}: cell is outside the enemy deployment zone`);
+    } else if (
+      [...getEnemyCastleBounds(), ...occupied].some((o) => doGridBoundsOverlap(bounds, o))
+    ) {
+      errors.push(`${label}: cell overlaps a castle or another pinned squad`);
+    }
+    occupied.push(bounds);
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a wave definition.
+ *
+ * @returns Error messages (empty if valid)
+ */
+export function validateWaveDefinition(
+  definition: WaveDefinition,
+  unitRegistry: IUnitRegistry
+): string[] {
+  const errors: string[] = [];
+
+  if (definition.wave !== undefined && definition.waves !== undefined) {
+    errors.push('set either wave or waves, not both');
+  } else if (definition.wave !== undefined) {
+    if (!isPositiveInteger(definition.wave)) errors.push('wave must be a positive integer');
+  } else if (definition.waves !== undefined) {
+    const { from, to } = definition.waves;
+    if (!isPositiveInteger(from) || !isPositiveInteger(to) || from > to) {
+      errors.push('waves must be a range of positive integers with from <= to');
+    }
+  } else {
+    errors.push('missing wave or waves');
+  }
+
+  if (
+    definition.pattern !== undefined &&
+    !DEFAULT_ENEMY_PATTERNS.some((pattern) => pattern.id === definition.pattern)
+  ) {
+    errors.push(`unknown formation pattern: ${definition.pattern}`);
+  }
+
+  const levelBonus = definition.rules?.levelBonus;
+  if (levelBonus !== undefined && !(Number.isInteger(levelBonus) && levelBonus >= 0)) {
+    errors.push('rules.levelBonus must be a non-negative integer');
+  }
+
+  if (definition.squads !== undefined) {
+    if (definition.squads.length === 0 && !definition.rules?.includeGenerated) {
+      errors.push('wave has no enemy squads');
+    }
+    const occupied: GridBounds[] = [];
+    definition.squads.forEach((squad, index) => {
+      errors.push(...validateSquad(squad, index, unitRegistry, occupied));
+    });
+  }
+
+  if (definition.terrain !== undefined) {
+    errors.push(...validateTerrain(definition.terrain));
+  }
+
+  return errors;
+}
+
+/**
+ * Validates wave definitions and registers the valid ones.
+ * A single-wave definition that repeats an earlier one's wave is rejected.
+ *
+ * @returns Error messages, prefixed with the definition ID
+ */
+export function registerValidWaves(
+  registry: WaveRegistry,
+  definitions: WaveDefinition[],
+  unitRegistry: IUnitRegistry
+): string[] {
+  const errors: string[] = [];
+  const accepted: WaveDefinition[] = [];
+
+  for (const definition of definitions) {
+    const defErrors = validateWaveDefinition(definition, unitRegistry);
+    if (accepted.some((other) => other.id === definition.id)) {
+      defErrors.push('duplicate id');
+    }
+    if (
+      definition.wave !== undefined &&
+      accepted.some((other) => other.wave !== undefined && coversWave(other, definition.wave!))
+    ) {
+      defErrors.push(`wave ${definition.wave} is already scripted`);
+    }
+
+    if (defErrors.length > 0) {
+      errors.push(...defErrors.map((error) => `${definition.id}: ${error}`));
+    } else {
+      accepted.push(definition);
+      registry.register(definition);
+    }
+  }
+
+  return errors;
+}
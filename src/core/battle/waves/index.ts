@@ -0,0 +1,10 @@
+/**
+ * Wave Scripting
+ *
+ * Hand-authored wave definitions that override the procedural generator.
+ */
+
+export * from './types';
+export type { IWaveRegistry } from './IWaveRegistry';
+export * from './WaveRegistry';
+export * from './WaveValidation';
@@ -0,0 +1,72 @@
+/**
+ * Wave Script Types
+ *
+ * Hand-authored wave definitions loaded from JSON. Waves without a
+ * definition use the procedural generator (role ratios + wavePermit).
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import type { GridPosition } from '../grid/GridTypes';
+import type { TerrainDefinition } from '../obstacles/Terrain';
+
+/**
+ * A pinned enemy squad (or several identical squads) in a scripted wave.
+ */
+export interface WaveSquadDefinition {
+  /** Unit type ID */
+  type: string;
+
+  /** Number of identical squads (default 1) */
+  count?: number;
+
+  /** Fixed level (default: the wave's normal level scaling) */
+  level?: number;
+
+  /**
+   * Grid cell of the squad footprint's top-left corner in the enemy zone.
+   * Only valid with count 1. Omit to place the squad by the formation pattern.
+   */
+  cell?: GridPosition;
+}
+
+/**
+ * Special rules for a scripted wave.
+ */
+export interface WaveRules {
+  /** Extra levels on every enemy squad in the wave */
+  levelBonus?: number;
+
+  /** Also spawn the procedurally generated army alongside the scripted squads */
+  includeGenerated?: boolean;
+}
+
+/**
+ * Wave Definition - loaded from JSON.
+ * Covers a single wave or an inclusive range of waves.
+ */
+export interface WaveDefinition {
+  /** Unique identifier, e.g., 'sniper_nest' */
+  id: string;
+
+  /** Display name */
+  name: string;
+
+  /** Single wave this definition applies to */
+  wave?: number;
+
+  /** Inclusive wave range this definition applies to (instead of wave) */
+  waves?: { from: number; to: number };
+
+  /** Enemy formation pattern ID for squads without a cell (default: the wave's usual pattern) */
+  pattern?: string;
+
+  /** Squads to spawn (omit to keep the generated composition) */
+  squads?: WaveSquadDefinition[];
+
+  /** Special rules */
+  rules?: WaveRules;
+
+  /** Terrain in no man's land (omit for generated terrain, [] for open ground) */
+  terrain?: TerrainDefinition[];
+}
@@ -8,11 +8,16 @@
  */
 
 import type { IPersistenceAdapter } from '../persistence/IPersistenceAdapter';
+import { loadMigratedSave, saveMigrations } from '../persistence/SaveMigrations';
 import { calculateWaveGold } from '../battle/BattleConfig';
 
-const DOSSIER_SAVE_KEY = 'battle_dossier';
+/** Persistence key for the dossier */
+export const DOSSIER_SAVE_KEY = 'battle_dossier';
 const DOSSIER_VERSION = 1;
 
+// Add migrations here when DOSSIER_VERSION is bumped: { [fromVersion]: (data) => newData }
+saveMigrations.register(DOSSIER_SAVE_KEY, DOSSIER_VERSION);
+
 /**
  * Dossier data structure.
  * Stores fastest clear times per wave (simulation time in seconds).
@@ -101,6 +106,22 @@ export function formatVestPerSecond(rate: number): string {
   return rate.toFixed(1);
 }
 
+/**
+ * Validates serialized dossier structure.
+ * Every fastest time must be a positive number keyed by wave.
+ */
+export function isValidSerializedDossier(data: unknown): data is DossierData {
+  if (!data || typeof data !== 'object') return false;
+
+  const obj = data as Record<string, unknown>;
+  if (typeof obj.version !== 'number') return false;
+  if (!obj.fastestTimes || typeof obj.fastestTimes !== 'object') return false;
+
+  return Object.entries(obj.fastestTimes).every(
+    ([wave, time]) => !isNaN(Number(wave)) && typeof time === 'number' && time > 0
+  );
+}
+
 /**
  * Serialize dossier to JSON string.
  */
@@ -147,8 +168,9 @@ export async function saveDossier(adapter: IPersistenceAdapter, data: DossierDat
 
 /**
  * Load dossier using a persistence adapter.
+ * Older dossiers are migrated first (the original is kept as a backup).
  */
 export async function loadDossier(adapter: IPersistenceAdapter): Promise<DossierData> {
-  const json = await adapter.load(DOSSIER_SAVE_KEY);
+  const json = await loadMigratedSave(adapter, DOSSIER_SAVE_KEY);
   return deserializeDossier(json);
 }
@@ -0,0 +1,53 @@
+/**
+ * Dossier Replays
+ *
+ * Stores one replay per wave - the fight behind the wave's fastest clear.
+ * Each replay is saved under its own key so the dossier itself stays small.
+ *
+ * Godot equivalent: One replay file per wave in user://replays/
+ */
+
+import type { IPersistenceAdapter } from '../persistence/IPersistenceAdapter';
+import { BattleReplay, deserializeReplay, serializeReplay } from '../battle/replay';
+
+const REPLAY_SAVE_KEY_PREFIX = 'battle_replay_';
+
+/**
+ * Persistence key for a wave's replay.
+ */
+export function getReplaySaveKey(wave: number): string {
+  return `${REPLAY_SAVE_KEY_PREFIX}${wave}`;
+}
+
+/**
+ * Save a replay as the replay for its wave (replaces any existing one).
+ */
+export async function saveWaveReplay(
+  adapter: IPersistenceAdapter,
+  replay: BattleReplay
+): Promise<void> {
+  await adapter.save(getReplaySaveKey(replay.waveNumber), serializeReplay(replay));
+}
+
+/**
+ * Load the replay for a wave.
+ * Returns null if none is saved or the saved replay is unreadable.
+ */
+export async function loadWaveReplay(
+  adapter: IPersistenceAdapter,
+  wave: number
+): Promise<BattleReplay | null> {
+  const json = await adapter.load(getReplaySaveKey(wave));
+  return deserializeReplay(json);
+}
+
+/**
+ * Find which of the given waves have a saved replay.
+ */
+export async function findReplayWaves(
+  adapter: IPersistenceAdapter,
+  waves: readonly number[]
+): Promise<number[]> {
+  const exists = await Promise.all(waves.map((wave) => adapter.exists(getReplaySaveKey(wave))));
+  return waves.filter((_, i) => exists[i]);
+}
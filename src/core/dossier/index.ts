@@ -1,5 +1,6 @@
 export type { DossierData } from './DossierData';
 export {
+  DOSSIER_SAVE_KEY,
   DEFAULT_DOSSIER,
   updateFastestTime,
   getFastestTime,
@@ -9,6 +10,13 @@ export {
   formatVestPerSecond,
   serializeDossier,
   deserializeDossier,
+  isValidSerializedDossier,
   saveDossier,
   loadDossier,
 } from './DossierData';
+export {
+  getReplaySaveKey,
+  saveWaveReplay,
+  loadWaveReplay,
+  findReplayWaves,
+} from './DossierReplays';
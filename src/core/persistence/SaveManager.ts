@@ -2,8 +2,31 @@ import { IPersistenceAdapter } from './IPersistenceAdapter';
 import { GameState, SerializedGameState, SAVE_VERSION } from '../types/GameState';
 import { deserializeDecimal, serializeDecimal } from '../utils/BigNumber';
 import { ILogger, nullLogger } from '../logging';
+import { SaveMigrationRegistry, loadMigratedSave, saveMigrations } from './SaveMigrations';
 
-const SAVE_KEY = 'action_idle_save';
+/** Persistence key for the main game save */
+export const GAME_SAVE_KEY = 'action_idle_save';
+
+// Add migrations here when SAVE_VERSION is bumped: { [fromVersion]: (data) => newData }
+saveMigrations.register(GAME_SAVE_KEY, SAVE_VERSION);
+
+/**
+ * Validates serialized game state structure.
+ */
+export function isValidSerializedGameState(data: unknown): data is SerializedGameState {
+  if (!data || typeof data !== 'object') return false;
+
+  const obj = data as Record<string, unknown>;
+
+  return (
+    typeof obj.currency === 'string' &&
+    typeof obj.totalEarned === 'string' &&
+    typeof obj.upgrades === 'object' &&
+    obj.upgrades !== null &&
+    typeof obj.lastTick === 'number' &&
+    typeof obj.version === 'number'
+  );
+}
 
 /**
  * Manages game state serialization and persistence.
@@ -12,15 +35,22 @@ const SAVE_KEY = 'action_idle_save';
 export class SaveManager {
   private adapter: IPersistenceAdapter;
   private logger: ILogger;
+  private migrations: SaveMigrationRegistry;
 
   /**
    * Create a SaveManager.
    * @param adapter - Persistence adapter for save/load operations
    * @param logger - Optional logger for diagnostics (defaults to silent)
+   * @param migrations - Save migrations (defaults to the shared registry)
    */
-  constructor(adapter: IPersistenceAdapter, logger: ILogger = nullLogger) {
+  constructor(
+    adapter: IPersistenceAdapter,
+    logger: ILogger = nullLogger,
+    migrations: SaveMigrationRegistry = saveMigrations
+  ) {
     this.adapter = adapter;
     this.logger = logger;
+    this.migrations = migrations;
   }
 
   /**
@@ -35,15 +65,19 @@ export class SaveManager {
       version: SAVE_VERSION,
     };
 
-    await this.adapter.save(SAVE_KEY, JSON.stringify(serialized));
+    await this.adapter.save(GAME_SAVE_KEY, JSON.stringify(serialized));
   }
 
   /**
    * Loads and deserializes the saved game state.
-   * Returns null if no save exists.
+   * Older saves are migrated to SAVE_VERSION (the original is kept as a backup).
+   * Returns null if no save exists or it cannot be migrated.
    */
   async loadGame(): Promise<GameState | null> {
-    const data = await this.adapter.load(SAVE_KEY);
+    const data = await loadMigratedSave(this.adapter, GAME_SAVE_KEY, {
+      registry: this.migrations,
+      logger: this.logger,
+    });
     if (!data) {
       return null;
     }
@@ -51,12 +85,6 @@ export class SaveManager {
     try {
       const parsed: SerializedGameState = JSON.parse(data);
 
-      // Handle save version migrations here if needed
-      if (parsed.version !== SAVE_VERSION) {
-        this.logger.warn(`Save version mismatch: expected ${SAVE_VERSION}, got ${parsed.version}`);
-        // Future: add migration logic
-      }
-
       return {
         currency: deserializeDecimal(parsed.currency),
         totalEarned: deserializeDecimal(parsed.totalEarned),
@@ -73,13 +101,13 @@ export class SaveManager {
    * Deletes the saved game.
    */
   async deleteSave(): Promise<void> {
-    await this.adapter.delete(SAVE_KEY);
+    await this.adapter.delete(GAME_SAVE_KEY);
   }
 
   /**
    * Checks if a save exists.
    */
   async hasSave(): Promise<boolean> {
-    return this.adapter.exists(SAVE_KEY);
+    return this.adapter.exists(GAME_SAVE_KEY);
   }
 }
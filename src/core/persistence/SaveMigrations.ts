@@ -0,0 +1,230 @@
+/**
+ * Save Migrations
+ *
+ * Versioned upgrades for persisted data. Every save key registers its
+ * current version and an ordered chain of vN -> vN+1 transforms; loaders
+ * run old saves through the chain instead of discarding them.
+ *
+ * Before an old save is migrated, the original blob is copied to a backup
+ * key, so a broken migration can never cost a player their progress.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import type { IPersistenceAdapter } from './IPersistenceAdapter';
+import { ILogger, nullLogger } from '../logging';
+
+/**
+ * Parsed save data (a JSON object with a numeric `version`).
+ */
+export type SaveData = Record<string, unknown>;
+
+/**
+ * Transforms save data from one version to the next.
+ * Receives a copy; the registry stamps the new version afterwards.
+ */
+export type SaveMigration = (data: SaveData) => SaveData;
+
+/**
+ * Version assumed for saves written before they carried a version field.
+ */
+export const INITIAL_SAVE_VERSION = 1;
+
+/**
+ * Thrown when save data cannot be brought up to the current version.
+ */
+export class SaveMigrationError extends Error {
+  constructor(
+    public readonly key: string,
+    message: string
+  ) {
+    super(`Cannot migrate save "${key}": ${message}`);
+    this.name = 'SaveMigrationError';
+  }
+}
+
+/**
+ * Result of migrating save data.
+ */
+export interface SaveMigrationResult {
+  /** Data at the current version */
+  data: SaveData;
+  /** Version the data was saved with */
+  fromVersion: number;
+  /** True if at least one migration ran */
+  migrated: boolean;
+}
+
+interface SaveSchema {
+  currentVersion: number;
+  /** Keyed by the version each migration upgrades from */
+  migrations: Map<number, SaveMigration>;
+}
+
+/**
+ * Registry of save versions and migrations, per save key.
+ */
+export class SaveMigrationRegistry {
+  private schemas = new Map<string, SaveSchema>();
+
+  /**
+   * Register a save key. Registering a key again replaces it (e.g., on hot reload).
+   *
+   * @param key - Persistence key
+   * @param currentVersion - Version the game currently writes
+   * @param migrations - Migrations keyed by the version they upgrade from
+   * @throws Error if a migration is out of range
+   */
+  register(
+    key: string,
+    currentVersion: number,
+    migrations: Record<number, SaveMigration> = {}
+  ): void {
+    const schema: SaveSchema = { currentVersion, migrations: new Map() };
+    this.schemas.set(key, schema);
+    for (const [fromVersion, migrate] of Object.entries(migrations)) {
+      this.addMigration(key, Number(fromVersion), migrate);
+    }
+  }
+
+  /**
+   * Add the migration from one version to the next.
+   *
+   * @throws Error if the key is unknown, or the migration is a duplicate or out of range
+   */
+  addMigration(key: string, fromVersion: number, migrate: SaveMigration): void {
+    const schema = this.getSchema(key);
+    if (fromVersion < INITIAL_SAVE_VERSION || fromVersion >= schema.currentVersion) {
+      throw new Error(
+        `Migration from v${fromVersion} is outside ${key}'s range ` +
+          `(v${INITIAL_SAVE_VERSION}..v${schema.currentVersion})`
+      );
+    }
+    if (schema.migrations.has(fromVersion)) {
+      throw new Error(`Duplicate migration for ${key} from v${fromVersion}`);
+    }
+    schema.migrations.set(fromVersion, migrate);
+  }
+
+  /**
+   * Get the version the game currently writes for a key.
+   */
+  getCurrentVersion(key: string): number {
+    return this.getSchema(key).currentVersion;
+  }
+
+  /**
+   * Bring save data up to the current version.
+   * Data from a newer version is returned unchanged (it cannot be downgraded).
+   *
+   * @throws SaveMigrationError if a migration is missing or fails
+   */
+  migrate(key: string, data: SaveData): SaveMigrationResult {
+    const schema = this.getSchema(key);
+    const fromVersion = getSaveVersion(data);
+
+    let current: SaveData = { ...data };
+    for (let version = fromVersion; version < schema.currentVersion; version++) {
+      const migrate = schema.migrations.get(version);
+      if (!migrate) {
+        throw new SaveMigrationError(key, `no migration from v${version}`);
+      }
+      try {
+        current = { ...migrate({ ...current }), version: version + 1 };
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new SaveMigrationError(key, `migration from v${version} failed: ${reason}`);
+      }
+    }
+
+    return { data: current, fromVersion, migrated: fromVersion < schema.currentVersion };
+  }
+
+  private getSchema(key: string): SaveSchema {
+    const schema = this.schemas.get(key);
+    if (!schema) {
+      throw new Error(`Save key not registered: ${key}`);
+    }
+    return schema;
+  }
+}
+
+/**
+ * Read the version field of save data.
+ */
+export function getSaveVersion(data: SaveData): number {
+  return typeof data.version === 'number' ? data.version : INITIAL_SAVE_VERSION;
+}
+
+/**
+ * Key the pre-migration copy of a save is stored under.
+ */
+export function getSaveBackupKey(key: string, version: number): string {
+  return `${key}_backup_v${version}`;
+}
+
+/**
+ * Shared registry for every persisted save key.
+ * Each save module registers its own key next to its serializer.
+ */
+export const saveMigrations = new SaveMigrationRegistry();
+
+/**
+ * Options for loadMigratedSave.
+ */
+export interface LoadMigratedSaveOptions {
+  /** Registry to migrate with (default: saveMigrations) */
+  registry?: SaveMigrationRegistry;
+  /** Logger for migration diagnostics (default: silent) */
+  logger?: ILogger;
+}
+
+/**
+ * Load a save and bring it up to the current version.
+ *
+ * If the save is older than the current version, the original blob is backed
+ * up under getSaveBackupKey(), then the migrated save is written back.
+ * If migration fails, the backup is kept and null is returned so the caller
+ * falls back to defaults.
+ *
+ * @returns JSON at the current version, or null if there is no usable save
+ */
+export async function loadMigratedSave(
+  adapter: IPersistenceAdapter,
+  key: string,
+  options: LoadMigratedSaveOptions = {}
+): Promise<string | null> {
+  const { registry = saveMigrations, logger = nullLogger } = options;
+
+  const json = await adapter.load(key);
+  if (!json) return null;
+
+  let parsed: SaveData;
+  try {
+    parsed = JSON.parse(json) as SaveData;
+  } catch {
+    // Unparseable saves are left to the caller's own fallback handling
+    return json;
+  }
+  if (!parsed || typeof parsed !== 'object') return json;
+
+  const fromVersion = getSaveVersion(parsed);
+  const currentVersion = registry.getCurrentVersion(key);
+  if (fromVersion > currentVersion) {
+    logger.warn(`Save "${key}" is v${fromVersion}, newer than supported v${currentVersion}`);
+    return json;
+  }
+  if (fromVersion === currentVersion) return json;
+
+  await adapter.save(getSaveBackupKey(key, fromVersion), json);
+
+  try {
+    const migrated = JSON.stringify(registry.migrate(key, parsed).data);
+    await adapter.save(key, migrated);
+    logger.info(`Migrated save "${key}" from v${fromVersion} to v${currentVersion}`);
+    return migrated;
+  } catch (error) {
+    logger.error(`Failed to migrate save "${key}" (original kept as backup):`, error);
+    return null;
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Prestige Manager
+ *
+ * Pure functions for the prestige reset loop: converting highest wave into
+ * Soul Shards and buying permanent meta upgrades with them.
+ *
+ * See GAME_DESIGN.md "Prestige System".
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import {
+  PRESTIGE_COUNT_BONUS,
+  PRESTIGE_MIN_WAVE,
+  PRESTIGE_WAVES_PER_SHARD,
+} from '../battle/BattleConfig';
+import type { BattleSettingsData } from '../battle/BattleSettings';
+import { BattleUpgradeRegistry } from '../battle/upgrades/BattleUpgradeRegistry';
+import { UpgradePrerequisiteContext } from '../battle/upgrades/types';
+import { saveMigrations } from '../persistence/SaveMigrations';
+import {
+  PrestigeState,
+  SerializedPrestigeState,
+  PRESTIGE_SAVE_KEY,
+  PRESTIGE_STATE_VERSION,
+} from './PrestigeState';
+
+// Add migrations here when PRESTIGE_STATE_VERSION is bumped: { [fromVersion]: (data) => newData }
+saveMigrations.register(PRESTIGE_SAVE_KEY, PRESTIGE_STATE_VERSION);
+
+/**
+ * Creates the initial prestige state.
+ */
+export function createInitialPrestigeState(registry: BattleUpgradeRegistry): PrestigeState {
+  return {
+    shards: 0,
+    prestigeCount: 0,
+    metaUpgradeStates: registry.createInitialStates(),
+  };
+}
+
+/**
+ * Calculates the Soul Shards a prestige would award.
+ *
+ * shards = floor((highestWave - PRESTIGE_MIN_WAVE) / PRESTIGE_WAVES_PER_SHARD)
+ *          × (1 + prestigeCount × PRESTIGE_COUNT_BONUS), rounded down
+ *
+ * @param highestWave - Highest wave reached this run
+ * @param prestigeCount - Prestiges already performed
+ */
+export function calculatePrestigeShards(highestWave: number, prestigeCount: number): number {
+  if (highestWave < PRESTIGE_MIN_WAVE) return 0;
+
+  const baseShards = Math.floor((highestWave - PRESTIGE_MIN_WAVE) / PRESTIGE_WAVES_PER_SHARD);
+  return Math.floor(baseShards * (1 + prestigeCount * PRESTIGE_COUNT_BONUS));
+}
+
+/**
+ * Checks if prestiging now would award at least one Soul Shard.
+ */
+export function canPrestige(state: PrestigeState, highestWave: number): boolean {
+  return calculatePrestigeShards(highestWave, state.prestigeCount) > 0;
+}
+
+/**
+ * Gets the wave at which the next base shard is earned.
+ * Used for the "Reach wave X for more shards" tip.
+ */
+export function getNextShardWave(highestWave: number): number {
+  if (highestWave < PRESTIGE_MIN_WAVE) return PRESTIGE_MIN_WAVE + PRESTIGE_WAVES_PER_SHARD;
+
+  const baseShards = Math.floor((highestWave - PRESTIGE_MIN_WAVE) / PRESTIGE_WAVES_PER_SHARD);
+  return PRESTIGE_MIN_WAVE + (baseShards + 1) * PRESTIGE_WAVES_PER_SHARD;
+}
+
+/**
+ * Performs a prestige: awards Soul Shards and counts the prestige.
+ * Returns a new state object (pure function).
+ * Returns the same state if no shards would be awarded.
+ *
+ * Resetting the run itself is left to the owners of that state
+ * (resetBattleSettingsForPrestige, assembly resetForPrestige).
+ */
+export function applyPrestige(state: PrestigeState, highestWave: number): PrestigeState {
+  const shards = calculatePrestigeShards(highestWave, state.prestigeCount);
+  if (shards <= 0) return state;
+
+  return {
+    ...state,
+    shards: state.shards + shards,
+    prestigeCount: state.prestigeCount + 1,
+  };
+}
+
+/**
+ * Resets wave progress and gold in battle settings for a new run.
+ * Preferences (auto-battle, speed, stay mode) are kept.
+ * Returns new settings (immutable).
+ */
+export function resetBattleSettingsForPrestige(settings: BattleSettingsData): BattleSettingsData {
+  return {
+    ...settings,
+    waveNumber: 1,
+    highestWave: 1,
+    gold: 0,
+  };
+}
+
+/**
+ * Purchases a meta upgrade if affordable.
+ * Returns a new state object with updated shards and upgrade level.
+ * Returns the same state if the purchase cannot be made.
+ */
+export function purchaseMetaUpgrade(
+  state: PrestigeState,
+  registry: BattleUpgradeRegistry,
+  upgradeId: string
+): PrestigeState {
+  const currentLevel = registry.getLevel(state.metaUpgradeStates, upgradeId);
+  const context = buildMetaPrerequisiteContext(state);
+  const costResult = registry.calculateCost(upgradeId, currentLevel, context, state.shards);
+
+  if (!costResult.canPurchase) {
+    return state;
+  }
+
+  return {
+    ...state,
+    shards: state.shards - costResult.cost,
+    metaUpgradeStates: registry.applyUpgrade(state.metaUpgradeStates, upgradeId, costResult.cost),
+  };
+}
+
+/**
+ * Builds the prerequisite context for meta upgrades.
+ * Meta upgrades outlive runs, so only upgrade prerequisites apply -
+ * wave prerequisites are checked against wave 0 and never met.
+ */
+export function buildMetaPrerequisiteContext(state: PrestigeState): UpgradePrerequisiteContext {
+  const upgradeLevels: Record<string, number> = {};
+  for (const [id, upgradeState] of Object.entries(state.metaUpgradeStates)) {
+    upgradeLevels[id] = upgradeState.level;
+  }
+
+  return {
+    upgradeLevels,
+    waveNumber: 0,
+    unitCounts: {},
+  };
+}
+
+/**
+ * Serializes prestige state for persistence.
+ */
+export function serializePrestigeState(state: PrestigeState): SerializedPrestigeState {
+  return {
+    shards: state.shards,
+    prestigeCount: state.prestigeCount,
+    metaUpgradeStates: state.metaUpgradeStates,
+    version: PRESTIGE_STATE_VERSION,
+  };
+}
+
+/**
+ * Deserializes prestige state from persistence.
+ * Merges with current registry to handle new meta upgrades.
+ */
+export function deserializePrestigeState(
+  data: SerializedPrestigeState,
+  registry: BattleUpgradeRegistry
+): PrestigeState {
+  const mergedStates = registry.createInitialStates();
+  for (const [id, savedState] of Object.entries(data.metaUpgradeStates)) {
+    if (mergedStates[id]) {
+      mergedStates[id] = savedState;
+    }
+  }
+
+  return {
+    shards: data.shards ?? 0,
+    prestigeCount: data.prestigeCount ?? 0,
+    metaUpgradeStates: mergedStates,
+  };
+}
+
+/**
+ * Validates serialized prestige state structure.
+ */
+export function isValidSerializedPrestigeState(data: unknown): data is SerializedPrestigeState {
+  if (!data || typeof data !== 'object') return false;
+
+  const obj = data as Record<string, unknown>;
+
+  return (
+    typeof obj.shards === 'number' &&
+    typeof obj.prestigeCount === 'number' &&
+    typeof obj.metaUpgradeStates === 'object' &&
+    obj.metaUpgradeStates !== null &&
+    typeof obj.version === 'number'
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * Prestige State Interface
+ *
+ * Defines the state kept through prestige resets: Soul Shards
+ * and the permanent meta upgrades bought with them.
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import { BattleUpgradeStates } from '../battle/upgrades/types';
+
+/**
+ * Prestige state - persisted between sessions and never reset.
+ */
+export interface PrestigeState {
+  /** Unspent Soul Shards */
+  shards: number;
+
+  /** Number of prestiges performed (raises shard yield) */
+  prestigeCount: number;
+
+  /** All meta upgrade purchase states */
+  metaUpgradeStates: BattleUpgradeStates;
+}
+
+/**
+ * Serializable version of PrestigeState for persistence.
+ */
+export interface SerializedPrestigeState {
+  shards: number;
+  prestigeCount: number;
+  metaUpgradeStates: BattleUpgradeStates;
+  version: number;
+}
+
+/** Current save format version */
+export const PRESTIGE_STATE_VERSION = 1;
+
+/** Persistence key for prestige state */
+export const PRESTIGE_SAVE_KEY = 'action_idle_prestige';
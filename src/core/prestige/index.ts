@@ -0,0 +1,23 @@
+/**
+ * Prestige Module Exports
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+export type { PrestigeState, SerializedPrestigeState } from './PrestigeState';
+
+export { PRESTIGE_STATE_VERSION, PRESTIGE_SAVE_KEY } from './PrestigeState';
+
+export {
+  createInitialPrestigeState,
+  calculatePrestigeShards,
+  canPrestige,
+  getNextShardWave,
+  applyPrestige,
+  resetBattleSettingsForPrestige,
+  purchaseMetaUpgrade,
+  buildMetaPrerequisiteContext,
+  serializePrestigeState,
+  deserializePrestigeState,
+  isValidSerializedPrestigeState,
+} from './PrestigeManager';
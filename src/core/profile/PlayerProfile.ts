@@ -0,0 +1,293 @@
+/**
+ * Player Profile
+ *
+ * Bundles every persisted save (game, battle settings, dossier, assembly,
+ * ally layout and prestige) into one checksummed JSON string, so a profile can be moved
+ * between installs or attached to a bug report.
+ *
+ * Import validates every section before anything is written: a profile is
+ * applied completely or not at all.
+ *
+ * Godot-portable: No React/browser dependencies.
+ */
+
+import type { IPersistenceAdapter } from '../persistence/IPersistenceAdapter';
+import {
+  SaveData,
+  SaveMigrationRegistry,
+  getSaveVersion,
+  saveMigrations,
+} from '../persistence/SaveMigrations';
+import { GAME_SAVE_KEY, isValidSerializedGameState } from '../persistence/SaveManager';
+import {
+  BATTLE_SETTINGS_SAVE_KEY,
+  isValidSerializedBattleSettings,
+} from '../battle/BattleSettings';
+import {
+  ALLY_LAYOUT_SAVE_KEY,
+  deserializeAllyLayout,
+  isValidSerializedAllyLayout,
+  serializeAllyLayout,
+} from '../battle/deployment/LayoutPersistence';
+import { DOSSIER_SAVE_KEY, isValidSerializedDossier } from '../dossier/DossierData';
+import { ASSEMBLY_SAVE_KEY } from '../assembly/AssemblyState';
+import { isValidSerializedState } from '../assembly/AssemblyManager';
+import { PRESTIGE_SAVE_KEY } from '../prestige/PrestigeState';
+import { isValidSerializedPrestigeState } from '../prestige/PrestigeManager';
+
+/** Identifies a profile export */
+export const PROFILE_FORMAT = 'action_idle_profile';
+
+/** Current profile format version */
+export const PROFILE_FORMAT_VERSION = 1;
+
+/**
+ * Sections of a player profile.
+ */
+export type ProfileSectionId =
+  | 'game'
+  | 'battleSettings'
+  | 'dossier'
+  | 'assembly'
+  | 'allyLayout'
+  | 'prestige';
+
+/**
+ * Exported player profile.
+ * Each section holds the raw JSON stored under its save key.
+ */
+export interface PlayerProfile {
+  format: typeof PROFILE_FORMAT;
+  version: number;
+  /** Export time (ms since epoch) */
+  exportedAt: number;
+  /** Checksum of the sections (see computeProfileChecksum) */
+  checksum: string;
+  /** Sections that had a save; missing sections were empty */
+  sections: Partial<Record<ProfileSectionId, string>>;
+}
+
+/**
+ * Result of importing a profile.
+ */
+export type ProfileImportResult =
+  | { success: true; sections: ProfileSectionId[] }
+  | { success: false; errors: string[] };
+
+interface ProfileSection {
+  id: ProfileSectionId;
+  key: string;
+  label: string;
+  /** Returns the JSON to store, or null if the data is invalid */
+  normalize: (data: SaveData) => string | null;
+}
+
+/**
+ * Every persisted save, in export order.
+ */
+const PROFILE_SECTIONS: ProfileSection[] = [
+  {
+    id: 'game',
+    key: GAME_SAVE_KEY,
+    label: 'Game',
+    normalize: (data) => (isValidSerializedGameState(data) ? JSON.stringify(data) : null),
+  },
+  {
+    id: 'battleSettings',
+    key: BATTLE_SETTINGS_SAVE_KEY,
+    label: 'Battle settings',
+    normalize: (data) => (isValidSerializedBattleSettings(data) ? JSON.stringify(data) : null),
+  },
+  {
+    id: 'dossier',
+    key: DOSSIER_SAVE_KEY,
+    label: 'Dossier',
+    normalize: (data) => (isValidSerializedDossier(data) ? JSON.stringify(data) : null),
+  },
+  {
+    id: 'assembly',
+    key: ASSEMBLY_SAVE_KEY,
+    label: 'Assembly',
+    normalize: (data) => (isValidSerializedState(data) ? JSON.stringify(data) : null),
+  },
+  {
+    id: 'allyLayout',
+    key: ALLY_LAYOUT_SAVE_KEY,
+    label: 'Ally layout',
+    normalize: (data) => {
+      const layout = isValidSerializedAllyLayout(data)
+        ? deserializeAllyLayout(JSON.stringify(data))
+        : null;
+      return layout ? serializeAllyLayout(layout) : null;
+    },
+  },
+  {
+    id: 'prestige',
+    key: PRESTIGE_SAVE_KEY,
+    label: 'Prestige',
+    normalize: (data) => (isValidSerializedPrestigeState(data) ? JSON.stringify(data) : null),
+  },
+];
+
+/**
+ * Checksum of a profile's sections (32-bit FNV-1a, hex).
+ * Detects truncated or hand-edited exports; it is not tamper-proof.
+ */
+export function computeProfileChecksum(sections: PlayerProfile['sections']): string {
+  const text = JSON.stringify(sections);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Export every persisted save as a profile JSON string.
+ *
+ * @param adapter - Persistence adapter to read saves from
+ * @param now - Export timestamp (default: Date.now())
+ */
+export async function exportPlayerProfile(
+  adapter: IPersistenceAdapter,
+  now: number = Date.now()
+): Promise<string> {
+  const sections: PlayerProfile['sections'] = {};
+  for (const section of PROFILE_SECTIONS) {
+    const data = await adapter.load(section.key);
+    if (data) sections[section.id] = data;
+  }
+
+  const profile: PlayerProfile = {
+    format: PROFILE_FORMAT,
+    version: PROFILE_FORMAT_VERSION,
+    exportedAt: now,
+    checksum: computeProfileChecksum(sections),
+    sections,
+  };
+  return JSON.stringify(profile);
+}
+
+/**
+ * Import a profile, replacing every persisted save.
+ * Sections are migrated to the current save versions and validated first;
+ * if any section is invalid, nothing is written.
+ * Saves missing from the profile are deleted.
+ *
+ * @param adapter - Persistence adapter to write saves to
+ * @param json - Profile JSON from exportPlayerProfile
+ * @param registry - Save migrations (default: the shared registry)
+ */
+export async function importPlayerProfile(
+  adapter: IPersistenceAdapter,
+  json: string,
+  registry: SaveMigrationRegistry = saveMigrations
+): Promise<ProfileImportResult> {
+  const profile = parseProfile(json);
+  if (typeof profile === 'string') {
+    return { success: false, errors: [profile] };
+  }
+
+  const errors: string[] = [];
+  const writes: Array<{ key: string; data: string | null }> = [];
+
+  for (const section of PROFILE_SECTIONS) {
+    const raw = profile.sections[section.id];
+    if (raw === undefined) {
+      writes.push({ key: section.key, data: null });
+      continue;
+    }
+
+    const result = validateSection(section, raw, registry);
+    if ('error' in result) {
+      errors.push(`${section.label}: ${result.error}`);
+    } else {
+      writes.push({ key: section.key, data: result.data });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  for (const { key, data } of writes) {
+    if (data === null) {
+      await adapter.delete(key);
+    } else {
+      await adapter.save(key, data);
+    }
+  }
+
+  return {
+    success: true,
+    sections: PROFILE_SECTIONS.filter((s) => profile.sections[s.id] !== undefined).map((s) => s.id),
+  };
+}
+
+/**
+ * Parse and verify a profile.
+ * @returns The profile, or an error message
+ */
+function parseProfile(json: string): PlayerProfile | string {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return 'Not a profile file';
+  }
+
+  if (!parsed || typeof parsed !== 'object') return 'Not a profile file';
+  const profile = parsed as Partial<PlayerProfile>;
+
+  if (profile.format !== PROFILE_FORMAT) return 'Not a profile file';
+  if (typeof profile.version !== 'number' || profile.version > PROFILE_FORMAT_VERSION) {
+    return `Unsupported profile version ${String(profile.version)}`;
+  }
+  if (!profile.sections || typeof profile.sections !== 'object') {
+    return 'Profile has no sections';
+  }
+  if (Object.values(profile.sections).some((data) => typeof data !== 'string')) {
+    return 'Profile sections are malformed';
+  }
+  if (profile.checksum !== computeProfileChecksum(profile.sections)) {
+    return 'Checksum mismatch (the profile is damaged or was edited)';
+  }
+
+  return profile as PlayerProfile;
+}
+
+/**
+ * Migrate and validate one section.
+ */
+function validateSection(
+  section: ProfileSection,
+  raw: string,
+  registry: SaveMigrationRegistry
+): { data: string } | { error: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { error: 'not valid JSON' };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { error: 'not a save object' };
+  }
+
+  const version = getSaveVersion(parsed as SaveData);
+  const currentVersion = registry.getCurrentVersion(section.key);
+  if (version > currentVersion) {
+    return { error: `saved by a newer version (v${version}, supported v${currentVersion})` };
+  }
+
+  let migrated: SaveData;
+  try {
+    migrated = registry.migrate(section.key, parsed as SaveData).data;
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const data = section.normalize(migrated);
+  return data === null ? { error: 'invalid save data' } : { data };
+}
@@ -0,0 +1,15 @@
+/**
+ * Profile Module
+ *
+ * Export and import of the complete player profile.
+ * All exports are Godot-portable.
+ */
+
+export type { ProfileSectionId, PlayerProfile, ProfileImportResult } from './PlayerProfile';
+export {
+  PROFILE_FORMAT,
+  PROFILE_FORMAT_VERSION,
+  computeProfileChecksum,
+  exportPlayerProfile,
+  importPlayerProfile,
+} from './PlayerProfile';
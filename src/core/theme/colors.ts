@@ -131,6 +131,9 @@ export const ARENA_COLORS = {
   unitOutline: '#1A1A1A', // Dark outline
   boxSelectFill: 'rgba(0, 255, 136, 0.15)', // Coral green selection
   boxSelectBorder: 'rgba(0, 255, 136, 0.8)',
+  orderIcon: '#F5A623', // Amber order badge
+  orderIconBg: 'rgba(10, 14, 20, 0.85)', // Dark badge backing
+  orderMarker: 'rgba(245, 166, 35, 0.6)', // Fall back path and focus crosshair
 
   // Health bar - high contrast for visibility
   healthBarBg: '#0A0E14', // Deep black
@@ -148,6 +151,10 @@ export const ARENA_COLORS = {
   unitShadow: '#0A0E14', // Deep shadow
   dustParticle: '#4A5668', // Metal dust/sparks
 
+  // Projectile visuals
+  shellShadow: 'rgba(10, 14, 20, 0.4)', // Ground shadow under arcing shells
+  beamCore: '#FFFFFF', // White-hot beam core and chain orb
+
   // Arena zones
   noMansLand: '#1A2028', // Contested zone
   flankZone: '#151B22', // Flank zones
@@ -215,6 +222,10 @@ export type UnitType =
   | 'arclight'
   | 'marksman'
   | 'void_eye'
+  | 'repair_drone'
+  | 'wasp'
+  | 'phoenix'
+  | 'fortress'
   | 'castle';
 
 export interface UnitTypeColors {
@@ -260,6 +271,26 @@ export const UNIT_TYPE_COLORS: Record<UnitType, UnitTypeColors> = {
     player: '#00E8D0', // Bright cyan
     enemy: '#FF8844', // Amber-orange
   },
+  // Repair drone - support class, green tint (repairs)
+  repair_drone: {
+    player: '#40E8A0', // Mint green
+    enemy: '#E8C040', // Brass
+  },
+  // Wasp - light aircraft, pale sky tint
+  wasp: {
+    player: '#80D8FF', // Sky blue
+    enemy: '#FFA0A0', // Pale red
+  },
+  // Phoenix - heavy aircraft, gold tint (high damage)
+  phoenix: {
+    player: '#4060FF', // Royal blue
+    enemy: '#FFB020', // Gold
+  },
+  // Fortress - giant siege walker, heavy dark shade (armored hull)
+  fortress: {
+    player: '#2A6A90', // Gunmetal blue
+    enemy: '#B04030', // Rust red
+  },
   // Castle - stationary structure, uniform steel color
   castle: {
     player: '#3A4452', // Dark steel
@@ -300,6 +331,63 @@ export const DEBUFF_COLORS = {
   shockwaveGlow: 'rgba(0, 255, 255, 0.4)',
 } as const;
 
+/**
+ * Icon colors for status effects, keyed by status type.
+ */
+export const STATUS_COLORS = {
+  stun: '#FFD23F', // Electric yellow
+  root: '#8D6E63', // Mud brown
+  slow: '#4FC3F7', // Frost blue
+  burn: '#FF6B35', // Flame orange
+  regen: '#00FF88', // Nanite green
+  shield: '#B0BEC5', // Plate silver
+} as const;
+
+// =============================================================================
+// ELITE COLORS - Promoted Enemy Squads
+// =============================================================================
+
+export const ELITE_COLORS = {
+  /** Boss crown and health bar */
+  boss: '#FFD700', // Gold
+  /** Elite ring when an affix has no color of its own */
+  elite: '#9370DB', // Purple
+} as const;
+
+/**
+ * Aura colors for elite affixes, keyed by the affix's colorKey.
+ */
+export const AFFIX_COLORS: Record<string, string> = {
+  shielded: '#4FC3F7', // Ice blue - armor plating
+  enraged: '#FF3B3B', // Hot red - berserk
+  regenerating: '#00FF88', // Coral green - nanite repair
+  splitting: '#C77DFF', // Violet - unstable core
+};
+
+/**
+ * Get an affix aura color (falls back to the generic elite color).
+ */
+export function getAffixColor(colorKey: string): string {
+  return AFFIX_COLORS[colorKey] ?? ELITE_COLORS.elite;
+}
+
+// =============================================================================
+// TERRAIN COLORS - No Man's Land Features
+// =============================================================================
+
+export const TERRAIN_COLORS = {
+  /** Wall block - blocks movement and projectiles */
+  wall: '#4A5262', // Concrete steel
+  wallEdge: '#2A303A', // Shadowed rim
+  wallHighlight: '#6A7488', // Lit top edge
+  /** Rough ground - slows movement */
+  rough: 'rgba(139, 69, 19, 0.35)', // Rust rubble
+  roughHatch: 'rgba(139, 69, 19, 0.7)',
+  /** High ground - extends ranged range */
+  highGround: 'rgba(106, 120, 136, 0.3)', // Raised metal platform
+  highGroundEdge: 'rgba(245, 166, 35, 0.6)', // Amber warning edge
+} as const;
+
 // =============================================================================
 // BATTLE RESULT COLORS - Industrial Victory/Defeat
 // =============================================================================
@@ -7,11 +7,19 @@
 import type { AbilityDefinition } from '../../core/battle/abilities/types';
 
 import commonAbilities from './common.json';
+import affixAbilities from './affixes.json';
+import deathShockwave from './death_shockwave.json';
+import statusEffectAbilities from './status_effects.json';
 
 /**
  * All ability definitions loaded from JSON.
  */
-export const abilityDefinitions: AbilityDefinition[] = commonAbilities as AbilityDefinition[];
+export const abilityDefinitions: AbilityDefinition[] = [
+  ...(commonAbilities as AbilityDefinition[]),
+  ...(affixAbilities as AbilityDefinition[]),
+  deathShockwave as AbilityDefinition,
+  ...(statusEffectAbilities as AbilityDefinition[]),
+];
 
 /**
  * Ability definitions indexed by ID for quick lookup.
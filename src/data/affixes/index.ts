@@ -0,0 +1,14 @@
+/**
+ * Affix Data Loader
+ *
+ * Elite and boss affix definitions from JSON.
+ */
+
+import type { AffixDefinition } from '../../core/battle/elites/types';
+
+import affixData from './affixes.json';
+
+/**
+ * All affix definitions loaded from JSON.
+ */
+export const affixDefinitions: AffixDefinition[] = affixData as AffixDefinition[];
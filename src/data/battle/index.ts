@@ -9,15 +9,33 @@
 import { UnitRegistry } from '../../core/battle/units';
 import { AbilityRegistry } from '../../core/battle/abilities';
 import { BattleUpgradeRegistry } from '../../core/battle/upgrades';
+import { WaveRegistry, registerValidWaves } from '../../core/battle/waves';
+import { AffixRegistry } from '../../core/battle/elites';
 
 import { unitDefinitions } from '../units';
 import { abilityDefinitions } from '../abilities';
 import { battleUpgradeDefinitions } from '../battle-upgrades';
+import { metaUpgradeDefinitions } from '../meta-upgrades';
+import { waveDefinitions } from '../waves';
+import { affixDefinitions } from '../affixes';
 
 // Application-level singleton instances (created in data layer, not core)
 export const unitRegistry = new UnitRegistry();
 export const abilityRegistry = new AbilityRegistry();
 export const battleUpgradeRegistry = new BattleUpgradeRegistry();
+export const metaUpgradeRegistry = new BattleUpgradeRegistry();
+export const waveRegistry = new WaveRegistry();
+export const affixRegistry = new AffixRegistry();
+
+/**
+ * Registers the scripted waves that pass validation.
+ * Invalid scripts are logged and skipped, so their waves stay procedural.
+ */
+function loadWaves(registry: WaveRegistry, units: UnitRegistry): void {
+  for (const error of registerValidWaves(registry, waveDefinitions, units)) {
+    console.error(`Invalid wave script: ${error}`);
+  }
+}
 
 /**
  * Initializes all battle registries with data from JSON files.
@@ -27,6 +45,9 @@ export function initializeBattleData(): void {
   unitRegistry.registerAll(unitDefinitions);
   abilityRegistry.registerAll(abilityDefinitions);
   battleUpgradeRegistry.registerAll(battleUpgradeDefinitions);
+  metaUpgradeRegistry.registerAll(metaUpgradeDefinitions);
+  loadWaves(waveRegistry, unitRegistry);
+  affixRegistry.registerAll(affixDefinitions);
 }
 
 /**
@@ -37,19 +58,31 @@ export function createBattleRegistries(): {
   units: UnitRegistry;
   abilities: AbilityRegistry;
   upgrades: BattleUpgradeRegistry;
+  metaUpgrades: BattleUpgradeRegistry;
+  waves: WaveRegistry;
+  affixes: AffixRegistry;
 } {
   const units = new UnitRegistry();
   const abilities = new AbilityRegistry();
   const upgrades = new BattleUpgradeRegistry();
+  const metaUpgrades = new BattleUpgradeRegistry();
+  const waves = new WaveRegistry();
+  const affixes = new AffixRegistry();
 
   units.registerAll(unitDefinitions);
   abilities.registerAll(abilityDefinitions);
   upgrades.registerAll(battleUpgradeDefinitions);
+  metaUpgrades.registerAll(metaUpgradeDefinitions);
+  loadWaves(waves, units);
+  affixes.registerAll(affixDefinitions);
 
-  return { units, abilities, upgrades };
+  return { units, abilities, upgrades, metaUpgrades, waves, affixes };
 }
 
 // Re-export definitions for direct access
 export { unitDefinitions } from '../units';
 export { abilityDefinitions } from '../abilities';
 export { battleUpgradeDefinitions } from '../battle-upgrades';
+export { metaUpgradeDefinitions } from '../meta-upgrades';
+export { waveDefinitions } from '../waves';
+export { affixDefinitions } from '../affixes';
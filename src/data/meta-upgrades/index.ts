@@ -0,0 +1,17 @@
+/**
+ * Meta Upgrade Data Loader
+ *
+ * Aggregates all prestige meta upgrade definitions from JSON files.
+ * Same format as battle upgrades, but bought with Soul Shards and kept through prestige.
+ */
+
+import type { BattleUpgradeDefinition } from '../../core/battle/upgrades/types';
+
+import globalMetaUpgrades from './global.json';
+
+/**
+ * All meta upgrade definitions loaded from JSON.
+ */
+export const metaUpgradeDefinitions: BattleUpgradeDefinition[] = [
+  ...(globalMetaUpgrades as BattleUpgradeDefinition[]),
+];
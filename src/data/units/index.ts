@@ -12,6 +12,10 @@ import crawlerData from './crawler.json';
 import arclightData from './arclight.json';
 import marksmanData from './marksman.json';
 import voidEyeData from './void_eye.json';
+import repairDroneData from './repair_drone.json';
+import waspData from './wasp.json';
+import phoenixData from './phoenix.json';
+import fortressData from './fortress.json';
 import castleData from './castle.json';
 
 /**
@@ -25,6 +29,10 @@ export const unitDefinitions: UnitDefinition[] = [
   arclightData as UnitDefinition,
   marksmanData as UnitDefinition,
   voidEyeData as UnitDefinition,
+  repairDroneData as UnitDefinition,
+  waspData as UnitDefinition,
+  phoenixData as UnitDefinition,
+  fortressData as UnitDefinition,
   castleData as UnitDefinition,
 ];
 
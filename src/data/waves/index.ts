@@ -0,0 +1,15 @@
+/**
+ * Wave Data Loader
+ *
+ * Scripted wave definitions from JSON. Waves not listed here are
+ * generated procedurally.
+ */
+
+import type { WaveDefinition } from '../../core/battle/waves/types';
+
+import waveData from './waves.json';
+
+/**
+ * All scripted wave definitions loaded from JSON.
+ */
+export const waveDefinitions: WaveDefinition[] = waveData as WaveDefinition[];
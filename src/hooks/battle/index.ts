@@ -17,6 +17,11 @@ export {
   type UseBattleDeploymentOptions,
   type UseBattleDeploymentReturn,
 } from './useBattleDeployment';
+export {
+  useBattleOrders,
+  type UseBattleOrdersOptions,
+  type UseBattleOrdersReturn,
+} from './useBattleOrders';
 export {
   useBattleOutcome,
   type UseBattleOutcomeOptions,
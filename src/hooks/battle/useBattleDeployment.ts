@@ -3,12 +3,15 @@
  *
  * Manages wave spawning and unit movement during deployment phase.
  * Single responsibility: spawning units and moving them before battle starts.
+ * Each wave is seeded and handed to the replay recorder, along with every move.
  */
 
 import { useCallback, useRef } from 'react';
 import {
   BattleEngine,
   BattleStats,
+  ReplayRecorder,
+  generateBattleSeed,
   spawnWaveUnits,
   resolveAllOverlaps,
   resolvePlayerOverlaps,
@@ -24,6 +27,8 @@ export interface UseBattleDeploymentOptions {
   syncState: () => void;
   /** Callback to sync stats after operations */
   syncStats: () => void;
+  /** Replay recorder for the current battle (optional) */
+  recorder?: ReplayRecorder;
 }
 
 export interface UseBattleDeploymentReturn {
@@ -43,6 +48,7 @@ export function useBattleDeployment({
   statsRef,
   syncState,
   syncStats,
+  recorder,
 }: UseBattleDeploymentOptions): UseBattleDeploymentReturn {
   // Store arena dimensions for overlap resolution during moveUnits
   const arenaDimensionsRef = useRef<{ width: number; height: number }>({ width: 0, height: 0 });
@@ -59,29 +65,39 @@ export function useBattleDeployment({
         statsRef.current.attach(engine.getWorld());
       }
 
+      // Seed before spawning so on_spawn abilities replay identically
+      // (start() restarts the sequence, so deployment draws don't leak into the battle)
+      engine.setSeed(generateBattleSeed());
+
       // Spawn all units for the wave
       spawnWaveUnits(engine, { waveNumber, arenaWidth, arenaHeight });
 
       // Resolve any overlapping squads after spawning
       resolveAllOverlaps(engine, arenaWidth, arenaHeight);
 
+      // Deployment starts from here - record it
+      recorder?.begin(engine);
+
       // Store arena dimensions for later use in moveUnits
       arenaDimensionsRef.current = { width: arenaWidth, height: arenaHeight };
 
       syncState();
       syncStats();
     },
-    [engineRef, statsRef, syncState, syncStats]
+    [engineRef, statsRef, syncState, syncStats, recorder]
   );
 
   const moveUnit = useCallback(
     (unitId: string, position: Vector2) => {
       if (engineRef.current) {
         engineRef.current.moveUnit(unitId, position);
+        if (recorder && !engineRef.current.getState().hasStarted) {
+          recorder.recordMoves([{ unitId, position }], false);
+        }
         syncState();
       }
     },
-    [engineRef, syncState]
+    [engineRef, syncState, recorder]
   );
 
   const moveUnits = useCallback(
@@ -97,13 +113,17 @@ export function useBattleDeployment({
       // During deployment phase, resolve any overlaps caused by the move
       const currentState = engine.getState();
       const { width: arenaW, height: arenaH } = arenaDimensionsRef.current;
-      if (!currentState.hasStarted && arenaW > 0 && arenaH > 0) {
+      const resolveOverlaps = !currentState.hasStarted && arenaW > 0 && arenaH > 0;
+      if (resolveOverlaps) {
         resolvePlayerOverlaps(engine, arenaW, arenaH);
       }
+      if (!currentState.hasStarted) {
+        recorder?.recordMoves(moves, resolveOverlaps);
+      }
 
       syncState();
     },
-    [engineRef, syncState]
+    [engineRef, syncState, recorder]
   );
 
   return {
@@ -7,13 +7,20 @@
 
 import { useCallback, useEffect, useRef, useState } from 'react';
 import {
+  AbilityRegistry,
+  AffixRegistry,
   BattleEngine,
   BattleStats,
   BattleState,
   BattleStatistics,
   UnitRegistry,
+  WaveRegistry,
+  registerValidWaves,
 } from '../../core/battle';
+import { abilityDefinitions } from '../../data/abilities';
 import { unitDefinitions } from '../../data/units';
+import { waveDefinitions } from '../../data/waves';
+import { affixDefinitions } from '../../data/affixes';
 
 /** Empty stats constant for initial/reset state */
 export const EMPTY_STATS: BattleStatistics = {
@@ -22,20 +29,28 @@ export const EMPTY_STATS: BattleStatistics = {
     deaths: 0,
     damageDealt: 0,
     damageTaken: 0,
+    armorAbsorbed: 0,
+    damageResisted: 0,
+    healingDone: 0,
     unitsSpawned: 0,
     attacksPerformed: 0,
     meleeAttacks: 0,
     rangedAttacks: 0,
+    deathsByType: {},
   },
   enemy: {
     kills: 0,
     deaths: 0,
     damageDealt: 0,
     damageTaken: 0,
+    armorAbsorbed: 0,
+    damageResisted: 0,
+    healingDone: 0,
     unitsSpawned: 0,
     attacksPerformed: 0,
     meleeAttacks: 0,
     rangedAttacks: 0,
+    deathsByType: {},
   },
   battleDuration: 0,
   totalKills: 0,
@@ -45,7 +60,10 @@ export const EMPTY_STATS: BattleStatistics = {
 const INITIAL_STATE: BattleState = {
   units: [],
   projectiles: [],
+  beams: [],
   castles: [],
+  terrain: [],
+  flowField: null,
   shockwaves: [],
   damageNumbers: [],
   isRunning: false,
@@ -67,6 +85,34 @@ function createUnitRegistry(): UnitRegistry {
   return registry;
 }
 
+/**
+ * Create and initialize the ability registry from JSON data.
+ */
+function createAbilityRegistry(): AbilityRegistry {
+  const registry = new AbilityRegistry();
+  registry.registerAll(abilityDefinitions);
+  return registry;
+}
+
+/**
+ * Create the wave registry from JSON data, skipping invalid wave scripts.
+ * Rejected scripts are reported once by the data loader at startup.
+ */
+function createWaveRegistry(unitRegistry: UnitRegistry): WaveRegistry {
+  const registry = new WaveRegistry();
+  registerValidWaves(registry, waveDefinitions, unitRegistry);
+  return registry;
+}
+
+/**
+ * Create and initialize the elite affix registry from JSON data.
+ */
+function createAffixRegistry(): AffixRegistry {
+  const registry = new AffixRegistry();
+  registry.registerAll(affixDefinitions);
+  return registry;
+}
+
 export interface UseBattleEngineReturn {
   /** Current battle state */
   state: BattleState;
@@ -99,7 +145,11 @@ export function useBattleEngine(onCleanup?: () => void): UseBattleEngineReturn {
   // Initialize engine on mount
   useEffect(() => {
     const registry = createUnitRegistry();
-    engineRef.current = new BattleEngine(registry);
+    engineRef.current = new BattleEngine(registry, {
+      abilityRegistry: createAbilityRegistry(),
+      waveRegistry: createWaveRegistry(registry),
+      affixRegistry: createAffixRegistry(),
+    });
     statsRef.current = new BattleStats();
 
     return () => {
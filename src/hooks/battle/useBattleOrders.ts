@@ -0,0 +1,47 @@
+/**
+ * Battle Orders Hook
+ *
+ * Issues tactical orders to squads during battle.
+ * Single responsibility: passing orders to the engine and the replay recorder.
+ */
+
+import { useCallback } from 'react';
+import { BattleEngine, ReplayRecorder, SquadOrder } from '../../core/battle';
+
+export interface UseBattleOrdersOptions {
+  /** Reference to the battle engine */
+  engineRef: React.RefObject<BattleEngine | null>;
+  /** Callback to sync state after operations */
+  syncState: () => void;
+  /** Replay recorder for the current battle (optional) */
+  recorder?: ReplayRecorder;
+}
+
+export interface UseBattleOrdersReturn {
+  /** Give units an order (null returns them to auto-battle) */
+  issueOrder: (unitIds: string[], order: SquadOrder | null) => void;
+}
+
+/**
+ * Issues tactical orders during battle.
+ */
+export function useBattleOrders({
+  engineRef,
+  syncState,
+  recorder,
+}: UseBattleOrdersOptions): UseBattleOrdersReturn {
+  const issueOrder = useCallback(
+    (unitIds: string[], order: SquadOrder | null) => {
+      if (!engineRef.current) return;
+
+      const ordered = engineRef.current.issueOrder(unitIds, order);
+      if (ordered.length > 0) {
+        recorder?.recordOrder(ordered, order);
+        syncState();
+      }
+    },
+    [engineRef, syncState, recorder]
+  );
+
+  return { issueOrder };
+}
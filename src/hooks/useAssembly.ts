@@ -7,25 +7,33 @@
  * SRP: Only responsible for assembly state and persistence.
  */
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { BattleUpgradeRegistry } from '../core/battle/upgrades/BattleUpgradeRegistry';
 import { BattleUpgradeStates } from '../core/battle/upgrades/types';
+import { IUnitRegistry } from '../core/battle/units';
+import type { TargetPriority } from '../core/battle/units/types';
 import type { IPersistenceAdapter } from '../core/persistence/IPersistenceAdapter';
+import { loadMigratedSave } from '../core/persistence/SaveMigrations';
 import {
+  ASSEMBLY_SAVE_KEY,
+  ArmyRoster,
   AssemblyState,
   createInitialState,
   purchaseUpgrade,
+  purchaseSquad as purchaseRosterSquad,
+  levelUpSquad as levelUpRosterSquad,
+  setTargetPriority as setRosterTargetPriority,
+  resetForPrestige,
   selectUnitType,
   addVest,
   updateHighestWave,
+  recordUnitKills,
+  getUnlockedUnitIds,
   serializeState,
   deserializeState,
   isValidSerializedState,
 } from '../core/assembly';
 
-/** Save key for assembly state */
-const ASSEMBLY_SAVE_KEY = 'action_idle_assembly';
-
 /** Debounce delay for auto-save (ms) */
 const SAVE_DEBOUNCE_MS = 1000;
 
@@ -34,6 +42,8 @@ export interface UseAssemblyOptions {
   persistenceAdapter: IPersistenceAdapter;
   /** Battle upgrade registry (must be initialized) */
   upgradeRegistry: BattleUpgradeRegistry;
+  /** Unit registry for roster supply, costs and unlocks (must be initialized) */
+  unitRegistry: IUnitRegistry;
 }
 
 export interface UseAssemblyReturn {
@@ -47,16 +57,30 @@ export interface UseAssemblyReturn {
   upgradeStates: BattleUpgradeStates;
   /** Current VEST amount */
   vest: number;
+  /** Squads the player deploys */
+  roster: ArmyRoster;
   /** Highest wave reached */
   highestWave: number;
+  /** Unit types the player has unlocked */
+  unlockedUnits: ReadonlySet<string>;
   /** Select a unit type for viewing upgrades */
   selectUnit: (unitType: string | null) => void;
   /** Purchase an upgrade (returns true if successful) */
   purchase: (upgradeId: string) => boolean;
+  /** Buy one more squad of a unit type (returns true if successful) */
+  purchaseSquad: (unitType: string) => boolean;
+  /** Level up the squads of a unit type (returns true if successful) */
+  levelUpSquad: (unitType: string) => boolean;
+  /** Override the targeting priority of a unit type's squads (null restores the default) */
+  setTargetPriority: (unitType: string, priority: TargetPriority | null) => void;
   /** Add VEST from battle rewards */
   earnVest: (amount: number) => void;
   /** Update highest wave reached */
   setHighestWave: (wave: number) => void;
+  /** Add enemy units destroyed in battle (per unit type) to the kill tally */
+  recordKills: (kills: Record<string, number>) => void;
+  /** Reset VEST, upgrades and highest wave for a new prestige run */
+  resetProgress: () => Promise<void>;
   /** Force save (typically called before navigation) */
   save: () => Promise<void>;
 }
@@ -65,7 +89,7 @@ export interface UseAssemblyReturn {
  * Hook for managing assembly state with persistence.
  */
 export function useAssembly(options: UseAssemblyOptions): UseAssemblyReturn {
-  const { persistenceAdapter, upgradeRegistry } = options;
+  const { persistenceAdapter, upgradeRegistry, unitRegistry } = options;
 
   const [state, setState] = useState<AssemblyState>(() => createInitialState(upgradeRegistry));
   const [loaded, setLoaded] = useState(false);
@@ -81,7 +105,8 @@ export function useAssembly(options: UseAssemblyOptions): UseAssemblyReturn {
   useEffect(() => {
     async function loadState() {
       try {
-        const data = await persistenceAdapter.load(ASSEMBLY_SAVE_KEY);
+        // Older saves are migrated first (the original is kept as a backup)
+        const data = await loadMigratedSave(persistenceAdapter, ASSEMBLY_SAVE_KEY);
         if (data) {
           const parsed = JSON.parse(data);
           if (isValidSerializedState(parsed)) {
@@ -154,6 +179,36 @@ export function useAssembly(options: UseAssemblyOptions): UseAssemblyReturn {
     [upgradeRegistry]
   );
 
+  // Purchase squad
+  const purchaseSquad = useCallback(
+    (unitType: string): boolean => {
+      let purchased = false;
+      setState((prev) => {
+        const newState = purchaseRosterSquad(prev, unitRegistry, upgradeRegistry, unitType);
+        purchased = newState !== prev;
+        return newState;
+      });
+      return purchased;
+    },
+    [unitRegistry, upgradeRegistry]
+  );
+
+  // Level up squads
+  const levelUpSquad = useCallback((unitType: string): boolean => {
+    let levelled = false;
+    setState((prev) => {
+      const newState = levelUpRosterSquad(prev, unitType);
+      levelled = newState !== prev;
+      return newState;
+    });
+    return levelled;
+  }, []);
+
+  // Override squad targeting priority
+  const setTargetPriority = useCallback((unitType: string, priority: TargetPriority | null) => {
+    setState((prev) => setRosterTargetPriority(prev, unitType, priority));
+  }, []);
+
   // Earn VEST from battle
   const earnVest = useCallback((amount: number) => {
     setState((prev) => addVest(prev, amount));
@@ -164,17 +219,49 @@ export function useAssembly(options: UseAssemblyOptions): UseAssemblyReturn {
     setState((prev) => updateHighestWave(prev, wave));
   }, []);
 
+  // Record kills from battle
+  const recordKills = useCallback((kills: Record<string, number>) => {
+    setState((prev) => recordUnitKills(prev, kills));
+  }, []);
+
+  // Reset for prestige - saved immediately so a reload cannot undo it
+  const resetProgress = useCallback(async () => {
+    const newState = resetForPrestige(stateRef.current, upgradeRegistry);
+    stateRef.current = newState;
+    setState(newState);
+    await save();
+  }, [upgradeRegistry, save]);
+
+  // Unlocks only change with wave, upgrade and kill progress
+  const { lifetimeHighestWave, upgradeStates, unitsKilled } = state;
+  const unlockedUnits = useMemo(
+    () =>
+      getUnlockedUnitIds(unitRegistry, upgradeRegistry, {
+        lifetimeHighestWave,
+        upgradeStates,
+        unitsKilled,
+      }),
+    [unitRegistry, upgradeRegistry, lifetimeHighestWave, upgradeStates, unitsKilled]
+  );
+
   return {
     state,
     loaded,
     selectedUnitType: state.selectedUnitType,
     upgradeStates: state.upgradeStates,
     vest: state.vest,
+    roster: state.roster,
     highestWave: state.highestWave,
+    unlockedUnits,
     selectUnit,
     purchase,
+    purchaseSquad,
+    levelUpSquad,
+    setTargetPriority,
     earnVest,
     setHighestWave,
+    recordKills,
+    resetProgress,
     save,
   };
 }
@@ -2,7 +2,7 @@
  * Battle Hook
  *
  * Main orchestration hook for the battle system.
- * Composes focused sub-hooks for engine, selection, controls, deployment, and outcome.
+ * Composes focused sub-hooks for engine, selection, controls, deployment, orders, and outcome.
  *
  * SRP: Orchestrates battle components, delegates to focused hooks.
  */
@@ -10,7 +10,19 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
 import type { IPersistenceAdapter } from '../core/persistence/IPersistenceAdapter';
 import { LocalStorageAdapter } from '../adapters/LocalStorageAdapter';
-import { BattleState, BattleStatistics, BattleOutcomeResult } from '../core/battle';
+import {
+  BattleState,
+  BattleStatistics,
+  BattleOutcomeResult,
+  BattleReplay,
+  AlliedSquad,
+  AppliedUpgrades,
+  ReplayRecorder,
+  SavedAllyLayout,
+  SquadOrder,
+  loadAllyLayout,
+  saveAllyLayout,
+} from '../core/battle';
 import { Vector2 } from '../core/physics/Vector2';
 import { useBattleSettings, BattleSpeed } from './useBattleSettings';
 import { useBattleLoop } from './useBattleLoop';
@@ -20,6 +32,7 @@ import {
   useBattleSelection,
   useBattleControls,
   useBattleDeployment,
+  useBattleOrders,
   useBattleOutcome,
 } from './battle';
 
@@ -35,8 +48,12 @@ function getDefaultAdapter(): IPersistenceAdapter {
 export type { BattleSpeed };
 
 export interface UseBattleOptions {
-  /** Persistence adapter for battle settings. Defaults to LocalStorageAdapter. */
+  /** Persistence adapter for battle settings and ally layout. Defaults to LocalStorageAdapter. */
   persistenceAdapter?: IPersistenceAdapter;
+  /** Squads the player deploys (omit for the default army) */
+  allyArmy?: AlliedSquad[] | null;
+  /** Purchased upgrades applied to the player's squads (omit for none) */
+  playerUpgrades?: AppliedUpgrades[];
 }
 
 /** Callback invoked after battle resets in auto-battle flow */
@@ -56,6 +73,8 @@ export interface UseBattleReturn {
   spawnWave: (arenaWidth: number, arenaHeight: number) => void;
   moveUnit: (unitId: string, position: Vector2) => void;
   moveUnits: (moves: Array<{ unitId: string; position: Vector2 }>) => void;
+  /** Give units a tactical order during battle (null returns them to auto-battle) */
+  issueOrder: (unitIds: string[], order: SquadOrder | null) => void;
   selectUnit: (unitId: string | null) => void;
   selectUnits: (unitIds: string[]) => void;
   setBattleSpeed: (speed: BattleSpeed) => void;
@@ -66,22 +85,41 @@ export interface UseBattleReturn {
   handleBattleOutcome: () => BattleOutcomeResult | null;
   getWaveGoldReward: () => number;
   handleOutcomeAndContinue: (onReset?: OnBattleResetCallback) => void;
+  /** Replay of the current battle so far (null before the first wave spawns) */
+  getReplay: () => BattleReplay | null;
 }
 
 export function useBattle(options: UseBattleOptions = {}): UseBattleReturn {
-  const { persistenceAdapter = getDefaultAdapter() } = options;
+  const { persistenceAdapter = getDefaultAdapter(), allyArmy = null, playerUpgrades } = options;
 
   // Use settings hook for persistence
   const {
     battleSpeed,
     autoBattle,
-    settingsLoaded,
+    settingsLoaded: battleSettingsLoaded,
     setBattleSpeed,
     setAutoBattle,
     saveSettingsWithState,
     getLoadedSettings,
   } = useBattleSettings(persistenceAdapter);
 
+  // Saved ally layout - loaded alongside settings so the first wave deploys with it
+  const [layoutLoaded, setLayoutLoaded] = useState(false);
+  const loadedLayoutRef = useRef<SavedAllyLayout | null>(null);
+  useEffect(() => {
+    loadAllyLayout(persistenceAdapter)
+      .then((layout) => {
+        loadedLayoutRef.current = layout;
+        setLayoutLoaded(true);
+      })
+      .catch((err) => {
+        // Log error but proceed with the default formation
+        console.error('Failed to load ally layout:', err);
+        setLayoutLoaded(true);
+      });
+  }, [persistenceAdapter]);
+  const settingsLoaded = battleSettingsLoaded && layoutLoaded;
+
   // Stay mode - repeats same wave without progressing
   const [stayMode, setStayMode] = useState(false);
   const stayModeRef = useRef(stayMode);
@@ -118,6 +156,9 @@ export function useBattle(options: UseBattleOptions = {}): UseBattleReturn {
     cancelAutoStartRef.current = cancelAutoStart;
   }, [cancelAutoStart]);
 
+  // Replay recording - one recorder for the hook's lifetime, restarted on every spawn
+  const [recorder] = useState(() => new ReplayRecorder());
+
   // Selection state
   const selection = useBattleSelection();
 
@@ -134,6 +175,14 @@ export function useBattle(options: UseBattleOptions = {}): UseBattleReturn {
     statsRef,
     syncState,
     syncStats,
+    recorder,
+  });
+
+  // Tactical orders during battle
+  const orders = useBattleOrders({
+    engineRef,
+    syncState,
+    recorder,
   });
 
   // Outcome handling
@@ -154,18 +203,48 @@ export function useBattle(options: UseBattleOptions = {}): UseBattleReturn {
       engineRef.current.setWave(settings.waveNumber);
       engineRef.current.setHighestWave(settings.highestWave);
       engineRef.current.setGold(settings.gold);
+      setStayMode(settings.stayOnWave);
       syncState();
     }
+    if (loadedLayoutRef.current) {
+      engineRef.current.setSavedAllyLayout(loadedLayoutRef.current);
+    }
   }, [settingsLoaded, getLoadedSettings, engineRef, syncState]);
 
+  // Deploy the player's roster from the next wave spawn on
+  useEffect(() => {
+    engineRef.current?.setAllyArmy(allyArmy);
+  }, [allyArmy, settingsLoaded, engineRef]);
+
+  // Apply purchased upgrades from the next wave spawn on
+  useEffect(() => {
+    engineRef.current?.setPlayerUpgrades(playerUpgrades ?? []);
+  }, [playerUpgrades, settingsLoaded, engineRef]);
+
+  // Save the ally layout captured when a battle starts
+  useEffect(() => {
+    const layout = engineState.hasStarted ? engineRef.current?.getSavedAllyLayout() : null;
+    if (layout) {
+      saveAllyLayout(persistenceAdapter, layout).catch((err) => {
+        console.error('Failed to save ally layout:', err);
+      });
+    }
+  }, [engineState.hasStarted, engineRef, persistenceAdapter]);
+
   // Save settings when relevant values change
   useEffect(() => {
     if (settingsLoaded && engineRef.current) {
-      saveSettingsWithState(engineState.waveNumber, engineState.highestWave, engineState.gold);
+      saveSettingsWithState(
+        engineState.waveNumber,
+        engineState.highestWave,
+        engineState.gold,
+        stayMode
+      );
     }
   }, [
     autoBattle,
     battleSpeed,
+    stayMode,
     engineRef,
     engineState.waveNumber,
     engineState.highestWave,
@@ -178,6 +257,10 @@ export function useBattle(options: UseBattleOptions = {}): UseBattleReturn {
   const handleTick = useCallback(
     (scaledDelta: number) => {
       if (engineRef.current) {
+        // Only record ticks that advance the simulation (frames can arrive after a stop)
+        if (engineRef.current.isBattleRunning()) {
+          recorder.recordTick(scaledDelta);
+        }
         engineRef.current.tick(scaledDelta);
         syncState();
 
@@ -187,15 +270,16 @@ export function useBattle(options: UseBattleOptions = {}): UseBattleReturn {
         }
       }
     },
-    [engineRef, statsRef, syncState, syncStats]
+    [engineRef, statsRef, syncState, syncStats, recorder]
   );
 
   // Sync battle speed to engine
   useEffect(() => {
     if (engineRef.current) {
       engineRef.current.setBattleSpeed(battleSpeed);
+      recorder.recordSpeed(battleSpeed);
     }
-  }, [battleSpeed, engineRef]);
+  }, [battleSpeed, engineRef, recorder]);
 
   // Game loop
   useBattleLoop({
@@ -213,6 +297,11 @@ export function useBattle(options: UseBattleOptions = {}): UseBattleReturn {
     }
   }, [autoBattle, setAutoBattle, engineRef, syncState]);
 
+  const getReplay = useCallback(
+    () => (engineRef.current ? recorder.getReplay(engineRef.current) : null),
+    [engineRef, recorder]
+  );
+
   // Stay mode toggle - repeat same wave without progressing
   const toggleStayMode = useCallback(() => {
     setStayMode((prev) => !prev);
@@ -232,6 +321,7 @@ export function useBattle(options: UseBattleOptions = {}): UseBattleReturn {
     spawnWave: deployment.spawnWave,
     moveUnit: deployment.moveUnit,
     moveUnits: deployment.moveUnits,
+    issueOrder: orders.issueOrder,
     selectUnit: selection.selectUnit,
     selectUnits: selection.selectUnits,
     setBattleSpeed,
@@ -242,5 +332,6 @@ export function useBattle(options: UseBattleOptions = {}): UseBattleReturn {
     handleBattleOutcome: outcome.handleBattleOutcome,
     getWaveGoldReward: outcome.getWaveGoldReward,
     handleOutcomeAndContinue: outcome.handleOutcomeAndContinue,
+    getReplay,
   };
 }
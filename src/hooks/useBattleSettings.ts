@@ -1,7 +1,7 @@
 /**
  * Battle Settings Hook
  *
- * Manages battle settings persistence (autoBattle, battleSpeed, wave, gold).
+ * Manages battle settings persistence (autoBattle, battleSpeed, wave, gold, stay mode).
  * Handles loading from and saving to persistence adapter.
  *
  * SRP: Only responsible for settings state and persistence.
@@ -10,6 +10,7 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import {
   BattleSettingsData,
+  DEFAULT_BATTLE_SETTINGS,
   loadBattleSettings,
   saveBattleSettings,
 } from '../core/battle/BattleSettings';
@@ -26,8 +27,13 @@ export interface BattleSettingsState {
 export interface UseBattleSettingsReturn extends BattleSettingsState {
   setBattleSpeed: (speed: BattleSpeed) => void;
   setAutoBattle: (enabled: boolean) => void;
-  /** Save current settings with engine state (waveNumber, highestWave, gold) */
-  saveSettingsWithState: (waveNumber: number, highestWave: number, gold: number) => void;
+  /** Save current settings with engine state (waveNumber, highestWave, gold) and stay mode */
+  saveSettingsWithState: (
+    waveNumber: number,
+    highestWave: number,
+    gold: number,
+    stayOnWave: boolean
+  ) => void;
   /** Get initial settings once loaded (for engine initialization) */
   getLoadedSettings: () => BattleSettingsData | null;
 }
@@ -69,16 +75,18 @@ export function useBattleSettings(adapter: IPersistenceAdapter): UseBattleSettin
   }, []);
 
   const saveSettingsWithState = useCallback(
-    (waveNumber: number, highestWave: number, gold: number) => {
+    (waveNumber: number, highestWave: number, gold: number, stayOnWave: boolean) => {
       if (!settingsLoaded) return;
 
       const settings: BattleSettingsData = {
-        version: 1,
+        version: DEFAULT_BATTLE_SETTINGS.version,
         autoBattle,
         battleSpeed,
         waveNumber,
         highestWave,
         gold,
+        stayOnWave,
+        lastSavedAt: Date.now(),
       };
       saveBattleSettings(adapter, settings).catch((err) => {
         console.error('Failed to save settings:', err);
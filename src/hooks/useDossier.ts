@@ -1,7 +1,7 @@
 /**
  * Dossier Hook
  *
- * Manages dossier persistence (fastest wave clear times).
+ * Manages dossier persistence (fastest wave clear times and their replays).
  * Follows same pattern as useBattleSettings.
  *
  * SRP: Only responsible for dossier state and persistence.
@@ -17,7 +17,11 @@ import {
   updateFastestTime,
   getFastestTime,
   calculateTotalVestPerSecond,
+  saveWaveReplay,
+  loadWaveReplay,
+  findReplayWaves,
 } from '../core/dossier';
+import type { BattleReplay } from '../core/battle';
 
 export interface UseDossierOptions {
   persistenceAdapter: IPersistenceAdapter;
@@ -39,6 +43,12 @@ export interface UseDossierReturn {
   totalVestPerSecond: number;
   /** Save dossier to persistence */
   save: () => Promise<void>;
+  /** Waves that have a saved replay, ascending */
+  replayWaves: number[];
+  /** Save a replay as the replay for its wave */
+  saveReplay: (replay: BattleReplay) => void;
+  /** Load the saved replay for a wave (null if none) */
+  loadReplay: (wave: number) => Promise<BattleReplay | null>;
 }
 
 export function useDossier({ persistenceAdapter }: UseDossierOptions): UseDossierReturn {
@@ -47,12 +57,18 @@ export function useDossier({ persistenceAdapter }: UseDossierOptions): UseDossie
     fastestTimes: {},
   });
   const [loaded, setLoaded] = useState(false);
+  const [replayWaves, setReplayWaves] = useState<number[]>([]);
 
   // Load dossier on mount
   useEffect(() => {
     loadDossier(persistenceAdapter)
-      .then((data) => {
+      .then(async (data) => {
         setDossierData(data);
+        // Only record clears save replays, so only recorded waves can have one
+        const recordedWaves = Object.keys(data.fastestTimes)
+          .map(Number)
+          .sort((a, b) => a - b);
+        setReplayWaves(await findReplayWaves(persistenceAdapter, recordedWaves));
         setLoaded(true);
       })
       .catch((err) => {
@@ -91,6 +107,28 @@ export function useDossier({ persistenceAdapter }: UseDossierOptions): UseDossie
     await saveDossier(persistenceAdapter, dossierData);
   }, [persistenceAdapter, dossierData]);
 
+  const saveReplay = useCallback(
+    (replay: BattleReplay) => {
+      saveWaveReplay(persistenceAdapter, replay)
+        .then(() => {
+          setReplayWaves((prev) =>
+            prev.includes(replay.waveNumber)
+              ? prev
+              : [...prev, replay.waveNumber].sort((a, b) => a - b)
+          );
+        })
+        .catch((err) => {
+          console.error('Failed to save replay:', err);
+        });
+    },
+    [persistenceAdapter]
+  );
+
+  const loadReplay = useCallback(
+    (wave: number) => loadWaveReplay(persistenceAdapter, wave),
+    [persistenceAdapter]
+  );
+
   return {
     dossierData,
     loaded,
@@ -98,5 +136,8 @@ export function useDossier({ persistenceAdapter }: UseDossierOptions): UseDossie
     isNewRecord,
     totalVestPerSecond,
     save,
+    replayWaves,
+    saveReplay,
+    loadReplay,
   };
 }
@@ -0,0 +1,139 @@
+/**
+ * Offline Progress Hook
+ *
+ * On load, works out what auto-battle earned while the player was away.
+ * While the game is open, keeps the last-saved timestamp fresh so time away
+ * is measured from when the player actually left.
+ *
+ * SRP: Only responsible for offline detection, collection and the timestamp heartbeat.
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import type { IPersistenceAdapter } from '../core/persistence/IPersistenceAdapter';
+import {
+  AUTOSAVE_INTERVAL_MS,
+  OfflineArmyStrength,
+  OfflineProgressResult,
+  applyOfflineProgress,
+  calculateOfflineProgress,
+  estimateOfflineArmy,
+  loadAllyLayout,
+  loadBattleSettings,
+  simulateOfflineArmy,
+  touchBattleSettings,
+  updateBattleSettings,
+} from '../core/battle';
+import { getFastestTime, loadDossier } from '../core/dossier';
+import { createBattleRegistries } from '../data/battle';
+
+export interface UseOfflineProgressOptions {
+  persistenceAdapter: IPersistenceAdapter;
+  /**
+   * Seeds for headless battles of the current wave to measure army strength.
+   * Omit to estimate from dossier records instead (no simulation cost on load).
+   */
+  simulationSeeds?: readonly number[];
+}
+
+export interface UseOfflineProgressReturn {
+  /** What was earned while away (null if nothing, or once collected) */
+  report: OfflineProgressResult | null;
+  /** Whether the offline check has finished */
+  checked: boolean;
+  /**
+   * Award the report's gold to the saved battle settings and dismiss it.
+   * Call only while no battle is mounted - useBattle keeps gold in memory and
+   * would overwrite it; the next battle reads the collected gold on load.
+   */
+  collect: () => Promise<void>;
+}
+
+export function useOfflineProgress({
+  persistenceAdapter,
+  simulationSeeds,
+}: UseOfflineProgressOptions): UseOfflineProgressReturn {
+  const [report, setReport] = useState<OfflineProgressResult | null>(null);
+  const [checked, setChecked] = useState(false);
+
+  // Check time away on mount
+  useEffect(() => {
+    const check = async () => {
+      const settings = await loadBattleSettings(persistenceAdapter);
+      const now = Date.now();
+
+      let army: OfflineArmyStrength;
+      if (simulationSeeds && simulationSeeds.length > 0) {
+        const registries = createBattleRegistries();
+        army = simulateOfflineArmy(
+          {
+            unitRegistry: registries.units,
+            abilityRegistry: registries.abilities,
+            waveRegistry: registries.waves,
+            affixRegistry: registries.affixes,
+            waveNumber: settings.waveNumber,
+            allyLayout: await loadAllyLayout(persistenceAdapter),
+          },
+          simulationSeeds
+        );
+      } else {
+        const dossier = await loadDossier(persistenceAdapter);
+        army = estimateOfflineArmy(
+          settings.waveNumber,
+          settings.highestWave,
+          getFastestTime(dossier, settings.waveNumber)
+        );
+      }
+
+      setReport(
+        calculateOfflineProgress({
+          lastSavedAt: settings.lastSavedAt,
+          now,
+          waveNumber: settings.waveNumber,
+          autoBattle: settings.autoBattle,
+          stayOnWave: settings.stayOnWave,
+          army,
+        })
+      );
+    };
+
+    check()
+      .catch((err) => {
+        // Log error but never block the game on offline rewards
+        console.error('Failed to check offline progress:', err);
+      })
+      .finally(() => setChecked(true));
+  }, [persistenceAdapter, simulationSeeds]);
+
+  // Heartbeat - only once any report is collected, so an uncollected one survives a reload
+  useEffect(() => {
+    if (!checked || report) return;
+
+    const touch = () => {
+      touchBattleSettings(persistenceAdapter, Date.now()).catch((err) => {
+        console.error('Failed to save timestamp:', err);
+      });
+    };
+
+    touch();
+    const interval = setInterval(touch, AUTOSAVE_INTERVAL_MS);
+    window.addEventListener('pagehide', touch);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('pagehide', touch);
+    };
+  }, [checked, report, persistenceAdapter]);
+
+  const collect = useCallback(async () => {
+    if (!report) return;
+    await updateBattleSettings(persistenceAdapter, (settings) =>
+      applyOfflineProgress(settings, report, Date.now())
+    );
+    setReport(null);
+  }, [persistenceAdapter, report]);
+
+  return {
+    report,
+    checked,
+    collect,
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Prestige Hook
+ *
+ * Manages prestige state with persistence.
+ * Handles Soul Shards, meta upgrade purchases and the prestige reset
+ * of battle progress.
+ *
+ * SRP: Only responsible for prestige state and persistence.
+ * The assembly reset is done by the caller through useAssembly.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { BattleUpgradeRegistry } from '../core/battle/upgrades/BattleUpgradeRegistry';
+import { BattleUpgradeStates } from '../core/battle/upgrades/types';
+import { updateBattleSettings } from '../core/battle/BattleSettings';
+import type { IPersistenceAdapter } from '../core/persistence/IPersistenceAdapter';
+import { loadMigratedSave } from '../core/persistence/SaveMigrations';
+import {
+  PRESTIGE_SAVE_KEY,
+  PrestigeState,
+  applyPrestige,
+  createInitialPrestigeState,
+  deserializePrestigeState,
+  isValidSerializedPrestigeState,
+  purchaseMetaUpgrade,
+  resetBattleSettingsForPrestige,
+  serializePrestigeState,
+} from '../core/prestige';
+
+/** Debounce delay for auto-save (ms) */
+const SAVE_DEBOUNCE_MS = 1000;
+
+export interface UsePrestigeOptions {
+  /** Persistence adapter for saving state */
+  persistenceAdapter: IPersistenceAdapter;
+  /** Meta upgrade registry (must be initialized) */
+  metaUpgradeRegistry: BattleUpgradeRegistry;
+}
+
+export interface UsePrestigeReturn {
+  /** Current prestige state */
+  state: PrestigeState;
+  /** Whether state has been loaded from persistence */
+  loaded: boolean;
+  /** Unspent Soul Shards */
+  shards: number;
+  /** Number of prestiges performed */
+  prestigeCount: number;
+  /** Current meta upgrade states (convenience accessor) */
+  metaUpgradeStates: BattleUpgradeStates;
+  /** Purchase a meta upgrade (returns true if successful) */
+  purchase: (upgradeId: string) => boolean;
+  /**
+   * Award shards for the highest wave and reset battle progress.
+   * Resolves false if no shards would be awarded.
+   */
+  prestige: (highestWave: number) => Promise<boolean>;
+  /** Force save */
+  save: () => Promise<void>;
+}
+
+/**
+ * Hook for managing prestige state with persistence.
+ */
+export function usePrestige(options: UsePrestigeOptions): UsePrestigeReturn {
+  const { persistenceAdapter, metaUpgradeRegistry } = options;
+
+  const [state, setState] = useState<PrestigeState>(() =>
+    createInitialPrestigeState(metaUpgradeRegistry)
+  );
+  const [loaded, setLoaded] = useState(false);
+  const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const stateRef = useRef(state);
+
+  // Keep ref in sync for save operations
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  // Load state on mount
+  useEffect(() => {
+    async function loadState() {
+      try {
+        const data = await loadMigratedSave(persistenceAdapter, PRESTIGE_SAVE_KEY);
+        if (data) {
+          const parsed = JSON.parse(data);
+          if (isValidSerializedPrestigeState(parsed)) {
+            setState(deserializePrestigeState(parsed, metaUpgradeRegistry));
+          }
+        }
+      } catch (err) {
+        console.error('Failed to load prestige state:', err);
+      } finally {
+        setLoaded(true);
+      }
+    }
+    loadState();
+  }, [persistenceAdapter, metaUpgradeRegistry]);
+
+  // Debounced auto-save when state changes
+  useEffect(() => {
+    if (!loaded) return;
+
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+
+    saveTimeoutRef.current = setTimeout(() => {
+      const serialized = serializePrestigeState(stateRef.current);
+      persistenceAdapter.save(PRESTIGE_SAVE_KEY, JSON.stringify(serialized)).catch((err) => {
+        console.error('Failed to save prestige state:', err);
+      });
+      saveTimeoutRef.current = null;
+    }, SAVE_DEBOUNCE_MS);
+
+    return () => {
+      if (saveTimeoutRef.current) {
+        clearTimeout(saveTimeoutRef.current);
+      }
+    };
+  }, [state, loaded, persistenceAdapter]);
+
+  // Manual save function
+  const save = useCallback(async () => {
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+      saveTimeoutRef.current = null;
+    }
+
+    const serialized = serializePrestigeState(stateRef.current);
+    await persistenceAdapter.save(PRESTIGE_SAVE_KEY, JSON.stringify(serialized));
+  }, [persistenceAdapter]);
+
+  // Purchase meta upgrade
+  const purchase = useCallback(
+    (upgradeId: string): boolean => {
+      let purchased = false;
+      setState((prev) => {
+        const newState = purchaseMetaUpgrade(prev, metaUpgradeRegistry, upgradeId);
+        purchased = newState !== prev;
+        return newState;
+      });
+      return purchased;
+    },
+    [metaUpgradeRegistry]
+  );
+
+  // Prestige - shards are saved before battle progress is reset, so a
+  // failure part-way never costs the player the reward
+  const prestige = useCallback(
+    async (highestWave: number): Promise<boolean> => {
+      const newState = applyPrestige(stateRef.current, highestWave);
+      if (newState === stateRef.current) return false;
+
+      stateRef.current = newState;
+      setState(newState);
+      await save();
+
+      await updateBattleSettings(persistenceAdapter, resetBattleSettingsForPrestige);
+      return true;
+    },
+    [persistenceAdapter, save]
+  );
+
+  return {
+    state,
+    loaded,
+    shards: state.shards,
+    prestigeCount: state.prestigeCount,
+    metaUpgradeStates: state.metaUpgradeStates,
+    purchase,
+    prestige,
+    save,
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * Replay Playback Hook
+ *
+ * Plays a recorded battle through a ReplayPlayer and exposes its state
+ * for read-only rendering, plus pause/step/speed/seek controls.
+ *
+ * SRP: Only responsible for driving playback and syncing React state.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BattleReplay, BattleState, ReplayPlayer } from '../core/battle';
+import { createBattleRegistries } from '../data/battle';
+import { useBattleLoop } from './useBattleLoop';
+
+export interface UseReplayPlaybackReturn {
+  /** Current battle state (null until the replay is loaded, or if it failed to load) */
+  state: BattleState | null;
+  /** Why the replay could not be loaded, if it failed */
+  error: string | null;
+  /** Recorded ticks simulated so far */
+  tick: number;
+  /** Total recorded ticks */
+  tickCount: number;
+  isPaused: boolean;
+  /** Playback speed multiplier */
+  speed: number;
+  play: () => void;
+  pause: () => void;
+  /** Advance one recorded tick (pauses playback) */
+  step: () => void;
+  /** Jump to a recorded tick */
+  seek: (tick: number) => void;
+  setSpeed: (speed: number) => void;
+}
+
+/**
+ * Drives playback of a replay.
+ *
+ * @param replay - The replay to play; a new replay restarts playback
+ */
+export function useReplayPlayback(replay: BattleReplay): UseReplayPlaybackReturn {
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  const [state, setState] = useState<BattleState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [tick, setTick] = useState(0);
+  const [isPaused, setIsPaused] = useState(true);
+  const [speed, setSpeedState] = useState(1);
+
+  // Sync React state from the player
+  const sync = useCallback(() => {
+    const player = playerRef.current;
+    if (!player) return;
+    setState({ ...player.getEngine().getState() });
+    setTick(player.getTick());
+    setIsPaused(player.isPaused());
+    setSpeedState(player.getSpeed());
+  }, []);
+
+  // Build the player whenever the replay changes
+  useEffect(() => {
+    try {
+      const registries = createBattleRegistries();
+      playerRef.current = new ReplayPlayer(replay, {
+        unitRegistry: registries.units,
+        abilityRegistry: registries.abilities,
+      });
+      setError(null);
+      sync();
+    } catch (err) {
+      playerRef.current = null;
+      setState(null);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+
+    return () => {
+      playerRef.current = null;
+    };
+  }, [replay, sync]);
+
+  const handleTick = useCallback(
+    (delta: number) => {
+      if (playerRef.current) {
+        playerRef.current.advance(delta);
+        sync();
+      }
+    },
+    [sync]
+  );
+
+  useBattleLoop({ isRunning: !isPaused, onTick: handleTick });
+
+  const play = useCallback(() => {
+    playerRef.current?.play();
+    sync();
+  }, [sync]);
+
+  const pause = useCallback(() => {
+    playerRef.current?.pause();
+    sync();
+  }, [sync]);
+
+  const step = useCallback(() => {
+    playerRef.current?.pause();
+    playerRef.current?.step();
+    sync();
+  }, [sync]);
+
+  const seek = useCallback(
+    (target: number) => {
+      playerRef.current?.seek(target);
+      sync();
+    },
+    [sync]
+  );
+
+  const setSpeed = useCallback(
+    (value: number) => {
+      playerRef.current?.setSpeed(value);
+      sync();
+    },
+    [sync]
+  );
+
+  return {
+    state,
+    error,
+    tick,
+    tickCount: replay.ticks.length,
+    isPaused,
+    speed,
+    play,
+    pause,
+    step,
+    seek,
+    setSpeed,
+  };
+}
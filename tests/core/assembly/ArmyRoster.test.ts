@@ -0,0 +1,172 @@
+/**
+ * Army Roster Tests
+ *
+ * Tests for roster pricing, supply and purchases.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ROSTER_LEVEL_BASE_COST,
+  ROSTER_MAX_SQUAD_LEVEL,
+  ROSTER_SQUAD_BASE_COST,
+  ROSTER_SQUAD_COST_SCALING,
+  ROSTER_SUPPLY_CAP,
+} from '../../../src/core/battle/BattleConfig';
+import { getDefaultAlliedComposition } from '../../../src/core/battle/FormationManager';
+import {
+  createDefaultRoster,
+  createInitialState,
+  createRosterFromComposition,
+  getRosterArmy,
+  getRosterSupply,
+  getSquadPurchaseCost,
+  isValidRoster,
+  levelUpSquad,
+  purchaseSquad,
+  setTargetPriority,
+} from '../../../src/core/assembly';
+import { saveMigrations } from '../../../src/core/persistence/SaveMigrations';
+import { createBattleRegistries } from '../../../src/data/battle';
+
+const registries = createBattleRegistries();
+const allUnits = new Set(registries.units.getAll().map((def) => def.id));
+
+function createState(vest: number) {
+  return { ...createInitialState(registries.upgrades), vest };
+}
+
+function buy(state: ReturnType<typeof createState>, unitType: string) {
+  return purchaseSquad(state, registries.units, registries.upgrades, unitType);
+}
+
+describe('ArmyRoster', () => {
+  it('starts with two level 1 squads of each starter unit', () => {
+    const army = getRosterArmy(createDefaultRoster(), registries.units);
+
+    expect(army.map((squad) => squad.type).sort()).toEqual([
+      'arclight',
+      'arclight',
+      'crawler',
+      'crawler',
+      'fang',
+      'fang',
+      'hound',
+      'hound',
+    ]);
+    expect(army.every((squad) => squad.level === 1)).toBe(true);
+    expect(getRosterSupply(createDefaultRoster(), registries.units)).toBe(8);
+  });
+
+  it('buys a squad and raises the next price', () => {
+    const state = buy(createState(1000), 'hound');
+    const firstCost = Math.floor(ROSTER_SQUAD_BASE_COST * ROSTER_SQUAD_COST_SCALING ** 2);
+
+    expect(state.roster.hound.squads).toBe(3);
+    expect(state.vest).toBe(1000 - firstCost);
+    expect(
+      getSquadPurchaseCost(state.roster, registries.units, 'hound', state.vest, allUnits).cost
+    ).toBe(Math.floor(ROSTER_SQUAD_BASE_COST * ROSTER_SQUAD_COST_SCALING ** 3));
+  });
+
+  it('stops at the supply cap', () => {
+    let state = createState(1_000_000);
+    for (let i = 0; i < ROSTER_SUPPLY_CAP; i++) {
+      state = buy(state, 'fang');
+    }
+
+    expect(getRosterSupply(state.roster, registries.units)).toBe(ROSTER_SUPPLY_CAP);
+    expect(
+      getSquadPurchaseCost(state.roster, registries.units, 'fang', state.vest, allUnits).reason
+    ).toBe('supply_cap');
+  });
+
+  it('does not deploy castles', () => {
+    const state = createState(1_000_000);
+
+    expect(buy(state, 'castle')).toBe(state);
+  });
+
+  it('only buys unlocked units', () => {
+    const state = createState(1_000_000);
+
+    expect(buy(state, 'marksman')).toBe(state);
+    expect(buy({ ...state, lifetimeHighestWave: 10 }, 'marksman').roster.marksman.squads).toBe(1);
+  });
+
+  it('levels up every squad of a type', () => {
+    const state = levelUpSquad(createState(ROSTER_LEVEL_BASE_COST), 'crawler');
+    const crawlers = getRosterArmy(state.roster, registries.units).filter(
+      (squad) => squad.type === 'crawler'
+    );
+
+    expect(state.vest).toBe(0);
+    expect(crawlers).toEqual([
+      { type: 'crawler', level: 2 },
+      { type: 'crawler', level: 2 },
+    ]);
+  });
+
+  it('stops levelling at the max level', () => {
+    let state = createState(0);
+    state = {
+      ...state,
+      vest: 1_000_000,
+      roster: { ...state.roster, hound: { squads: 2, level: ROSTER_MAX_SQUAD_LEVEL } },
+    };
+
+    expect(levelUpSquad(state, 'hound')).toBe(state);
+  });
+
+  it('deploys squads with their targeting override', () => {
+    const priority = { rule: 'category', category: 'artillery' } as const;
+    const state = setTargetPriority(createState(0), 'fang', priority);
+    const fangs = getRosterArmy(state.roster, registries.units).filter(
+      (squad) => squad.type === 'fang'
+    );
+
+    expect(fangs).toEqual([
+      { type: 'fang', level: 1, targetPriority: priority },
+      { type: 'fang', level: 1, targetPriority: priority },
+    ]);
+    expect(setTargetPriority(state, 'fang', null).roster.fang).toEqual({ squads: 2, level: 1 });
+    expect(setTargetPriority(state, 'marksman', priority)).toBe(state);
+  });
+
+  it('validates saved targeting overrides', () => {
+    const roster = createDefaultRoster();
+
+    expect(
+      isValidRoster({
+        ...roster,
+        fang: { squads: 2, level: 1, targetPriority: { rule: 'castle' } },
+      })
+    ).toBe(true);
+    expect(
+      isValidRoster({
+        ...roster,
+        fang: { squads: 2, level: 1, targetPriority: { rule: 'category' } },
+      })
+    ).toBe(false);
+    expect(
+      isValidRoster({
+        ...roster,
+        fang: { squads: 2, level: 1, targetPriority: { rule: 'random' } },
+      })
+    ).toBe(false);
+  });
+
+  it('gives v1 assembly saves the army they were fielding', () => {
+    const { data } = saveMigrations.migrate('action_idle_assembly', {
+      vest: 10,
+      upgradeStates: {},
+      highestWave: 4,
+      version: 1,
+    });
+
+    expect(data).toMatchObject({
+      version: 4,
+      roster: createRosterFromComposition(getDefaultAlliedComposition()),
+      unitsKilled: {},
+    });
+  });
+});
@@ -12,12 +12,16 @@ import {
   addVest,
   subtractVest,
   updateHighestWave,
+  recordUnitKills,
   selectUnitType,
   purchaseUpgrade,
+  resetForPrestige,
   serializeState,
   deserializeState,
   isValidSerializedState,
+  getUnlockedUnitIds,
 } from '../../../src/core/assembly';
+import { createBattleRegistries } from '../../../src/data/battle';
 
 describe('AssemblyManager', () => {
   let registry: BattleUpgradeRegistry;
@@ -139,6 +143,7 @@ describe('AssemblyManager', () => {
       const state = createInitialState(registry);
       const newState = updateHighestWave(state, 5);
       expect(newState.highestWave).toBe(5);
+      expect(newState.lifetimeHighestWave).toBe(5);
     });
 
     it('should not update when new wave is lower or equal', () => {
@@ -220,7 +225,7 @@ describe('AssemblyManager', () => {
 
       expect(serialized.vest).toBe(500);
       expect(serialized.highestWave).toBe(10);
-      expect(serialized.version).toBe(1);
+      expect(serialized.version).toBe(4);
       expect((serialized as Record<string, unknown>).selectedUnitType).toBeUndefined();
     });
 
@@ -238,6 +243,7 @@ describe('AssemblyManager', () => {
 
       expect(state.vest).toBe(500);
       expect(state.highestWave).toBe(10);
+      expect(state.lifetimeHighestWave).toBe(10);
       expect(state.selectedUnitType).toBeNull(); // Default
       expect(state.upgradeStates['test_upgrade_1'].level).toBe(3);
       // New upgrade added to registry should have initial state
@@ -249,8 +255,10 @@ describe('AssemblyManager', () => {
         isValidSerializedState({
           vest: 100,
           upgradeStates: {},
+          roster: {},
           highestWave: 5,
-          version: 1,
+          unitsKilled: {},
+          version: 3,
         })
       ).toBe(true);
 
@@ -259,4 +267,48 @@ describe('AssemblyManager', () => {
       expect(isValidSerializedState({ vest: 'not a number' })).toBe(false);
     });
   });
+
+  describe('resetForPrestige', () => {
+    it('should reset vest, upgrades and wave but keep unit unlocks', () => {
+      registry.register({
+        id: 'test_unlock',
+        name: 'Test Unlock',
+        description: 'Test unit unlock',
+        scope: 'global',
+        upgradeType: 'unlock_unit',
+        unlockUnitId: 'fang',
+        baseCost: 10,
+        costMultiplier: 1,
+        maxLevel: 1,
+        prerequisites: [],
+      });
+      let state = { ...createInitialState(registry), vest: 1000, highestWave: 150 };
+      state = purchaseUpgrade(state, registry, 'test_upgrade_1');
+      state = purchaseUpgrade(state, registry, 'test_unlock');
+      state = selectUnitType(state, 'hound');
+      state = recordUnitKills(state, { void_eye: 12 });
+
+      const reset = resetForPrestige(state, registry);
+
+      expect(reset.vest).toBe(0);
+      expect(reset.highestWave).toBe(1);
+      expect(reset.upgradeStates['test_upgrade_1'].level).toBe(0);
+      expect(reset.upgradeStates['test_unlock'].level).toBe(1);
+      expect(reset.selectedUnitType).toBe('hound');
+      expect(reset.unitsKilled).toEqual({ void_eye: 12 });
+    });
+
+    it('keeps units unlocked by wave', () => {
+      const registries = createBattleRegistries();
+      const state = updateHighestWave(createInitialState(registries.upgrades), 10);
+
+      const reset = resetForPrestige(state, registries.upgrades);
+
+      expect(reset.highestWave).toBe(1);
+      expect(reset.lifetimeHighestWave).toBe(10);
+      expect(getUnlockedUnitIds(registries.units, registries.upgrades, reset)).toContain(
+        'marksman'
+      );
+    });
+  });
 });
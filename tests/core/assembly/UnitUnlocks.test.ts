@@ -0,0 +1,108 @@
+/**
+ * Unit Unlocks Tests
+ *
+ * Tests for unlock requirements, unlock_unit upgrades and the kill tally.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  UnlockProgress,
+  addUnitKills,
+  createInitialState,
+  getUnlockedUnitIds,
+  isUnlockRequirementMet,
+  recordUnitKills,
+} from '../../../src/core/assembly';
+import { createBattleRegistries } from '../../../src/data/battle';
+
+const registries = createBattleRegistries();
+
+function createProgress(overrides: Partial<UnlockProgress> = {}): UnlockProgress {
+  return {
+    lifetimeHighestWave: 1,
+    upgradeStates: registries.upgrades.createInitialStates(),
+    unitsKilled: {},
+    ...overrides,
+  };
+}
+
+describe('isUnlockRequirementMet', () => {
+  it('checks the highest wave reached', () => {
+    const requirement = { type: 'wave' as const, targetId: '10' };
+
+    expect(isUnlockRequirementMet(requirement, createProgress({ lifetimeHighestWave: 9 }))).toBe(
+      false
+    );
+    expect(isUnlockRequirementMet(requirement, createProgress({ lifetimeHighestWave: 10 }))).toBe(
+      true
+    );
+  });
+
+  it('checks enemy kills of a unit type', () => {
+    const requirement = { type: 'unit_killed' as const, targetId: 'hound', count: 3 };
+
+    expect(isUnlockRequirementMet(requirement, createProgress({ unitsKilled: { hound: 2 } }))).toBe(
+      false
+    );
+    expect(isUnlockRequirementMet(requirement, createProgress({ unitsKilled: { hound: 3 } }))).toBe(
+      true
+    );
+  });
+
+  it('checks purchased upgrades', () => {
+    const requirement = { type: 'upgrade' as const, targetId: 'global_health_1' };
+    const upgradeStates = registries.upgrades.createInitialStates();
+
+    expect(isUnlockRequirementMet(requirement, createProgress({ upgradeStates }))).toBe(false);
+
+    upgradeStates.global_health_1 = { upgradeId: 'global_health_1', level: 1, totalSpent: 50 };
+    expect(isUnlockRequirementMet(requirement, createProgress({ upgradeStates }))).toBe(true);
+  });
+});
+
+describe('getUnlockedUnitIds', () => {
+  it('unlocks starter units only for a new player', () => {
+    const unlocked = getUnlockedUnitIds(registries.units, registries.upgrades, createProgress());
+
+    expect(unlocked.has('hound')).toBe(true);
+    expect(unlocked.has('marksman')).toBe(false);
+    expect(unlocked.has('void_eye')).toBe(false);
+  });
+
+  it('unlocks units whose requirements are met', () => {
+    const unlocked = getUnlockedUnitIds(
+      registries.units,
+      registries.upgrades,
+      createProgress({ lifetimeHighestWave: 10, unitsKilled: { void_eye: 50 } })
+    );
+
+    expect(unlocked.has('marksman')).toBe(true);
+    expect(unlocked.has('void_eye')).toBe(true);
+  });
+
+  it('unlocks units through unlock_unit upgrades', () => {
+    const upgradeStates = registries.upgrades.createInitialStates();
+    upgradeStates.unlock_void_eye = { upgradeId: 'unlock_void_eye', level: 1, totalSpent: 500 };
+
+    const unlocked = getUnlockedUnitIds(
+      registries.units,
+      registries.upgrades,
+      createProgress({ upgradeStates })
+    );
+
+    expect(unlocked.has('void_eye')).toBe(true);
+  });
+});
+
+describe('kill tally', () => {
+  it('adds battle kills to the lifetime tally', () => {
+    expect(addUnitKills({ hound: 2 }, { hound: 3, fang: 1 })).toEqual({ hound: 5, fang: 1 });
+  });
+
+  it('keeps the same state when nothing was killed', () => {
+    const state = createInitialState(registries.upgrades);
+
+    expect(recordUnitKills(state, {})).toBe(state);
+    expect(recordUnitKills(state, { hound: 4 }).unitsKilled).toEqual({ hound: 4 });
+  });
+});
@@ -1,7 +1,10 @@
 import { describe, it, expect } from 'vitest';
 import { BattleEngine } from '../../../src/core/battle/BattleEngine';
+import { BattleStats } from '../../../src/core/battle/BattleStats';
 import { UnitRegistry } from '../../../src/core/battle/units';
 import { Vector2 } from '../../../src/core/physics/Vector2';
+import { UnitTeam } from '../../../src/core/battle/types';
+import { createStatusEffect } from '../../../src/core/battle/unit-behaviors/StatusEffectSystem';
 import { unitDefinitions } from '../../../src/data/units';
 import { REFERENCE_ARENA_HEIGHT, calculateWaveGold } from '../../../src/core/battle/BattleConfig';
 
@@ -209,6 +212,49 @@ describe('BattleEngine unit spawning', () => {
     expect(playerUnits.every((u) => u.team === 'player')).toBe(true);
     expect(enemyUnits.every((u) => u.team === 'enemy')).toBe(true);
   });
+
+  it('should give squads their definition targeting priority unless overridden', () => {
+    const engine = createTestEngine();
+    engine.setArenaBounds(ARENA_WIDTH, ARENA_HEIGHT);
+    const definition = {
+      ...unitDefinitions.find((def) => def.id === 'marksman')!,
+      targetPriority: { rule: 'highest_threat' } as const,
+    };
+
+    const sniper = engine.spawnUnitFromDefinition(definition, 'player', new Vector2(100, 500));
+    const [overridden] = engine.spawnSquad(
+      'fang',
+      'player',
+      new Vector2(200, 500),
+      ARENA_HEIGHT,
+      1,
+      {},
+      undefined,
+      {
+        rule: 'castle',
+      }
+    );
+
+    expect(engine.getUnitEntity(sniper.id)!.targetPriority).toEqual({ rule: 'highest_threat' });
+    expect(engine.getUnitEntity(overridden.id)!.targetPriority).toEqual({ rule: 'castle' });
+    expect(engine.getUnitEntity(overridden.id)!.category).toBe('ranged');
+  });
+
+  it('should have marksmen pick off the backline over nearer frontline units', () => {
+    const engine = createTestEngine();
+    engine.setArenaBounds(ARENA_WIDTH, ARENA_HEIGHT);
+    const marksman = engine.getUnitEntity(
+      engine.spawnUnit('marksman', 'player', new Vector2(400, 500)).id
+    )!;
+    engine.spawnUnit('hound', 'enemy', new Vector2(400, 440));
+    const arclight = engine.spawnUnit('arclight', 'enemy', new Vector2(440, 390));
+    engine.start();
+
+    engine.tick(1 / 30);
+
+    expect(marksman.targetPriority).toEqual({ rule: 'highest_threat' });
+    expect(marksman.target?.id).toBe(arclight.id);
+  });
 });
 
 describe('BattleEngine castle spawning', () => {
@@ -376,6 +422,58 @@ describe('BattleEngine combat', () => {
   });
 });
 
+describe('BattleEngine seeded simulation', () => {
+  function runSeededBattle(seed: number) {
+    const registry = new UnitRegistry();
+    registry.registerAll(unitDefinitions);
+    const engine = new BattleEngine(registry, { seed });
+    engine.setArenaBounds(ARENA_WIDTH, ARENA_HEIGHT);
+    const stats = new BattleStats();
+    stats.attach(engine.getWorld());
+
+    engine.spawnSquad('hound', 'player', new Vector2(300, 400), ARENA_HEIGHT);
+    engine.spawnSquad('fang', 'player', new Vector2(500, 450), ARENA_HEIGHT);
+    engine.spawnSquad('hound', 'enemy', new Vector2(300, 200), ARENA_HEIGHT);
+    engine.spawnSquad('crawler', 'enemy', new Vector2(500, 150), ARENA_HEIGHT);
+    engine.spawnCastles();
+    engine.start();
+
+    for (let i = 0; i < 600 && engine.getState().isRunning; i++) {
+      engine.tick(0.05);
+      stats.updateDuration(0.05);
+    }
+
+    const positions = engine
+      .getWorld()
+      .getUnits()
+      .map((u) => `${u.id}:${u.position.x},${u.position.y}:${u.health}`);
+    return { outcome: engine.getState().outcome, stats: { ...stats.getStats() }, positions };
+  }
+
+  it('should reproduce a battle exactly with the same seed', () => {
+    const first = runSeededBattle(42);
+    const second = runSeededBattle(42);
+
+    expect(second.outcome).toBe(first.outcome);
+    expect(second.stats).toEqual(first.stats);
+    expect(second.positions).toEqual(first.positions);
+  });
+
+  it('should restart the random sequence when cleared', () => {
+    const registry = new UnitRegistry();
+    registry.registerAll(unitDefinitions);
+    const engine = new BattleEngine(registry, { seed: 7 });
+    const random = engine.getWorld().getRandom();
+
+    const firstRun = [random(), random(), random()];
+    engine.clear();
+    const secondRun = [random(), random(), random()];
+
+    expect(secondRun).toEqual(firstRun);
+    expect(engine.getSeed()).toBe(7);
+  });
+});
+
 describe('BattleEngine battle outcome', () => {
   it('should detect player victory when all enemies eliminated', () => {
     const engine = createTestEngine();
@@ -775,3 +873,155 @@ describe('BattleEngine handleBattleOutcome', () => {
     expect(result.waveChanged).toBe(false);
   });
 });
+
+describe('BattleEngine support units', () => {
+  function setup() {
+    const engine = createTestEngine();
+    engine.setArenaBounds(ARENA_WIDTH, ARENA_HEIGHT);
+    const hound = engine.getUnitEntity(
+      engine.spawnUnit('hound', 'player', new Vector2(400, 500)).id
+    )!;
+    const drone = engine.getUnitEntity(
+      engine.spawnUnit('repair_drone', 'player', new Vector2(400, 530)).id
+    )!;
+    engine.spawnUnit('hound', 'enemy', new Vector2(400, 40));
+    return { engine, hound, drone };
+  }
+
+  it('should repair wounded allies and track healing done', () => {
+    const { engine, hound, drone } = setup();
+    const stats = new BattleStats();
+    stats.attach(engine.getWorld());
+    hound.health = hound.stats.maxHealth / 2;
+    engine.start();
+
+    engine.tick(1 / 30);
+    const healNumbers = engine.getState().damageNumbers.filter((n) => n.kind === 'heal');
+    for (let i = 0; i < 35; i++) engine.tick(1 / 30);
+
+    const repaired = hound.health - hound.stats.maxHealth / 2;
+    expect(drone.repairTarget).toBe(hound);
+    expect(repaired).toBe(drone.stats.repair!.damage * 2);
+    expect(stats.getStats().player.healingDone).toBe(repaired);
+    expect(healNumbers.map((n) => n.amount)).toEqual([drone.stats.repair!.damage]);
+  });
+
+  it('should end the battle when only unarmed units are left', () => {
+    const engine = createTestEngine();
+    engine.setArenaBounds(ARENA_WIDTH, ARENA_HEIGHT);
+    engine.spawnUnit('repair_drone', 'player', new Vector2(400, 500));
+    engine.spawnUnit('repair_drone', 'enemy', new Vector2(400, 40));
+    engine.start();
+
+    engine.tick(1 / 30);
+
+    expect(engine.getState().isRunning).toBe(false);
+    expect(engine.getState().outcome).toBe('draw');
+  });
+
+  it('should never target enemies without a weapon', () => {
+    const { engine, drone } = setup();
+    engine.spawnUnit('hound', 'enemy', new Vector2(400, 520));
+    engine.start();
+
+    for (let i = 0; i < 30; i++) engine.tick(1 / 30);
+
+    expect(drone.target).toBeNull();
+  });
+});
+
+describe('BattleEngine air units', () => {
+  function spawn(engine: BattleEngine, unitId: string, team: UnitTeam, x: number, y: number) {
+    return engine.getUnitEntity(engine.spawnUnit(unitId, team, new Vector2(x, y)).id)!;
+  }
+
+  function setup() {
+    const engine = createTestEngine();
+    engine.setArenaBounds(ARENA_WIDTH, ARENA_HEIGHT);
+    return engine;
+  }
+
+  it('should only be targeted by units that can hit air', () => {
+    const engine = setup();
+    const hound = spawn(engine, 'hound', 'player', 400, 500);
+    const fang = spawn(engine, 'fang', 'player', 420, 500);
+    const wasp = spawn(engine, 'wasp', 'enemy', 410, 470);
+    engine.start();
+
+    for (let i = 0; i < 10; i++) engine.tick(1 / 30);
+
+    expect(wasp.movementLayer).toBe('air');
+    expect(hound.target).toBeNull();
+    expect(fang.target).toBe(wasp);
+  });
+
+  it('should not collide with ground units', () => {
+    const engine = setup();
+    const wasp = spawn(engine, 'wasp', 'player', 400, 500);
+    const groundPartner = spawn(engine, 'hound', 'player', 400.5, 500);
+    const hound = spawn(engine, 'hound', 'player', 300, 500);
+    const houndPartner = spawn(engine, 'hound', 'player', 300.5, 500);
+    engine.start();
+
+    for (let i = 0; i < 5; i++) engine.tick(1 / 30);
+
+    expect(Math.abs(groundPartner.position.x - wasp.position.x)).toBeCloseTo(0.5);
+    expect(Math.abs(houndPartner.position.x - hound.position.x)).toBeGreaterThan(0.5);
+  });
+});
+
+describe('BattleEngine giant units', () => {
+  function spawn(engine: BattleEngine, unitId: string, team: UnitTeam, x: number, y: number) {
+    return engine.getUnitEntity(engine.spawnUnit(unitId, team, new Vector2(x, y)).id)!;
+  }
+
+  function setup() {
+    const engine = createTestEngine();
+    engine.setArenaBounds(ARENA_WIDTH, ARENA_HEIGHT);
+    return engine;
+  }
+
+  it('should trample and shove touching enemies once per interval', () => {
+    const engine = setup();
+    const fortress = spawn(engine, 'fortress', 'player', 400, 500);
+    const hound = spawn(engine, 'hound', 'enemy', 400, 495);
+    const maxHealth = hound.health;
+
+    expect(fortress.trample(1 / 60, [hound])).toEqual([hound]);
+    expect(hound.health).toBe(maxHealth - fortress.giant!.trampleDamage);
+    expect(hound.position.y).toBeCloseTo(495 - fortress.giant!.trampleKnockback);
+
+    expect(fortress.trample(1 / 60, [hound])).toEqual([]);
+  });
+
+  it('should not be pushed by squads', () => {
+    const engine = setup();
+    const fortress = spawn(engine, 'fortress', 'player', 400, 500);
+    const hound = spawn(engine, 'hound', 'player', 400.5, 500);
+    for (const unit of [fortress, hound]) {
+      unit.applyStatusEffect(createStatusEffect('root', 'test', 'enemy', 5));
+    }
+    engine.start();
+
+    for (let i = 0; i < 5; i++) engine.tick(1 / 30);
+
+    expect(fortress.position.x).toBe(400);
+    expect(hound.position.x - fortress.position.x).toBeGreaterThan(0.5);
+  });
+
+  it('should take extra damage to its rear weak point', () => {
+    const engine = setup();
+    const fortress = spawn(engine, 'fortress', 'player', 400, 500);
+    const front = spawn(engine, 'hound', 'enemy', 400, 400);
+    const rear = spawn(engine, 'hound', 'enemy', 400, 600);
+
+    fortress.takeDamage(1000, front);
+    const frontLoss = fortress.stats.maxHealth - fortress.health;
+    fortress.takeDamage(1000, rear);
+    const rearLoss = fortress.stats.maxHealth - fortress.health - frontLoss;
+
+    expect(rearLoss).toBeGreaterThan(frontLoss * 1.4);
+    expect(fortress.toRenderData().isGiant).toBe(true);
+    expect(front.toRenderData().isGiant).toBeUndefined();
+  });
+});
@@ -11,6 +11,7 @@ import {
   collectSquadGridBounds,
   isSquadMoveValid,
   getSquadGridBounds,
+  clampSquadCentroidToBounds,
 } from '../../../src/core/battle/DragController';
 import type { ISelectable } from '../../../src/core/battle/ISelectable';
 import type { GridFootprint, GridBounds } from '../../../src/core/battle/grid/GridTypes';
@@ -148,6 +149,27 @@ describe('DragController', () => {
     });
   });
 
+  describe('clampSquadCentroidToBounds', () => {
+    const zone: GridBounds = { col: 0, row: 0, cols: 10, rows: 10 };
+    const giant: GridFootprint = { cols: 4, rows: 4 };
+
+    it('slides a footprint that crosses the zone edge back inside by whole cells', () => {
+      // Grid col floor(9.5 - 2 + 0.5) = 8 would reach col 11; clamped to col 6
+      const clamped = clampSquadCentroidToBounds(new Vector2(95, 50), giant, 10, zone);
+
+      expect(clamped.x).toBe(75);
+      expect(clamped.y).toBe(50);
+      expect(isSquadMoveValid(clamped, giant, 10, [], zone)).toBe(true);
+    });
+
+    it('leaves a footprint inside the zone where it is', () => {
+      const clamped = clampSquadCentroidToBounds(new Vector2(40, 40), giant, 10, zone);
+
+      expect(clamped.x).toBe(40);
+      expect(clamped.y).toBe(40);
+    });
+  });
+
   describe('validateSquadMoves', () => {
     const cellSize = 10;
     // Player deployment zone is rows 32-61 (y pixels ~320-610)
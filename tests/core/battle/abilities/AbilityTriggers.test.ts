@@ -0,0 +1,286 @@
+/**
+ * Ability Trigger Tests
+ *
+ * Tests that BattleWorld fires unit abilities during live battles
+ * and applies their effects through the StatTarget modifier pipeline.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BattleWorld } from '../../../../src/core/battle/entities/BattleWorld';
+import { UnitEntity, UnitData } from '../../../../src/core/battle/entities/UnitEntity';
+import { AbilityRegistry } from '../../../../src/core/battle/abilities/AbilityRegistry';
+import { createAbilityProcessor } from '../../../../src/core/battle/abilities/AbilityProcessor';
+import { AbilityDefinition } from '../../../../src/core/battle/abilities/types';
+import { UnitTeam } from '../../../../src/core/battle/units/types';
+import { Vector2 } from '../../../../src/core/physics/Vector2';
+
+const ABILITIES: AbilityDefinition[] = [
+  {
+    id: 'bloodlust',
+    name: 'Bloodlust',
+    description: '',
+    trigger: { type: 'on_kill' },
+    cooldown: 0,
+    chance: 1,
+    effects: [
+      {
+        type: 'apply_modifier',
+        target: 'self',
+        modifier: { id: 'bloodlust_dmg', target: 'melee.damage', type: 'percent', value: 0.5 },
+        duration: 3,
+        maxStacks: 2,
+      },
+    ],
+  },
+  {
+    id: 'thorns',
+    name: 'Thorns',
+    description: '',
+    trigger: { type: 'on_take_damage' },
+    cooldown: 1,
+    chance: 1,
+    effects: [{ type: 'damage', target: 'attacker', amount: 5 }],
+  },
+  {
+    id: 'regen',
+    name: 'Regeneration',
+    description: '',
+    trigger: { type: 'periodic', interval: 1 },
+    cooldown: 0,
+    chance: 1,
+    effects: [{ type: 'heal', target: 'self', amount: 10 }],
+  },
+  {
+    id: 'last_stand',
+    name: 'Last Stand',
+    description: '',
+    trigger: { type: 'health_below', healthThreshold: 0.5 },
+    cooldown: 0,
+    chance: 1,
+    effects: [{ type: 'heal', target: 'self', amount: 1 }],
+  },
+  {
+    id: 'rally',
+    name: 'Rally',
+    description: '',
+    trigger: { type: 'on_battle_start' },
+    cooldown: 0,
+    chance: 1,
+    effects: [
+      {
+        type: 'apply_modifier',
+        target: 'all_allies',
+        modifier: { id: 'rally_hp', target: 'maxHealth', type: 'flat', value: 20 },
+      },
+    ],
+  },
+  {
+    id: 'echo',
+    name: 'Echo',
+    description: '',
+    trigger: { type: 'on_ability_trigger' },
+    cooldown: 0,
+    chance: 1,
+    effects: [{ type: 'damage', target: 'self', amount: 1 }],
+  },
+  {
+    id: 'death_shockwave',
+    name: 'Death Shockwave',
+    description: '',
+    trigger: { type: 'on_death' },
+    cooldown: 0,
+    chance: 1,
+    effects: [{ type: 'spawn_shockwave', target: 'self', targetTeam: 'enemy' }],
+  },
+];
+
+function createTestUnitData(overrides: Partial<UnitData> = {}): UnitData {
+  return {
+    type: 'warrior',
+    team: 'player',
+    health: 100,
+    stats: {
+      maxHealth: 100,
+      moveSpeed: 50,
+      melee: { damage: 10, attackSpeed: 1, range: 35 },
+      ranged: null,
+    },
+    color: '#ff0000',
+    shape: 'circle',
+    size: 15,
+    squadId: 'squad_1',
+    target: null,
+    attackCooldown: 0,
+    shuffleDirection: null,
+    shuffleTimer: 0,
+    seekMode: false,
+    retargetCooldown: 0,
+    activeModifiers: [],
+    pendingModifiers: [],
+    visualOffset: new Vector2(0, 0),
+    hitFlashTimer: 0,
+    deathFadeTimer: -1,
+    walkAnimationTime: 0,
+    walkAnimation: 'bounce',
+    ...overrides,
+  } as UnitData;
+}
+
+function createUnit(
+  id: string,
+  team: UnitTeam,
+  abilityIds: string[] = [],
+  overrides: Partial<UnitData> = {}
+): UnitEntity {
+  return new UnitEntity(
+    id,
+    new Vector2(100, 100),
+    createTestUnitData({
+      team,
+      abilities: { abilityIds, cooldowns: {}, latched: [] },
+      ...overrides,
+    })
+  );
+}
+
+describe('Ability triggers in BattleWorld', () => {
+  let world: BattleWorld;
+
+  beforeEach(() => {
+    const registry = new AbilityRegistry();
+    registry.registerAll(ABILITIES);
+    world = new BattleWorld();
+    world.setAbilityProcessor(createAbilityProcessor(registry));
+  });
+
+  it('applies on_kill modifiers to the killer and stacks them', () => {
+    const killer = createUnit('killer', 'player', ['bloodlust']);
+    world.addUnit(killer);
+
+    for (let i = 0; i < 3; i++) {
+      const victim = createUnit(`victim_${i}`, 'enemy');
+      world.addUnit(victim);
+      victim.takeDamage(100, killer);
+    }
+
+    expect(killer.activeModifiers).toHaveLength(1);
+    expect(killer.activeModifiers[0].stacks).toBe(2); // capped by maxStacks
+    expect(killer.stats.melee?.damage).toBe(20); // 10 * (1 + 0.5 * 2)
+    expect(killer.baseStats.melee?.damage).toBe(10);
+  });
+
+  it('expires timed modifiers as the world updates', () => {
+    const killer = createUnit('killer', 'player', ['bloodlust']);
+    const victim = createUnit('victim', 'enemy');
+    world.addUnit(killer);
+    world.addUnit(victim);
+
+    victim.takeDamage(100, killer);
+    expect(killer.stats.melee?.damage).toBe(15);
+
+    world.update(3.1);
+
+    expect(killer.activeModifiers).toHaveLength(0);
+    expect(killer.stats.melee?.damage).toBe(10);
+  });
+
+  it('damages the attacker on_take_damage and respects cooldown', () => {
+    const defender = createUnit('defender', 'player', ['thorns']);
+    const attacker = createUnit('attacker', 'enemy');
+    world.addUnit(defender);
+    world.addUnit(attacker);
+
+    defender.takeDamage(10, attacker);
+    defender.takeDamage(10, attacker);
+
+    expect(attacker.health).toBe(95); // second hit is on cooldown
+  });
+
+  it('fires periodic abilities on their interval', () => {
+    const unit = createUnit('unit', 'player', ['regen'], { health: 50 });
+    world.addUnit(unit);
+
+    world.update(0.5);
+    expect(unit.health).toBe(50);
+
+    world.update(0.6);
+    expect(unit.health).toBe(60);
+  });
+
+  it('fires health threshold abilities once per crossing', () => {
+    const unit = createUnit('unit', 'player', ['last_stand']);
+    world.addUnit(unit);
+
+    unit.takeDamage(60);
+    world.update(0.01);
+    world.update(0.01);
+    expect(unit.health).toBe(41); // fired once, stays latched
+
+    unit.heal(20); // back above threshold -> re-arms
+    world.update(0.01);
+    unit.takeDamage(20);
+    world.update(0.01);
+    expect(unit.health).toBe(42);
+  });
+
+  it('fires on_battle_start for all units', () => {
+    const unit = createUnit('unit', 'player', ['rally']);
+    const ally = createUnit('ally', 'player');
+    const enemy = createUnit('enemy', 'enemy');
+    world.addUnit(unit);
+    world.addUnit(ally);
+    world.addUnit(enemy);
+
+    world.triggerBattleStart();
+
+    expect(unit.stats.maxHealth).toBe(120);
+    expect(ally.stats.maxHealth).toBe(120);
+    expect(enemy.stats.maxHealth).toBe(100);
+  });
+
+  it('chains on_ability_trigger without recursing into itself', () => {
+    const unit = createUnit('unit', 'player', ['rally', 'echo']);
+    world.addUnit(unit);
+
+    world.triggerBattleStart();
+
+    expect(unit.health).toBe(99); // echo fired once for rally, not for itself
+  });
+
+  it('spawns a shockwave from on_death abilities', () => {
+    const castle = createUnit('castle', 'player', ['death_shockwave'], {
+      stats: { maxHealth: 100, moveSpeed: 0, melee: null, ranged: null },
+    });
+    world.addUnit(castle);
+
+    castle.takeDamage(100);
+
+    expect(world.getShockwaves()).toHaveLength(1);
+    expect(world.getShockwaves()[0].sourceTeam).toBe('player');
+  });
+
+  it('does nothing without an ability processor', () => {
+    const plainWorld = new BattleWorld();
+    const killer = createUnit('killer', 'player', ['bloodlust']);
+    const victim = createUnit('victim', 'enemy');
+    plainWorld.addUnit(killer);
+    plainWorld.addUnit(victim);
+
+    victim.takeDamage(100, killer);
+
+    expect(killer.activeModifiers).toHaveLength(0);
+  });
+
+  it('still collapses castles with a shockwave without an ability processor', () => {
+    const plainWorld = new BattleWorld();
+    const castle = createUnit('castle', 'enemy', ['death_shockwave'], {
+      stats: { maxHealth: 100, moveSpeed: 0, melee: null, ranged: null },
+    });
+    plainWorld.addUnit(castle);
+
+    castle.takeDamage(100);
+
+    expect(plainWorld.getShockwaves()).toHaveLength(1);
+    expect(plainWorld.getShockwaves()[0].sourceTeam).toBe('enemy');
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, it, expect } from 'vitest';
+import { BattleEngine } from '../../../../src/core/battle/BattleEngine';
+import {
+  HEADLESS_ARENA_HEIGHT,
+  HEADLESS_ARENA_WIDTH,
+  ZONE_HEIGHT_PERCENT,
+} from '../../../../src/core/battle/BattleConfig';
+import {
+  planEnemySquads,
+  spawnWaveUnits,
+} from '../../../../src/core/battle/deployment/DeploymentService';
+import { applyLayoutToComposition } from '../../../../src/core/battle/deployment/LayoutManager';
+import type { AlliedSquad } from '../../../../src/core/battle/FormationManager';
+import {
+  calculateCellSize,
+  getFootprintPixelCenter,
+} from '../../../../src/core/battle/grid/GridManager';
+import { generateTerrain } from '../../../../src/core/battle/obstacles/TerrainGenerator';
+import { UpgradeApplicator } from '../../../../src/core/battle/upgrades/UpgradeApplicator';
+import { createBattleRegistries } from '../../../../src/data/battle';
+
+const registries = createBattleRegistries();
+
+function spawn(army: AlliedSquad[] | null, purchased: string[] = []): BattleEngine {
+  const engine = new BattleEngine(registries.units);
+  const upgradeStates = registries.upgrades.createInitialStates();
+  for (const upgradeId of purchased) {
+    upgradeStates[upgradeId] = { upgradeId, level: 1, totalSpent: 0 };
+  }
+  engine.setAllyArmy(army);
+  engine.setPlayerUpgrades([
+    { applicator: new UpgradeApplicator(registries.upgrades), upgradeStates },
+  ]);
+  spawnWaveUnits(engine, {
+    waveNumber: 1,
+    arenaWidth: HEADLESS_ARENA_WIDTH,
+    arenaHeight: HEADLESS_ARENA_HEIGHT,
+  });
+  return engine;
+}
+
+/** Player squads as "type@level", sorted */
+function playerSquads(engine: BattleEngine): string[] {
+  const squads = new Map<string, string>();
+  for (const unit of engine.getWorld().getMobilePlayerUnits()) {
+    squads.set(unit.squadId, `${unit.type}@${unit.level}`);
+  }
+  return [...squads.values()].sort();
+}
+
+describe('spawnWaveUnits', () => {
+  it('spawns the default army when no roster is set', () => {
+    expect(playerSquads(spawn(null))).toHaveLength(12);
+  });
+
+  it('spawns the roster at its levels', () => {
+    const engine = spawn([
+      { type: 'hound', level: 3 },
+      { type: 'hound', level: 3 },
+      { type: 'fang', level: 1 },
+    ]);
+
+    expect(playerSquads(engine)).toEqual(['fang@1', 'hound@3', 'hound@3']);
+  });
+
+  it('gives squads abilities granted by upgrades', () => {
+    const engine = spawn(
+      [
+        { type: 'hound', level: 1 },
+        { type: 'fang', level: 1 },
+      ],
+      ['hound_bloodlust']
+    );
+    const units = engine.getWorld().getMobilePlayerUnits();
+
+    for (const unit of units.filter((u) => u.type === 'hound')) {
+      expect(unit.abilityIds).toContain('bloodlust');
+    }
+    for (const unit of units.filter((u) => u.type === 'fang')) {
+      expect(unit.abilityIds).not.toContain('bloodlust');
+    }
+  });
+
+  it('spawns squads with their targeting priority', () => {
+    const lowestHealth = { rule: 'lowest_health' } as const;
+    const engine = spawn([
+      { type: 'fang', level: 1, targetPriority: lowestHealth },
+      { type: 'hound', level: 1 },
+    ]);
+    const priorities = new Map(
+      engine
+        .getWorld()
+        .getMobilePlayerUnits()
+        .map((unit) => [unit.type, unit.targetPriority])
+    );
+
+    expect(priorities.get('fang')).toEqual(lowestHealth);
+    expect(priorities.get('hound')).toBeUndefined();
+  });
+
+  it('applies upgrade modifiers to player squads only', () => {
+    const engine = spawn([{ type: 'hound', level: 2 }], ['global_health_1']);
+    const baseHealth = registries.units.get('hound').baseStats.maxHealth;
+
+    for (const unit of engine.getWorld().getMobilePlayerUnits()) {
+      expect(unit.stats.maxHealth).toBe(baseHealth * 2 + 10);
+    }
+    for (const unit of engine.getWorld().getEnemyUnits()) {
+      expect(unit.upgrades).toBeUndefined();
+    }
+  });
+});
+
+describe('applyLayoutToComposition', () => {
+  const cellSize = calculateCellSize(HEADLESS_ARENA_WIDTH, HEADLESS_ARENA_HEIGHT);
+  const layout = {
+    placements: [
+      { type: 'hound', col: 10, row: 40 },
+      { type: 'fang', col: 30, row: 42 },
+    ],
+  };
+
+  it('keeps saved positions and leaves new squads unplaced', () => {
+    const applied = applyLayoutToComposition(
+      layout,
+      ['fang', 'hound', 'crawler'],
+      registries.units,
+      cellSize
+    );
+
+    expect(applied.positions.map((p) => p.type)).toEqual(['fang', 'hound']);
+    expect(applied.unplaced).toEqual(['crawler']);
+  });
+
+  it('drops positions of squads that no longer exist', () => {
+    const applied = applyLayoutToComposition(layout, ['fang'], registries.units, cellSize);
+
+    expect(applied.positions).toHaveLength(1);
+    expect(applied.unplaced).toEqual([]);
+  });
+});
+
+describe('planEnemySquads', () => {
+  const bounds = {
+    width: HEADLESS_ARENA_WIDTH,
+    height: HEADLESS_ARENA_HEIGHT,
+    zoneHeightPercent: ZONE_HEIGHT_PERCENT,
+  };
+  const cellSize = calculateCellSize(HEADLESS_ARENA_WIDTH, HEADLESS_ARENA_HEIGHT);
+
+  it('is deterministic without a wave script', () => {
+    const first = planEnemySquads(12, registries.units, bounds, cellSize);
+
+    expect(first.length).toBeGreaterThan(0);
+    expect(planEnemySquads(12, registries.units, bounds, cellSize)).toEqual(first);
+  });
+
+  it('spawns scripted squads at pinned cells and fixed levels', () => {
+    const squads = planEnemySquads(12, registries.units, bounds, cellSize, {
+      id: 'test',
+      name: 'Test',
+      wave: 12,
+      pattern: 'wide_envelopment',
+      squads: [
+        { type: 'marksman', level: 4, cell: { col: 30, row: 4 } },
+        { type: 'hound', count: 3 },
+      ],
+      rules: { levelBonus: 2 },
+    });
+
+    const marksman = squads.find((squad) => squad.type === 'marksman');
+    expect(squads).toHaveLength(4);
+    expect(squads.filter((squad) => squad.type === 'hound')).toHaveLength(3);
+    expect(marksman).toEqual({
+      type: 'marksman',
+      position: getFootprintPixelCenter(
+        { col: 30, row: 4 },
+        registries.units.get('marksman').gridFootprint!,
+        cellSize
+      ),
+      level: 6,
+    });
+    expect(squads.every((squad) => squad.level >= 3)).toBe(true);
+  });
+
+  it('adds the generated army when the script asks for it', () => {
+    const generated = planEnemySquads(12, registries.units, bounds, cellSize);
+    const squads = planEnemySquads(12, registries.units, bounds, cellSize, {
+      id: 'test',
+      name: 'Test',
+      wave: 12,
+      squads: [{ type: 'void_eye' }],
+      rules: { includeGenerated: true },
+    });
+
+    expect(squads).toHaveLength(generated.length + 1);
+  });
+});
+
+describe('terrain', () => {
+  function spawnTerrainWave(waveNumber: number) {
+    const engine = new BattleEngine(registries.units, { waveRegistry: registries.waves });
+    spawnWaveUnits(engine, {
+      waveNumber,
+      arenaWidth: HEADLESS_ARENA_WIDTH,
+      arenaHeight: HEADLESS_ARENA_HEIGHT,
+    });
+    return engine.getTerrainDefinitions();
+  }
+
+  it('uses the wave script terrain when it has one', () => {
+    expect(spawnTerrainWave(25)).toEqual(registries.waves.getForWave(25)?.terrain);
+  });
+
+  it('generates terrain for other waves', () => {
+    expect(spawnTerrainWave(7)).toEqual(generateTerrain(7));
+    expect(spawnTerrainWave(1)).toEqual([]);
+  });
+});
+
+describe('elite squads', () => {
+  it('spawns a larger, tougher boss squad on boss waves', () => {
+    const engine = new BattleEngine(registries.units, { affixRegistry: registries.affixes });
+    spawnWaveUnits(engine, {
+      waveNumber: 10,
+      arenaWidth: HEADLESS_ARENA_WIDTH,
+      arenaHeight: HEADLESS_ARENA_HEIGHT,
+    });
+
+    const enemies = engine
+      .getWorld()
+      .getUnits()
+      .filter((unit) => unit.team === 'enemy');
+    const boss = enemies.filter((unit) => unit.elite?.rank === 'boss');
+    const regular = engine.spawnUnit(
+      boss[0].type,
+      'enemy',
+      boss[0].position,
+      HEADLESS_ARENA_HEIGHT
+    );
+
+    expect(new Set(boss.map((unit) => unit.squadId)).size).toBe(1);
+    expect(boss[0].elite?.affixes).toHaveLength(2);
+    expect(enemies.some((unit) => unit.elite?.rank === 'elite')).toBe(true);
+    expect(boss[0].size).toBeGreaterThan(regular.size);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BOSS_HEALTH_BONUS,
+  BOSS_WAVE_GOLD_MULTIPLIER,
+  calculateWaveGold,
+  isBossWave,
+} from '../../../../src/core/battle/BattleConfig';
+import {
+  AffixDefinition,
+  AffixRegistry,
+  BossStatusUnit,
+  computeEliteUpgrades,
+  getBossStatus,
+  rollEliteSquads,
+} from '../../../../src/core/battle/elites';
+import { createBattleRegistries } from '../../../../src/data/battle';
+
+const registries = createBattleRegistries();
+
+const AFFIXES: AffixDefinition[] = [
+  {
+    id: 'tough',
+    name: 'Tough',
+    description: '',
+    colorKey: 'tough',
+    modifiers: [{ id: 'tough_armor', target: 'armor', type: 'flat', value: 5 }],
+  },
+  { id: 'angry', name: 'Angry', description: '', colorKey: 'angry', abilities: ['bloodlust'] },
+  { id: 'late', name: 'Late', description: '', colorKey: 'late', minWave: 100 },
+];
+
+function squads(levels: number[]) {
+  return levels.map((level) => ({ type: 'hound', level }));
+}
+
+describe('rollEliteSquads', () => {
+  it('promotes nobody before elites start', () => {
+    expect(rollEliteSquads(squads([1, 1, 1]), 4, registries.units, AFFIXES)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it('promotes elites deterministically with affixes that can roll', () => {
+    const first = rollEliteSquads(squads([1, 1, 1, 1]), 7, registries.units, AFFIXES);
+    const elites = first.filter((elite) => elite !== undefined);
+
+    expect(elites).toHaveLength(1);
+    expect(elites[0]!.rank).toBe('elite');
+    expect(elites[0]!.affixes).toHaveLength(1);
+    expect(elites[0]!.affixes).not.toContain('late');
+    expect(rollEliteSquads(squads([1, 1, 1, 1]), 7, registries.units, AFFIXES)).toEqual(first);
+  });
+
+  it('makes the highest-level squad the boss on boss waves', () => {
+    const result = rollEliteSquads(squads([2, 5, 3, 5]), 10, registries.units, AFFIXES);
+
+    expect(result[1]?.rank).toBe('boss');
+    expect(result[1]?.affixes).toHaveLength(2);
+    expect(result.filter((elite) => elite?.rank === 'boss')).toHaveLength(1);
+  });
+});
+
+describe('computeEliteUpgrades', () => {
+  it('combines rank bonuses with affix modifiers and abilities', () => {
+    const affixes = new AffixRegistry();
+    affixes.registerAll(AFFIXES);
+
+    const upgrades = computeEliteUpgrades({ rank: 'boss', affixes: ['tough', 'angry'] }, affixes);
+
+    expect(upgrades.modifiers?.map((m) => m.modifier.id)).toEqual([
+      'boss_health',
+      'boss_melee_damage',
+      'boss_ranged_damage',
+      'tough_armor',
+    ]);
+    expect(upgrades.modifiers?.[0].modifier.value).toBe(BOSS_HEALTH_BONUS);
+    expect(upgrades.grantedAbilities).toEqual(['bloodlust']);
+  });
+
+  it('gives only rank bonuses without affix definitions', () => {
+    const upgrades = computeEliteUpgrades({ rank: 'elite', affixes: ['tough'] }, null);
+
+    expect(upgrades.modifiers).toHaveLength(3);
+    expect(upgrades.grantedAbilities).toEqual([]);
+  });
+});
+
+describe('getBossStatus', () => {
+  it('sums the boss squad health', () => {
+    const unit = (health: number, boss: boolean): BossStatusUnit => ({
+      type: 'hound',
+      health,
+      stats: { maxHealth: 100 },
+      elite: boss ? { rank: 'boss', affixes: ['tough'] } : undefined,
+    });
+
+    expect(getBossStatus([unit(40, true), unit(100, false), unit(-5, true)])).toEqual({
+      type: 'hound',
+      affixes: ['tough'],
+      health: 40,
+      maxHealth: 200,
+    });
+    expect(getBossStatus([unit(100, false)])).toBeNull();
+  });
+});
+
+describe('boss waves', () => {
+  it('pay more gold', () => {
+    expect(isBossWave(10)).toBe(true);
+    expect(isBossWave(11)).toBe(false);
+    expect(calculateWaveGold(10)).toBe(Math.floor(20 * BOSS_WAVE_GOLD_MULTIPLIER));
+  });
+});
+
+describe('shipped affixes', () => {
+  it('only grant registered abilities', () => {
+    for (const affix of registries.affixes.getAll()) {
+      for (const abilityId of affix.abilities ?? []) {
+        expect(registries.abilities.has(abilityId), `${affix.id}: ${abilityId}`).toBe(true);
+      }
+    }
+  });
+});
@@ -8,6 +8,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { BattleWorld } from '../../../../src/core/battle/entities/BattleWorld';
 import { UnitEntity, UnitData } from '../../../../src/core/battle/entities/UnitEntity';
+import { createBattleStats } from '../../../../src/core/battle/BattleStats';
 import { Vector2 } from '../../../../src/core/physics/Vector2';
 
 // Helper to create a UnitEntity
@@ -331,6 +332,49 @@ describe('BattleWorld', () => {
     });
   });
 
+  describe('Targeting', () => {
+    it('describes targets for priority rules', () => {
+      const enemy = createUnit(
+        'enemy_1',
+        new Vector2(100, 100),
+        createTestUnitData({ team: 'enemy', category: 'infantry' })
+      );
+      const attacker = createUnit('player_1', new Vector2(100, 150), createTestUnitData());
+      const ally = createUnit('player_2', new Vector2(120, 150), createTestUnitData());
+      world.addUnit(enemy);
+      world.addUnit(attacker);
+      world.addUnit(ally);
+      attacker.target = enemy;
+      ally.target = enemy;
+
+      // Only the ally's hit counts as incoming for the attacker
+      expect(world.getTargetTraits(enemy, attacker)).toEqual({
+        category: 'infantry',
+        isCastle: false,
+        threat: 10,
+        incomingDamage: 10,
+      });
+    });
+
+    it('finds enemies by center distance', () => {
+      const near = createUnit(
+        'enemy_1',
+        new Vector2(100, 140),
+        createTestUnitData({ team: 'enemy' })
+      );
+      const far = createUnit(
+        'enemy_2',
+        new Vector2(100, 160),
+        createTestUnitData({ team: 'enemy' })
+      );
+      world.addUnit(near);
+      world.addUnit(far);
+      world.addUnit(createUnit('player_1', new Vector2(100, 110), createTestUnitData()));
+
+      expect(world.getEnemiesNear('player', new Vector2(100, 100), 50)).toEqual([near]);
+    });
+  });
+
   describe('World Events', () => {
     describe('onWorld() / offWorld()', () => {
       it('should allow subscribing and unsubscribing to world events', () => {
@@ -465,6 +509,72 @@ describe('BattleWorld', () => {
     });
   });
 
+  describe('Damage', () => {
+    function createArmoredUnit(): UnitEntity {
+      return createUnit(
+        'unit_1',
+        new Vector2(100, 100),
+        createTestUnitData({
+          team: 'enemy',
+          stats: {
+            maxHealth: 100,
+            moveSpeed: 50,
+            armor: 4,
+            resistances: { energy: 0.5 },
+            melee: { damage: 10, attackSpeed: 1, range: 35 },
+            ranged: null,
+          },
+        })
+      );
+    }
+
+    it('should reduce hits by armor and report raw vs dealt damage', () => {
+      const unit = createArmoredUnit();
+      world.addUnit(unit);
+      const listener = vi.fn();
+      unit.on('damaged', listener);
+
+      unit.takeDamage(10);
+
+      expect(unit.health).toBe(94);
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: 6,
+          rawAmount: 10,
+          damageType: 'kinetic',
+          armorAbsorbed: 4,
+          resisted: 0,
+        })
+      );
+    });
+
+    it('should apply armor penetration and damage type resistances', () => {
+      const unit = createArmoredUnit();
+      world.addUnit(unit);
+
+      unit.takeDamage(10, undefined, { armorPenetration: 3 });
+      expect(unit.health).toBe(91);
+
+      unit.takeDamage(10, undefined, { damageType: 'energy' });
+      expect(unit.health).toBe(86);
+    });
+
+    it('should track armor absorption in battle stats', () => {
+      const stats = createBattleStats(world);
+      const unit = createArmoredUnit();
+      world.addUnit(unit);
+
+      unit.takeDamage(10);
+      unit.takeDamage(10, undefined, { damageType: 'energy' });
+
+      expect(stats.getStats().enemy).toMatchObject({
+        damageTaken: 11,
+        armorAbsorbed: 4,
+        damageResisted: 5,
+      });
+    });
+  });
+
   describe('Arena Bounds', () => {
     it('should store and retrieve arena bounds', () => {
       const bounds = { width: 800, height: 600, zoneHeightPercent: 0.25 };
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { BattleEngine } from '../../../../src/core/battle/BattleEngine';
+import { BEAM_TICK_INTERVAL } from '../../../../src/core/battle/BattleConfig';
+import { BattleWorld } from '../../../../src/core/battle/entities/BattleWorld';
+import { UnitEntity } from '../../../../src/core/battle/entities/UnitEntity';
+import { BeamProjectile } from '../../../../src/core/battle/units/types';
+import { Vector2 } from '../../../../src/core/physics/Vector2';
+import { createBattleRegistries } from '../../../../src/data/battle';
+
+const registries = createBattleRegistries();
+
+function createEngine(): BattleEngine {
+  const engine = new BattleEngine(registries.units);
+  engine.setArenaBounds(720, 620);
+  return engine;
+}
+
+function spawn(engine: BattleEngine, team: 'player' | 'enemy', x: number, y: number): UnitEntity {
+  return engine.getUnitEntity(engine.spawnUnit('hound', team, new Vector2(x, y)).id)!;
+}
+
+function fireBeam(
+  world: BattleWorld,
+  source: UnitEntity,
+  target: UnitEntity,
+  damage: number,
+  beam?: BeamProjectile,
+  range = 0
+): void {
+  world.spawnBeam(
+    source.position.clone(),
+    target,
+    damage,
+    source.team,
+    source,
+    '#fff',
+    'beam',
+    beam,
+    range
+  );
+}
+
+/**
+ * Update beams only, so units stay where they were placed.
+ * @returns Damage the target took on each tick
+ */
+function tickBeams(world: BattleWorld, target: UnitEntity, seconds: number): number[] {
+  const hits: number[] = [];
+  for (let i = 0; i < Math.round(seconds * 60); i++) {
+    const before = target.health;
+    for (const beam of world.getBeams()) beam.update(1 / 60);
+    hits.push(before - target.health);
+  }
+  return hits;
+}
+
+describe('BeamEntity', () => {
+  it('hits instantly and then fades out', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    const source = spawn(engine, 'player', 300, 400);
+    const target = spawn(engine, 'enemy', 300, 320);
+
+    fireBeam(world, source, target, 150);
+    const hits = tickBeams(world, target, 1);
+
+    expect(hits.filter((hit) => hit > 0)).toEqual([150]);
+    expect(world.getBeams()[0].isDestroyed()).toBe(true);
+  });
+
+  it('pulses a continuous beam with ramping damage', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    const source = spawn(engine, 'player', 300, 400);
+    const target = spawn(engine, 'enemy', 300, 320);
+
+    fireBeam(world, source, target, 400, { type: 'beam', duration: 1, rampRate: 1 });
+    const pulses = tickBeams(world, target, 2).filter((hit) => hit > 0);
+
+    // 1s / 0.25s = 4 pulses of 100 base damage, ramping up 1x per second on target
+    expect(pulses).toHaveLength(1 / BEAM_TICK_INTERVAL);
+    expect(pulses[0]).toBe(100);
+    pulses.slice(1).forEach((hit, i) => expect(hit).toBeGreaterThan(pulses[i]));
+    expect(pulses[3]).toBeCloseTo(175, -1);
+  });
+
+  it('caps the damage ramp', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    const source = spawn(engine, 'player', 300, 400);
+    const target = spawn(engine, 'enemy', 300, 320);
+
+    fireBeam(world, source, target, 400, { type: 'beam', duration: 1, rampRate: 10, maxRamp: 2 });
+    const pulses = tickBeams(world, target, 2).filter((hit) => hit > 0);
+
+    expect(pulses).toEqual([100, 200, 200, 200]);
+  });
+
+  it('breaks when the target leaves range', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    const source = spawn(engine, 'player', 300, 400);
+    const target = spawn(engine, 'enemy', 300, 320);
+
+    fireBeam(world, source, target, 400, { type: 'beam', duration: 1 }, 100);
+    tickBeams(world, target, 0.1);
+    target.position = new Vector2(300, 100);
+    const later = tickBeams(world, target, 1);
+
+    expect(later.every((hit) => hit === 0)).toBe(true);
+    expect(world.getBeams()[0].isFiring).toBe(false);
+  });
+
+  it('follows its firing unit', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    const source = spawn(engine, 'player', 300, 400);
+    const target = spawn(engine, 'enemy', 300, 320);
+
+    fireBeam(world, source, target, 400, { type: 'beam', duration: 1 });
+    source.position = new Vector2(320, 400);
+    tickBeams(world, target, 0.1);
+
+    expect(world.getBeams()[0].toRenderData().origin).toEqual(new Vector2(320, 400));
+  });
+
+  it('is fired by units with a beam attack', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    const voidEye = engine.spawnUnit('void_eye', 'player', new Vector2(300, 400));
+    const target = spawn(engine, 'enemy', 300, 330);
+    engine.start();
+
+    for (let i = 0; i < 10 && world.getBeams().length === 0; i++) engine.tick(1 / 60);
+
+    expect(world.getBeams()).toHaveLength(1);
+    expect(world.getBeams()[0].target).toBe(target);
+    expect(world.getProjectiles().some((p) => p.sourceUnit?.id === voidEye.id)).toBe(false);
+  });
+});
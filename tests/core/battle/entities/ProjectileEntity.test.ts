@@ -0,0 +1,192 @@
+import { describe, it, expect } from 'vitest';
+import { BattleEngine } from '../../../../src/core/battle/BattleEngine';
+import { BattleWorld } from '../../../../src/core/battle/entities/BattleWorld';
+import { UnitEntity } from '../../../../src/core/battle/entities/UnitEntity';
+import { ProjectileBehavior } from '../../../../src/core/battle/units/types';
+import { Vector2 } from '../../../../src/core/physics/Vector2';
+import { createBattleRegistries } from '../../../../src/data/battle';
+
+const registries = createBattleRegistries();
+
+const DAMAGE = 100;
+
+function createEngine(): BattleEngine {
+  const engine = new BattleEngine(registries.units);
+  engine.setArenaBounds(720, 620);
+  return engine;
+}
+
+function spawnEnemy(engine: BattleEngine, x: number, y: number): UnitEntity {
+  return engine.getUnitEntity(engine.spawnUnit('hound', 'enemy', new Vector2(x, y)).id)!;
+}
+
+function fire(
+  world: BattleWorld,
+  from: Vector2,
+  to: Vector2,
+  behavior?: ProjectileBehavior,
+  homingTarget?: UnitEntity
+): void {
+  world.spawnProjectile(
+    from,
+    to,
+    DAMAGE,
+    'player',
+    null,
+    '#fff',
+    undefined,
+    undefined,
+    undefined,
+    behavior,
+    homingTarget
+  );
+}
+
+/**
+ * Update projectiles and beams only, so units stay where they were placed.
+ */
+function tickEffects(world: BattleWorld, ticks: number): void {
+  for (let i = 0; i < ticks; i++) {
+    for (const projectile of world.getProjectiles()) projectile.update(1 / 60);
+    for (const beam of world.getBeams()) beam.update(1 / 60);
+  }
+}
+
+function getDamageTaken(unit: UnitEntity): number {
+  return unit.stats.maxHealth - unit.health;
+}
+
+describe('ProjectileEntity behaviors', () => {
+  it('lobs arcing shells over walls', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    // Wall across x 300-340, y 300-320
+    engine.spawnTerrain([
+      { type: 'wall', cell: { col: 30, row: 30 }, footprint: { cols: 4, rows: 2 } },
+    ]);
+    const target = spawnEnemy(engine, 320, 250);
+
+    fire(world, new Vector2(320, 380), target.position.clone());
+    tickEffects(world, 60);
+    expect(getDamageTaken(target)).toBe(0);
+
+    fire(world, new Vector2(320, 380), target.position.clone(), { type: 'arc' });
+    const shell = world.getProjectiles()[1];
+    tickEffects(world, 10);
+    expect(shell.height).toBeGreaterThan(0);
+    tickEffects(world, 60);
+
+    expect(shell.isDestroyed()).toBe(true);
+    expect(getDamageTaken(target)).toBe(DAMAGE);
+  });
+
+  it('peaks arcing shells mid-flight', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    fire(world, new Vector2(100, 400), new Vector2(100, 200), { type: 'arc', arcHeight: 0.5 });
+    const shell = world.getProjectiles()[0];
+
+    expect(shell.height).toBe(0);
+    shell.position = new Vector2(100, 300);
+    expect(shell.height).toBeCloseTo(100);
+  });
+
+  it('follows a homing target that moves', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    const target = spawnEnemy(engine, 300, 200);
+
+    fire(world, new Vector2(300, 400), target.position.clone(), { type: 'homing' }, target);
+    tickEffects(world, 10);
+    target.position = new Vector2(420, 260);
+    tickEffects(world, 60);
+
+    expect(getDamageTaken(target)).toBe(DAMAGE);
+  });
+
+  it('flies through units until its pierce count is spent', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    const first = spawnEnemy(engine, 300, 300);
+    const second = spawnEnemy(engine, 300, 250);
+    const third = spawnEnemy(engine, 300, 200);
+
+    fire(world, new Vector2(300, 400), first.position.clone(), { type: 'pierce', pierceCount: 1 });
+    tickEffects(world, 120);
+
+    expect(getDamageTaken(first)).toBe(DAMAGE);
+    expect(getDamageTaken(second)).toBe(DAMAGE);
+    expect(getDamageTaken(third)).toBe(0);
+    expect(world.getProjectiles()[0].isDestroyed()).toBe(true);
+  });
+
+  it('drops piercing projectiles after their travel distance', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    // Aim point 100px away, so the projectile drops after 150px
+    const beyond = spawnEnemy(engine, 300, 230);
+
+    fire(world, new Vector2(300, 400), new Vector2(300, 300), { type: 'pierce', pierceCount: 3 });
+    tickEffects(world, 120);
+
+    expect(getDamageTaken(beyond)).toBe(0);
+    expect(world.getProjectiles()[0].isDestroyed()).toBe(true);
+  });
+
+  it('chains to nearby enemies with damage falloff', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    const first = spawnEnemy(engine, 300, 300);
+    const second = spawnEnemy(engine, 320, 300);
+    const third = spawnEnemy(engine, 340, 300);
+    const outOfReach = spawnEnemy(engine, 500, 300);
+
+    fire(world, new Vector2(300, 400), first.position.clone(), {
+      type: 'chain',
+      chainCount: 3,
+      chainRange: 30,
+      chainFalloff: 0.5,
+    });
+    tickEffects(world, 60);
+
+    expect(getDamageTaken(first)).toBe(DAMAGE);
+    expect(getDamageTaken(second)).toBe(DAMAGE * 0.5);
+    expect(getDamageTaken(third)).toBe(DAMAGE * 0.25);
+    expect(getDamageTaken(outOfReach)).toBe(0);
+  });
+
+  it('shows chain arcs as beams while they fade', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    const first = spawnEnemy(engine, 300, 300);
+    spawnEnemy(engine, 320, 300);
+
+    fire(world, new Vector2(300, 310), first.position.clone(), {
+      type: 'chain',
+      chainCount: 1,
+      chainRange: 30,
+    });
+    tickEffects(world, 2);
+
+    const [arc] = engine.getState().beams;
+    expect(arc.style).toBe('chain');
+    expect(arc.origin).toEqual(first.position);
+    expect(arc.opacity).toBeGreaterThan(0);
+
+    tickEffects(world, 60);
+    world.update(0);
+    expect(world.getBeams()).toHaveLength(0);
+  });
+
+  it('reports the flight behavior in render data', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    fire(world, new Vector2(100, 400), new Vector2(100, 200), { type: 'homing' });
+    fire(world, new Vector2(100, 400), new Vector2(100, 200));
+
+    expect(engine.getState().projectiles.map((p) => p.projectileType)).toEqual([
+      'homing',
+      undefined,
+    ]);
+  });
+});
@@ -230,6 +230,25 @@ describe('ModifierCalculator', () => {
 
       expect(result[0].stacks).toBe(5); // Capped at 5
     });
+
+    it('only extends the duration of refresh modifiers', () => {
+      const modifier: Modifier = { id: 'm1', target: 'moveSpeed', type: 'multiply', value: 0.5 };
+      const existing = {
+        ...createActiveModifier(modifier, 'debuff', 'd1', 3),
+        stacking: 'refresh' as const,
+      };
+      const shorter = {
+        ...createActiveModifier(modifier, 'debuff', 'd1', 1),
+        stacking: 'refresh' as const,
+      };
+      const longer = {
+        ...createActiveModifier(modifier, 'debuff', 'd1', 5),
+        stacking: 'refresh' as const,
+      };
+
+      expect(addOrStackModifier([existing], shorter)[0]).toMatchObject({ stacks: 1, duration: 3 });
+      expect(addOrStackModifier([existing], longer)[0]).toMatchObject({ stacks: 1, duration: 5 });
+    });
   });
 
   describe('removeModifiersBySource', () => {
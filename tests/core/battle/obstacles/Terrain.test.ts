@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import { BattleEngine } from '../../../../src/core/battle/BattleEngine';
+import {
+  HIGH_GROUND_RANGE_BONUS,
+  ROUGH_GROUND_SPEED_MULTIPLIER,
+  TERRAIN_MAX_WALLS,
+  TERRAIN_MIN_GAP_COLS,
+  TERRAIN_MIN_WAVE,
+} from '../../../../src/core/battle/BattleConfig';
+import { doGridBoundsOverlap } from '../../../../src/core/battle/grid/GridManager';
+import {
+  TerrainDefinition,
+  circleCollidesWithObstacle,
+  createTerrainFeature,
+  generateTerrain,
+  getTerrainGridBounds,
+  pushCircleOutOfObstacle,
+  segmentIntersectsObstacle,
+  validateTerrain,
+} from '../../../../src/core/battle/obstacles';
+import { Vector2 } from '../../../../src/core/physics/Vector2';
+import { createBattleRegistries } from '../../../../src/data/battle';
+
+const registries = createBattleRegistries();
+
+// 720x620 arena = 10px cells
+const CELL_SIZE = 10;
+
+// Occupies x 300-340, y 300-320
+const WALL: TerrainDefinition = {
+  type: 'wall',
+  cell: { col: 30, row: 30 },
+  footprint: { cols: 4, rows: 2 },
+};
+
+function createEngine(terrain: TerrainDefinition[]): BattleEngine {
+  const engine = new BattleEngine(registries.units);
+  engine.setArenaBounds(720, 620);
+  engine.spawnTerrain(terrain);
+  return engine;
+}
+
+describe('terrain geometry', () => {
+  const wall = createTerrainFeature('wall', WALL, CELL_SIZE);
+
+  it('detects segments crossing a feature', () => {
+    expect(segmentIntersectsObstacle(new Vector2(320, 280), new Vector2(320, 340), wall, 10)).toBe(
+      true
+    );
+    expect(segmentIntersectsObstacle(new Vector2(280, 280), new Vector2(280, 340), wall, 10)).toBe(
+      false
+    );
+    expect(segmentIntersectsObstacle(new Vector2(320, 280), new Vector2(320, 295), wall, 10)).toBe(
+      false
+    );
+  });
+
+  it('pushes overlapping circles out along the shallowest side', () => {
+    expect(pushCircleOutOfObstacle(new Vector2(320, 290), 5, wall, CELL_SIZE)).toBeNull();
+
+    const pushed = pushCircleOutOfObstacle(new Vector2(320, 302), 5, wall, CELL_SIZE)!;
+    expect(pushed.x).toBe(320);
+    expect(pushed.y).toBe(295);
+    expect(circleCollidesWithObstacle(pushed, 5, wall, CELL_SIZE)).toBe(false);
+  });
+});
+
+describe('validateTerrain', () => {
+  it('accepts features inside no mans land', () => {
+    expect(validateTerrain([WALL, { ...WALL, type: 'rough', cell: { col: 40, row: 30 } }])).toEqual(
+      []
+    );
+  });
+
+  it('rejects unknown types, features outside no mans land and overlaps', () => {
+    const errors = validateTerrain([
+      { ...WALL, type: 'lava' as TerrainDefinition['type'] },
+      { ...WALL, cell: { col: 30, row: 28 } },
+      WALL,
+      { ...WALL, cell: { col: 32, row: 30 } },
+    ]);
+
+    expect(errors).toEqual([
+      'terrain 0 (lava): unknown terrain type',
+      "terrain 1 (wall): outside no man's land",
+      'terrain 3 (wall): overlaps another terrain feature',
+    ]);
+  });
+});
+
+describe('generateTerrain', () => {
+  it('leaves the first waves open', () => {
+    expect(generateTerrain(TERRAIN_MIN_WAVE - 1)).toEqual([]);
+  });
+
+  it('generates valid, spaced-out terrain deterministically', () => {
+    for (let wave = TERRAIN_MIN_WAVE; wave < TERRAIN_MIN_WAVE + 30; wave++) {
+      const terrain = generateTerrain(wave);
+
+      expect(terrain.length).toBeGreaterThan(0);
+      expect(validateTerrain(terrain)).toEqual([]);
+      expect(terrain.filter((t) => t.type === 'wall').length).toBeLessThanOrEqual(
+        TERRAIN_MAX_WALLS
+      );
+      expect(generateTerrain(wave)).toEqual(terrain);
+
+      // Gaps between features keep no mans land passable
+      const bounds = terrain.map(getTerrainGridBounds);
+      bounds.forEach((a, i) => {
+        const padded = {
+          ...a,
+          col: a.col - TERRAIN_MIN_GAP_COLS,
+          cols: a.cols + 2 * TERRAIN_MIN_GAP_COLS,
+        };
+        bounds.slice(i + 1).forEach((b) => expect(doGridBoundsOverlap(padded, b)).toBe(false));
+      });
+    }
+  });
+});
+
+describe('terrain in battle', () => {
+  it('stops projectiles at walls', () => {
+    for (const terrain of [[], [WALL]]) {
+      const engine = createEngine(terrain);
+      const castle = engine.getUnitEntity(engine.spawnCastle('enemy', new Vector2(320, 360)).id)!;
+      const world = engine.getWorld();
+
+      world.spawnProjectile(new Vector2(320, 280), castle.position, 50, 'player', null, '#fff');
+      for (let i = 0; i < 60; i++) world.update(1 / 60);
+
+      expect(world.getProjectiles()).toHaveLength(0);
+      expect(castle.health < castle.stats.maxHealth).toBe(terrain.length === 0);
+    }
+  });
+
+  it('blocks line of fire through walls', () => {
+    const world = createEngine([WALL]).getWorld();
+
+    expect(world.isLineOfFireBlocked(new Vector2(320, 280), new Vector2(320, 340))).toBe(true);
+    expect(world.isLineOfFireBlocked(new Vector2(280, 280), new Vector2(280, 340))).toBe(false);
+  });
+
+  it('keeps units out of walls', () => {
+    const engine = createEngine([WALL]);
+    const hound = engine.getUnitEntity(
+      engine.spawnUnit('hound', 'enemy', new Vector2(320, 302)).id
+    )!;
+
+    engine.getWorld().update(1 / 60);
+
+    const wall = engine.getWorld().getTerrain()[0];
+    expect(
+      circleCollidesWithObstacle(hound.position, hound.getCollisionSize(), wall, CELL_SIZE)
+    ).toBe(false);
+  });
+
+  it('slows units on rough ground and restores speed when they leave', () => {
+    const engine = createEngine([{ ...WALL, type: 'rough' }]);
+    const hound = engine.getUnitEntity(
+      engine.spawnUnit('hound', 'player', new Vector2(320, 310)).id
+    )!;
+    const baseSpeed = hound.baseStats.moveSpeed;
+
+    engine.getWorld().update(1 / 60);
+    expect(hound.terrain).toBe('rough');
+    expect(hound.stats.moveSpeed).toBeCloseTo(baseSpeed * ROUGH_GROUND_SPEED_MULTIPLIER);
+
+    hound.position = new Vector2(200, 400);
+    engine.getWorld().update(1 / 60);
+    expect(hound.terrain).toBeUndefined();
+    expect(hound.stats.moveSpeed).toBe(baseSpeed);
+  });
+
+  it('extends ranged range on high ground', () => {
+    const engine = createEngine([{ ...WALL, type: 'high_ground' }]);
+    const marksman = engine.getUnitEntity(
+      engine.spawnUnit('marksman', 'player', new Vector2(320, 310)).id
+    )!;
+
+    engine.getWorld().update(1 / 60);
+
+    expect(marksman.stats.ranged!.range).toBeCloseTo(
+      marksman.baseStats.ranged!.range * (1 + HIGH_GROUND_RANGE_BONUS)
+    );
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import {
+  OfflineProgressInput,
+  applyOfflineProgress,
+  calculateOfflineProgress,
+  estimateOfflineArmy,
+  formatTimeAway,
+  simulateOfflineArmy,
+} from '../../../../src/core/battle/offline';
+import {
+  AUTO_BATTLE_COUNTDOWN_SECONDS,
+  MAX_OFFLINE_TIME_SECONDS,
+  OFFLINE_DEFAULT_CLEAR_TIME,
+  OFFLINE_EFFICIENCY,
+  OFFLINE_UNCLEARED_WIN_RATE,
+  calculateWaveGold,
+} from '../../../../src/core/battle/BattleConfig';
+import {
+  DEFAULT_BATTLE_SETTINGS,
+  loadBattleSettings,
+  saveBattleSettings,
+  touchBattleSettings,
+} from '../../../../src/core/battle/BattleSettings';
+import type { IPersistenceAdapter } from '../../../../src/core/persistence/IPersistenceAdapter';
+import { createBattleRegistries } from '../../../../src/data/battle';
+
+const MINUTE = 60 * 1000;
+
+function createInput(overrides: Partial<OfflineProgressInput> = {}): OfflineProgressInput {
+  return {
+    lastSavedAt: 1_000_000,
+    now: 1_000_000 + 30 * MINUTE,
+    waveNumber: 10,
+    autoBattle: true,
+    stayOnWave: true,
+    // 27s + 3s countdown = one battle every 30s
+    army: { winRate: 1, clearTime: 30 - AUTO_BATTLE_COUNTDOWN_SECONDS },
+    ...overrides,
+  };
+}
+
+describe('calculateOfflineProgress', () => {
+  it('awards battles fought over the time away', () => {
+    const result = calculateOfflineProgress(createInput());
+
+    expect(result).toEqual({
+      secondsAway: 1800,
+      secondsCounted: 1800,
+      capped: false,
+      waveNumber: 10,
+      battlesFought: 60,
+      wavesCleared: 60,
+      goldEarned: Math.floor(60 * calculateWaveGold(10) * OFFLINE_EFFICIENCY),
+      vestEarned: Math.floor(60 * calculateWaveGold(10) * OFFLINE_EFFICIENCY),
+      pushPaused: false,
+    });
+  });
+
+  it('scales clears by win rate', () => {
+    const result = calculateOfflineProgress(
+      createInput({ army: { winRate: 0.25, clearTime: 30 - AUTO_BATTLE_COUNTDOWN_SECONDS } })
+    );
+
+    expect(result?.battlesFought).toBe(60);
+    expect(result?.wavesCleared).toBe(15);
+  });
+
+  it('caps time away', () => {
+    const result = calculateOfflineProgress(
+      createInput({ now: 1_000_000 + (MAX_OFFLINE_TIME_SECONDS + 600) * 1000 })
+    );
+
+    expect(result?.capped).toBe(true);
+    expect(result?.secondsCounted).toBe(MAX_OFFLINE_TIME_SECONDS);
+    expect(result?.battlesFought).toBe(MAX_OFFLINE_TIME_SECONDS / 30);
+  });
+
+  it('returns null on first launch, short absences, or with auto-battle off', () => {
+    expect(calculateOfflineProgress(createInput({ lastSavedAt: 0 }))).toBeNull();
+    expect(calculateOfflineProgress(createInput({ now: 1_000_000 + 30 * 1000 }))).toBeNull();
+    expect(calculateOfflineProgress(createInput({ autoBattle: false }))).toBeNull();
+  });
+
+  it('farms the current wave when the player was pushing', () => {
+    const result = calculateOfflineProgress(createInput({ stayOnWave: false }));
+
+    expect(result?.pushPaused).toBe(true);
+    expect(result?.waveNumber).toBe(10);
+  });
+});
+
+describe('estimateOfflineArmy', () => {
+  it('uses the recorded clear time for cleared waves', () => {
+    expect(estimateOfflineArmy(5, 5, 42)).toEqual({ winRate: 1, clearTime: 42 });
+  });
+
+  it('treats waves below the highest as cleared', () => {
+    expect(estimateOfflineArmy(3, 5, null)).toEqual({
+      winRate: 1,
+      clearTime: OFFLINE_DEFAULT_CLEAR_TIME,
+    });
+  });
+
+  it('is pessimistic about an uncleared wave', () => {
+    expect(estimateOfflineArmy(5, 5, null).winRate).toBe(OFFLINE_UNCLEARED_WIN_RATE);
+  });
+});
+
+describe('simulateOfflineArmy', () => {
+  it('measures win rate and battle time from headless battles', () => {
+    const registries = createBattleRegistries();
+    const army = simulateOfflineArmy(
+      {
+        unitRegistry: registries.units,
+        abilityRegistry: registries.abilities,
+        waveNumber: 1,
+        maxDuration: 2,
+      },
+      [1, 2]
+    );
+
+    // Battles this short time out, so they count as losses at the time limit
+    expect(army.winRate).toBe(0);
+    expect(army.clearTime).toBeCloseTo(2, 1);
+  });
+});
+
+describe('applyOfflineProgress', () => {
+  it('adds gold and stamps the save time', () => {
+    const result = calculateOfflineProgress(createInput())!;
+    const settings = applyOfflineProgress({ ...DEFAULT_BATTLE_SETTINGS, gold: 5 }, result, 42);
+
+    expect(settings.gold).toBe(5 + result.goldEarned);
+    expect(settings.lastSavedAt).toBe(42);
+  });
+});
+
+describe('formatTimeAway', () => {
+  it('formats hours and minutes', () => {
+    expect(formatTimeAway(30)).toBe('0m');
+    expect(formatTimeAway(75)).toBe('1m');
+    expect(formatTimeAway(3900)).toBe('1h 5m');
+  });
+});
+
+describe('touchBattleSettings', () => {
+  it('does not overwrite a save made while it loads', async () => {
+    const store = new Map<string, string>();
+    const adapter: IPersistenceAdapter = {
+      save: async (key, data) => void store.set(key, data),
+      // Slow load, so a save can land between the touch's load and save
+      load: async (key) => {
+        const data = store.get(key) ?? null;
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return data;
+      },
+      delete: async (key) => void store.delete(key),
+      exists: async (key) => store.has(key),
+    };
+
+    await Promise.all([
+      touchBattleSettings(adapter, 42),
+      saveBattleSettings(adapter, { ...DEFAULT_BATTLE_SETTINGS, gold: 99 }),
+    ]);
+
+    expect(JSON.parse(store.get('battle_settings')!).gold).toBe(99);
+  });
+});
+
+describe('battle settings v1', () => {
+  it('migrate without a timestamp, so they earn nothing offline', async () => {
+    const v1 = { version: 1, autoBattle: true, battleSpeed: 1, waveNumber: 4, highestWave: 4 };
+    const store = new Map([['battle_settings', JSON.stringify(v1)]]);
+    const adapter: IPersistenceAdapter = {
+      save: async (key, data) => void store.set(key, data),
+      load: async (key) => store.get(key) ?? null,
+      delete: async (key) => void store.delete(key),
+      exists: async (key) => store.has(key),
+    };
+
+    const settings = await loadBattleSettings(adapter);
+
+    expect(settings).toMatchObject({ version: 2, stayOnWave: false, lastSavedAt: 0 });
+    expect(store.has('battle_settings_backup_v1')).toBe(true);
+    expect(
+      calculateOfflineProgress(
+        createInput({ lastSavedAt: settings.lastSavedAt, autoBattle: settings.autoBattle })
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { BattleEngine } from '../../../../src/core/battle/BattleEngine';
+import { PATHFINDING_REFRESH_INTERVAL } from '../../../../src/core/battle/BattleConfig';
+import type { GridPosition } from '../../../../src/core/battle/grid/GridTypes';
+import {
+  PathGrid,
+  blockGridBounds,
+  buildFlowField,
+  createPathGrid,
+  getNextCell,
+  isCellBlocked,
+  isLineClear,
+} from '../../../../src/core/battle/pathfinding';
+import { Vector2 } from '../../../../src/core/physics/Vector2';
+import { createBattleRegistries } from '../../../../src/data/battle';
+
+const registries = createBattleRegistries();
+
+// 720x620 arena = 10px cells
+const CELL_SIZE = 10;
+
+// Player castle at cols 20-23, rows 48-51 (x 200-240, y 480-520)
+const PLAYER_CASTLE = new Vector2(220, 500);
+
+function createEngine(): BattleEngine {
+  const engine = new BattleEngine(registries.units);
+  engine.setArenaBounds(720, 620);
+  return engine;
+}
+
+/**
+ * Follow a flow field from a cell until it reaches a goal.
+ * @returns Cells visited, including start and goal
+ */
+function followField(grid: PathGrid, goals: GridPosition[], start: GridPosition): GridPosition[] {
+  const field = buildFlowField(grid, goals);
+  const path = [start];
+  let next = getNextCell(field, grid, start);
+  while (next && path.length < grid.cols * grid.rows) {
+    path.push(next);
+    next = getNextCell(field, grid, next);
+  }
+  return path;
+}
+
+describe('buildFlowField', () => {
+  it('routes around blocked cells without cutting corners', () => {
+    const grid = createPathGrid(CELL_SIZE, 10, 10);
+    blockGridBounds(grid, { col: 0, row: 5, cols: 8, rows: 1 });
+
+    const path = followField(grid, [{ col: 2, row: 0 }], { col: 2, row: 9 });
+
+    expect(path[path.length - 1]).toEqual({ col: 2, row: 0 });
+    path.slice(1).forEach((cell, i) => {
+      const prev = path[i];
+      expect(isCellBlocked(grid, cell.col, cell.row)).toBe(false);
+      // Diagonal steps only between open orthogonal cells
+      expect(isCellBlocked(grid, cell.col, prev.row)).toBe(false);
+      expect(isCellBlocked(grid, prev.col, cell.row)).toBe(false);
+    });
+    expect(path.some((cell) => cell.col >= 8)).toBe(true);
+  });
+
+  it('marks sealed-off cells unreachable', () => {
+    const grid = createPathGrid(CELL_SIZE, 10, 10);
+    blockGridBounds(grid, { col: 0, row: 5, cols: 10, rows: 1 });
+
+    const field = buildFlowField(grid, [{ col: 2, row: 0 }]);
+
+    expect(field.costs[9 * 10 + 2]).toBe(Infinity);
+    expect(getNextCell(field, grid, { col: 2, row: 9 })).toBeNull();
+  });
+
+  it('paths to the edge of a blocked goal', () => {
+    const grid = createPathGrid(CELL_SIZE, 10, 10);
+    blockGridBounds(grid, { col: 4, row: 4, cols: 2, rows: 2 });
+
+    const field = buildFlowField(grid, [{ col: 4, row: 4 }]);
+
+    expect(field.costs[4 * 10 + 5]).toBe(0);
+    expect(field.costs[4 * 10 + 6]).toBe(1);
+    expect(getNextCell(field, grid, { col: 6, row: 4 })).toEqual({ col: 5, row: 4 });
+  });
+
+  it('prefers cells free of allies', () => {
+    const grid = createPathGrid(CELL_SIZE, 10, 10);
+    blockGridBounds(grid, { col: 2, row: 5, cols: 6, rows: 1 });
+    // Crowd the left gap
+    grid.extraCost.fill(5, 5 * 10, 5 * 10 + 2);
+
+    const path = followField(grid, [{ col: 4, row: 0 }], { col: 4, row: 9 });
+
+    expect(path.find((cell) => cell.row === 5)!.col).toBeGreaterThanOrEqual(8);
+  });
+});
+
+describe('isLineClear', () => {
+  it('checks the cells a line crosses', () => {
+    const grid = createPathGrid(CELL_SIZE, 10, 10);
+    blockGridBounds(grid, { col: 4, row: 4, cols: 2, rows: 2 });
+
+    expect(isLineClear(grid, new Vector2(45, 95), new Vector2(45, 5))).toBe(false);
+    expect(isLineClear(grid, new Vector2(15, 95), new Vector2(15, 5))).toBe(true);
+    expect(isLineClear(grid, new Vector2(45, 95), new Vector2(45, 5), new Set([44, 54]))).toBe(
+      true
+    );
+  });
+});
+
+describe('Pathfinder in battle', () => {
+  it('steers straight while the line ahead is open', () => {
+    const engine = createEngine();
+    engine.spawnCastle('player', PLAYER_CASTLE);
+
+    expect(engine.getWorld().getPathDirection('player', new Vector2(300, 560), null)).toBeNull();
+  });
+
+  it('routes marching units around their own castle', () => {
+    const engine = createEngine();
+    engine.spawnCastle('player', PLAYER_CASTLE);
+    const hound = engine.getUnitEntity(
+      engine.spawnUnit('hound', 'player', new Vector2(221, 560)).id
+    )!;
+
+    const direction = engine.getWorld().getPathDirection('player', hound.position, null)!;
+    expect(Math.abs(direction.x)).toBeGreaterThan(0);
+
+    engine.start();
+    for (let i = 0; i < 1200 && hound.position.y > 470; i++) {
+      engine.getWorld().update(1 / 60);
+      const { x, y } = hound.position;
+      expect(x > 200 && x < 240 && y > 480 && y < 520).toBe(false);
+    }
+    expect(hound.position.y).toBeLessThanOrEqual(470);
+  });
+
+  it('caches flow fields until the grid is rebuilt', () => {
+    const engine = createEngine();
+    engine.spawnCastle('player', PLAYER_CASTLE);
+    const world = engine.getWorld();
+
+    const field = world.getFlowField('player');
+    expect(field).not.toBeNull();
+    expect(world.getFlowField('player')).toBe(field);
+
+    world.update(PATHFINDING_REFRESH_INTERVAL);
+    const rebuilt = world.getFlowField('player');
+    expect(rebuilt).not.toBe(field);
+
+    engine.spawnTerrain([
+      { type: 'wall', cell: { col: 30, row: 30 }, footprint: { cols: 4, rows: 2 } },
+    ]);
+    expect(world.getFlowField('player')).not.toBe(rebuilt);
+  });
+
+  it('exposes the march field in render state', () => {
+    const engine = createEngine();
+
+    expect(engine.getState().flowField).toBe(engine.getWorld().getFlowField('player'));
+  });
+});
@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BattleReplay,
+  REPLAY_FORMAT_VERSION,
+  ReplayPlayer,
+  ReplayRecorder,
+  deserializeReplay,
+  serializeReplay,
+} from '../../../../src/core/battle/replay';
+import { BattleEngine } from '../../../../src/core/battle/BattleEngine';
+import {
+  HEADLESS_ARENA_HEIGHT,
+  HEADLESS_ARENA_WIDTH,
+} from '../../../../src/core/battle/BattleConfig';
+import {
+  resolveAllOverlaps,
+  resolvePlayerOverlaps,
+  spawnWaveUnits,
+} from '../../../../src/core/battle/deployment/DeploymentService';
+import {
+  AppliedUpgrades,
+  UpgradeApplicator,
+} from '../../../../src/core/battle/upgrades/UpgradeApplicator';
+import { Vector2 } from '../../../../src/core/physics/Vector2';
+import { createBattleRegistries } from '../../../../src/data/battle';
+
+const registries = createBattleRegistries();
+const PLAYER_CONFIG = { unitRegistry: registries.units, abilityRegistry: registries.abilities };
+
+// Uneven deltas, as produced by requestAnimationFrame
+const FRAME_DELTAS = [0.016, 0.017, 0.02, 0.015];
+
+/**
+ * Records a short live battle the way the UI does.
+ */
+function recordBattle(
+  tickCount: number,
+  playerUpgrades: AppliedUpgrades[] = [],
+  withOrders = false,
+  deploy?: (engine: BattleEngine) => void
+): { engine: BattleEngine; replay: BattleReplay } {
+  const engine = new BattleEngine(registries.units, { abilityRegistry: registries.abilities });
+  const recorder = new ReplayRecorder();
+
+  engine.setPlayerUpgrades(playerUpgrades);
+  engine.setWave(3);
+  engine.setSeed(1234);
+  spawnWaveUnits(engine, {
+    waveNumber: 3,
+    arenaWidth: HEADLESS_ARENA_WIDTH,
+    arenaHeight: HEADLESS_ARENA_HEIGHT,
+  });
+  deploy?.(engine);
+  resolveAllOverlaps(engine, HEADLESS_ARENA_WIDTH, HEADLESS_ARENA_HEIGHT);
+  recorder.begin(engine);
+
+  // Drag one player squad forward
+  const squadId = engine.getWorld().getMobilePlayerUnits()[0].squadId;
+  const moves = engine
+    .getWorld()
+    .getMobilePlayerUnits()
+    .filter((u) => u.squadId === squadId)
+    .map((u) => ({ unitId: u.id, position: u.position.add(new Vector2(40, -60)) }));
+  for (const { unitId, position } of moves) {
+    engine.moveUnit(unitId, position);
+  }
+  resolvePlayerOverlaps(engine, HEADLESS_ARENA_WIDTH, HEADLESS_ARENA_HEIGHT);
+  recorder.recordMoves(moves, true);
+
+  engine.start();
+  for (let i = 0; i < tickCount; i++) {
+    if (i === 30) {
+      engine.setBattleSpeed(2);
+      recorder.recordSpeed(2);
+    }
+    if (withOrders && i === 40) {
+      issueOrders(engine, recorder);
+    }
+    const delta = FRAME_DELTAS[i % FRAME_DELTAS.length];
+    engine.tick(delta);
+    recorder.recordTick(delta);
+  }
+
+  return { engine, replay: recorder.getReplay(engine)! };
+}
+
+/**
+ * Orders one player squad to focus an enemy squad and the rest to hold.
+ */
+function issueOrders(engine: BattleEngine, recorder: ReplayRecorder): void {
+  const world = engine.getWorld();
+  const playerUnits = world.getMobilePlayerUnits();
+  const focusSquadId = playerUnits[0].squadId;
+  const targetSquadId = world.getUnitsByTeam('enemy').find((u) => !u.isStationary)!.squadId;
+
+  const focusIds = playerUnits.filter((u) => u.squadId === focusSquadId).map((u) => u.id);
+  const holdIds = playerUnits.filter((u) => u.squadId !== focusSquadId).map((u) => u.id);
+  const focus = { type: 'focus', targetSquadId } as const;
+  recorder.recordOrder(engine.issueOrder(focusIds, focus), focus);
+  recorder.recordOrder(engine.issueOrder(holdIds, { type: 'hold' }), { type: 'hold' });
+}
+
+function snapshotUnits(engine: BattleEngine) {
+  return engine.getState().units.map((u) => ({
+    id: u.id,
+    x: u.position.x,
+    y: u.position.y,
+    health: u.health,
+  }));
+}
+
+describe('ReplayRecorder', () => {
+  it('captures squads, inputs and ticks', () => {
+    const { replay } = recordBattle(10);
+
+    expect(replay.version).toBe(REPLAY_FORMAT_VERSION);
+    expect(replay.seed).toBe(1234);
+    expect(replay.waveNumber).toBe(3);
+    expect(replay.squads.some((s) => s.type === 'castle')).toBe(true);
+    expect(replay.inputs.map((i) => i.type)).toEqual(['speed', 'move']);
+    expect(replay.ticks).toHaveLength(10);
+  });
+
+  it('records nothing for an unseeded engine', () => {
+    const engine = new BattleEngine(registries.units);
+    engine.setArenaBounds(HEADLESS_ARENA_WIDTH, HEADLESS_ARENA_HEIGHT);
+    const recorder = new ReplayRecorder();
+
+    recorder.begin(engine);
+
+    expect(recorder.isRecording()).toBe(false);
+    expect(recorder.getReplay(engine)).toBeNull();
+  });
+});
+
+describe('ReplayPlayer', () => {
+  it('reproduces the recorded battle exactly', () => {
+    const { engine, replay } = recordBattle(120);
+    const player = new ReplayPlayer(replay, PLAYER_CONFIG);
+
+    player.seek(player.getTickCount());
+
+    expect(player.isFinished()).toBe(true);
+    expect(snapshotUnits(player.getEngine())).toEqual(snapshotUnits(engine));
+    expect(player.getEngine().getSimulationTime()).toBe(replay.simulationTime);
+  });
+
+  it('reproduces squads spawned with upgrades', () => {
+    const upgradeStates = registries.upgrades.createInitialStates();
+    upgradeStates.global_health_1 = { upgradeId: 'global_health_1', level: 3, totalSpent: 0 };
+    upgradeStates.hound_bloodlust = { upgradeId: 'hound_bloodlust', level: 1, totalSpent: 0 };
+    const { engine, replay } = recordBattle(120, [
+      { applicator: new UpgradeApplicator(registries.upgrades), upgradeStates },
+    ]);
+    const player = new ReplayPlayer(replay, PLAYER_CONFIG);
+
+    player.seek(player.getTickCount());
+
+    expect(replay.squads.find((s) => s.type === 'hound')?.upgrades?.grantedAbilities).toEqual([
+      'bloodlust',
+    ]);
+    expect(snapshotUnits(player.getEngine())).toEqual(snapshotUnits(engine));
+  });
+
+  it('reproduces orders issued mid-battle', () => {
+    const { engine, replay } = recordBattle(120, [], true);
+    const player = new ReplayPlayer(replay, PLAYER_CONFIG);
+
+    player.seek(player.getTickCount());
+
+    expect(replay.inputs.filter((i) => i.type === 'order')).toHaveLength(2);
+    expect(replay.inputs.find((i) => i.type === 'order')?.tick).toBe(40);
+    expect(snapshotUnits(player.getEngine())).toEqual(snapshotUnits(engine));
+  });
+
+  it('reproduces a battle whose deployment drew from the RNG', () => {
+    // Stack one squad exactly onto another so separating them picks random directions
+    const { engine, replay } = recordBattle(300, [], false, (deployed) => {
+      const units = deployed.getWorld().getMobilePlayerUnits();
+      const [first, second] = [...new Set(units.map((u) => u.squadId))];
+      const anchors = units.filter((u) => u.squadId === first);
+      units
+        .filter((u) => u.squadId === second)
+        .forEach((u, i) => deployed.moveUnit(u.id, anchors[i % anchors.length].position));
+      deployed.resolveOverlaps();
+    });
+    const player = new ReplayPlayer(replay, PLAYER_CONFIG);
+
+    player.seek(player.getTickCount());
+
+    expect(snapshotUnits(player.getEngine())).toEqual(snapshotUnits(engine));
+  });
+
+  it('re-simulates when seeking backwards', () => {
+    const { replay } = recordBattle(60);
+    const player = new ReplayPlayer(replay, PLAYER_CONFIG);
+
+    player.seek(40);
+    const atForty = snapshotUnits(player.getEngine());
+    player.seek(60);
+    player.seek(40);
+
+    expect(player.getTick()).toBe(40);
+    expect(snapshotUnits(player.getEngine())).toEqual(atForty);
+  });
+
+  it('advances by recorded time scaled by playback speed', () => {
+    const { replay } = recordBattle(20);
+    const player = new ReplayPlayer(replay, PLAYER_CONFIG);
+
+    expect(player.advance(1)).toBe(0); // paused by default
+
+    player.play();
+    player.setSpeed(2);
+    player.advance(0.017); // 0.034 recorded seconds covers the first two ticks
+
+    expect(player.getTick()).toBe(2);
+  });
+
+  it('pauses at the end and steps while paused', () => {
+    const { replay } = recordBattle(5);
+    const player = new ReplayPlayer(replay, PLAYER_CONFIG);
+
+    expect(player.step()).toBe(true);
+    expect(player.getTick()).toBe(1);
+
+    player.play();
+    player.advance(10);
+
+    expect(player.isFinished()).toBe(true);
+    expect(player.isPaused()).toBe(true);
+    expect(player.step()).toBe(false);
+  });
+
+  it('clamps playback speed', () => {
+    const { replay } = recordBattle(1);
+    const player = new ReplayPlayer(replay, PLAYER_CONFIG);
+
+    player.setSpeed(100);
+    expect(player.getSpeed()).toBe(8);
+    player.setSpeed(0);
+    expect(player.getSpeed()).toBe(0.25);
+  });
+});
+
+describe('ReplaySerializer', () => {
+  it('round-trips a replay through JSON', () => {
+    const { replay } = recordBattle(5);
+
+    expect(deserializeReplay(serializeReplay(replay))).toEqual(replay);
+  });
+
+  it('rejects other versions and malformed data', () => {
+    const { replay } = recordBattle(1);
+
+    expect(deserializeReplay(null)).toBeNull();
+    expect(deserializeReplay('not json')).toBeNull();
+    expect(deserializeReplay(JSON.stringify({ ...replay, version: 99 }))).toBeNull();
+    expect(deserializeReplay(JSON.stringify({ ...replay, version: 1 }))).toBeNull();
+    expect(deserializeReplay(JSON.stringify({ ...replay, ticks: [-1] }))).toBeNull();
+  });
+
+  it('validates recorded orders', () => {
+    const { replay } = recordBattle(45, [], true);
+    const badOrder = { type: 'order', tick: 1, unitIds: ['unit_1'], order: { type: 'retreat' } };
+
+    expect(deserializeReplay(serializeReplay(replay))).toEqual(replay);
+    expect(
+      deserializeReplay(JSON.stringify({ ...replay, inputs: [...replay.inputs, badOrder] }))
+    ).toBeNull();
+  });
+});
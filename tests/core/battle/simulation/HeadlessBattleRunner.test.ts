@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  HeadlessBattleResult,
+  formatSummaryCsv,
+  runBattleSweep,
+  runHeadlessBattle,
+  summarizeBattleResults,
+} from '../../../../src/core/battle/simulation';
+import { BattleStatistics } from '../../../../src/core/battle/BattleStats';
+import { BattleOutcome } from '../../../../src/core/battle/types';
+import { createBattleRegistries } from '../../../../src/data/battle';
+
+// Short battles keep the suite fast; outcomes are not asserted
+const SHORT_BATTLE = 2;
+
+function createStats(playerDamage: number, enemyDamage: number): BattleStatistics {
+  const team = (damageDealt: number) => ({
+    kills: 0,
+    deaths: 0,
+    damageDealt,
+    damageTaken: 0,
+    armorAbsorbed: 0,
+    damageResisted: 0,
+    healingDone: 0,
+    unitsSpawned: 0,
+    attacksPerformed: 0,
+    meleeAttacks: 0,
+    rangedAttacks: 0,
+    deathsByType: {},
+  });
+  return {
+    player: team(playerDamage),
+    enemy: team(enemyDamage),
+    battleDuration: 10,
+    totalKills: 0,
+  };
+}
+
+function createResult(
+  waveNumber: number,
+  outcome: BattleOutcome,
+  playerDamage: number
+): HeadlessBattleResult {
+  return {
+    waveNumber,
+    seed: 1,
+    outcome,
+    timedOut: outcome === 'pending',
+    ticks: 600,
+    simulationTime: 20,
+    stats: createStats(playerDamage, 100),
+  };
+}
+
+describe('HeadlessBattleRunner', () => {
+  const registries = createBattleRegistries();
+
+  describe('runHeadlessBattle', () => {
+    it('spawns a wave and reports stats', () => {
+      const result = runHeadlessBattle({
+        unitRegistry: registries.units,
+        abilityRegistry: registries.abilities,
+        waveNumber: 1,
+        seed: 1,
+        maxDuration: SHORT_BATTLE,
+      });
+
+      expect(result.waveNumber).toBe(1);
+      expect(result.seed).toBe(1);
+      expect(result.ticks).toBeGreaterThan(0);
+      expect(result.stats.player.unitsSpawned).toBeGreaterThan(0);
+      expect(result.stats.enemy.unitsSpawned).toBeGreaterThan(0);
+      expect(result.timedOut).toBe(result.outcome === 'pending');
+    });
+
+    it('produces identical results for the same seed', () => {
+      const config = {
+        unitRegistry: registries.units,
+        abilityRegistry: registries.abilities,
+        waveNumber: 3,
+        seed: 99,
+        maxDuration: SHORT_BATTLE,
+      };
+
+      expect(runHeadlessBattle(config)).toEqual(runHeadlessBattle(config));
+    });
+  });
+
+  describe('runBattleSweep', () => {
+    it('runs every seed for every wave in order', () => {
+      const results = runBattleSweep({
+        unitRegistry: registries.units,
+        waveStart: 1,
+        waveEnd: 2,
+        seeds: [5, 6],
+        maxDuration: 0.1,
+      });
+
+      expect(results.map((r) => [r.waveNumber, r.seed])).toEqual([
+        [1, 5],
+        [1, 6],
+        [2, 5],
+        [2, 6],
+      ]);
+    });
+  });
+
+  describe('summarizeBattleResults', () => {
+    it('aggregates outcomes and averages per wave', () => {
+      const summaries = summarizeBattleResults([
+        createResult(2, 'player_victory', 300),
+        createResult(1, 'player_victory', 100),
+        createResult(1, 'enemy_victory', 200),
+        createResult(1, 'pending', 300),
+      ]);
+
+      expect(summaries.map((s) => s.waveNumber)).toEqual([1, 2]);
+      expect(summaries[0]).toMatchObject({
+        battles: 3,
+        playerWins: 1,
+        enemyWins: 1,
+        draws: 0,
+        timeouts: 1,
+        avgPlayerDamageDealt: 200,
+        avgEnemyDamageDealt: 100,
+      });
+      expect(summaries[0].playerWinRate).toBeCloseTo(1 / 3);
+      expect(summaries[1].playerWinRate).toBe(1);
+    });
+  });
+
+  describe('formatSummaryCsv', () => {
+    it('writes a header and one row per wave', () => {
+      const csv = formatSummaryCsv(
+        summarizeBattleResults([
+          createResult(1, 'player_victory', 100),
+          createResult(1, 'enemy_victory', 50),
+        ])
+      );
+      const [header, row] = csv.split('\n');
+
+      expect(header.split(',')[0]).toBe('waveNumber');
+      expect(header).toContain('playerWinRate');
+      expect(row.startsWith('1,2,1,1,0,0,0.500,')).toBe(true);
+    });
+  });
+});
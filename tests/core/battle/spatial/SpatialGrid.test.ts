@@ -0,0 +1,190 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BattleEngine } from '../../../../src/core/battle/BattleEngine';
+import { SpatialGrid, SpatialItem } from '../../../../src/core/battle/spatial';
+import { Vector2 } from '../../../../src/core/physics/Vector2';
+import { createBattleRegistries } from '../../../../src/data/battle';
+
+const registries = createBattleRegistries();
+
+interface Point extends SpatialItem {
+  position: Vector2;
+  id: number;
+}
+
+/**
+ * Deterministic pseudo-random points (LCG), with some duplicate positions for ties.
+ */
+function createPoints(count: number, size: number): Point[] {
+  let seed = 12345;
+  const next = (): number => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  const points: Point[] = [];
+  for (let id = 0; id < count; id++) {
+    const position =
+      id % 10 === 9 ? points[id - 5].position : new Vector2(next() * size, next() * size);
+    points.push({ id, position });
+  }
+  return points;
+}
+
+/**
+ * Linear-scan nearest search the grid must match (strict <, first wins ties).
+ */
+function bruteNearest(
+  points: Point[],
+  center: Vector2,
+  maxDistance: number,
+  accept: (point: Point) => boolean
+): Point | null {
+  let best: Point | null = null;
+  let bestDist = maxDistance;
+  for (const point of points) {
+    if (!accept(point)) continue;
+    const dist = center.distanceTo(point.position);
+    if (dist < bestDist) {
+      best = point;
+      bestDist = dist;
+    }
+  }
+  return best;
+}
+
+describe('SpatialGrid', () => {
+  const points = createPoints(300, 500);
+  const centers = [new Vector2(0, 0), new Vector2(250, 250), new Vector2(-40, 620)];
+  centers.push(...points.slice(0, 20).map((point) => point.position));
+
+  it('returns radius matches in insertion order', () => {
+    const grid = new SpatialGrid<Point>(40);
+    grid.rebuild(points);
+
+    for (const center of centers) {
+      for (const radius of [0, 15, 60, 1000]) {
+        const expected = points.filter((point) => center.distanceTo(point.position) <= radius);
+        expect(grid.queryRadius(center, radius)).toEqual(expected);
+      }
+    }
+  });
+
+  it('finds the same nearest item as a linear scan', () => {
+    const grid = new SpatialGrid<Point>(40);
+    grid.rebuild(points);
+    const filters = [() => true, (point: Point) => point.id % 3 === 0];
+
+    for (const center of centers) {
+      for (const maxDistance of [Infinity, 30, 0]) {
+        for (const accept of filters) {
+          expect(grid.findNearest(center, maxDistance, accept)).toBe(
+            bruteNearest(points, center, maxDistance, accept)
+          );
+        }
+      }
+    }
+  });
+
+  it('re-buckets moved items and drops removed ones', () => {
+    const grid = new SpatialGrid<Point>(40);
+    const a = { id: 0, position: new Vector2(10, 10) };
+    const b = { id: 1, position: new Vector2(300, 300) };
+    grid.rebuild([a, b]);
+
+    a.position = new Vector2(290, 300);
+    grid.update(a);
+    expect(grid.queryRadius(new Vector2(300, 300), 20)).toEqual([a, b]);
+    expect(grid.queryRadius(new Vector2(10, 10), 20)).toEqual([]);
+
+    grid.remove(a);
+    expect(grid.findNearest(new Vector2(290, 300), Infinity, () => true)).toBe(b);
+    expect(grid.size).toBe(1);
+  });
+
+  it('tracks the largest item extent', () => {
+    const grid = new SpatialGrid<Point>(40, (point) => point.id);
+    grid.rebuild(points.slice(0, 8));
+
+    expect(grid.maxExtent).toBe(7);
+  });
+});
+
+describe('BattleWorld spatial index', () => {
+  function createEngine(): BattleEngine {
+    const engine = new BattleEngine(registries.units);
+    engine.setArenaBounds(720, 620);
+    return engine;
+  }
+
+  it('answers nearest-enemy queries like a scan of the unit list', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    for (let i = 0; i < 40; i++) {
+      engine.spawnUnit('hound', i % 2 === 0 ? 'player' : 'enemy', new Vector2(100 + i * 13, 300));
+    }
+
+    const probe = new Vector2(330, 300);
+    const enemies = world.getUnitsByTeam('enemy');
+    const expected = bruteNearest(
+      enemies.map((unit, id) => ({ id, position: unit.position })),
+      probe,
+      Infinity,
+      () => true
+    );
+    expect(world.findNearestEnemy('player', probe)).toBe(enemies[expected!.id]);
+    expect(world.findNearestEnemy('player', probe, 1)).toBeNull();
+  });
+
+  it('ticks a 520-unit battle without scanning every unit per query', () => {
+    const engine = createEngine();
+    const world = engine.getWorld();
+    const perTeam = 260;
+    for (let i = 0; i < perTeam; i++) {
+      const col = i % 26;
+      const row = Math.floor(i / 26);
+      const x = 40 + col * 25;
+      engine.spawnUnit(i % 2 === 0 ? 'hound' : 'fang', 'player', new Vector2(x, 400 + row * 18));
+      engine.spawnUnit(i % 2 === 0 ? 'hound' : 'fang', 'enemy', new Vector2(x, 40 + row * 18));
+    }
+    engine.start();
+
+    // Count the units each query looks at instead of timing ticks (stable on any machine)
+    let queries = 0;
+    let candidates = 0;
+    const queryRadius = SpatialGrid.prototype.queryRadius;
+    const findNearest = SpatialGrid.prototype.findNearest;
+    const querySpy = vi.spyOn(SpatialGrid.prototype, 'queryRadius').mockImplementation(function (
+      this: SpatialGrid<SpatialItem>,
+      center,
+      radius
+    ) {
+      const found = queryRadius.call(this, center, radius);
+      queries++;
+      candidates += found.length;
+      return found;
+    });
+    const nearestSpy = vi.spyOn(SpatialGrid.prototype, 'findNearest').mockImplementation(function (
+      this: SpatialGrid<SpatialItem>,
+      center,
+      maxDistance,
+      accept
+    ) {
+      queries++;
+      return findNearest.call(this, center, maxDistance, (item) => {
+        candidates++;
+        return accept(item);
+      });
+    });
+
+    const ticks = 60;
+    for (let i = 0; i < ticks; i++) world.update(1 / 60);
+    querySpy.mockRestore();
+    nearestSpy.mockRestore();
+
+    const unitCount = world.getUnits().length;
+    expect(unitCount).toBeGreaterThanOrEqual(500);
+    expect(queries).toBeGreaterThan(0);
+    // A full scan checks every unit per query; the grid checks about 33 of 520
+    const perQuery = candidates / queries;
+    expect(perQuery, `${perQuery.toFixed(1)} candidates per query`).toBeLessThan(unitCount / 4);
+  });
+});
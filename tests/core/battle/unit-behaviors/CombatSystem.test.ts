@@ -1,7 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import { Vector2 } from '../../../../src/core/physics/Vector2';
 import {
+  canHitLayer,
   getAttackMode,
+  getTargetLayers,
   getMaxRange,
   isInMeleeMode,
   isMeleeAttack,
@@ -9,7 +11,10 @@ import {
   calculateModifiedDamage,
   getAttackDirection,
   getAttackCooldown,
+  getEffectiveDamage,
+  getThreat,
   updateCombat,
+  updateRepair,
 } from '../../../../src/core/battle/unit-behaviors/CombatSystem';
 import {
   MELEE_SIZE_MULTIPLIER,
@@ -113,6 +118,37 @@ describe('CombatSystem', () => {
 
       expect(result).toBeNull();
     });
+
+    it('should skip attack modes that cannot hit the target layer', () => {
+      const melee = createMeleeAttack(50, 20);
+      const antiAir = { ...createRangedAttack(30, 100), canTargetAir: true };
+      const stats = createStats({ melee, ranged: antiAir });
+
+      expect(getAttackMode(stats, 10, 5, 'air')).toBe(antiAir);
+      expect(getAttackMode(createStats({ melee }), 10, 5, 'air')).toBeNull();
+    });
+  });
+
+  describe('canHitLayer', () => {
+    it('should hit the ground unless opted out and the air only if opted in', () => {
+      expect(canHitLayer({})).toBe(true);
+      expect(canHitLayer({}, 'air')).toBe(false);
+      expect(canHitLayer({ canTargetAir: true }, 'air')).toBe(true);
+      expect(canHitLayer({ canTargetAir: true, canTargetGround: false }, 'ground')).toBe(false);
+    });
+  });
+
+  describe('getTargetLayers', () => {
+    it('should combine the layers of every attack mode', () => {
+      const antiAir = { ...createRangedAttack(), canTargetAir: true, canTargetGround: false };
+
+      expect(getTargetLayers(createStats({ melee: createMeleeAttack() }))).toEqual(['ground']);
+      expect(getTargetLayers(createStats({ ranged: antiAir }))).toEqual(['air']);
+      expect(getTargetLayers(createStats({ melee: createMeleeAttack(), ranged: antiAir }))).toEqual(
+        ['ground', 'air']
+      );
+      expect(getTargetLayers(createStats({}))).toEqual([]);
+    });
   });
 
   describe('getMaxRange', () => {
@@ -145,6 +181,30 @@ describe('CombatSystem', () => {
     });
   });
 
+  describe('getEffectiveDamage', () => {
+    const beam = { type: 'beam', duration: 2, rampRate: 0.5 } as const;
+
+    it('uses the listed damage for attacks without a ramp', () => {
+      expect(getEffectiveDamage(createRangedAttack(100))).toBe(100);
+      expect(getEffectiveDamage({ damage: 100, projectile: { type: 'beam' } })).toBe(100);
+    });
+
+    it('averages a continuous beam ramp over its pulses', () => {
+      // 8 pulses at 1x, 1.125x ... 1.875x
+      expect(getEffectiveDamage({ damage: 100, projectile: beam })).toBeCloseTo(143.75);
+      expect(
+        getEffectiveDamage({ damage: 100, projectile: { ...beam, rampRate: 10, maxRamp: 2 } })
+      ).toBeCloseTo(187.5);
+    });
+
+    it('counts the ramp in threat', () => {
+      const plain = createStats({ ranged: createRangedAttack(100) });
+      const ramped = createStats({ ranged: { ...createRangedAttack(100), projectile: beam } });
+
+      expect(getThreat(ramped) / getThreat(plain)).toBeCloseTo(1.4375);
+    });
+  });
+
   describe('isInMeleeMode', () => {
     it('should return true when within melee range', () => {
       const melee = createMeleeAttack(50, 20);
@@ -413,4 +473,29 @@ describe('CombatSystem', () => {
       expect(result.didAttack).toBe(true);
     });
   });
+
+  describe('updateRepair', () => {
+    const repair: AttackMode = { damage: 40.4, range: 30, attackSpeed: 2 };
+
+    it('repairs an ally in range once the cooldown is up', () => {
+      const ally = createMockDamageable(45, 0, 10);
+
+      const result = updateRepair(0, 0.1, new Vector2(0, 0), 10, repair, ally);
+
+      expect(result.didRepair).toBe(true);
+      expect(result.amount).toBe(40);
+      expect(result.repairCooldown).toBe(0.5);
+    });
+
+    it('waits while out of range, on cooldown or without a repair mode', () => {
+      const near = createMockDamageable(45, 0, 10);
+      const far = createMockDamageable(100, 0, 10);
+
+      expect(updateRepair(0, 0.1, new Vector2(0, 0), 10, repair, far).didRepair).toBe(false);
+      const cooling = updateRepair(0.5, 0.1, new Vector2(0, 0), 10, repair, near);
+      expect(cooling.didRepair).toBe(false);
+      expect(cooling.repairCooldown).toBeCloseTo(0.4);
+      expect(updateRepair(0, 0.1, new Vector2(0, 0), 10, null, near).didRepair).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findTrampleTargets,
+  getFacingDirection,
+  getTrampleOffset,
+  isTrampleContact,
+  isWeakPointHit,
+  updateTrample,
+} from '../../../../src/core/battle/unit-behaviors/GiantSystem';
+import { TrampleCandidate } from '../../../../src/core/battle/unit-behaviors/types';
+import { TRAMPLE_INTERVAL } from '../../../../src/core/battle/BattleConfig';
+import { Vector2 } from '../../../../src/core/physics/Vector2';
+
+function createCandidate(x: number, y: number, overrides: Partial<TrampleCandidate> = {}) {
+  return {
+    position: new Vector2(x, y),
+    health: 100,
+    movementLayer: 'ground',
+    isGiant: false,
+    isStationary: false,
+    isDying: false,
+    getCollisionSize: () => 5,
+    isDestroyed: () => false,
+    ...overrides,
+  } as TrampleCandidate;
+}
+
+describe('GiantSystem', () => {
+  const giantPosition = new Vector2(100, 100);
+
+  describe('isTrampleContact', () => {
+    it('tramples mobile ground units it is touching', () => {
+      expect(isTrampleContact(giantPosition, 20, createCandidate(110, 100))).toBe(true);
+      expect(isTrampleContact(giantPosition, 20, createCandidate(200, 100))).toBe(false);
+    });
+
+    it('skips air units, castles, other giants and dying units', () => {
+      const skipped = [
+        createCandidate(110, 100, { movementLayer: 'air' }),
+        createCandidate(110, 100, { isStationary: true }),
+        createCandidate(110, 100, { isGiant: true }),
+        createCandidate(110, 100, { isDying: true }),
+      ];
+
+      for (const candidate of skipped) {
+        expect(isTrampleContact(giantPosition, 20, candidate)).toBe(false);
+      }
+    });
+  });
+
+  describe('findTrampleTargets', () => {
+    it('keeps only the enemies in contact', () => {
+      const near = createCandidate(105, 95);
+      const far = createCandidate(300, 300);
+
+      expect(findTrampleTargets(giantPosition, 20, [near, far])).toEqual([near]);
+    });
+  });
+
+  describe('getTrampleOffset', () => {
+    it('shoves units straight away from the giant', () => {
+      const offset = getTrampleOffset(giantPosition, new Vector2(100, 90), 12, new Vector2(1, 0));
+
+      expect(offset.x).toBeCloseTo(0);
+      expect(offset.y).toBeCloseTo(-12);
+    });
+
+    it('uses the fallback direction when the units overlap exactly', () => {
+      const offset = getTrampleOffset(giantPosition, giantPosition, 12, new Vector2(0, 2));
+
+      expect(offset.y).toBeCloseTo(12);
+    });
+  });
+
+  describe('updateTrample', () => {
+    it('tramples on contact and then waits for the interval', () => {
+      const first = updateTrample(0, 0.1, 2);
+      expect(first).toEqual({ trampleCooldown: TRAMPLE_INTERVAL, didTrample: true });
+
+      const waiting = updateTrample(first.trampleCooldown, 0.1, 2);
+      expect(waiting.didTrample).toBe(false);
+      expect(waiting.trampleCooldown).toBeCloseTo(TRAMPLE_INTERVAL - 0.1);
+    });
+
+    it('keeps the trample ready without contact', () => {
+      expect(updateTrample(0, 0.1, 0)).toEqual({ trampleCooldown: 0, didTrample: false });
+    });
+  });
+
+  describe('weak points', () => {
+    it('faces the target, or the march direction without one', () => {
+      const facing = getFacingDirection(giantPosition, 'player', new Vector2(200, 100));
+      expect(facing.x).toBeCloseTo(1);
+
+      expect(getFacingDirection(giantPosition, 'player').y).toBe(-1);
+      expect(getFacingDirection(giantPosition, 'enemy').y).toBe(1);
+    });
+
+    it('only counts hits from behind', () => {
+      const facing = new Vector2(0, -1);
+
+      expect(isWeakPointHit(giantPosition, facing, new Vector2(100, 150))).toBe(true);
+      expect(isWeakPointHit(giantPosition, facing, new Vector2(100, 50))).toBe(false);
+    });
+  });
+});
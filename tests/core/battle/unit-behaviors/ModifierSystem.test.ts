@@ -0,0 +1,264 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyModifier,
+  calculateCollisionSize,
+  clearEnemyDebuffs,
+  queueModifier,
+  tickModifiers,
+  tickPendingModifiers,
+  toModifierRenderData,
+} from '../../../../src/core/battle/unit-behaviors/ModifierSystem';
+import { MIN_COLLISION_SIZE_MULTIPLIER } from '../../../../src/core/battle/BattleConfig';
+import { BattleEngine } from '../../../../src/core/battle/BattleEngine';
+import { UnitEntity } from '../../../../src/core/battle/entities/UnitEntity';
+import { createActiveModifier } from '../../../../src/core/battle/modifiers/ModifierCalculator';
+import {
+  ActiveModifier,
+  Modifier,
+  ModifierStacking,
+} from '../../../../src/core/battle/modifiers/types';
+import { UnitTeam } from '../../../../src/core/battle/types';
+import { Vector2 } from '../../../../src/core/physics/Vector2';
+import { createBattleRegistries } from '../../../../src/data/battle';
+
+const registries = createBattleRegistries();
+
+const SLOW: Modifier = { id: 'slow', target: 'moveSpeed', type: 'multiply', value: 0.5 };
+
+function createTimed(
+  modifier: Modifier,
+  sourceId: string,
+  duration: number,
+  sourceTeam?: UnitTeam,
+  stacking?: ModifierStacking
+): ActiveModifier {
+  return { ...createActiveModifier(modifier, 'debuff', sourceId, duration), sourceTeam, stacking };
+}
+
+describe('ModifierSystem', () => {
+  describe('applyModifier', () => {
+    it('refreshes duration for a refresh modifier from the same source instead of stacking', () => {
+      const first = createTimed(SLOW, 'test_source', 1, 'enemy', 'refresh');
+      const second = createTimed(SLOW, 'test_source', 2, 'enemy', 'refresh');
+
+      const result = applyModifier(applyModifier([], first), second);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].stacks).toBe(1);
+      expect(result[0].duration).toBe(2);
+    });
+
+    it('stacks other modifiers up to the max stacks', () => {
+      const buff = createTimed({ ...SLOW, type: 'percent', value: 0.1 }, 'rage', 3);
+
+      let result = applyModifier([], buff, 2);
+      result = applyModifier(result, buff, 2);
+      result = applyModifier(result, buff, 2);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].stacks).toBe(2);
+    });
+  });
+
+  describe('tickModifiers', () => {
+    it('decrements durations, removes expired modifiers and keeps permanent ones', () => {
+      const permanent = createActiveModifier(SLOW, 'upgrade', 'upgrade_1');
+      const short = createTimed(SLOW, 'short', 0.5);
+      const long = createTimed(SLOW, 'long', 1);
+
+      const result = tickModifiers([permanent, short, long], 0.6);
+
+      expect(result.expiredCount).toBe(1);
+      expect(result.modifiers.map((m) => m.sourceId)).toEqual(['upgrade_1', 'long']);
+      expect(result.modifiers[1].duration).toBeCloseTo(0.4);
+    });
+  });
+
+  describe('tickPendingModifiers', () => {
+    it('releases queued modifiers once their delay expires', () => {
+      const pending = queueModifier([], createTimed(SLOW, 'test_source', 1), 0.2);
+
+      const early = tickPendingModifiers(pending, 0.1);
+      expect(early.readyModifiers).toHaveLength(0);
+      expect(early.pendingModifiers[0].delay).toBeCloseTo(0.1);
+
+      const ready = tickPendingModifiers(early.pendingModifiers, 0.2);
+      expect(ready.readyModifiers).toHaveLength(1);
+      expect(ready.pendingModifiers).toHaveLength(0);
+    });
+  });
+
+  describe('calculateCollisionSize', () => {
+    const grow: Modifier = { id: 'grow', target: 'collisionSize', type: 'multiply', value: 1.3 };
+
+    it('returns the base size without collisionSize modifiers', () => {
+      expect(calculateCollisionSize(10, [createTimed(SLOW, 'slow', 1)])).toBe(10);
+    });
+
+    it('scales the collision box', () => {
+      expect(calculateCollisionSize(10, [createTimed(grow, 'grow', 1)])).toBeCloseTo(13);
+    });
+
+    it('never shrinks below the minimum', () => {
+      const shrink = createTimed({ ...grow, value: 0 }, 'shrink', 1);
+      expect(calculateCollisionSize(10, [shrink])).toBe(10 * MIN_COLLISION_SIZE_MULTIPLIER);
+    });
+  });
+
+  describe('clearEnemyDebuffs', () => {
+    it('removes modifiers from the enemy team and keeps the rest', () => {
+      const modifiers = [
+        createTimed(SLOW, 'enemy_debuff', 1, 'enemy'),
+        createTimed(SLOW, 'friendly_buff', 1, 'player'),
+        createActiveModifier(SLOW, 'upgrade', 'upgrade_1'),
+      ];
+
+      const result = clearEnemyDebuffs(modifiers, 'player');
+
+      expect(result.map((m) => m.sourceId)).toEqual(['friendly_buff', 'upgrade_1']);
+    });
+  });
+
+  describe('toModifierRenderData', () => {
+    it('lists each timed source once with its longest duration', () => {
+      const damage: Modifier = { id: 'weak', target: 'melee.damage', type: 'multiply', value: 0.7 };
+      const modifiers = [
+        createTimed(SLOW, 'test_source', 1.5, 'enemy'),
+        { ...createTimed(damage, 'test_source', 2, 'enemy'), linkedUnitId: 'some_unit' },
+        createActiveModifier(SLOW, 'upgrade', 'upgrade_1'),
+      ];
+
+      const renderData = toModifierRenderData(modifiers);
+
+      expect(renderData).toEqual([
+        { id: 'test_source', sourceId: 'test_source', remainingDuration: 2 },
+      ]);
+    });
+  });
+});
+
+describe('UnitEntity modifier stack', () => {
+  function createEngine(): BattleEngine {
+    const engine = new BattleEngine(registries.units);
+    engine.setArenaBounds(720, 620);
+    return engine;
+  }
+
+  function spawn(
+    engine: BattleEngine,
+    unitId: string,
+    team: UnitTeam,
+    x: number,
+    y: number,
+    modifiers: ActiveModifier[] = []
+  ): UnitEntity {
+    const definition = registries.units.get(unitId);
+    const unit = engine.spawnUnitFromDefinition(
+      definition,
+      team,
+      new Vector2(x, y),
+      undefined,
+      undefined,
+      1,
+      { modifiers }
+    );
+    return engine.getUnitEntity(unit.id)!;
+  }
+
+  it('compounds slows from different sources multiplicatively', () => {
+    const engine = createEngine();
+    const hound = spawn(engine, 'hound', 'player', 300, 400);
+
+    hound.applyModifier(createTimed(SLOW, 'shockwave', 5, 'enemy', 'refresh'));
+    hound.applyModifier(createTimed(SLOW, 'engagement', 5, 'enemy', 'refresh'));
+
+    expect(hound.getModifiedMoveSpeed()).toBeCloseTo(hound.baseStats.moveSpeed * 0.25);
+  });
+
+  it('composes upgrades with battle buffs through the same formula', () => {
+    const engine = createEngine();
+    const damageUpgrade: Modifier = {
+      id: 'damage_up',
+      target: 'ranged.damage',
+      type: 'percent',
+      value: 0.5,
+    };
+    const hound = spawn(engine, 'hound', 'player', 300, 400, [
+      createActiveModifier(damageUpgrade, 'upgrade', 'upgrade_damage_up'),
+    ]);
+    const baseDamage = hound.baseStats.ranged!.damage;
+    expect(hound.stats.ranged!.damage).toBeCloseTo(baseDamage * 1.5);
+
+    hound.applyModifier(createTimed({ ...damageUpgrade, id: 'rage' }, 'rage', 3, 'player'));
+
+    // Percents add up: (1 + 0.5 + 0.5)
+    expect(hound.stats.ranged!.damage).toBeCloseTo(baseDamage * 2);
+  });
+
+  it('modifies armor, attack speed, range and max health', () => {
+    const engine = createEngine();
+    const hound = spawn(engine, 'hound', 'player', 300, 400);
+    const base = hound.baseStats;
+
+    hound.applyModifier(
+      createTimed({ id: 'a', target: 'armor', type: 'flat', value: 5 }, 'test_source', 3)
+    );
+    hound.applyModifier(
+      createTimed(
+        { id: 's', target: 'ranged.attackSpeed', type: 'percent', value: 1 },
+        'test_source',
+        3
+      )
+    );
+    hound.applyModifier(
+      createTimed({ id: 'r', target: 'ranged.range', type: 'flat', value: 10 }, 'test_source', 3)
+    );
+    hound.applyModifier(
+      createTimed({ id: 'h', target: 'maxHealth', type: 'multiply', value: 0.5 }, 'test_source', 3)
+    );
+
+    expect(hound.stats.armor).toBe(base.armor! + 5);
+    expect(hound.stats.ranged!.attackSpeed).toBeCloseTo(base.ranged!.attackSpeed * 2);
+    expect(hound.stats.attackInterval).toBeCloseTo(base.attackInterval! / 2);
+    expect(hound.stats.ranged!.range).toBe(base.ranged!.range + 10);
+    expect(hound.stats.maxHealth).toBe(base.maxHealth / 2);
+    expect(hound.health).toBe(base.maxHealth / 2);
+
+    hound.removeModifiersBySource('test_source');
+    expect(hound.stats).toEqual(base);
+  });
+
+  it('keeps upgrades when a rally clears enemy debuffs', () => {
+    const engine = createEngine();
+    const upgrade = createActiveModifier(
+      { id: 'armor_up', target: 'armor', type: 'flat', value: 3 },
+      'upgrade',
+      'upgrade_armor_up'
+    );
+    const hound = spawn(engine, 'hound', 'player', 300, 400, [upgrade]);
+    hound.applyModifier(createTimed(SLOW, 'shockwave', 5, 'enemy'));
+    hound.queueModifier(createTimed(SLOW, 'engagement', 5, 'enemy'), 0.2);
+
+    hound.clearEnemyDebuffs();
+
+    expect(hound.activeModifiers.map((m) => m.sourceId)).toEqual(['upgrade_armor_up']);
+    expect(hound.pendingModifiers).toHaveLength(0);
+    expect(hound.stats.armor).toBe(3);
+  });
+
+  it('applies the melee engagement debuff to both sides', () => {
+    const engine = createEngine();
+    const attacker = spawn(engine, 'crawler', 'player', 300, 400);
+    const defender = spawn(engine, 'crawler', 'enemy', 300, 390);
+    engine.start();
+
+    for (let i = 0; i < 60 && !defender.hasModifier('melee_engagement'); i++) {
+      engine.tick(1 / 60);
+    }
+
+    expect(attacker.hasModifier('melee_engagement')).toBe(true);
+    expect(defender.hasModifier('melee_engagement')).toBe(true);
+    expect(attacker.getCollisionSize()).toBeCloseTo(attacker.size * 2);
+    expect(attacker.stats.moveSpeed).toBeCloseTo(attacker.baseStats.moveSpeed * 0.5);
+  });
+});
@@ -54,13 +54,16 @@ function createMockContext(
     hasAnyEnemyCastleBeenDestroyed: boolean;
     bounds: { width: number; height: number; margin?: number } | null;
     arenaHeight: number;
+    pathDirection: Vector2;
   }> = {}
 ): MovementContext {
+  const { pathDirection } = options;
   return {
     getAllies: () => options.allies ?? [],
     getEnemyCastles: () => options.enemyCastles ?? [],
     hasAnyEnemyCastleBeenDestroyed: () => options.hasAnyEnemyCastleBeenDestroyed ?? false,
     getObstacles: () => [],
+    getPathDirection: pathDirection ? () => pathDirection : undefined,
     bounds: options.bounds ?? { width: 800, height: REFERENCE_ARENA_HEIGHT },
     arenaHeight: options.arenaHeight ?? REFERENCE_ARENA_HEIGHT,
   };
@@ -96,6 +99,15 @@ describe('MovementSystem', () => {
       expect(dir.y).toBe(-1);
     });
 
+    it('should follow the grid path when one is given', () => {
+      const context = createMockContext({ pathDirection: new Vector2(1, 0) });
+
+      const dir = calculateMarchDirection(new Vector2(400, 400), 'player', context);
+
+      expect(dir.x).toBe(1);
+      expect(dir.y).toBe(0);
+    });
+
     it('should march toward closest castle after first destruction', () => {
       const castle = createMockCastle('castle_1', 400, 50, 100, false);
       const context = createMockContext({
@@ -476,6 +488,22 @@ describe('MovementSystem', () => {
       expect(result.position.y).toBeLessThan(400);
     });
 
+    it('should follow the grid path around obstacles', () => {
+      const context = createMockContext({ pathDirection: new Vector2(-1, 0) });
+      const result = moveTowardTarget(
+        new Vector2(400, 400),
+        new Vector2(400, 300),
+        'unit_1',
+        10,
+        50,
+        context,
+        1.0
+      );
+
+      expect(result.position.x).toBeLessThan(400);
+      expect(result.position.y).toBe(400);
+    });
+
     it('should apply path avoidance when allies block', () => {
       const blockerAlly = createMockAlly('ally_1', 400, 350);
       const context = createMockContext({ allies: [blockerAlly] });
@@ -0,0 +1,218 @@
+import { describe, it, expect } from 'vitest';
+import { Vector2 } from '../../../../src/core/physics/Vector2';
+import {
+  hasReachedDestination,
+  isOrderActive,
+  updateOrderTargeting,
+} from '../../../../src/core/battle/unit-behaviors/OrderSystem';
+import { REFERENCE_ARENA_HEIGHT } from '../../../../src/core/battle/BattleConfig';
+import { BattleEngine } from '../../../../src/core/battle/BattleEngine';
+import { IDamageable } from '../../../../src/core/battle/IEntity';
+import {
+  OrderTargetingContext,
+  TargetableUnit,
+} from '../../../../src/core/battle/unit-behaviors/types';
+import { createBattleRegistries } from '../../../../src/data/battle';
+
+const registries = createBattleRegistries();
+
+function createMockDamageable(id: string, x: number, y: number, health = 100): IDamageable {
+  return {
+    id,
+    position: new Vector2(x, y),
+    health,
+    size: 10,
+    isDestroyed: () => false,
+  };
+}
+
+function createMockUnit(x: number, y: number, target: IDamageable | null = null): TargetableUnit {
+  return {
+    id: 'unit',
+    team: 'player',
+    position: new Vector2(x, y),
+    size: 10,
+    target,
+    seekMode: false,
+    retargetCooldown: 0,
+  };
+}
+
+function createMockContext(
+  enemies: IDamageable[],
+  squads: Record<string, IDamageable[]> = {}
+): OrderTargetingContext {
+  return {
+    getEnemyDamageables: () => enemies,
+    getEnemyCastles: () => [],
+    getInitialCastleCount: () => 0,
+    getSquadUnits: (squadId) => squads[squadId] ?? [],
+    bounds: { width: 800, height: REFERENCE_ARENA_HEIGHT },
+    arenaHeight: REFERENCE_ARENA_HEIGHT,
+  };
+}
+
+describe('updateOrderTargeting', () => {
+  it('holds fire until an enemy is within reach', () => {
+    const near = createMockDamageable('near', 130, 100);
+    const far = createMockDamageable('far', 300, 100);
+    const unit = createMockUnit(100, 100);
+
+    expect(updateOrderTargeting(unit, { type: 'hold' }, 20, createMockContext([far])).target).toBe(
+      null
+    );
+    expect(
+      updateOrderTargeting(unit, { type: 'hold' }, 40, createMockContext([far, near])).target
+    ).toBe(near);
+  });
+
+  it('drops a held target that leaves reach', () => {
+    const target = createMockDamageable('target', 135, 100);
+    const unit = createMockUnit(100, 100, target);
+
+    // Edge within reach: 35 - size 10 <= 30
+    expect(updateOrderTargeting(unit, { type: 'hold' }, 30, createMockContext([])).target).toBe(
+      target
+    );
+    expect(updateOrderTargeting(unit, { type: 'hold' }, 20, createMockContext([])).target).toBe(
+      null
+    );
+  });
+
+  it('focuses the closest unit of the ordered squad', () => {
+    const closeEnemy = createMockDamageable('close', 110, 100);
+    const squadFar = createMockDamageable('squad-far', 200, 100);
+    const squadNear = createMockDamageable('squad-near', 150, 100);
+    const context = createMockContext([closeEnemy, squadFar, squadNear], {
+      squad_1: [squadFar, squadNear],
+    });
+    const order = { type: 'focus', targetSquadId: 'squad_1' } as const;
+
+    expect(updateOrderTargeting(createMockUnit(100, 100), order, 20, context).target).toBe(
+      squadNear
+    );
+    // An existing squad target is kept even when another member is closer
+    expect(
+      updateOrderTargeting(createMockUnit(100, 100, squadFar), order, 20, context).target
+    ).toBe(squadFar);
+    expect(
+      updateOrderTargeting(createMockUnit(100, 100, closeEnemy), order, 20, context).target
+    ).toBe(squadNear);
+  });
+
+  it('disengages while falling back', () => {
+    const enemy = createMockDamageable('enemy', 110, 100);
+    const unit = createMockUnit(100, 100, enemy);
+    const order = { type: 'fall_back', x: 100, y: 500 } as const;
+
+    expect(updateOrderTargeting(unit, order, 20, createMockContext([enemy])).target).toBe(null);
+  });
+
+  it('charges the nearest enemy anywhere on the field', () => {
+    const enemy = createMockDamageable('enemy', 700, 50);
+    const unit = createMockUnit(100, 600);
+
+    const result = updateOrderTargeting(unit, { type: 'charge' }, 20, createMockContext([enemy]));
+
+    expect(result.target).toBe(enemy);
+    expect(result.seekMode).toBe(true);
+  });
+});
+
+describe('isOrderActive', () => {
+  it('ends a focus order once its squad is gone', () => {
+    const order = { type: 'focus', targetSquadId: 'squad_1' } as const;
+    const member = createMockDamageable('member', 0, 0);
+
+    expect(isOrderActive(order, createMockContext([], { squad_1: [member] }))).toBe(true);
+    expect(isOrderActive(order, createMockContext([]))).toBe(false);
+    expect(isOrderActive({ type: 'hold' }, createMockContext([]))).toBe(true);
+  });
+});
+
+describe('hasReachedDestination', () => {
+  it('checks distance to the fall back point', () => {
+    const order = { type: 'fall_back', x: 100, y: 100 } as const;
+
+    expect(hasReachedDestination(new Vector2(105, 100), order, 8)).toBe(true);
+    expect(hasReachedDestination(new Vector2(110, 100), order, 8)).toBe(false);
+  });
+});
+
+describe('BattleEngine.issueOrder', () => {
+  function createEngine(): BattleEngine {
+    const engine = new BattleEngine(registries.units);
+    engine.setArenaBounds(720, 620);
+    return engine;
+  }
+
+  it('only orders living player units once the battle starts', () => {
+    const engine = createEngine();
+    const player = engine.spawnUnit('hound', 'player', new Vector2(100, 500));
+    const enemy = engine.spawnUnit('hound', 'enemy', new Vector2(100, 100));
+    const castle = engine.spawnCastle('player', new Vector2(360, 560));
+
+    expect(engine.issueOrder([player.id], { type: 'hold' })).toEqual([]);
+
+    engine.start();
+    expect(engine.issueOrder([player.id, enemy.id, castle.id], { type: 'hold' })).toEqual([
+      player.id,
+    ]);
+    expect(engine.getUnitEntity(player.id)!.order).toEqual({ type: 'hold' });
+    expect(engine.getUnitEntity(enemy.id)!.order).toBeUndefined();
+  });
+
+  it('rejects focus orders on friendly or missing squads', () => {
+    const engine = createEngine();
+    const player = engine.spawnUnit('hound', 'player', new Vector2(100, 500));
+    const enemy = engine.spawnUnit('hound', 'enemy', new Vector2(100, 100));
+    engine.start();
+
+    expect(
+      engine.issueOrder([player.id], { type: 'focus', targetSquadId: player.squadId })
+    ).toEqual([]);
+    expect(engine.issueOrder([player.id], { type: 'focus', targetSquadId: 'missing' })).toEqual([]);
+    expect(engine.issueOrder([player.id], { type: 'focus', targetSquadId: enemy.squadId })).toEqual(
+      [player.id]
+    );
+  });
+
+  it('keeps holding units in place', () => {
+    const engine = createEngine();
+    const player = engine.spawnUnit('hound', 'player', new Vector2(100, 500));
+    engine.spawnUnit('hound', 'enemy', new Vector2(600, 100));
+    engine.start();
+    engine.issueOrder([player.id], { type: 'hold' });
+
+    for (let i = 0; i < 60; i++) engine.tick(1 / 60);
+
+    expect(engine.getUnitEntity(player.id)!.position).toEqual(new Vector2(100, 500));
+  });
+
+  it('holds after falling back to the ordered point', () => {
+    const engine = createEngine();
+    const player = engine.spawnUnit('hound', 'player', new Vector2(100, 520));
+    engine.spawnUnit('hound', 'enemy', new Vector2(600, 100));
+    engine.start();
+    engine.issueOrder([player.id], { type: 'fall_back', x: 100, y: 560 });
+
+    const unit = engine.getUnitEntity(player.id)!;
+    for (let i = 0; i < 600 && unit.order?.type === 'fall_back'; i++) engine.tick(1 / 60);
+
+    expect(unit.order).toEqual({ type: 'hold' });
+    expect(unit.position.distanceTo(new Vector2(100, 560))).toBeLessThan(10);
+  });
+
+  it('returns to auto-battle once the focused squad is wiped out', () => {
+    const engine = createEngine();
+    const player = engine.spawnUnit('hound', 'player', new Vector2(100, 500));
+    const enemy = engine.spawnUnit('hound', 'enemy', new Vector2(600, 100));
+    engine.start();
+    engine.issueOrder([player.id], { type: 'focus', targetSquadId: enemy.squadId });
+
+    engine.getUnitEntity(enemy.id)!.takeDamage(100000);
+    engine.tick(1 / 60);
+
+    expect(engine.getUnitEntity(player.id)!.order).toBeUndefined();
+  });
+});
@@ -0,0 +1,309 @@
+import { describe, it, expect } from 'vitest';
+import {
+  absorbDamage,
+  applyStatusEffect,
+  clearEnemyStatuses,
+  createStatusEffect,
+  tickStatusEffects,
+} from '../../../../src/core/battle/unit-behaviors/StatusEffectSystem';
+import {
+  BURN_MAX_STACKS,
+  STATUS_TICK_INTERVAL,
+  STUN_IMMUNITY_DURATION,
+} from '../../../../src/core/battle/BattleConfig';
+import { BattleEngine } from '../../../../src/core/battle/BattleEngine';
+import {
+  AbilityEffectContext,
+  applyAbilityEffect,
+} from '../../../../src/core/battle/abilities/AbilityEffectResolver';
+import { UnitEntity } from '../../../../src/core/battle/entities/UnitEntity';
+import { StatusEffect } from '../../../../src/core/battle/status/types';
+import { UnitTeam } from '../../../../src/core/battle/types';
+import { Vector2 } from '../../../../src/core/physics/Vector2';
+import { createBattleRegistries } from '../../../../src/data/battle';
+
+const registries = createBattleRegistries();
+
+function apply(statuses: StatusEffect[], status: StatusEffect, maxStacks?: number): StatusEffect[] {
+  return applyStatusEffect(statuses, {}, status, maxStacks).statuses;
+}
+
+describe('StatusEffectSystem', () => {
+  describe('applyStatusEffect', () => {
+    it('keeps the active stun instead of adding a second one', () => {
+      const first = createStatusEffect('stun', 'a', 'enemy', 1);
+      const second = createStatusEffect('stun', 'b', 'enemy', 2);
+
+      const result = apply(apply([], first), second);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].sourceId).toBe('a');
+      expect(result[0].remainingDuration).toBe(1);
+    });
+
+    it('does not extend a stun re-applied mid-stun', () => {
+      const stun = createStatusEffect('stun', 'a', 'enemy', 1);
+      const midStun = tickStatusEffects([stun], {}, 0.5);
+
+      const restunned = apply(midStun.statuses, createStatusEffect('stun', 'b', 'enemy', 1));
+      const ended = tickStatusEffects(restunned, midStun.immunities, 0.5);
+
+      expect(ended.statuses).toHaveLength(0);
+      expect(ended.immunities.stun).toBe(STUN_IMMUNITY_DURATION);
+    });
+
+    it('keeps the strongest slow', () => {
+      const weak = createStatusEffect('slow', 'a', 'enemy', 3, 0.2);
+      const strong = createStatusEffect('slow', 'b', 'enemy', 1, 0.5);
+
+      const result = apply(apply([], weak), strong);
+
+      expect(result).toHaveLength(1);
+      expect(result[0].amount).toBe(0.5);
+      expect(result[0].remainingDuration).toBe(3);
+    });
+
+    it('stacks burns up to the max stacks', () => {
+      const burn = createStatusEffect('burn', 'fire', 'enemy', 3, 10);
+
+      let result = apply([], burn);
+      for (let i = 0; i < BURN_MAX_STACKS + 2; i++) result = apply(result, burn);
+      expect(result[0].stacks).toBe(BURN_MAX_STACKS);
+
+      expect(apply(apply([], burn, 2), burn, 2)[0].stacks).toBe(2);
+    });
+
+    it('is ignored during an immunity window', () => {
+      const stun = createStatusEffect('stun', 'a', 'enemy', 1);
+
+      const result = applyStatusEffect([], { stun: 0.5 }, stun);
+
+      expect(result.applied).toBe(false);
+      expect(result.statuses).toHaveLength(0);
+    });
+  });
+
+  describe('tickStatusEffects', () => {
+    it('pulses burns every tick interval until they run out', () => {
+      let statuses = apply([], createStatusEffect('burn', 'fire', 'enemy', 2, 10));
+      statuses = apply(statuses, createStatusEffect('burn', 'fire', 'enemy', 2, 10));
+      let immunities = {};
+      const pulses: number[] = [];
+
+      for (let i = 0; i < 180; i++) {
+        const result = tickStatusEffects(statuses, immunities, 1 / 60);
+        statuses = result.statuses;
+        immunities = result.immunities;
+        pulses.push(...result.pulses.map((p) => p.amount));
+      }
+
+      // 2 stacks * 10 per second, every 0.5s for 2s
+      expect(pulses).toHaveLength(2 / STATUS_TICK_INTERVAL);
+      pulses.forEach((amount) => expect(amount).toBeCloseTo(2 * 10 * STATUS_TICK_INTERVAL));
+      expect(statuses).toHaveLength(0);
+    });
+
+    it('starts an immunity window when a stun ends', () => {
+      const stun = createStatusEffect('stun', 'a', 'enemy', 1);
+
+      const ended = tickStatusEffects([stun], {}, 1);
+      expect(ended.expired).toHaveLength(1);
+      expect(ended.immunities.stun).toBe(STUN_IMMUNITY_DURATION);
+
+      const later = tickStatusEffects([], ended.immunities, STUN_IMMUNITY_DURATION);
+      expect(later.immunities.stun).toBeUndefined();
+    });
+
+    it('uses the immunity of the status when it has one', () => {
+      const root = { ...createStatusEffect('root', 'a', 'enemy', 1), immunity: 5 };
+
+      expect(tickStatusEffects([root], {}, 1).immunities.root).toBe(5);
+    });
+  });
+
+  describe('absorbDamage', () => {
+    it('soaks up damage and breaks once empty', () => {
+      const shield = createStatusEffect('shield', 'barrier', 'player', 10, 30);
+
+      const first = absorbDamage([shield], 20);
+      expect(first.absorbed).toBe(20);
+      expect(first.statuses[0].amount).toBe(10);
+
+      const second = absorbDamage(first.statuses, 25);
+      expect(second.absorbed).toBe(10);
+      expect(second.statuses).toHaveLength(0);
+    });
+  });
+
+  describe('clearEnemyStatuses', () => {
+    it('removes statuses from the enemy team and keeps the rest', () => {
+      const statuses = [
+        createStatusEffect('stun', 'a', 'enemy', 1),
+        createStatusEffect('regen', 'b', 'player', 1, 5),
+      ];
+
+      expect(clearEnemyStatuses(statuses, 'player').map((s) => s.type)).toEqual(['regen']);
+    });
+  });
+});
+
+describe('UnitEntity status effects', () => {
+  function createEngine(): BattleEngine {
+    const engine = new BattleEngine(registries.units);
+    engine.setArenaBounds(720, 620);
+    return engine;
+  }
+
+  function spawn(engine: BattleEngine, team: UnitTeam, x: number, y: number): UnitEntity {
+    return engine.getUnitEntity(engine.spawnUnit('hound', team, new Vector2(x, y)).id)!;
+  }
+
+  function createContext(engine: BattleEngine): AbilityEffectContext {
+    return {
+      arenaHeight: 620,
+      arenaBounds: null,
+      battleTime: 0,
+      getUnitById: (id) => engine.getUnitEntity(id),
+      spawnShockwave: () => {},
+      spawnUnit: null,
+    };
+  }
+
+  it('stops stunned units from moving or attacking', () => {
+    const engine = createEngine();
+    const hound = spawn(engine, 'player', 300, 500);
+    spawn(engine, 'enemy', 300, 420);
+    const start = hound.position.clone();
+    engine.start();
+
+    hound.applyStatusEffect(createStatusEffect('stun', 'test', 'enemy', 1));
+    for (let i = 0; i < 30; i++) engine.tick(1 / 60);
+
+    expect(hound.position).toEqual(start);
+    expect(hound.target).toBeNull();
+  });
+
+  it('keeps rooted units in place', () => {
+    const engine = createEngine();
+    const hound = spawn(engine, 'player', 300, 500);
+    spawn(engine, 'enemy', 300, 100);
+    const start = hound.position.clone();
+    engine.start();
+
+    hound.applyStatusEffect(createStatusEffect('root', 'test', 'enemy', 1));
+    for (let i = 0; i < 30; i++) engine.tick(1 / 60);
+    expect(hound.position).toEqual(start);
+
+    for (let i = 0; i < 60; i++) engine.tick(1 / 60);
+    expect(hound.position).not.toEqual(start);
+  });
+
+  it('slows units through the modifier stack until the slow ends', () => {
+    const engine = createEngine();
+    const hound = spawn(engine, 'player', 300, 500);
+
+    hound.applyStatusEffect(createStatusEffect('slow', 'test', 'enemy', 1, 0.4));
+    expect(hound.stats.moveSpeed).toBeCloseTo(hound.baseStats.moveSpeed * 0.6);
+
+    hound.update(1);
+    expect(hound.stats.moveSpeed).toBe(hound.baseStats.moveSpeed);
+  });
+
+  it('credits burn kills to the unit that applied the burn', () => {
+    const engine = createEngine();
+    const caster = spawn(engine, 'player', 300, 500);
+    const victim = spawn(engine, 'enemy', 300, 100);
+    victim.health = 5;
+    let killer: unknown;
+    victim.on('killed', (event) => (killer = event.killer));
+
+    victim.applyStatusEffect({
+      ...createStatusEffect('burn', 'test', 'player', 3, 20),
+      sourceUnitId: caster.id,
+    });
+    victim.update(STATUS_TICK_INTERVAL);
+
+    expect(victim.isDying).toBe(true);
+    expect(killer).toBe(caster);
+  });
+
+  it('lets a burn from incendiary rounds run out after a single hit', () => {
+    const engine = new BattleEngine(registries.units, { abilityRegistry: registries.abilities });
+    engine.setArenaBounds(720, 620);
+    const caster = engine.getUnitEntity(
+      engine.spawnUnitFromDefinition(
+        registries.units.get('fang'),
+        'player',
+        new Vector2(300, 500),
+        undefined,
+        undefined,
+        1,
+        { grantedAbilities: ['incendiary_rounds'] }
+      ).id
+    )!;
+    const target = spawn(engine, 'enemy', 300, 100);
+
+    target.takeDamage(1, caster, caster.stats.ranged!);
+    expect(target.statusEffects.map((s) => s.type)).toEqual(['burn']);
+
+    // Burn pulses are not hits, so they never reapply the burn
+    for (let t = 0; t < 3; t += STATUS_TICK_INTERVAL) target.update(STATUS_TICK_INTERVAL);
+
+    expect(target.statusEffects).toHaveLength(0);
+    expect(target.isDying).toBe(false);
+  });
+
+  it('absorbs damage with a shield before health', () => {
+    const engine = createEngine();
+    const hound = spawn(engine, 'player', 300, 500);
+    const maxHealth = hound.stats.maxHealth;
+    let shieldAbsorbed = 0;
+    hound.on('damaged', (event) => (shieldAbsorbed += event.shieldAbsorbed));
+
+    hound.applyStatusEffect(createStatusEffect('shield', 'test', 'player', 5, 30));
+    hound.takeDamage(20);
+    hound.takeDamage(20);
+
+    expect(shieldAbsorbed).toBe(30);
+    expect(hound.health).toBe(maxHealth - 10);
+    expect(hound.statusEffects).toHaveLength(0);
+  });
+
+  it('applies status effects from ability JSON', () => {
+    const engine = createEngine();
+    const caster = spawn(engine, 'player', 300, 500);
+    const target = spawn(engine, 'enemy', 300, 100);
+    const context = createContext(engine);
+
+    for (const id of ['incendiary_rounds', 'frost_rounds', 'concussive_strike']) {
+      const ability = registries.abilities.get(id);
+      for (const effect of ability.effects) {
+        applyAbilityEffect({ effect, targetUnitIds: [target.id] }, caster, id, context);
+      }
+    }
+    const barrier = registries.abilities.get('energy_barrier');
+    applyAbilityEffect(
+      { effect: barrier.effects[0], targetUnitIds: [caster.id] },
+      caster,
+      barrier.id,
+      context
+    );
+
+    expect(target.statusEffects.map((s) => s.type)).toEqual(['burn', 'slow', 'stun']);
+    expect(target.statusEffects[0].sourceUnitId).toBe(caster.id);
+    expect(target.isStunned).toBe(true);
+    expect(caster.statusEffects[0].amount).toBeCloseTo(caster.stats.maxHealth * 0.2);
+  });
+
+  it('lets a rally cleanse enemy statuses', () => {
+    const engine = createEngine();
+    const hound = spawn(engine, 'player', 300, 500);
+    hound.applyStatusEffect(createStatusEffect('slow', 'test', 'enemy', 5, 0.5));
+    hound.applyStatusEffect(createStatusEffect('regen', 'test', 'player', 5, 5));
+
+    hound.clearEnemyDebuffs();
+
+    expect(hound.statusEffects.map((s) => s.type)).toEqual(['regen']);
+    expect(hound.stats.moveSpeed).toBe(hound.baseStats.moveSpeed);
+  });
+});
@@ -7,6 +7,8 @@ import {
   findDamageableInAggroRadius,
   findNearestDamageable,
   findClosestEnemyCastle,
+  findRepairTarget,
+  isOnTargetLayer,
   updateTargeting,
 } from '../../../../src/core/battle/unit-behaviors/TargetingSystem';
 import {
@@ -17,8 +19,14 @@ import {
   TARGET_SWITCH_COOLDOWN_SECONDS,
 } from '../../../../src/core/battle/BattleConfig';
 import { IDamageable } from '../../../../src/core/battle/IEntity';
-import { TargetingContext, TargetableUnit } from '../../../../src/core/battle/unit-behaviors/types';
+import {
+  RepairableAlly,
+  TargetingContext,
+  TargetableUnit,
+  TargetTraits,
+} from '../../../../src/core/battle/unit-behaviors/types';
 import { UnitTeam } from '../../../../src/core/battle/types';
+import { MovementLayer, TargetPriority } from '../../../../src/core/battle/units/types';
 
 // Mock damageable for testing
 function createMockDamageable(
@@ -37,6 +45,18 @@ function createMockDamageable(
   };
 }
 
+// Mock ally for repair targeting
+function createMockAlly(id: string, x: number, health: number, destroyed = false): RepairableAlly {
+  return {
+    id,
+    position: new Vector2(x, 0),
+    size: 10,
+    health,
+    stats: { maxHealth: 100 },
+    isDestroyed: () => destroyed,
+  };
+}
+
 // Mock targetable unit for testing
 function createMockTargetableUnit(
   id: string,
@@ -478,4 +498,161 @@ describe('TargetingSystem', () => {
       expect(result.seekMode).toBe(true);
     });
   });
+
+  describe('priority targeting', () => {
+    const traits: Record<string, TargetTraits> = {
+      tank: { category: 'infantry', isCastle: false, threat: 10, incomingDamage: 0 },
+      sniper: { category: 'artillery', isCastle: false, threat: 500, incomingDamage: 0 },
+      weak: { category: 'ranged', isCastle: false, threat: 50, incomingDamage: 200 },
+      castle: { isCastle: true, threat: 0, incomingDamage: 0 },
+    };
+
+    // Tank in front, the rest behind it (all within aggro radius of the unit at 400,400)
+    const createEnemies = () => [
+      createMockDamageable('tank', 400, 370, 1000),
+      createMockDamageable('sniper', 430, 300, 800),
+      createMockDamageable('weak', 370, 310, 100),
+      createMockDamageable('castle', 400, 280, 5000),
+    ];
+
+    function createPriorityContext(enemies: IDamageable[]): TargetingContext {
+      return {
+        ...createMockContext({ enemyDamageables: enemies }),
+        getTargetTraits: (target) => traits[target.id],
+      };
+    }
+
+    function pick(priority: TargetPriority, enemies = createEnemies()): string | undefined {
+      const unit = {
+        ...createMockTargetableUnit('unit_1', 'player', 400, 400),
+        targetPriority: priority,
+      };
+      return updateTargeting(unit, createPriorityContext(enemies)).target?.id;
+    }
+
+    it('ranks enemies in aggro range by the rule', () => {
+      expect(pick({ rule: 'nearest' })).toBe('tank');
+      expect(pick({ rule: 'lowest_health' })).toBe('weak');
+      expect(pick({ rule: 'highest_threat' })).toBe('sniper');
+      expect(pick({ rule: 'category', category: 'artillery' })).toBe('sniper');
+      expect(pick({ rule: 'castle' })).toBe('castle');
+    });
+
+    it('skips enemies allies will already kill', () => {
+      const enemies = createEnemies().filter((enemy) => enemy.id !== 'tank');
+
+      // weak (100 HP) has 200 incoming damage; sniper is next nearest
+      expect(pick({ rule: 'avoid_overkill' }, enemies)).toBe('sniper');
+    });
+
+    it('falls back to nearest when no enemy matches', () => {
+      expect(pick({ rule: 'category', category: 'cavalry' })).toBe('tank');
+    });
+
+    it('ignores enemies outside aggro radius unless seeking', () => {
+      const farSniper = [createMockDamageable('sniper', 400, 400 - BASE_AGGRO_RADIUS - 10)];
+      const unit = {
+        ...createMockTargetableUnit('unit_1', 'player', 400, 400),
+        targetPriority: { rule: 'highest_threat' } as const,
+      };
+
+      expect(updateTargeting(unit, createPriorityContext(farSniper)).target).toBeNull();
+      expect(
+        updateTargeting({ ...unit, seekMode: true }, createPriorityContext(farSniper)).target?.id
+      ).toBe('sniper');
+    });
+
+    it('switches only to a better target once the cooldown runs out', () => {
+      const enemies = createEnemies();
+      const [tank, sniper] = enemies;
+      const unit = {
+        ...createMockTargetableUnit('unit_1', 'player', 400, 400, {
+          target: tank,
+          retargetCooldown: 1,
+        }),
+        targetPriority: { rule: 'highest_threat' } as const,
+      };
+      const context = createPriorityContext(enemies);
+
+      expect(updateTargeting(unit, context).target).toBe(tank);
+
+      const result = updateTargeting({ ...unit, retargetCooldown: 0 }, context);
+      expect(result.target).toBe(sniper);
+      expect(result.retargetCooldown).toBe(TARGET_SWITCH_COOLDOWN_SECONDS);
+
+      // Equal scores keep the current target
+      const kept = updateTargeting(
+        { ...unit, target: sniper, retargetCooldown: 0 },
+        { ...context, getTargetTraits: () => traits.tank }
+      );
+      expect(kept.target).toBe(sniper);
+    });
+  });
+
+  describe('target layers', () => {
+    function createFlyer(id: string, x: number, y: number): IDamageable {
+      return { ...createMockDamageable(id, x, y), movementLayer: 'air' };
+    }
+
+    const groundOnly: readonly MovementLayer[] = ['ground'];
+
+    it('treats targets without a layer as ground', () => {
+      expect(isOnTargetLayer(createMockDamageable('tank', 0, 0), groundOnly)).toBe(true);
+      expect(isOnTargetLayer(createFlyer('wasp', 0, 0), groundOnly)).toBe(false);
+      expect(isOnTargetLayer(createFlyer('wasp', 0, 0), undefined)).toBe(true);
+    });
+
+    it('skips enemies on layers the unit cannot hit', () => {
+      const flyer = createFlyer('wasp', 400, 380);
+      const tank = createMockDamageable('tank', 400, 300);
+      const unit = {
+        ...createMockTargetableUnit('unit_1', 'player', 400, 400),
+        targetLayers: groundOnly,
+      };
+      const context = createMockContext({ enemyDamageables: [flyer, tank] });
+
+      expect(updateTargeting(unit, context).target).toBe(tank);
+      expect(updateTargeting({ ...unit, targetLayers: undefined }, context).target).toBe(flyer);
+    });
+
+    it('drops a target on a layer the unit cannot hit', () => {
+      const flyer = createFlyer('wasp', 400, 380);
+      const unit = {
+        ...createMockTargetableUnit('unit_1', 'player', 400, 400, { target: flyer }),
+        targetLayers: groundOnly,
+      };
+
+      expect(updateTargeting(unit, createMockContext()).target).toBeNull();
+    });
+  });
+
+  describe('findRepairTarget', () => {
+    const origin = new Vector2(0, 0);
+
+    it('picks the ally missing the largest share of its health', () => {
+      const allies = [
+        createMockAlly('scratched', 10, 97),
+        createMockAlly('hurt', 50, 60),
+        createMockAlly('dying', 90, 20),
+        createMockAlly('dead', 5, 10, true),
+      ];
+
+      expect(findRepairTarget(origin, null, allies)?.id).toBe('dying');
+    });
+
+    it('returns null when no ally is wounded enough', () => {
+      const allies = [createMockAlly('full', 10, 100), createMockAlly('scratched', 20, 96)];
+
+      expect(findRepairTarget(origin, null, allies)).toBeNull();
+    });
+
+    it('keeps repairing the current ally until it is repaired or out of reach', () => {
+      const current = createMockAlly('current', 10, 80);
+      const worse = createMockAlly('worse', 20, 30);
+
+      expect(findRepairTarget(origin, current, [current, worse])).toBe(current);
+      expect(findRepairTarget(origin, current, [worse])).toBe(worse);
+      expect(findRepairTarget(origin, { ...current, health: 100 }, [current, worse])).toBe(worse);
+    });
+  });
 });
@@ -2,12 +2,16 @@ import { describe, it, expect } from 'vitest';
 import {
   computeStat,
   computeAllStats,
+  computeUnitStats,
   cloneBaseStats,
+  createLevelStats,
   calculateDamageAfterArmor,
+  resolveDamage,
 } from '../../../../src/core/battle/units/StatCalculator';
 import { createActiveModifier } from '../../../../src/core/battle/modifiers/ModifierCalculator';
 import { Modifier } from '../../../../src/core/battle/modifiers/types';
 import { BaseStats } from '../../../../src/core/battle/units/types';
+import { UnitStats } from '../../../../src/core/battle/types';
 
 describe('StatCalculator', () => {
   const baseStats: BaseStats = {
@@ -123,6 +127,69 @@ describe('StatCalculator', () => {
     });
   });
 
+  describe('computeUnitStats', () => {
+    const unitStats: UnitStats = {
+      maxHealth: 100,
+      moveSpeed: 80,
+      attackInterval: 2,
+      melee: { damage: 15, attackSpeed: 1.0, range: 35 },
+      ranged: null,
+    };
+
+    it('returns the same stats object when no modifiers', () => {
+      expect(computeUnitStats(unitStats, [])).toBe(unitStats);
+    });
+
+    it('applies modifiers to runtime stats', () => {
+      const modifiers = [
+        createActiveModifier(
+          { id: 'dmg', target: 'melee.damage', type: 'percent', value: 0.5 },
+          'ability',
+          'a1'
+        ),
+        createActiveModifier(
+          { id: 'armor', target: 'armor', type: 'flat', value: 10 },
+          'ability',
+          'a2'
+        ),
+      ];
+
+      const computed = computeUnitStats(unitStats, modifiers);
+
+      expect(computed.melee?.damage).toBe(22.5);
+      expect(computed.armor).toBe(10);
+      expect(computed.maxHealth).toBe(100);
+      expect(unitStats.melee?.damage).toBe(15); // base untouched
+    });
+
+    it('scales a fixed attack interval by attack speed', () => {
+      const haste = createActiveModifier(
+        { id: 'haste', target: 'melee.attackSpeed', type: 'percent', value: 1 },
+        'ability',
+        'a1'
+      );
+
+      const computed = computeUnitStats(unitStats, [haste]);
+
+      expect(computed.attackInterval).toBe(1); // 2s at double speed
+    });
+  });
+
+  describe('createLevelStats', () => {
+    it('multiplies health and damage by level', () => {
+      const stats = createLevelStats(baseStats, 3);
+
+      expect(stats.maxHealth).toBe(300);
+      expect(stats.melee?.damage).toBe(45);
+      expect(stats.melee?.attackSpeed).toBe(1.0);
+      expect(stats.moveSpeed).toBe(80);
+    });
+
+    it('treats levels below 1 as level 1', () => {
+      expect(createLevelStats(baseStats, 0).maxHealth).toBe(100);
+    });
+  });
+
   describe('cloneBaseStats', () => {
     it('creates a deep copy of base stats', () => {
       const cloned = cloneBaseStats(baseStats);
@@ -154,4 +221,45 @@ describe('StatCalculator', () => {
       expect(result).toBe(25);
     });
   });
+
+  describe('resolveDamage', () => {
+    it('treats untyped hits as kinetic against full armor', () => {
+      expect(resolveDamage(20, {}, 5)).toEqual({
+        damageType: 'kinetic',
+        raw: 20,
+        resisted: 0,
+        absorbed: 5,
+        dealt: 15,
+      });
+    });
+
+    it('weights armor by damage type', () => {
+      expect(resolveDamage(20, { damageType: 'explosive' }, 10).dealt).toBe(15);
+      expect(resolveDamage(20, { damageType: 'energy' }, 10).dealt).toBe(20);
+    });
+
+    it('ignores armor up to the penetration value', () => {
+      expect(resolveDamage(20, { armorPenetration: 3 }, 5).dealt).toBe(18);
+      expect(resolveDamage(20, { armorPenetration: 10 }, 5).dealt).toBe(20);
+    });
+
+    it('applies resistances before armor', () => {
+      const result = resolveDamage(20, { damageType: 'kinetic' }, 5, { kinetic: 0.5 });
+
+      expect(result).toMatchObject({ resisted: 10, absorbed: 5, dealt: 5 });
+    });
+
+    it('increases damage for weaknesses and caps resistance', () => {
+      expect(resolveDamage(20, {}, 0, { kinetic: -0.5 })).toMatchObject({
+        resisted: -10,
+        dealt: 30,
+      });
+      expect(resolveDamage(20, {}, 0, { kinetic: 1 }).dealt).toBeCloseTo(2);
+    });
+
+    it('keeps the minimum damage without exceeding the hit', () => {
+      expect(resolveDamage(5, {}, 10).dealt).toBe(1);
+      expect(resolveDamage(0, {}, 10).dealt).toBe(0);
+    });
+  });
 });
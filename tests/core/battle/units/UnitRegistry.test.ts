@@ -110,19 +110,14 @@ describe('UnitRegistry', () => {
       registry.registerAll([warriorDef, archerDef, eliteWarriorDef]);
     });
 
-    it('includes tier 1 units by default', () => {
-      const unlocked = registry.getUnlocked(new Set());
+    it('includes only unlocked units, whatever their tier', () => {
+      const unlocked = registry.getUnlocked(new Set(['warrior', 'elite_warrior']));
 
-      expect(unlocked).toHaveLength(2);
-      expect(unlocked.map((u) => u.id)).toContain('warrior');
-      expect(unlocked.map((u) => u.id)).toContain('archer');
+      expect(unlocked.map((u) => u.id)).toEqual(['warrior', 'elite_warrior']);
     });
 
-    it('includes explicitly unlocked higher tier units', () => {
-      const unlocked = registry.getUnlocked(new Set(['elite_warrior']));
-
-      expect(unlocked).toHaveLength(3);
-      expect(unlocked.map((u) => u.id)).toContain('elite_warrior');
+    it('includes nothing when no units are unlocked', () => {
+      expect(registry.getUnlocked(new Set())).toHaveLength(0);
     });
   });
 });
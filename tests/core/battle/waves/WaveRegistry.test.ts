@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WaveDefinition,
+  WaveRegistry,
+  registerValidWaves,
+  validateWaveDefinition,
+} from '../../../../src/core/battle/waves';
+import { createBattleRegistries, waveDefinitions } from '../../../../src/data/battle';
+
+const { units } = createBattleRegistries();
+
+function wave(overrides: Partial<WaveDefinition> = {}): WaveDefinition {
+  return {
+    id: 'test',
+    name: 'Test',
+    wave: 5,
+    squads: [{ type: 'hound', count: 2 }],
+    ...overrides,
+  };
+}
+
+describe('WaveRegistry', () => {
+  it('prefers a single-wave definition over a range, and narrower ranges over wider', () => {
+    const registry = new WaveRegistry();
+    registry.registerAll([
+      wave({ id: 'wide', wave: undefined, waves: { from: 1, to: 20 } }),
+      wave({ id: 'narrow', wave: undefined, waves: { from: 5, to: 8 } }),
+      wave({ id: 'single', wave: 6 }),
+    ]);
+
+    expect(registry.getForWave(6)?.id).toBe('single');
+    expect(registry.getForWave(7)?.id).toBe('narrow');
+    expect(registry.getForWave(12)?.id).toBe('wide');
+    expect(registry.getForWave(21)).toBeUndefined();
+  });
+});
+
+describe('validateWaveDefinition', () => {
+  it('accepts a well-formed definition', () => {
+    expect(validateWaveDefinition(wave(), units)).toEqual([]);
+  });
+
+  it('rejects bad waves, patterns, squads and rules', () => {
+    expect(validateWaveDefinition(wave({ waves: { from: 1, to: 3 } }), units)).toContain(
+      'set either wave or waves, not both'
+    );
+    expect(validateWaveDefinition(wave({ pattern: 'nope' }), units)).toContain(
+      'unknown formation pattern: nope'
+    );
+    expect(validateWaveDefinition(wave({ squads: [{ type: 'castle' }] }), units)).toEqual([
+      'squad 0 (castle): unknown or stationary unit type',
+    ]);
+    expect(validateWaveDefinition(wave({ rules: { levelBonus: -1 } }), units)).toContain(
+      'rules.levelBonus must be a non-negative integer'
+    );
+  });
+
+  it('rejects pinned cells outside the zone or on a castle', () => {
+    const pinned = (col: number, row: number) =>
+      validateWaveDefinition(wave({ squads: [{ type: 'hound', cell: { col, row } }] }), units);
+
+    expect(pinned(30, 4)).toEqual([]);
+    expect(pinned(30, 40)).toEqual(['squad 0 (hound): cell is outside the enemy deployment zone']);
+    expect(pinned(21, 11)).toEqual([
+      'squad 0 (hound): cell overlaps a castle or another pinned squad',
+    ]);
+  });
+});
+
+describe('registerValidWaves', () => {
+  it('registers valid definitions and reports the rest', () => {
+    const registry = new WaveRegistry();
+    const errors = registerValidWaves(
+      registry,
+      [wave(), wave({ id: 'again' }), wave({ id: 'empty', wave: 9, squads: [] })],
+      units
+    );
+
+    expect(registry.getAll().map((def) => def.id)).toEqual(['test']);
+    expect(errors).toEqual([
+      'again: wave 5 is already scripted',
+      'empty: wave has no enemy squads',
+    ]);
+  });
+
+  it('accepts every shipped wave script', () => {
+    expect(registerValidWaves(new WaveRegistry(), waveDefinitions, units)).toEqual([]);
+  });
+});
@@ -109,9 +109,9 @@ describe('DossierData', () => {
     });
 
     it('calculates rate for wave 10 cleared in 10 seconds', () => {
-      // Wave 10 gold = floor(10 * (1 + 10 * 0.1)) = 20
+      // Wave 10 is a boss wave: gold = floor(10 * (1 + 10 * 0.1) * 3) = 60
       const rate = calculateVestPerSecond(10, 10);
-      expect(rate).toBe(2); // 20 gold / 10 seconds
+      expect(rate).toBe(6); // 60 gold / 10 seconds
     });
 
     it('returns 0 for zero clear time', () => {
@@ -131,13 +131,13 @@ describe('DossierData', () => {
 
     it('sums rates across all recorded waves', () => {
       // Wave 1: 11 gold / 11s = 1.0/s
-      // Wave 10: 20 gold / 10s = 2.0/s
-      // Total = 3.0/s
+      // Wave 10 (boss): 60 gold / 10s = 6.0/s
+      // Total = 7.0/s
       const dossier: DossierData = {
         ...DEFAULT_DOSSIER,
         fastestTimes: { 1: 11, 10: 10 },
       };
-      expect(calculateTotalVestPerSecond(dossier)).toBe(3);
+      expect(calculateTotalVestPerSecond(dossier)).toBe(7);
     });
 
     it('handles single wave', () => {
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { IPersistenceAdapter } from '../../../src/core/persistence/IPersistenceAdapter';
+import {
+  SaveMigrationError,
+  SaveMigrationRegistry,
+  getSaveBackupKey,
+  loadMigratedSave,
+} from '../../../src/core/persistence/SaveMigrations';
+import { SaveManager } from '../../../src/core/persistence/SaveManager';
+
+/**
+ * In-memory persistence adapter for tests.
+ */
+class MemoryAdapter implements IPersistenceAdapter {
+  readonly data = new Map<string, string>();
+
+  async save(key: string, data: string): Promise<void> {
+    this.data.set(key, data);
+  }
+
+  async load(key: string): Promise<string | null> {
+    return this.data.get(key) ?? null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.data.has(key);
+  }
+}
+
+const KEY = 'test_save';
+
+describe('SaveMigrationRegistry', () => {
+  let registry: SaveMigrationRegistry;
+
+  beforeEach(() => {
+    registry = new SaveMigrationRegistry();
+    registry.register(KEY, 3, {
+      1: (data) => ({ ...data, gold: data.coins, coins: undefined }),
+      2: (data) => ({ ...data, gold: (data.gold as number) * 10 }),
+    });
+  });
+
+  it('runs migrations in order and stamps each version', () => {
+    const result = registry.migrate(KEY, { version: 1, coins: 5 });
+
+    expect(result).toEqual({
+      data: { version: 3, gold: 50, coins: undefined },
+      fromVersion: 1,
+      migrated: true,
+    });
+  });
+
+  it('starts from the middle of the chain', () => {
+    expect(registry.migrate(KEY, { version: 2, gold: 5 }).data.gold).toBe(50);
+  });
+
+  it('treats saves without a version as the initial version', () => {
+    expect(registry.migrate(KEY, { coins: 1 }).data).toMatchObject({ version: 3, gold: 10 });
+  });
+
+  it('leaves current and newer saves untouched', () => {
+    expect(registry.migrate(KEY, { version: 3, gold: 1 }).migrated).toBe(false);
+    expect(registry.migrate(KEY, { version: 9, gold: 1 }).data).toEqual({ version: 9, gold: 1 });
+  });
+
+  it('does not mutate the input', () => {
+    const data = { version: 1, coins: 5 };
+    registry.migrate(KEY, data);
+    expect(data).toEqual({ version: 1, coins: 5 });
+  });
+
+  it('throws when a step is missing', () => {
+    const gapped = new SaveMigrationRegistry();
+    gapped.register(KEY, 3, { 2: (data) => data });
+
+    expect(() => gapped.migrate(KEY, { version: 1 })).toThrow(SaveMigrationError);
+  });
+
+  it('wraps migration failures', () => {
+    const failing = new SaveMigrationRegistry();
+    failing.register(KEY, 2, {
+      1: () => {
+        throw new Error('boom');
+      },
+    });
+
+    expect(() => failing.migrate(KEY, { version: 1 })).toThrow(/migration from v1 failed: boom/);
+  });
+
+  it('rejects duplicate and out-of-range migrations', () => {
+    expect(() => registry.addMigration(KEY, 1, (data) => data)).toThrow();
+    expect(() => registry.addMigration(KEY, 3, (data) => data)).toThrow();
+    expect(() => registry.getCurrentVersion('unknown')).toThrow();
+  });
+});
+
+describe('loadMigratedSave', () => {
+  let adapter: MemoryAdapter;
+  let registry: SaveMigrationRegistry;
+
+  beforeEach(() => {
+    adapter = new MemoryAdapter();
+    registry = new SaveMigrationRegistry();
+    registry.register(KEY, 2, { 1: (data) => ({ ...data, vest: data.gold }) });
+  });
+
+  it('returns null when nothing is saved', async () => {
+    expect(await loadMigratedSave(adapter, KEY, { registry })).toBeNull();
+  });
+
+  it('returns current saves as-is without a backup', async () => {
+    const json = JSON.stringify({ version: 2, vest: 7 });
+    adapter.data.set(KEY, json);
+
+    expect(await loadMigratedSave(adapter, KEY, { registry })).toBe(json);
+    expect(adapter.data.size).toBe(1);
+  });
+
+  it('backs up the original and writes the migrated save', async () => {
+    const original = JSON.stringify({ version: 1, gold: 7 });
+    adapter.data.set(KEY, original);
+
+    const json = await loadMigratedSave(adapter, KEY, { registry });
+
+    expect(JSON.parse(json!)).toEqual({ version: 2, gold: 7, vest: 7 });
+    expect(adapter.data.get(KEY)).toBe(json);
+    expect(adapter.data.get(getSaveBackupKey(KEY, 1))).toBe(original);
+  });
+
+  it('keeps the backup and returns null when migration fails', async () => {
+    const failing = new SaveMigrationRegistry();
+    failing.register(KEY, 2, {
+      1: () => {
+        throw new Error('boom');
+      },
+    });
+    const original = JSON.stringify({ version: 1, gold: 7 });
+    adapter.data.set(KEY, original);
+
+    expect(await loadMigratedSave(adapter, KEY, { registry: failing })).toBeNull();
+    expect(adapter.data.get(KEY)).toBe(original);
+    expect(adapter.data.get(getSaveBackupKey(KEY, 1))).toBe(original);
+  });
+
+  it('passes unparseable saves through to the caller', async () => {
+    adapter.data.set(KEY, 'not json');
+    expect(await loadMigratedSave(adapter, KEY, { registry })).toBe('not json');
+  });
+});
+
+describe('SaveManager migrations', () => {
+  it('loads a save migrated from an older version', async () => {
+    const adapter = new MemoryAdapter();
+    const registry = new SaveMigrationRegistry();
+    registry.register('action_idle_save', 2, {
+      1: (data) => ({ ...data, totalEarned: data.currency }),
+    });
+    adapter.data.set(
+      'action_idle_save',
+      JSON.stringify({ version: 1, currency: '1e3', upgrades: {}, lastTick: 0 })
+    );
+
+    const state = await new SaveManager(adapter, undefined, registry).loadGame();
+
+    expect(state?.totalEarned.toNumber()).toBe(1000);
+    expect(adapter.data.has(getSaveBackupKey('action_idle_save', 1))).toBe(true);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Prestige Manager Tests
+ *
+ * Tests for pure functions in PrestigeManager and meta upgrade modifiers.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BattleUpgradeRegistry } from '../../../src/core/battle/upgrades/BattleUpgradeRegistry';
+import { UpgradeApplicator } from '../../../src/core/battle/upgrades/UpgradeApplicator';
+import { DEFAULT_BATTLE_SETTINGS } from '../../../src/core/battle/BattleSettings';
+import {
+  applyPrestige,
+  calculatePrestigeShards,
+  canPrestige,
+  createInitialPrestigeState,
+  deserializePrestigeState,
+  getNextShardWave,
+  isValidSerializedPrestigeState,
+  purchaseMetaUpgrade,
+  resetBattleSettingsForPrestige,
+  serializePrestigeState,
+} from '../../../src/core/prestige';
+import { createBattleRegistries } from '../../../src/data/battle';
+
+describe('PrestigeManager', () => {
+  let registry: BattleUpgradeRegistry;
+
+  beforeEach(() => {
+    registry = new BattleUpgradeRegistry();
+    registry.register({
+      id: 'meta_test',
+      name: 'Meta Test',
+      description: 'Test meta upgrade',
+      scope: 'global',
+      upgradeType: 'stat_modifier',
+      modifiers: [{ id: 'meta_test_health', target: 'maxHealth', type: 'percent', value: 0.05 }],
+      baseCost: 5,
+      costMultiplier: 2,
+      maxLevel: 2,
+      prerequisites: [],
+    });
+  });
+
+  describe('calculatePrestigeShards', () => {
+    it('matches the design doc examples', () => {
+      expect(calculatePrestigeShards(150, 0)).toBe(5);
+      expect(calculatePrestigeShards(200, 5)).toBe(15);
+    });
+
+    it('awards nothing at or below the minimum wave', () => {
+      expect(calculatePrestigeShards(50, 3)).toBe(0);
+      expect(calculatePrestigeShards(109, 0)).toBe(0);
+    });
+
+    it('rounds bonus shards down', () => {
+      // 5 × 1.1 = 5.5
+      expect(calculatePrestigeShards(150, 1)).toBe(5);
+    });
+  });
+
+  describe('getNextShardWave', () => {
+    it('returns the wave of the next base shard', () => {
+      expect(getNextShardWave(20)).toBe(110);
+      expect(getNextShardWave(157)).toBe(160);
+      expect(getNextShardWave(160)).toBe(170);
+    });
+  });
+
+  describe('applyPrestige', () => {
+    it('awards shards and counts the prestige', () => {
+      const state = applyPrestige({ ...createInitialPrestigeState(registry), shards: 2 }, 150);
+
+      expect(state.shards).toBe(7);
+      expect(state.prestigeCount).toBe(1);
+    });
+
+    it('returns the same state when no shards would be awarded', () => {
+      const state = createInitialPrestigeState(registry);
+
+      expect(canPrestige(state, 105)).toBe(false);
+      expect(applyPrestige(state, 105)).toBe(state);
+    });
+  });
+
+  describe('resetBattleSettingsForPrestige', () => {
+    it('resets waves and gold but keeps preferences', () => {
+      const settings = resetBattleSettingsForPrestige({
+        ...DEFAULT_BATTLE_SETTINGS,
+        autoBattle: true,
+        battleSpeed: 3,
+        waveNumber: 140,
+        highestWave: 150,
+        gold: 9000,
+      });
+
+      expect(settings).toMatchObject({
+        autoBattle: true,
+        battleSpeed: 3,
+        waveNumber: 1,
+        highestWave: 1,
+        gold: 0,
+      });
+    });
+  });
+
+  describe('purchaseMetaUpgrade', () => {
+    it('spends shards on the upgrade', () => {
+      const state = purchaseMetaUpgrade(
+        { ...createInitialPrestigeState(registry), shards: 20 },
+        registry,
+        'meta_test'
+      );
+
+      expect(state.shards).toBe(15);
+      expect(state.metaUpgradeStates.meta_test.level).toBe(1);
+    });
+
+    it('returns the same state if unaffordable', () => {
+      const state = { ...createInitialPrestigeState(registry), shards: 4 };
+
+      expect(purchaseMetaUpgrade(state, registry, 'meta_test')).toBe(state);
+    });
+  });
+
+  describe('serialization', () => {
+    it('round-trips and drops unknown upgrades', () => {
+      const state = purchaseMetaUpgrade(
+        { ...createInitialPrestigeState(registry), shards: 20, prestigeCount: 3 },
+        registry,
+        'meta_test'
+      );
+      const serialized = serializePrestigeState(state);
+      const withRemoved = {
+        ...serialized,
+        metaUpgradeStates: {
+          ...serialized.metaUpgradeStates,
+          removed: { upgradeId: 'removed', level: 1, totalSpent: 1 },
+        },
+      };
+
+      expect(isValidSerializedPrestigeState(withRemoved)).toBe(true);
+      expect(deserializePrestigeState(withRemoved, registry)).toEqual(state);
+    });
+
+    it('rejects malformed data', () => {
+      expect(isValidSerializedPrestigeState(null)).toBe(false);
+      expect(isValidSerializedPrestigeState({ shards: '5', prestigeCount: 0 })).toBe(false);
+    });
+  });
+});
+
+describe('meta upgrade modifiers', () => {
+  it('apply through UpgradeApplicator with the prestige source', () => {
+    const registries = createBattleRegistries();
+    const applicator = new UpgradeApplicator(registries.metaUpgrades, 'prestige');
+    const state = purchaseMetaUpgrade(
+      { ...createInitialPrestigeState(registries.metaUpgrades), shards: 100 },
+      registries.metaUpgrades,
+      'meta_battle_hardened'
+    );
+
+    const modifiers = applicator.getActiveModifiers(
+      registries.units.get('hound'),
+      state.metaUpgradeStates
+    );
+
+    expect(modifiers.length).toBeGreaterThan(0);
+    expect(modifiers.every((mod) => mod.source === 'prestige')).toBe(true);
+    expect(modifiers.find((mod) => mod.modifier.target === 'maxHealth')?.sourceId).toBe(
+      'prestige_meta_hardened_health_lv1'
+    );
+  });
+});
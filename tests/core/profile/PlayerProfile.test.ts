@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { IPersistenceAdapter } from '../../../src/core/persistence/IPersistenceAdapter';
+import { SaveMigrationRegistry } from '../../../src/core/persistence/SaveMigrations';
+import {
+  PlayerProfile,
+  computeProfileChecksum,
+  exportPlayerProfile,
+  importPlayerProfile,
+} from '../../../src/core/profile';
+import { deserializeAllyLayout } from '../../../src/core/battle/deployment/LayoutPersistence';
+
+/**
+ * In-memory persistence adapter for tests.
+ */
+class MemoryAdapter implements IPersistenceAdapter {
+  readonly data = new Map<string, string>();
+
+  async save(key: string, data: string): Promise<void> {
+    this.data.set(key, data);
+  }
+
+  async load(key: string): Promise<string | null> {
+    return this.data.get(key) ?? null;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return this.data.has(key);
+  }
+}
+
+const SAVES: Record<string, unknown> = {
+  action_idle_save: { currency: '100', totalEarned: '500', upgrades: {}, lastTick: 1, version: 1 },
+  battle_settings: {
+    version: 2,
+    autoBattle: true,
+    battleSpeed: 2,
+    waveNumber: 7,
+    highestWave: 9,
+    gold: 40,
+    stayOnWave: true,
+    lastSavedAt: 1000,
+  },
+  battle_dossier: { version: 1, fastestTimes: { 1: 12.5, 2: 30 } },
+  action_idle_assembly: {
+    vest: 250,
+    upgradeStates: {},
+    roster: { hound: { squads: 2, level: 1 } },
+    highestWave: 9,
+    lifetimeHighestWave: 9,
+    unitsKilled: { fang: 40 },
+    version: 4,
+  },
+  battle_ally_layout: { version: 1, placements: [{ type: 'hound', col: 3, row: 20 }] },
+  action_idle_prestige: { shards: 7, prestigeCount: 2, metaUpgradeStates: {}, version: 1 },
+};
+
+function fillSaves(adapter: MemoryAdapter): void {
+  for (const [key, value] of Object.entries(SAVES)) {
+    adapter.data.set(key, JSON.stringify(value));
+  }
+}
+
+/** Rebuild a profile with edited sections and a valid checksum */
+function withSections(json: string, sections: PlayerProfile['sections']): string {
+  const profile = JSON.parse(json) as PlayerProfile;
+  return JSON.stringify({ ...profile, sections, checksum: computeProfileChecksum(sections) });
+}
+
+describe('PlayerProfile', () => {
+  let source: MemoryAdapter;
+  let target: MemoryAdapter;
+
+  beforeEach(() => {
+    source = new MemoryAdapter();
+    target = new MemoryAdapter();
+    fillSaves(source);
+  });
+
+  it('round-trips every save', async () => {
+    const json = await exportPlayerProfile(source, 1000);
+    const result = await importPlayerProfile(target, json);
+
+    expect(result).toEqual({
+      success: true,
+      sections: ['game', 'battleSettings', 'dossier', 'assembly', 'allyLayout', 'prestige'],
+    });
+    for (const [key, value] of Object.entries(SAVES)) {
+      expect(JSON.parse(target.data.get(key)!)).toEqual(value);
+    }
+    expect(deserializeAllyLayout(target.data.get('battle_ally_layout')!)).toEqual({
+      placements: [{ type: 'hound', col: 3, row: 20 }],
+    });
+  });
+
+  it('exports only saves that exist and deletes the rest on import', async () => {
+    source.data.delete('battle_ally_layout');
+    fillSaves(target);
+
+    const json = await exportPlayerProfile(source);
+    expect(JSON.parse(json).sections.allyLayout).toBeUndefined();
+
+    await importPlayerProfile(target, json);
+    expect(target.data.has('battle_ally_layout')).toBe(false);
+    expect(target.data.has('battle_dossier')).toBe(true);
+  });
+
+  it('rejects non-profiles', async () => {
+    expect(await importPlayerProfile(target, 'garbage')).toEqual({
+      success: false,
+      errors: ['Not a profile file'],
+    });
+    expect(await importPlayerProfile(target, '{"format":"other"}')).toMatchObject({
+      success: false,
+    });
+  });
+
+  it('rejects a profile whose checksum does not match', async () => {
+    const profile = JSON.parse(await exportPlayerProfile(source)) as PlayerProfile;
+    profile.sections.dossier = JSON.stringify({ version: 1, fastestTimes: { 1: 1 } });
+
+    const result = await importPlayerProfile(target, JSON.stringify(profile));
+
+    expect(result.success).toBe(false);
+    expect(target.data.size).toBe(0);
+  });
+
+  it('writes nothing if any section is invalid', async () => {
+    fillSaves(target);
+    const original = new Map(target.data);
+    const json = await exportPlayerProfile(source);
+    const profile = JSON.parse(json) as PlayerProfile;
+
+    const result = await importPlayerProfile(
+      target,
+      withSections(json, {
+        ...profile.sections,
+        battleSettings: JSON.stringify({ ...SAVES.battle_settings, gold: 9999 }),
+        assembly: JSON.stringify({ vest: 'lots' }),
+      })
+    );
+
+    expect(result).toEqual({ success: false, errors: ['Assembly: invalid save data'] });
+    expect(target.data).toEqual(original);
+  });
+
+  it('rejects corrupted battle settings and dossier sections', async () => {
+    const json = withSections(await exportPlayerProfile(source), {
+      battleSettings: JSON.stringify({ ...SAVES.battle_settings, gold: 'lots' }),
+      dossier: JSON.stringify({ version: 1, fastestTimes: { 1: -5 } }),
+    });
+
+    const result = await importPlayerProfile(target, json);
+
+    expect(result).toEqual({
+      success: false,
+      errors: ['Battle settings: invalid save data', 'Dossier: invalid save data'],
+    });
+    expect(target.data.size).toBe(0);
+  });
+
+  it('migrates old sections before validating them', async () => {
+    const registry = new SaveMigrationRegistry();
+    for (const [key, value] of Object.entries(SAVES)) {
+      registry.register(key, (value as { version: number }).version);
+    }
+    registry.register('action_idle_assembly', 4, {
+      3: (data) => ({ ...data, vest: (data.credits as number) ?? 0 }),
+    });
+    const json = withSections(await exportPlayerProfile(source), {
+      assembly: JSON.stringify({
+        credits: 75,
+        upgradeStates: {},
+        roster: {},
+        highestWave: 2,
+        unitsKilled: {},
+        version: 3,
+      }),
+    });
+
+    const result = await importPlayerProfile(target, json, registry);
+
+    expect(result.success).toBe(true);
+    expect(JSON.parse(target.data.get('action_idle_assembly')!)).toMatchObject({
+      vest: 75,
+      version: 4,
+    });
+  });
+
+  it('rejects sections saved by a newer version', async () => {
+    const json = withSections(await exportPlayerProfile(source), {
+      dossier: JSON.stringify({ version: 99, fastestTimes: {} }),
+    });
+
+    const result = await importPlayerProfile(target, json);
+
+    expect(result.success).toBe(false);
+    expect(target.data.size).toBe(0);
+  });
+});